@@ -0,0 +1,25 @@
+/**
+ * Payment Type Utility Tests (White Box)
+ *
+ * Tests mapping parsed payment types onto the Credit/Debit/Cash chips
+ */
+
+import { toPaymentTypeChip } from '@/utils/paymentType';
+
+describe('toPaymentTypeChip', () => {
+  it('maps cash and debit payment types', () => {
+    expect(toPaymentTypeChip('Cash')).toBe('Cash');
+    expect(toPaymentTypeChip('Debit Card')).toBe('Debit');
+  });
+
+  it('maps cards and wallets to Credit', () => {
+    expect(toPaymentTypeChip('Visa')).toBe('Credit');
+    expect(toPaymentTypeChip('Apple Pay')).toBe('Credit');
+    expect(toPaymentTypeChip('Card')).toBe('Credit');
+  });
+
+  it('returns null when no payment type was read', () => {
+    expect(toPaymentTypeChip(null)).toBeNull();
+    expect(toPaymentTypeChip('')).toBeNull();
+  });
+});
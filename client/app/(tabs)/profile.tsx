@@ -22,7 +22,7 @@ export default function ProfileScreen() {
   const { user, profile, logout, updateProfile } = useAuth();
   const [loading, setLoading] = useState(false);
   const [isEditModalVisible, setIsEditModalVisible] = useState(false);
-  const { exportToGoogleSheets, exporting } = useGoogleSheetsExport();
+  const { exportToGoogleSheets, syncToGoogleSheets, exporting, syncing } = useGoogleSheetsExport();
 
   const handleSaveProfile = async (updatedProfile: Partial<Profile>) => {
     await updateProfile(updatedProfile);
@@ -61,6 +61,14 @@ export default function ProfileScreen() {
     exportToGoogleSheets(profile.id);
   };
 
+  const handleSyncToGoogleSheets = () => {
+    if (!profile?.id) {
+      Alert.alert('Error', 'No profile found. Please log in again.');
+      return;
+    }
+    syncToGoogleSheets(profile.id);
+  };
+
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
       {/* Header */}
@@ -100,6 +108,17 @@ export default function ProfileScreen() {
         textStyle={styles.exportButtonText}
       />
 
+      {/* Sync to Google Sheets Button (keeps one sheet up to date) */}
+      <Button
+        title="Sync to Google Sheets"
+        onPress={handleSyncToGoogleSheets}
+        variant="primary"
+        loading={syncing}
+        disabled={syncing}
+        style={styles.exportButton}
+        textStyle={styles.exportButtonText}
+      />
+
       {/* Settings Options */}
       <SettingsSection
         onNotificationsPress={() => Alert.alert('Notifications', 'Coming soon!')}
@@ -11,6 +11,7 @@ export default function ReceiptDetails() {
   const [receipt, setReceipt] = useState<any | null>(null);
   const [loading, setLoading] = useState(true);
   const [transaction, setTransaction] = useState<any | null>(null);
+  const [imageUri, setImageUri] = useState<string | null>(null);
   const [imageLoading, setImageLoading] = useState(true);
   const [imageError, setImageError] = useState(false);
 
@@ -33,12 +34,18 @@ export default function ReceiptDetails() {
 
       // Fetch receipt details
       if (profile?.id) {
+        const userId = profile.id;
         console.log('🧾 [RECEIPT DETAILS] Fetching receipt:', tx.receiptId);
-        receiptService.getReceipt(profile.id, tx.receiptId)
+        receiptService.getReceipt(userId, tx.receiptId)
           .then((res) => {
             console.log('🧾 [RECEIPT DETAILS] Receipt data:', res.data);
-            console.log('🧾 [RECEIPT DETAILS] Image URL:', res.data?.imageUrl);
             setReceipt(res.data);
+            if (res.data?.hasImage) {
+              // Images are served through short-lived signed links
+              receiptService.getReceiptImage(userId, tx.receiptId)
+                .then((image) => setImageUri(image.data.url))
+                .catch((err) => console.error('❌ [RECEIPT DETAILS] Failed to link receipt image:', err));
+            }
           })
           .catch((err) => {
             console.error('❌ [RECEIPT DETAILS] Failed to load receipt:', err);
@@ -117,7 +124,7 @@ export default function ReceiptDetails() {
 
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.contentContainer}>
         {/* Receipt Image */}
-        {receipt.imageUrl && (
+        {imageUri && (
           <View style={styles.imageContainer}>
             {imageLoading && (
               <View style={styles.imageLoadingContainer}>
@@ -128,12 +135,12 @@ export default function ReceiptDetails() {
             {imageError && (
               <View style={styles.imageErrorContainer}>
                 <Text style={styles.imageErrorText}>Failed to load receipt image</Text>
-                <Text style={styles.imageErrorSubtext}>Image URL: {receipt.imageUrl?.slice(0, 50)}...</Text>
+                <Text style={styles.imageErrorSubtext}>Image URL: {imageUri.slice(0, 50)}...</Text>
               </View>
             )}
             {!imageError && (
               <Image
-                source={{ uri: receipt.imageUrl }}
+                source={{ uri: imageUri }}
                 style={styles.receiptImage}
                 resizeMode="contain"
                 onLoadStart={() => {
@@ -147,7 +154,7 @@ export default function ReceiptDetails() {
                 }}
                 onError={(error) => {
                   console.error('❌ [RECEIPT DETAILS] Image failed to load:', error.nativeEvent.error);
-                  console.error('❌ [RECEIPT DETAILS] Image URL:', receipt.imageUrl);
+                  console.error('❌ [RECEIPT DETAILS] Image URL:', imageUri);
                   setImageLoading(false);
                   setImageError(true);
                 }}
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import {
     View,
     Text,
@@ -12,14 +12,39 @@ import {
 import * as ImagePicker from "expo-image-picker";
 import { useRouter } from "expo-router";
 import { useAuth } from "@/contexts/AuthContext";
+import { firebaseService } from "@/services/firebase.service";
+
+// Scans run on the server in the background; the screen polls the scan job
+const SCAN_POLL_INTERVAL_MS = 1500;
+const SCAN_TIMEOUT_MS = 3 * 60 * 1000;
+
+const STAGE_LABELS = {
+    ocr: "Reading receipt text",
+    parse: "Finding items and totals",
+    categorize: "Choosing a category",
+    upload: "Saving receipt image",
+    save: "Saving receipt",
+};
+
+const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
 
     export default function ReceiptScanner() {
     const router = useRouter();
     const { profile } = useAuth();
     const [imageUri, setImageUri] = useState(null);
     const [loading, setLoading] = useState(false);
+    const [scanJob, setScanJob] = useState(null);
+    const mountedRef = useRef(true);
     const backendURL = process.env.EXPO_PUBLIC_API_URL?.replace('/api/v1', '') || "http://localhost:3000";
 
+    // Stop polling when the screen is closed
+    useEffect(() => {
+        mountedRef.current = true;
+        return () => {
+            mountedRef.current = false;
+        };
+    }, []);
+
     // Pick receipt image
     const pickImage = async () => {
         const result = await ImagePicker.launchImageLibraryAsync({
@@ -46,9 +71,12 @@ import { useAuth } from "@/contexts/AuthContext";
         });
 
         try {
-        // Create AbortController for custom timeout (2 minutes)
+        const token = await firebaseService.refreshToken();
+
+        // Create AbortController for custom timeout (1 minute); the upload
+        // returns as soon as the scan is queued
         const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 120000); // 120 seconds
+        const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 seconds
 
         const response = await fetch(
             `${backendURL}/api/v1/users/${profile.id}/receipts/scan`,
@@ -58,6 +86,7 @@ import { useAuth } from "@/contexts/AuthContext";
             headers: {
                 Accept: "application/json",
                 "Content-Type": "multipart/form-data",
+                Authorization: `Bearer ${token}`,
             },
             signal: controller.signal,
             }
@@ -66,33 +95,81 @@ import { useAuth } from "@/contexts/AuthContext";
         clearTimeout(timeoutId);
 
         const data = await response.json();
-        console.log("🧾 Extracted Receipt Data:", data);
 
-        if (data.success && data.data) {
+        if (!response.ok) {
+            // 400/413/415/429 carry a message the user can act on
+            const message = response.status < 500 && data.error
+            ? data.error
+            : "Failed to extract receipt data. Try again.";
+            Alert.alert("Error", message);
+            return;
+        }
+
+        setScanJob(data);
+        const job = await waitForScanJob(data.id, token);
+        if (!job) return; // Screen was closed
+        console.log("🧾 Extracted Receipt Data:", job.result);
+
+        if (job.status === "completed" && job.result?.data) {
             router.push({
             pathname: "/transaction-confirm",
             params: {
-                extractedData: JSON.stringify(data.data),
-                receiptId: data.id, // Pass the receipt ID from backend
+                extractedData: JSON.stringify(job.result.data),
+                receiptId: job.result.id, // Pass the receipt ID from backend
                 backendURL,
                 userId: profile.id,
             },
             });
         } else {
-            Alert.alert("Error", "Failed to extract receipt data. Try again.");
+            Alert.alert("Error", job.error || "Failed to extract receipt data. Try again.");
         }
         } catch (error) {
         console.error("Upload failed:", error);
-        if (error.name === 'AbortError') {
+        if (error.name === 'AbortError' || error.name === 'TimeoutError') {
             Alert.alert("Timeout", "Receipt processing took too long. Please try again or use a simpler receipt.");
         } else {
             Alert.alert("Error", "Something went wrong while uploading.");
         }
         } finally {
-        setLoading(false);
+        if (mountedRef.current) {
+            setLoading(false);
+            setScanJob(null);
+        }
         }
     };
 
+    // Poll the scan job until it completes or fails; null if the screen is closed first
+    const waitForScanJob = async (jobId, token) => {
+        const deadline = Date.now() + SCAN_TIMEOUT_MS;
+
+        while (Date.now() < deadline) {
+        await wait(SCAN_POLL_INTERVAL_MS);
+        if (!mountedRef.current) return null;
+
+        const response = await fetch(
+            `${backendURL}/api/v1/users/${profile.id}/receipts/jobs/${jobId}`,
+            {
+            headers: {
+                Accept: "application/json",
+                Authorization: `Bearer ${token}`,
+            },
+            }
+        );
+        const job = await response.json();
+        if (!response.ok) {
+            throw new Error(job.error || `Failed to get scan status (${response.status})`);
+        }
+        if (!mountedRef.current) return null;
+
+        setScanJob(job);
+        if (job.status === "completed" || job.status === "failed") return job;
+        }
+
+        const timeoutError = new Error("Receipt scan timed out");
+        timeoutError.name = "TimeoutError";
+        throw timeoutError;
+    };
+
     return (
         <View style={styles.container}>
             <View style={styles.contentContainer}>
@@ -131,7 +208,19 @@ import { useAuth } from "@/contexts/AuthContext";
                 {loading && (
                 <View style={styles.loadingContainer}>
                     <ActivityIndicator size="large" color="#10b981" />
-                    <Text style={styles.loadingText}>Processing receipt...</Text>
+                    <Text style={styles.loadingText}>
+                    {scanJob
+                        ? `${STAGE_LABELS[scanJob.stage] ?? "Processing receipt"}...`
+                        : "Uploading receipt..."}
+                    </Text>
+                    {scanJob && (
+                    <View style={styles.progressTrack}>
+                        <View style={[styles.progressFill, { width: `${scanJob.progress}%` }]} />
+                    </View>
+                    )}
+                    {scanJob?.attempts > 0 && (
+                    <Text style={styles.retryText}>Retrying a step that failed...</Text>
+                    )}
                 </View>
                 )}
             </View>
@@ -187,4 +276,14 @@ import { useAuth } from "@/contexts/AuthContext";
     uploadText: { color: "#fff", fontWeight: "bold" },
     loadingContainer: { marginTop: 20, alignItems: "center" },
     loadingText: { color: "#9CA3AF", marginTop: 8 },
+    progressTrack: {
+        width: 200,
+        height: 6,
+        borderRadius: 3,
+        backgroundColor: "#333",
+        marginTop: 12,
+        overflow: "hidden",
+    },
+    progressFill: { height: "100%", backgroundColor: "#10b981" },
+    retryText: { color: "#6B7280", fontSize: 12, marginTop: 8 },
 });
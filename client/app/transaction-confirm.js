@@ -9,6 +9,7 @@ import categoryPreferencesService from "@/services/categoryPreferences.service";
 import transactionService from "@/services/transaction.service";
 import { DEFAULT_NEW_CATEGORY_COLOR, getColorForNewCategory } from "@/constants/categoryColors";
 import { emit, on } from "@/utils/events";
+import { PAYMENT_TYPE_CHIPS, toPaymentTypeChip } from "@/utils/paymentType";
 
 export default function TransactionConfirm() {
     const router = useRouter();
@@ -26,8 +27,17 @@ export default function TransactionConfirm() {
     const normalizedCategory = data.category === "misc" ? "Uncategorized" : data.category;
     const [categoryId, setCategoryId] = useState(normalizedCategory || "");
     const [categoryBuckets, setCategoryBuckets] = useState([]);
-    const [paymentType, setPaymentType] = useState("Credit");
-    const paymentTypes = ["Credit", "Debit", "Cash"];
+    // Receipts that print a card brand or CASH come back with it
+    const [paymentType, setPaymentType] = useState(toPaymentTypeChip(data.paymentType) || "Credit");
+    const paymentTypes = PAYMENT_TYPE_CHIPS;
+
+    // Line items read from the receipt, and the total split by their categories
+    const lineItems = Array.isArray(data.lineItems) ? data.lineItems : [];
+    const receiptWarnings = data.reconciliation?.warnings || [];
+    const categorySplits = Array.isArray(data.categorySplits) ? data.categorySplits : [];
+    const [splitByItem, setSplitByItem] = useState(false);
+    // The suggested splits add up to the scanned total, so they only apply while it's unchanged
+    const canSplitByItem = categorySplits.length > 1 && Math.abs(parseFloat(amount) - Number(data.total)) < 0.005;
 
     // Load categories
     useEffect(() => {
@@ -184,6 +194,46 @@ export default function TransactionConfirm() {
         return () => unsubscribe();
     }, [profile?.id, categoryBuckets]);
 
+    // Finds a category by name among all of the user's categories (enabling it if it was
+    // unchecked) or creates it, and returns its ID
+    const findOrCreateCategory = async (name) => {
+        const allCatsRes = await categoryService.getCategories(profile.id);
+        const allCats = Array.isArray(allCatsRes.data) ? allCatsRes.data : [];
+        const existingCategory = allCats.find((c) =>
+            String(c.name || '').toLowerCase() === name.toLowerCase()
+        );
+
+        if (existingCategory) {
+            const existingId = existingCategory.id || existingCategory._id;
+            await categoryPreferencesService.enableCategory(profile.id, String(existingId));
+            return existingId;
+        }
+
+        const created = await categoryServiceWritable.createCategory(profile.id, {
+            name,
+            type: "expense",
+            userId: profile.id,
+            color: getColorForNewCategory(allCats),
+        });
+        const createdId = created.data.id || created.data._id;
+        // Auto-enable newly created category
+        await categoryPreferencesService.enableCategory(profile.id, String(createdId));
+        emit("categories:changed");
+        return createdId;
+    };
+
+    // Turns the suggested per-category splits ("food", "misc") into transaction splits
+    const resolveCategorySplits = async () => {
+        const splits = [];
+        for (const split of categorySplits) {
+            const name = split.category.charAt(0).toUpperCase() + split.category.slice(1);
+            const visible = categoryBuckets.find((c) => c.id !== "ai" && c.label.toLowerCase() === name.toLowerCase());
+            const splitCategoryId = visible ? visible.id : await findOrCreateCategory(name);
+            splits.push({ categoryId: String(splitCategoryId), amount: split.amount });
+        }
+        return splits;
+    };
+
     const saveTransaction = async () => {
         console.log("💾 Save transaction clicked");
         console.log("Data:", { merchant, amount, categoryId, profile: profile?.id });
@@ -208,65 +258,23 @@ export default function TransactionConfirm() {
 
             if (selected && selected.id === 'ai') {
                 // AI suggested category - check if it exists in all categories (not just visible ones)
-                const allCatsRes = await categoryService.getCategories(profile.id);
-                const allCats = Array.isArray(allCatsRes.data) ? allCatsRes.data : [];
-                const existingCategory = allCats.find((c) =>
-                    String(c.name || '').toLowerCase() === cleanCategoryName.toLowerCase()
-                );
-
-                if (existingCategory) {
-                    // Use existing category and enable it
-                    resolvedCategoryId = existingCategory.id || existingCategory._id;
-                    await categoryPreferencesService.enableCategory(profile.id, String(resolvedCategoryId));
-                } else {
-                    // Create new category from AI suggestion
-                    const allCatsForColor = await categoryService.getCategories(profile.id);
-                    const newColor = getColorForNewCategory(Array.isArray(allCatsForColor.data) ? allCatsForColor.data : []);
-                    const created = await categoryServiceWritable.createCategory(profile.id, {
-                        name: cleanCategoryName,
-                        type: "expense",
-                        userId: profile.id,
-                        color: newColor,
-                    });
-                    resolvedCategoryId = created.data.id || created.data._id;
-                    // Auto-enable newly created category
-                    await categoryPreferencesService.enableCategory(profile.id, String(resolvedCategoryId));
-                    emit("categories:changed");
-                }
+                resolvedCategoryId = await findOrCreateCategory(cleanCategoryName);
             } else if (selected) {
                 // Existing category selected (already visible, so already enabled)
                 resolvedCategoryId = selected.id;
             } else if (!selected && profile?.id) {
                 // Custom category manually typed - check if it exists but is unchecked
-                const allCatsRes = await categoryService.getCategories(profile.id);
-                const allCats = Array.isArray(allCatsRes.data) ? allCatsRes.data : [];
-                const existingCategory = allCats.find((c) =>
-                    String(c.name || '').toLowerCase() === cleanCategoryName.toLowerCase()
-                );
-
-                if (existingCategory) {
-                    // Category exists but was unchecked - use it and enable it
-                    resolvedCategoryId = existingCategory.id || existingCategory._id;
-                    await categoryPreferencesService.enableCategory(profile.id, String(resolvedCategoryId));
-                } else {
-                    // Create new category
-                    const allCatsForColor = await categoryService.getCategories(profile.id);
-                    const newColor = getColorForNewCategory(Array.isArray(allCatsForColor.data) ? allCatsForColor.data : []);
-                    const created = await categoryServiceWritable.createCategory(profile.id, {
-                        name: cleanCategoryName,
-                        type: "expense",
-                        userId: profile.id,
-                        color: newColor,
-                    });
-                    resolvedCategoryId = created.data.id || created.data._id;
-                    // Auto-enable newly created category
-                    await categoryPreferencesService.enableCategory(profile.id, String(resolvedCategoryId));
-                    emit("categories:changed");
-                }
+                resolvedCategoryId = await findOrCreateCategory(cleanCategoryName);
             }
 
-            // Format date to ISO 8601 datetime string
-            const dateTimeISO = date ? new Date(date).toISOString() : new Date().toISOString();
+            // Format date to ISO 8601 datetime string; phrases like "yesterday" go through the server parser
+            let dateTimeISO = new Date().toISOString();
+            if (date && !isNaN(new Date(date).getTime())) {
+                dateTimeISO = new Date(date).toISOString();
+            } else if (date) {
+                const parsed = await transactionService.parseTransactionText(date);
+                if (parsed.data?.dateTime?.value) dateTimeISO = parsed.data.dateTime.value;
+            }
 
             // BOTH FLOWS: Create transaction in MongoDB
             // Note: Receipt scanning already created the receipt in ReceiptService.processReceipt()
@@ -279,6 +287,7 @@ export default function TransactionConfirm() {
                 paymentType: paymentType,
                 categoryId: resolvedCategoryId,
                 ...(receiptId && { receiptId }), // Link to receipt if this came from receipt scanning
+                ...(splitByItem && canSplitByItem && { splits: await resolveCategorySplits() }),
             };
 
             console.log("💾 Creating transaction with payload:", transactionPayload);
@@ -323,6 +332,44 @@ export default function TransactionConfirm() {
                     keyboardType="decimal-pad"
                 />
 
+                {receiptWarnings.map((warning) => (
+                    <Text key={warning} style={styles.warning}>⚠️ {warning}</Text>
+                ))}
+
+                {lineItems.length > 0 && (
+                    <>
+                    <Text style={styles.label}>Items</Text>
+                    {lineItems.map((item, index) => (
+                        <View key={`${item.description}-${index}`} style={styles.lineItem}>
+                            <Text style={styles.lineItemText} numberOfLines={1}>
+                                {item.quantity !== 1 ? `${item.quantity} × ` : ""}{item.description}
+                                {item.category ? `  · ${item.category}` : ""}
+                            </Text>
+                            <Text style={styles.lineItemText}>{Number(item.total).toFixed(2)}</Text>
+                        </View>
+                    ))}
+                    {["subtotal", "tax", "tip"].filter((key) => data[key] != null).map((key) => (
+                        <View key={key} style={styles.lineItem}>
+                            <Text style={styles.lineItemMuted}>{key.charAt(0).toUpperCase() + key.slice(1)}</Text>
+                            <Text style={styles.lineItemMuted}>{Number(data[key]).toFixed(2)}</Text>
+                        </View>
+                    ))}
+                    </>
+                )}
+
+                {canSplitByItem && (
+                    <TouchableOpacity onPress={() => setSplitByItem(!splitByItem)} style={styles.splitToggle}>
+                        <Text style={[styles.chip, splitByItem && styles.chipSelected]}>
+                            {splitByItem ? "✓ " : ""}Split by item category
+                        </Text>
+                        {splitByItem && (
+                            <Text style={styles.lineItemMuted}>
+                                {categorySplits.map((split) => `${split.category} ${split.amount.toFixed(2)}`).join(" · ")}
+                            </Text>
+                        )}
+                    </TouchableOpacity>
+                )}
+
                 <Text style={styles.label}>Description</Text>
                 <TextInput
                     style={styles.input}
@@ -428,6 +475,11 @@ const styles = StyleSheet.create({
     chip: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 18, backgroundColor: "#222", color: "#fff", borderWidth: 1, borderColor: "#333", marginRight: 8, marginBottom: 8 },
     chipSelected: { backgroundColor: "#10b981", borderColor: "#10b981", color: "#fff" },
     aiChip: { backgroundColor: "#2563EB", borderColor: "#2563EB", color: "#fff" },
+    warning: { color: "#F59E0B", fontSize: 12, marginTop: 8 },
+    lineItem: { flexDirection: "row", justifyContent: "space-between", paddingVertical: 2 },
+    lineItemText: { color: "#fff", fontSize: 13, flexShrink: 1 },
+    lineItemMuted: { color: "#9CA3AF", fontSize: 12 },
+    splitToggle: { marginTop: 8 },
     preview: { width: "100%", height: 180, borderRadius: 8, marginTop: 10 },
     footer: {
         position: "absolute",
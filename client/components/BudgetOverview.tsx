@@ -16,6 +16,18 @@ import categoryPreferencesService from '@/services/categoryPreferences.service';
 import { on } from '@/utils/events';
 import { emit } from '@/utils/events';
 
+/**
+ * Finds the budget whose period contains the given date. Budgets carry their
+ * own start and end dates, since a period may start on a custom day.
+ */
+function findCurrentBudget(budgets: any[], date: Date) {
+  return budgets.find((b: any) => {
+    if (b.startDate && b.endDate) {
+      return new Date(b.startDate) <= date && date <= new Date(b.endDate);
+    }
+    return b.month === date.getMonth() + 1 && b.year === date.getFullYear();
+  });
+}
 
 export default function BudgetOverview({ editTransactionParam }: { editTransactionParam?: string }) {
   const { profile, refreshToken } = useAuth();
@@ -71,19 +83,11 @@ export default function BudgetOverview({ editTransactionParam }: { editTransacti
         ])
           .then(([bRes, tRes, cRes, prefs]) => {
             if (!mounted) return;
-            const budgets = bRes.data || [];
-
-            // Pick budget for current month
-            const now = new Date();
-            const currentMonth = now.toLocaleString(undefined, { month: 'long' });
-            const currentYear = now.getFullYear();
+            // Category budgets are tracked separately; the overview shows the overall budget
+            const budgets = (bRes.data || []).filter((b: any) => !b.categoryId);
 
-            const currentMonthBudget = budgets.find((b: any) =>
-              b.month === currentMonth && b.year === currentYear
-            );
-
-            // If no budget for current month, pick the most recent one
-            const chosen = currentMonthBudget || (budgets.length ? budgets[0] : null);
+            // If no budget covers today, pick the most recent one
+            const chosen = findCurrentBudget(budgets, new Date()) || (budgets.length ? budgets[0] : null);
             setBudget(chosen);
 
             const txs = Array.isArray(tRes.data) ? tRes.data : [];
@@ -105,19 +109,11 @@ export default function BudgetOverview({ editTransactionParam }: { editTransacti
     const handler = () => {
       Promise.all([budgetService.getBudgets(profile.id), transactionService.getTransactions(profile.id), categoryService.getCategories(profile.id), categoryPreferencesService.getCategoryPreferences(profile.id)])
         .then(([bRes, tRes, cRes, prefs]) => {
-          const budgets = bRes.data || [];
-
-          // Pick budget for current month
-          const now = new Date();
-          const currentMonth = now.toLocaleString(undefined, { month: 'long' });
-          const currentYear = now.getFullYear();
-
-          const currentMonthBudget = budgets.find((b: any) =>
-            b.month === currentMonth && b.year === currentYear
-          );
+          // Category budgets are tracked separately; the overview shows the overall budget
+          const budgets = (bRes.data || []).filter((b: any) => !b.categoryId);
 
-          // If no budget for current month, pick the most recent one
-          const chosen = currentMonthBudget || (budgets.length ? budgets[0] : null);
+          // If no budget covers today, pick the most recent one
+          const chosen = findCurrentBudget(budgets, new Date()) || (budgets.length ? budgets[0] : null);
           setBudget(chosen);
           const txs = Array.isArray(tRes.data) ? tRes.data : [];
           setTransactions(txs);
@@ -288,12 +284,14 @@ export default function BudgetOverview({ editTransactionParam }: { editTransacti
 
   const totalSpent = useMemo(() => visibleTransactions.reduce((s, t) => s + (t.amount || 0), 0), [visibleTransactions]);
 
-  // Calculate current month's spending for budget display (always current month, regardless of filters)
+  // Calculate the budget period's spending for budget display (regardless of filters).
+  // Budgets with a custom start day run e.g. the 15th to the 14th.
   const currentMonthSpent = useMemo(() => {
     const now = new Date();
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-    const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-    endOfMonth.setHours(23, 59, 59, 999);
+    const covering = budget?.startDate && budget?.endDate && new Date(budget.startDate) <= now && now <= new Date(budget.endDate);
+    const startOfMonth = covering ? new Date(budget.startDate) : new Date(now.getFullYear(), now.getMonth(), 1);
+    const endOfMonth = covering ? new Date(budget.endDate) : new Date(now.getFullYear(), now.getMonth() + 1, 0);
+    if (!covering) endOfMonth.setHours(23, 59, 59, 999);
 
     return transactions
       .filter((t) => {
@@ -301,7 +299,7 @@ export default function BudgetOverview({ editTransactionParam }: { editTransacti
         return txDate >= startOfMonth && txDate <= endOfMonth;
       })
       .reduce((s, t) => s + (t.amount || 0), 0);
-  }, [transactions]);
+  }, [transactions, budget]);
 
   const grouped = useMemo(() => {
     const m = new Map<string, { key: string; label: string; total: number; txs: any[] }>();
@@ -603,7 +601,7 @@ export default function BudgetOverview({ editTransactionParam }: { editTransacti
                       setBudget(updated);
                     } else {
                       const now = new Date();
-                      const month = now.toLocaleString(undefined, { month: 'long' });
+                      const month = now.getMonth() + 1;
                       const year = now.getFullYear();
                       const remainingCalc = Math.max(0, parsedAmount - currentMonthSpent);
                       const res = await budgetService.createBudget(profile.id, { userId: profile.id, month, year, amount: parsedAmount, remaining: remainingCalc });
@@ -4,34 +4,29 @@ import categoryService, { categoryServiceWritable } from '@/services/category.se
 import categoryPreferencesService from '@/services/categoryPreferences.service';
 import huggingfaceService from '@/services/huggingface.service';
 import transactionService from '@/services/transaction.service';
-import { extractAmount } from '@/utils/amount';
 import { mapTextToBucketByKeywords } from '@/utils/category';
 import { emit, on } from '@/utils/events';
+import { PAYMENT_TYPE_CHIPS, toPaymentTypeChip } from '@/utils/paymentType';
 import {
   AudioModule, RecordingPresets, setAudioModeAsync,
   useAudioRecorder, useAudioRecorderState
 } from 'expo-audio';
-import Constants from 'expo-constants';
 import { useEffect, useState } from 'react';
 import { Alert, Button, Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
-const ASSEMBLYAI_API_KEY: string | undefined = Constants.expoConfig?.extra?.ASSEMBLYAI_API_KEY;
-
 export default function VoiceRecorder() {
   type CategoryChip = { id: string; label: string; serverId?: string };
   const capitalize = (s: string) => String(s || '').replace(/\b\w/g, (m) => m.toUpperCase()).trim();
   const [audioUri, setAudioUri] = useState<string | null>(null);
   const [transcription, setTranscription] = useState<string | null>(null);
-  const [transcriptRaw, setTranscriptRaw] = useState<any | null>(null);
-  const [assemblyUploadUrl, setAssemblyUploadUrl] = useState<string | null>(null);
   const [vendorName, setVendorName] = useState('');
   const [amount, setAmount] = useState('');
-  const [parsedPaymentType, setParsedPaymentType] = useState<string | null>(null);
+  const [currency, setCurrency] = useState<string | null>(null);
   const [parsedDateISO, setParsedDateISO] = useState<string | null>(null);
+  const [splitWith, setSplitWith] = useState('');
   const [categoryId, setCategoryId] = useState('uncategorized');
   const [selectedPaymentType, setSelectedPaymentType] = useState('Credit');
   const [isProcessing, setIsProcessing] = useState(false);
-  const paymentTypes = ['Credit', 'Debit', 'Cash'];
   const [categoryBuckets, setCategoryBuckets] = useState<CategoryChip[]>([]);
 
   const [categoryModalVisible, setCategoryModalVisible] = useState(false);
@@ -198,8 +193,6 @@ export default function VoiceRecorder() {
     try {
       // Clear previous transaction data that was not saved
       setTranscription(null);
-      setTranscriptRaw(null);
-      setAssemblyUploadUrl(null);
       setVendorName('');
       setAmount('');
       setCategoryId('uncategorized');
@@ -217,13 +210,8 @@ export default function VoiceRecorder() {
       const uri = recorder.uri;
       setAudioUri(uri);
       if (uri) {
-        const res = await sendToAssemblyAI(uri);
-        if (res) {
-          setTranscription(res.text);
-          setTranscriptRaw(res.transcript || null);
-          setAssemblyUploadUrl(res.upload_url || null);
-        } else {
-        }
+        const text = await transcribeRecording(uri);
+        if (text) setTranscription(text);
       }
     } catch (e) {
       console.error('Failed to stop recording', e);
@@ -292,165 +280,33 @@ export default function VoiceRecorder() {
     }
   }, [categoryBuckets]);
 
-  // Get amount from transcription
-  useEffect(() => {
-    if (!transcription) return;
-    const amt = extractAmount(transcription);
-    if (amt !== null) {
-      setAmount(String(Number(amt).toFixed(2)));
-    }
-  }, [transcription]);
-
-  useEffect(() => {
-    if (!transcription) return;
-    // capture vendor but avoid grabbing trailing time phrases like "this morning" or filler like "for some food"
-    // stop before common delimiters: this/today/yesterday/tomorrow/on/in/at/for or punctuation
-    const atMatch = transcription.match(/(?:at|from)\s+([\w&\.\'\- ]+?)(?=(?:\s+(?:this|today|yesterday|tomorrow|on|in|at|for)\b|[.,]|$))/i);
-    if (atMatch) {
-      let vendor = atMatch[1].trim().replace(/[\.,]$/, '');
-  vendor = vendor.replace(/\b(this|today|yesterday|tomorrow|this morning|this evening|this afternoon)\b/gi, '').trim();
-  vendor = vendor.replace(/\bfor\s+(?:some\s+)?(?:food|coffee|lunch|dinner|breakfast|snack|a meal|takeout|some)\b/gi, '').trim();
-  vendor = vendor.replace(/\b(?:using|via|with|on)\s+(?:my\s+)?(?:credit card|debit card|visa|mastercard|amex|american express|apple pay|google pay|gpay|card|card)\b/gi, '').trim();
-  vendor = vendor.replace(/\b(?:using|via|with|on)\b.*$/i, '').trim();
-  vendor = vendor.replace(/\bfor\b.*$/i, '').trim();
-      if (!vendorName && vendor) setVendorName(vendor);
-    }
-  }, [transcription]);
-
-  // Extract payment type from transcription
-  useEffect(() => {
-    if (!transcription) return;
-    const lowerText = transcription.toLowerCase();
-
-    // Check for "credit" or "credit card" mentions
-    if (lowerText.match(/\b(credit|credit card)\b/i)) {
-      setSelectedPaymentType('Credit');
-      return;
-    }
-
-    // Check for "debit" or "debit card" mentions
-    if (lowerText.match(/\b(debit|debit card)\b/i)) {
-      setSelectedPaymentType('Debit');
-      return;
-    }
-
-    // Check for "cash" mentions
-    if (lowerText.match(/\bcash\b/i)) {
-      setSelectedPaymentType('Cash');
-      return;
-    }
-
-    // Default to Credit if no payment type is mentioned
-    // (already initialized to 'Credit' in state, so no need to set again)
-  }, [transcription]);
-
-  const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-
-  const extractShortDescription = (text: string, vendor: string | null) => {
-    if (!text) return '';
-    let s = String(text);
-    if (vendor) {
-      try {
-        const v = escapeRegex(vendor);
-        s = s.replace(new RegExp('(?:at|from)\\s+' + v, 'i'), '');
-      } catch (e) {
-        // ignore regex errors
-      }
-    }
-    s = s.replace(/\$\s*[0-9]+(?:\.[0-9]{1,2})?|[0-9]+(?:\.[0-9]{1,2})?\s*(?:dollars|bucks|usd)\b/gi, '');
-    s = s.replace(/\b(visa|mastercard|master card|amex|american express|credit card|debit card|debit|cash|apple pay|google pay|gpay)\b/gi, '');
-    s = s.replace(/\b(i\s+(spent|bought|paid|purchased)|spent|bought|paid|purchased|for|cost|on|at)\b/gi, '');
-    const timeMatch = s.match(/\b(this\s+(morning|afternoon|evening|night)|this morning|today|yesterday|tomorrow)\b/i);
-    let timeWord = null as string | null;
-    if (timeMatch) {
-      const w = (timeMatch[2] || timeMatch[1] || '').toString();
-      timeWord = w.replace(/this\s+/i, '').trim().toLowerCase();
-      s = s.replace(timeMatch[0], '');
-    }
-    s = s.replace(/\b(a|an|the|my|the)\b/gi, ' ');
-    s = s.replace(/\s+/g, ' ').trim();
-    const parts = s.split(' ').filter(Boolean);
-    let noun = parts.length ? parts[parts.length - 1] : '';
-    if (/^cup$/i.test(noun) && parts.length >= 2) noun = parts[parts.length - 2];
-    let desc = '';
-    if (timeWord) desc = `${timeWord} ${noun}`.trim();
-    else desc = noun || s.slice(0, 30);
-    desc = capitalize(desc || '').trim();
-    if (!desc) desc = capitalize(text.slice(0, Math.min(30, text.length))).trim();
-    return desc;
-  };
-
-  // Parse payment type and date from transcription
-  const parsePaymentType = (text: string): string | null => {
-    if (!text) return null;
-    const t = text.toLowerCase();
-    if (/\b(visa)\b/.test(t)) return 'Visa';
-    if (/\b(mastercard|master card|master-card)\b/.test(t)) return 'Mastercard';
-    if (/\b(amex|american express)\b/.test(t)) return 'Amex';
-    if (/\b(credit card|credit)\b/.test(t)) return 'Credit Card';
-    if (/\b(debit card|debit)\b/.test(t)) return 'Debit Card';
-    if (/\b(cash)\b/.test(t)) return 'Cash';
-    if (/\b(apple pay|applepay)\b/.test(t)) return 'Apple Pay';
-    if (/\b(google pay|googlepay|gpay)\b/.test(t)) return 'Google Pay';
-    return null;
-  };
-
-  const parseDateFromText = (text: string): string | null => {
-    if (!text) return null;
-    const t = text.toLowerCase();
-    const now = new Date();
-    if (/\byesterday\b/.test(t)) {
-      return new Date(now.getTime() - 24 * 3600 * 1000).toISOString();
-    }
-    if (/\btoday\b/.test(t)) return now.toISOString();
-    if (/\btomorrow\b/.test(t)) return new Date(now.getTime() + 24 * 3600 * 1000).toISOString();
-
-    // ISO date like yyyy-mm-dd
-    const iso = text.match(/\b(\d{4}-\d{2}-\d{2})\b/);
-    if (iso) {
-      const d = new Date(iso[1]);
-      if (!isNaN(d.getTime())) return d.toISOString();
-    }
-
-    // common mm/dd/yyyy or m/d/yy
-    const md = text.match(/\b(\d{1,2}\/\d{1,2}\/\d{2,4})\b/);
-    if (md) {
-      const parsed = new Date(md[1]);
-      if (!isNaN(parsed.getTime())) return parsed.toISOString();
-    }
-
-    // 'on Mon #' or 'on Month Day, Year' pattern
-    const monthPattern = /\b(?:on\s*)?(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|jun(?:e)?|jul(?:y)?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)[\s.,]*(\d{1,2})(?:st|nd|rd|th)?(?:[\s,]*(\d{4}))?/i;
-    const m = text.match(monthPattern);
-    if (m) {
-      const months = { jan:0,feb:1,mar:2,apr:3,may:4,jun:5,jul:6,aug:7,sep:8,oct:9,nov:10,dec:11 } as Record<string, number>;
-      const monKey = m[1].slice(0,3).toLowerCase();
-      const monthIdx = months[monKey];
-      const day = parseInt(m[2], 10);
-      const year = m[3] ? parseInt(m[3], 10) : now.getFullYear();
-      const d = new Date(year, monthIdx, day);
-      if (!isNaN(d.getTime())) return d.toISOString();
-    }
-
-    return null;
-  };
-
+  // Read vendor, amount, currency, payment type, date and split from the transcription on the server
   useEffect(() => {
     if (!transcription) {
-      setParsedPaymentType(null);
       setParsedDateISO(null);
+      setSplitWith('');
       return;
     }
-    try {
-      const pt = parsePaymentType(transcription || '');
-      const dt = parseDateFromText(transcription || '');
-      setParsedPaymentType(pt);
-      setParsedDateISO(dt);
-    } catch (err) {
-      console.warn('Failed parsing payment/date from transcription', err);
-      setParsedPaymentType(null);
-      setParsedDateISO(null);
-    }
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await transactionService.parseTransactionText(transcription);
+        if (cancelled) return;
+        const draft = res.data;
+        const vendor = draft.vendorName?.value;
+        if (vendor) setVendorName((current) => current || vendor);
+        if (typeof draft.amount?.value === 'number') setAmount(draft.amount.value.toFixed(2));
+        // Leave unset when not spoken so the server uses the home currency
+        setCurrency(draft.currency?.value ?? null);
+        const paymentType = toPaymentTypeChip(draft.paymentType?.value);
+        if (paymentType) setSelectedPaymentType(paymentType);
+        setParsedDateISO(draft.dateTime?.value ?? null);
+        setSplitWith((draft.participants?.value ?? []).join(', '));
+      } catch (err) {
+        console.warn('Failed to parse transcription', err);
+      }
+    })();
+    return () => { cancelled = true; };
   }, [transcription]);
 
   const saveTransaction = async () => {
@@ -527,6 +383,7 @@ export default function VoiceRecorder() {
     };
 
     const resolvedCategoryId = await resolveCategoryForPayload();
+    const participantNames = Array.from(new Set(splitWith.split(',').map((name) => name.trim()).filter(Boolean)));
 
     const payload = {
       userId: profile.id,
@@ -534,12 +391,10 @@ export default function VoiceRecorder() {
       description: transcription,
       dateTime: parsedDateISO || new Date().toISOString(),
       amount: parsedAmount,
+      ...(currency ? { currency } : {}),
       paymentType: selectedPaymentType,
       categoryId: resolvedCategoryId || 'misc',
-      assembly: {
-        uploadUrl: assemblyUploadUrl,
-        transcript: transcriptRaw,
-      },
+      ...(participantNames.length ? { participants: participantNames.map((name) => ({ name })) } : {}),
     };
 
     try {
@@ -549,6 +404,8 @@ export default function VoiceRecorder() {
         // Reset all state
         setVendorName('');
         setAmount('');
+        setCurrency(null);
+        setSplitWith('');
         setCategoryId('uncategorized');
         setTranscription(null);
         setAudioUri(null);
@@ -635,7 +492,7 @@ export default function VoiceRecorder() {
                   style={styles.input}
                 />
 
-                <Text style={styles.fieldLabel}>Amount</Text>
+                <Text style={styles.fieldLabel}>{currency ? `Amount (${currency})` : 'Amount'}</Text>
                 <TextInput
                   value={amount}
                   onChangeText={setAmount}
@@ -644,9 +501,17 @@ export default function VoiceRecorder() {
                   style={styles.input}
                 />
 
+                <Text style={styles.fieldLabel}>Split With</Text>
+                <TextInput
+                  value={splitWith}
+                  onChangeText={setSplitWith}
+                  placeholder="Names, comma separated (e.g. Sam, Alex)"
+                  style={styles.input}
+                />
+
                 <Text style={styles.fieldLabel}>Payment Type</Text>
                 <View style={styles.chipsRow}>
-                  {paymentTypes.map((type) => (
+                  {PAYMENT_TYPE_CHIPS.map((type) => (
                     <TouchableOpacity
                       key={type}
                       onPress={() => setSelectedPaymentType(type)}
@@ -768,58 +633,23 @@ export default function VoiceRecorder() {
   );
 }
 
-const sendToAssemblyAI = async (uri: string) => {
+// Transcribed on the server so speech-to-text keys never ship in the app
+const transcribeRecording = async (uri: string) => {
   try {
-    if (!ASSEMBLYAI_API_KEY) {
-      throw new Error('Missing ASSEMBLYAI_API_KEY in app.json -> expo.extra.* (restart Metro after editing).');
-    }
-
-    const safeJson = async (res: Response) => {
-      const ct = res.headers.get('content-type') || '';
-      const body = await res.text();
-      if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}\n${body.slice(0,300)}`);
-      if (!ct.includes('application/json')) throw new Error(`Expected JSON, got "${ct}". Body: ${body.slice(0,300)}`);
-      return JSON.parse(body);
-    };
-
-    const file = await fetch(uri);
-    const blob = await file.blob();
-
-    // Upload
-    const upRes = await fetch('https://api.assemblyai.com/v2/upload', {
-      method: 'POST',
-      headers: { Authorization: ASSEMBLYAI_API_KEY },
-      body: blob,
-    });
-    const up = await safeJson(upRes);
-    const audioUrl = up.upload_url;
-    if (!audioUrl) throw new Error(`No upload_url in response: ${JSON.stringify(up)}`);
-
-    // Create transcript
-    const trRes = await fetch('https://api.assemblyai.com/v2/transcript', {
-      method: 'POST',
-      headers: { Authorization: ASSEMBLYAI_API_KEY, 'Content-Type': 'application/json' },
-      body: JSON.stringify({ audio_url: audioUrl }),
-    });
-    const tr = await safeJson(trRes);
-    const id = tr.id;
-    if (!id) throw new Error(`No transcript id: ${JSON.stringify(tr)}`);
-
-    // Poll
-    for (;;) {
-      await new Promise(r => setTimeout(r, 3000));
-      const stRes = await fetch(`https://api.assemblyai.com/v2/transcript/${id}`, {
-        headers: { Authorization: ASSEMBLYAI_API_KEY },
-      });
-      const st = await safeJson(stRes);
-      if (st.status === 'completed') {
-        return { text: st.text, upload_url: audioUrl, transcript: st };
-      }
-      if (st.status === 'failed') throw new Error(`Transcription failed: ${JSON.stringify(st)}`);
+    const res = await huggingfaceService.transcribeAudio(uri);
+    if (!res.text) {
+      Alert.alert('Nothing heard', 'No speech was found in the recording. Try again.');
+      return undefined;
     }
-  } catch (err) {
-    console.error('Error sending to AssemblyAI:', err);
-    Alert.alert('AssemblyAI Error', String(err));
+    return res.text;
+  } catch (err: any) {
+    console.error('Error transcribing recording:', err);
+    // 4xx responses carry a message the user can act on
+    const status = err?.response?.status;
+    const message = status && status < 500 && err.response.data?.error
+      ? err.response.data.error
+      : 'Failed to transcribe the recording. Try again.';
+    Alert.alert('Transcription Error', message);
     return undefined;
   }
 };
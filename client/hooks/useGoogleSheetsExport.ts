@@ -1,69 +1,92 @@
 import { useState } from 'react';
 import { Alert, Linking } from 'react-native';
 import { googleSheetsService } from '@/services/googleSheets.service';
+import type {
+  AuthRequiredResponse,
+  ExportResponse,
+  SyncResponse,
+} from '@/services/googleSheets.service';
 import { API_URL } from '@/config/constants';
 
 interface UseGoogleSheetsExportResult {
   exportToGoogleSheets: (userId: string) => Promise<void>;
+  syncToGoogleSheets: (userId: string) => Promise<void>;
   exporting: boolean;
+  syncing: boolean;
+}
+
+/**
+ * Opens the Google OAuth consent screen in the browser
+ * @param authUrl - Auth URL from the server (absolute or relative to API_URL)
+ * @param action - What happens after authorization ("exported" or "synced")
+ */
+async function openAuthorization(authUrl: string, action: string): Promise<void> {
+  const url = authUrl.startsWith('http') ? authUrl : `${API_URL}${authUrl}`;
+  const canOpen = await Linking.canOpenURL(url);
+
+  if (canOpen) {
+    await Linking.openURL(url);
+    Alert.alert(
+      'Authorization Required',
+      `Please authorize Google Sheets access in your browser. After authorization, your transactions will be ${action} automatically.`,
+      [{ text: 'OK' }]
+    );
+  } else {
+    Alert.alert('Error', `Unable to open authorization URL: ${url}`);
+  }
+}
+
+/**
+ * Shows a result alert with a button that opens the sheet
+ */
+function showSheetResult(title: string, message: string, sheetUrl: string): void {
+  Alert.alert(title, message, [
+    { text: 'Cancel', style: 'cancel' },
+    {
+      text: 'Open Sheet',
+      onPress: async () => {
+        const canOpen = await Linking.canOpenURL(sheetUrl);
+        if (canOpen) {
+          await Linking.openURL(sheetUrl);
+        } else {
+          Alert.alert('Error', 'Unable to open Google Sheet');
+        }
+      },
+    },
+  ]);
 }
 
 /**
  * Custom hook for exporting transactions to Google Sheets
- * Handles OAuth flow, error handling, and loading state
+ * Handles OAuth flow, error handling, and loading state.
+ * Export creates a new spreadsheet each time; sync keeps one spreadsheet up to date.
  */
 export function useGoogleSheetsExport(): UseGoogleSheetsExportResult {
   const [exporting, setExporting] = useState(false);
+  const [syncing, setSyncing] = useState(false);
 
-  const exportToGoogleSheets = async (userId: string) => {
+  const run = async <T extends ExportResponse>(
+    userId: string,
+    request: (userId: string) => Promise<T | AuthRequiredResponse>,
+    setBusy: (busy: boolean) => void,
+    action: string,
+    onSuccess: (result: T) => void
+  ) => {
     if (!userId) {
       Alert.alert('Error', 'No profile found. Please log in again.');
       return;
     }
 
-    setExporting(true);
+    setBusy(true);
 
     try {
-      const result = await googleSheetsService.exportTransactions(userId);
+      const result = await request(userId);
 
       // Check if authorization is required
       if ('authUrl' in result) {
-        // Need to authorize - open OAuth URL
-        const authUrl = result.authUrl.startsWith('http')
-          ? result.authUrl
-          : `${API_URL}${result.authUrl}`;
-        const canOpen = await Linking.canOpenURL(authUrl);
-
-        if (canOpen) {
-          await Linking.openURL(authUrl);
-          Alert.alert(
-            'Authorization Required',
-            'Please authorize Google Sheets access in your browser. After authorization, your transactions will be exported automatically.',
-            [{ text: 'OK' }]
-          );
-        } else {
-          Alert.alert('Error', 'Unable to open authorization URL');
-        }
+        await openAuthorization(result.authUrl, action);
       } else if ('sheetUrl' in result && result.success) {
-        // Export successful - show success with link
-        Alert.alert(
-          'Export Successful',
-          `Successfully exported ${result.transactionCount} transactions to Google Sheets.`,
-          [
-            { text: 'Cancel', style: 'cancel' },
-            {
-              text: 'Open Sheet',
-              onPress: async () => {
-                const canOpen = await Linking.canOpenURL(result.sheetUrl);
-                if (canOpen) {
-                  await Linking.openURL(result.sheetUrl);
-                } else {
-                  Alert.alert('Error', 'Unable to open Google Sheet');
-                }
-              },
-            },
-          ]
-        );
+        onSuccess(result);
       }
     } catch (error: any) {
       // Handle 401 response (authorization required) - this is expected for first-time users
@@ -72,23 +95,7 @@ export function useGoogleSheetsExport(): UseGoogleSheetsExportResult {
 
         // Check if it's the "Google authorization required" response (expected behavior)
         if (errorData?.authUrl) {
-          const authUrl = errorData.authUrl.startsWith('http')
-            ? errorData.authUrl
-            : `${API_URL}${errorData.authUrl}`;
-
-          const canOpen = await Linking.canOpenURL(authUrl);
-
-          if (canOpen) {
-            await Linking.openURL(authUrl);
-            Alert.alert(
-              'Authorization Required',
-              'Please authorize Google Sheets access in your browser. After authorization, your transactions will be exported automatically.',
-              [{ text: 'OK' }]
-            );
-            return; // Exit early - this is expected behavior, not an error
-          } else {
-            Alert.alert('Error', `Unable to open authorization URL: ${authUrl}`);
-          }
+          await openAuthorization(errorData.authUrl, action);
         } else {
           // 401 but no authUrl - might be authentication issue
           const errorMessage =
@@ -99,22 +106,44 @@ export function useGoogleSheetsExport(): UseGoogleSheetsExportResult {
         }
       } else {
         // Other errors - log these as actual errors
-        console.error('Error exporting to Google Sheets:', error);
+        console.error(`Error ${action === 'synced' ? 'syncing' : 'exporting'} to Google Sheets:`, error);
         Alert.alert(
-          'Export Failed',
+          action === 'synced' ? 'Sync Failed' : 'Export Failed',
           error.response?.data?.error ||
             error.message ||
-            'Failed to export transactions. Please try again.'
+            `Failed to ${action === 'synced' ? 'sync' : 'export'} transactions. Please try again.`
         );
       }
     } finally {
-      setExporting(false);
+      setBusy(false);
     }
   };
 
+  const exportToGoogleSheets = (userId: string) =>
+    run<ExportResponse>(userId, googleSheetsService.exportTransactions, setExporting, 'exported', (result) => {
+      showSheetResult(
+        'Export Successful',
+        `Successfully exported ${result.transactionCount} transactions to Google Sheets.`,
+        result.sheetUrl
+      );
+    });
+
+  const syncToGoogleSheets = (userId: string) =>
+    run<SyncResponse>(userId, googleSheetsService.syncTransactions, setSyncing, 'synced', (result) => {
+      const changes = `${result.appended} added, ${result.updated} updated, ${result.removed} removed.`;
+      showSheetResult(
+        'Sync Complete',
+        result.created
+          ? `Created your Parrit sheet with ${result.transactionCount} transactions.`
+          : `Your Google Sheet is up to date: ${changes}`,
+        result.sheetUrl
+      );
+    });
+
   return {
     exportToGoogleSheets,
+    syncToGoogleSheets,
     exporting,
+    syncing,
   };
 }
-
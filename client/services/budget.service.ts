@@ -8,6 +8,13 @@ export const budgetService = {
   getBudgetById: (userId: string, id: string) => api.get(`/users/${userId}/budgets/${id}`),
   updateBudget: (userId: string, id: string, body: any) => api.put(`/users/${userId}/budgets/${id}`, body),
   createBudget: (userId: string, body: any) => api.post(`/users/${userId}/budgets`, body),
+  deleteBudget: (userId: string, id: string) => api.delete(`/users/${userId}/budgets/${id}`),
+  getBudgetHistory: (userId: string, year?: number) =>
+    api.get(`/users/${userId}/budgets/history`, { params: { year } }),
+  getBudgetStatus: (userId: string, month?: number, year?: number) =>
+    api.get(`/users/${userId}/budgets/status`, { params: { month, year } }),
+  copyBudgetsForward: (userId: string, month: number, year: number) =>
+    api.post(`/users/${userId}/budgets/copy-forward`, { month, year }),
 };
 
 export default budgetService;
@@ -1,7 +1,7 @@
 /**
  * Google Sheets Export Service
  *
- * Service for exporting transactions to Google Sheets via OAuth 2.0.
+ * Service for exporting and syncing transactions to Google Sheets via OAuth 2.0.
  */
 
 import api from './api';
@@ -13,6 +13,14 @@ export interface ExportResponse {
   transactionCount: number;
 }
 
+export interface SyncResponse extends ExportResponse {
+  spreadsheetId: string;
+  created: boolean;
+  appended: number;
+  updated: number;
+  removed: number;
+}
+
 export interface AuthRequiredResponse {
   error: string;
   authUrl: string;
@@ -30,6 +38,16 @@ export const googleSheetsService = {
     return response.data;
   },
 
+  /**
+   * Sync transactions into the user's Google Sheet, creating it on first use
+   * @param userId - The user ID
+   * @returns Sync response with row counts or auth URL if authorization needed
+   */
+  async syncTransactions(userId: string): Promise<SyncResponse | AuthRequiredResponse> {
+    const response = await api.post(`/users/${userId}/google/sync`);
+    return response.data;
+  },
+
   /**
    * Get Google OAuth authorization URL
    * @param userId - The user ID
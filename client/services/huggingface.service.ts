@@ -9,4 +9,28 @@ export async function categorizeTransaction(text: string): Promise<{ raw?: any;
   return res.data;
 }
 
-export default { categorizeTransaction };
+export interface TranscriptWord {
+  text: string;
+  start: number; // milliseconds from the start of the recording
+  end: number;
+  confidence?: number;
+}
+
+/**
+ * Sends a recording to the server-side speech-to-text proxy.
+ * Server handles calling the configured provider (AssemblyAI or Whisper).
+ */
+export async function transcribeAudio(uri: string): Promise<{ text: string; words: TranscriptWord[]; provider: string }> {
+  const fileName = uri.split('/').pop() || 'recording.m4a';
+  const extension = fileName.includes('.') ? fileName.split('.').pop() : 'm4a';
+  const formData = new FormData();
+  formData.append('file', { uri, name: fileName, type: `audio/${extension}` } as any);
+
+  const res = await api.post('/inference/transcribe', formData, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+    timeout: 120000,
+  });
+  return res.data;
+}
+
+export default { categorizeTransaction, transcribeAudio };
@@ -0,0 +1,30 @@
+import api from './api';
+
+export interface AppNotification {
+  id: string;
+  type: 'budget_threshold';
+  title: string;
+  message: string;
+  budgetId?: string;
+  threshold?: number;
+  read: boolean;
+  readAt?: string;
+  createdAt?: string;
+}
+
+export interface NotificationList {
+  notifications: AppNotification[];
+  unreadCount: number;
+}
+
+/**
+ * Notification API service (budget alerts feed)
+ */
+export const notificationService = {
+  getNotifications: (userId: string, params?: { unread?: boolean; limit?: number }) =>
+    api.get<NotificationList>(`/users/${userId}/notifications`, { params }),
+  markAsRead: (userId: string, id: string) => api.patch<AppNotification>(`/users/${userId}/notifications/${id}/read`),
+  markAllAsRead: (userId: string) => api.post<{ updated: number }>(`/users/${userId}/notifications/read-all`),
+};
+
+export default notificationService;
@@ -15,6 +15,7 @@ export interface UpdateProfileData {
   birthday?: string;
   nickname?: string;
   status?: string;
+  expoPushToken?: string | null;
 }
 
 export const profileService = {
@@ -18,6 +18,16 @@ export const receiptService = {
     return api.get(`/users/${userId}/receipts/${receiptId}`);
   },
 
+  /**
+   * Get a signed link to a receipt's image. The link expires, so ask for a
+   * new one each time the image is shown.
+   * @param userId backend profile id
+   * @param receiptId receipt document id
+   */
+  getReceiptImage: (userId: string, receiptId: string) => {
+    return api.get<{ url: string; expiresAt: string | null }>(`/users/${userId}/receipts/${receiptId}/image`);
+  },
+
   /**
    * Delete a receipt
    * @param userId backend profile id
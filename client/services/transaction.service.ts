@@ -12,12 +12,43 @@ export const transactionService = {
   getTransactions: (userId: string) => {
     return api.get(`/users/${userId}/transactions`);
   },
+  /**
+   * Fetch one page of transactions with server-side filtering and sorting.
+   * Pass the previous response's nextCursor as `cursor` to load the next page.
+   */
+  listTransactions: (userId: string, params: {
+    limit?: number;
+    cursor?: string;
+    startDate?: string;
+    endDate?: string;
+    categoryId?: string[];
+    paymentType?: string;
+    vendor?: string;
+    minAmount?: number;
+    maxAmount?: number;
+    sortBy?: 'dateTime' | 'amount' | 'vendorName' | 'createdAt';
+    sortOrder?: 'asc' | 'desc';
+  } = {}) => {
+    const { categoryId, ...rest } = params;
+    return api.get(`/users/${userId}/transactions`, {
+      params: { limit: 50, ...rest, ...(categoryId && categoryId.length ? { categoryId: categoryId.join(',') } : {}) },
+    });
+  },
   updateTransaction: (userId: string, id: string, payload: any) => {
     return api.put(`/users/${userId}/transactions/${id}`, payload);
   },
   deleteTransaction: (userId: string, id: string) => {
     return api.delete(`/users/${userId}/transactions/${id}`);
   },
+  /**
+   * Read a transaction draft out of spoken or typed text on the server.
+   * Each field comes back as { value, confidence }; value is null when it wasn't mentioned.
+   * Dates like "last Friday" are resolved in the device's time zone.
+   */
+  parseTransactionText: (text: string) => {
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return api.post('/inference/parse-transaction', { text, timeZone });
+  },
 };
 
 export default transactionService;
@@ -0,0 +1,16 @@
+// Payment types offered as chips when confirming a transaction
+export const PAYMENT_TYPE_CHIPS = ['Credit', 'Debit', 'Cash'];
+
+/**
+ * Maps a payment type read by the server parser ("Visa", "Debit Card", "Cash", ...)
+ * onto one of the chips. Cards and wallets count as Credit.
+ * Returns null when no payment type was read.
+ */
+export function toPaymentTypeChip(paymentType: string | null | undefined): string | null {
+  if (!paymentType) return null;
+  if (/cash/i.test(paymentType)) return 'Cash';
+  if (/debit/i.test(paymentType)) return 'Debit';
+  return 'Credit';
+}
+
+export default { PAYMENT_TYPE_CHIPS, toPaymentTypeChip };
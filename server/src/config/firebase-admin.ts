@@ -3,7 +3,8 @@
  *
  * Initializes Firebase Admin for server-side operations:
  * - JWT token verification
- * - Custom claims management (setting userId after profile creation)
+ * - Custom claims management (userId after profile creation, roles)
+ * - Account management for administrators (disable, look up sign-in state)
  *
  * Configuration is loaded from environment variable FIREBASE_SERVICE_ACCOUNT
  * which should contain the entire service account JSON as a string.
@@ -11,6 +12,7 @@
 
 import admin from 'firebase-admin';
 import type { DecodedIdToken } from 'firebase-admin/auth';
+import type { UserRole } from '../models/Admin';
 
 /**
  * Initialize Firebase Admin SDK with service account from environment variable
@@ -51,14 +53,16 @@ initializeFirebaseAdmin();
 
 /**
  * Verifies a Firebase ID token and returns the decoded token
+ * Also checks the account, so tokens of disabled users and tokens issued
+ * before the user's refresh tokens were revoked are rejected.
  *
  * @param idToken - The Firebase ID token to verify
  * @returns Decoded token containing user information and custom claims
- * @throws Error if token is invalid or expired
+ * @throws Error if token is invalid, expired or revoked, or the user is disabled
  */
 export async function verifyIdToken(idToken: string): Promise<DecodedIdToken> {
   try {
-    const decodedToken = await admin.auth().verifyIdToken(idToken);
+    const decodedToken = await admin.auth().verifyIdToken(idToken, true);
     return decodedToken;
   } catch (error) {
     console.error('Error verifying ID token:', error);
@@ -68,7 +72,8 @@ export async function verifyIdToken(idToken: string): Promise<DecodedIdToken> {
 
 /**
  * Sets custom claims on a Firebase user
- * Used after profile creation to add the MongoDB userId to the JWT
+ * Used after profile creation to add the MongoDB userId to the JWT.
+ * Other claims (such as roles) are kept.
  *
  * @param firebaseUid - The Firebase user ID
  * @param userId - The MongoDB user/profile ID to add as a custom claim
@@ -76,7 +81,8 @@ export async function verifyIdToken(idToken: string): Promise<DecodedIdToken> {
  */
 export async function setCustomUserClaims(firebaseUid: string, userId: string): Promise<void> {
   try {
-    await admin.auth().setCustomUserClaims(firebaseUid, { userId });
+    const user = await admin.auth().getUser(firebaseUid);
+    await admin.auth().setCustomUserClaims(firebaseUid, { ...user.customClaims, userId });
     console.log(`Custom claims set for user ${firebaseUid}: userId=${userId}`);
   } catch (error) {
     console.error('Error setting custom user claims:', error);
@@ -84,5 +90,78 @@ export async function setCustomUserClaims(firebaseUid: string, userId: string):
   }
 }
 
+/**
+ * Replaces the roles custom claim on a Firebase user
+ * Other claims are kept, except the legacy `admin` flag, which the roles
+ * claim supersedes. Added roles take effect when the user's token is next
+ * refreshed; removing a role also revokes the user's tokens, so ones that
+ * still carry it stop working at once and the user has to sign in again.
+ *
+ * @param firebaseUid - The Firebase user ID
+ * @param roles - The user's roles; empty for a regular user
+ * @throws Error if setting custom claims fails
+ */
+export async function setUserRoles(firebaseUid: string, roles: UserRole[]): Promise<void> {
+  try {
+    const user = await admin.auth().getUser(firebaseUid);
+    const { admin: legacyAdmin, ...claims } = user.customClaims ?? {};
+    await admin.auth().setCustomUserClaims(firebaseUid, { ...claims, roles });
+
+    const previousRoles: UserRole[] = Array.isArray(claims.roles) ? claims.roles : legacyAdmin === true ? ['admin'] : [];
+    if (previousRoles.some(role => !roles.includes(role))) {
+      await admin.auth().revokeRefreshTokens(firebaseUid);
+    }
+    console.log(`Roles set for user ${firebaseUid}: ${roles.join(', ') || 'none'}`);
+  } catch (error) {
+    console.error('Error setting user roles:', error);
+    throw error;
+  }
+}
+
+/**
+ * Disables or re-enables a Firebase user
+ * Disabling also revokes refresh tokens, so the user can't get new ID tokens;
+ * tokens already issued are rejected by verifyIdToken from then on.
+ *
+ * @param firebaseUid - The Firebase user ID
+ * @param disabled - Whether the account should be disabled
+ * @throws Error if updating the user fails
+ */
+export async function setUserDisabled(firebaseUid: string, disabled: boolean): Promise<void> {
+  try {
+    await admin.auth().updateUser(firebaseUid, { disabled });
+    if (disabled) {
+      await admin.auth().revokeRefreshTokens(firebaseUid);
+    }
+    console.log(`User ${firebaseUid} ${disabled ? 'disabled' : 'enabled'}`);
+  } catch (error) {
+    console.error('Error updating user status:', error);
+    throw error;
+  }
+}
+
+/**
+ * Looks up a Firebase user's account state
+ *
+ * @param firebaseUid - The Firebase user ID
+ * @returns Whether the account is disabled, its roles and last sign-in time
+ * @throws Error if the user doesn't exist or the lookup fails
+ */
+export async function getUserAccount(firebaseUid: string): Promise<{
+  disabled: boolean;
+  roles: UserRole[];
+  lastSignInAt: Date | null;
+}> {
+  const user = await admin.auth().getUser(firebaseUid);
+  const claims = user.customClaims ?? {};
+  const roles: UserRole[] = Array.isArray(claims.roles) ? claims.roles : claims.admin === true ? ['admin'] : [];
+
+  return {
+    disabled: user.disabled,
+    roles,
+    lastSignInAt: user.metadata.lastSignInTime ? new Date(user.metadata.lastSignInTime) : null,
+  };
+}
+
 // Export admin instance for direct access if needed
 export default admin;
@@ -124,6 +124,28 @@ Authorization: Bearer <your-jwt-token>
               description: 'User status',
               example: 'Active',
             },
+            homeCurrency: {
+              type: 'string',
+              description: 'ISO 4217 currency that reports and budgets are expressed in',
+              example: 'USD',
+            },
+            timeZone: {
+              type: 'string',
+              description: 'IANA time zone that spoken dates such as "last Friday" are resolved in',
+              example: 'America/Chicago',
+            },
+            googleSpreadsheetId: {
+              type: 'string',
+              nullable: true,
+              description: 'Google spreadsheet kept up to date by the Sheets sync',
+              example: '1AbCdEfGhIjKlMnOpQrStUvWxYz',
+            },
+            expoPushToken: {
+              type: 'string',
+              nullable: true,
+              description: 'Expo push token that budget alerts are sent to',
+              example: 'ExponentPushToken[xxxxxxxxxxxxxxxxxxxxxx]',
+            },
           },
         },
         Budget: {
@@ -143,9 +165,18 @@ Authorization: Bearer <your-jwt-token>
               example: '123e4567-e89b-12d3-a456-426614174000',
             },
             month: {
-              type: 'string',
-              description: 'Month for the budget',
-              example: 'January',
+              type: 'integer',
+              minimum: 1,
+              maximum: 12,
+              description: 'Month of the budget period (1-12)',
+              example: 1,
+            },
+            periodStartDay: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 28,
+              description: 'Day of the month the budget period starts; defaults to 1',
+              example: 1,
             },
             year: {
               type: 'string',
@@ -162,6 +193,11 @@ Authorization: Bearer <your-jwt-token>
               description: 'Remaining budget amount',
               example: 750.00,
             },
+            currency: {
+              type: 'string',
+              description: 'ISO 4217 currency of the budget; defaults to the user\'s home currency',
+              example: 'USD',
+            },
           },
         },
         Category: {
@@ -261,56 +297,150 @@ Authorization: Bearer <your-jwt-token>
         },
         Receipt: {
           type: 'object',
-          required: ['id', 'userId', 'vendorName', 'description', 'dateTime', 'amount', 'paymentType', 'categoryName', 'receiptImageUrl'],
+          required: ['id', 'userId', 'merchantName', 'amount', 'date'],
           properties: {
             id: {
               type: 'string',
-              format: 'uuid',
-              description: 'Unique identifier for the receipt',
-              example: '123e4567-e89b-12d3-a456-426614174004',
+              description: 'Unique identifier for the receipt (MongoDB ObjectId)',
+              example: '507f1f77bcf86cd799439011',
             },
             userId: {
               type: 'string',
-              format: 'uuid',
               description: 'ID of the user this receipt belongs to',
-              example: '123e4567-e89b-12d3-a456-426614174000',
+              example: '68df4cd8f4c53b419fc5f196',
             },
-            vendorName: {
+            merchantName: {
               type: 'string',
-              description: 'Name of the vendor/merchant',
+              description: 'Name of the merchant/vendor',
               example: 'Starbucks',
             },
-            description: {
-              type: 'string',
-              description: 'Description of the purchase',
-              example: 'coffee',
+            amount: {
+              type: 'number',
+              description: 'Purchase amount',
+              example: 5.99,
             },
-            dateTime: {
+            date: {
               type: 'string',
               format: 'date-time',
-              description: 'Date and time of the purchase',
+              description: 'Date of the purchase',
               example: '2024-01-15T10:30:00Z',
             },
-            amount: {
-              type: 'number',
-              description: 'Purchase amount',
-              example: 5.99,
+            categoryId: {
+              type: 'string',
+              description: "Category ID, set once the receipt's transaction has a category",
+              example: '507f1f77bcf86cd799439012',
+            },
+            category: {
+              type: 'string',
+              description: 'Category name suggested when the receipt was scanned, kept in step with the transaction',
+              example: 'food',
             },
             paymentType: {
               type: 'string',
               description: 'Type of payment used',
               example: 'Credit Card',
             },
-            categoryName: {
+            hasImage: {
+              type: 'boolean',
+              description: 'Whether GET /api/v1/users/{userId}/receipts/{id}/image has an image to link to',
+              example: true,
+            },
+            imageUrl: {
+              type: 'string',
+              description: 'Image hosted elsewhere, or the Firebase Storage URL of a receipt stored before image keys were kept',
+              example: 'https://example.com/receipts/abc.jpg',
+            },
+            notes: {
+              type: 'string',
+              description: 'Notes about the purchase',
+              example: 'coffee',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            lineItems: {
+              type: 'array',
+              description: 'Items read from the receipt',
+              items: { $ref: '#/components/schemas/ReceiptLineItem' },
+            },
+            subtotal: {
+              type: 'number',
+              description: 'Subtotal printed on the receipt',
+              example: 21.05,
+            },
+            tax: {
+              type: 'number',
+              description: 'Tax printed on the receipt, with several tax lines added together',
+              example: 1.74,
+            },
+            tip: {
+              type: 'number',
+              description: 'Tip or gratuity printed on the receipt',
+              example: 4.0,
+            },
+            reconciliation: {
+              type: 'object',
+              description: 'How the items, subtotal, tax and tip compare to the total',
+              properties: {
+                itemsTotal: { type: 'number', example: 21.05 },
+                computedTotal: { type: 'number', description: 'Subtotal (or items) plus tax and tip', example: 22.79 },
+                difference: { type: 'number', description: 'Total minus computedTotal', example: 0 },
+                matches: { type: 'boolean', example: true },
+                warnings: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  example: ['Line items add up to 16.00 but the subtotal is 18.00'],
+                },
+              },
+            },
+          },
+        },
+        ReceiptLineItem: {
+          type: 'object',
+          properties: {
+            description: { type: 'string', example: 'ORGANIC MILK' },
+            quantity: { type: 'number', example: 2 },
+            unitPrice: { type: 'number', example: 3.99 },
+            total: { type: 'number', description: 'Negative for coupons and discounts', example: 7.98 },
+            category: { type: 'string', description: 'Suggested category bucket', example: 'food' },
+          },
+        },
+        ReceiptJob: {
+          type: 'object',
+          description: 'A receipt scan processed in the background',
+          properties: {
+            id: { type: 'string', example: '507f1f77bcf86cd799439040' },
+            userId: { type: 'string', example: '68df4cd8f4c53b419fc5f196' },
+            status: {
               type: 'string',
-              description: 'Category name for the purchase',
-              example: 'Food & Dining',
+              enum: ['queued', 'processing', 'completed', 'failed'],
+              description: 'Queued includes jobs waiting to retry a stage',
             },
-            receiptImageUrl: {
+            stage: {
               type: 'string',
-              description: 'URL to receipt image',
-              example: 'https://example.com/receipt/starbucks-12345.jpg',
+              enum: ['ocr', 'parse', 'categorize', 'upload', 'save'],
+              description: 'Stage running or next to run',
             },
+            completedStages: {
+              type: 'array',
+              items: { type: 'string' },
+              example: ['ocr', 'parse'],
+            },
+            progress: { type: 'integer', description: 'Percent of stages done', example: 40 },
+            attempts: { type: 'integer', description: 'Failed tries of the current stage', example: 0 },
+            error: { type: 'string', description: 'Why the last try failed' },
+            result: {
+              type: 'object',
+              description: "Set once completed. `id` is the saved receipt's ID and `data` holds the extracted merchant, total, date, category, paymentType, lineItems, subtotal, tax, tip, reconciliation and categorySplits.",
+            },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' },
+            completedAt: { type: 'string', format: 'date-time' },
           },
         },
         Error: {
@@ -16,18 +16,40 @@ import swaggerUi from "swagger-ui-express";
 import swaggerSpec from "./config/swagger";
 import DatabaseConnection from "./config/database";
 import { ProfileService } from "./services/ProfileService";
+import { TransactionService } from "./services/TransactionService";
+import { ReceiptService } from "./services/ReceiptService";
+import { ReceiptScanQueue } from "./services/ReceiptScanQueue";
+import { RecurringTransactionService } from "./services/RecurringTransactionService";
+import { ExchangeRateService } from "./services/ExchangeRateService";
+import { StatementImportService } from "./services/StatementImportService";
+import { NotificationService } from "./services/NotificationService";
+import { BudgetService } from "./services/BudgetService";
+import { HouseholdService } from "./services/HouseholdService";
+import { BalanceService } from "./services/BalanceService";
+import { getObjectStorage } from "./services/ObjectStorage";
 import profileRoutes from "./routes/profile.routes";
 import budgetRoutes from "./routes/budget.routes";
 import categoryRoutes from "./routes/category.routes";
 import transactionRoutes from "./routes/transaction.routes";
+import statementImportRoutes from "./routes/statementImport.routes";
 import receiptRoutes from "./routes/receipt.routes";
+import recurringRoutes from "./routes/recurring.routes";
 import spendingHistoryRoutes from "./routes/spendingHistory.routes";
 import googleAuthRoutes from "./routes/googleAuth.routes";
 import huggingfaceRoutes from "./routes/huggingface.routes";
+import inferenceRoutes from "./routes/inference.routes";
+import exchangeRateRoutes from "./routes/exchangeRate.routes";
+import adminRoutes from "./routes/admin.routes";
+import notificationRoutes from "./routes/notification.routes";
+import householdRoutes from "./routes/household.routes";
+import balanceRoutes from "./routes/balance.routes";
+import filesRoutes from "./routes/files.routes";
 
 // Create Express application instance
 const app = express();
 const PORT = 3000;
+const RECURRING_MATERIALIZE_INTERVAL_MS = 60 * 60 * 1000; // hourly
+const RECEIPT_SCAN_POLL_INTERVAL_MS = 2 * 1000;
 
 dotenv.config();
 
@@ -44,37 +66,115 @@ app.use("/api/v1/profiles", profileRoutes);
 // Other routes (currently using in-memory storage)
 app.use("/api/v1/users/:userId/budgets", budgetRoutes);
 app.use("/api/v1/users/:userId/categories", categoryRoutes);
+// Registered before transaction routes so "import" isn't matched as a transaction ID
+app.use("/api/v1/users/:userId/transactions/import", statementImportRoutes);
 app.use("/api/v1/users/:userId/transactions", transactionRoutes);
 app.use("/api/v1/users/:userId/receipts", receiptRoutes);
+app.use("/api/v1/users/:userId/recurring", recurringRoutes);
+app.use("/api/v1/users/:userId/notifications", notificationRoutes);
+app.use("/api/v1/users/:userId/households", householdRoutes);
+app.use("/api/v1/users/:userId/balances", balanceRoutes);
 
 // Spending history routes (aggregated spending reports)
 app.use("/api/v1/users/:userId/spending", spendingHistoryRoutes);
 
+// Signed links to files stored on local disk (OBJECT_STORAGE=local)
+app.use("/api/v1/files", filesRoutes);
+
 // Google OAuth routes for Google Sheets export
 app.use("/api/v1/users/:userId/google", googleAuthRoutes);
 // Static OAuth callback route (matches Google Cloud Console redirect URI)
 app.use("/api/v1", googleAuthRoutes);
 app.use("/api/v1/inference", huggingfaceRoutes);
+app.use("/api/v1/inference", inferenceRoutes);
+
+// Admin routes (require the admin role)
+app.use("/api/v1/admin/exchange-rates", exchangeRateRoutes);
+app.use("/api/v1/admin", adminRoutes);
 
 /**
  * Starts the application server.
  * Handles initialization sequence:
- * 1. Database connection
- * 2. Database indexes creation
- * 3. Express server startup
+ * 1. Object storage settings check
+ * 2. Database connection
+ * 3. Database indexes creation
+ * 4. Recurring transaction catch-up and hourly schedule
+ * 5. Receipt scan worker
+ * 6. Express server startup
  */
 async function startServer() {
   try {
-    // Step 1: Establish MongoDB connection
+    // Step 1: Build the object storage, failing fast if its settings are missing
+    console.log(`Object storage: ${getObjectStorage().name}`);
+
+    // Step 2: Establish MongoDB connection
     await DatabaseConnection.getInstance().connect();
     console.log("Database connected successfully");
 
-    // Step 2: Initialize database indexes for optimal performance
+    // Step 3: Initialize database indexes for optimal performance
     const profileService = new ProfileService();
     await profileService.initializeIndexes();
+    const transactionService = new TransactionService();
+    await transactionService.initializeIndexes();
+    const receiptService = new ReceiptService();
+    await receiptService.initializeIndexes();
+    const receiptScanQueue = new ReceiptScanQueue(receiptService);
+    await receiptScanQueue.initializeIndexes();
+    const recurringService = new RecurringTransactionService();
+    await recurringService.initializeIndexes();
+    const exchangeRateService = new ExchangeRateService();
+    await exchangeRateService.initializeIndexes();
+    const statementImportService = new StatementImportService();
+    await statementImportService.initializeIndexes();
+    const notificationService = new NotificationService();
+    await notificationService.initializeIndexes();
+    // Budgets saved with month names must be converted before their unique index is built
+    const budgetService = new BudgetService();
+    try {
+      const { migrated, setAside } = await budgetService.migrateLegacyBudgets();
+      if (migrated > 0) {
+        console.log(`Migrated ${migrated} budget(s) to numeric months`);
+      }
+      if (setAside > 0) {
+        console.warn(`Set aside ${setAside} budget(s) for an administrator to resolve (GET /api/v1/admin/budget-conflicts)`);
+      }
+    } catch (error) {
+      console.error("Failed to migrate budgets:", error);
+    }
+    await budgetService.initializeIndexes();
+    const householdService = new HouseholdService();
+    await householdService.initializeIndexes();
+    const balanceService = new BalanceService();
+    await balanceService.initializeIndexes();
     console.log("Database indexes initialized");
 
-    // Step 3: Start the Express server
+    // Step 4: Generate recurring transactions missed while the server was down,
+    // then keep generating them as they come due
+    const materializeRecurring = async () => {
+      try {
+        const created = await recurringService.materializeDue();
+        if (created > 0) {
+          console.log(`Generated ${created} recurring transaction(s)`);
+        }
+      } catch (error) {
+        console.error("Failed to materialize recurring transactions:", error);
+      }
+    };
+    await materializeRecurring();
+    setInterval(materializeRecurring, RECURRING_MATERIALIZE_INTERVAL_MS).unref();
+
+    // Step 5: Work through queued receipt scans, including any a stopped
+    // server left unfinished once their lease runs out
+    const processReceiptScans = async () => {
+      try {
+        await receiptScanQueue.drain();
+      } catch (error) {
+        console.error("Failed to process receipt scans:", error);
+      }
+    };
+    setInterval(processReceiptScans, RECEIPT_SCAN_POLL_INTERVAL_MS).unref();
+
+    // Step 6: Start the Express server
     app.listen(PORT, () => {
       console.log(`Server running at http://localhost:${PORT}`);
       console.log(
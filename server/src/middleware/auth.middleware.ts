@@ -4,11 +4,14 @@
  * Provides JWT-based authentication and authorization using Firebase Admin SDK
  * - authenticateToken: Verifies JWT tokens from Authorization header
  * - requireSameUser: Ensures the authenticated user matches the resource owner
+ * - requireRole: Restricts a route to users with one of the given roles (custom claim)
+ * - requireAdmin: Shorthand for requireRole('admin')
  */
 
 import type { Request, Response, NextFunction } from 'express';
 import { verifyIdToken } from '../config/firebase-admin';
 import type { JWTPayload } from '../types/express.js';
+import type { UserRole } from '../models/Admin';
 
 /**
  * Middleware to authenticate requests using Firebase JWT tokens
@@ -19,7 +22,7 @@ import type { JWTPayload } from '../types/express.js';
  * @param req - Express request object
  * @param res - Express response object
  * @param next - Express next function
- * @returns 401 if token is missing, invalid, or expired
+ * @returns 401 if token is missing, invalid, expired or revoked, or the account is disabled
  */
 export async function authenticateToken(
   req: Request,
@@ -64,6 +67,16 @@ export async function authenticateToken(
       return;
     }
 
+    if (error.code === 'auth/id-token-revoked') {
+      res.status(401).json({ error: 'Token revoked' });
+      return;
+    }
+
+    if (error.code === 'auth/user-disabled') {
+      res.status(401).json({ error: 'Account disabled' });
+      return;
+    }
+
     if (error.code === 'auth/argument-error' || error.code === 'auth/invalid-id-token') {
       res.status(401).json({ error: 'Invalid token' });
       return;
@@ -138,3 +151,60 @@ export function requireSameUser(paramName: string) {
     }
   };
 }
+
+/**
+ * Checks whether a verified token grants a role
+ *
+ * Roles come from the `roles` custom claim. The legacy `admin: true` claim
+ * still counts as the admin role.
+ *
+ * @param user - The decoded token
+ * @param role - The role to check for
+ * @returns True if the user has the role
+ */
+export function hasRole(user: JWTPayload, role: UserRole): boolean {
+  if (user.roles?.includes(role)) {
+    return true;
+  }
+  return role === 'admin' && user.admin === true;
+}
+
+/**
+ * Middleware factory to restrict a route to users with one of the given roles
+ *
+ * Roles are custom claims set through the admin API (or the Firebase Admin
+ * SDK), never by users themselves. Must run after authenticateToken.
+ *
+ * @param roles - Roles allowed to use the route
+ * @returns Express middleware function: 401 if not authenticated, 403 if no role matches
+ *
+ * @example
+ * router.get('/users', authenticateToken, requireRole('admin'), handler);
+ */
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (!roles.some(role => hasRole(req.user!, role))) {
+      res.status(403).json({
+        error: roles.length === 1 && roles[0] === 'admin' ? 'Admin access required' : 'Insufficient role'
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Middleware to restrict a route to administrators
+ *
+ * Shorthand for requireRole('admin'). Must run after authenticateToken.
+ *
+ * @example
+ * router.post('/import', authenticateToken, requireAdmin, handler);
+ */
+export const requireAdmin = requireRole('admin');
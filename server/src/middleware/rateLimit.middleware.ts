@@ -0,0 +1,72 @@
+/**
+ * Rate Limiting Middleware
+ *
+ * Per-user request limits for expensive endpoints (uploads, paid OCR).
+ * Counts are kept in memory per process, which is enough for a single API
+ * instance; a shared store would be needed when running several.
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+
+export interface RateLimitOptions {
+  limit: number;              // Requests allowed per window
+  windowMs: number;           // Sliding window length
+  message?: string;           // Error message for rejected requests
+  paramName?: string;         // URL parameter identifying the user when there's no JWT userId
+}
+
+/**
+ * Middleware factory limiting how often each user can call a route
+ *
+ * Uses a sliding window: a request is allowed when fewer than `limit`
+ * requests from the same user were allowed in the last `windowMs`. Rejected
+ * requests don't count. Users are told apart by the JWT userId, then the URL
+ * parameter, then the Firebase uid of users who haven't registered yet. Mount
+ * it after authenticateToken; requests it can't tie to a user are rejected.
+ *
+ * @param options - Limit, window and how to identify the user
+ * @returns Express middleware function responding 429 with a Retry-After header,
+ *          or 401 when there's no user to count against
+ *
+ * @example
+ * // At most 10 scans per minute per user
+ * router.post('/scan', authenticateToken, requireSameUser('userId'),
+ *   rateLimitPerUser({ limit: 10, windowMs: 60_000 }), handler);
+ */
+export function rateLimitPerUser(options: RateLimitOptions) {
+  const { limit, windowMs, message = 'Too many requests', paramName = 'userId' } = options;
+  const hits = new Map<string, number[]>();
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const key = req.user?.userId || req.params[paramName] || req.user?.uid;
+    if (!key) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const now = Date.now();
+    const recent = (hits.get(key) ?? []).filter(time => now - time < windowMs);
+
+    if (recent.length >= limit) {
+      hits.set(key, recent);
+      const retryAfterSeconds = Math.max(1, Math.ceil((recent[0] + windowMs - now) / 1000));
+      res.setHeader('Retry-After', String(retryAfterSeconds));
+      res.status(429).json({ error: message, retryAfter: retryAfterSeconds });
+      return;
+    }
+
+    recent.push(now);
+    hits.set(key, recent);
+
+    // Drop users with no recent requests so the map doesn't grow unbounded
+    if (hits.size > 1000) {
+      for (const [user, times] of hits) {
+        if (times.every(time => now - time >= windowMs)) {
+          hits.delete(user);
+        }
+      }
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import type { Profile } from './Profile';
+
+/**
+ * Roles granted through the `roles` custom claim on a user's Firebase token.
+ * Users without roles are regular users with access to their own data only.
+ */
+export const USER_ROLES = ['admin'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+// Zod schema for listing users
+export const listUsersQuerySchema = z.object({
+  email: z.string().trim().toLowerCase().email('Invalid email format').optional(),
+  disabled: z.enum(['true', 'false']).transform(value => value === 'true').optional()
+});
+
+// Zod schema for changing a user's account status or roles
+export const updateAdminUserSchema = z.object({
+  disabled: z.boolean().optional(),
+  roles: z.array(z.enum(USER_ROLES)).transform(roles => [...new Set(roles)]).optional()
+}).refine(data => data.disabled !== undefined || data.roles !== undefined, {
+  message: 'Provide disabled or roles'
+});
+
+export type ListUsersQuery = z.infer<typeof listUsersQuerySchema>;
+export type UpdateAdminUserRequest = z.infer<typeof updateAdminUserSchema>;
+
+/**
+ * How much of the app a user has used.
+ */
+export interface UserUsageStats {
+    userId: string;
+    transactions: number;
+    budgets: number;
+    categories: number;
+    recurringTransactions: number;
+    lastTransactionAt: Date | null;
+}
+
+/**
+ * A user as seen by administrators. Leaves out credentials such as the
+ * Google refresh token and push token.
+ */
+export interface AdminUserResponse {
+    id: string;
+    firebaseUid: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+    phoneNumber: string;
+    homeCurrency?: string;
+    disabled: boolean;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+/**
+ * A single user looked up by an administrator, with their Firebase account
+ * state and usage.
+ */
+export interface AdminUserDetailResponse extends AdminUserResponse {
+    roles: UserRole[];
+    lastSignInAt: Date | null;
+    usage: UserUsageStats;
+}
+
+export class AdminValidationError extends Error {
+  constructor(
+    message: string,
+    public field?: string
+  ) {
+    super(message);
+    this.name = 'AdminValidationError';
+  }
+}
+
+export function toAdminUserResponse(profile: Profile): AdminUserResponse {
+  return {
+    id: profile._id?.toString() || profile.id || '',
+    firebaseUid: profile.firebaseUid,
+    firstName: profile.firstName,
+    lastName: profile.lastName,
+    email: profile.email,
+    phoneNumber: profile.phoneNumber,
+    homeCurrency: profile.homeCurrency,
+    disabled: profile.disabled === true,
+    createdAt: profile.createdAt,
+    updatedAt: profile.updatedAt,
+  };
+}
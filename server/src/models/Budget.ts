@@ -1,53 +1,316 @@
 import { ObjectId } from 'mongodb';
 import { z } from 'zod';
+import { currencyCodeSchema, getCurrency } from './ExchangeRate';
 
 export interface Budget {
     _id?: ObjectId;
     id: string;
     userId: string;
-    month: string;
+    month: number;              // 1-12; documents saved before periods were structured held a month name
     year: number;
+    periodStartDay?: number;    // Day of the month the budget cycle starts (1-28); 1 when missing
     amount: number;
     remaining: number;
+    currency?: string;
     categoryId?: string;
+    rollover?: boolean;         // Carry this month's unspent (or overspent) amount into next month
+    alertThresholds?: number[]; // Percentages of the amount that trigger a notification; defaults apply when missing
     createdAt?: Date;
     updatedAt?: Date;
 }
 
+// English month names, used for labels and for reading legacy month-name budgets
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+] as const;
+
+/**
+ * Resolves an English month name to its index (0-11), ignoring case.
+ *
+ * @param month - Month name, e.g. from a legacy budget document
+ * @returns The month index, or -1 if the name isn't recognized
+ */
+export function getMonthIndex(month: string): number {
+  return MONTH_NAMES.findIndex(name => name.toLowerCase() === month.trim().toLowerCase());
+}
+
+export const DEFAULT_PERIOD_START_DAY = 1;
+
+// Capped at 28 so every month has the start day
+export const MAX_PERIOD_START_DAY = 28;
+
+/**
+ * Computes the date range a budget covers. A budget for March starting on
+ * the 15th runs from March 15 through April 14.
+ *
+ * @param year - Budget year
+ * @param month - Budget month (1-12)
+ * @param startDay - Day of the month the cycle starts on
+ * @returns First and last instant of the period, in server local time
+ */
+export function getBudgetPeriod(
+  year: number,
+  month: number,
+  startDay: number = DEFAULT_PERIOD_START_DAY
+): { startDate: Date; endDate: Date } {
+  return {
+    startDate: new Date(year, month - 1, startDay, 0, 0, 0, 0),
+    endDate: new Date(year, month, startDay - 1, 23, 59, 59, 999),
+  };
+}
+
+/**
+ * Finds the budget month whose period contains a date.
+ *
+ * @param date - Any date
+ * @param startDay - Day of the month budget cycles start on
+ * @returns The budget year and month (1-12)
+ */
+export function getPeriodContaining(
+  date: Date,
+  startDay: number = DEFAULT_PERIOD_START_DAY
+): { year: number; month: number } {
+  const monthsBack = date.getDate() >= startDay ? 0 : 1;
+  return shiftPeriod(date.getFullYear(), date.getMonth() + 1, -monthsBack);
+}
+
+/**
+ * Moves a budget month forward or back.
+ *
+ * @param year - Budget year
+ * @param month - Budget month (1-12)
+ * @param months - Months to move; negative moves back
+ * @returns The resulting year and month (1-12)
+ */
+export function shiftPeriod(year: number, month: number, months: number): { year: number; month: number } {
+  const index = year * 12 + (month - 1) + months;
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+}
+
+/**
+ * Formats a budget month as YYYY-MM.
+ */
+export function formatPeriod(year: number, month: number): string {
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+/**
+ * Formats a budget month for messages, e.g. "March 2025".
+ */
+export function formatPeriodLabel(year: number, month: number): string {
+  return `${MONTH_NAMES[month - 1]} ${year}`;
+}
+
+// Percent-used levels that notify the user when no thresholds are set on a budget
+export const DEFAULT_ALERT_THRESHOLDS = [50, 80, 100];
+
+// An empty list turns alerts off for the budget
+const alertThresholdsSchema = z.array(
+  z.number().int('Thresholds must be whole percentages').min(1, 'Thresholds must be between 1 and 1000').max(1000, 'Thresholds must be between 1 and 1000')
+).max(10, 'At most 10 thresholds are allowed');
+
+// Deepest chain of rolled-over months followed when computing a carry-over
+export const MAX_ROLLOVER_MONTHS = 12;
+
+// Accepts a month number 1-12, as a number or numeric string. English month
+// names are still read for older app versions; other locales are rejected.
+export const monthSchema = z.preprocess((value) => {
+  if (typeof value !== 'string') return value;
+  const trimmed = value.trim();
+  if (/^\d{1,2}$/.test(trimmed)) return Number(trimmed);
+  const index = getMonthIndex(trimmed);
+  return index === -1 ? trimmed : index + 1;
+}, z.number('Month must be a number 1-12').int('Month must be a number 1-12').min(1, 'Month must be a number 1-12').max(12, 'Month must be a number 1-12'));
+
+const periodStartDaySchema = z.number()
+  .int('Period start day must be a whole day')
+  .min(1, `Period start day must be between 1 and ${MAX_PERIOD_START_DAY}`)
+  .max(MAX_PERIOD_START_DAY, `Period start day must be between 1 and ${MAX_PERIOD_START_DAY}`);
+
+export const yearQuerySchema = z.coerce.number().int().min(1970, 'Invalid year').max(9999, 'Invalid year');
+
 // Zod schema for creating a budget
 export const createBudgetSchema = z.object({
   userId: z.string().trim().min(1, 'User ID is required'),
-  month: z.string().trim().min(1, 'Month is required'),
+  month: monthSchema,
   year: z.number().int().positive('Year must be a positive integer'),
+  periodStartDay: periodStartDaySchema.optional(),
   amount: z.number().positive('Amount must be positive'),
   remaining: z.number().nonnegative('Remaining must be non-negative'),
-  categoryId: z.string().trim().optional()
+  // Defaults to the user's home currency
+  currency: currencyCodeSchema.optional(),
+  categoryId: z.string().trim().optional(),
+  rollover: z.boolean().optional(),
+  alertThresholds: alertThresholdsSchema.optional()
 });
 
 // Zod schema for updating a budget
 export const updateBudgetSchema = z.object({
-  month: z.string().trim().min(1, 'Month is required').optional(),
+  month: monthSchema.optional(),
   year: z.number().int().positive('Year must be a positive integer').optional(),
+  periodStartDay: periodStartDaySchema.optional(),
   amount: z.number().positive('Amount must be positive').optional(),
-  remaining: z.number().nonnegative('Remaining must be non-negative').optional(),
-  categoryId: z.string().trim().optional()
+  currency: currencyCodeSchema.optional(),
+  categoryId: z.string().trim().optional(),
+  rollover: z.boolean().optional(),
+  alertThresholds: alertThresholdsSchema.optional()
+});
+
+// Query for GET /budgets/status; defaults to the current month
+export const budgetStatusQuerySchema = z.object({
+  month: monthSchema.optional(),
+  year: yearQuerySchema.optional()
+});
+
+// Body for POST /budgets/copy-forward; the target month receives a copy of the month before it
+export const copyBudgetsForwardSchema = z.object({
+  month: monthSchema,
+  year: yearQuerySchema
+});
+
+// Query for GET /budgets/history; all months with a budget when year is omitted
+export const budgetHistoryQuerySchema = z.object({
+  year: yearQuerySchema.optional()
 });
 
 export type CreateBudgetRequest = z.infer<typeof createBudgetSchema>;
 export type UpdateBudgetRequest = z.infer<typeof updateBudgetSchema>;
+// What an update writes: the request's fields, plus remaining, which the server keeps up to date
+export type BudgetUpdate = Partial<UpdateBudgetRequest> & { remaining?: number };
+export type BudgetStatusQuery = z.infer<typeof budgetStatusQuerySchema>;
+export type CopyBudgetsForwardRequest = z.infer<typeof copyBudgetsForwardSchema>;
+export type BudgetHistoryQuery = z.infer<typeof budgetHistoryQuerySchema>;
 
 export interface BudgetResponse {
     id: string;
     userId: string;
-    month: string;
+    month: number;
     year: number;
+    period: string;             // YYYY-MM
+    periodStartDay: number;
+    startDate: Date;
+    endDate: Date;
     amount: number;
     remaining: number;
+    currency: string;
     categoryId?: string;
+    rollover: boolean;
+    alertThresholds: number[];
     createdAt?: Date;
     updatedAt?: Date;
 }
 
+/**
+ * Envelope view of one budget for a month. Available is the budget amount plus
+ * whatever rolled over from the month before; remaining may be negative.
+ * Amounts are in the budget's currency.
+ */
+export interface BudgetStatusLine {
+    budgetId: string;
+    categoryId: string | null;
+    currency: string;
+    amount: number;
+    rolledOver: number;
+    available: number;
+    spent: number;
+    remaining: number;
+    percentUsed: number | null;
+    overBudget: boolean;
+    rollover: boolean;
+}
+
+export interface BudgetStatusResponse {
+    month: number;
+    year: number;
+    startDate: Date;
+    endDate: Date;
+    overall: BudgetStatusLine | null;
+    categories: BudgetStatusLine[];
+    // Spending in categories without their own budget, in the home currency
+    unbudgeted: Array<{ categoryId: string; spent: number; currency: string }>;
+}
+
+export interface CopyBudgetsForwardResponse {
+    month: number;
+    year: number;
+    created: BudgetResponse[];
+    skipped: number;
+}
+
+/**
+ * How one month went against its budget, in the home currency.
+ * Budgeted is the overall budget, or the sum of the category budgets when the
+ * month has no overall budget. Variance is budgeted minus spent.
+ */
+export interface BudgetHistoryMonth {
+    month: number;
+    year: number;
+    budgetId: string | null;
+    budgeted: number;
+    spent: number;
+    variance: number;
+    percentUsed: number | null;
+    overBudget: boolean;
+    transactionCount: number;
+    categoryBudgetCount: number;
+}
+
+export interface BudgetHistoryResponse {
+    currency: string;
+    months: BudgetHistoryMonth[];
+    totals: {
+        budgeted: number;
+        spent: number;
+        variance: number;
+    };
+    monthsOverBudget: number;
+}
+
+/**
+ * Why the startup migration set a budget aside instead of keeping it:
+ * - unreadable_month: its month name couldn't be read as a month
+ * - duplicate:        another budget already covers its user, month, year and category
+ */
+export type BudgetConflictReason = 'unreadable_month' | 'duplicate';
+
+/**
+ * A budget the startup migration took out of the budgets collection, kept as
+ * it was until an administrator restores or discards it.
+ */
+export interface BudgetConflict {
+    _id?: ObjectId;
+    id: string;
+    budgetId: string;               // ID the budget had
+    userId: string;
+    reason: BudgetConflictReason;
+    month?: number;                 // Month the budget converts to, when it could be read
+    conflictingBudgetId?: string;   // Budget kept in its place, for duplicates
+    budget: Budget;                 // The budget document as it was; month may still be a name
+    createdAt?: Date;
+}
+
+export interface BudgetConflictResponse {
+    id: string;
+    budgetId: string;
+    userId: string;
+    reason: BudgetConflictReason;
+    month: number | null;
+    conflictingBudgetId: string | null;
+    budget: Record<string, unknown>;
+    createdAt?: Date;
+}
+
+// Body for putting a set-aside budget back
+export const restoreBudgetConflictSchema = z.object({
+  // Required when the month name couldn't be read
+  month: monthSchema.optional(),
+  // Replace a budget that already covers the month instead of failing
+  replace: z.boolean().default(false)
+});
+
+export type RestoreBudgetConflictRequest = z.infer<typeof restoreBudgetConflictSchema>;
+
 export class BudgetValidationError extends Error {
   constructor(
     message: string,
@@ -84,15 +347,44 @@ export function validateCreateBudgetRequest(data: any): CreateBudgetRequest {
  * @returns Budget data formatted for API response
  * */
 export function toBudgetResponse(budget: Budget): BudgetResponse {
+  const periodStartDay = budget.periodStartDay ?? DEFAULT_PERIOD_START_DAY;
+  const { startDate, endDate } = getBudgetPeriod(budget.year, budget.month, periodStartDay);
   return {
     id: budget._id?.toString() || budget.id || '',
     userId: budget.userId,
     month: budget.month,
     year: budget.year,
+    period: formatPeriod(budget.year, budget.month),
+    periodStartDay,
+    startDate,
+    endDate,
     amount: budget.amount,
     remaining: budget.remaining,
+    currency: getCurrency(budget),
     categoryId: budget.categoryId,
+    rollover: budget.rollover ?? false,
+    alertThresholds: budget.alertThresholds ?? DEFAULT_ALERT_THRESHOLDS,
     createdAt: budget.createdAt,
     updatedAt: budget.updatedAt
   };
 }
+
+/**
+ * Transforms a set-aside budget to its API response.
+ *
+ * @param conflict - Database budget conflict
+ * @returns Conflict data formatted for API response
+ */
+export function toBudgetConflictResponse(conflict: BudgetConflict): BudgetConflictResponse {
+  const { _id, ...budget } = conflict.budget;
+  return {
+    id: conflict._id?.toString() || conflict.id || '',
+    budgetId: conflict.budgetId,
+    userId: conflict.userId,
+    reason: conflict.reason,
+    month: conflict.month ?? null,
+    conflictingBudgetId: conflict.conflictingBudgetId ?? null,
+    budget: { ...budget, id: conflict.budgetId },
+    createdAt: conflict.createdAt
+  };
+}
@@ -1,13 +1,17 @@
 import { ObjectId } from 'mongodb';
 import { z } from 'zod';
+import { TRANSACTION_KINDS, transactionKindSchema } from './Transaction';
+import type { TransactionKind } from './Transaction';
 
 export interface Category {
     _id?: ObjectId;
     id: string,
     name: string,
     type: string,
+    kind?: TransactionKind,
     userId: string,
   color?: string,
+    householdId?: string,       // Set for categories shared with a household; userId is the member who created it
     createdAt?: Date;
     updatedAt?: Date;
 }
@@ -16,15 +20,20 @@ export interface Category {
 export const createCategorySchema = z.object({
   name: z.string().trim().min(1, 'Name is required'),
   type: z.string().trim().min(1, 'Type is required'),
+  // Defaults to type when that names a kind ("income"), otherwise expense
+  kind: transactionKindSchema.optional(),
   userId: z.string().trim().min(1, 'User ID is required'),
   color: z.string().trim().optional()
-});
+}).transform((data) => ({
+  ...data,
+  kind: data.kind ?? getCategoryKind({ type: data.type })
+}));
 
 // Zod schema for updating a category
 export const updateCategorySchema = z.object({
   name: z.string().trim().min(1, 'Name is required').optional(),
-  type: z.string().trim().min(1, 'Type is required').optional()
-  ,
+  type: z.string().trim().min(1, 'Type is required').optional(),
+  kind: transactionKindSchema.optional(),
   color: z.string().trim().optional()
 });
 
@@ -35,9 +44,11 @@ export interface CategoryResponse {
     id: string,
     name: string,
     type: string,
+    kind: TransactionKind,
     userId: string
   ,
   color?: string,
+  householdId?: string,
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -82,11 +93,28 @@ export function toCategoryResponse(category: Category): CategoryResponse {
     id: category._id?.toString() || category.id || '',
     name: category.name,
     type: category.type,
+    kind: getCategoryKind(category),
     userId: category.userId
     ,
     color: (category as any).color,
+    householdId: category.householdId,
     createdAt: category.createdAt,
     updatedAt: category.updatedAt
   };
 
 }
+
+/**
+ * Resolves the kind of a category. Categories created before kinds existed
+ * fall back to their free-form type when it names a kind, otherwise expense.
+ *
+ * @param category - Category (database or request shape)
+ * @returns The category kind
+ */
+export function getCategoryKind(category: Pick<Category, 'type'> & { kind?: TransactionKind }): TransactionKind {
+  if (category.kind) {
+    return category.kind;
+  }
+  const type = String(category.type || '').trim().toLowerCase();
+  return (TRANSACTION_KINDS as readonly string[]).includes(type) ? type as TransactionKind : 'expense';
+}
@@ -0,0 +1,136 @@
+import { ObjectId } from 'mongodb';
+import { z } from 'zod';
+
+/**
+ * Currency assumed for documents written before currencies existed.
+ * The app only handled dollars until then.
+ */
+export const DEFAULT_CURRENCY = 'USD';
+
+// ISO 4217 currency code, normalized to upper case
+export const currencyCodeSchema = z.string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO 4217 code');
+
+/**
+ * A dated exchange rate: 1 unit of `base` is worth `rate` units of `quote`
+ * on `date`. A rate can be used in either direction.
+ */
+export interface ExchangeRate {
+    _id?: ObjectId;
+    id: string;
+    base: string;
+    quote: string;
+    rate: number;
+    date: Date;         // UTC midnight of the day the rate applies to
+    source?: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+// Zod schema for a single imported rate
+export const exchangeRateEntrySchema = z.object({
+  base: currencyCodeSchema,
+  quote: currencyCodeSchema,
+  rate: z.number().positive('Rate must be positive'),
+  date: z.string().trim().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format. Use YYYY-MM-DD')
+}).refine((data) => data.base !== data.quote, {
+  message: 'Base and quote currencies must differ',
+  path: ['quote']
+});
+
+// Zod schema for the admin import endpoint
+export const importExchangeRatesSchema = z.object({
+  source: z.string().trim().min(1).max(100).optional(),
+  rates: z.array(exchangeRateEntrySchema)
+    .min(1, 'At least one rate is required')
+    .max(5000, 'At most 5000 rates can be imported at once')
+});
+
+// Zod schema for listing rates (query string parameters)
+export const listExchangeRatesQuerySchema = z.object({
+  base: currencyCodeSchema.optional(),
+  quote: currencyCodeSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+});
+
+export type ExchangeRateEntry = z.infer<typeof exchangeRateEntrySchema>;
+export type ImportExchangeRatesRequest = z.infer<typeof importExchangeRatesSchema>;
+export type ListExchangeRatesQuery = z.infer<typeof listExchangeRatesQuerySchema>;
+
+export interface ExchangeRateResponse {
+    id: string;
+    base: string;
+    quote: string;
+    rate: number;
+    date: string;       // YYYY-MM-DD
+    source?: string;
+    updatedAt?: Date;
+}
+
+/**
+ * Result of an import: how many rates were new and how many replaced an
+ * existing rate for the same pair and day.
+ */
+export interface ExchangeRateImportResult {
+    imported: number;
+    updated: number;
+}
+
+export class ExchangeRateValidationError extends Error {
+  constructor(
+    message: string,
+    public field?: string,
+    public missingFields?: string[]
+  ) {
+    super(message);
+    this.name = 'ExchangeRateValidationError';
+  }
+}
+
+export function validateImportExchangeRatesRequest(data: any): ImportExchangeRatesRequest {
+  try {
+    return importExchangeRatesSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const missingFields = error.issues.map((err: any) => err.path.join('.'));
+      const message = error.issues[0]?.message || 'Validation failed';
+      throw new ExchangeRateValidationError(
+        message,
+        error.issues[0]?.path.join('.'),
+        missingFields
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Transforms a database ExchangeRate object to an API ExchangeRateResponse.
+ *
+ * @param rate - Database exchange rate object
+ * @returns Exchange rate data formatted for API response
+ */
+export function toExchangeRateResponse(rate: ExchangeRate): ExchangeRateResponse {
+  return {
+    id: rate._id?.toString() || rate.id || '',
+    base: rate.base,
+    quote: rate.quote,
+    rate: rate.rate,
+    date: rate.date.toISOString().slice(0, 10),
+    source: rate.source,
+    updatedAt: rate.updatedAt
+  };
+}
+
+/**
+ * Resolves the currency of a document, treating legacy documents without one
+ * as DEFAULT_CURRENCY.
+ *
+ * @param document - Any document with an optional currency
+ * @returns The currency code
+ */
+export function getCurrency(document: { currency?: string | null }): string {
+  return document.currency || DEFAULT_CURRENCY;
+}
@@ -0,0 +1,282 @@
+import { ObjectId } from 'mongodb';
+import { z } from 'zod';
+import { currencyCodeSchema, DEFAULT_CURRENCY } from './ExchangeRate';
+import { monthSchema, yearQuerySchema } from './Budget';
+
+/**
+ * Member roles, from least to most access:
+ * - viewer: reads shared categories, budgets and reports
+ * - editor: also manages shared categories and budgets
+ * - owner:  also renames or deletes the household and manages members and invitations
+ */
+export const HOUSEHOLD_ROLES = ['viewer', 'editor', 'owner'] as const;
+export type HouseholdRole = typeof HOUSEHOLD_ROLES[number];
+
+// Roles that can be given through an invitation or a role change; a household has one owner
+export const INVITABLE_ROLES = ['viewer', 'editor'] as const;
+
+export type HouseholdInvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+// How long an invitation can be accepted for
+export const INVITATION_TTL_DAYS = 14;
+
+export interface HouseholdMember {
+    userId: string;
+    role: HouseholdRole;
+    joinedAt: Date;
+}
+
+/**
+ * A group of users sharing categories and budgets. Members keep recording
+ * their own transactions; a transaction counts towards the household when its
+ * category is one of the household's shared categories.
+ */
+export interface Household {
+    _id?: ObjectId;
+    id: string;
+    name: string;
+    currency?: string;          // Currency shared budgets and reports use; USD when missing
+    members: HouseholdMember[];
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export interface HouseholdInvitation {
+    _id?: ObjectId;
+    id: string;
+    householdId: string;
+    householdName: string;
+    email: string;              // Invitee's email; accepted by the profile with this address
+    role: HouseholdRole;
+    invitedBy: string;
+    status: HouseholdInvitationStatus;
+    expiresAt: Date;
+    respondedAt?: Date;
+    createdAt?: Date;
+}
+
+/**
+ * A monthly budget shared by a household, covering either one shared
+ * category or all of them. Spending is computed from members' transactions.
+ */
+export interface HouseholdBudget {
+    _id?: ObjectId;
+    id: string;
+    householdId: string;
+    month: number;              // 1-12
+    year: number;
+    amount: number;
+    categoryId?: string;
+    createdBy: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+// Zod schema for creating a household
+export const createHouseholdSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be at most 100 characters'),
+  currency: currencyCodeSchema.default(DEFAULT_CURRENCY)
+});
+
+// Zod schema for updating a household
+export const updateHouseholdSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be at most 100 characters').optional(),
+  currency: currencyCodeSchema.optional()
+});
+
+// Zod schema for inviting someone by email
+export const createInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Invalid email format'),
+  role: z.enum(INVITABLE_ROLES).default('editor')
+});
+
+// Zod schema for changing a member's role
+export const updateMemberSchema = z.object({
+  role: z.enum(INVITABLE_ROLES, 'Role must be viewer or editor')
+});
+
+// Zod schema for creating a shared category
+export const createHouseholdCategorySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  type: z.string().trim().min(1, 'Type is required'),
+  color: z.string().trim().optional()
+});
+
+// Zod schema for creating a shared budget
+export const createHouseholdBudgetSchema = z.object({
+  month: monthSchema,
+  year: z.number().int().positive('Year must be a positive integer'),
+  amount: z.number().positive('Amount must be positive'),
+  categoryId: z.string().trim().min(1).optional()
+});
+
+// Zod schema for updating a shared budget
+export const updateHouseholdBudgetSchema = z.object({
+  amount: z.number().positive('Amount must be positive')
+});
+
+// Query for GET /households/:householdId/budgets/status; defaults to the current month
+export const householdBudgetStatusQuerySchema = z.object({
+  month: monthSchema.optional(),
+  year: yearQuerySchema.optional()
+});
+
+// Query for GET /households/:householdId/reports/spending
+export const householdSpendingQuerySchema = z.object({
+  startDate: z.coerce.date('Invalid start date'),
+  endDate: z.coerce.date('Invalid end date'),
+  view: z.enum(['combined', 'member']).default('combined')
+}).refine(data => data.startDate <= data.endDate, {
+  message: 'Start date must be before end date',
+  path: ['startDate']
+});
+
+export type CreateHouseholdRequest = z.infer<typeof createHouseholdSchema>;
+export type UpdateHouseholdRequest = z.infer<typeof updateHouseholdSchema>;
+export type CreateInvitationRequest = z.infer<typeof createInvitationSchema>;
+export type CreateHouseholdCategoryRequest = z.infer<typeof createHouseholdCategorySchema>;
+export type CreateHouseholdBudgetRequest = z.infer<typeof createHouseholdBudgetSchema>;
+export type HouseholdSpendingQuery = z.infer<typeof householdSpendingQuerySchema>;
+
+export interface HouseholdMemberResponse {
+    userId: string;
+    name: string;               // First and last name from the member's profile
+    role: HouseholdRole;
+    joinedAt: Date;
+}
+
+export interface HouseholdResponse {
+    id: string;
+    name: string;
+    currency: string;
+    role: HouseholdRole;        // The requesting user's role
+    members: HouseholdMemberResponse[];
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export interface HouseholdInvitationResponse {
+    id: string;
+    householdId: string;
+    householdName: string;
+    email: string;
+    role: HouseholdRole;
+    invitedBy: string;
+    status: HouseholdInvitationStatus;
+    expiresAt: Date;
+    createdAt?: Date;
+}
+
+export interface HouseholdBudgetResponse {
+    id: string;
+    householdId: string;
+    month: number;
+    year: number;
+    amount: number;
+    categoryId?: string;
+    createdBy: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+/**
+ * A shared budget with what members have spent against it.
+ */
+export interface HouseholdBudgetStatusLine {
+    budgetId: string;
+    categoryId: string | null;
+    amount: number;
+    spent: number;
+    remaining: number;
+    percentUsed: number;
+    byMember: Array<{ userId: string; spent: number }>;
+}
+
+export interface HouseholdBudgetStatusResponse {
+    householdId: string;
+    month: number;
+    year: number;
+    currency: string;
+    budgets: HouseholdBudgetStatusLine[];
+}
+
+/**
+ * Spending in shared categories over a date range. The combined view breaks
+ * the total down by category; the member view by member, each with their
+ * categories.
+ */
+export interface HouseholdSpendingReport {
+    householdId: string;
+    startDate: Date;
+    endDate: Date;
+    currency: string;
+    view: 'combined' | 'member';
+    totalAmount: number;
+    categories?: Array<{ categoryId: string; categoryName: string; totalAmount: number; transactionCount: number }>;
+    members?: Array<{
+        userId: string;
+        name: string;
+        totalAmount: number;
+        transactionCount: number;
+        categories: Array<{ categoryId: string; categoryName: string; totalAmount: number; transactionCount: number }>;
+    }>;
+}
+
+export class HouseholdValidationError extends Error {
+  constructor(
+    message: string,
+    public field?: string
+  ) {
+    super(message);
+    this.name = 'HouseholdValidationError';
+  }
+}
+
+/**
+ * Thrown when a member's role doesn't allow an operation on a household
+ * they belong to. Non-members get "not found" instead.
+ */
+export class HouseholdPermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HouseholdPermissionError';
+  }
+}
+
+/**
+ * Whether a role grants at least the access of another.
+ *
+ * @param role - The member's role
+ * @param required - The least role an operation needs
+ */
+export function hasHouseholdRole(role: HouseholdRole, required: HouseholdRole): boolean {
+  return HOUSEHOLD_ROLES.indexOf(role) >= HOUSEHOLD_ROLES.indexOf(required);
+}
+
+export function toHouseholdInvitationResponse(invitation: HouseholdInvitation): HouseholdInvitationResponse {
+  return {
+    id: invitation._id?.toString() || invitation.id || '',
+    householdId: invitation.householdId,
+    householdName: invitation.householdName,
+    email: invitation.email,
+    role: invitation.role,
+    invitedBy: invitation.invitedBy,
+    status: invitation.status,
+    expiresAt: invitation.expiresAt,
+    createdAt: invitation.createdAt,
+  };
+}
+
+export function toHouseholdBudgetResponse(budget: HouseholdBudget): HouseholdBudgetResponse {
+  return {
+    id: budget._id?.toString() || budget.id || '',
+    householdId: budget.householdId,
+    month: budget.month,
+    year: budget.year,
+    amount: budget.amount,
+    categoryId: budget.categoryId,
+    createdBy: budget.createdBy,
+    createdAt: budget.createdAt,
+    updatedAt: budget.updatedAt,
+  };
+}
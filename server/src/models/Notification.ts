@@ -0,0 +1,103 @@
+import { ObjectId } from 'mongodb';
+import { z } from 'zod';
+
+export type NotificationType = 'budget_threshold';
+export type NotificationChannelName = 'in_app' | 'push' | 'email';
+export type NotificationDeliveryStatus = 'sent' | 'skipped' | 'failed';
+
+/**
+ * Outcome of handing a notification to one delivery channel.
+ */
+export interface NotificationDelivery {
+    channel: NotificationChannelName;
+    status: NotificationDeliveryStatus;
+    error?: string;
+    at: Date;
+}
+
+/**
+ * Details of the budget a threshold notification is about.
+ * Amounts are in the budget's currency.
+ */
+export interface BudgetThresholdDetails {
+    month: number;              // 1-12
+    year: number;
+    categoryId?: string;
+    amount: number;
+    spent: number;
+    currency: string;
+    percentUsed: number;
+}
+
+export interface Notification {
+    _id?: ObjectId;
+    id: string;
+    userId: string;
+    type: NotificationType;
+    title: string;
+    message: string;
+    budgetId?: string;          // Budget the alert is about; unique per threshold
+    threshold?: number;         // Percent-used level that was crossed
+    details?: BudgetThresholdDetails;
+    read: boolean;
+    readAt?: Date;
+    deliveries: NotificationDelivery[];
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+// Zod schema for listing notifications
+export const listNotificationsQuerySchema = z.object({
+  unread: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  limit: z.coerce.number().int().min(1, 'Limit must be between 1 and 100').max(100, 'Limit must be between 1 and 100').default(50)
+});
+
+export type ListNotificationsQuery = z.infer<typeof listNotificationsQuerySchema>;
+
+export interface NotificationResponse {
+    id: string;
+    userId: string;
+    type: NotificationType;
+    title: string;
+    message: string;
+    budgetId?: string;
+    threshold?: number;
+    details?: BudgetThresholdDetails;
+    read: boolean;
+    readAt?: Date;
+    deliveries: NotificationDelivery[];
+    createdAt?: Date;
+}
+
+export interface NotificationListResponse {
+    notifications: NotificationResponse[];
+    unreadCount: number;
+}
+
+export class NotificationValidationError extends Error {
+  constructor(
+    message: string,
+    public field?: string,
+    public missingFields?: string[]
+  ) {
+    super(message);
+    this.name = 'NotificationValidationError';
+  }
+}
+
+export function toNotificationResponse(notification: Notification): NotificationResponse {
+  return {
+    id: notification._id?.toString() || notification.id || '',
+    userId: notification.userId,
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    budgetId: notification.budgetId,
+    threshold: notification.threshold,
+    details: notification.details,
+    read: notification.read,
+    readAt: notification.readAt,
+    deliveries: notification.deliveries ?? [],
+    createdAt: notification.createdAt
+  };
+}
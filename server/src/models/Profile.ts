@@ -1,5 +1,29 @@
 import { ObjectId } from 'mongodb';
 import { z } from 'zod';
+import { currencyCodeSchema, DEFAULT_CURRENCY, getCurrency } from './ExchangeRate';
+
+// Time zone spoken dates are resolved in when a profile has none
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+/**
+ * Checks that a time zone name is known to the runtime, e.g. "Europe/Berlin".
+ *
+ * @param timeZone - IANA time zone name
+ * @returns True when dates can be resolved in it
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// IANA time zone name such as "America/Chicago"
+export const timeZoneSchema = z.string()
+  .trim()
+  .refine(isValidTimeZone, 'Time zone must be an IANA name such as America/Chicago');
 
 /**
  * Core Profile interface representing the database schema.
@@ -17,7 +41,12 @@ export interface Profile {
   profileImage?: string | null;
   nickname?: string | null;
   status?: string | null;
+  homeCurrency?: string;      // ISO 4217 code reports are converted into; USD when missing
+  timeZone?: string;          // IANA time zone spoken dates are resolved in; UTC when missing
   googleRefreshToken?: string | null; // OAuth refresh token for Google Sheets export
+  googleSpreadsheetId?: string | null; // Spreadsheet kept in sync by the Google Sheets sync
+  expoPushToken?: string | null;  // Expo push token of the user's device for budget alerts
+  disabled?: boolean;         // Set by an administrator; the Firebase account is disabled with it
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -36,7 +65,9 @@ export const createProfileSchema = z.object({
   phoneNumber: z.string().trim().min(1, 'Phone number is required'),
   profileImage: z.string().nullable().optional(),
   nickname: z.string().nullable().optional(),
-  status: z.string().nullable().optional()
+  status: z.string().nullable().optional(),
+  homeCurrency: currencyCodeSchema.default(DEFAULT_CURRENCY),
+  timeZone: timeZoneSchema.optional()
 });
 
 // Zod schema for updating a profile
@@ -55,7 +86,14 @@ export const updateProfileSchema = z.object({
   phoneNumber: z.string().trim().min(1, 'Phone number cannot be empty').optional(),
   profileImage: z.string().nullable().optional(),
   nickname: z.string().nullable().optional(),
-  status: z.string().nullable().optional()
+  status: z.string().nullable().optional(),
+  homeCurrency: currencyCodeSchema.optional(),
+  timeZone: timeZoneSchema.optional(),
+  expoPushToken: z.string()
+    .trim()
+    .regex(/^Expo(nent)?PushToken\[.+\]$/, 'Invalid Expo push token')
+    .nullable()
+    .optional()
 });
 
 export type CreateProfileRequest = z.infer<typeof createProfileSchema>;
@@ -77,7 +115,11 @@ export interface ProfileResponse {
   profileImage?: string | null;
   nickname?: string | null;
   status?: string | null;
+  homeCurrency: string;
+  timeZone: string;
   googleRefreshToken?: string | null;
+  googleSpreadsheetId?: string | null;
+  expoPushToken?: string | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -144,6 +186,10 @@ export function toProfileResponse(profile: Profile): ProfileResponse {
     profileImage: profile.profileImage,
     nickname: profile.nickname,
     status: profile.status,
+    homeCurrency: getCurrency({ currency: profile.homeCurrency }),
+    timeZone: profile.timeZone || DEFAULT_TIME_ZONE,
+    googleSpreadsheetId: profile.googleSpreadsheetId ?? null,
+    expoPushToken: profile.expoPushToken ?? null,
     createdAt: profile.createdAt,
     updatedAt: profile.updatedAt,
   };
@@ -1,29 +1,102 @@
 import { ObjectId } from 'mongodb';
 import { z } from 'zod';
 
+/**
+ * A purchased item read from a receipt. total is what the line charges
+ * (quantity × unitPrice, or negative for coupons and discounts).
+ * category is a suggested bucket such as "food", used to split the transaction.
+ */
+export interface ReceiptLineItem {
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    total: number;
+    category?: string;
+}
+
+/**
+ * How the line items, subtotal, tax and tip compare to the receipt total.
+ * difference is total minus (items or subtotal) + tax + tip; warnings explain
+ * each mismatch larger than a cent.
+ */
+export interface ReceiptReconciliation {
+    itemsTotal: number;
+    computedTotal: number;
+    difference: number;
+    matches: boolean;
+    warnings: string[];
+}
+
+/**
+ * Where receipts are kept. MongoDB is the system of record; Firestore is the
+ * store receipts were first written to and is kept as an optional adapter.
+ */
+export type ReceiptStoreName = 'mongo' | 'firestore';
+
+/**
+ * A stored receipt. categoryId is set once the receipt's transaction has a
+ * category; category is the suggested bucket name from scanning ("food").
+ * imageKey is the object storage key of the scanned image; imageUrl is kept
+ * for receipts stored before keys were and for images hosted elsewhere.
+ * legacyFirestoreId is the Firestore document ID of a migrated receipt;
+ * scanJobId is the scan job that saved a scanned receipt.
+ */
 export interface Receipt {
     _id?: ObjectId;
     id: string;
     merchantName: string;
     amount: number;
     date: Date;
-    categoryId: string;
+    categoryId?: string;
+    category?: string;
+    paymentType?: string;
     userId: string;
+    imageKey?: string;
     imageUrl?: string;
     notes?: string;
+    lineItems?: ReceiptLineItem[];
+    subtotal?: number;
+    tax?: number;
+    tip?: number;
+    reconciliation?: ReceiptReconciliation;
+    legacyFirestoreId?: string;
+    scanJobId?: string;
     createdAt?: Date;
     updatedAt?: Date;
 }
 
+/**
+ * The fields a receipt store needs to create a receipt. createdAt is only
+ * given when a receipt is copied from another store.
+ */
+export type NewReceipt = Omit<Receipt, '_id' | 'id' | 'createdAt' | 'updatedAt'> & { createdAt?: Date };
+
+// Zod schema for a line item
+export const receiptLineItemSchema = z.object({
+  description: z.string().trim().min(1, 'Line item description is required').max(200, 'Line item description must be 200 characters or less'),
+  quantity: z.number().positive('Quantity must be positive'),
+  unitPrice: z.number(),
+  total: z.number(),
+  category: z.string().trim().min(1).optional()
+});
+
+const lineItemsSchema = z.array(receiptLineItemSchema).max(200, 'A receipt can have at most 200 line items');
+
 // Zod schema for creating a receipt
 export const createReceiptSchema = z.object({
   merchantName: z.string().trim().min(1, 'Merchant name is required'),
   amount: z.number().nonnegative(),
   date: z.string().datetime('Invalid date format').or(z.date()),
-  categoryId: z.string().trim().min(1, 'Category ID is required'),
+  categoryId: z.string().trim().min(1, 'Category ID is required').optional(),
+  category: z.string().trim().min(1, 'Category is required').optional(),
+  paymentType: z.string().trim().min(1, 'Payment type is required').optional(),
   userId: z.string().trim().min(1, 'User ID is required'),
   imageUrl: z.string().url('Invalid URL format').optional(),
-  notes: z.string().trim().optional()
+  notes: z.string().trim().optional(),
+  lineItems: lineItemsSchema.optional(),
+  subtotal: z.number().nonnegative().optional(),
+  tax: z.number().nonnegative().optional(),
+  tip: z.number().nonnegative().optional()
 });
 
 // Zod schema for updating a receipt
@@ -32,8 +105,14 @@ export const updateReceiptSchema = z.object({
   amount: z.number().positive('Amount must be positive').optional(),
   date: z.string().datetime('Invalid date format').or(z.date()).optional(),
   categoryId: z.string().trim().min(1, 'Category ID is required').optional(),
+  category: z.string().trim().min(1, 'Category is required').optional(),
+  paymentType: z.string().trim().min(1, 'Payment type is required').optional(),
   imageUrl: z.string().url('Invalid URL format').optional(),
-  notes: z.string().trim().optional()
+  notes: z.string().trim().optional(),
+  lineItems: lineItemsSchema.optional(),
+  subtotal: z.number().nonnegative().optional(),
+  tax: z.number().nonnegative().optional(),
+  tip: z.number().nonnegative().optional()
 });
 
 export type CreateReceiptRequest = z.infer<typeof createReceiptSchema>;
@@ -44,10 +123,19 @@ export interface ReceiptResponse {
     merchantName: string;
     amount: number;
     date: Date;
-    categoryId: string;
+    categoryId?: string;
+    category?: string;
+    paymentType?: string;
     userId: string;
+    // Whether GET /users/:userId/receipts/:id/image has an image to link to
+    hasImage: boolean;
     imageUrl?: string;
     notes?: string;
+    lineItems?: ReceiptLineItem[];
+    subtotal?: number;
+    tax?: number;
+    tip?: number;
+    reconciliation?: ReceiptReconciliation;
     createdAt?: Date;
     updatedAt?: Date;
 
@@ -55,6 +143,15 @@ export interface ReceiptResponse {
     predictedCategory?: string;
 }
 
+/**
+ * A link to a receipt image. Links to stored images expire at expiresAt;
+ * images hosted elsewhere are linked as they are, with no expiry.
+ */
+export interface ReceiptImageLink {
+    url: string;
+    expiresAt: Date | null;
+}
+
 export class ReceiptValidationError extends Error {
   constructor(
     message: string,
@@ -66,9 +163,9 @@ export class ReceiptValidationError extends Error {
   }
 }
 
-export function validateCreateReceiptRequest(data: any): CreateReceiptRequest {
+function parseReceiptRequest<T extends z.ZodTypeAny>(schema: T, data: any): z.infer<T> {
   try {
-    return createReceiptSchema.parse(data);
+    return schema.parse(data);
   } catch (error) {
     if (error instanceof z.ZodError) {
       const missingFields = error.issues.map((err: any) => err.path.join('.'));
@@ -83,6 +180,14 @@ export function validateCreateReceiptRequest(data: any): CreateReceiptRequest {
   }
 }
 
+export function validateCreateReceiptRequest(data: any): CreateReceiptRequest {
+  return parseReceiptRequest(createReceiptSchema, data);
+}
+
+export function validateUpdateReceiptRequest(data: any): UpdateReceiptRequest {
+  return parseReceiptRequest(updateReceiptSchema, data);
+}
+
 /**
  * Transforms a database Receipt object to an API ReceiptResponse.
  * Converts MongoDB ObjectId to string for JSON serialization.
@@ -97,9 +202,17 @@ export function toReceiptResponse(receipt: Receipt): ReceiptResponse {
     amount: receipt.amount,
     date: receipt.date,
     categoryId: receipt.categoryId,
+    category: receipt.category,
+    paymentType: receipt.paymentType,
     userId: receipt.userId,
+    hasImage: Boolean(receipt.imageKey || receipt.imageUrl),
     imageUrl: receipt.imageUrl,
     notes: receipt.notes,
+    lineItems: receipt.lineItems,
+    subtotal: receipt.subtotal,
+    tax: receipt.tax,
+    tip: receipt.tip,
+    reconciliation: receipt.reconciliation,
     createdAt: receipt.createdAt,
     updatedAt: receipt.updatedAt
   };
@@ -0,0 +1,135 @@
+import { ObjectId } from 'mongodb';
+import type { CategorySplit } from '../services/ReceiptTextParser';
+import type { ReceiptLineItem, ReceiptReconciliation } from './Receipt';
+
+/**
+ * Stages a scanned receipt goes through, in order:
+ * - ocr:        read the text from the image (Google Vision)
+ * - parse:      merchant, total, date, payment type and line items
+ * - categorize: receipt category (Hugging Face) and item categories
+ * - upload:     compress the image and put it in object storage
+ * - save:       save the receipt in the receipt store
+ */
+export const RECEIPT_JOB_STAGES = ['ocr', 'parse', 'categorize', 'upload', 'save'] as const;
+export type ReceiptJobStage = typeof RECEIPT_JOB_STAGES[number];
+
+/**
+ * Lifecycle of a scan job:
+ * - queued:     waiting for a worker, either new or retrying a stage after a backoff
+ * - processing: claimed by a worker until its lease runs out
+ * - completed:  the receipt was saved; the job holds the scan result
+ * - failed:     a stage ran out of attempts
+ */
+export type ReceiptJobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+// Tries per stage before the job fails
+export const MAX_RECEIPT_JOB_STAGE_ATTEMPTS = 3;
+
+// Finished jobs are removed after this long; the receipt itself is kept
+export const RECEIPT_JOB_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * What the parse stage reads from a receipt's text, plus the category the
+ * categorize stage picks. Amounts the receipt doesn't show are left out.
+ */
+export interface ScannedReceipt {
+    merchantName: string;
+    amount: number;
+    date: Date;
+    paymentType: string;
+    lineItems: ReceiptLineItem[];
+    subtotal?: number;
+    tax?: number;
+    tip?: number;
+    reconciliation?: ReceiptReconciliation;
+    category?: string;
+}
+
+/**
+ * Result of a finished scan, in the shape the client's transaction
+ * confirmation screen expects.
+ */
+export interface ReceiptScanResult {
+    success: true;
+    id: string;                 // Saved receipt ID
+    data: {
+        merchant: string;
+        total: number;
+        date: string;
+        category: string;
+        description: string;
+        paymentType: string;
+        lineItems: ReceiptLineItem[];
+        subtotal: number | null;
+        tax: number | null;
+        tip: number | null;
+        reconciliation: ReceiptReconciliation | null;
+        // Suggested splits for saving the purchase as a split transaction
+        categorySplits: CategorySplit[];
+    };
+}
+
+/**
+ * A queued receipt scan. Each stage's output is kept on the job, so a retry
+ * picks up at the stage that failed instead of starting over.
+ */
+export interface ReceiptJob {
+    _id?: ObjectId;
+    id: string;
+    userId: string;
+    status: ReceiptJobStatus;
+    stage: ReceiptJobStage;     // Stage running or next to run; the last one reached once finished
+    completedStages: ReceiptJobStage[];
+    attempts: number;           // Failed tries of the current stage
+    filePath: string;           // Uploaded image on the server's disk, removed once the job finishes
+    runAfter: Date;             // Queued jobs wait until then; later after a failed try
+    lockedUntil?: Date;         // Lease of the worker processing the job
+    leaseId?: string;           // Issued with the lease; updates only apply while the worker still holds it
+    text?: string;              // OCR output
+    receipt?: ScannedReceipt;   // Parse and categorize output
+    imageKey?: string;          // Upload output
+    result?: ReceiptScanResult; // Save output
+    error?: string;             // Why the last try failed
+    createdAt?: Date;
+    updatedAt?: Date;
+    completedAt?: Date;
+    expiresAt?: Date;           // Set once the job finishes
+}
+
+export type NewReceiptJob = Pick<ReceiptJob, 'userId' | 'filePath'>;
+
+export interface ReceiptJobResponse {
+    id: string;
+    userId: string;
+    status: ReceiptJobStatus;
+    stage: ReceiptJobStage;
+    completedStages: ReceiptJobStage[];
+    progress: number;           // Percent of stages done, 0-100
+    attempts: number;
+    error?: string;
+    result?: ReceiptScanResult;
+    createdAt?: Date;
+    updatedAt?: Date;
+    completedAt?: Date;
+}
+
+/**
+ * Converts a ReceiptJob entity to the API response format.
+ * Internal fields such as the upload path and stage outputs are left out.
+ */
+export function toReceiptJobResponse(job: ReceiptJob): ReceiptJobResponse {
+  return {
+    id: job._id?.toString() || job.id || '',
+    userId: job.userId,
+    status: job.status,
+    stage: job.stage,
+    completedStages: job.completedStages,
+    progress: Math.round((job.completedStages.length / RECEIPT_JOB_STAGES.length) * 100),
+    attempts: job.attempts,
+    error: job.error,
+    result: job.status === 'completed' ? job.result : undefined,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt,
+  };
+}
@@ -0,0 +1,287 @@
+import { ObjectId } from 'mongodb';
+import { z } from 'zod';
+import { transactionKindSchema } from './Transaction';
+import type { TransactionKind } from './Transaction';
+import { currencyCodeSchema } from './ExchangeRate';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type RecurringTransactionStatus = 'active' | 'paused' | 'ended';
+
+/**
+ * Schedule rule for a recurring transaction.
+ *
+ * - daily:   every `interval` days
+ * - weekly:  every `interval` weeks on `dayOfWeek` (0 = Sunday)
+ * - monthly: every `interval` months on `dayOfMonth` (clamped to the month's last day)
+ * - yearly:  every `interval` years on `month`/`dayOfMonth`
+ */
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    interval: number;
+    dayOfWeek?: number;
+    dayOfMonth?: number;
+    month?: number;
+}
+
+export interface RecurringTransaction {
+    _id?: ObjectId;
+    id: string;
+    userId: string;
+    vendorName: string;
+    description: string;
+    amount: number;
+    currency?: string;
+    paymentType: string;
+    categoryId: string;
+    kind?: TransactionKind;
+    rule: RecurrenceRule;
+    startDate: Date;
+    endDate?: Date;
+    nextOccurrence: Date;
+    skippedDates: Date[];
+    status: RecurringTransactionStatus;
+    lastMaterializedAt?: Date;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+// Zod schema for a schedule rule
+export const recurrenceRuleSchema = z.object({
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+  interval: z.number().int().min(1, 'Interval must be at least 1').max(366).default(1),
+  dayOfWeek: z.number().int().min(0).max(6).optional(),
+  dayOfMonth: z.number().int().min(1).max(31).optional(),
+  month: z.number().int().min(1).max(12).optional()
+});
+
+// Zod schema for creating a recurring transaction
+export const createRecurringTransactionSchema = z.object({
+  userId: z.string().trim().min(1, 'User ID is required'),
+  vendorName: z.string().trim().min(1, 'Vendor name is required'),
+  description: z.string().trim().min(1, 'Description is required'),
+  amount: z.number().positive('Amount must be positive'),
+  // Generated transactions default to the user's home currency when omitted
+  currency: currencyCodeSchema.optional(),
+  paymentType: z.string().trim().min(1, 'Payment type is required'),
+  categoryId: z.string().trim().min(1, 'Category ID is required'),
+  kind: transactionKindSchema.optional(),
+  rule: recurrenceRuleSchema,
+  startDate: z.string().datetime('Invalid date format').or(z.date()),
+  endDate: z.string().datetime('Invalid date format').or(z.date()).optional()
+}).refine(
+  (data) => !data.endDate || new Date(data.startDate) <= new Date(data.endDate),
+  { message: 'startDate must be before or equal to endDate', path: ['endDate'] }
+);
+
+// Zod schema for updating a recurring transaction
+export const updateRecurringTransactionSchema = z.object({
+  vendorName: z.string().trim().min(1, 'Vendor name is required').optional(),
+  description: z.string().trim().min(1, 'Description is required').optional(),
+  amount: z.number().positive('Amount must be positive').optional(),
+  currency: currencyCodeSchema.optional(),
+  paymentType: z.string().trim().min(1, 'Payment type is required').optional(),
+  categoryId: z.string().trim().min(1, 'Category ID is required').optional(),
+  kind: transactionKindSchema.optional(),
+  rule: recurrenceRuleSchema.optional(),
+  endDate: z.string().datetime('Invalid date format').or(z.date()).nullable().optional()
+});
+
+// Zod schema for skipping a single occurrence
+export const skipOccurrenceSchema = z.object({
+  date: z.string().datetime('Invalid date format').optional()
+});
+
+export type CreateRecurringTransactionRequest = z.infer<typeof createRecurringTransactionSchema>;
+export type UpdateRecurringTransactionRequest = z.infer<typeof updateRecurringTransactionSchema>;
+
+export interface RecurringTransactionResponse {
+    id: string;
+    userId: string;
+    vendorName: string;
+    description: string;
+    amount: number;
+    currency?: string;
+    paymentType: string;
+    categoryId: string;
+    kind?: TransactionKind;
+    rule: RecurrenceRule;
+    startDate: Date;
+    endDate?: Date;
+    nextOccurrence: Date;
+    skippedDates: Date[];
+    status: RecurringTransactionStatus;
+    lastMaterializedAt?: Date;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export class RecurringTransactionValidationError extends Error {
+  constructor(
+    message: string,
+    public field?: string,
+    public missingFields?: string[]
+  ) {
+    super(message);
+    this.name = 'RecurringTransactionValidationError';
+  }
+}
+
+export function validateCreateRecurringTransactionRequest(data: any): CreateRecurringTransactionRequest {
+  try {
+    return createRecurringTransactionSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const missingFields = error.issues.map((err: any) => err.path.join('.'));
+      const message = error.issues[0]?.message || 'Validation failed';
+      throw new RecurringTransactionValidationError(
+        message,
+        error.issues[0]?.path[0]?.toString(),
+        missingFields
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fills in the rule fields implied by the start date so the stored rule is explicit
+ * (e.g. "monthly" starting on the 15th becomes "monthly on day 15").
+ *
+ * @param rule - Rule as submitted by the client
+ * @param startDate - First date the series may occur on
+ * @returns Rule with dayOfWeek/dayOfMonth/month resolved for its frequency
+ */
+export function normalizeRecurrenceRule(rule: RecurrenceRule, startDate: Date): RecurrenceRule {
+  const interval = rule.interval || 1;
+
+  switch (rule.frequency) {
+    case 'weekly':
+      return { frequency: 'weekly', interval, dayOfWeek: rule.dayOfWeek ?? startDate.getDay() };
+    case 'monthly':
+      return { frequency: 'monthly', interval, dayOfMonth: rule.dayOfMonth ?? startDate.getDate() };
+    case 'yearly':
+      return {
+        frequency: 'yearly',
+        interval,
+        month: rule.month ?? startDate.getMonth() + 1,
+        dayOfMonth: rule.dayOfMonth ?? startDate.getDate()
+      };
+    default:
+      return { frequency: 'daily', interval };
+  }
+}
+
+/**
+ * Builds a date on the given day of a month, clamping to the month's last day
+ * and keeping the time of day from `time`.
+ */
+function dateOnDay(year: number, monthIndex: number, day: number, time: Date): Date {
+  const lastDay = new Date(year, monthIndex + 1, 0).getDate();
+  return new Date(
+    year,
+    monthIndex,
+    Math.min(day, lastDay),
+    time.getHours(),
+    time.getMinutes(),
+    time.getSeconds(),
+    time.getMilliseconds()
+  );
+}
+
+/**
+ * Computes the first occurrence of a normalized rule on or after the start date.
+ *
+ * @param rule - Normalized recurrence rule
+ * @param startDate - Series start date
+ * @returns First occurrence date
+ */
+export function getFirstOccurrence(rule: RecurrenceRule, startDate: Date): Date {
+  switch (rule.frequency) {
+    case 'weekly': {
+      const offset = ((rule.dayOfWeek ?? startDate.getDay()) - startDate.getDay() + 7) % 7;
+      const first = new Date(startDate);
+      first.setDate(first.getDate() + offset);
+      return first;
+    }
+    case 'monthly': {
+      const day = rule.dayOfMonth ?? startDate.getDate();
+      const candidate = dateOnDay(startDate.getFullYear(), startDate.getMonth(), day, startDate);
+      return candidate >= startDate
+        ? candidate
+        : dateOnDay(startDate.getFullYear(), startDate.getMonth() + 1, day, startDate);
+    }
+    case 'yearly': {
+      const monthIndex = (rule.month ?? startDate.getMonth() + 1) - 1;
+      const day = rule.dayOfMonth ?? startDate.getDate();
+      const candidate = dateOnDay(startDate.getFullYear(), monthIndex, day, startDate);
+      return candidate >= startDate
+        ? candidate
+        : dateOnDay(startDate.getFullYear() + 1, monthIndex, day, startDate);
+    }
+    default:
+      return new Date(startDate);
+  }
+}
+
+/**
+ * Computes the occurrence following `current` for a normalized rule.
+ *
+ * @param rule - Normalized recurrence rule
+ * @param current - The current occurrence date
+ * @returns Next occurrence date
+ */
+export function getNextOccurrence(rule: RecurrenceRule, current: Date): Date {
+  const interval = rule.interval || 1;
+
+  switch (rule.frequency) {
+    case 'weekly': {
+      const next = new Date(current);
+      next.setDate(next.getDate() + 7 * interval);
+      return next;
+    }
+    case 'monthly':
+      return dateOnDay(current.getFullYear(), current.getMonth() + interval, rule.dayOfMonth ?? current.getDate(), current);
+    case 'yearly':
+      return dateOnDay(
+        current.getFullYear() + interval,
+        (rule.month ?? current.getMonth() + 1) - 1,
+        rule.dayOfMonth ?? current.getDate(),
+        current
+      );
+    default: {
+      const next = new Date(current);
+      next.setDate(next.getDate() + interval);
+      return next;
+    }
+  }
+}
+
+/**
+ * Transforms a database RecurringTransaction object to an API response.
+ * Converts MongoDB ObjectId to string for JSON serialization.
+ *
+ * @param recurring - Database recurring transaction object
+ * @returns Recurring transaction data formatted for API response
+ * */
+export function toRecurringTransactionResponse(recurring: RecurringTransaction): RecurringTransactionResponse {
+  return {
+    id: recurring._id?.toString() || recurring.id || '',
+    userId: recurring.userId,
+    vendorName: recurring.vendorName,
+    description: recurring.description,
+    amount: recurring.amount,
+    currency: recurring.currency,
+    paymentType: recurring.paymentType,
+    categoryId: recurring.categoryId,
+    kind: recurring.kind,
+    rule: recurring.rule,
+    startDate: recurring.startDate,
+    endDate: recurring.endDate,
+    nextOccurrence: recurring.nextOccurrence,
+    skippedDates: recurring.skippedDates || [],
+    status: recurring.status,
+    lastMaterializedAt: recurring.lastMaterializedAt,
+    createdAt: recurring.createdAt,
+    updatedAt: recurring.updatedAt
+  };
+}
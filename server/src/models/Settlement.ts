@@ -0,0 +1,91 @@
+import { ObjectId } from 'mongodb';
+import { z } from 'zod';
+import { currencyCodeSchema } from './ExchangeRate';
+
+/**
+ * Which way money moved when settling up:
+ * - received: the other person paid the user
+ * - paid:     the user paid the other person
+ */
+export const SETTLEMENT_DIRECTIONS = ['received', 'paid'] as const;
+export type SettlementDirection = typeof SETTLEMENT_DIRECTIONS[number];
+
+/**
+ * A payment between the user and someone they share costs with, recorded to
+ * settle what one owes the other.
+ */
+export interface Settlement {
+    _id?: ObjectId;
+    id: string;
+    userId: string;
+    name: string;               // The other person, matched to participants by name ignoring case
+    amount: number;
+    currency: string;
+    direction: SettlementDirection;
+    date: Date;
+    note?: string;
+    createdAt?: Date;
+}
+
+// Zod schema for recording a settlement; without an amount the whole balance is settled
+export const createSettlementSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be 100 characters or less'),
+  amount: z.number().positive('Amount must be positive').optional(),
+  currency: currencyCodeSchema.optional(),
+  // Defaults to the direction that reduces the current balance
+  direction: z.enum(SETTLEMENT_DIRECTIONS, 'Direction must be received or paid').optional(),
+  date: z.coerce.date('Invalid date').optional(),
+  note: z.string().trim().max(200, 'Note must be 200 characters or less').optional()
+});
+
+export type CreateSettlementRequest = z.infer<typeof createSettlementSchema>;
+
+export interface SettlementResponse {
+    id: string;
+    name: string;
+    amount: number;
+    currency: string;
+    direction: SettlementDirection;
+    date: Date;
+    note?: string;
+    createdAt?: Date;
+}
+
+/**
+ * Where the user stands with one person. A positive balance means they owe
+ * the user; a negative one means the user owes them.
+ */
+export interface PersonBalance {
+    name: string;
+    balance: number;
+}
+
+export interface BalancesResponse {
+    currency: string;           // The user's home currency
+    owedToYou: number;
+    youOwe: number;
+    people: PersonBalance[];
+}
+
+export class SettlementValidationError extends Error {
+  constructor(
+    message: string,
+    public field?: string
+  ) {
+    super(message);
+    this.name = 'SettlementValidationError';
+  }
+}
+
+export function toSettlementResponse(settlement: Settlement): SettlementResponse {
+  return {
+    id: settlement._id?.toString() || settlement.id || '',
+    name: settlement.name,
+    amount: settlement.amount,
+    currency: settlement.currency,
+    direction: settlement.direction,
+    date: settlement.date,
+    note: settlement.note,
+    createdAt: settlement.createdAt,
+  };
+}
@@ -55,6 +55,7 @@ export const SpendingSummaryResponseSchema = z.object({
   period: z.string(),
   startDate: z.date(),
   endDate: z.date(),
+  currency: z.string(), // Home currency all amounts are converted into
   totalSpending: z.number(),
   categories: z.array(CategorySpendingSummarySchema),
 });
@@ -69,9 +70,13 @@ export const TransactionDetailSchema = z.object({
   vendorName: z.string(),
   description: z.string(),
   dateTime: z.date(),
-  amount: z.number(),
+  amount: z.number(), // Amount charged to this category (the split line for split transactions)
   paymentType: z.string(),
   receiptId: z.string().optional(),
+  transactionAmount: z.number().optional(), // Full transaction total, only set for split transactions
+  splitNote: z.string().optional(),
+  originalCurrency: z.string().optional(), // Only set when the transaction was converted
+  originalAmount: z.number().optional(), // Line amount before conversion
 });
 
 export type TransactionDetail = z.infer<typeof TransactionDetailSchema>;
@@ -98,12 +103,36 @@ export const DetailedSpendingReportSchema = z.object({
   period: z.string(),
   startDate: z.date(),
   endDate: z.date(),
+  currency: z.string(),
   totalSpending: z.number(),
   categories: z.array(CategoryTransactionsSchema),
 });
 
 export type DetailedSpendingReport = z.infer<typeof DetailedSpendingReportSchema>;
 
+/**
+ * Response schema for cash-flow report endpoint.
+ * Transfers move money between the user's own accounts and are reported
+ * separately; they don't count as income or expenses.
+ */
+export const CashFlowReportSchema = z.object({
+  userId: z.string(),
+  period: z.string(),
+  startDate: z.date(),
+  endDate: z.date(),
+  currency: z.string(),
+  totalIncome: z.number(),
+  totalExpenses: z.number(),
+  totalTransfers: z.number(),
+  netFlow: z.number(), // totalIncome - totalExpenses
+  savingsRate: z.number().nullable(), // Percentage of income kept; null when there was no income
+  incomeCount: z.number(),
+  expenseCount: z.number(),
+  transferCount: z.number(),
+});
+
+export type CashFlowReport = z.infer<typeof CashFlowReportSchema>;
+
 /**
  * Query parameter schema for monthly trends endpoint
  */
@@ -121,8 +150,11 @@ export const MonthlyBreakdownSchema = z.object({
   month: z.string(), // e.g., "January 2025"
   year: z.number(),
   monthNumber: z.number(), // 1-12
-  totalAmount: z.number(),
+  totalAmount: z.number(), // Expenses only
   transactionCount: z.number(),
+  totalIncome: z.number(),
+  netFlow: z.number(), // totalIncome - totalAmount
+  savingsRate: z.number().nullable(), // Percentage of income kept; null when there was no income
   startDate: z.date(),
   endDate: z.date(),
 });
@@ -134,8 +166,11 @@ export type MonthlyBreakdown = z.infer<typeof MonthlyBreakdownSchema>;
  */
 export const CurrentMonthSummarySchema = z.object({
   month: z.string(),
-  totalAmount: z.number(),
+  totalAmount: z.number(), // Expenses only
   transactionCount: z.number(),
+  totalIncome: z.number(),
+  netFlow: z.number(),
+  savingsRate: z.number().nullable(),
   startDate: z.date(),
   endDate: z.date(),
 });
@@ -150,6 +185,7 @@ export const TrendDataSchema = z.object({
   direction: z.enum(['increase', 'decrease', 'stable']),
   comparisonPeriod: z.string(), // e.g., "last 6 months"
   previousMonthsAverage: z.number(),
+  averageSavingsRate: z.number().nullable(), // Savings rate over the comparison period as a whole
 });
 
 export type TrendData = z.infer<typeof TrendDataSchema>;
@@ -159,6 +195,7 @@ export type TrendData = z.infer<typeof TrendDataSchema>;
  */
 export const MonthlyTrendsResponseSchema = z.object({
   userId: z.string(),
+  currency: z.string(),
   currentMonth: CurrentMonthSummarySchema,
   trend: TrendDataSchema,
   monthlyBreakdown: z.array(MonthlyBreakdownSchema),
@@ -0,0 +1,256 @@
+import { ObjectId } from 'mongodb';
+import { z } from 'zod';
+import { transactionKindSchema } from './Transaction';
+import type { TransactionKind } from './Transaction';
+
+// Most rows a single statement import can hold
+export const MAX_IMPORT_ROWS = 2000;
+
+// Previews that are never committed are removed after this long
+export const IMPORT_PREVIEW_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const STATEMENT_FORMATS = ['csv', 'ofx'] as const;
+export type StatementFormat = typeof STATEMENT_FORMATS[number];
+
+/**
+ * Lifecycle of an import:
+ * - preview:     parsed and waiting for review, nothing written yet
+ * - committed:   accepted rows were saved as transactions
+ * - rolled_back: the committed transactions were deleted again
+ */
+export type StatementImportStatus = 'preview' | 'committed' | 'rolled_back';
+
+// A CSV column, by header name or 0-based position
+const columnRefSchema = z.union([
+  z.string().trim().min(1, 'Column name cannot be empty'),
+  z.number().int().nonnegative('Column index must be non-negative')
+]);
+
+export type ColumnRef = z.infer<typeof columnRefSchema>;
+
+/**
+ * How the columns of a bank's CSV export map onto transaction fields.
+ * Amounts come either from one signed amount column or from separate
+ * debit (money out) and credit (money in) columns.
+ */
+export const columnMappingSchema = z.object({
+  date: columnRefSchema,
+  vendor: columnRefSchema,
+  description: columnRefSchema.optional(),
+  amount: columnRefSchema.optional(),
+  debit: columnRefSchema.optional(),
+  credit: columnRefSchema.optional(),
+  currency: columnRefSchema.optional(),
+  dateFormat: z.enum(['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY']).default('YYYY-MM-DD'),
+  decimalSeparator: z.enum(['.', ',']).default('.'),
+  // Auto-detected from the header line when omitted
+  delimiter: z.enum([',', ';', '\t', '|']).optional(),
+  hasHeader: z.boolean().default(true),
+  // Most banks export money out as negative amounts; some do the opposite
+  negativeIsExpense: z.boolean().default(true)
+}).refine(
+  (data) => data.amount !== undefined || data.debit !== undefined || data.credit !== undefined,
+  { message: 'Map an amount column, or debit and/or credit columns', path: ['amount'] }
+);
+
+export type ColumnMapping = z.infer<typeof columnMappingSchema>;
+
+// Zod schema for the fields sent alongside the uploaded file
+export const createStatementImportSchema = z.object({
+  // JSON-encoded ColumnMapping (multipart fields are strings)
+  mapping: z.string().trim().optional(),
+  mappingProfileId: z.string().trim().min(1).optional(),
+  // Saves the mapping as a per-bank profile under this name
+  saveMappingAs: z.string().trim().min(1).max(100).optional(),
+  paymentType: z.string().trim().min(1).max(50).default('Debit')
+});
+
+// Zod schema for saving a per-bank mapping profile
+export const saveMappingProfileSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be 100 characters or less'),
+  mapping: columnMappingSchema
+});
+
+// Zod schema for committing a preview
+export const commitStatementImportSchema = z.object({
+  // Rows to save, with optional overrides. Defaults to every valid row not flagged as a duplicate.
+  rows: z.array(z.object({
+    rowNumber: z.number().int().positive(),
+    categoryId: z.string().trim().min(1).optional(),
+    kind: transactionKindSchema.optional(),
+    vendorName: z.string().trim().min(1).optional()
+  })).min(1, 'Select at least one row to import').optional()
+});
+
+export type CreateStatementImportRequest = z.infer<typeof createStatementImportSchema>;
+export type SaveMappingProfileRequest = z.infer<typeof saveMappingProfileSchema>;
+export type CommitStatementImportRequest = z.infer<typeof commitStatementImportSchema>;
+
+/**
+ * An existing transaction that a parsed row probably duplicates.
+ */
+export interface DuplicateMatch {
+    transactionId: string;
+    vendorName: string;
+    dateTime: Date;
+    amount: number;
+    score: number;      // 0-1, higher is more certain
+}
+
+/**
+ * A statement line after parsing, categorization and duplicate detection.
+ * Rows with an error could not be parsed and can't be committed.
+ */
+export interface StatementRow {
+    rowNumber: number;  // 1-based position in the file (data rows only)
+    dateTime?: Date;
+    amount?: number;
+    kind?: TransactionKind;
+    currency?: string;
+    vendorName?: string;
+    description?: string;
+    categoryId?: string;
+    suggestedCategory?: string; // Category bucket returned by the categorizer
+    duplicateOf?: DuplicateMatch;
+    error?: string;
+}
+
+export interface StatementImport {
+    _id?: ObjectId;
+    id: string;
+    userId: string;
+    fileName: string;
+    format: StatementFormat;
+    status: StatementImportStatus;
+    paymentType: string;
+    rows: StatementRow[];
+    transactionIds: string[];
+    mappingProfileId?: string;
+    committedAt?: Date;
+    rolledBackAt?: Date;
+    expiresAt?: Date;   // Only set on previews
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+/**
+ * A saved per-bank column mapping.
+ */
+export interface ImportMappingProfile {
+    _id?: ObjectId;
+    id: string;
+    userId: string;
+    name: string;
+    mapping: ColumnMapping;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export interface StatementImportResponse {
+    id: string;
+    userId: string;
+    fileName: string;
+    format: StatementFormat;
+    status: StatementImportStatus;
+    paymentType: string;
+    rowCount: number;
+    duplicateCount: number;
+    errorCount: number;
+    rows: StatementRow[];
+    transactionIds: string[];
+    mappingProfileId?: string;
+    committedAt?: Date;
+    rolledBackAt?: Date;
+    expiresAt?: Date;
+    createdAt?: Date;
+}
+
+export interface ImportMappingProfileResponse {
+    id: string;
+    userId: string;
+    name: string;
+    mapping: ColumnMapping;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export class StatementImportValidationError extends Error {
+  constructor(
+    message: string,
+    public field?: string,
+    public missingFields?: string[]
+  ) {
+    super(message);
+    this.name = 'StatementImportValidationError';
+  }
+}
+
+/**
+ * Parses data with a schema, mapping Zod errors to StatementImportValidationError.
+ *
+ * @param schema - Zod schema to validate against
+ * @param data - Raw request data
+ * @returns Validated data
+ * @throws {StatementImportValidationError} If validation fails
+ */
+export function validateStatementImportInput<T extends z.ZodTypeAny>(schema: T, data: any): z.infer<T> {
+  try {
+    return schema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const missingFields = error.issues.map((err: any) => err.path.join('.'));
+      const message = error.issues[0]?.message || 'Validation failed';
+      throw new StatementImportValidationError(
+        message,
+        error.issues[0]?.path.join('.'),
+        missingFields
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Transforms a database StatementImport object to an API StatementImportResponse.
+ *
+ * @param statementImport - Database import object
+ * @param includeRows - Whether to include the parsed rows (omitted in listings)
+ * @returns Import data formatted for API response
+ */
+export function toStatementImportResponse(statementImport: StatementImport, includeRows = true): StatementImportResponse {
+  return {
+    id: statementImport._id?.toString() || statementImport.id || '',
+    userId: statementImport.userId,
+    fileName: statementImport.fileName,
+    format: statementImport.format,
+    status: statementImport.status,
+    paymentType: statementImport.paymentType,
+    rowCount: statementImport.rows.length,
+    duplicateCount: statementImport.rows.filter(row => row.duplicateOf).length,
+    errorCount: statementImport.rows.filter(row => row.error).length,
+    rows: includeRows ? statementImport.rows : [],
+    transactionIds: statementImport.transactionIds,
+    mappingProfileId: statementImport.mappingProfileId,
+    committedAt: statementImport.committedAt,
+    rolledBackAt: statementImport.rolledBackAt,
+    expiresAt: statementImport.expiresAt,
+    createdAt: statementImport.createdAt
+  };
+}
+
+/**
+ * Transforms a database ImportMappingProfile object to an API response.
+ *
+ * @param profile - Database mapping profile
+ * @returns Mapping profile formatted for API response
+ */
+export function toImportMappingProfileResponse(profile: ImportMappingProfile): ImportMappingProfileResponse {
+  return {
+    id: profile._id?.toString() || profile.id || '',
+    userId: profile.userId,
+    name: profile.name,
+    mapping: profile.mapping,
+    createdAt: profile.createdAt,
+    updatedAt: profile.updatedAt
+  };
+}
@@ -1,5 +1,36 @@
 import { ObjectId } from 'mongodb';
 import { z } from 'zod';
+import { currencyCodeSchema, getCurrency } from './ExchangeRate';
+
+/**
+ * Direction of money for a transaction or category.
+ * - expense:  money going out (counts towards spending and budgets)
+ * - income:   money coming in
+ * - transfer: moving money between own accounts (neither income nor spending)
+ *
+ * Documents written before kinds existed have no kind and are treated as expenses.
+ */
+export const TRANSACTION_KINDS = ['income', 'expense', 'transfer'] as const;
+export const transactionKindSchema = z.enum(TRANSACTION_KINDS);
+export type TransactionKind = z.infer<typeof transactionKindSchema>;
+
+/**
+ * One line of a split transaction: the part of the total charged to a category.
+ */
+export interface TransactionSplit {
+    categoryId: string;
+    amount: number;
+    note?: string;
+}
+
+/**
+ * Someone the user shared a transaction's cost with, and their part of it.
+ * The user's own part is whatever the participants' shares leave over.
+ */
+export interface TransactionParticipant {
+    name: string;               // As the user refers to them ("Sam")
+    share: number;              // In the transaction's currency
+}
 
 export interface Transaction {
     _id?: ObjectId;
@@ -9,24 +40,90 @@ export interface Transaction {
     description: string;
     dateTime: Date;
     amount: number;
+    currency?: string;
     paymentType: string;
     categoryId: string;
+    kind?: TransactionKind;
+    splits?: TransactionSplit[];
+    participants?: TransactionParticipant[];
+    splitEvenly?: boolean;      // Shares were divided evenly and are divided again when the amount changes
+    paidBy?: string;            // Participant who paid; the user when missing
     receiptId?: string;
+    recurringId?: string;
+    importId?: string;
     createdAt?: Date;
     updatedAt?: Date;
 }
 
+// Split amounts are compared to the total with a half-cent tolerance for rounding
+const SPLIT_TOLERANCE = 0.005;
+
+// Zod schema for a single split line
+export const transactionSplitSchema = z.object({
+  categoryId: z.string().trim().min(1, 'Category ID is required'),
+  amount: z.number().positive('Split amount must be positive'),
+  note: z.string().trim().max(200, 'Split note must be 200 characters or less').optional()
+});
+
+const splitsSchema = z.array(transactionSplitSchema)
+  .min(1, 'At least one split line is required')
+  .max(50, 'A transaction can have at most 50 split lines');
+
+// Zod schema for a participant; without shares the amount is split evenly with the user
+export const transactionParticipantSchema = z.object({
+  name: z.string().trim().min(1, 'Participant name is required').max(100, 'Participant name must be 100 characters or less'),
+  share: z.number().nonnegative('Participant share must not be negative').optional()
+});
+
+const participantsSchema = z.array(transactionParticipantSchema)
+  .min(1, 'At least one participant is required')
+  .max(20, 'A transaction can have at most 20 participants');
+
+export type TransactionParticipantInput = z.infer<typeof transactionParticipantSchema>;
+
 // Zod schema for creating a transaction
 export const createTransactionSchema = z.object({
   userId: z.string().trim().min(1, 'User ID is required'),
   vendorName: z.string().trim().min(1, 'Vendor name is required'),
   description: z.string().trim().min(1, 'Description is required'),
   dateTime: z.string().datetime('Invalid date format').or(z.date()),
+  // Always positive; direction comes from kind
   amount: z.number().positive('Amount must be positive'),
+  // Currency of amount and splits; defaults to the user's home currency
+  currency: currencyCodeSchema.optional(),
   paymentType: z.string().trim().min(1, 'Payment type is required'),
-  categoryId: z.string().trim().min(1, 'Category ID is required'),
-  receiptId: z.string().trim().optional()
-});
+  // Defaults to the category's kind, then to expense
+  kind: transactionKindSchema.optional(),
+  // Optional when splits are given; defaults to the largest split's category
+  categoryId: z.string().trim().min(1, 'Category ID is required').optional(),
+  splits: splitsSchema.optional(),
+  // People sharing the cost; paidBy names the one who paid when it wasn't the user
+  participants: participantsSchema.optional(),
+  paidBy: z.string().trim().min(1).optional(),
+  receiptId: z.string().trim().optional(),
+  recurringId: z.string().trim().optional(),
+  // Set when the transaction came from a bank statement import
+  importId: z.string().trim().optional()
+}).superRefine((data, ctx) => {
+  if (!data.categoryId && !data.splits) {
+    ctx.addIssue({ code: 'custom', message: 'Category ID is required', path: ['categoryId'] });
+  }
+  if (data.splits && !splitsMatchAmount(data.splits, data.amount)) {
+    ctx.addIssue({ code: 'custom', message: 'Split amounts must add up to the transaction amount', path: ['splits'] });
+  }
+  const participantsIssue = findParticipantsIssue(data.participants, data.amount, data.paidBy);
+  if (participantsIssue) {
+    ctx.addIssue({ code: 'custom', message: participantsIssue.message, path: [participantsIssue.field] });
+  }
+}).transform(({ participants, paidBy, ...data }) => ({
+  ...data,
+  categoryId: data.categoryId ?? getPrimarySplitCategory(data.splits ?? []),
+  ...(participants ? {
+    participants: assignParticipantShares(participants, data.amount),
+    ...(isEvenSplit(participants) && { splitEvenly: true }),
+    paidBy: paidBy ? findParticipant(participants, paidBy)?.name : undefined
+  } : {})
+}));
 
 // Zod schema for updating a transaction
 export const updateTransactionSchema = z.object({
@@ -34,13 +131,126 @@ export const updateTransactionSchema = z.object({
   description: z.string().trim().min(1, 'Description is required').optional(),
   dateTime: z.string().datetime('Invalid date format').or(z.date()).optional(),
   amount: z.number().positive('Amount must be positive').optional(),
+  currency: currencyCodeSchema.optional(),
   paymentType: z.string().trim().min(1, 'Payment type is required').optional(),
   categoryId: z.string().trim().min(1, 'Category ID is required').optional(),
+  kind: transactionKindSchema.optional(),
+  // null removes the split and puts the whole amount back on categoryId
+  splits: splitsSchema.nullable().optional(),
+  // null makes the transaction the user's alone again
+  participants: participantsSchema.nullable().optional(),
+  // null means the user paid
+  paidBy: z.string().trim().min(1).nullable().optional(),
   receiptId: z.string().trim().optional()
 });
 
+// Accepts YYYY-MM-DD or a full ISO datetime for date range filters
+const dateFilterSchema = z.string()
+  .trim()
+  .refine(
+    (value) => /^\d{4}-\d{2}-\d{2}$/.test(value) || z.string().datetime().safeParse(value).success,
+    'Invalid date format. Use YYYY-MM-DD or ISO 8601'
+  );
+
+export const TRANSACTION_SORT_FIELDS = ['dateTime', 'amount', 'vendorName', 'createdAt'] as const;
+
+// Filter and sort parameters shared by listing and export (query string parameters)
+const transactionFilterQueryShape = {
+  startDate: dateFilterSchema.optional(),
+  endDate: dateFilterSchema.optional(),
+  // Accepts repeated params (?categoryId=a&categoryId=b) or a comma separated list
+  categoryId: z.preprocess(
+    (value) => {
+      if (value === undefined) return undefined;
+      const values = Array.isArray(value) ? value : [value];
+      return values.flatMap((v) => String(v).split(',')).map((v) => v.trim()).filter(Boolean);
+    },
+    z.array(z.string()).optional()
+  ),
+  paymentType: z.string().trim().min(1).optional(),
+  kind: transactionKindSchema.optional(),
+  vendor: z.string().trim().min(1).optional(),
+  minAmount: z.coerce.number().nonnegative('minAmount must be non-negative').optional(),
+  maxAmount: z.coerce.number().nonnegative('maxAmount must be non-negative').optional(),
+  sortBy: z.enum(TRANSACTION_SORT_FIELDS).default('dateTime'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+};
+
+const dateRangeRefinement = {
+  check: (data: { startDate?: string; endDate?: string }) => {
+    if (data.startDate && data.endDate) {
+      return new Date(data.startDate) <= new Date(data.endDate);
+    }
+    return true;
+  },
+  params: { message: 'startDate must be before or equal to endDate', path: ['startDate'] },
+};
+
+const amountRangeRefinement = {
+  check: (data: { minAmount?: number; maxAmount?: number }) => {
+    if (data.minAmount !== undefined && data.maxAmount !== undefined) {
+      return data.minAmount <= data.maxAmount;
+    }
+    return true;
+  },
+  params: { message: 'minAmount must be less than or equal to maxAmount', path: ['minAmount'] },
+};
+
+// Zod schema for listing transactions (query string parameters)
+export const listTransactionsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  // Must be a nextCursor from a page listed with the same sort
+  cursor: z.string().trim().min(1).optional(),
+  ...transactionFilterQueryShape,
+})
+  .refine(
+    (data) => data.cursor === undefined || decodeTransactionCursor(data.cursor, data.sortBy) !== null,
+    { message: 'Invalid cursor', path: ['cursor'] }
+  )
+  .refine(dateRangeRefinement.check, dateRangeRefinement.params)
+  .refine(amountRangeRefinement.check, amountRangeRefinement.params);
+
+export const TRANSACTION_EXPORT_FORMATS = ['csv', 'json', 'ofx', 'xlsx'] as const;
+
+// Zod schema for exporting transactions (query string parameters)
+export const exportTransactionsQuerySchema = z.object({
+  format: z.enum(TRANSACTION_EXPORT_FORMATS).default('csv'),
+  ...transactionFilterQueryShape,
+})
+  .refine(dateRangeRefinement.check, dateRangeRefinement.params)
+  .refine(amountRangeRefinement.check, amountRangeRefinement.params);
+
 export type CreateTransactionRequest = z.infer<typeof createTransactionSchema>;
 export type UpdateTransactionRequest = z.infer<typeof updateTransactionSchema>;
+// What an update writes: the request's fields, plus whether shares are even (null clears it)
+export type TransactionUpdate = Partial<UpdateTransactionRequest> & { splitEvenly?: boolean | null };
+export type ListTransactionsQuery = z.infer<typeof listTransactionsQuerySchema>;
+export type ExportTransactionsQuery = z.infer<typeof exportTransactionsQuerySchema>;
+export type TransactionExportFormat = ExportTransactionsQuery['format'];
+export type TransactionSortField = typeof TRANSACTION_SORT_FIELDS[number];
+
+/**
+ * Filters applied when querying a user's transactions.
+ * Dates are already resolved to Date objects by the service layer.
+ */
+export interface TransactionFilters {
+  startDate?: Date;
+  endDate?: Date;
+  categoryIds?: string[];
+  paymentType?: string;
+  kind?: TransactionKind;
+  vendor?: string;
+  minAmount?: number;
+  maxAmount?: number;
+}
+
+/**
+ * Position of the last item of a page, used for keyset pagination.
+ */
+export interface TransactionCursor {
+  value: Date | number | string;
+  id: string;
+}
 
 export interface TransactionResponse {
     id: string;
@@ -49,13 +259,30 @@ export interface TransactionResponse {
     description: string;
     dateTime: Date;
     amount: number;
+    currency: string;
     paymentType: string;
     categoryId: string;
+    kind: TransactionKind;
+    splits?: TransactionSplit[];
+    participants?: TransactionParticipant[];
+    paidBy?: string;
     receiptId?: string;
+    recurringId?: string;
+    importId?: string;
     createdAt?: Date;
     updatedAt?: Date;
 }
 
+/**
+ * A single page of transactions returned by the listing endpoint.
+ * nextCursor is null when there are no more results.
+ */
+export interface TransactionPageResponse {
+    items: TransactionResponse[];
+    nextCursor: string | null;
+    hasMore: boolean;
+}
+
 export class TransactionValidationError extends Error {
   constructor(
     message: string,
@@ -99,10 +326,207 @@ export function toTransactionResponse(transaction: Transaction): TransactionResp
     description: transaction.description,
     dateTime: transaction.dateTime,
     amount: transaction.amount,
+    currency: getCurrency(transaction),
     paymentType: transaction.paymentType,
     categoryId: transaction.categoryId,
+    kind: getTransactionKind(transaction),
+    splits: transaction.splits,
+    participants: transaction.participants,
+    paidBy: transaction.paidBy,
     receiptId: transaction.receiptId,
+    recurringId: transaction.recurringId,
+    importId: transaction.importId,
     createdAt: transaction.createdAt,
     updatedAt: transaction.updatedAt
   };
 }
+
+/**
+ * Encodes the sort position of a transaction as an opaque cursor string.
+ *
+ * @param transaction - Last transaction of a page
+ * @param sortBy - Field the page is sorted on
+ * @returns The cursor to resume after the transaction
+ */
+export function encodeTransactionCursor(transaction: Transaction, sortBy: TransactionSortField): string {
+  const value = transaction[sortBy];
+  const payload = {
+    v: value instanceof Date ? value.toISOString() : value,
+    id: transaction._id?.toString() || transaction.id,
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor produced by encodeTransactionCursor for the given sort field.
+ *
+ * @param cursor - Cursor from a previous page
+ * @param sortBy - Field the page is sorted on
+ * @returns The position to resume after, or null if the cursor is malformed
+ *          or doesn't hold a transaction ID
+ */
+export function decodeTransactionCursor(cursor: string, sortBy: TransactionSortField): TransactionCursor | null {
+  let payload: any;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (!payload || typeof payload.id !== 'string' || !ObjectId.isValid(payload.id) || payload.v === undefined || payload.v === null) {
+    return null;
+  }
+
+  if (sortBy === 'dateTime' || sortBy === 'createdAt') {
+    const date = new Date(payload.v);
+    return isNaN(date.getTime()) ? null : { value: date, id: payload.id };
+  }
+
+  if (sortBy === 'amount' && typeof payload.v !== 'number') {
+    return null;
+  }
+
+  return { value: payload.v, id: payload.id };
+}
+
+/**
+ * Checks that split lines add up to the transaction total (to the cent).
+ *
+ * @param splits - Split lines
+ * @param amount - Transaction total
+ * @returns True if the lines account for the whole amount
+ */
+export function splitsMatchAmount(splits: TransactionSplit[], amount: number): boolean {
+  const total = splits.reduce((sum, split) => sum + split.amount, 0);
+  return Math.abs(total - amount) < SPLIT_TOLERANCE;
+}
+
+/**
+ * Checks participants against the transaction they share: names must be
+ * unique, shares given for everyone or no one and no more than the amount,
+ * and paidBy must name a participant.
+ *
+ * @param participants - Participants, if any
+ * @param amount - Transaction total
+ * @param paidBy - Name of the participant who paid, if not the user
+ * @returns The first problem found, or null
+ */
+export function findParticipantsIssue(
+  participants: TransactionParticipantInput[] | undefined,
+  amount: number,
+  paidBy?: string | null
+): { message: string; field: string } | null {
+  if (!participants || participants.length === 0) {
+    return paidBy ? { message: 'paidBy requires participants', field: 'paidBy' } : null;
+  }
+
+  const names = new Set(participants.map(participant => participant.name.toLowerCase()));
+  if (names.size !== participants.length) {
+    return { message: 'Participant names must be unique', field: 'participants' };
+  }
+
+  const withShares = participants.filter(participant => participant.share !== undefined);
+  if (withShares.length > 0 && withShares.length < participants.length) {
+    return { message: 'Give every participant a share, or none to split evenly', field: 'participants' };
+  }
+
+  const total = withShares.reduce((sum, participant) => sum + (participant.share ?? 0), 0);
+  if (total - amount >= SPLIT_TOLERANCE) {
+    return { message: "Participant shares can't add up to more than the transaction amount", field: 'participants' };
+  }
+
+  if (paidBy && !findParticipant(participants, paidBy)) {
+    return { message: 'paidBy must name one of the participants', field: 'paidBy' };
+  }
+
+  return null;
+}
+
+/**
+ * Fills in participants' shares. Without shares the amount is divided evenly
+ * between the participants and the user, with any leftover cent kept by the user.
+ *
+ * @param participants - Validated participants
+ * @param amount - Transaction total
+ * @returns Participants with a share each
+ */
+export function assignParticipantShares(
+  participants: TransactionParticipantInput[],
+  amount: number
+): TransactionParticipant[] {
+  if (!isEvenSplit(participants)) {
+    return participants.map(({ name, share }) => ({ name, share: share as number }));
+  }
+
+  const evenShare = Math.floor((amount / (participants.length + 1)) * 100) / 100;
+  return participants.map(({ name }) => ({ name, share: evenShare }));
+}
+
+/**
+ * Whether participants were given without shares, to split the amount evenly.
+ */
+export function isEvenSplit(participants: TransactionParticipantInput[]): boolean {
+  return participants.every(participant => participant.share === undefined);
+}
+
+/**
+ * Finds a participant by name, ignoring case.
+ */
+export function findParticipant<T extends { name: string }>(participants: T[], name: string): T | undefined {
+  const key = name.trim().toLowerCase();
+  return participants.find(participant => participant.name.toLowerCase() === key);
+}
+
+/**
+ * The user's own part of a shared transaction: what the participants' shares leave over.
+ *
+ * @param transaction - Transaction (database or response shape)
+ * @returns The user's share, in the transaction's currency
+ */
+export function getOwnShare(transaction: Pick<Transaction, 'amount' | 'participants'>): number {
+  const shared = (transaction.participants ?? []).reduce((sum, participant) => sum + participant.share, 0);
+  return Math.round((transaction.amount - shared) * 100) / 100;
+}
+
+/**
+ * Picks the category a split transaction is filed under when a single
+ * category is needed: the largest line, first one on ties.
+ *
+ * @param splits - Split lines
+ * @returns Category ID of the largest line, or '' when there are none
+ */
+export function getPrimarySplitCategory(splits: TransactionSplit[]): string {
+  let primary: TransactionSplit | undefined;
+  for (const split of splits) {
+    if (!primary || split.amount > primary.amount) {
+      primary = split;
+    }
+  }
+  return primary?.categoryId ?? '';
+}
+
+/**
+ * Returns how a transaction's amount is allocated to categories.
+ * A split transaction yields its lines; otherwise the whole amount goes to categoryId.
+ *
+ * @param transaction - Transaction (database or response shape)
+ * @returns One entry per category line
+ */
+export function getCategoryAllocations(
+  transaction: Pick<Transaction, 'categoryId' | 'amount' | 'splits'>
+): TransactionSplit[] {
+  if (transaction.splits && transaction.splits.length > 0) {
+    return transaction.splits;
+  }
+  return [{ categoryId: transaction.categoryId, amount: transaction.amount }];
+}
+
+/**
+ * Resolves the kind of a transaction, treating legacy documents without one as expenses.
+ *
+ * @param transaction - Transaction (database or response shape)
+ * @returns The transaction kind
+ */
+export function getTransactionKind(transaction: Pick<Transaction, 'kind'>): TransactionKind {
+  return transaction.kind ?? 'expense';
+}
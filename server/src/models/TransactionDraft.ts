@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { timeZoneSchema } from './Profile';
+
+/**
+ * A value read from free text, with how sure the parser is about it.
+ * confidence runs from 0 (nothing found) to 1; value is null when nothing was found.
+ */
+export interface DraftField<T> {
+    value: T | null;
+    confidence: number;
+}
+
+/**
+ * A transaction as understood from a sentence such as
+ * "I spent twelve dollars at Starbucks this morning on my visa".
+ * Callers show it for confirmation before creating the transaction;
+ * fields left null fall back to the usual defaults (now, home currency).
+ */
+export interface TransactionDraft {
+    text: string;
+    vendorName: DraftField<string>;
+    amount: DraftField<number>;
+    currency: DraftField<string>;
+    paymentType: DraftField<string>;
+    dateTime: DraftField<Date>;
+    description: DraftField<string>;
+    participants: DraftField<string[]>;
+}
+
+// Zod schema for POST /inference/parse-transaction
+export const parseTransactionTextSchema = z.object({
+  text: z.string('Text is required').trim().min(1, 'Text is required').max(1000, 'Text must be 1000 characters or less'),
+  timeZone: timeZoneSchema.optional()
+});
+
+export type ParseTransactionTextRequest = z.infer<typeof parseTransactionTextSchema>;
@@ -0,0 +1,39 @@
+/**
+ * A word in a transcript, with when it was spoken.
+ * start and end are milliseconds from the start of the recording;
+ * confidence runs from 0 to 1 when the provider reports it.
+ */
+export interface TranscriptWord {
+    text: string;
+    start: number;
+    end: number;
+    confidence?: number;
+}
+
+export type SpeechToTextProviderName = 'assemblyai' | 'whisper' | 'fake';
+
+/**
+ * Text read from a recording by a speech-to-text provider
+ */
+export interface Transcription {
+    text: string;
+    words: TranscriptWord[];
+    provider: SpeechToTextProviderName;
+}
+
+/**
+ * A recording to transcribe, as uploaded by the client
+ */
+export interface TranscriptionAudio {
+    data: Buffer;
+    mimeType: string;
+    fileName?: string;
+}
+
+// Custom error class for rejected recordings
+export class TranscriptionValidationError extends Error {
+  constructor(message: string, public field?: string) {
+    super(message);
+    this.name = 'TranscriptionValidationError';
+  }
+}
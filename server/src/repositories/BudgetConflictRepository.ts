@@ -0,0 +1,124 @@
+import { Collection, Db, ObjectId } from 'mongodb';
+import type { DeleteResult } from 'mongodb';
+import type { Budget, BudgetConflict, BudgetConflictReason } from '../models/Budget';
+import DatabaseConnection from '../config/database';
+
+/**
+ * Repository class for budgets set aside by the startup migration.
+ *
+ * Each record holds the budget document as it was, so an administrator can
+ * put it back in the budgets collection or discard it.
+ */
+export class BudgetConflictRepository {
+  private collection: Collection<BudgetConflict> | null = null;
+
+  constructor() {
+
+  }
+
+  /**
+   * Ensures the collection is initialized before use.
+   * Implements lazy initialization pattern to avoid connection timing issues.
+   *
+   * @returns {Collection<BudgetConflict>} The budgetConflicts collection
+   * @throws {Error} If database is not connected
+   */
+  private ensureCollection(): Collection<BudgetConflict> {
+    if (!this.collection) {
+      const db: Db = DatabaseConnection.getInstance().getDatabase();
+      this.collection = db.collection<BudgetConflict>('budgetConflicts');
+    }
+    return this.collection;
+  }
+
+  /**
+   * Records a budget that is being set aside. Recording the same budget again
+   * replaces the earlier record, so an interrupted migration can be rerun.
+   *
+   * @param {Budget} budget - The budget document as it was
+   * @param {BudgetConflictReason} reason - Why it was set aside
+   * @param {number} month - Month the budget converts to, when it could be read
+   * @param {string} conflictingBudgetId - Budget kept in its place, for duplicates
+   */
+  async setAside(
+    budget: Budget,
+    reason: BudgetConflictReason,
+    month?: number,
+    conflictingBudgetId?: string
+  ): Promise<void> {
+    const collection = this.ensureCollection();
+    const budgetId = budget._id?.toString() || budget.id;
+
+    await collection.updateOne(
+      { budgetId },
+      {
+        $set: {
+          id: '',
+          budgetId,
+          userId: budget.userId,
+          reason,
+          budget,
+          ...(month !== undefined && { month }),
+          ...(conflictingBudgetId && { conflictingBudgetId }),
+        },
+        $setOnInsert: { createdAt: new Date() },
+      },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * Finds all set-aside budgets, oldest first.
+   *
+   * @returns {Promise<BudgetConflict[]>} All conflicts
+   */
+  async findAll(): Promise<BudgetConflict[]> {
+    const collection = this.ensureCollection();
+    return await collection.find({}).sort({ createdAt: 1 }).toArray();
+  }
+
+  /**
+   * Finds a conflict by its MongoDB ObjectId.
+   *
+   * @param {string} id - The conflict ID (as string)
+   * @returns {Promise<BudgetConflict | null>} The conflict or null if not found
+   */
+  async findById(id: string): Promise<BudgetConflict | null> {
+    // Validate ObjectId format to prevent MongoDB errors
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const collection = this.ensureCollection();
+    return await collection.findOne({ _id: new ObjectId(id) });
+  }
+
+  /**
+   * Deletes a conflict once it has been resolved.
+   *
+   * @param {string} id - The conflict ID to delete
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  async deleteConflict(id: string): Promise<boolean> {
+    if (!ObjectId.isValid(id)) {
+      return false;
+    }
+
+    const collection = this.ensureCollection();
+    const result: DeleteResult = await collection.deleteOne({ _id: new ObjectId(id) });
+    return result.deletedCount === 1;
+  }
+
+  /**
+   * Creates database indexes for optimized queries.
+   * Should be called during application startup.
+   *
+   * Indexes:
+   * - budgetId: One record per set-aside budget
+   */
+  async createIndexes(): Promise<void> {
+    const collection = this.ensureCollection();
+
+    await collection.createIndex({ budgetId: 1 }, { unique: true });
+  }
+}
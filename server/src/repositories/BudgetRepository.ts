@@ -1,6 +1,6 @@
 import { Collection, Db, ObjectId } from 'mongodb';
 import type { InsertOneResult, UpdateResult, DeleteResult } from 'mongodb';
-import type { Budget, CreateBudgetRequest, UpdateBudgetRequest } from '../models/Budget';
+import type { Budget, CreateBudgetRequest, BudgetUpdate } from '../models/Budget';
 import DatabaseConnection from '../config/database';
 
 /**
@@ -26,13 +26,33 @@ import DatabaseConnection from '../config/database';
  *           description: User ID who owns this budget (MongoDB ObjectId)
  *           example: "68df4cd8f4c53b419fc5f196"
  *         month:
- *           type: string
- *           description: Month for the budget
- *           example: "January"
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 12
+ *           description: Month of the budget period (1-12)
+ *           example: 1
  *         year:
  *           type: number
  *           description: Year for the budget
  *           example: 2025
+ *         period:
+ *           type: string
+ *           description: Budget month as YYYY-MM
+ *           example: "2025-01"
+ *         periodStartDay:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 28
+ *           description: Day of the month the budget period starts (e.g. payday). A January budget starting on the 15th covers Jan 15 - Feb 14.
+ *           example: 1
+ *         startDate:
+ *           type: string
+ *           format: date-time
+ *           description: First day of the budget period
+ *         endDate:
+ *           type: string
+ *           format: date-time
+ *           description: Last day of the budget period
  *         amount:
  *           type: number
  *           format: double
@@ -43,10 +63,24 @@ import DatabaseConnection from '../config/database';
  *           format: double
  *           description: Remaining budget amount
  *           example: 750.00
+ *         currency:
+ *           type: string
+ *           description: ISO 4217 currency of amount and remaining. Budgets saved before currencies existed are USD.
+ *           example: "USD"
  *         categoryId:
  *           type: string
  *           description: Optional category ID for category-specific budgets (MongoDB ObjectId)
  *           example: "507f1f77bcf86cd799439012"
+ *         rollover:
+ *           type: boolean
+ *           description: Carry this month's unspent (or overspent) amount into the next month's budget for the same category
+ *           example: false
+ *         alertThresholds:
+ *           type: array
+ *           items:
+ *             type: integer
+ *           description: Percent-used levels that send a notification; empty turns alerts off
+ *           example: [50, 80, 100]
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -57,6 +91,144 @@ import DatabaseConnection from '../config/database';
  *           description: Timestamp when the budget was last updated
  */
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     BudgetStatusLine:
+ *       type: object
+ *       properties:
+ *         budgetId:
+ *           type: string
+ *         categoryId:
+ *           type: string
+ *           nullable: true
+ *           description: Null for the overall monthly budget
+ *         currency:
+ *           type: string
+ *           example: "USD"
+ *         amount:
+ *           type: number
+ *           description: Budgeted amount for the month
+ *           example: 400
+ *         rolledOver:
+ *           type: number
+ *           description: Leftover carried from the previous month (negative if it was overspent)
+ *           example: 25.5
+ *         available:
+ *           type: number
+ *           description: amount + rolledOver
+ *           example: 425.5
+ *         spent:
+ *           type: number
+ *           example: 310
+ *         remaining:
+ *           type: number
+ *           description: available - spent (negative when over budget)
+ *           example: 115.5
+ *         percentUsed:
+ *           type: number
+ *           nullable: true
+ *           example: 72.9
+ *         overBudget:
+ *           type: boolean
+ *         rollover:
+ *           type: boolean
+ *     BudgetStatus:
+ *       type: object
+ *       properties:
+ *         month:
+ *           type: integer
+ *           example: 3
+ *         year:
+ *           type: integer
+ *           example: 2025
+ *         startDate:
+ *           type: string
+ *           format: date-time
+ *         endDate:
+ *           type: string
+ *           format: date-time
+ *         overall:
+ *           nullable: true
+ *           allOf:
+ *             - $ref: '#/components/schemas/BudgetStatusLine'
+ *         categories:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/BudgetStatusLine'
+ *         unbudgeted:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               categoryId:
+ *                 type: string
+ *               spent:
+ *                 type: number
+ *               currency:
+ *                 type: string
+ *     BudgetHistoryMonth:
+ *       type: object
+ *       properties:
+ *         month:
+ *           type: integer
+ *           example: 3
+ *         year:
+ *           type: integer
+ *           example: 2025
+ *         budgetId:
+ *           type: string
+ *           nullable: true
+ *           description: The overall budget; null when only category budgets exist
+ *         budgeted:
+ *           type: number
+ *           description: Overall budget, or the sum of category budgets, in the home currency
+ *           example: 1200
+ *         spent:
+ *           type: number
+ *           example: 1310.4
+ *         variance:
+ *           type: number
+ *           description: budgeted - spent (negative when over budget)
+ *           example: -110.4
+ *         percentUsed:
+ *           type: number
+ *           nullable: true
+ *           example: 109.2
+ *         overBudget:
+ *           type: boolean
+ *         transactionCount:
+ *           type: integer
+ *           example: 42
+ *         categoryBudgetCount:
+ *           type: integer
+ *           example: 3
+ *     BudgetHistory:
+ *       type: object
+ *       properties:
+ *         currency:
+ *           type: string
+ *           description: Home currency all amounts are in
+ *           example: "USD"
+ *         months:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/BudgetHistoryMonth'
+ *         totals:
+ *           type: object
+ *           properties:
+ *             budgeted:
+ *               type: number
+ *             spent:
+ *               type: number
+ *             variance:
+ *               type: number
+ *         monthsOverBudget:
+ *           type: integer
+ *           example: 2
+ */
+
 /**
  * Repository class for Budget data access operations.
  *
@@ -156,25 +328,39 @@ export class BudgetRepository {
        * Used to check for duplicate budgets.
        *
        * @param {string} userId - The user ID
-       * @param {string} month - The month
+       * @param {number} month - The month (1-12)
        * @param {number} year - The year
        * @param {string} categoryId - Optional category ID
        * @returns {Promise<Budget | null>} The budget or null if not found
        */
-      async findByUserMonthYear(userId: string, month: string, year: number, categoryId?: string): Promise<Budget | null> {
+      async findByUserMonthYear(userId: string, month: number, year: number, categoryId?: string): Promise<Budget | null> {
         const collection = this.ensureCollection();
         const query: any = { userId, month, year };
 
         if (categoryId) {
           query.categoryId = categoryId;
         } else {
-          query.categoryId = { $exists: false };
+          // Matches overall budgets saved without a categoryId or with null
+          query.categoryId = null;
         }
 
         const budget = await collection.findOne(query);
         return budget;
       }
 
+      /**
+       * Finds every budget (overall and per category) for a user's month.
+       *
+       * @param {string} userId - The user ID
+       * @param {number} month - The month (1-12)
+       * @param {number} year - The year
+       * @returns {Promise<Budget[]>} The month's budgets
+       */
+      async findByUserMonth(userId: string, month: number, year: number): Promise<Budget[]> {
+        const collection = this.ensureCollection();
+        return await collection.find({ userId, month, year }).toArray();
+      }
+
       /**
          * Retrieves all budgets from the database.
          *
@@ -186,15 +372,31 @@ export class BudgetRepository {
           return budgets;
         }
 
+        /**
+         * Counts budgets per user, for admin usage stats.
+         *
+         * @param {string[]} userIds - Optional users to restrict the count to
+         * @returns {Promise<Map<string, number>>} Count per user ID; users with none are absent
+         */
+        async countByUser(userIds?: string[]): Promise<Map<string, number>> {
+          const collection = this.ensureCollection();
+          const result = await collection.aggregate<{ _id: string; count: number }>([
+            ...(userIds ? [{ $match: { userId: { $in: userIds } } }] : []),
+            { $group: { _id: '$userId', count: { $sum: 1 } } }
+          ]).toArray();
+
+          return new Map(result.map(row => [row._id, row.count]));
+        }
+
         /**
            * Updates an existing budget with partial data.
            * Automatically updates the updatedAt timestamp.
            *
            * @param {string} id - The budget ID to update
-           * @param {UpdateBudgetRequest} updateData - Partial budget data to update
+           * @param {BudgetUpdate} updateData - Partial budget data to update
            * @returns {Promise<Budget | null>} Updated budget or null if not found
            */
-          async updateBudget(id: string, updateData: Partial<UpdateBudgetRequest>): Promise<Budget | null> {
+          async updateBudget(id: string, updateData: BudgetUpdate): Promise<Budget | null> {
             if (!ObjectId.isValid(id)) {
               return null;
             }
@@ -235,6 +437,61 @@ export class BudgetRepository {
             return result.deletedCount === 1;
         }
 
+        /**
+         * Finds budgets saved with a month name ("March") instead of the month
+         * number.
+         *
+         * @returns {Promise<Budget[]>} Budgets whose month is still a string
+         */
+        async findLegacyMonthBudgets(): Promise<Budget[]> {
+            const collection = this.ensureCollection();
+            return await collection.find({ month: { $type: 'string' } as any }).toArray();
+        }
+
+        /**
+         * Finds budgets saved more than once for the same user, month, year and
+         * category before the unique index existed. Overall budgets stored with
+         * a null categoryId and without one count as the same.
+         *
+         * @returns {Promise<Array<{ kept: Budget; duplicates: Budget[] }>>} The most
+         *   recently updated budget of each group and the others
+         */
+        async findDuplicateBudgets(): Promise<Array<{ kept: Budget; duplicates: Budget[] }>> {
+            const collection = this.ensureCollection();
+            const groups = await collection.aggregate<{ budgets: Budget[] }>([
+              { $match: { month: { $type: 'number' } } },
+              { $sort: { updatedAt: -1, createdAt: -1, _id: -1 } },
+              {
+                $group: {
+                  _id: {
+                    userId: '$userId',
+                    month: '$month',
+                    year: '$year',
+                    categoryId: { $ifNull: ['$categoryId', null] },
+                  },
+                  budgets: { $push: '$$ROOT' },
+                },
+              },
+              { $match: { 'budgets.1': { $exists: true } } },
+            ]).toArray();
+
+            return groups.map(({ budgets: [kept, ...duplicates] }) => ({ kept, duplicates }));
+        }
+
+        /**
+         * Puts a budget back with the ID it had.
+         *
+         * @param {Budget} budget - The budget document, including its _id
+         * @returns {Promise<Budget>} The restored budget
+         * @throws {Error} If a budget with that ID already exists
+         */
+        async restoreBudget(budget: Budget): Promise<Budget> {
+            const collection = this.ensureCollection();
+            const restored: Budget = { ...budget, updatedAt: new Date() };
+            await collection.insertOne(restored);
+            return restored;
+        }
+
         /**
          * Creates database indexes for optimized queries.
          * Should be called during application startup.
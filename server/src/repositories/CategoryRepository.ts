@@ -25,12 +25,21 @@ import DatabaseConnection from '../config/database';
  *           example: "Groceries"
  *         type:
  *           type: string
- *           description: Category type (expense or income)
+ *           description: Free-form category type label
+ *           example: "expense"
+ *         kind:
+ *           type: string
+ *           enum: [income, expense, transfer]
+ *           description: Kind given to transactions in this category when they don't set one
  *           example: "expense"
  *         userId:
  *           type: string
  *           description: User ID who owns this category (MongoDB ObjectId)
  *           example: "68df4cd8f4c53b419fc5f196"
+ *         householdId:
+ *           type: string
+ *           description: Household the category is shared with, if any
+ *           example: "68df4cd8f4c53b419fc5f1a0"
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -76,11 +85,11 @@ export class CategoryRepository {
      * Creates a new category in the database.
      * Adds timestamps for audit trail.
      *
-     * @param {CreateCategoryRequest} categoryData - Validated category data
+     * @param {CreateCategoryRequest} categoryData - Validated category data, with the household for shared categories
      * @returns {Promise<Category>} The created category with generated ID
      * @throws {Error} If category creation fails
      */
-    async createCategory(categoryData: CreateCategoryRequest): Promise<Category> {
+    async createCategory(categoryData: CreateCategoryRequest & { householdId?: string }): Promise<Category> {
       const collection = this.ensureCollection();
       // Add timestamps for audit trail
       const now = new Date();
@@ -158,6 +167,66 @@ export class CategoryRepository {
           return categories;
         }
 
+        /**
+         * Finds the categories shared with any of the given households.
+         *
+         * @param {string[]} householdIds - The household IDs
+         * @returns {Promise<Category[]>} Shared categories, by name
+         */
+        async findByHouseholdIds(householdIds: string[]): Promise<Category[]> {
+          if (householdIds.length === 0) {
+            return [];
+          }
+
+          const collection = this.ensureCollection();
+          return await collection.find({ householdId: { $in: householdIds } }).sort({ name: 1 }).toArray();
+        }
+
+        /**
+         * Finds a household's shared category by name, ignoring case.
+         * Used to check for duplicate names within a household.
+         *
+         * @param {string} name - The category name
+         * @param {string} householdId - The household ID
+         * @returns {Promise<Category | null>} The category or null if not found
+         */
+        async findByNameAndHouseholdId(name: string, householdId: string): Promise<Category | null> {
+          const collection = this.ensureCollection();
+          const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+          return await collection.findOne({ householdId, name: { $regex: `^${escaped}$`, $options: 'i' } });
+        }
+
+        /**
+         * Stops sharing a household's categories. They stay with the members who created them.
+         *
+         * @param {string} householdId - The household ID
+         * @returns {Promise<number>} Number of categories unshared
+         */
+        async clearHousehold(householdId: string): Promise<number> {
+          const collection = this.ensureCollection();
+          const result: UpdateResult = await collection.updateMany(
+            { householdId },
+            { $unset: { householdId: '' }, $set: { updatedAt: new Date() } }
+          );
+          return result.modifiedCount;
+        }
+
+        /**
+         * Counts categories per user, for admin usage stats.
+         *
+         * @param {string[]} userIds - Optional users to restrict the count to
+         * @returns {Promise<Map<string, number>>} Count per user ID; users with none are absent
+         */
+        async countByUser(userIds?: string[]): Promise<Map<string, number>> {
+          const collection = this.ensureCollection();
+          const result = await collection.aggregate<{ _id: string; count: number }>([
+            ...(userIds ? [{ $match: { userId: { $in: userIds } } }] : []),
+            { $group: { _id: '$userId', count: { $sum: 1 } } }
+          ]).toArray();
+
+          return new Map(result.map(row => [row._id, row.count]));
+        }
+
         /**
            * Updates an existing category with partial data.
            * Automatically updates the updatedAt timestamp.
@@ -0,0 +1,245 @@
+import { Collection, Db } from 'mongodb';
+import type { AnyBulkWriteOperation, Document, Filter } from 'mongodb';
+import { DEFAULT_CURRENCY } from '../models/ExchangeRate';
+import type { ExchangeRate, ExchangeRateEntry, ExchangeRateImportResult, ListExchangeRatesQuery } from '../models/ExchangeRate';
+import DatabaseConnection from '../config/database';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ExchangeRate:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "507f1f77bcf86cd799439020"
+ *         base:
+ *           type: string
+ *           description: Currency being priced (ISO 4217)
+ *           example: "EUR"
+ *         quote:
+ *           type: string
+ *           description: Currency the price is expressed in (ISO 4217)
+ *           example: "USD"
+ *         rate:
+ *           type: number
+ *           format: double
+ *           description: Units of quote per 1 unit of base
+ *           example: 1.0842
+ *         date:
+ *           type: string
+ *           format: date
+ *           example: "2025-03-14"
+ *         source:
+ *           type: string
+ *           example: "ECB"
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+const COLLECTION_NAME = 'exchangeRates';
+
+/**
+ * Builds aggregation stages that add an `fxRate` field to each transaction:
+ * the factor converting its amount into the home currency.
+ *
+ * The rate used is the latest one on or before the transaction date, falling
+ * back to the earliest later rate. Amounts already in the home currency keep a
+ * factor of 1, as do amounts in a currency with no known rate against it;
+ * transactions are only accepted in currencies that have one, so that is left
+ * to ones saved before currencies were checked.
+ *
+ * @param {string} homeCurrency - Currency to convert into
+ * @returns {Document[]} Stages to insert after the $match stage
+ */
+export function buildConversionStages(homeCurrency: string): Document[] {
+  const currency = { $ifNull: ['$currency', DEFAULT_CURRENCY] };
+
+  return [
+    {
+      $lookup: {
+        from: COLLECTION_NAME,
+        let: { from: currency, on: '$dateTime' },
+        pipeline: [
+          // Rates for the pair, quoted in either direction
+          {
+            $match: {
+              $expr: {
+                $or: [
+                  { $and: [{ $eq: ['$base', '$$from'] }, { $eq: ['$quote', homeCurrency] }] },
+                  { $and: [{ $eq: ['$base', homeCurrency] }, { $eq: ['$quote', '$$from'] }] }
+                ]
+              }
+            }
+          },
+          // Prefer rates on or before the transaction date, closest first
+          {
+            $addFields: {
+              after: { $gt: ['$date', '$$on'] },
+              gap: { $abs: { $subtract: ['$date', '$$on'] } }
+            }
+          },
+          { $sort: { after: 1, gap: 1 } },
+          { $limit: 1 },
+          {
+            $project: {
+              _id: 0,
+              factor: { $cond: [{ $eq: ['$base', '$$from'] }, '$rate', { $divide: [1, '$rate'] }] }
+            }
+          }
+        ],
+        as: 'fx'
+      }
+    },
+    {
+      $addFields: {
+        fxRate: {
+          $cond: [
+            { $eq: [currency, homeCurrency] },
+            1,
+            { $ifNull: [{ $arrayElemAt: ['$fx.factor', 0] }, 1] }
+          ]
+        }
+      }
+    }
+  ];
+}
+
+/**
+ * Repository class for ExchangeRate data access operations.
+ *
+ * Implements the Repository pattern to:
+ * - Abstract database operations from business logic
+ * - Provide a clean interface for data persistence
+ * - Handle MongoDB-specific operations
+ * - Manage database indexes and optimization
+ */
+export class ExchangeRateRepository {
+  private collection: Collection<ExchangeRate> | null = null;
+
+  constructor() {
+
+  }
+
+  /**
+   * Ensures the collection is initialized before use.
+   * Implements lazy initialization pattern to avoid connection timing issues.
+   *
+   * @returns {Collection<ExchangeRate>} The exchange rates collection
+   * @throws {Error} If database is not connected
+   */
+  private ensureCollection(): Collection<ExchangeRate> {
+    if (!this.collection) {
+      const db: Db = DatabaseConnection.getInstance().getDatabase();
+      this.collection = db.collection<ExchangeRate>(COLLECTION_NAME);
+    }
+    return this.collection;
+  }
+
+  /**
+   * Inserts or replaces rates, keyed by base, quote and day.
+   *
+   * @param {ExchangeRateEntry[]} entries - Validated rates
+   * @param {string} source - Optional label for where the rates came from
+   * @returns {Promise<ExchangeRateImportResult>} Counts of new and replaced rates
+   */
+  async upsertRates(entries: ExchangeRateEntry[], source?: string): Promise<ExchangeRateImportResult> {
+    const collection = this.ensureCollection();
+    const now = new Date();
+
+    const operations: AnyBulkWriteOperation<ExchangeRate>[] = entries.map((entry) => ({
+      updateOne: {
+        filter: { base: entry.base, quote: entry.quote, date: new Date(`${entry.date}T00:00:00.000Z`) },
+        update: {
+          $set: { rate: entry.rate, ...(source ? { source } : {}), updatedAt: now },
+          $setOnInsert: { id: '', createdAt: now }
+        },
+        upsert: true
+      }
+    }));
+
+    const result = await collection.bulkWrite(operations, { ordered: false });
+
+    return {
+      imported: result.upsertedCount,
+      updated: result.matchedCount
+    };
+  }
+
+  /**
+   * Lists rates, newest first, optionally for one base and/or quote currency.
+   *
+   * @param {ListExchangeRatesQuery} query - Currency filters and page size
+   * @returns {Promise<ExchangeRate[]>} Matching rates
+   */
+  async findRates(query: ListExchangeRatesQuery): Promise<ExchangeRate[]> {
+    const collection = this.ensureCollection();
+    const filter: Filter<ExchangeRate> = {};
+
+    if (query.base) filter.base = query.base;
+    if (query.quote) filter.quote = query.quote;
+
+    return await collection.find(filter).sort({ date: -1, base: 1, quote: 1 }).limit(query.limit).toArray();
+  }
+
+  /**
+   * Checks whether any rate is known for a pair of currencies, in either direction.
+   *
+   * @param {string} from - Currency of the amount
+   * @param {string} to - Currency to convert into
+   * @returns {Promise<boolean>} True if amounts can be converted between them
+   */
+  async hasRate(from: string, to: string): Promise<boolean> {
+    const collection = this.ensureCollection();
+    const rate = await collection.findOne(
+      { $or: [{ base: from, quote: to }, { base: to, quote: from }] },
+      { projection: { _id: 1 } }
+    );
+    return rate !== null;
+  }
+
+  /**
+   * Finds the factor converting an amount from one currency to another on a date.
+   * Uses the same rate selection as buildConversionStages.
+   *
+   * @param {string} from - Currency of the amount
+   * @param {string} to - Currency to convert into
+   * @param {Date} date - Date of the amount
+   * @returns {Promise<number | null>} Conversion factor, or null if no rate is known for the pair
+   */
+  async findConversionFactor(from: string, to: string, date: Date): Promise<number | null> {
+    const collection = this.ensureCollection();
+    const pair: Filter<ExchangeRate> = {
+      $or: [{ base: from, quote: to }, { base: to, quote: from }]
+    };
+
+    const rate = await collection.findOne({ ...pair, date: { $lte: date } }, { sort: { date: -1 } })
+      ?? await collection.findOne({ ...pair, date: { $gt: date } }, { sort: { date: 1 } });
+
+    if (!rate) {
+      return null;
+    }
+
+    return rate.base === from ? rate.rate : 1 / rate.rate;
+  }
+
+  /**
+   * Creates database indexes for optimized queries.
+   * Should be called during application startup.
+   *
+   * Indexes:
+   * - base + quote + date: Unique, one rate per pair and day
+   * - quote + base + date: For lookups in the inverse direction
+   */
+  async createIndexes(): Promise<void> {
+    const collection = this.ensureCollection();
+
+    // One rate per pair and day; also backs lookups for the pair
+    await collection.createIndex({ base: 1, quote: 1, date: -1 }, { unique: true });
+
+    // Rates are used in both directions
+    await collection.createIndex({ quote: 1, base: 1, date: -1 });
+  }
+}
@@ -0,0 +1,183 @@
+import { FieldValue, Timestamp, getFirestore } from 'firebase-admin/firestore';
+import type { CollectionReference, DocumentSnapshot } from 'firebase-admin/firestore';
+import type { NewReceipt, Receipt, UpdateReceiptRequest } from '../models/Receipt';
+import type { ReceiptStore } from './ReceiptStore';
+
+/**
+ * Receipt store backed by the Firestore `receipts` collection, where receipts
+ * were kept before MongoDB became the system of record. Used when
+ * RECEIPT_STORE=firestore and as the source of the receipt migration.
+ *
+ * Relies on the default Firebase app, which config/firebase-admin initializes.
+ */
+export class FirestoreReceiptRepository implements ReceiptStore {
+  readonly name = 'firestore' as const;
+  private collection: CollectionReference | null = null;
+
+  /**
+   * Ensures the collection is initialized before use, so importing this
+   * module doesn't require Firebase to be configured.
+   *
+   * @returns {CollectionReference} The receipts collection
+   */
+  private ensureCollection(): CollectionReference {
+    if (!this.collection) {
+      this.collection = getFirestore().collection('receipts');
+    }
+    return this.collection;
+  }
+
+  /**
+   * Creates a receipt document with a generated ID.
+   *
+   * @param {NewReceipt} receiptData - Validated receipt data
+   * @returns {Promise<Receipt>} The created receipt
+   */
+  async createReceipt(receiptData: NewReceipt): Promise<Receipt> {
+    const docRef = this.ensureCollection().doc();
+    await docRef.set(withoutUndefined({
+      ...receiptData,
+      createdAt: receiptData.createdAt ?? FieldValue.serverTimestamp(),
+    }));
+
+    const created = toReceipt(await docRef.get());
+    if (!created) {
+      throw new Error('Failed to retrieve created receipt');
+    }
+    return created;
+  }
+
+  /**
+   * Finds a receipt by its document ID.
+   *
+   * @param {string} id - The Firestore document ID
+   * @returns {Promise<Receipt | null>} The receipt or null if not found
+   */
+  async findReceiptById(id: string): Promise<Receipt | null> {
+    // Document IDs can't contain slashes
+    if (!id || id.includes('/')) {
+      return null;
+    }
+    return toReceipt(await this.ensureCollection().doc(id).get());
+  }
+
+  /**
+   * Finds all receipts for a specific user.
+   *
+   * @param {string} userId - The user ID
+   * @returns {Promise<Receipt[]>} Array of receipts for the user
+   */
+  async findByUserId(userId: string): Promise<Receipt[]> {
+    const snapshot = await this.ensureCollection().where('userId', '==', userId).get();
+    return snapshot.docs.map(toReceipt).filter((receipt): receipt is Receipt => receipt !== null);
+  }
+
+  /**
+   * Finds the receipt a scan job saved.
+   *
+   * @param {string} scanJobId - The scan job ID
+   * @returns {Promise<Receipt | null>} The receipt or null if the job hasn't saved one
+   */
+  async findByScanJobId(scanJobId: string): Promise<Receipt | null> {
+    const snapshot = await this.ensureCollection().where('scanJobId', '==', scanJobId).limit(1).get();
+    return snapshot.empty ? null : toReceipt(snapshot.docs[0]);
+  }
+
+  /**
+   * Retrieves every receipt document.
+   *
+   * @returns {Promise<Receipt[]>} Array of all receipts
+   */
+  async findAllReceipts(): Promise<Receipt[]> {
+    const snapshot = await this.ensureCollection().get();
+    return snapshot.docs.map(toReceipt).filter((receipt): receipt is Receipt => receipt !== null);
+  }
+
+  /**
+   * Updates an existing receipt with partial data.
+   *
+   * @param {string} id - The receipt ID to update
+   * @param {UpdateReceiptRequest} updateData - Partial receipt data to update
+   * @returns {Promise<Receipt | null>} Updated receipt or null if not found
+   */
+  async updateReceipt(id: string, updateData: Partial<UpdateReceiptRequest>): Promise<Receipt | null> {
+    if (!(await this.findReceiptById(id))) {
+      return null;
+    }
+
+    const docRef = this.ensureCollection().doc(id);
+    await docRef.update(withoutUndefined({
+      ...updateData,
+      ...(updateData.date !== undefined && { date: new Date(updateData.date) }),
+      updatedAt: FieldValue.serverTimestamp(),
+    }));
+    return toReceipt(await docRef.get());
+  }
+
+  /**
+   * Deletes a receipt document.
+   *
+   * @param {string} id - The receipt ID to delete
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  async deleteReceipt(id: string): Promise<boolean> {
+    if (!(await this.findReceiptById(id))) {
+      return false;
+    }
+    await this.ensureCollection().doc(id).delete();
+    return true;
+  }
+
+  /**
+   * Firestore indexes single fields automatically; composite indexes are
+   * managed in the Firebase console.
+   */
+  async createIndexes(): Promise<void> {}
+}
+
+// Firestore rejects fields set to undefined
+function withoutUndefined<T extends object>(data: T): Partial<T> {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+}
+
+/**
+ * Reads a receipt document. Older documents were written straight from
+ * request bodies, so dates may be strings and amounts may be text.
+ */
+function toReceipt(doc: DocumentSnapshot): Receipt | null {
+  const data = doc.data();
+  if (!doc.exists || !data) {
+    return null;
+  }
+
+  const createdAt = toDate(data.createdAt);
+  return withoutUndefined({
+    id: doc.id,
+    userId: String(data.userId ?? ''),
+    merchantName: data.merchantName || 'Unknown Merchant',
+    amount: Number(data.amount) || 0,
+    date: toDate(data.date) ?? createdAt ?? new Date(),
+    categoryId: data.categoryId,
+    category: data.category,
+    paymentType: data.paymentType,
+    imageUrl: data.imageUrl,
+    notes: data.notes,
+    lineItems: data.lineItems,
+    subtotal: data.subtotal,
+    tax: data.tax,
+    tip: data.tip,
+    reconciliation: data.reconciliation,
+    createdAt,
+    updatedAt: toDate(data.updatedAt),
+  }) as Receipt;
+}
@@ -0,0 +1,221 @@
+import { Collection, Db, ObjectId } from 'mongodb';
+import type { InsertOneResult, UpdateResult, DeleteResult } from 'mongodb';
+import type { HouseholdBudget } from '../models/Household';
+import DatabaseConnection from '../config/database';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     HouseholdBudget:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "68df4cd8f4c53b419fc5f1c0"
+ *         householdId:
+ *           type: string
+ *         month:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 12
+ *           example: 3
+ *         year:
+ *           type: integer
+ *           example: 2025
+ *         amount:
+ *           type: number
+ *           description: Budget in the household's currency
+ *           example: 600
+ *         categoryId:
+ *           type: string
+ *           description: Shared category the budget covers; all shared categories when omitted
+ *         createdBy:
+ *           type: string
+ *           description: User ID of the member who created the budget
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * Repository class for household budget data access operations.
+ */
+export class HouseholdBudgetRepository {
+  private collection: Collection<HouseholdBudget> | null = null;
+
+  constructor() {
+
+  }
+
+  /**
+   * Ensures the collection is initialized before use.
+   * Implements lazy initialization pattern to avoid connection timing issues.
+   *
+   * @returns {Collection<HouseholdBudget>} The household budgets collection
+   * @throws {Error} If database is not connected
+   */
+  private ensureCollection(): Collection<HouseholdBudget> {
+    if (!this.collection) {
+      const db: Db = DatabaseConnection.getInstance().getDatabase();
+      this.collection = db.collection<HouseholdBudget>('household_budgets');
+    }
+    return this.collection;
+  }
+
+  /**
+   * Creates a new household budget in the database.
+   * Adds timestamps for audit trail.
+   *
+   * @param {Omit<HouseholdBudget, '_id' | 'id' | 'createdAt' | 'updatedAt'>} data - Budget data
+   * @returns {Promise<HouseholdBudget>} The created budget with generated ID
+   * @throws {Error} If creation fails, including a duplicate household/month/category
+   */
+  async createBudget(data: Omit<HouseholdBudget, '_id' | 'id' | 'createdAt' | 'updatedAt'>): Promise<HouseholdBudget> {
+    const collection = this.ensureCollection();
+    // Add timestamps for audit trail
+    const now = new Date();
+    const budget: Omit<HouseholdBudget, '_id'> = {
+      ...data,
+      id: '',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const result: InsertOneResult<HouseholdBudget> = await collection.insertOne(budget as HouseholdBudget);
+
+    if (!result.insertedId) {
+      throw new Error('Failed to create household budget');
+    }
+
+    const created = await collection.findOne({ _id: result.insertedId });
+
+    if (!created) {
+      throw new Error('Failed to retrieve created household budget');
+    }
+
+    return created;
+  }
+
+  /**
+   * Finds a household budget by its MongoDB ObjectId.
+   *
+   * @param {string} id - The budget ID
+   * @returns {Promise<HouseholdBudget | null>} The budget or null if not found
+   */
+  async findBudgetById(id: string): Promise<HouseholdBudget | null> {
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const collection = this.ensureCollection();
+    return await collection.findOne({ _id: new ObjectId(id) });
+  }
+
+  /**
+   * Finds a household's budgets, newest month first.
+   *
+   * @param {string} householdId - The household ID
+   * @returns {Promise<HouseholdBudget[]>} The household's budgets
+   */
+  async findByHousehold(householdId: string): Promise<HouseholdBudget[]> {
+    const collection = this.ensureCollection();
+    return await collection.find({ householdId }).sort({ year: -1, month: -1 }).toArray();
+  }
+
+  /**
+   * Finds a household's budgets for one month.
+   *
+   * @param {string} householdId - The household ID
+   * @param {number} month - Month (1-12)
+   * @param {number} year - Year
+   * @returns {Promise<HouseholdBudget[]>} The month's budgets
+   */
+  async findByHouseholdMonth(householdId: string, month: number, year: number): Promise<HouseholdBudget[]> {
+    const collection = this.ensureCollection();
+    return await collection.find({ householdId, month, year }).toArray();
+  }
+
+  /**
+   * Checks whether any of a household's budgets covers a category.
+   *
+   * @param {string} householdId - The household ID
+   * @param {string} categoryId - The shared category ID
+   * @returns {Promise<boolean>} True if a budget uses the category
+   */
+  async existsForCategory(householdId: string, categoryId: string): Promise<boolean> {
+    const collection = this.ensureCollection();
+    const count = await collection.countDocuments({ householdId, categoryId }, { limit: 1 });
+    return count > 0;
+  }
+
+  /**
+   * Updates a household budget's amount.
+   *
+   * @param {string} id - The budget ID
+   * @param {number} amount - The new amount
+   * @returns {Promise<HouseholdBudget | null>} Updated budget or null if not found
+   */
+  async updateAmount(id: string, amount: number): Promise<HouseholdBudget | null> {
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const collection = this.ensureCollection();
+    const result: UpdateResult = await collection.updateOne(
+      { _id: new ObjectId(id) },
+      { $set: { amount, updatedAt: new Date() } }
+    );
+
+    if (result.matchedCount === 0) {
+      return null;
+    }
+
+    return await this.findBudgetById(id);
+  }
+
+  /**
+   * Deletes a household budget from the database.
+   *
+   * @param {string} id - The budget ID
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  async deleteBudget(id: string): Promise<boolean> {
+    if (!ObjectId.isValid(id)) {
+      return false;
+    }
+
+    const collection = this.ensureCollection();
+    const result: DeleteResult = await collection.deleteOne({ _id: new ObjectId(id) });
+    return result.deletedCount === 1;
+  }
+
+  /**
+   * Deletes all of a household's budgets.
+   *
+   * @param {string} householdId - The household ID
+   * @returns {Promise<number>} Number of budgets deleted
+   */
+  async deleteByHousehold(householdId: string): Promise<number> {
+    const collection = this.ensureCollection();
+    const result: DeleteResult = await collection.deleteMany({ householdId });
+    return result.deletedCount;
+  }
+
+  /**
+   * Creates database indexes for optimal query performance.
+   * Should be called during application initialization.
+   */
+  async createIndexes(): Promise<void> {
+    const collection = this.ensureCollection();
+
+    // One budget per household/month/category; a missing categoryId is the overall budget
+    await collection.createIndex(
+      { householdId: 1, year: 1, month: 1, categoryId: 1 },
+      { unique: true }
+    );
+  }
+}
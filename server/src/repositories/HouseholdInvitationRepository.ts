@@ -0,0 +1,185 @@
+import { Collection, Db, ObjectId } from 'mongodb';
+import type { InsertOneResult, DeleteResult } from 'mongodb';
+import type { HouseholdInvitation, HouseholdInvitationStatus } from '../models/Household';
+import DatabaseConnection from '../config/database';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     HouseholdInvitation:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "68df4cd8f4c53b419fc5f1b0"
+ *         householdId:
+ *           type: string
+ *         householdName:
+ *           type: string
+ *           example: "Maple Street"
+ *         email:
+ *           type: string
+ *           example: "partner@example.com"
+ *         role:
+ *           type: string
+ *           enum: [editor, viewer]
+ *         invitedBy:
+ *           type: string
+ *           description: User ID of the owner who sent the invitation
+ *         status:
+ *           type: string
+ *           enum: [pending, accepted, declined, revoked]
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * Repository class for household invitation data access operations.
+ */
+export class HouseholdInvitationRepository {
+  private collection: Collection<HouseholdInvitation> | null = null;
+
+  constructor() {
+
+  }
+
+  /**
+   * Ensures the collection is initialized before use.
+   * Implements lazy initialization pattern to avoid connection timing issues.
+   *
+   * @returns {Collection<HouseholdInvitation>} The household invitations collection
+   * @throws {Error} If database is not connected
+   */
+  private ensureCollection(): Collection<HouseholdInvitation> {
+    if (!this.collection) {
+      const db: Db = DatabaseConnection.getInstance().getDatabase();
+      this.collection = db.collection<HouseholdInvitation>('household_invitations');
+    }
+    return this.collection;
+  }
+
+  /**
+   * Creates a new invitation in the database.
+   *
+   * @param {Omit<HouseholdInvitation, '_id' | 'id' | 'createdAt'>} data - Invitation data
+   * @returns {Promise<HouseholdInvitation>} The created invitation with generated ID
+   * @throws {Error} If creation fails
+   */
+  async createInvitation(data: Omit<HouseholdInvitation, '_id' | 'id' | 'createdAt'>): Promise<HouseholdInvitation> {
+    const collection = this.ensureCollection();
+    const invitation: Omit<HouseholdInvitation, '_id'> = {
+      ...data,
+      id: '',
+      createdAt: new Date(),
+    };
+
+    const result: InsertOneResult<HouseholdInvitation> = await collection.insertOne(invitation as HouseholdInvitation);
+
+    if (!result.insertedId) {
+      throw new Error('Failed to create household invitation');
+    }
+
+    const created = await collection.findOne({ _id: result.insertedId });
+
+    if (!created) {
+      throw new Error('Failed to retrieve created household invitation');
+    }
+
+    return created;
+  }
+
+  /**
+   * Finds an invitation by its MongoDB ObjectId.
+   *
+   * @param {string} id - The invitation ID
+   * @returns {Promise<HouseholdInvitation | null>} The invitation or null if not found
+   */
+  async findInvitationById(id: string): Promise<HouseholdInvitation | null> {
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const collection = this.ensureCollection();
+    return await collection.findOne({ _id: new ObjectId(id) });
+  }
+
+  /**
+   * Finds unexpired pending invitations sent to an email address.
+   *
+   * @param {string} email - The invitee's email (lowercase)
+   * @param {Date} now - Invitations expiring before this are skipped
+   * @returns {Promise<HouseholdInvitation[]>} Pending invitations, newest first
+   */
+  async findPendingByEmail(email: string, now: Date): Promise<HouseholdInvitation[]> {
+    const collection = this.ensureCollection();
+    return await collection
+      .find({ email, status: 'pending', expiresAt: { $gt: now } })
+      .sort({ createdAt: -1 })
+      .toArray();
+  }
+
+  /**
+   * Finds a household's unexpired pending invitations.
+   *
+   * @param {string} householdId - The household ID
+   * @param {Date} now - Invitations expiring before this are skipped
+   * @returns {Promise<HouseholdInvitation[]>} Pending invitations, newest first
+   */
+  async findPendingByHousehold(householdId: string, now: Date): Promise<HouseholdInvitation[]> {
+    const collection = this.ensureCollection();
+    return await collection
+      .find({ householdId, status: 'pending', expiresAt: { $gt: now } })
+      .sort({ createdAt: -1 })
+      .toArray();
+  }
+
+  /**
+   * Moves a pending invitation to another status. Only succeeds while the
+   * invitation is still pending, so it can't be answered twice.
+   *
+   * @param {string} id - The invitation ID
+   * @param {HouseholdInvitationStatus} status - The new status
+   * @returns {Promise<HouseholdInvitation | null>} Updated invitation, or null if not found or no longer pending
+   */
+  async resolvePending(id: string, status: Exclude<HouseholdInvitationStatus, 'pending'>): Promise<HouseholdInvitation | null> {
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const collection = this.ensureCollection();
+    return await collection.findOneAndUpdate(
+      { _id: new ObjectId(id), status: 'pending' },
+      { $set: { status, respondedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+  }
+
+  /**
+   * Deletes all of a household's invitations.
+   *
+   * @param {string} householdId - The household ID
+   * @returns {Promise<number>} Number of invitations deleted
+   */
+  async deleteByHousehold(householdId: string): Promise<number> {
+    const collection = this.ensureCollection();
+    const result: DeleteResult = await collection.deleteMany({ householdId });
+    return result.deletedCount;
+  }
+
+  /**
+   * Creates database indexes for optimal query performance.
+   * Should be called during application initialization.
+   */
+  async createIndexes(): Promise<void> {
+    const collection = this.ensureCollection();
+
+    // Invitations waiting for a user, and a household's open invitations
+    await collection.createIndex({ email: 1, status: 1 });
+    await collection.createIndex({ householdId: 1, status: 1 });
+  }
+}
@@ -0,0 +1,262 @@
+import { Collection, Db, ObjectId } from 'mongodb';
+import type { InsertOneResult, UpdateResult, DeleteResult } from 'mongodb';
+import type { Household, HouseholdMember, HouseholdRole, UpdateHouseholdRequest } from '../models/Household';
+import DatabaseConnection from '../config/database';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     HouseholdMember:
+ *       type: object
+ *       properties:
+ *         userId:
+ *           type: string
+ *           example: "68df4cd8f4c53b419fc5f196"
+ *         name:
+ *           type: string
+ *           example: "Jane Doe"
+ *         role:
+ *           type: string
+ *           enum: [owner, editor, viewer]
+ *         joinedAt:
+ *           type: string
+ *           format: date-time
+ *     Household:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "68df4cd8f4c53b419fc5f1a0"
+ *         name:
+ *           type: string
+ *           example: "Maple Street"
+ *         currency:
+ *           type: string
+ *           description: Currency shared budgets and reports use
+ *           example: "USD"
+ *         role:
+ *           type: string
+ *           enum: [owner, editor, viewer]
+ *           description: The requesting user's role
+ *         members:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/HouseholdMember'
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * Repository class for Household data access operations.
+ *
+ * Members are embedded in the household document, so membership changes are
+ * single-document updates.
+ */
+export class HouseholdRepository {
+  private collection: Collection<Household> | null = null;
+
+  constructor() {
+
+  }
+
+  /**
+   * Ensures the collection is initialized before use.
+   * Implements lazy initialization pattern to avoid connection timing issues.
+   *
+   * @returns {Collection<Household>} The households collection
+   * @throws {Error} If database is not connected
+   */
+  private ensureCollection(): Collection<Household> {
+    if (!this.collection) {
+      const db: Db = DatabaseConnection.getInstance().getDatabase();
+      this.collection = db.collection<Household>('households');
+    }
+    return this.collection;
+  }
+
+  /**
+   * Creates a new household in the database.
+   * Adds timestamps for audit trail.
+   *
+   * @param {object} data - Name, currency and initial members
+   * @returns {Promise<Household>} The created household with generated ID
+   * @throws {Error} If creation fails
+   */
+  async createHousehold(data: { name: string; currency: string; members: HouseholdMember[] }): Promise<Household> {
+    const collection = this.ensureCollection();
+    // Add timestamps for audit trail
+    const now = new Date();
+    const household: Omit<Household, '_id'> = {
+      ...data,
+      id: '',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const result: InsertOneResult<Household> = await collection.insertOne(household as Household);
+
+    if (!result.insertedId) {
+      throw new Error('Failed to create household');
+    }
+
+    const created = await collection.findOne({ _id: result.insertedId });
+
+    if (!created) {
+      throw new Error('Failed to retrieve created household');
+    }
+
+    return created;
+  }
+
+  /**
+   * Finds a household by its MongoDB ObjectId.
+   *
+   * @param {string} id - The household ID
+   * @returns {Promise<Household | null>} The household or null if not found
+   */
+  async findHouseholdById(id: string): Promise<Household | null> {
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const collection = this.ensureCollection();
+    return await collection.findOne({ _id: new ObjectId(id) });
+  }
+
+  /**
+   * Finds the households a user is a member of.
+   *
+   * @param {string} userId - The user ID
+   * @returns {Promise<Household[]>} The user's households, oldest first
+   */
+  async findByMember(userId: string): Promise<Household[]> {
+    const collection = this.ensureCollection();
+    return await collection.find({ 'members.userId': userId }).sort({ createdAt: 1 }).toArray();
+  }
+
+  /**
+   * Checks whether a user is a member of a household.
+   *
+   * @param {string} id - The household ID
+   * @param {string} userId - The user ID
+   * @returns {Promise<boolean>} True if the user is a member
+   */
+  async isMember(id: string, userId: string): Promise<boolean> {
+    if (!ObjectId.isValid(id)) {
+      return false;
+    }
+
+    const collection = this.ensureCollection();
+    const count = await collection.countDocuments({ _id: new ObjectId(id), 'members.userId': userId }, { limit: 1 });
+    return count > 0;
+  }
+
+  /**
+   * Updates a household's name or currency.
+   *
+   * @param {string} id - The household ID
+   * @param {UpdateHouseholdRequest} updateData - Fields to update
+   * @returns {Promise<Household | null>} Updated household or null if not found
+   */
+  async updateHousehold(id: string, updateData: UpdateHouseholdRequest): Promise<Household | null> {
+    return await this.update(id, {}, { $set: { ...updateData, updatedAt: new Date() } });
+  }
+
+  /**
+   * Adds a member unless they already belong to the household.
+   *
+   * @param {string} id - The household ID
+   * @param {HouseholdMember} member - The new member
+   * @returns {Promise<Household | null>} Updated household, or null if not found or already a member
+   */
+  async addMember(id: string, member: HouseholdMember): Promise<Household | null> {
+    return await this.update(
+      id,
+      { 'members.userId': { $ne: member.userId } },
+      { $push: { members: member }, $set: { updatedAt: new Date() } }
+    );
+  }
+
+  /**
+   * Changes a member's role.
+   *
+   * @param {string} id - The household ID
+   * @param {string} userId - The member's user ID
+   * @param {HouseholdRole} role - The new role
+   * @returns {Promise<Household | null>} Updated household, or null if not found or not a member
+   */
+  async updateMemberRole(id: string, userId: string, role: HouseholdRole): Promise<Household | null> {
+    return await this.update(
+      id,
+      { 'members.userId': userId },
+      { $set: { 'members.$.role': role, updatedAt: new Date() } }
+    );
+  }
+
+  /**
+   * Removes a member.
+   *
+   * @param {string} id - The household ID
+   * @param {string} userId - The member's user ID
+   * @returns {Promise<Household | null>} Updated household, or null if not found or not a member
+   */
+  async removeMember(id: string, userId: string): Promise<Household | null> {
+    return await this.update(
+      id,
+      { 'members.userId': userId },
+      { $pull: { members: { userId } }, $set: { updatedAt: new Date() } }
+    );
+  }
+
+  /**
+   * Deletes a household from the database.
+   *
+   * @param {string} id - The household ID
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  async deleteHousehold(id: string): Promise<boolean> {
+    if (!ObjectId.isValid(id)) {
+      return false;
+    }
+
+    const collection = this.ensureCollection();
+    const result: DeleteResult = await collection.deleteOne({ _id: new ObjectId(id) });
+    return result.deletedCount === 1;
+  }
+
+  /**
+   * Creates database indexes for optimal query performance.
+   * Should be called during application initialization.
+   */
+  async createIndexes(): Promise<void> {
+    const collection = this.ensureCollection();
+
+    // Multikey index for "households I belong to" and membership checks
+    await collection.createIndex({ 'members.userId': 1 });
+  }
+
+  /**
+   * Applies an update to a household matching an extra filter and returns the result.
+   *
+   * @private
+   */
+  private async update(id: string, filter: object, update: object): Promise<Household | null> {
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const collection = this.ensureCollection();
+    const result: UpdateResult = await collection.updateOne({ _id: new ObjectId(id), ...filter }, update);
+
+    if (result.matchedCount === 0) {
+      return null;
+    }
+
+    return await this.findHouseholdById(id);
+  }
+}
@@ -0,0 +1,199 @@
+import { Collection, Db, ObjectId } from 'mongodb';
+import type { DeleteResult } from 'mongodb';
+import type { ColumnMapping, ImportMappingProfile } from '../models/StatementImport';
+import DatabaseConnection from '../config/database';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ColumnMapping:
+ *       type: object
+ *       description: |
+ *         How a bank's CSV columns map onto transaction fields. Columns are
+ *         referenced by header name or 0-based index. Map either amount or
+ *         debit and/or credit.
+ *       required:
+ *         - date
+ *         - vendor
+ *       properties:
+ *         date:
+ *           oneOf: [{ type: string }, { type: integer }]
+ *           example: "Posted Date"
+ *         vendor:
+ *           oneOf: [{ type: string }, { type: integer }]
+ *           example: "Payee"
+ *         description:
+ *           oneOf: [{ type: string }, { type: integer }]
+ *           example: "Memo"
+ *         amount:
+ *           oneOf: [{ type: string }, { type: integer }]
+ *           description: Signed amount column
+ *           example: "Amount"
+ *         debit:
+ *           oneOf: [{ type: string }, { type: integer }]
+ *           description: Money out column
+ *         credit:
+ *           oneOf: [{ type: string }, { type: integer }]
+ *           description: Money in column
+ *         currency:
+ *           oneOf: [{ type: string }, { type: integer }]
+ *         dateFormat:
+ *           type: string
+ *           enum: [YYYY-MM-DD, MM/DD/YYYY, DD/MM/YYYY]
+ *           default: YYYY-MM-DD
+ *         decimalSeparator:
+ *           type: string
+ *           enum: [".", ","]
+ *           default: "."
+ *         delimiter:
+ *           type: string
+ *           enum: [",", ";", "\t", "|"]
+ *           description: Detected from the header line when omitted
+ *         hasHeader:
+ *           type: boolean
+ *           default: true
+ *         negativeIsExpense:
+ *           type: boolean
+ *           default: true
+ *           description: Set to false for banks that export money out as positive amounts
+ *     ImportMappingProfile:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "507f1f77bcf86cd799439016"
+ *         userId:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: "Chase checking"
+ *         mapping:
+ *           $ref: '#/components/schemas/ColumnMapping'
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * Repository class for ImportMappingProfile data access operations.
+ *
+ * Implements the Repository pattern to:
+ * - Abstract database operations from business logic
+ * - Provide a clean interface for data persistence
+ * - Handle MongoDB-specific operations
+ * - Manage database indexes and optimization
+ */
+export class ImportMappingRepository {
+  private collection: Collection<ImportMappingProfile> | null = null;
+
+  constructor() {
+
+  }
+
+  /**
+   * Ensures the collection is initialized before use.
+   * Implements lazy initialization pattern to avoid connection timing issues.
+   *
+   * @returns {Collection<ImportMappingProfile>} The import mappings collection
+   * @throws {Error} If database is not connected
+   */
+  private ensureCollection(): Collection<ImportMappingProfile> {
+    if (!this.collection) {
+      const db: Db = DatabaseConnection.getInstance().getDatabase();
+      this.collection = db.collection<ImportMappingProfile>('importMappings');
+    }
+    return this.collection;
+  }
+
+  /**
+   * Saves a mapping profile, replacing the user's profile with the same name.
+   *
+   * @param {string} userId - The user ID
+   * @param {string} name - Profile name, unique per user
+   * @param {ColumnMapping} mapping - Column mapping to store
+   * @returns {Promise<ImportMappingProfile>} The saved profile
+   * @throws {Error} If the profile can't be saved
+   */
+  async upsertProfile(userId: string, name: string, mapping: ColumnMapping): Promise<ImportMappingProfile> {
+    const collection = this.ensureCollection();
+    const now = new Date();
+
+    const profile = await collection.findOneAndUpdate(
+      { userId, name },
+      {
+        $set: { mapping, updatedAt: now },
+        $setOnInsert: { userId, name, id: '', createdAt: now }
+      },
+      { upsert: true, returnDocument: 'after' }
+    );
+
+    if (!profile) {
+      throw new Error('Failed to save import mapping profile');
+    }
+
+    return profile;
+  }
+
+  /**
+   * Finds a user's mapping profile by its MongoDB ObjectId.
+   *
+   * @param {string} id - The profile ID (as string)
+   * @param {string} userId - The user who owns the profile
+   * @returns {Promise<ImportMappingProfile | null>} The profile or null if not found
+   */
+  async findProfileById(id: string, userId: string): Promise<ImportMappingProfile | null> {
+    // Validate ObjectId format to prevent MongoDB errors
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const collection = this.ensureCollection();
+    return await collection.findOne({ _id: new ObjectId(id), userId });
+  }
+
+  /**
+   * Finds all mapping profiles for a user, sorted by name.
+   *
+   * @param {string} userId - The user ID
+   * @returns {Promise<ImportMappingProfile[]>} The user's profiles
+   */
+  async findByUserId(userId: string): Promise<ImportMappingProfile[]> {
+    const collection = this.ensureCollection();
+    return await collection.find({ userId }).sort({ name: 1 }).toArray();
+  }
+
+  /**
+   * Deletes a user's mapping profile.
+   *
+   * @param {string} id - The profile ID to delete
+   * @param {string} userId - The user who owns the profile
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  async deleteProfile(id: string, userId: string): Promise<boolean> {
+    if (!ObjectId.isValid(id)) {
+      return false;
+    }
+
+    const collection = this.ensureCollection();
+    const result: DeleteResult = await collection.deleteOne({ _id: new ObjectId(id), userId });
+    return result.deletedCount === 1;
+  }
+
+  /**
+   * Creates database indexes for optimized queries.
+   * Should be called during application startup.
+   *
+   * Indexes:
+   * - userId + name: Unique, one profile per name for each user
+   */
+  async createIndexes(): Promise<void> {
+    const collection = this.ensureCollection();
+
+    // Unique index so saving a profile under an existing name replaces it
+    await collection.createIndex({ userId: 1, name: 1 }, { unique: true });
+  }
+}
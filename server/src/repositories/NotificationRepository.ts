@@ -0,0 +1,282 @@
+import { Collection, Db, ObjectId } from 'mongodb';
+import type { InsertOneResult, UpdateResult } from 'mongodb';
+import type { Notification, NotificationDelivery } from '../models/Notification';
+import DatabaseConnection from '../config/database';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     NotificationDelivery:
+ *       type: object
+ *       properties:
+ *         channel:
+ *           type: string
+ *           enum: [in_app, push, email]
+ *         status:
+ *           type: string
+ *           enum: [sent, skipped, failed]
+ *           description: Skipped when the user has no address for the channel
+ *         error:
+ *           type: string
+ *           description: Why delivery failed
+ *         at:
+ *           type: string
+ *           format: date-time
+ *     Notification:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "507f1f77bcf86cd799439030"
+ *         userId:
+ *           type: string
+ *           example: "68df4cd8f4c53b419fc5f196"
+ *         type:
+ *           type: string
+ *           enum: [budget_threshold]
+ *         title:
+ *           type: string
+ *           example: "80% of your Groceries budget used"
+ *         message:
+ *           type: string
+ *           example: "You've spent $164.00 of your $200.00 Groceries budget for March 2025."
+ *         budgetId:
+ *           type: string
+ *           example: "507f1f77bcf86cd799439011"
+ *         threshold:
+ *           type: integer
+ *           description: Percent-used level that was crossed
+ *           example: 80
+ *         details:
+ *           type: object
+ *           properties:
+ *             month:
+ *               type: integer
+ *               example: 3
+ *             year:
+ *               type: integer
+ *               example: 2025
+ *             categoryId:
+ *               type: string
+ *             amount:
+ *               type: number
+ *               example: 200
+ *             spent:
+ *               type: number
+ *               example: 164
+ *             currency:
+ *               type: string
+ *               example: "USD"
+ *             percentUsed:
+ *               type: number
+ *               example: 82
+ *         read:
+ *           type: boolean
+ *           example: false
+ *         readAt:
+ *           type: string
+ *           format: date-time
+ *         deliveries:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/NotificationDelivery'
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * Repository class for Notification data access operations.
+ *
+ * Implements the Repository pattern to:
+ * - Abstract database operations from business logic
+ * - Provide a clean interface for data persistence
+ * - Handle MongoDB-specific operations
+ * - Manage database indexes and optimization
+ */
+export class NotificationRepository {
+  private collection: Collection<Notification> | null = null;
+
+  constructor() {
+
+  }
+
+  /**
+   * Ensures the collection is initialized before use.
+   * Implements lazy initialization pattern to avoid connection timing issues.
+   *
+   * @returns {Collection<Notification>} The notifications collection
+   * @throws {Error} If database is not connected
+   */
+  private ensureCollection(): Collection<Notification> {
+    if (!this.collection) {
+      const db: Db = DatabaseConnection.getInstance().getDatabase();
+      this.collection = db.collection<Notification>('notifications');
+    }
+    return this.collection;
+  }
+
+  /**
+   * Creates a new notification in the database.
+   * Adds timestamps for audit trail.
+   *
+   * @param {Omit<Notification, '_id' | 'id' | 'createdAt' | 'updatedAt'>} data - Notification data
+   * @returns {Promise<Notification>} The created notification with generated ID
+   * @throws {Error} If creation fails, including a duplicate budget/threshold pair
+   */
+  async createNotification(
+    data: Omit<Notification, '_id' | 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<Notification> {
+    const collection = this.ensureCollection();
+    // Add timestamps for audit trail
+    const now = new Date();
+    const notification: Omit<Notification, '_id'> = {
+      ...data,
+      id: '',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const result: InsertOneResult<Notification> = await collection.insertOne(notification as Notification);
+
+    if (!result.insertedId) {
+      throw new Error('Failed to create notification');
+    }
+
+    const created = await collection.findOne({ _id: result.insertedId });
+
+    if (!created) {
+      throw new Error('Failed to retrieve created notification');
+    }
+
+    return created;
+  }
+
+  /**
+   * Finds the highest threshold already notified for a budget.
+   *
+   * @param {string} budgetId - The budget ID
+   * @returns {Promise<number>} The highest notified threshold, or 0 if none
+   */
+  async findHighestThreshold(budgetId: string): Promise<number> {
+    const collection = this.ensureCollection();
+    const [latest] = await collection
+      .find({ budgetId, type: 'budget_threshold' })
+      .sort({ threshold: -1 })
+      .limit(1)
+      .toArray();
+    return latest?.threshold ?? 0;
+  }
+
+  /**
+   * Finds a user's notifications, newest first.
+   *
+   * @param {string} userId - The user ID
+   * @param {{ unread?: boolean, limit: number }} options - Optional read filter and page size
+   * @returns {Promise<Notification[]>} Array of notifications
+   */
+  async findByUserId(userId: string, options: { unread?: boolean; limit: number }): Promise<Notification[]> {
+    const collection = this.ensureCollection();
+    const query: any = { userId };
+
+    if (options.unread !== undefined) {
+      query.read = !options.unread;
+    }
+
+    return await collection.find(query).sort({ createdAt: -1 }).limit(options.limit).toArray();
+  }
+
+  /**
+   * Counts a user's unread notifications.
+   *
+   * @param {string} userId - The user ID
+   * @returns {Promise<number>} Number of unread notifications
+   */
+  async countUnread(userId: string): Promise<number> {
+    const collection = this.ensureCollection();
+    return await collection.countDocuments({ userId, read: false });
+  }
+
+  /**
+   * Marks one of a user's notifications as read.
+   * Notifications that are already read keep their original readAt.
+   *
+   * @param {string} userId - The owning user ID
+   * @param {string} id - The notification ID
+   * @returns {Promise<Notification | null>} The notification, or null if not found for the user
+   */
+  async markAsRead(userId: string, id: string): Promise<Notification | null> {
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const collection = this.ensureCollection();
+    const now = new Date();
+    await collection.updateOne(
+      { _id: new ObjectId(id), userId, read: false },
+      { $set: { read: true, readAt: now, updatedAt: now } }
+    );
+
+    return await collection.findOne({ _id: new ObjectId(id), userId });
+  }
+
+  /**
+   * Marks all of a user's unread notifications as read.
+   *
+   * @param {string} userId - The user ID
+   * @returns {Promise<number>} Number of notifications marked read
+   */
+  async markAllAsRead(userId: string): Promise<number> {
+    const collection = this.ensureCollection();
+    const now = new Date();
+    const result: UpdateResult = await collection.updateMany(
+      { userId, read: false },
+      { $set: { read: true, readAt: now, updatedAt: now } }
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Records the delivery outcome for each channel.
+   *
+   * @param {string} id - The notification ID
+   * @param {NotificationDelivery[]} deliveries - One entry per channel
+   */
+  async updateDeliveries(id: string, deliveries: NotificationDelivery[]): Promise<void> {
+    if (!ObjectId.isValid(id)) {
+      return;
+    }
+
+    const collection = this.ensureCollection();
+    await collection.updateOne(
+      { _id: new ObjectId(id) },
+      { $set: { deliveries, updatedAt: new Date() } }
+    );
+  }
+
+  /**
+   * Creates database indexes for optimized queries.
+   * Should be called during application startup.
+   *
+   * Indexes:
+   * - userId + createdAt: For the newest-first feed
+   * - userId + read: For unread counts
+   * - budgetId + threshold (unique): Each threshold notifies once per budget
+   */
+  async createIndexes(): Promise<void> {
+    const collection = this.ensureCollection();
+
+    // Compound index for the notification feed
+    await collection.createIndex({ userId: 1, createdAt: -1 });
+
+    // Compound index for unread counts
+    await collection.createIndex({ userId: 1, read: 1 });
+
+    // Unique index so concurrent transaction writes can't notify a threshold twice
+    await collection.createIndex(
+      { budgetId: 1, threshold: 1 },
+      { unique: true, partialFilterExpression: { budgetId: { $exists: true } } }
+    );
+  }
+}
@@ -113,6 +113,27 @@ export class ProfileRepository {
     return profiles;
   }
 
+  /**
+   * Retrieves profiles matching an administrator's filter, oldest first.
+   *
+   * @param {object} filter - Optional exact email and disabled state
+   * @returns {Promise<Profile[]>} Matching profiles
+   */
+  async findProfiles(filter: { email?: string; disabled?: boolean }): Promise<Profile[]> {
+    const collection = this.ensureCollection();
+    const query: any = {};
+
+    if (filter.email !== undefined) {
+      query.email = filter.email.toLowerCase();
+    }
+    if (filter.disabled !== undefined) {
+      // Profiles created before accounts could be disabled have no flag
+      query.disabled = filter.disabled ? true : { $ne: true };
+    }
+
+    return await collection.find(query).sort({ createdAt: 1 }).toArray();
+  }
+
   /**
    * Updates an existing profile with partial data.
    * Automatically updates the updatedAt timestamp.
@@ -178,6 +199,68 @@ export class ProfileRepository {
     return await this.findProfileById(id);
   }
 
+  /**
+   * Updates the spreadsheet used by the Google Sheets sync.
+   *
+   * @param {string} id - The profile ID
+   * @param {string | null} spreadsheetId - The Google spreadsheet ID, or null to unlink
+   * @returns {Promise<Profile | null>} Updated profile or null if not found
+   */
+  async updateGoogleSpreadsheetId(id: string, spreadsheetId: string | null): Promise<Profile | null> {
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const collection = this.ensureCollection();
+
+    const result: UpdateResult = await collection.updateOne(
+      { _id: new ObjectId(id) },
+      {
+        $set: {
+          googleSpreadsheetId: spreadsheetId,
+          updatedAt: new Date(),
+        }
+      }
+    );
+
+    if (result.matchedCount === 0) {
+      return null;
+    }
+
+    return await this.findProfileById(id);
+  }
+
+  /**
+   * Marks a profile as disabled or enabled.
+   *
+   * @param {string} id - The profile ID
+   * @param {boolean} disabled - Whether the account is disabled
+   * @returns {Promise<Profile | null>} Updated profile or null if not found
+   */
+  async updateDisabled(id: string, disabled: boolean): Promise<Profile | null> {
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const collection = this.ensureCollection();
+
+    const result: UpdateResult = await collection.updateOne(
+      { _id: new ObjectId(id) },
+      {
+        $set: {
+          disabled,
+          updatedAt: new Date(),
+        }
+      }
+    );
+
+    if (result.matchedCount === 0) {
+      return null;
+    }
+
+    return await this.findProfileById(id);
+  }
+
   /**
    * Deletes a profile from the database.
    *
@@ -0,0 +1,180 @@
+import { randomUUID } from 'crypto';
+import { Collection, Db, ObjectId } from 'mongodb';
+import type { InsertOneResult, UpdateResult } from 'mongodb';
+import type { NewReceiptJob, ReceiptJob } from '../models/ReceiptJob';
+import DatabaseConnection from '../config/database';
+
+/**
+ * Repository class for receipt scan jobs.
+ *
+ * The receiptJobs collection doubles as the work queue: workers claim jobs
+ * with an atomic update, so no separate message broker is needed.
+ */
+export class ReceiptJobRepository {
+  private collection: Collection<ReceiptJob> | null = null;
+
+  constructor() {
+
+  }
+
+  /**
+   * Ensures the collection is initialized before use.
+   * Implements lazy initialization pattern to avoid connection timing issues.
+   *
+   * @returns {Collection<ReceiptJob>} The receiptJobs collection
+   * @throws {Error} If database is not connected
+   */
+  private ensureCollection(): Collection<ReceiptJob> {
+    if (!this.collection) {
+      const db: Db = DatabaseConnection.getInstance().getDatabase();
+      this.collection = db.collection<ReceiptJob>('receiptJobs');
+    }
+    return this.collection;
+  }
+
+  /**
+   * Queues a new job at the first stage, ready to run now.
+   *
+   * @param {NewReceiptJob} data - Owner and uploaded file
+   * @returns {Promise<ReceiptJob>} The created job
+   * @throws {Error} If creation fails
+   */
+  async createJob(data: NewReceiptJob): Promise<ReceiptJob> {
+    const collection = this.ensureCollection();
+    const now = new Date();
+    const job: Omit<ReceiptJob, '_id'> = {
+      ...data,
+      id: '',
+      status: 'queued',
+      stage: 'ocr',
+      completedStages: [],
+      attempts: 0,
+      runAfter: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const result: InsertOneResult<ReceiptJob> = await collection.insertOne(job as ReceiptJob);
+
+    if (!result.insertedId) {
+      throw new Error('Failed to create receipt job');
+    }
+
+    const created = await collection.findOne({ _id: result.insertedId });
+
+    if (!created) {
+      throw new Error('Failed to retrieve created receipt job');
+    }
+
+    return created;
+  }
+
+  /**
+   * Finds a user's job by its MongoDB ObjectId.
+   *
+   * @param {string} id - The job ID (as string)
+   * @param {string} userId - The user who owns the job
+   * @returns {Promise<ReceiptJob | null>} The job or null if not found
+   */
+  async findJobById(id: string, userId: string): Promise<ReceiptJob | null> {
+    // Validate ObjectId format to prevent MongoDB errors
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const collection = this.ensureCollection();
+    return await collection.findOne({ _id: new ObjectId(id), userId });
+  }
+
+  /**
+   * Claims the job that has waited longest, marking it processing under a lease.
+   * Queued jobs are claimed once their backoff has passed; processing jobs
+   * once their lease has run out, which means their worker stopped. A stopped
+   * worker counts as a failed try, so reclaiming a job increments its attempts.
+   * Each claim issues a new leaseId, which the worker passes to updateJob.
+   *
+   * @param {number} leaseMs - How long the claim lasts
+   * @returns {Promise<ReceiptJob | null>} The claimed job, or null if none is ready
+   */
+  async claimNextJob(leaseMs: number): Promise<ReceiptJob | null> {
+    const collection = this.ensureCollection();
+    const now = new Date();
+
+    return await collection.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'queued', runAfter: { $lte: now } },
+          { status: 'processing', lockedUntil: { $lte: now } },
+        ],
+      },
+      [
+        {
+          $set: {
+            attempts: { $cond: [{ $eq: ['$status', 'processing'] }, { $add: ['$attempts', 1] }, '$attempts'] },
+            status: 'processing',
+            lockedUntil: new Date(now.getTime() + leaseMs),
+            leaseId: randomUUID(),
+            updatedAt: now,
+          },
+        },
+      ],
+      { sort: { runAfter: 1 }, returnDocument: 'after' }
+    );
+  }
+
+  /**
+   * Updates a job under the lease its worker claimed it with.
+   * Automatically updates the updatedAt timestamp.
+   *
+   * Once the lease has run out and another worker has claimed the job, the
+   * leaseId no longer matches and nothing is written.
+   *
+   * @param {string} id - The job ID to update
+   * @param {string} leaseId - The leaseId the job was claimed with
+   * @param {Partial<ReceiptJob>} updateData - Fields to set
+   * @param {Array<keyof ReceiptJob>} unsetFields - Fields to remove
+   * @returns {Promise<boolean>} True if the job was found and the lease still held
+   */
+  async updateJob(
+    id: string,
+    leaseId: string,
+    updateData: Partial<ReceiptJob>,
+    unsetFields: Array<keyof ReceiptJob> = []
+  ): Promise<boolean> {
+    if (!ObjectId.isValid(id)) {
+      return false;
+    }
+
+    const collection = this.ensureCollection();
+
+    const update: any = { $set: { ...updateData, updatedAt: new Date() } };
+    if (unsetFields.length > 0) {
+      update.$unset = Object.fromEntries(unsetFields.map(field => [field, '']));
+    }
+
+    const result: UpdateResult = await collection.updateOne({ _id: new ObjectId(id), leaseId }, update);
+    return result.matchedCount === 1;
+  }
+
+  /**
+   * Creates database indexes for optimized queries.
+   * Should be called during application startup.
+   *
+   * Indexes:
+   * - status + runAfter: For claiming the next job
+   * - userId: For status lookups
+   * - expiresAt: TTL, removes finished jobs
+   */
+  async createIndexes(): Promise<void> {
+    const collection = this.ensureCollection();
+
+    // Compound index for the queue's claim query
+    await collection.createIndex({ status: 1, runAfter: 1 });
+
+    // Index on userId for fast user-specific queries
+    await collection.createIndex({ userId: 1 });
+
+    // TTL index; only finished jobs have expiresAt
+    await collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  }
+}
@@ -1,6 +1,7 @@
 import { Collection, Db, ObjectId } from 'mongodb';
 import type { InsertOneResult, UpdateResult, DeleteResult } from 'mongodb';
-import type { Receipt, CreateReceiptRequest, UpdateReceiptRequest } from '../models/Receipt';
+import type { NewReceipt, Receipt, UpdateReceiptRequest } from '../models/Receipt';
+import type { ReceiptStore } from './ReceiptStore';
 import DatabaseConnection from '../config/database';
 
 /**
@@ -14,7 +15,6 @@ import DatabaseConnection from '../config/database';
  *         - merchantName
  *         - amount
  *         - date
- *         - categoryId
  *         - userId
  *       properties:
  *         id:
@@ -37,8 +37,16 @@ import DatabaseConnection from '../config/database';
  *           example: "2025-10-06T14:30:00Z"
  *         categoryId:
  *           type: string
- *           description: Category ID for this receipt (MongoDB ObjectId)
+ *           description: Category ID, set once the receipt's transaction has a category
  *           example: "507f1f77bcf86cd799439012"
+ *         category:
+ *           type: string
+ *           description: Category name suggested when the receipt was scanned
+ *           example: "food"
+ *         paymentType:
+ *           type: string
+ *           description: Type of payment used
+ *           example: "Credit Card"
  *         userId:
  *           type: string
  *           description: User ID who owns this receipt (MongoDB ObjectId)
@@ -70,8 +78,11 @@ import DatabaseConnection from '../config/database';
  * - Provide a clean interface for data persistence
  * - Handle MongoDB-specific operations
  * - Manage database indexes and optimization
+ *
+ * This is the system of record for receipts; see ReceiptStore.
  */
-export class ReceiptRepository {
+export class ReceiptRepository implements ReceiptStore {
+    readonly name = 'mongo' as const;
     private collection: Collection<Receipt> | null = null;
 
     constructor() {
@@ -97,25 +108,21 @@ export class ReceiptRepository {
      * Creates a new receipt in the database.
      * Adds timestamps for audit trail.
      *
-     * @param {CreateReceiptRequest} receiptData - Validated receipt data
+     * A createdAt given with the data (a receipt copied from another store) is kept.
+     *
+     * @param {NewReceipt} receiptData - Validated receipt data
      * @returns {Promise<Receipt>} The created receipt with generated ID
      * @throws {Error} If receipt creation fails
      */
-    async createReceipt(receiptData: CreateReceiptRequest): Promise<Receipt> {
+    async createReceipt(receiptData: NewReceipt): Promise<Receipt> {
       const collection = this.ensureCollection();
       // Add timestamps for audit trail
       const now = new Date();
 
-      // Convert date string to Date object if needed
-      const receiptDate = typeof receiptData.date === 'string'
-        ? new Date(receiptData.date)
-        : receiptData.date;
-
       const receipt: Omit<Receipt, '_id'> = {
         ...receiptData,
-        date: receiptDate,
         id: '',
-        createdAt: now,
+        createdAt: receiptData.createdAt ?? now,
         updatedAt: now,
       };
 
@@ -163,6 +170,28 @@ export class ReceiptRepository {
         return receipts;
       }
 
+      /**
+       * Finds the receipt a scan job saved.
+       *
+       * @param {string} scanJobId - The scan job ID
+       * @returns {Promise<Receipt | null>} The receipt or null if the job hasn't saved one
+       */
+      async findByScanJobId(scanJobId: string): Promise<Receipt | null> {
+        const collection = this.ensureCollection();
+        return await collection.findOne({ scanJobId });
+      }
+
+      /**
+       * Finds the receipt copied from a Firestore document.
+       *
+       * @param {string} legacyFirestoreId - The Firestore document ID
+       * @returns {Promise<Receipt | null>} The migrated receipt or null if it hasn't been copied
+       */
+      async findByLegacyFirestoreId(legacyFirestoreId: string): Promise<Receipt | null> {
+        const collection = this.ensureCollection();
+        return await collection.findOne({ legacyFirestoreId });
+      }
+
       /**
        * Finds all receipts for a specific category.
        *
@@ -249,6 +278,8 @@ export class ReceiptRepository {
          * - userId: For fast user-specific queries
          * - categoryId: For fast category-specific queries
          * - date: For date-based queries and sorting
+         * - legacyFirestoreId: Unique, so a Firestore receipt is only migrated once
+         * - scanJobId: Unique, so a retried scan saves its receipt once
          */
         async createIndexes(): Promise<void> {
             const collection = this.ensureCollection();
@@ -261,6 +292,18 @@ export class ReceiptRepository {
 
             // Index on date for date-based queries and sorting
             await collection.createIndex({ date: -1 });
+
+            // Unique on migrated receipts only
+            await collection.createIndex(
+              { legacyFirestoreId: 1 },
+              { unique: true, partialFilterExpression: { legacyFirestoreId: { $exists: true } } }
+            );
+
+            // Unique on scanned receipts only
+            await collection.createIndex(
+              { scanJobId: 1 },
+              { unique: true, partialFilterExpression: { scanJobId: { $exists: true } } }
+            );
         }
 
 }
@@ -0,0 +1,44 @@
+/**
+ * Receipt storage
+ *
+ * MongoDB (ReceiptRepository) is the system of record for receipts. Receipts
+ * were first written to Firestore; FirestoreReceiptRepository keeps that path
+ * as an optional adapter, chosen with RECEIPT_STORE=firestore, and is what the
+ * receipt migration copies from.
+ */
+
+import type { NewReceipt, Receipt, ReceiptStoreName, UpdateReceiptRequest } from '../models/Receipt';
+import { ReceiptRepository } from './ReceiptRepository';
+import { FirestoreReceiptRepository } from './FirestoreReceiptRepository';
+
+/**
+ * A place receipts are kept. IDs are whatever the store generates; lookups
+ * with an ID the store can't have issued return null rather than throwing.
+ */
+export interface ReceiptStore {
+  readonly name: ReceiptStoreName;
+  createReceipt(receiptData: NewReceipt): Promise<Receipt>;
+  findReceiptById(id: string): Promise<Receipt | null>;
+  findByUserId(userId: string): Promise<Receipt[]>;
+  findByScanJobId(scanJobId: string): Promise<Receipt | null>;
+  findAllReceipts(): Promise<Receipt[]>;
+  updateReceipt(id: string, updateData: Partial<UpdateReceiptRequest>): Promise<Receipt | null>;
+  deleteReceipt(id: string): Promise<boolean>;
+  createIndexes(): Promise<void>;
+}
+
+/**
+ * Picks the receipt store from RECEIPT_STORE ("mongo" or "firestore"),
+ * defaulting to MongoDB. An unknown value falls back to MongoDB with a warning.
+ */
+export function createReceiptStore(): ReceiptStore {
+  const configured = process.env.RECEIPT_STORE?.trim().toLowerCase();
+
+  if (configured === 'firestore') {
+    return new FirestoreReceiptRepository();
+  }
+  if (configured && configured !== 'mongo') {
+    console.warn(`Unknown RECEIPT_STORE "${configured}", storing receipts in MongoDB`);
+  }
+  return new ReceiptRepository();
+}
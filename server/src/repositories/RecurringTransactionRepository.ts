@@ -0,0 +1,318 @@
+import { Collection, Db, ObjectId } from 'mongodb';
+import type { InsertOneResult, UpdateResult, DeleteResult } from 'mongodb';
+import type { RecurringTransaction } from '../models/RecurringTransaction';
+import DatabaseConnection from '../config/database';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     RecurrenceRule:
+ *       type: object
+ *       required:
+ *         - frequency
+ *       properties:
+ *         frequency:
+ *           type: string
+ *           enum: [daily, weekly, monthly, yearly]
+ *           example: "monthly"
+ *         interval:
+ *           type: integer
+ *           description: Repeat every N days/weeks/months/years
+ *           example: 1
+ *         dayOfWeek:
+ *           type: integer
+ *           description: Weekly only, 0 (Sunday) to 6 (Saturday)
+ *           example: 5
+ *         dayOfMonth:
+ *           type: integer
+ *           description: Monthly/yearly only, clamped to the last day of short months
+ *           example: 1
+ *         month:
+ *           type: integer
+ *           description: Yearly only, 1 to 12
+ *           example: 3
+ *     RecurringTransaction:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "507f1f77bcf86cd799439014"
+ *         userId:
+ *           type: string
+ *           example: "68df4cd8f4c53b419fc5f196"
+ *         vendorName:
+ *           type: string
+ *           example: "Netflix"
+ *         description:
+ *           type: string
+ *           example: "Streaming subscription"
+ *         amount:
+ *           type: number
+ *           format: double
+ *           example: 15.49
+ *         currency:
+ *           type: string
+ *           description: Currency of the generated transactions; the user's home currency when missing
+ *           example: "USD"
+ *         paymentType:
+ *           type: string
+ *           example: "Credit Card"
+ *         categoryId:
+ *           type: string
+ *           example: "507f1f77bcf86cd799439012"
+ *         kind:
+ *           type: string
+ *           enum: [income, expense, transfer]
+ *           description: Kind of the generated transactions; defaults to the category's kind
+ *         rule:
+ *           $ref: '#/components/schemas/RecurrenceRule'
+ *         startDate:
+ *           type: string
+ *           format: date-time
+ *         endDate:
+ *           type: string
+ *           format: date-time
+ *         nextOccurrence:
+ *           type: string
+ *           format: date-time
+ *           description: Next date a transaction will be generated
+ *         skippedDates:
+ *           type: array
+ *           items:
+ *             type: string
+ *             format: date-time
+ *         status:
+ *           type: string
+ *           enum: [active, paused, ended]
+ *         lastMaterializedAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * Repository class for RecurringTransaction data access operations.
+ *
+ * Implements the Repository pattern to:
+ * - Abstract database operations from business logic
+ * - Provide a clean interface for data persistence
+ * - Handle MongoDB-specific operations
+ * - Manage database indexes and optimization
+ */
+export class RecurringTransactionRepository {
+  private collection: Collection<RecurringTransaction> | null = null;
+
+  constructor() {
+
+  }
+
+  /**
+   * Ensures the collection is initialized before use.
+   * Implements lazy initialization pattern to avoid connection timing issues.
+   *
+   * @returns {Collection<RecurringTransaction>} The recurring transactions collection
+   * @throws {Error} If database is not connected
+   */
+  private ensureCollection(): Collection<RecurringTransaction> {
+    if (!this.collection) {
+      const db: Db = DatabaseConnection.getInstance().getDatabase();
+      this.collection = db.collection<RecurringTransaction>('recurringTransactions');
+    }
+    return this.collection;
+  }
+
+  /**
+   * Creates a new recurring transaction in the database.
+   * Adds timestamps for audit trail.
+   *
+   * @param {Omit<RecurringTransaction, '_id' | 'id'>} data - Fully resolved series data
+   * @returns {Promise<RecurringTransaction>} The created series with generated ID
+   * @throws {Error} If creation fails
+   */
+  async createRecurringTransaction(
+    data: Omit<RecurringTransaction, '_id' | 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<RecurringTransaction> {
+    const collection = this.ensureCollection();
+    // Add timestamps for audit trail
+    const now = new Date();
+    const recurring: Omit<RecurringTransaction, '_id'> = {
+      ...data,
+      id: '',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const result: InsertOneResult<RecurringTransaction> = await collection.insertOne(recurring as RecurringTransaction);
+
+    if (!result.insertedId) {
+      throw new Error('Failed to create recurring transaction');
+    }
+
+    const created = await collection.findOne({ _id: result.insertedId });
+
+    if (!created) {
+      throw new Error('Failed to retrieve created recurring transaction');
+    }
+
+    return created;
+  }
+
+  /**
+   * Finds a recurring transaction by its MongoDB ObjectId.
+   *
+   * @param {string} id - The recurring transaction ID (as string)
+   * @returns {Promise<RecurringTransaction | null>} The series or null if not found
+   */
+  async findRecurringTransactionById(id: string): Promise<RecurringTransaction | null> {
+    // Validate ObjectId format to prevent MongoDB errors
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const collection = this.ensureCollection();
+    return await collection.findOne({ _id: new ObjectId(id) });
+  }
+
+  /**
+   * Finds all recurring transactions for a specific user.
+   *
+   * @param {string} userId - The user ID
+   * @returns {Promise<RecurringTransaction[]>} Array of the user's series, soonest first
+   */
+  async findByUserId(userId: string): Promise<RecurringTransaction[]> {
+    const collection = this.ensureCollection();
+    return await collection.find({ userId }).sort({ nextOccurrence: 1 }).toArray();
+  }
+
+  /**
+   * Counts recurring transactions per user, for admin usage stats.
+   *
+   * @param {string[]} userIds - Optional users to restrict the count to
+   * @returns {Promise<Map<string, number>>} Count per user ID; users with none are absent
+   */
+  async countByUser(userIds?: string[]): Promise<Map<string, number>> {
+    const collection = this.ensureCollection();
+    const result = await collection.aggregate<{ _id: string; count: number }>([
+      ...(userIds ? [{ $match: { userId: { $in: userIds } } }] : []),
+      { $group: { _id: '$userId', count: { $sum: 1 } } }
+    ]).toArray();
+
+    return new Map(result.map(row => [row._id, row.count]));
+  }
+
+  /**
+   * Finds active series whose next occurrence is due.
+   *
+   * @param {Date} asOf - Occurrences on or before this date are due
+   * @param {string} userId - Optional user to restrict the search to
+   * @returns {Promise<RecurringTransaction[]>} Array of due series
+   */
+  async findDue(asOf: Date, userId?: string): Promise<RecurringTransaction[]> {
+    const collection = this.ensureCollection();
+    const query: any = { status: 'active', nextOccurrence: { $lte: asOf } };
+
+    if (userId) {
+      query.userId = userId;
+    }
+
+    return await collection.find(query).sort({ nextOccurrence: 1 }).toArray();
+  }
+
+  /**
+   * Updates an existing recurring transaction with partial data.
+   * Automatically updates the updatedAt timestamp.
+   *
+   * @param {string} id - The recurring transaction ID to update
+   * @param {Partial<RecurringTransaction>} updateData - Fields to set
+   * @param {Array<keyof RecurringTransaction>} unsetFields - Fields to remove
+   * @returns {Promise<RecurringTransaction | null>} Updated series or null if not found
+   */
+  async updateRecurringTransaction(
+    id: string,
+    updateData: Partial<RecurringTransaction>,
+    unsetFields: Array<keyof RecurringTransaction> = []
+  ): Promise<RecurringTransaction | null> {
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const collection = this.ensureCollection();
+
+    const update: any = { $set: { ...updateData, updatedAt: new Date() } };
+    if (unsetFields.length > 0) {
+      update.$unset = Object.fromEntries(unsetFields.map(field => [field, '']));
+    }
+
+    const result: UpdateResult = await collection.updateOne({ _id: new ObjectId(id) }, update);
+
+    if (result.matchedCount === 0) {
+      return null;
+    }
+
+    return await this.findRecurringTransactionById(id);
+  }
+
+  /**
+   * Moves a series to its next occurrence, only if it is still at `expected`.
+   * The compare-and-set guard prevents two materializer runs from advancing the
+   * same occurrence twice.
+   *
+   * @param {string} id - The recurring transaction ID
+   * @param {Date} expected - The occurrence the caller just processed
+   * @param {Partial<RecurringTransaction>} updateData - nextOccurrence and related fields to set
+   * @returns {Promise<boolean>} True if the series was advanced by this call
+   */
+  async advanceOccurrence(id: string, expected: Date, updateData: Partial<RecurringTransaction>): Promise<boolean> {
+    if (!ObjectId.isValid(id)) {
+      return false;
+    }
+
+    const collection = this.ensureCollection();
+    const result: UpdateResult = await collection.updateOne(
+      { _id: new ObjectId(id), nextOccurrence: expected },
+      { $set: { ...updateData, updatedAt: new Date() } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Deletes a recurring transaction from the database.
+   * Transactions already generated by the series are kept.
+   *
+   * @param {string} id - The recurring transaction ID to delete
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  async deleteRecurringTransaction(id: string): Promise<boolean> {
+    if (!ObjectId.isValid(id)) {
+      return false;
+    }
+
+    const collection = this.ensureCollection();
+    const result: DeleteResult = await collection.deleteOne({ _id: new ObjectId(id) });
+    return result.deletedCount === 1;
+  }
+
+  /**
+   * Creates database indexes for optimized queries.
+   * Should be called during application startup.
+   *
+   * Indexes:
+   * - userId: For fast user-specific queries
+   * - status + nextOccurrence: For finding due series
+   */
+  async createIndexes(): Promise<void> {
+    const collection = this.ensureCollection();
+
+    // Index on userId for fast user-specific queries
+    await collection.createIndex({ userId: 1 });
+
+    // Compound index for the materializer's due-series scan
+    await collection.createIndex({ status: 1, nextOccurrence: 1 });
+  }
+}
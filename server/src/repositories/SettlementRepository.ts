@@ -0,0 +1,158 @@
+import { Collection, Db, ObjectId } from 'mongodb';
+import type { InsertOneResult, DeleteResult } from 'mongodb';
+import type { Settlement } from '../models/Settlement';
+import DatabaseConnection from '../config/database';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Settlement:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "68df4cd8f4c53b419fc5f1d0"
+ *         name:
+ *           type: string
+ *           description: The other person
+ *           example: "Sam"
+ *         amount:
+ *           type: number
+ *           example: 40
+ *         currency:
+ *           type: string
+ *           example: "USD"
+ *         direction:
+ *           type: string
+ *           enum: [received, paid]
+ *           description: received when they paid the user, paid when the user paid them
+ *         date:
+ *           type: string
+ *           format: date-time
+ *         note:
+ *           type: string
+ *           example: "Venmo"
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     PersonBalance:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: "Sam"
+ *         balance:
+ *           type: number
+ *           description: Positive when they owe the user, negative when the user owes them
+ *           example: 40
+ */
+
+/**
+ * Repository class for settlement data access operations.
+ */
+export class SettlementRepository {
+  private collection: Collection<Settlement> | null = null;
+
+  constructor() {
+
+  }
+
+  /**
+   * Ensures the collection is initialized before use.
+   * Implements lazy initialization pattern to avoid connection timing issues.
+   *
+   * @returns {Collection<Settlement>} The settlements collection
+   * @throws {Error} If database is not connected
+   */
+  private ensureCollection(): Collection<Settlement> {
+    if (!this.collection) {
+      const db: Db = DatabaseConnection.getInstance().getDatabase();
+      this.collection = db.collection<Settlement>('settlements');
+    }
+    return this.collection;
+  }
+
+  /**
+   * Creates a new settlement in the database.
+   *
+   * @param {Omit<Settlement, '_id' | 'id' | 'createdAt'>} data - Settlement data
+   * @returns {Promise<Settlement>} The created settlement with generated ID
+   * @throws {Error} If creation fails
+   */
+  async createSettlement(data: Omit<Settlement, '_id' | 'id' | 'createdAt'>): Promise<Settlement> {
+    const collection = this.ensureCollection();
+    const settlement: Omit<Settlement, '_id'> = {
+      ...data,
+      id: '',
+      createdAt: new Date(),
+    };
+
+    const result: InsertOneResult<Settlement> = await collection.insertOne(settlement as Settlement);
+
+    if (!result.insertedId) {
+      throw new Error('Failed to create settlement');
+    }
+
+    const created = await collection.findOne({ _id: result.insertedId });
+
+    if (!created) {
+      throw new Error('Failed to retrieve created settlement');
+    }
+
+    return created;
+  }
+
+  /**
+   * Finds a settlement by its MongoDB ObjectId.
+   *
+   * @param {string} id - The settlement ID
+   * @returns {Promise<Settlement | null>} The settlement or null if not found
+   */
+  async findSettlementById(id: string): Promise<Settlement | null> {
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const collection = this.ensureCollection();
+    return await collection.findOne({ _id: new ObjectId(id) });
+  }
+
+  /**
+   * Finds a user's settlements, newest first.
+   *
+   * @param {string} userId - The user ID
+   * @returns {Promise<Settlement[]>} The user's settlements
+   */
+  async findByUserId(userId: string): Promise<Settlement[]> {
+    const collection = this.ensureCollection();
+    return await collection.find({ userId }).sort({ date: -1, _id: -1 }).toArray();
+  }
+
+  /**
+   * Deletes a settlement from the database.
+   *
+   * @param {string} id - The settlement ID
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  async deleteSettlement(id: string): Promise<boolean> {
+    if (!ObjectId.isValid(id)) {
+      return false;
+    }
+
+    const collection = this.ensureCollection();
+    const result: DeleteResult = await collection.deleteOne({ _id: new ObjectId(id) });
+    return result.deletedCount === 1;
+  }
+
+  /**
+   * Creates database indexes for optimal query performance.
+   * Should be called during application initialization.
+   */
+  async createIndexes(): Promise<void> {
+    const collection = this.ensureCollection();
+
+    // A user's settlements by date
+    await collection.createIndex({ userId: 1, date: -1 });
+  }
+}
@@ -0,0 +1,289 @@
+import { Collection, Db, ObjectId } from 'mongodb';
+import type { InsertOneResult, UpdateResult } from 'mongodb';
+import type { StatementImport, StatementImportStatus } from '../models/StatementImport';
+import DatabaseConnection from '../config/database';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     StatementRow:
+ *       type: object
+ *       properties:
+ *         rowNumber:
+ *           type: integer
+ *           description: 1-based position of the line in the statement (data lines only)
+ *           example: 3
+ *         dateTime:
+ *           type: string
+ *           format: date-time
+ *         amount:
+ *           type: number
+ *           format: double
+ *           description: Always positive; direction comes from kind
+ *           example: 42.1
+ *         kind:
+ *           type: string
+ *           enum: [income, expense, transfer]
+ *           description: Money out is an expense, money in is income
+ *         currency:
+ *           type: string
+ *           example: "USD"
+ *         vendorName:
+ *           type: string
+ *           example: "SQ *BLUE BOTTLE COFFEE"
+ *         description:
+ *           type: string
+ *         categoryId:
+ *           type: string
+ *           description: Suggested category; can be overridden when committing
+ *         suggestedCategory:
+ *           type: string
+ *           description: Category bucket returned by the categorizer
+ *           example: "food"
+ *         duplicateOf:
+ *           type: object
+ *           description: Existing transaction this row probably duplicates
+ *           properties:
+ *             transactionId:
+ *               type: string
+ *             vendorName:
+ *               type: string
+ *             dateTime:
+ *               type: string
+ *               format: date-time
+ *             amount:
+ *               type: number
+ *             score:
+ *               type: number
+ *               description: Match confidence from 0 to 1
+ *         error:
+ *           type: string
+ *           description: Why the line couldn't be read; such rows can't be committed
+ *           example: "Invalid date \"31/02/2025\""
+ *     StatementImport:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "507f1f77bcf86cd799439015"
+ *         userId:
+ *           type: string
+ *         fileName:
+ *           type: string
+ *           example: "checking-march.csv"
+ *         format:
+ *           type: string
+ *           enum: [csv, ofx]
+ *         status:
+ *           type: string
+ *           enum: [preview, committed, rolled_back]
+ *         paymentType:
+ *           type: string
+ *           example: "Debit"
+ *         rowCount:
+ *           type: integer
+ *         duplicateCount:
+ *           type: integer
+ *         errorCount:
+ *           type: integer
+ *         rows:
+ *           type: array
+ *           description: Parsed rows (empty in listings)
+ *           items:
+ *             $ref: '#/components/schemas/StatementRow'
+ *         transactionIds:
+ *           type: array
+ *           description: Transactions created when the import was committed
+ *           items:
+ *             type: string
+ *         mappingProfileId:
+ *           type: string
+ *         committedAt:
+ *           type: string
+ *           format: date-time
+ *         rolledBackAt:
+ *           type: string
+ *           format: date-time
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           description: When an uncommitted preview is discarded
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * Repository class for StatementImport data access operations.
+ *
+ * Implements the Repository pattern to:
+ * - Abstract database operations from business logic
+ * - Provide a clean interface for data persistence
+ * - Handle MongoDB-specific operations
+ * - Manage database indexes and optimization
+ */
+export class StatementImportRepository {
+  private collection: Collection<StatementImport> | null = null;
+
+  constructor() {
+
+  }
+
+  /**
+   * Ensures the collection is initialized before use.
+   * Implements lazy initialization pattern to avoid connection timing issues.
+   *
+   * @returns {Collection<StatementImport>} The statement imports collection
+   * @throws {Error} If database is not connected
+   */
+  private ensureCollection(): Collection<StatementImport> {
+    if (!this.collection) {
+      const db: Db = DatabaseConnection.getInstance().getDatabase();
+      this.collection = db.collection<StatementImport>('statementImports');
+    }
+    return this.collection;
+  }
+
+  /**
+   * Creates a new statement import in the database.
+   * Adds timestamps for audit trail.
+   *
+   * @param {Omit<StatementImport, '_id' | 'id'>} data - Parsed import data
+   * @returns {Promise<StatementImport>} The created import with generated ID
+   * @throws {Error} If creation fails
+   */
+  async createImport(
+    data: Omit<StatementImport, '_id' | 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<StatementImport> {
+    const collection = this.ensureCollection();
+    // Add timestamps for audit trail
+    const now = new Date();
+    const statementImport: Omit<StatementImport, '_id'> = {
+      ...data,
+      id: '',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const result: InsertOneResult<StatementImport> = await collection.insertOne(statementImport as StatementImport);
+
+    if (!result.insertedId) {
+      throw new Error('Failed to create statement import');
+    }
+
+    const created = await collection.findOne({ _id: result.insertedId });
+
+    if (!created) {
+      throw new Error('Failed to retrieve created statement import');
+    }
+
+    return created;
+  }
+
+  /**
+   * Finds a user's statement import by its MongoDB ObjectId.
+   *
+   * @param {string} id - The import ID (as string)
+   * @param {string} userId - The user who owns the import
+   * @returns {Promise<StatementImport | null>} The import or null if not found
+   */
+  async findImportById(id: string, userId: string): Promise<StatementImport | null> {
+    // Validate ObjectId format to prevent MongoDB errors
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const collection = this.ensureCollection();
+    return await collection.findOne({ _id: new ObjectId(id), userId });
+  }
+
+  /**
+   * Finds all statement imports for a user, newest first.
+   * Parsed rows are left out to keep listings small.
+   *
+   * @param {string} userId - The user ID
+   * @returns {Promise<StatementImport[]>} The user's imports
+   */
+  async findByUserId(userId: string): Promise<StatementImport[]> {
+    const collection = this.ensureCollection();
+    const imports = await collection
+      .find({ userId }, { projection: { rows: 0 } })
+      .sort({ createdAt: -1 })
+      .toArray();
+    return imports.map(statementImport => ({ ...statementImport, rows: statementImport.rows ?? [] }));
+  }
+
+  /**
+   * Updates an existing statement import with partial data.
+   * Automatically updates the updatedAt timestamp.
+   *
+   * @param {string} id - The import ID to update
+   * @param {Partial<StatementImport>} updateData - Fields to set
+   * @returns {Promise<boolean>} True if the import was found
+   */
+  async updateImport(id: string, updateData: Partial<StatementImport>): Promise<boolean> {
+    if (!ObjectId.isValid(id)) {
+      return false;
+    }
+
+    const collection = this.ensureCollection();
+    const result: UpdateResult = await collection.updateOne(
+      { _id: new ObjectId(id) },
+      { $set: { ...updateData, updatedAt: new Date() } }
+    );
+    return result.matchedCount === 1;
+  }
+
+  /**
+   * Moves an import from one status to another, only if it is still in `from`.
+   * The compare-and-set guard stops two requests from committing or rolling
+   * back the same import twice.
+   *
+   * @param {string} id - The import ID
+   * @param {StatementImportStatus} from - Status the import must currently have
+   * @param {StatementImportStatus} to - New status
+   * @param {Partial<StatementImport>} updateData - Other fields to set
+   * @param {Array<keyof StatementImport>} unsetFields - Fields to remove
+   * @returns {Promise<boolean>} True if the status was changed by this call
+   */
+  async transitionStatus(
+    id: string,
+    from: StatementImportStatus,
+    to: StatementImportStatus,
+    updateData: Partial<StatementImport> = {},
+    unsetFields: Array<keyof StatementImport> = []
+  ): Promise<boolean> {
+    if (!ObjectId.isValid(id)) {
+      return false;
+    }
+
+    const collection = this.ensureCollection();
+
+    const update: any = { $set: { ...updateData, status: to, updatedAt: new Date() } };
+    if (unsetFields.length > 0) {
+      update.$unset = Object.fromEntries(unsetFields.map(field => [field, '']));
+    }
+
+    const result: UpdateResult = await collection.updateOne({ _id: new ObjectId(id), status: from }, update);
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Creates database indexes for optimized queries.
+   * Should be called during application startup.
+   *
+   * Indexes:
+   * - userId + createdAt: For listing a user's imports
+   * - expiresAt: TTL, removes previews that were never committed
+   */
+  async createIndexes(): Promise<void> {
+    const collection = this.ensureCollection();
+
+    // Compound index for listing a user's imports, newest first
+    await collection.createIndex({ userId: 1, createdAt: -1 });
+
+    // TTL index; only previews have expiresAt
+    await collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  }
+}
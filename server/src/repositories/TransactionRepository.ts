@@ -1,6 +1,17 @@
 import { Collection, Db, ObjectId } from 'mongodb';
 import type { InsertOneResult, UpdateResult, DeleteResult } from 'mongodb';
-import type { Transaction, CreateTransactionRequest, UpdateTransactionRequest } from '../models/Transaction';
+import type { Filter, Sort } from 'mongodb';
+import type {
+  Transaction,
+  TransactionKind,
+  CreateTransactionRequest,
+  TransactionUpdate,
+  TransactionFilters,
+  TransactionCursor,
+  TransactionSortField
+} from '../models/Transaction';
+import { DEFAULT_CURRENCY } from '../models/ExchangeRate';
+import { buildConversionStages } from './ExchangeRateRepository';
 import DatabaseConnection from '../config/database';
 
 /**
@@ -51,12 +62,43 @@ import DatabaseConnection from '../config/database';
  *           example: "Credit Card"
  *         categoryId:
  *           type: string
- *           description: Category ID for this transaction (MongoDB ObjectId)
+ *           description: Category ID for this transaction (MongoDB ObjectId). For split transactions, the largest split's category.
  *           example: "507f1f77bcf86cd799439012"
+ *         kind:
+ *           type: string
+ *           enum: [income, expense, transfer]
+ *           description: Direction of money. Transactions saved before kinds existed are expenses.
+ *           example: "expense"
+ *         currency:
+ *           type: string
+ *           description: ISO 4217 currency of amount. Transactions saved before currencies existed are USD.
+ *           example: "EUR"
+ *         splits:
+ *           type: array
+ *           description: Optional split of the amount across categories. Line amounts add up to the transaction amount.
+ *           items:
+ *             $ref: '#/components/schemas/TransactionSplit'
+ *         participants:
+ *           type: array
+ *           description: People the cost was shared with. The user's own share is what their shares leave over.
+ *           items:
+ *             $ref: '#/components/schemas/TransactionParticipant'
+ *         paidBy:
+ *           type: string
+ *           description: Name of the participant who paid. Missing when the user paid.
+ *           example: "Sam"
  *         receiptId:
  *           type: string
  *           description: Optional receipt ID linked to this transaction (MongoDB ObjectId)
  *           example: "507f1f77bcf86cd799439013"
+ *         recurringId:
+ *           type: string
+ *           description: Recurring series that generated this transaction, if any
+ *           example: "507f1f77bcf86cd799439014"
+ *         importId:
+ *           type: string
+ *           description: Bank statement import that created this transaction, if any
+ *           example: "507f1f77bcf86cd799439015"
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -67,6 +109,41 @@ import DatabaseConnection from '../config/database';
  *           description: Timestamp when the transaction was last updated
  */
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TransactionSplit:
+ *       type: object
+ *       required:
+ *         - categoryId
+ *         - amount
+ *       properties:
+ *         categoryId:
+ *           type: string
+ *           example: "507f1f77bcf86cd799439012"
+ *         amount:
+ *           type: number
+ *           format: double
+ *           example: 42.10
+ *         note:
+ *           type: string
+ *           example: "Paper towels"
+ *     TransactionParticipant:
+ *       type: object
+ *       required:
+ *         - name
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: "Sam"
+ *         share:
+ *           type: number
+ *           format: double
+ *           description: Their part of the amount. When no participant has one, the amount is split evenly with the user.
+ *           example: 40
+ */
+
 /**
  * Repository class for Transaction data access operations.
  *
@@ -139,6 +216,42 @@ export class TransactionRepository {
       return createdTransaction;
     }
 
+    /**
+     * Creates several transactions in a single insert.
+     * Adds timestamps for audit trail.
+     *
+     * @param {CreateTransactionRequest[]} transactionsData - Validated transaction data
+     * @returns {Promise<Transaction[]>} The created transactions, in input order
+     * @throws {Error} If the insert fails
+     */
+    async createTransactions(transactionsData: CreateTransactionRequest[]): Promise<Transaction[]> {
+      if (transactionsData.length === 0) {
+        return [];
+      }
+
+      const collection = this.ensureCollection();
+      const now = new Date();
+
+      const transactions = transactionsData.map((transactionData) => ({
+        ...transactionData,
+        dateTime: typeof transactionData.dateTime === 'string'
+          ? new Date(transactionData.dateTime)
+          : transactionData.dateTime,
+        id: '',
+        createdAt: now,
+        updatedAt: now,
+      })) as Transaction[];
+
+      const result = await collection.insertMany(transactions);
+
+      if (result.insertedCount !== transactions.length) {
+        throw new Error('Failed to create transactions');
+      }
+
+      // insertMany sets _id on the inserted documents
+      return transactions;
+    }
+
     /**
        * Finds a transaction by its MongoDB ObjectId.
        *
@@ -168,6 +281,146 @@ export class TransactionRepository {
         return transactions;
       }
 
+      /**
+       * Finds one page of a user's transactions using keyset pagination.
+       * Results are ordered by the sort field with _id as a tie-breaker, so a
+       * cursor taken from the last item always resumes at the right position.
+       *
+       * @param {string} userId - The user ID
+       * @param {TransactionFilters} filters - Optional date, category, payment, vendor and amount filters
+       * @param {object} options - Page size, sort and optional cursor to resume after; the
+       *                          cursor's id must be a valid ObjectId
+       * @returns {Promise<{ transactions: Transaction[], hasMore: boolean }>} The page and whether more results exist
+       */
+      async findPageByUserId(
+        userId: string,
+        filters: TransactionFilters,
+        options: {
+          limit: number;
+          sortBy: TransactionSortField;
+          sortOrder: 'asc' | 'desc';
+          after?: TransactionCursor;
+        }
+      ): Promise<{ transactions: Transaction[]; hasMore: boolean }> {
+        const collection = this.ensureCollection();
+        const query = this.buildFilterQuery(userId, filters);
+        const direction = options.sortOrder === 'asc' ? 1 : -1;
+
+        // Resume strictly after the cursor position
+        if (options.after) {
+          const comparator = direction === 1 ? '$gt' : '$lt';
+          const afterId = new ObjectId(options.after.id);
+          query.$and = [
+            ...(query.$and || []),
+            {
+              $or: [
+                { [options.sortBy]: { [comparator]: options.after.value } },
+                { [options.sortBy]: options.after.value, _id: { [comparator]: afterId } },
+              ],
+            } as Filter<Transaction>,
+          ];
+        }
+
+        const sort: Sort = { [options.sortBy]: direction, _id: direction };
+
+        // Fetch one extra document to know whether another page exists
+        const transactions = await collection
+          .find(query)
+          .sort(sort)
+          .limit(options.limit + 1)
+          .toArray();
+
+        const hasMore = transactions.length > options.limit;
+        return { transactions: hasMore ? transactions.slice(0, options.limit) : transactions, hasMore };
+      }
+
+      /**
+       * Iterates over all of a user's transactions matching the filters without
+       * loading them into memory at once. Used for exports.
+       *
+       * @param {string} userId - The user ID
+       * @param {TransactionFilters} filters - Optional date, category, payment, vendor and amount filters
+       * @param {object} options - Sort field and order
+       * @returns {AsyncIterable<Transaction>} The matching transactions, in sort order
+       */
+      streamByUserId(
+        userId: string,
+        filters: TransactionFilters,
+        options: { sortBy: TransactionSortField; sortOrder: 'asc' | 'desc' }
+      ): AsyncIterable<Transaction> {
+        const collection = this.ensureCollection();
+        const direction = options.sortOrder === 'asc' ? 1 : -1;
+
+        return collection
+          .find(this.buildFilterQuery(userId, filters))
+          .sort({ [options.sortBy]: direction, _id: direction });
+      }
+
+      /**
+       * Builds the MongoDB filter for a user's transactions.
+       *
+       * @param {string} userId - The user ID
+       * @param {TransactionFilters} filters - Filters to apply
+       * @returns {Filter<Transaction>} MongoDB query document
+       * @private
+       */
+      private buildFilterQuery(userId: string, filters: TransactionFilters): Filter<Transaction> {
+        const query: Filter<Transaction> = { userId };
+
+        if (filters.startDate || filters.endDate) {
+          query.dateTime = {
+            ...(filters.startDate && { $gte: filters.startDate }),
+            ...(filters.endDate && { $lte: filters.endDate }),
+          };
+        }
+
+        if (filters.categoryIds && filters.categoryIds.length > 0) {
+          // Match split transactions that have a line in any of the categories too
+          query.$or = [
+            { categoryId: { $in: filters.categoryIds } },
+            { 'splits.categoryId': { $in: filters.categoryIds } },
+          ];
+        }
+
+        if (filters.paymentType) {
+          query.paymentType = filters.paymentType;
+        }
+
+        if (filters.kind) {
+          Object.assign(query, this.buildKindFilter(filters.kind));
+        }
+
+        if (filters.vendor) {
+          // Escape regex metacharacters so the vendor is matched literally
+          const escaped = filters.vendor.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+          query.vendorName = { $regex: escaped, $options: 'i' };
+        }
+
+        if (filters.minAmount !== undefined || filters.maxAmount !== undefined) {
+          query.amount = {
+            ...(filters.minAmount !== undefined && { $gte: filters.minAmount }),
+            ...(filters.maxAmount !== undefined && { $lte: filters.maxAmount }),
+          };
+        }
+
+        return query;
+      }
+
+      /**
+       * Builds the filter matching one transaction kind.
+       * Legacy documents without a kind are matched as expenses.
+       *
+       * @param {TransactionKind} kind - The kind to match
+       * @returns {Filter<Transaction>} MongoDB query fragment
+       * @private
+       */
+      private buildKindFilter(kind: TransactionKind): Filter<Transaction> {
+        if (kind === 'expense') {
+          return { kind: { $nin: ['income', 'transfer'] } };
+        }
+        return { kind };
+      }
+
       /**
        * Finds all transactions for a specific category.
        *
@@ -176,7 +429,10 @@ export class TransactionRepository {
        */
       async findByCategoryId(categoryId: string): Promise<Transaction[]> {
         const collection = this.ensureCollection();
-        const transactions = await collection.find({ categoryId }).sort({ dateTime: -1 }).toArray();
+        const transactions = await collection
+          .find({ $or: [{ categoryId }, { 'splits.categoryId': categoryId }] })
+          .sort({ dateTime: -1 })
+          .toArray();
         return transactions;
       }
 
@@ -192,6 +448,29 @@ export class TransactionRepository {
         return transactions;
       }
 
+      /**
+       * Finds the transaction materialized for a recurring series occurrence.
+       *
+       * @param {string} recurringId - The recurring transaction ID
+       * @param {Date} occurrence - The occurrence date (stored as dateTime)
+       * @returns {Promise<Transaction | null>} The transaction or null if not yet materialized
+       */
+      async findByRecurringOccurrence(recurringId: string, occurrence: Date): Promise<Transaction | null> {
+        const collection = this.ensureCollection();
+        return await collection.findOne({ recurringId, dateTime: occurrence });
+      }
+
+      /**
+       * Finds all transactions created by a statement import.
+       *
+       * @param {string} importId - The statement import ID
+       * @returns {Promise<Transaction[]>} Array of transactions from the import
+       */
+      async findByImportId(importId: string): Promise<Transaction[]> {
+        const collection = this.ensureCollection();
+        return await collection.find({ importId }).toArray();
+      }
+
       /**
          * Retrieves all transactions from the database.
          *
@@ -203,15 +482,49 @@ export class TransactionRepository {
           return transactions;
         }
 
+        /**
+         * Counts transactions per user and finds each user's latest one, for
+         * admin usage stats.
+         *
+         * @param {string[]} userIds - Optional users to restrict the summary to
+         * @returns {Promise<Map>} Count and latest transaction date per user ID; users with none are absent
+         */
+        async summarizeByUser(userIds?: string[]): Promise<Map<string, { count: number; lastDateTime: Date }>> {
+          const collection = this.ensureCollection();
+          const result = await collection.aggregate<{ _id: string; count: number; lastDateTime: Date }>([
+            ...(userIds ? [{ $match: { userId: { $in: userIds } } }] : []),
+            { $group: { _id: '$userId', count: { $sum: 1 }, lastDateTime: { $max: '$dateTime' } } }
+          ]).toArray();
+
+          return new Map(result.map(row => [row._id, { count: row.count, lastDateTime: row.lastDateTime }]));
+        }
+
+        /**
+         * Lists the currencies a user's transactions are in. Transactions saved
+         * without one count as the default currency.
+         *
+         * @param {string} userId - The user ID
+         * @returns {Promise<string[]>} Distinct currency codes
+         */
+        async findCurrenciesByUserId(userId: string): Promise<string[]> {
+          const collection = this.ensureCollection();
+          const result = await collection.aggregate<{ _id: string }>([
+            { $match: { userId } },
+            { $group: { _id: { $ifNull: ['$currency', DEFAULT_CURRENCY] } } }
+          ]).toArray();
+
+          return result.map(row => row._id);
+        }
+
         /**
            * Updates an existing transaction with partial data.
            * Automatically updates the updatedAt timestamp.
            *
            * @param {string} id - The transaction ID to update
-           * @param {UpdateTransactionRequest} updateData - Partial transaction data to update
+           * @param {TransactionUpdate} updateData - Partial transaction data to update
            * @returns {Promise<Transaction | null>} Updated transaction or null if not found
            */
-          async updateTransaction(id: string, updateData: Partial<UpdateTransactionRequest>): Promise<Transaction | null> {
+          async updateTransaction(id: string, updateData: TransactionUpdate): Promise<Transaction | null> {
             if (!ObjectId.isValid(id)) {
               return null;
             }
@@ -230,9 +543,18 @@ export class TransactionRepository {
                 : updateData.dateTime;
             }
 
+            // null removes the split, the participants, the even-split flag or the payer entirely
+            const update: any = { $set: updatePayload };
+            for (const field of ['splits', 'participants', 'splitEvenly', 'paidBy'] as const) {
+              if (updateData[field] === null) {
+                delete updatePayload[field];
+                update.$unset = { ...update.$unset, [field]: '' };
+              }
+            }
+
             const result: UpdateResult = await collection.updateOne(
               { _id: new ObjectId(id) },
-              { $set: updatePayload }
+              update
             );
 
             if (result.matchedCount === 0) {
@@ -258,6 +580,18 @@ export class TransactionRepository {
             return result.deletedCount === 1;
         }
 
+        /**
+         * Deletes all transactions created by a statement import.
+         *
+         * @param {string} importId - The statement import ID
+         * @returns {Promise<number>} Number of transactions deleted
+         */
+        async deleteByImportId(importId: string): Promise<number> {
+            const collection = this.ensureCollection();
+            const result: DeleteResult = await collection.deleteMany({ importId });
+            return result.deletedCount;
+        }
+
         /**
          * Finds all transactions for a specific user within a date range.
          * Used for spending history analysis.
@@ -279,16 +613,43 @@ export class TransactionRepository {
             return transactions;
         }
 
+        /**
+         * Finds a user's transactions shared with other people.
+         *
+         * @param {string} userId - The user ID
+         * @returns {Promise<Transaction[]>} Transactions with participants, oldest first
+         */
+        async findWithParticipants(userId: string): Promise<Transaction[]> {
+            const collection = this.ensureCollection();
+            return await collection
+                .find({ userId, 'participants.0': { $exists: true } })
+                .sort({ dateTime: 1 })
+                .toArray();
+        }
+
         /**
          * Aggregates spending by category for a specific user within a date range.
          * Returns total amount and transaction count per category.
+         * Split transactions contribute each line's amount to that line's category,
+         * and count once in every category they touch.
+         * Only expenses are included unless another kind is requested.
+         * Amounts are converted into the home currency using the rate for each
+         * transaction's date.
          *
          * @param {string} userId - The user ID
          * @param {Date} startDate - Start of date range (inclusive)
          * @param {Date} endDate - End of date range (inclusive)
+         * @param {TransactionKind} kind - Kind of transactions to aggregate (default expense)
+         * @param {string} homeCurrency - Currency to report totals in
          * @returns {Promise<Array>} Array of aggregated spending data per category
          */
-        async aggregateByCategory(userId: string, startDate: Date, endDate: Date): Promise<Array<{
+        async aggregateByCategory(
+            userId: string,
+            startDate: Date,
+            endDate: Date,
+            kind: TransactionKind = 'expense',
+            homeCurrency: string = DEFAULT_CURRENCY
+        ): Promise<Array<{
             categoryId: string;
             totalAmount: number;
             transactionCount: number;
@@ -303,15 +664,40 @@ export class TransactionRepository {
                         dateTime: {
                             $gte: startDate,
                             $lte: endDate
+                        },
+                        ...this.buildKindFilter(kind)
+                    }
+                },
+                // Attach the factor converting each amount into the home currency
+                ...buildConversionStages(homeCurrency),
+                // One line per category: the split lines, or the whole amount
+                {
+                    $project: {
+                        lines: {
+                            $map: {
+                                input: {
+                                    $cond: [
+                                        { $gt: [{ $size: { $ifNull: ['$splits', []] } }, 0] },
+                                        '$splits',
+                                        [{ categoryId: '$categoryId', amount: '$amount' }]
+                                    ]
+                                },
+                                as: 'line',
+                                in: {
+                                    categoryId: '$$line.categoryId',
+                                    amount: { $multiply: ['$$line.amount', '$fxRate'] }
+                                }
+                            }
                         }
                     }
                 },
+                { $unwind: '$lines' },
                 // Group by category and calculate totals
                 {
                     $group: {
-                        _id: '$categoryId',
-                        totalAmount: { $sum: '$amount' },
-                        transactionCount: { $count: {} }
+                        _id: '$lines.categoryId',
+                        totalAmount: { $sum: '$lines.amount' },
+                        transactionIds: { $addToSet: '$_id' }
                     }
                 },
                 // Reshape the output
@@ -319,8 +705,8 @@ export class TransactionRepository {
                     $project: {
                         _id: 0,
                         categoryId: '$_id',
-                        totalAmount: 1,
-                        transactionCount: 1
+                        totalAmount: { $round: ['$totalAmount', 2] },
+                        transactionCount: { $size: '$transactionIds' }
                     }
                 },
                 // Sort by total amount descending
@@ -336,22 +722,141 @@ export class TransactionRepository {
             }>;
         }
 
+        /**
+         * Aggregates several users' expenses in a set of categories within a
+         * date range, per user and category. Used for household reports, where
+         * the users are the members and the categories are the shared ones.
+         * Split lines count towards their own category, like aggregateByCategory.
+         *
+         * @param {string[]} userIds - The users whose transactions count
+         * @param {string[]} categoryIds - The categories to include
+         * @param {Date} startDate - Start of date range (inclusive)
+         * @param {Date} endDate - End of date range (inclusive)
+         * @param {string} currency - Currency to report totals in
+         * @returns {Promise<Array>} Totals per user and category
+         */
+        async aggregateHouseholdSpending(
+            userIds: string[],
+            categoryIds: string[],
+            startDate: Date,
+            endDate: Date,
+            currency: string = DEFAULT_CURRENCY
+        ): Promise<Array<{
+            userId: string;
+            categoryId: string;
+            totalAmount: number;
+            transactionCount: number;
+        }>> {
+            if (userIds.length === 0 || categoryIds.length === 0) {
+                return [];
+            }
+
+            const collection = this.ensureCollection();
+
+            const result = await collection.aggregate([
+                {
+                    $match: {
+                        userId: { $in: userIds },
+                        dateTime: {
+                            $gte: startDate,
+                            $lte: endDate
+                        },
+                        $or: [
+                            { categoryId: { $in: categoryIds } },
+                            { 'splits.categoryId': { $in: categoryIds } }
+                        ],
+                        ...this.buildKindFilter('expense')
+                    }
+                },
+                // Attach the factor converting each amount into the report currency
+                ...buildConversionStages(currency),
+                // One line per category: the split lines, or the whole amount
+                {
+                    $project: {
+                        userId: 1,
+                        lines: {
+                            $map: {
+                                input: {
+                                    $cond: [
+                                        { $gt: [{ $size: { $ifNull: ['$splits', []] } }, 0] },
+                                        '$splits',
+                                        [{ categoryId: '$categoryId', amount: '$amount' }]
+                                    ]
+                                },
+                                as: 'line',
+                                in: {
+                                    categoryId: '$$line.categoryId',
+                                    amount: { $multiply: ['$$line.amount', '$fxRate'] }
+                                }
+                            }
+                        }
+                    }
+                },
+                { $unwind: '$lines' },
+                // Split lines in personal categories don't count
+                { $match: { 'lines.categoryId': { $in: categoryIds } } },
+                {
+                    $group: {
+                        _id: { userId: '$userId', categoryId: '$lines.categoryId' },
+                        totalAmount: { $sum: '$lines.amount' },
+                        transactionIds: { $addToSet: '$_id' }
+                    }
+                },
+                {
+                    $project: {
+                        _id: 0,
+                        userId: '$_id.userId',
+                        categoryId: '$_id.categoryId',
+                        totalAmount: { $round: ['$totalAmount', 2] },
+                        transactionCount: { $size: '$transactionIds' }
+                    }
+                },
+                {
+                    $sort: { totalAmount: -1 }
+                }
+            ]).toArray();
+
+            return result as Array<{
+                userId: string;
+                categoryId: string;
+                totalAmount: number;
+                transactionCount: number;
+            }>;
+        }
+
         /**
          * Aggregates spending by month for a specific user within a date range.
          * Returns monthly totals sorted chronologically (oldest to newest).
+         * totalAmount and transactionCount cover expenses only; income is
+         * reported separately and transfers are left out of both.
+         * Amounts are converted into the home currency using the rate for each
+         * transaction's date.
          *
          * @param {string} userId - The user ID
          * @param {Date} startDate - Start of date range (inclusive)
          * @param {Date} endDate - End of date range (inclusive)
+         * @param {string} homeCurrency - Currency to report totals in
          * @returns {Promise<Array>} Array of monthly spending data
          */
-        async aggregateByMonth(userId: string, startDate: Date, endDate: Date): Promise<Array<{
+        async aggregateByMonth(
+            userId: string,
+            startDate: Date,
+            endDate: Date,
+            homeCurrency: string = DEFAULT_CURRENCY
+        ): Promise<Array<{
             year: number;
             month: number;
             totalAmount: number;
             transactionCount: number;
+            totalIncome: number;
+            incomeCount: number;
         }>> {
             const collection = this.ensureCollection();
+            // Legacy documents without a kind count as expenses
+            const kind = { $ifNull: ['$kind', 'expense'] };
+            const isExpense = { $eq: [kind, 'expense'] };
+            const isIncome = { $eq: [kind, 'income'] };
+            const amount = { $multiply: ['$amount', '$fxRate'] };
 
             const result = await collection.aggregate([
                 // Match transactions for the user within date range
@@ -364,6 +869,8 @@ export class TransactionRepository {
                         }
                     }
                 },
+                // Attach the factor converting each amount into the home currency
+                ...buildConversionStages(homeCurrency),
                 // Group by year and month
                 {
                     $group: {
@@ -371,8 +878,10 @@ export class TransactionRepository {
                             year: { $year: '$dateTime' },
                             month: { $month: '$dateTime' }
                         },
-                        totalAmount: { $sum: '$amount' },
-                        transactionCount: { $count: {} }
+                        totalAmount: { $sum: { $cond: [isExpense, amount, 0] } },
+                        transactionCount: { $sum: { $cond: [isExpense, 1, 0] } },
+                        totalIncome: { $sum: { $cond: [isIncome, amount, 0] } },
+                        incomeCount: { $sum: { $cond: [isIncome, 1, 0] } }
                     }
                 },
                 // Reshape the output
@@ -381,8 +890,10 @@ export class TransactionRepository {
                         _id: 0,
                         year: '$_id.year',
                         month: '$_id.month',
-                        totalAmount: 1,
-                        transactionCount: 1
+                        totalAmount: { $round: ['$totalAmount', 2] },
+                        transactionCount: 1,
+                        totalIncome: { $round: ['$totalIncome', 2] },
+                        incomeCount: 1
                     }
                 },
                 // Sort by year and month ascending (chronological order)
@@ -396,6 +907,71 @@ export class TransactionRepository {
                 month: number;
                 totalAmount: number;
                 transactionCount: number;
+                totalIncome: number;
+                incomeCount: number;
+            }>;
+        }
+
+        /**
+         * Aggregates totals per transaction kind for a user within a date range.
+         * Used for cash-flow reporting (income vs expenses vs transfers).
+         * Amounts are converted into the home currency using the rate for each
+         * transaction's date.
+         *
+         * @param {string} userId - The user ID
+         * @param {Date} startDate - Start of date range (inclusive)
+         * @param {Date} endDate - End of date range (inclusive)
+         * @param {string} homeCurrency - Currency to report totals in
+         * @returns {Promise<Array>} One entry per kind present in the range
+         */
+        async aggregateByKind(
+            userId: string,
+            startDate: Date,
+            endDate: Date,
+            homeCurrency: string = DEFAULT_CURRENCY
+        ): Promise<Array<{
+            kind: TransactionKind;
+            totalAmount: number;
+            transactionCount: number;
+        }>> {
+            const collection = this.ensureCollection();
+
+            const result = await collection.aggregate([
+                // Match transactions for the user within date range
+                {
+                    $match: {
+                        userId,
+                        dateTime: {
+                            $gte: startDate,
+                            $lte: endDate
+                        }
+                    }
+                },
+                // Attach the factor converting each amount into the home currency
+                ...buildConversionStages(homeCurrency),
+                // Group by kind, counting legacy documents as expenses
+                {
+                    $group: {
+                        _id: { $ifNull: ['$kind', 'expense'] },
+                        totalAmount: { $sum: { $multiply: ['$amount', '$fxRate'] } },
+                        transactionCount: { $count: {} }
+                    }
+                },
+                // Reshape the output
+                {
+                    $project: {
+                        _id: 0,
+                        kind: '$_id',
+                        totalAmount: { $round: ['$totalAmount', 2] },
+                        transactionCount: 1
+                    }
+                }
+            ]).toArray();
+
+            return result as Array<{
+                kind: TransactionKind;
+                totalAmount: number;
+                transactionCount: number;
             }>;
         }
 
@@ -409,6 +985,13 @@ export class TransactionRepository {
          * - dateTime: For date-based queries and sorting
          * - receiptId: For receipt-specific queries
          * - userId + dateTime: Compound index for spending history queries
+         * - userId + categoryId + dateTime: For category-filtered listing
+         * - userId + splits.categoryId: For category filters matching split lines
+         * - userId + amount: For amount filters and sorting
+         * - userId + vendorName: For vendor sorting
+         * - userId + createdAt: For sorting by entry time
+         * - recurringId + dateTime: Unique, one transaction per recurring occurrence
+         * - importId: For rolling back a statement import
          */
         async createIndexes(): Promise<void> {
             const collection = this.ensureCollection();
@@ -427,10 +1010,45 @@ export class TransactionRepository {
 
             // Compound index on userId and dateTime for spending history queries
             await collection.createIndex({ userId: 1, dateTime: -1 });
+
+            // Compound indexes backing the paginated listing filters and sort fields
+            await collection.createIndex({ userId: 1, categoryId: 1, dateTime: -1 });
+            await collection.createIndex({ userId: 1, 'splits.categoryId': 1 });
+            await collection.createIndex({ userId: 1, amount: -1 });
+            await collection.createIndex({ userId: 1, vendorName: 1 });
+            await collection.createIndex({ userId: 1, createdAt: -1 });
+
+            // Unique index so a recurring occurrence can only be materialized once
+            await collection.createIndex(
+              { recurringId: 1, dateTime: 1 },
+              { unique: true, partialFilterExpression: { recurringId: { $exists: true } } }
+            );
+
+            // Index on importId for rolling back statement imports
+            await collection.createIndex(
+              { importId: 1 },
+              { partialFilterExpression: { importId: { $exists: true } } }
+            );
         }
 
+    /**
+     * Points a user's transactions at a receipt's new ID.
+     * Used when receipts are migrated to a store that issues different IDs.
+     *
+     * @param userId - user id
+     * @param fromReceiptId - old receipt id to replace
+     * @param toReceiptId - new receipt id to set
+     * @returns number of transactions relinked
+     */
+    async updateReceiptIdForUser(userId: string, fromReceiptId: string, toReceiptId: string): Promise<number> {
+      const collection = this.ensureCollection();
+      const res = await collection.updateMany({ userId, receiptId: fromReceiptId }, { $set: { receiptId: toReceiptId, updatedAt: new Date() } });
+      return res.modifiedCount || 0;
+    }
+
     /**
      * Update all transactions for a user that reference a specific categoryId to a new categoryId.
+     * Split lines referencing the category are moved as well.
      * Used when merging duplicate categories.
      *
      * @param userId - user id
@@ -440,6 +1058,11 @@ export class TransactionRepository {
     async updateCategoryIdForUser(userId: string, fromCategoryId: string, toCategoryId: string): Promise<number> {
       const collection = this.ensureCollection();
       const res = await collection.updateMany({ userId, categoryId: fromCategoryId }, { $set: { categoryId: toCategoryId, updatedAt: new Date() } });
+      await collection.updateMany(
+        { userId, 'splits.categoryId': fromCategoryId },
+        { $set: { 'splits.$[line].categoryId': toCategoryId, updatedAt: new Date() } },
+        { arrayFilters: [{ 'line.categoryId': fromCategoryId }] }
+      );
       return res.modifiedCount || 0;
     }
 
@@ -0,0 +1,484 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { AdminService } from '../services/AdminService';
+import { AdminValidationError } from '../models/Admin';
+import { authenticateToken, requireRole } from '../middleware/auth.middleware';
+
+const router = Router();
+
+const adminService = new AdminService();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AdminUser:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "507f1f77bcf86cd799439011"
+ *         firebaseUid:
+ *           type: string
+ *         firstName:
+ *           type: string
+ *         lastName:
+ *           type: string
+ *         email:
+ *           type: string
+ *         phoneNumber:
+ *           type: string
+ *         homeCurrency:
+ *           type: string
+ *           example: "USD"
+ *         disabled:
+ *           type: boolean
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     UserUsageStats:
+ *       type: object
+ *       properties:
+ *         userId:
+ *           type: string
+ *         transactions:
+ *           type: integer
+ *         budgets:
+ *           type: integer
+ *         categories:
+ *           type: integer
+ *         recurringTransactions:
+ *           type: integer
+ *         lastTransactionAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *     AdminUserDetail:
+ *       allOf:
+ *         - $ref: '#/components/schemas/AdminUser'
+ *         - type: object
+ *           properties:
+ *             roles:
+ *               type: array
+ *               items:
+ *                 type: string
+ *                 enum: [admin]
+ *             lastSignInAt:
+ *               type: string
+ *               format: date-time
+ *               nullable: true
+ *             usage:
+ *               $ref: '#/components/schemas/UserUsageStats'
+ *     BudgetConflict:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "507f1f77bcf86cd799439011"
+ *         budgetId:
+ *           type: string
+ *           description: ID the budget had, kept when it is restored
+ *         userId:
+ *           type: string
+ *         reason:
+ *           type: string
+ *           enum: [unreadable_month, duplicate]
+ *           description: |
+ *             unreadable_month - the budget's month name couldn't be read;
+ *             duplicate - another budget covers the same user, month, year and category
+ *         month:
+ *           type: integer
+ *           nullable: true
+ *           description: Month the budget converts to, when it could be read
+ *         conflictingBudgetId:
+ *           type: string
+ *           nullable: true
+ *           description: Budget kept in its place, for duplicates
+ *         budget:
+ *           type: object
+ *           description: The budget as it was saved
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * Shared error handler for admin routes.
+ * Validation errors map to 400 (409 for conflicts), everything else to 500.
+ */
+function handleError(res: Response, error: unknown, context: string) {
+  console.error(`Error ${context}:`, error);
+
+  if (error instanceof AdminValidationError && error.message.includes('already exists')) {
+    return res.status(409).json({
+      error: error.message,
+      field: error.field
+    });
+  }
+
+  if (error instanceof AdminValidationError) {
+    return res.status(400).json({
+      error: error.message,
+      field: error.field
+    });
+  }
+
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+/**
+ * @swagger
+ * /api/v1/admin/users:
+ *   get:
+ *     summary: List users
+ *     description: Requires the admin role. Oldest accounts first.
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: email
+ *         schema:
+ *           type: string
+ *         description: Only the user with this email address
+ *       - in: query
+ *         name: disabled
+ *         schema:
+ *           type: string
+ *           enum: ["true", "false"]
+ *         description: Only disabled (true) or only active (false) users
+ *     responses:
+ *       200:
+ *         description: Matching users
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AdminUser'
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get("/users", authenticateToken, requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const users = await adminService.getUsers(req.query);
+    res.json(users);
+  } catch (error) {
+    handleError(res, error, 'listing users');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/users/{id}:
+ *   get:
+ *     summary: Look up a user
+ *     description: Requires the admin role. Includes the Firebase account state, roles and usage.
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User (profile) ID
+ *     responses:
+ *       200:
+ *         description: The user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AdminUserDetail'
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: User not found
+ *   patch:
+ *     summary: Disable or enable a user, or change their roles
+ *     description: |
+ *       Requires the admin role. Disabling an account revokes its tokens, so
+ *       requests with ones already issued are rejected at once. Added roles
+ *       apply when the user's token is next refreshed; removing a role also
+ *       revokes the user's tokens, so they have to sign in again.
+ *       Administrators can't disable themselves or remove their own admin role.
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               disabled:
+ *                 type: boolean
+ *               roles:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [admin]
+ *                 description: Replaces the user's roles; empty for a regular user
+ *     responses:
+ *       200:
+ *         description: The updated user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AdminUserDetail'
+ *       400:
+ *         description: Invalid data, or an administrator changing their own access
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: User not found
+ */
+router.get("/users/:id", authenticateToken, requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const user = await adminService.getUser(req.params.id);
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    res.json(user);
+  } catch (error) {
+    handleError(res, error, 'looking up user');
+  }
+});
+
+router.patch("/users/:id", authenticateToken, requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const user = await adminService.updateUser(req.params.id, req.body, req.user?.userId);
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    res.json(user);
+  } catch (error) {
+    handleError(res, error, 'updating user');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/usage:
+ *   get:
+ *     summary: Usage stats per user
+ *     description: Requires the admin role. Users with the most transactions first.
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: One entry per user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/UserUsageStats'
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get("/usage", authenticateToken, requireRole('admin'), async (_req: Request, res: Response) => {
+  try {
+    const stats = await adminService.getUsageStats();
+    res.json(stats);
+  } catch (error) {
+    handleError(res, error, 'fetching usage stats');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/budget-conflicts:
+ *   get:
+ *     summary: List budgets set aside by the startup migration
+ *     description: |
+ *       Requires the admin role. Budgets whose month name couldn't be read, or
+ *       that duplicated another budget for the same month and category, are
+ *       taken out of the budgets collection at startup and listed here until
+ *       they are restored or discarded. Oldest first.
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Budgets waiting to be resolved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/BudgetConflict'
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get("/budget-conflicts", authenticateToken, requireRole('admin'), async (_req: Request, res: Response) => {
+  try {
+    const conflicts = await adminService.getBudgetConflicts();
+    res.json(conflicts);
+  } catch (error) {
+    handleError(res, error, 'listing budget conflicts');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/budget-conflicts/{id}/restore:
+ *   post:
+ *     summary: Put a set-aside budget back
+ *     description: |
+ *       Requires the admin role. The budget keeps its ID and is restored in the
+ *       month it converts to, or the one given (required when its month name
+ *       couldn't be read).
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Budget conflict ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               month:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 12
+ *               replace:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Delete a budget that already covers the month instead of failing
+ *     responses:
+ *       200:
+ *         description: The restored budget
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Budget'
+ *       400:
+ *         description: Invalid data, or no month known for the budget
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: Budget conflict not found
+ *       409:
+ *         description: A budget for that month already exists
+ */
+router.post("/budget-conflicts/:id/restore", authenticateToken, requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const budget = await adminService.restoreBudgetConflict(req.params.id, req.body);
+
+    if (!budget) {
+      return res.status(404).json({ error: "Budget conflict not found" });
+    }
+
+    res.json(budget);
+  } catch (error) {
+    handleError(res, error, 'restoring budget');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/budget-conflicts/{id}:
+ *   delete:
+ *     summary: Discard a set-aside budget
+ *     description: Requires the admin role. The budget is deleted for good.
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Budget conflict ID
+ *     responses:
+ *       204:
+ *         description: Budget discarded
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: Budget conflict not found
+ */
+router.delete("/budget-conflicts/:id", authenticateToken, requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const discarded = await adminService.discardBudgetConflict(req.params.id);
+
+    if (!discarded) {
+      return res.status(404).json({ error: "Budget conflict not found" });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    handleError(res, error, 'discarding budget');
+  }
+});
+
+export default router;
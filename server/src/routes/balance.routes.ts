@@ -0,0 +1,245 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { BalanceService } from '../services/BalanceService';
+import { SettlementValidationError } from '../models/Settlement';
+import { authenticateToken, requireSameUser } from '../middleware/auth.middleware';
+
+const router = Router({ mergeParams: true });
+
+const balanceService = new BalanceService();
+
+/**
+ * Shared error handler for balance routes.
+ * Validation errors map to 400, everything else to 500.
+ */
+function handleError(res: Response, error: unknown, context: string) {
+  console.error(`Error ${context}:`, error);
+
+  if (error instanceof SettlementValidationError) {
+    return res.status(400).json({
+      error: error.message,
+      field: error.field
+    });
+  }
+
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/balances:
+ *   get:
+ *     summary: Who owes whom
+ *     description: |
+ *       Balances with everyone the user has shared transactions with, in the
+ *       user's home currency. When the user paid, each participant owes their
+ *       share; when a participant paid, the user owes them the user's own share.
+ *       Settlements count towards the balance. Settled people are left out.
+ *     tags: [Balances]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *     responses:
+ *       200:
+ *         description: Balances, largest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 currency:
+ *                   type: string
+ *                   example: "USD"
+ *                 owedToYou:
+ *                   type: number
+ *                   example: 40
+ *                 youOwe:
+ *                   type: number
+ *                   example: 12.5
+ *                 people:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PersonBalance'
+ *       401:
+ *         description: Unauthorized - Missing token, invalid token, or userId mismatch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.get("/", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const balances = await balanceService.getBalances(req.params.userId);
+    res.json(balances);
+  } catch (error) {
+    handleError(res, error, 'fetching balances');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/balances/settlements:
+ *   get:
+ *     summary: List settlements
+ *     tags: [Balances]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Settlements, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Settlement'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.get("/settlements", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const settlements = await balanceService.getSettlements(req.params.userId);
+    res.json(settlements);
+  } catch (error) {
+    handleError(res, error, 'fetching settlements');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/balances/settlements:
+ *   post:
+ *     summary: Record a settlement
+ *     description: |
+ *       Records money changing hands with someone. Leave out amount to settle the
+ *       whole balance with them, and direction to use the one that reduces it.
+ *     tags: [Balances]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Sam"
+ *               amount:
+ *                 type: number
+ *                 example: 40
+ *               currency:
+ *                 type: string
+ *                 description: Currency of amount; defaults to the home currency
+ *               direction:
+ *                 type: string
+ *                 enum: [received, paid]
+ *               date:
+ *                 type: string
+ *                 format: date-time
+ *               note:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Settlement recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Settlement'
+ *       400:
+ *         description: Validation error, or nothing to settle
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.post("/settlements", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const settlement = await balanceService.createSettlement(req.params.userId, req.body);
+    res.status(201).json(settlement);
+  } catch (error) {
+    handleError(res, error, 'recording settlement');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/balances/settlements/{id}:
+ *   delete:
+ *     summary: Delete a settlement
+ *     description: The settled amount goes back on the balance.
+ *     tags: [Balances]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Settlement deleted
+ *       404:
+ *         description: Settlement not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.delete("/settlements/:id", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const deleted = await balanceService.deleteSettlement(req.params.userId, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({ error: "Settlement not found" });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    handleError(res, error, 'deleting settlement');
+  }
+});
+
+export default router;
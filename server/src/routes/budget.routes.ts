@@ -64,6 +64,209 @@ router.get("/", authenticateToken, requireSameUser('userId'), async (req: Reques
   }
 });
 
+/**
+ * @swagger
+ * /api/v1/users/{userId}/budgets/status:
+ *   get:
+ *     summary: Get spending against each budget for a month
+ *     description: |
+ *       Computes spent and remaining for the overall budget and each category budget from the month's
+ *       expense transactions. Budgets with rollover enabled carry their unspent (or overspent) amount into
+ *       the next month's budget for the same category, so available = amount + rolledOver.
+ *       Spending in categories without a budget is listed under unbudgeted, in the home currency.
+ *     tags: [Budgets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: query
+ *         name: month
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 12
+ *         description: Month number (1-12). Defaults to the budget month containing today.
+ *         example: 3
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *         description: Year. Defaults to the current year.
+ *         example: 2025
+ *     responses:
+ *       200:
+ *         description: Budget status for the month
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BudgetStatus'
+ *       400:
+ *         description: Invalid month or year
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - Missing token, invalid token, or userId mismatch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.get("/status", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const status = await budgetService.getBudgetStatus(req.params.userId, req.query);
+    res.json(status);
+  } catch (error) {
+    console.error('Error fetching budget status:', error);
+
+    if (error instanceof BudgetValidationError) {
+      return res.status(400).json({ error: error.message, field: error.field });
+    }
+
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/budgets/history:
+ *   get:
+ *     summary: Get budget versus actual spending for past months
+ *     description: |
+ *       Returns every month that has a budget, oldest first, with the month's expense spending and the
+ *       variance (budgeted - spent). Amounts are in the home currency. Months without an overall budget
+ *       are measured against the sum of their category budgets.
+ *     tags: [Budgets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *         description: Only include budgets of this year
+ *         example: 2025
+ *     responses:
+ *       200:
+ *         description: Budget history
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BudgetHistory'
+ *       400:
+ *         description: Invalid year
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - Missing token, invalid token, or userId mismatch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.get("/history", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const history = await budgetService.getBudgetHistory(req.params.userId, req.query);
+    res.json(history);
+  } catch (error) {
+    console.error('Error fetching budget history:', error);
+
+    if (error instanceof BudgetValidationError) {
+      return res.status(400).json({ error: error.message, field: error.field });
+    }
+
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/budgets/copy-forward:
+ *   post:
+ *     summary: Copy last month's budgets into a month
+ *     description: |
+ *       Clones every budget (overall and per category) of the month before the given month, keeping
+ *       amount, currency and rollover. Budgets that already exist in the target month are skipped.
+ *     tags: [Budgets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [month, year]
+ *             properties:
+ *               month:
+ *                 type: integer
+ *                 description: Target month (1-12)
+ *                 example: 4
+ *               year:
+ *                 type: integer
+ *                 example: 2025
+ *     responses:
+ *       201:
+ *         description: Budgets copied
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 month:
+ *                   type: integer
+ *                 year:
+ *                   type: integer
+ *                 created:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Budget'
+ *                 skipped:
+ *                   type: integer
+ *                   description: Budgets already present in the target month
+ *       400:
+ *         description: Invalid month or year, or no budgets in the previous month
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post("/copy-forward", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const result = await budgetService.copyBudgetsForward(req.params.userId, req.body);
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Error copying budgets forward:', error);
+
+    if (error instanceof BudgetValidationError) {
+      return res.status(400).json({ error: error.message, field: error.field });
+    }
+
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * @swagger
  * /api/v1/users/{userId}/budgets/{id}:
@@ -109,9 +312,9 @@ router.get("/", authenticateToken, requireSameUser('userId'), async (req: Reques
 router.get("/:id", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
   try {
     // Extract ID from URL parameter
-    const budget = await budgetService.getBudgetById(req.params.id);
+    const budget = await budgetService.getBudgetById(req.params.userId, req.params.id);
 
-    // Check if budget exists
+    // Check if budget exists (budgets of other users look the same as missing ones)
     if (!budget) {
       return res.status(404).json({ error: "Budget not found" });
     }
@@ -161,11 +364,19 @@ router.get("/:id", authenticateToken, requireSameUser('userId'), async (req: Req
  *                 type: string
  *                 example: "68df4cd8f4c53b419fc5f196"
  *               month:
- *                 type: string
- *                 example: "January"
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 12
+ *                 example: 1
  *               year:
  *                 type: number
  *                 example: 2025
+ *               periodStartDay:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 28
+ *                 description: Day of the month the budget period starts. Defaults to 1.
+ *                 example: 15
  *               amount:
  *                 type: number
  *                 format: double
@@ -174,9 +385,22 @@ router.get("/:id", authenticateToken, requireSameUser('userId'), async (req: Req
  *                 type: number
  *                 format: double
  *                 example: 1000.00
+ *               currency:
+ *                 type: string
+ *                 description: ISO 4217 code; defaults to the user's home currency
+ *                 example: "USD"
  *               categoryId:
  *                 type: string
  *                 example: "507f1f77bcf86cd799439012"
+ *               rollover:
+ *                 type: boolean
+ *                 example: false
+ *               alertThresholds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 description: Percent-used levels that send a notification (default 50, 80 and 100)
+ *                 example: [50, 80, 100]
  *     responses:
  *       201:
  *         description: Budget created successfully
@@ -251,22 +475,38 @@ router.post("/", authenticateToken, requireSameUser('userId'), async (req: Reque
  *             type: object
  *             properties:
  *               month:
- *                 type: string
- *                 example: "January"
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 12
+ *                 example: 1
  *               year:
  *                 type: number
  *                 example: 2025
+ *               periodStartDay:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 28
+ *                 description: Day of the month the budget period starts. Defaults to 1.
+ *                 example: 15
  *               amount:
  *                 type: number
  *                 format: double
  *                 example: 1000.00
- *               remaining:
- *                 type: number
- *                 format: double
- *                 example: 750.00
+ *               currency:
+ *                 type: string
+ *                 example: "USD"
  *               categoryId:
  *                 type: string
  *                 example: "507f1f77bcf86cd799439012"
+ *               rollover:
+ *                 type: boolean
+ *                 example: false
+ *               alertThresholds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 description: Percent-used levels that send a notification (default 50, 80 and 100)
+ *                 example: [50, 80, 100]
  *     responses:
  *       200:
  *         description: Budget updated successfully
@@ -275,7 +515,7 @@ router.post("/", authenticateToken, requireSameUser('userId'), async (req: Reque
  *             schema:
  *               $ref: '#/components/schemas/Budget'
  *       400:
- *         description: Validation error
+ *         description: Validation error, or another budget already covers the new month and category
  *         content:
  *           application/json:
  *             schema:
@@ -290,7 +530,7 @@ router.post("/", authenticateToken, requireSameUser('userId'), async (req: Reque
 router.put("/:id", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
   try {
     // Pass ID and request body to service for validation and update
-    const budget = await budgetService.updateBudget(req.params.id, req.body);
+    const budget = await budgetService.updateBudget(req.params.userId, req.params.id, req.body);
 
     // Check if budget exists
     if (!budget) {
@@ -315,4 +555,70 @@ router.put("/:id", authenticateToken, requireSameUser('userId'), async (req: Req
   }
 });
 
+/**
+ * @swagger
+ * /api/v1/users/{userId}/budgets/{id}:
+ *   delete:
+ *     summary: Delete a budget
+ *     description: Transactions are not affected. Requires authentication and authorization - userId in JWT must match userId in URL
+ *     tags: [Budgets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Budget ID
+ *     responses:
+ *       200:
+ *         description: Budget deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 deleted:
+ *                   type: boolean
+ *                   example: true
+ *       400:
+ *         description: Invalid budget ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Budget not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete("/:id", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    // Only the owner's budgets can be deleted; others look the same as missing ones
+    const deleted = await budgetService.deleteBudget(req.params.userId, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: "Budget not found" });
+    }
+
+    res.json({ deleted: true });
+  } catch (error) {
+    console.error('Error deleting budget:', error);
+
+    if (error instanceof BudgetValidationError) {
+      return res.status(400).json({ error: error.message, field: error.field });
+    }
+
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
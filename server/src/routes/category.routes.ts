@@ -85,9 +85,9 @@ router.get("/", authenticateToken, requireSameUser('userId'), async (req: Reques
 router.get("/:id", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
   try {
     // Extract ID from URL parameter
-    const category = await categoryService.getCategoryById(req.params.id);
+    const category = await categoryService.getCategoryById(req.params.userId, req.params.id);
 
-    // Check if category exists
+    // Check if category exists (categories of other users look the same as missing ones)
     if (!category) {
       return res.status(404).json({ error: "Category not found" });
     }
@@ -137,6 +137,10 @@ router.get("/:id", authenticateToken, requireSameUser('userId'), async (req: Req
  *               type:
  *                 type: string
  *                 example: "expense"
+ *               kind:
+ *                 type: string
+ *                 enum: [income, expense, transfer]
+ *                 description: Defaults to type when it is income/expense/transfer, otherwise expense
  *               userId:
  *                 type: string
  *                 example: "68df4cd8f4c53b419fc5f196"
@@ -219,6 +223,10 @@ router.post("/", authenticateToken, requireSameUser('userId'), async (req: Reque
  *               type:
  *                 type: string
  *                 example: "expense"
+ *               kind:
+ *                 type: string
+ *                 enum: [income, expense, transfer]
+ *                 description: Defaults to type when it is income/expense/transfer, otherwise expense
  *     responses:
  *       200:
  *         description: Category updated successfully
@@ -246,7 +254,7 @@ router.post("/", authenticateToken, requireSameUser('userId'), async (req: Reque
 router.put("/:id", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
   try {
     // Pass ID and request body to service for validation and update
-    const category = await categoryService.updateCategory(req.params.id, req.body);
+    const category = await categoryService.updateCategory(req.params.userId, req.params.id, req.body);
 
     // Check if category exists
     if (!category) {
@@ -274,7 +282,7 @@ router.put("/:id", authenticateToken, requireSameUser('userId'), async (req: Req
 
 router.delete("/:id", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
   try {
-    const deleted = await categoryService.deleteCategory(req.params.id);
+    const deleted = await categoryService.deleteCategory(req.params.userId, req.params.id);
     if (!deleted) return res.status(404).json({ error: 'Category not found' });
     res.status(200).json({ success: true });
   } catch (error) {
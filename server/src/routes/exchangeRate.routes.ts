@@ -0,0 +1,171 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { ExchangeRateService } from '../services/ExchangeRateService';
+import { ExchangeRateValidationError } from '../models/ExchangeRate';
+import { authenticateToken, requireAdmin } from '../middleware/auth.middleware';
+
+const router = Router();
+
+const exchangeRateService = new ExchangeRateService();
+
+/**
+ * Shared error handler for exchange rate routes.
+ * Validation errors map to 400, everything else to 500.
+ */
+function handleError(res: Response, error: unknown, context: string) {
+  console.error(`Error ${context}:`, error);
+
+  if (error instanceof ExchangeRateValidationError) {
+    return res.status(400).json({
+      error: error.message,
+      field: error.field,
+      missing: error.missingFields
+    });
+  }
+
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+/**
+ * @swagger
+ * /api/v1/admin/exchange-rates:
+ *   get:
+ *     summary: List stored exchange rates
+ *     description: Requires the admin role. Newest rates first.
+ *     tags: [Exchange Rates]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: base
+ *         schema:
+ *           type: string
+ *         description: Only rates for this base currency
+ *         example: "EUR"
+ *       - in: query
+ *         name: quote
+ *         schema:
+ *           type: string
+ *         description: Only rates for this quote currency
+ *         example: "USD"
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 100
+ *     responses:
+ *       200:
+ *         description: Matching exchange rates
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ExchangeRate'
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get("/", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const rates = await exchangeRateService.listRates(req.query);
+    res.json(rates);
+  } catch (error) {
+    handleError(res, error, 'fetching exchange rates');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/admin/exchange-rates/import:
+ *   post:
+ *     summary: Import dated exchange rates
+ *     description: |
+ *       Requires the admin role. Adds rates to the local rate table used to
+ *       convert transactions into each user's home currency. A rate for a pair and
+ *       day that already exists is replaced. A rate can be used in both directions,
+ *       so EUR/USD also converts USD amounts into EUR.
+ *     tags: [Exchange Rates]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rates
+ *             properties:
+ *               source:
+ *                 type: string
+ *                 example: "ECB"
+ *               rates:
+ *                 type: array
+ *                 maxItems: 5000
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - base
+ *                     - quote
+ *                     - rate
+ *                     - date
+ *                   properties:
+ *                     base:
+ *                       type: string
+ *                       example: "EUR"
+ *                     quote:
+ *                       type: string
+ *                       example: "USD"
+ *                     rate:
+ *                       type: number
+ *                       description: Units of quote per 1 unit of base
+ *                       example: 1.0842
+ *                     date:
+ *                       type: string
+ *                       format: date
+ *                       example: "2025-03-14"
+ *     responses:
+ *       200:
+ *         description: Import summary
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 imported:
+ *                   type: integer
+ *                   description: Rates that were new
+ *                 updated:
+ *                   type: integer
+ *                   description: Rates that replaced an existing rate for the same pair and day
+ *       400:
+ *         description: Invalid import payload
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.post("/import", authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const result = await exchangeRateService.importRates(req.body);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, 'importing exchange rates');
+  }
+});
+
+export default router;
@@ -0,0 +1,68 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { LocalObjectStorage, getObjectStorage } from "../services/ObjectStorage";
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/files/{key}:
+ *   get:
+ *     summary: Download a file stored on local disk
+ *     description: |
+ *       Serves files when OBJECT_STORAGE is local. The link is signed and
+ *       expires, so it needs no Authorization header; get one from an
+ *       endpoint such as GET /api/v1/users/{userId}/receipts/{id}/image.
+ *       With other backends, signed links point at the storage service instead.
+ *     tags: [Receipts]
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Object key, e.g. receipts/{userId}/{uuid}.jpg
+ *       - in: query
+ *         name: expires
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Expiry in seconds since the epoch
+ *       - in: query
+ *         name: signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The file
+ *       403:
+ *         description: The link is invalid or has expired
+ *       404:
+ *         description: Files aren't stored on local disk
+ */
+router.get("/*", async (req: Request, res: Response) => {
+  const storage = getObjectStorage();
+  if (!(storage instanceof LocalObjectStorage)) {
+    return res.status(404).json({ error: "Not found" });
+  }
+
+  try {
+    const filePath = await storage.resolveSignedUrl(
+      req.params[0],
+      String(req.query.expires ?? ""),
+      String(req.query.signature ?? "")
+    );
+    if (!filePath) {
+      return res.status(403).json({ error: "Link is invalid or has expired" });
+    }
+
+    res.setHeader("Cache-Control", "private, no-store");
+    res.sendFile(filePath);
+  } catch (error) {
+    console.error("Error serving file:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
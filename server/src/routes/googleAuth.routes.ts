@@ -13,6 +13,10 @@ import { GoogleSheetsService } from '../services/GoogleSheetsService';
 import { TransactionService } from '../services/TransactionService';
 import { ProfileService } from '../services/ProfileService';
 import { CategoryService } from '../services/CategoryService';
+import { GoogleSheetsSyncService } from '../services/GoogleSheetsSyncService';
+import { buildCategoryNameMap, toCategoryRows } from '../services/TransactionExporter';
+import type { CategoryRow } from '../services/TransactionExporter';
+import type { TransactionResponse } from '../models/Transaction';
 import { authenticateToken, requireSameUser } from '../middleware/auth.middleware.js';
 
 const router = Router({ mergeParams: true });
@@ -21,6 +25,50 @@ const googleSheetsService = new GoogleSheetsService();
 const transactionService = new TransactionService();
 const profileService = new ProfileService();
 const categoryService = new CategoryService();
+const googleSheetsSyncService = new GoogleSheetsSyncService();
+
+/**
+ * Resolves category names for the Sheets export.
+ * Uses the same row expansion as the file export so both stay in step.
+ */
+function toSheetRows(transactions: TransactionResponse[], categories: any[]): CategoryRow[] {
+  const categoryNames = buildCategoryNameMap(categories);
+  return transactions.flatMap((t) => toCategoryRows(t, categoryNames));
+}
+
+/**
+ * Runs the export the OAuth flow was started for once tokens are available:
+ * a sync of the user's spreadsheet, or a new spreadsheet with every transaction.
+ */
+async function exportAfterAuthorization(
+  userId: string,
+  mode: string | undefined,
+  tokens: { access_token: string; refresh_token?: string }
+): Promise<{ sheetUrl: string; transactionCount: number }> {
+  if (mode === 'sync') {
+    return googleSheetsSyncService.syncTransactions(userId, {
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+    });
+  }
+
+  googleSheetsService.setCredentials(tokens.access_token, tokens.refresh_token);
+
+  // Fetch transactions and all categories for this user to map IDs to names
+  const transactions = await transactionService.getTransactionsByUserId(userId);
+  const categories = await categoryService.getCategoriesByUserId(userId);
+
+  // Enrich transactions with category names (one row per split line)
+  const enrichedTransactions = toSheetRows(transactions, categories);
+
+  const sheetTitle = `Parrit Transactions - ${new Date().toLocaleDateString()}`;
+  const sheetUrl = await googleSheetsService.createSheetWithTransactions(
+    enrichedTransactions,
+    sheetTitle
+  );
+
+  return { sheetUrl, transactionCount: transactions.length };
+}
 
 /**
  * @swagger
@@ -123,10 +171,12 @@ router.get("/auth/google/callback", async (req: Request, res: Response) => {
 
     // Extract userId from state parameter
     let userId: string | null = null;
+    let mode: string | undefined;
     if (state) {
       try {
         const decodedState = JSON.parse(Buffer.from(state as string, 'base64').toString());
         userId = decodedState.userId;
+        mode = decodedState.mode;
         console.log('[GoogleAuth] Static callback - extracted userId from state:', userId);
       } catch (e) {
         console.error('Error decoding state:', e);
@@ -202,30 +252,7 @@ router.get("/auth/google/callback", async (req: Request, res: Response) => {
       console.log('[GoogleAuth] Refresh token stored for userId:', userId);
     }
 
-    googleSheetsService.setCredentials(tokens.access_token, tokens.refresh_token);
-
-    // Fetch transactions and create sheet
-    const transactions = await transactionService.getTransactionsByUserId(userId);
-
-    // Fetch all categories for this user to map IDs to names
-    const categories = await categoryService.getCategoriesByUserId(userId);
-
-    // Create a map of categoryId -> categoryName for quick lookup
-    const categoryMap = new Map(
-      categories.map((cat: any) => [cat.id || cat._id?.toString(), cat.name])
-    );
-
-    // Enrich transactions with category names
-    const enrichedTransactions = transactions.map((t: any) => ({
-      ...t,
-      categoryName: categoryMap.get(t.categoryId) || 'Uncategorized',
-    }));
-
-    const sheetTitle = `Parrit Transactions - ${new Date().toLocaleDateString()}`;
-    const sheetUrl = await googleSheetsService.createSheetWithTransactions(
-      enrichedTransactions,
-      sheetTitle
-    );
+    const { sheetUrl, transactionCount } = await exportAfterAuthorization(userId, mode, tokens);
 
     // Return success page
     res.status(200).send(`
@@ -289,7 +316,7 @@ router.get("/auth/google/callback", async (req: Request, res: Response) => {
           <div class="container">
             <h2>Export Successful</h2>
             <p>Your transactions have been exported to Google Sheets.</p>
-            <div class="count">${transactions.length} transactions exported</div>
+            <div class="count">${transactionCount} transactions exported</div>
             <a href="${sheetUrl}" target="_blank" class="button">Open Google Sheet</a>
             <br><br>
             <p style="font-size: 14px; color: #B0B0B0;">You can close this window and return to the app.</p>
@@ -340,6 +367,12 @@ router.get("/auth/google/callback", async (req: Request, res: Response) => {
  *           pattern: '^[a-f0-9]{24}$'
  *         description: User ID (MongoDB ObjectId)
  *         example: '507f1f77bcf86cd799439011'
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [sync]
+ *         description: Sync the user's spreadsheet after authorization instead of creating a new one
  *     responses:
  *       '302':
  *         description: Redirects to Google OAuth consent screen
@@ -365,8 +398,10 @@ router.get("/auth", async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid user ID' });
     }
     
-    // Generate state parameter to prevent CSRF attacks
-    const state = Buffer.from(JSON.stringify({ userId, timestamp: Date.now() })).toString('base64');
+    // Generate state parameter to prevent CSRF attacks; it also carries
+    // whether the callback should sync the user's spreadsheet
+    const mode = req.query.mode === 'sync' ? 'sync' : undefined;
+    const state = Buffer.from(JSON.stringify({ userId, mode, timestamp: Date.now() })).toString('base64');
     
     // Get authorization URL
     const authUrl = googleSheetsService.getAuthUrl(state);
@@ -418,9 +453,11 @@ router.get("/callback", async (req: Request, res: Response) => {
     }
 
     // Verify state parameter (security check)
+    let mode: string | undefined;
     if (state) {
       try {
         const decodedState = JSON.parse(Buffer.from(state as string, 'base64').toString());
+        mode = decodedState.mode;
         if (decodedState.userId !== userId) {
           return res.status(400).send(`
             <!DOCTYPE html>
@@ -457,32 +494,8 @@ router.get("/callback", async (req: Request, res: Response) => {
       await (profileService as any).profileRepository.updateGoogleRefreshToken(userId, tokens.refresh_token);
     }
 
-    // Set credentials for Google Sheets API
-    googleSheetsService.setCredentials(tokens.access_token, tokens.refresh_token);
-
-    // Fetch user's transactions
-    const transactions = await transactionService.getTransactionsByUserId(userId);
-
-    // Fetch all categories for this user to map IDs to names
-    const categories = await categoryService.getCategoriesByUserId(userId);
-
-    // Create a map of categoryId -> categoryName for quick lookup
-    const categoryMap = new Map(
-      categories.map((cat: any) => [cat.id || cat._id?.toString(), cat.name])
-    );
-
-    // Enrich transactions with category names
-    const enrichedTransactions = transactions.map((t: any) => ({
-      ...t,
-      categoryName: categoryMap.get(t.categoryId) || 'Uncategorized',
-    }));
-
-    // Create Google Sheet with transactions
-    const sheetTitle = `Parrit Transactions - ${new Date().toLocaleDateString()}`;
-    const sheetUrl = await googleSheetsService.createSheetWithTransactions(
-      enrichedTransactions,
-      sheetTitle
-    );
+    // Create or sync the Google Sheet
+    const { sheetUrl, transactionCount } = await exportAfterAuthorization(userId, mode, tokens);
 
     // Return HTML page with success message and link to sheet
     // This provides better UX since OAuth callback happens in browser
@@ -556,7 +569,7 @@ router.get("/callback", async (req: Request, res: Response) => {
           <div class="container">
             <h1>✅ Export Successful!</h1>
             <p>Your transactions have been exported to Google Sheets.</p>
-            <div class="count">${transactions.length} transactions exported</div>
+            <div class="count">${transactionCount} transactions exported</div>
             <a href="${sheetUrl}" target="_blank" class="button">Open Google Sheet</a>
             <br><br>
             <p style="font-size: 14px; color: #B0B0B0;">You can close this window and return to the app.</p>
@@ -657,7 +670,7 @@ router.post("/export", authenticateToken, requireSameUser('userId'), async (req:
     }
 
     // Check if user has a refresh token stored
-    const fullProfile = await (profileService as any).profileRepository.findProfileById(userId);
+    const fullProfile = await profileService.getFullProfile(userId);
     
     if (!fullProfile?.googleRefreshToken) {
       // No refresh token - need to initiate OAuth flow
@@ -680,16 +693,8 @@ router.post("/export", authenticateToken, requireSameUser('userId'), async (req:
       // Fetch all categories for this user to map IDs to names
       const categories = await categoryService.getCategoriesByUserId(userId);
 
-      // Create a map of categoryId -> categoryName for quick lookup
-      const categoryMap = new Map(
-        categories.map((cat: any) => [cat.id || cat._id?.toString(), cat.name])
-      );
-
-      // Enrich transactions with category names
-      const enrichedTransactions = transactions.map((t: any) => ({
-        ...t,
-        categoryName: categoryMap.get(t.categoryId) || 'Uncategorized',
-      }));
+      // Enrich transactions with category names (one row per split line)
+      const enrichedTransactions = toSheetRows(transactions, categories);
 
       // Create Google Sheet
       const sheetTitle = `Parrit Transactions - ${new Date().toLocaleDateString()}`;
@@ -722,5 +727,137 @@ router.post("/export", authenticateToken, requireSameUser('userId'), async (req:
   }
 });
 
+/**
+ * @swagger
+ * /api/v1/users/{userId}/google/sync:
+ *   post:
+ *     summary: Sync transactions into the user's Google Sheet
+ *     description: |
+ *       Keeps a single spreadsheet up to date instead of creating a new one per export.
+ *       New transactions are appended, edited ones are updated in place and deleted ones are
+ *       removed, matched by transaction ID in a hidden column. A "Monthly Summary" tab is
+ *       rewritten on every sync with category totals and budget vs. actual in the home currency.
+ *       The spreadsheet is created on first sync (or if it was deleted) and stored on the profile.
+ *       - If no refresh token exists, returns 401 with authUrl to initiate OAuth flow
+ *     tags:
+ *       - Google Sheets Export
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[a-f0-9]{24}$'
+ *         description: User ID (MongoDB ObjectId) - must match JWT userId claim
+ *     responses:
+ *       '200':
+ *         description: Sync successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: 'Transactions synced to Google Sheets successfully'
+ *                 spreadsheetId:
+ *                   type: string
+ *                 sheetUrl:
+ *                   type: string
+ *                   format: uri
+ *                 created:
+ *                   type: boolean
+ *                   description: True when a new spreadsheet was created
+ *                 appended:
+ *                   type: number
+ *                 updated:
+ *                   type: number
+ *                 removed:
+ *                   type: number
+ *                 transactionCount:
+ *                   type: number
+ *       '401':
+ *         description: Authorization required or expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 error:
+ *                   type: string
+ *                 authUrl:
+ *                   type: string
+ *                   example: '/users/{userId}/google/auth?mode=sync'
+ *                 message:
+ *                   type: string
+ *       '404':
+ *         description: Profile not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       '500':
+ *         description: Sync failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post("/sync", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const userId = req.params.userId;
+
+    // Check if user has a refresh token stored
+    const fullProfile = await profileService.getFullProfile(userId);
+
+    if (!fullProfile) {
+      return res.status(404).json({ error: 'Profile not found' });
+    }
+
+    if (!fullProfile.googleRefreshToken) {
+      return res.status(401).json({
+        error: 'Google authorization required',
+        authUrl: `/users/${userId}/google/auth?mode=sync`,
+        message: 'Please authorize Google Sheets access first',
+      });
+    }
+
+    let accessToken: string;
+    try {
+      accessToken = await googleSheetsService.refreshAccessToken(fullProfile.googleRefreshToken);
+    } catch (refreshError: any) {
+      // Refresh token expired or invalid - need to re-authenticate
+      console.error('Error refreshing token:', refreshError);
+      return res.status(401).json({
+        error: 'Google authorization expired',
+        authUrl: `/users/${userId}/google/auth?mode=sync`,
+        message: 'Please re-authorize Google Sheets access',
+      });
+    }
+
+    const result = await googleSheetsSyncService.syncTransactions(userId, {
+      accessToken,
+      refreshToken: fullProfile.googleRefreshToken,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Transactions synced to Google Sheets successfully',
+      ...result,
+    });
+  } catch (error: any) {
+    console.error('Error syncing transactions:', error);
+    res.status(500).json({
+      error: 'Failed to sync transactions',
+      details: error.message
+    });
+  }
+});
+
 export default router;
 
@@ -0,0 +1,1375 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { HouseholdService } from '../services/HouseholdService';
+import { HouseholdValidationError, HouseholdPermissionError } from '../models/Household';
+import { authenticateToken, requireSameUser } from '../middleware/auth.middleware';
+
+const router = Router({ mergeParams: true });
+
+const householdService = new HouseholdService();
+
+/**
+ * The signed-in user's email, if Firebase has verified it.
+ */
+function getVerifiedEmail(req: Request): string | undefined {
+  return req.user?.email_verified ? req.user.email : undefined;
+}
+
+/**
+ * Shared error handler for household routes.
+ * Validation errors map to 400, role errors to 403, everything else to 500.
+ */
+function handleError(res: Response, error: unknown, context: string) {
+  console.error(`Error ${context}:`, error);
+
+  if (error instanceof HouseholdValidationError) {
+    return res.status(400).json({
+      error: error.message,
+      field: error.field
+    });
+  }
+
+  if (error instanceof HouseholdPermissionError) {
+    return res.status(403).json({ error: error.message });
+  }
+
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households:
+ *   post:
+ *     summary: Create a household
+ *     description: The creating user becomes the household's owner.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Maple Street"
+ *               currency:
+ *                 type: string
+ *                 example: "USD"
+ *                 description: Currency for shared budgets and reports (default USD)
+ *     responses:
+ *       201:
+ *         description: Household created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Household'
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.post("/", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const household = await householdService.createHousehold(req.params.userId, req.body);
+    res.status(201).json(household);
+  } catch (error) {
+    handleError(res, error, 'creating household');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households:
+ *   get:
+ *     summary: List the user's households
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *     responses:
+ *       200:
+ *         description: Households the user is a member of
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Household'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.get("/", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const households = await householdService.getHouseholds(req.params.userId);
+    res.json(households);
+  } catch (error) {
+    handleError(res, error, 'fetching households');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/invitations:
+ *   get:
+ *     summary: List invitations sent to the user
+ *     description: Pending, unexpired invitations addressed to the email the user signs in with, once Firebase has verified it.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *     responses:
+ *       200:
+ *         description: Pending invitations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/HouseholdInvitation'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.get("/invitations", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const invitations = await householdService.getMyInvitations(getVerifiedEmail(req));
+    res.json(invitations);
+  } catch (error) {
+    handleError(res, error, 'fetching invitations');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/invitations/{invitationId}/accept:
+ *   post:
+ *     summary: Accept an invitation
+ *     description: Joins the household with the role the invitation grants.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The joined household
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Household'
+ *       400:
+ *         description: Invitation expired or already answered
+ *       404:
+ *         description: Invitation not found for this user
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.post("/invitations/:invitationId/accept", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const household = await householdService.acceptInvitation(req.params.userId, getVerifiedEmail(req), req.params.invitationId);
+
+    if (!household) {
+      return res.status(404).json({ error: "Invitation not found" });
+    }
+
+    res.json(household);
+  } catch (error) {
+    handleError(res, error, 'accepting invitation');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/invitations/{invitationId}/decline:
+ *   post:
+ *     summary: Decline an invitation
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Invitation declined
+ *       400:
+ *         description: Invitation expired or already answered
+ *       404:
+ *         description: Invitation not found for this user
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.post("/invitations/:invitationId/decline", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const declined = await householdService.declineInvitation(getVerifiedEmail(req), req.params.invitationId);
+
+    if (!declined) {
+      return res.status(404).json({ error: "Invitation not found" });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    handleError(res, error, 'declining invitation');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}:
+ *   get:
+ *     summary: Get a household
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The household with its members
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Household'
+ *       404:
+ *         description: Household not found, or the user isn't a member
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.get("/:householdId", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const household = await householdService.getHousehold(req.params.userId, req.params.householdId);
+
+    if (!household) {
+      return res.status(404).json({ error: "Household not found" });
+    }
+
+    res.json(household);
+  } catch (error) {
+    handleError(res, error, 'fetching household');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}:
+ *   patch:
+ *     summary: Rename a household or change its currency
+ *     description: Owner only.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               currency:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: The updated household
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Household'
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: The user's household role doesn't allow this
+ *       404:
+ *         description: Household not found, or the user isn't a member
+ */
+router.patch("/:householdId", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const household = await householdService.updateHousehold(req.params.userId, req.params.householdId, req.body);
+
+    if (!household) {
+      return res.status(404).json({ error: "Household not found" });
+    }
+
+    res.json(household);
+  } catch (error) {
+    handleError(res, error, 'updating household');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}:
+ *   delete:
+ *     summary: Delete a household
+ *     description: |
+ *       Owner only. Deletes the household's budgets and invitations. Shared
+ *       categories become personal categories of the members who created them.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Household deleted
+ *       403:
+ *         description: The user's household role doesn't allow this
+ *       404:
+ *         description: Household not found, or the user isn't a member
+ */
+router.delete("/:householdId", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const deleted = await householdService.deleteHousehold(req.params.userId, req.params.householdId);
+
+    if (!deleted) {
+      return res.status(404).json({ error: "Household not found" });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    handleError(res, error, 'deleting household');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}/invitations:
+ *   post:
+ *     summary: Invite someone to a household
+ *     description: |
+ *       Owner only. The invitation is accepted by the user whose profile has this
+ *       email, and expires after 14 days.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 example: "partner@example.com"
+ *               role:
+ *                 type: string
+ *                 enum: [editor, viewer]
+ *                 default: editor
+ *     responses:
+ *       201:
+ *         description: Invitation created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/HouseholdInvitation'
+ *       400:
+ *         description: Validation error, already a member, or already invited
+ *       403:
+ *         description: The user's household role doesn't allow this
+ *       404:
+ *         description: Household not found, or the user isn't a member
+ */
+router.post("/:householdId/invitations", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const invitation = await householdService.inviteMember(req.params.userId, req.params.householdId, req.body);
+
+    if (!invitation) {
+      return res.status(404).json({ error: "Household not found" });
+    }
+
+    res.status(201).json(invitation);
+  } catch (error) {
+    handleError(res, error, 'inviting household member');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}/invitations:
+ *   get:
+ *     summary: List a household's pending invitations
+ *     description: Owner only.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pending invitations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/HouseholdInvitation'
+ *       403:
+ *         description: The user's household role doesn't allow this
+ *       404:
+ *         description: Household not found, or the user isn't a member
+ */
+router.get("/:householdId/invitations", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const invitations = await householdService.getHouseholdInvitations(req.params.userId, req.params.householdId);
+
+    if (!invitations) {
+      return res.status(404).json({ error: "Household not found" });
+    }
+
+    res.json(invitations);
+  } catch (error) {
+    handleError(res, error, 'fetching household invitations');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}/invitations/{invitationId}:
+ *   delete:
+ *     summary: Revoke a pending invitation
+ *     description: Owner only.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Invitation revoked
+ *       403:
+ *         description: The user's household role doesn't allow this
+ *       404:
+ *         description: Household or pending invitation not found
+ */
+router.delete("/:householdId/invitations/:invitationId", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const revoked = await householdService.revokeInvitation(req.params.userId, req.params.householdId, req.params.invitationId);
+
+    if (!revoked) {
+      return res.status(404).json({ error: "Invitation not found" });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    handleError(res, error, 'revoking invitation');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}/members/{memberId}:
+ *   patch:
+ *     summary: Change a member's role
+ *     description: Owner only. Members can be viewers or editors.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: memberId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [role]
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [editor, viewer]
+ *     responses:
+ *       200:
+ *         description: The updated household
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Household'
+ *       400:
+ *         description: Invalid role, or the member is the owner
+ *       403:
+ *         description: The user's household role doesn't allow this
+ *       404:
+ *         description: Household or member not found
+ */
+router.patch("/:householdId/members/:memberId", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const household = await householdService.updateMemberRole(
+      req.params.userId,
+      req.params.householdId,
+      req.params.memberId,
+      req.body
+    );
+
+    if (!household) {
+      return res.status(404).json({ error: "Member not found" });
+    }
+
+    res.json(household);
+  } catch (error) {
+    handleError(res, error, 'updating household member');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}/members/{memberId}:
+ *   delete:
+ *     summary: Remove a member or leave a household
+ *     description: |
+ *       The owner can remove other members. Any other member can remove
+ *       themselves to leave. The owner can't leave; delete the household instead.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: memberId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Member removed
+ *       400:
+ *         description: The owner tried to leave
+ *       403:
+ *         description: The user's household role doesn't allow this
+ *       404:
+ *         description: Household or member not found
+ */
+router.delete("/:householdId/members/:memberId", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const removed = await householdService.removeMember(req.params.userId, req.params.householdId, req.params.memberId);
+
+    if (!removed) {
+      return res.status(404).json({ error: "Member not found" });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    handleError(res, error, 'removing household member');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}/categories:
+ *   get:
+ *     summary: List a household's shared categories
+ *     description: |
+ *       Shared categories also appear in each member's own category list, so
+ *       members can record transactions in them.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shared categories
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Category'
+ *       404:
+ *         description: Household not found, or the user isn't a member
+ */
+router.get("/:householdId/categories", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const categories = await householdService.getCategories(req.params.userId, req.params.householdId);
+
+    if (!categories) {
+      return res.status(404).json({ error: "Household not found" });
+    }
+
+    res.json(categories);
+  } catch (error) {
+    handleError(res, error, 'fetching household categories');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}/categories:
+ *   post:
+ *     summary: Create a shared category
+ *     description: Editors and the owner only.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, type]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Groceries"
+ *               type:
+ *                 type: string
+ *                 example: "expense"
+ *               color:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Category created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Category'
+ *       400:
+ *         description: Validation error or duplicate name
+ *       403:
+ *         description: The user's household role doesn't allow this
+ *       404:
+ *         description: Household not found, or the user isn't a member
+ */
+router.post("/:householdId/categories", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const category = await householdService.createCategory(req.params.userId, req.params.householdId, req.body);
+
+    if (!category) {
+      return res.status(404).json({ error: "Household not found" });
+    }
+
+    res.status(201).json(category);
+  } catch (error) {
+    handleError(res, error, 'creating household category');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}/categories/{categoryId}:
+ *   put:
+ *     summary: Update a shared category
+ *     description: Editors and the owner only.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: categoryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *               color:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: The updated category
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Category'
+ *       400:
+ *         description: Validation error or duplicate name
+ *       403:
+ *         description: The user's household role doesn't allow this
+ *       404:
+ *         description: Household or category not found
+ */
+router.put("/:householdId/categories/:categoryId", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const category = await householdService.updateCategory(
+      req.params.userId,
+      req.params.householdId,
+      req.params.categoryId,
+      req.body
+    );
+
+    if (!category) {
+      return res.status(404).json({ error: "Category not found" });
+    }
+
+    res.json(category);
+  } catch (error) {
+    handleError(res, error, 'updating household category');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}/categories/{categoryId}:
+ *   delete:
+ *     summary: Delete a shared category
+ *     description: Editors and the owner only. Categories used by a shared budget can't be deleted.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: categoryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Category deleted
+ *       400:
+ *         description: A shared budget uses the category
+ *       403:
+ *         description: The user's household role doesn't allow this
+ *       404:
+ *         description: Household or category not found
+ */
+router.delete("/:householdId/categories/:categoryId", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const deleted = await householdService.deleteCategory(req.params.userId, req.params.householdId, req.params.categoryId);
+
+    if (!deleted) {
+      return res.status(404).json({ error: "Category not found" });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    handleError(res, error, 'deleting household category');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}/budgets:
+ *   get:
+ *     summary: List a household's shared budgets
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shared budgets, newest month first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/HouseholdBudget'
+ *       404:
+ *         description: Household not found, or the user isn't a member
+ */
+router.get("/:householdId/budgets", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const budgets = await householdService.getBudgets(req.params.userId, req.params.householdId);
+
+    if (!budgets) {
+      return res.status(404).json({ error: "Household not found" });
+    }
+
+    res.json(budgets);
+  } catch (error) {
+    handleError(res, error, 'fetching household budgets');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}/budgets:
+ *   post:
+ *     summary: Create a shared budget
+ *     description: |
+ *       Editors and the owner only. A budget covers one shared category, or all
+ *       shared categories when categoryId is omitted. Amounts are in the
+ *       household's currency.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [month, year, amount]
+ *             properties:
+ *               month:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 12
+ *               year:
+ *                 type: integer
+ *               amount:
+ *                 type: number
+ *               categoryId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Budget created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/HouseholdBudget'
+ *       400:
+ *         description: Validation error, category not shared, or budget already exists
+ *       403:
+ *         description: The user's household role doesn't allow this
+ *       404:
+ *         description: Household not found, or the user isn't a member
+ */
+router.post("/:householdId/budgets", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const budget = await householdService.createBudget(req.params.userId, req.params.householdId, req.body);
+
+    if (!budget) {
+      return res.status(404).json({ error: "Household not found" });
+    }
+
+    res.status(201).json(budget);
+  } catch (error) {
+    handleError(res, error, 'creating household budget');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}/budgets/status:
+ *   get:
+ *     summary: Shared budgets with spending per member
+ *     description: |
+ *       Spending counts members' expenses in shared categories for the month.
+ *       Defaults to the current month.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: month
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 12
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Budget status for the month
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 householdId:
+ *                   type: string
+ *                 month:
+ *                   type: integer
+ *                 year:
+ *                   type: integer
+ *                 currency:
+ *                   type: string
+ *                 budgets:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       budgetId:
+ *                         type: string
+ *                       categoryId:
+ *                         type: string
+ *                         nullable: true
+ *                       amount:
+ *                         type: number
+ *                       spent:
+ *                         type: number
+ *                       remaining:
+ *                         type: number
+ *                       percentUsed:
+ *                         type: number
+ *                       byMember:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             userId:
+ *                               type: string
+ *                             spent:
+ *                               type: number
+ *       400:
+ *         description: Invalid query parameters
+ *       404:
+ *         description: Household not found, or the user isn't a member
+ */
+router.get("/:householdId/budgets/status", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const status = await householdService.getBudgetStatus(req.params.userId, req.params.householdId, req.query);
+
+    if (!status) {
+      return res.status(404).json({ error: "Household not found" });
+    }
+
+    res.json(status);
+  } catch (error) {
+    handleError(res, error, 'fetching household budget status');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}/budgets/{budgetId}:
+ *   put:
+ *     summary: Change a shared budget's amount
+ *     description: Editors and the owner only.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: budgetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount]
+ *             properties:
+ *               amount:
+ *                 type: number
+ *     responses:
+ *       200:
+ *         description: The updated budget
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/HouseholdBudget'
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: The user's household role doesn't allow this
+ *       404:
+ *         description: Household or budget not found
+ */
+router.put("/:householdId/budgets/:budgetId", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const budget = await householdService.updateBudget(
+      req.params.userId,
+      req.params.householdId,
+      req.params.budgetId,
+      req.body
+    );
+
+    if (!budget) {
+      return res.status(404).json({ error: "Budget not found" });
+    }
+
+    res.json(budget);
+  } catch (error) {
+    handleError(res, error, 'updating household budget');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}/budgets/{budgetId}:
+ *   delete:
+ *     summary: Delete a shared budget
+ *     description: Editors and the owner only.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: budgetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Budget deleted
+ *       403:
+ *         description: The user's household role doesn't allow this
+ *       404:
+ *         description: Household or budget not found
+ */
+router.delete("/:householdId/budgets/:budgetId", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const deleted = await householdService.deleteBudget(req.params.userId, req.params.householdId, req.params.budgetId);
+
+    if (!deleted) {
+      return res.status(404).json({ error: "Budget not found" });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    handleError(res, error, 'deleting household budget');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/households/{householdId}/reports/spending:
+ *   get:
+ *     summary: Household spending report
+ *     description: |
+ *       Members' expenses in shared categories over a date range, converted into
+ *       the household's currency. The combined view breaks the total down by
+ *       category; the member view by member, each with their categories.
+ *     tags: [Households]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: path
+ *         name: householdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: startDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: endDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: view
+ *         schema:
+ *           type: string
+ *           enum: [combined, member]
+ *           default: combined
+ *     responses:
+ *       200:
+ *         description: Spending report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 householdId:
+ *                   type: string
+ *                 startDate:
+ *                   type: string
+ *                   format: date-time
+ *                 endDate:
+ *                   type: string
+ *                   format: date-time
+ *                 currency:
+ *                   type: string
+ *                 view:
+ *                   type: string
+ *                   enum: [combined, member]
+ *                 totalAmount:
+ *                   type: number
+ *                 categories:
+ *                   type: array
+ *                   description: Combined view only
+ *                   items:
+ *                     type: object
+ *                 members:
+ *                   type: array
+ *                   description: Member view only
+ *                   items:
+ *                     type: object
+ *       400:
+ *         description: Invalid query parameters
+ *       404:
+ *         description: Household not found, or the user isn't a member
+ */
+router.get("/:householdId/reports/spending", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const report = await householdService.getSpendingReport(req.params.userId, req.params.householdId, req.query);
+
+    if (!report) {
+      return res.status(404).json({ error: "Household not found" });
+    }
+
+    res.json(report);
+  } catch (error) {
+    handleError(res, error, 'fetching household spending report');
+  }
+});
+
+export default router;
@@ -0,0 +1,276 @@
+import { Router } from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+import { parseTransactionText } from '../services/TransactionTextParser';
+import { parseTransactionTextSchema } from '../models/TransactionDraft';
+import { ProfileService } from '../services/ProfileService';
+import { TranscriptionService } from '../services/TranscriptionService';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { rateLimitPerUser } from '../middleware/rateLimit.middleware';
+import { DEFAULT_TIME_ZONE } from '../models/Profile';
+import { TranscriptionValidationError } from '../models/Transcription';
+
+// Recordings are kept in memory; they're short and go straight to the provider
+const MAX_RECORDING_BYTES = 25 * 1024 * 1024;
+const TRANSCRIPTIONS_PER_MINUTE = 20;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_RECORDING_BYTES, files: 1 },
+  fileFilter: (req, file, callback) => {
+    if (!file.mimetype.startsWith('audio/')) {
+      return callback(new TranscriptionValidationError('Recordings must be an audio file', 'file'));
+    }
+    callback(null, true);
+  },
+});
+const router = Router();
+const profileService = new ProfileService();
+const transcriptionService = new TranscriptionService();
+
+const limitTranscriptions = rateLimitPerUser({
+  limit: TRANSCRIPTIONS_PER_MINUTE,
+  windowMs: 60 * 1000,
+  message: `You can transcribe at most ${TRANSCRIPTIONS_PER_MINUTE} recordings per minute`,
+});
+
+/**
+ * Runs the single-recording upload, turning multer errors into 400/413/415 responses.
+ */
+function uploadRecording(req: Request, res: Response, next: NextFunction) {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `Recordings can be at most ${MAX_RECORDING_BYTES / (1024 * 1024)} MB`
+        : error.message;
+      return res.status(status).json({ error: message, field: 'file' });
+    }
+    if (error instanceof TranscriptionValidationError) {
+      return res.status(415).json({ error: error.message, field: error.field });
+    }
+    if (error) {
+      return next(error);
+    }
+    next();
+  });
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DraftField:
+ *       type: object
+ *       properties:
+ *         value:
+ *           nullable: true
+ *           description: The value read from the text, null when it wasn't mentioned
+ *         confidence:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 1
+ *           example: 0.85
+ *     TransactionDraft:
+ *       type: object
+ *       properties:
+ *         text:
+ *           type: string
+ *           example: "dinner at Olive Garden eighty dollars split with Sam"
+ *         vendorName:
+ *           $ref: '#/components/schemas/DraftField'
+ *         amount:
+ *           $ref: '#/components/schemas/DraftField'
+ *         currency:
+ *           $ref: '#/components/schemas/DraftField'
+ *         paymentType:
+ *           $ref: '#/components/schemas/DraftField'
+ *         dateTime:
+ *           $ref: '#/components/schemas/DraftField'
+ *         description:
+ *           $ref: '#/components/schemas/DraftField'
+ *         participants:
+ *           $ref: '#/components/schemas/DraftField'
+ *     Transcription:
+ *       type: object
+ *       properties:
+ *         text:
+ *           type: string
+ *           example: "twelve dollars at Starbucks this morning"
+ *         words:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 example: "twelve"
+ *               start:
+ *                 type: number
+ *                 description: Milliseconds from the start of the recording
+ *                 example: 240
+ *               end:
+ *                 type: number
+ *                 example: 610
+ *               confidence:
+ *                 type: number
+ *                 example: 0.97
+ *         provider:
+ *           type: string
+ *           enum: [assemblyai, whisper, fake]
+ */
+
+/**
+ * @swagger
+ * /api/v1/inference/parse-transaction:
+ *   post:
+ *     summary: Parse a transaction from a sentence
+ *     description: |
+ *       Reads vendor, amount, currency, payment type, date, description and
+ *       split participants from spoken or typed text. Each field carries a
+ *       confidence from 0 to 1; fields that weren't mentioned are null with
+ *       confidence 0. Nothing is saved.
+ *
+ *       Dates such as "last Friday" or "Saturday night" are resolved in the
+ *       given time zone, else the profile's time zone, else UTC.
+ *     tags: [Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [text]
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 example: "twelve dollars at Starbucks this morning on my visa"
+ *               timeZone:
+ *                 type: string
+ *                 description: IANA time zone to resolve dates in
+ *                 example: "America/Chicago"
+ *     responses:
+ *       200:
+ *         description: The parsed draft
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TransactionDraft'
+ *       400:
+ *         description: Missing or too long text, or an unknown time zone
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.post('/parse-transaction', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const validation = parseTransactionTextSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: validation.error.issues[0]?.message || 'Validation failed',
+        field: validation.error.issues[0]?.path[0]?.toString()
+      });
+    }
+
+    const { text } = validation.data;
+    const userId = req.user?.userId;
+    const timeZone = validation.data.timeZone
+      || (userId ? await profileService.getTimeZone(userId) : DEFAULT_TIME_ZONE);
+
+    res.json(parseTransactionText(text, { timeZone }));
+  } catch (error) {
+    console.error('Error parsing transaction text:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/inference/transcribe:
+ *   post:
+ *     summary: Transcribe a recording
+ *     description: |
+ *       Sends a recording to the server's speech-to-text provider (AssemblyAI or a
+ *       self-hosted Whisper server, chosen by SPEECH_TO_TEXT_PROVIDER) and returns
+ *       the text with word timings. Nothing is saved. Limited to 20 recordings
+ *       per minute per user.
+ *     tags: [Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: Audio recording, at most 25 MB
+ *     responses:
+ *       200:
+ *         description: The transcript
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Transcription'
+ *       400:
+ *         description: No recording uploaded, or it was empty
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       413:
+ *         description: Recording is larger than 25 MB
+ *       415:
+ *         description: Upload is not an audio file
+ *       429:
+ *         description: Too many recordings transcribed in the last minute
+ *       502:
+ *         description: The speech-to-text provider failed
+ *       503:
+ *         description: No speech-to-text provider is configured
+ */
+router.post('/transcribe', authenticateToken, limitTranscriptions, uploadRecording, async (req: Request, res: Response) => {
+  try {
+    if (!transcriptionService.isAvailable()) {
+      return res.status(503).json({ error: 'Speech-to-text is not configured on this server' });
+    }
+    if (!req.file) {
+      return res.status(400).json({ error: 'No recording uploaded', field: 'file' });
+    }
+
+    const transcription = await transcriptionService.transcribe({
+      data: req.file.buffer,
+      mimeType: req.file.mimetype,
+      fileName: req.file.originalname,
+    });
+    res.json(transcription);
+  } catch (error) {
+    if (error instanceof TranscriptionValidationError) {
+      return res.status(400).json({ error: error.message, field: error.field });
+    }
+    console.error('Error transcribing recording:', error);
+    res.status(502).json({ error: 'Transcription failed' });
+  }
+});
+
+export default router;
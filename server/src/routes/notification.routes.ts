@@ -0,0 +1,191 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { NotificationService } from '../services/NotificationService';
+import { NotificationValidationError } from '../models/Notification';
+import { authenticateToken, requireSameUser } from '../middleware/auth.middleware';
+
+const router = Router({ mergeParams: true });
+
+const notificationService = new NotificationService();
+
+/**
+ * Shared error handler for notification routes.
+ * Validation errors map to 400, everything else to 500.
+ */
+function handleError(res: Response, error: unknown, context: string) {
+  console.error(`Error ${context}:`, error);
+
+  if (error instanceof NotificationValidationError) {
+    return res.status(400).json({
+      error: error.message,
+      field: error.field
+    });
+  }
+
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/notifications:
+ *   get:
+ *     summary: Get a user's notifications
+ *     description: |
+ *       The in-app notification feed, newest first. Budget alerts are created when a
+ *       transaction write pushes spending past one of a budget's alert thresholds
+ *       (50%, 80% and 100% unless configured on the budget).
+ *     tags: [Notifications]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *       - in: query
+ *         name: unread
+ *         schema:
+ *           type: string
+ *           enum: ["true", "false"]
+ *         description: Only unread (true) or only read (false) notifications
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Notifications and the unread count
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 notifications:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Notification'
+ *                 unreadCount:
+ *                   type: integer
+ *                   example: 2
+ *       400:
+ *         description: Invalid query parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - Missing token, invalid token, or userId mismatch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.get("/", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const result = await notificationService.getNotifications(req.params.userId, req.query);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, 'fetching notifications');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/notifications/read-all:
+ *   post:
+ *     summary: Mark all notifications as read
+ *     tags: [Notifications]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Number of notifications marked read
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 updated:
+ *                   type: integer
+ *                   example: 3
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.post("/read-all", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const updated = await notificationService.markAllAsRead(req.params.userId);
+    res.json({ updated });
+  } catch (error) {
+    handleError(res, error, 'marking notifications read');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/notifications/{id}/read:
+ *   patch:
+ *     summary: Mark a notification as read
+ *     tags: [Notifications]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The notification, now read
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Notification'
+ *       404:
+ *         description: Notification not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.patch("/:id/read", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const notification = await notificationService.markAsRead(req.params.userId, req.params.id);
+
+    if (!notification) {
+      return res.status(404).json({ error: "Notification not found" });
+    }
+
+    res.json(notification);
+  } catch (error) {
+    handleError(res, error, 'marking notification read');
+  }
+});
+
+export default router;
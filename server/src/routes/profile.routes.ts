@@ -25,51 +25,6 @@ const router = Router();
 const profileService = new ProfileService();
 
 
-/**
- * @swagger
- * /api/v1/profiles:
- *   get:
- *     summary: Get all profiles
- *     tags: [Profiles]
- *     security:
- *       - BearerAuth: []
- *     responses:
- *       200:
- *         description: List of all profiles
- *         content:
- *           application/json:
- *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Profile'
- *       401:
- *         description: Unauthorized - Missing, invalid, or expired token
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/UnauthorizedError'
- */
-/**
- * GET /api/v1/profiles
- * Retrieves all profiles from the system
- * Protected: Requires valid JWT token
- */
-router.get("/", authenticateToken, async (_req: Request, res: Response) => {
-  try {
-    // Delegate business logic to service layer
-    const profiles = await profileService.getAllProfiles();
-
-    // Return successful response with data
-    res.json(profiles);
-  } catch (error) {
-    // Log error for debugging (in production, use proper logging)
-    console.error('Error fetching profiles:', error);
-
-    // Return generic error to client
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
-
 /**
  * @swagger
  * /api/v1/login:
@@ -313,6 +268,14 @@ router.get("/:id", authenticateToken, requireSameUser('id'), async (req: Request
  *                 type: string
  *                 nullable: true
  *                 example: "Active"
+ *               homeCurrency:
+ *                 type: string
+ *                 description: ISO 4217 code that reports are converted into (default USD)
+ *                 example: "USD"
+ *               timeZone:
+ *                 type: string
+ *                 description: IANA time zone spoken dates are resolved in (default UTC)
+ *                 example: "America/Chicago"
  *     responses:
  *       201:
  *         description: Profile created successfully. Firebase custom claim userId has been set.
@@ -431,6 +394,19 @@ router.post("/", authenticateToken, async (req: Request, res: Response) => {
  *                 type: string
  *                 nullable: true
  *                 example: "Active"
+ *               homeCurrency:
+ *                 type: string
+ *                 description: ISO 4217 code that reports are converted into (default USD)
+ *                 example: "USD"
+ *               timeZone:
+ *                 type: string
+ *                 description: IANA time zone spoken dates are resolved in (default UTC)
+ *                 example: "America/Chicago"
+ *               expoPushToken:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Expo push token of the device that should receive budget alerts; null stops push alerts
+ *                 example: "ExponentPushToken[xxxxxxxxxxxxxxxxxxxxxx]"
  *     responses:
  *       200:
  *         description: Profile updated successfully
@@ -1,19 +1,66 @@
 import { Router } from "express";
-import type { Request, Response } from "express";
+import type { NextFunction, Request, Response } from "express";
+import fs from "fs";
 import multer from "multer";
 import { ReceiptService } from "../services/ReceiptService";
+import { ReceiptScanQueue } from "../services/ReceiptScanQueue";
 import { ReceiptValidationError } from "../models/Receipt";
 import { authenticateToken, requireSameUser } from "../middleware/auth.middleware";
+import { rateLimitPerUser } from "../middleware/rateLimit.middleware";
 
-const upload = multer({ dest: "uploads/" });
+// Scanned images are written to uploads/ and removed once their scan job finishes
+const MAX_RECEIPT_IMAGE_BYTES = 10 * 1024 * 1024;
+const RECEIPT_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/heic", "image/heif"];
+const SCANS_PER_MINUTE = 10;
+
+const upload = multer({
+  dest: "uploads/",
+  limits: { fileSize: MAX_RECEIPT_IMAGE_BYTES, files: 1 },
+  fileFilter: (req, file, callback) => {
+    if (!RECEIPT_IMAGE_TYPES.includes(file.mimetype)) {
+      return callback(new ReceiptValidationError("Receipt images must be JPEG, PNG, WebP or HEIC", "file"));
+    }
+    callback(null, true);
+  },
+});
 const router = Router({ mergeParams: true });
 const receiptService = new ReceiptService();
+const receiptScanQueue = new ReceiptScanQueue(receiptService);
+
+const limitScans = rateLimitPerUser({
+  limit: SCANS_PER_MINUTE,
+  windowMs: 60 * 1000,
+  message: `You can scan at most ${SCANS_PER_MINUTE} receipts per minute`,
+});
+
+/**
+ * Runs the single-image upload, turning multer errors into 400/413/415 responses.
+ * Multer removes anything it already wrote to uploads/ before reporting an error.
+ */
+function uploadReceiptImage(req: Request, res: Response, next: NextFunction) {
+  upload.single("file")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const status = error.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+      const message = error.code === "LIMIT_FILE_SIZE"
+        ? `Receipt images can be at most ${MAX_RECEIPT_IMAGE_BYTES / (1024 * 1024)} MB`
+        : error.message;
+      return res.status(status).json({ error: message, field: "file" });
+    }
+    if (error instanceof ReceiptValidationError) {
+      return res.status(415).json({ error: error.message, field: error.field });
+    }
+    if (error) {
+      return next(error);
+    }
+    next();
+  });
+}
 
 /**
  * @swagger
  * tags:
  *   name: Receipts
- *   description: API endpoints for managing receipts (Firebase integration)
+ *   description: API endpoints for managing receipts
  */
 
 /**
@@ -28,7 +75,7 @@ const receiptService = new ReceiptService();
  *         required: true
  *         schema:
  *           type: string
- *         description: Firebase user ID
+ *         description: User ID
  *     responses:
  *       200:
  *         description: List of user's receipts
@@ -65,13 +112,13 @@ router.get("/", authenticateToken, requireSameUser("userId"), async (req: Reques
  *         required: true
  *         schema:
  *           type: string
- *         description: Firebase user ID
+ *         description: User ID
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
- *         description: Receipt document ID
+ *         description: Receipt ID
  *     responses:
  *       200:
  *         description: Receipt found
@@ -84,11 +131,69 @@ router.get("/", authenticateToken, requireSameUser("userId"), async (req: Reques
  */
 router.get("/:id", authenticateToken, requireSameUser("userId"), async (req: Request, res: Response) => {
   try {
-    const receipt = await receiptService.getReceiptById(req.params.id);
+    const receipt = await receiptService.getReceiptById(req.params.userId, req.params.id);
     if (!receipt) return res.status(404).json({ error: "Receipt not found" });
     res.json(receipt);
   } catch (error) {
     console.error("Error fetching receipt:", error);
+    if (error instanceof ReceiptValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/receipts/{id}/image:
+ *   get:
+ *     summary: Get a link to a receipt's image
+ *     description: |
+ *       Returns a signed link to the scanned image that expires after 15 minutes.
+ *       Ask for a new link each time the image is shown. Images hosted
+ *       elsewhere are linked as they are, with expiresAt null.
+ *     tags: [Receipts]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Image link
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 url:
+ *                   type: string
+ *                   example: "http://localhost:3000/api/v1/files/receipts/68df4cd8f4c53b419fc5f196/5f0c.jpg?expires=1760000000&signature=ab12"
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *       404:
+ *         description: Receipt not found, or it has no image
+ */
+router.get("/:id/image", authenticateToken, requireSameUser("userId"), async (req: Request, res: Response) => {
+  try {
+    const link = await receiptService.getReceiptImageLink(req.params.userId, req.params.id);
+    if (!link) return res.status(404).json({ error: "Receipt image not found" });
+    res.json(link);
+  } catch (error) {
+    console.error("Error linking receipt image:", error);
+    if (error instanceof ReceiptValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
     res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -114,13 +219,22 @@ router.get("/:id", authenticateToken, requireSameUser("userId"), async (req: Req
  *     responses:
  *       201:
  *         description: Receipt created successfully
+ *       400:
+ *         description: Invalid receipt data
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
 router.post("/", authenticateToken, requireSameUser("userId"), async (req: Request, res: Response) => {
   try {
-    const receipt = await receiptService.createReceipt(req.body);
+    const receipt = await receiptService.createReceipt(req.params.userId, req.body);
     res.status(201).json(receipt);
   } catch (error: any) {
     console.error("Error creating receipt:", error);
+    if (error instanceof ReceiptValidationError) {
+      return res.status(400).json({ error: error.message, field: error.field });
+    }
     res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -151,16 +265,21 @@ router.post("/", authenticateToken, requireSameUser("userId"), async (req: Reque
  *     responses:
  *       200:
  *         description: Receipt updated successfully
+ *       400:
+ *         description: Invalid receipt data
  *       404:
  *         description: Receipt not found
  */
 router.put("/:id", authenticateToken, requireSameUser("userId"), async (req: Request, res: Response) => {
   try {
-    const receipt = await receiptService.updateReceipt(req.params.id, req.body);
+    const receipt = await receiptService.updateReceipt(req.params.userId, req.params.id, req.body);
     if (!receipt) return res.status(404).json({ error: "Receipt not found" });
     res.json(receipt);
   } catch (error) {
     console.error("Error updating receipt:", error);
+    if (error instanceof ReceiptValidationError) {
+      return res.status(400).json({ error: error.message, field: error.field });
+    }
     res.status(500).json({ error: "Internal server error" });
   }
 });
@@ -169,8 +288,19 @@ router.put("/:id", authenticateToken, requireSameUser("userId"), async (req: Req
  * @swagger
  * /api/v1/users/{userId}/receipts/scan:
  *   post:
- *     summary: Upload a receipt image and extract structured data
+ *     summary: Upload a receipt image to be scanned in the background
+ *     description: |
+ *       Queues the image and returns a job at once. The job reads the text
+ *       (OCR), parses it, picks a category, stores the image and saves the
+ *       receipt, retrying a stage that fails. Poll the URL in the Location
+ *       header, GET /api/v1/users/{userId}/receipts/jobs/{jobId}, for progress
+ *       and the extracted data.
+ *
+ *       Images must be JPEG, PNG, WebP or HEIC and at most 10 MB, and each user
+ *       can scan at most 10 receipts per minute.
  *     tags: [Receipts]
+ *     security:
+ *       - BearerAuth: []
  *     parameters:
  *       - in: path
  *         name: userId
@@ -183,23 +313,121 @@ router.put("/:id", authenticateToken, requireSameUser("userId"), async (req: Req
  *         multipart/form-data:
  *           schema:
  *             type: object
+ *             required: [file]
  *             properties:
  *               file:
  *                 type: string
  *                 format: binary
  *     responses:
+ *       202:
+ *         description: Scan queued
+ *         headers:
+ *           Location:
+ *             description: URL of the job
+ *             schema:
+ *               type: string
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReceiptJob'
+ *       400:
+ *         description: No file uploaded, or the file is not a readable image
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - Missing token, invalid token, or userId mismatch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       413:
+ *         description: Image is larger than 10 MB
+ *       415:
+ *         description: Image type is not supported
+ *       429:
+ *         description: Scan limit reached; retry after the number of seconds in the Retry-After header
+ *       500:
+ *         description: The scan could not be queued
+ */
+router.post("/scan", authenticateToken, requireSameUser("userId"), limitScans, uploadReceiptImage, async (req: Request, res: Response) => {
+  if (!req.file) {
+    return res.status(400).json({ error: "No file uploaded", field: "file" });
+  }
+
+  const filePath = req.file.path;
+  try {
+    const job = await receiptScanQueue.enqueue(req.params.userId, filePath);
+    res.status(202).location(`${req.baseUrl}/jobs/${job.id}`).json(job);
+  } catch (error) {
+    // The job owns the upload once queued; anything else leaves it behind
+    fs.promises.rm(filePath, { force: true }).catch((cleanupError) => {
+      console.error("Failed to remove uploaded receipt image:", cleanupError);
+    });
+
+    console.error("Error queueing receipt scan:", error);
+    if (error instanceof ReceiptValidationError) {
+      return res.status(400).json({ error: error.message, field: error.field });
+    }
+    res.status(500).json({ error: "Failed to queue receipt" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/receipts/jobs/{jobId}:
+ *   get:
+ *     summary: Get the status of a receipt scan
+ *     description: |
+ *       `progress` is the percentage of stages done. Once `status` is
+ *       completed, `result.id` is the saved receipt and `result.data` the
+ *       extracted merchant, total, date, category and line items.
+ *
+ *       Line items, subtotal, tax and tip are read from the text and checked
+ *       against the total; `reconciliation.warnings` lists any mismatch.
+ *       `categorySplits` suggests how to split the total by item category,
+ *       ready to send as a transaction's `splits` once categories are resolved.
+ *
+ *       Jobs are kept for 7 days after they finish.
+ *     tags: [Receipts]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
  *       200:
- *         description: Extracted receipt data
+ *         description: The job
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReceiptJob'
+ *       401:
+ *         description: Unauthorized - Missing token, invalid token, or userId mismatch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       404:
+ *         description: Job not found
  */
-router.post("/scan", upload.single("file"), async (req: Request, res: Response) => {
+router.get("/jobs/:jobId", authenticateToken, requireSameUser("userId"), async (req: Request, res: Response) => {
   try {
-    const userId = req.params.userId;
-    if (!req.file) return res.status(400).json({ error: "No file uploaded" });
-    const result = await receiptService.processReceipt(userId, req.file.path);
-    res.status(200).json(result);
-  } catch (error: any) {
-    console.error("Error scanning receipt:", error);
-    res.status(500).json({ error: error.message || "Internal server error" });
+    const job = await receiptScanQueue.getJob(req.params.userId, req.params.jobId);
+    if (!job) return res.status(404).json({ error: "Receipt job not found" });
+    res.json(job);
+  } catch (error) {
+    console.error("Error fetching receipt job:", error);
+    res.status(500).json({ error: "Internal server error" });
   }
 });
 
@@ -228,7 +456,7 @@ router.post("/scan", upload.single("file"), async (req: Request, res: Response)
  */
 router.delete("/:id", authenticateToken, requireSameUser("userId"), async (req: Request, res: Response) => {
   try {
-    const success = await receiptService.deleteReceipt(req.params.id);
+    const success = await receiptService.deleteReceipt(req.params.userId, req.params.id);
     if (!success) return res.status(404).json({ error: "Receipt not found" });
     res.status(204).send();
   } catch (error) {
@@ -0,0 +1,587 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { RecurringTransactionService } from '../services/RecurringTransactionService';
+import { RecurringTransactionValidationError } from '../models/RecurringTransaction';
+import { authenticateToken, requireSameUser } from '../middleware/auth.middleware';
+
+const router = Router({ mergeParams: true });
+
+const recurringService = new RecurringTransactionService();
+
+/**
+ * Shared error handler for recurring transaction routes.
+ * Validation errors map to 400, everything else to 500.
+ */
+function handleError(res: Response, error: unknown, context: string) {
+  console.error(`Error ${context}:`, error);
+
+  if (error instanceof RecurringTransactionValidationError) {
+    return res.status(400).json({
+      error: error.message,
+      field: error.field,
+      missing: error.missingFields
+    });
+  }
+
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/recurring:
+ *   get:
+ *     summary: Get all recurring transactions for a user
+ *     description: Requires authentication and authorization - userId in JWT must match userId in URL
+ *     tags: [Recurring Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (must match userId in JWT custom claim)
+ *     responses:
+ *       200:
+ *         description: List of the user's recurring transactions, soonest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/RecurringTransaction'
+ *       401:
+ *         description: Unauthorized - Missing token, invalid token, or userId mismatch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.get("/", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const series = await recurringService.getRecurringTransactionsByUserId(req.params.userId);
+    res.json(series);
+  } catch (error) {
+    handleError(res, error, 'fetching recurring transactions');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/recurring/materialize:
+ *   post:
+ *     summary: Generate transactions for due occurrences
+ *     description: |
+ *       Catches up every active series of the user, creating one transaction per due occurrence.
+ *       Idempotent - occurrences that already have a transaction are not created again.
+ *       The server also runs this for all users on startup and hourly.
+ *     tags: [Recurring Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Number of transactions created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 created:
+ *                   type: integer
+ *                   example: 2
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ */
+router.post("/materialize", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const created = await recurringService.materializeDue(new Date(), req.params.userId);
+    res.json({ created });
+  } catch (error) {
+    handleError(res, error, 'materializing recurring transactions');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/recurring/{id}:
+ *   get:
+ *     summary: Get a recurring transaction by ID
+ *     tags: [Recurring Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Recurring transaction found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecurringTransaction'
+ *       404:
+ *         description: Recurring transaction not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get("/:id", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const recurring = await recurringService.getRecurringTransactionById(req.params.userId, req.params.id);
+
+    if (!recurring) {
+      return res.status(404).json({ error: "Recurring transaction not found" });
+    }
+
+    res.json(recurring);
+  } catch (error) {
+    handleError(res, error, 'fetching recurring transaction');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/recurring:
+ *   post:
+ *     summary: Create a recurring transaction
+ *     description: |
+ *       Schedule examples:
+ *       - Monthly on day 1: `{ "frequency": "monthly", "dayOfMonth": 1 }`
+ *       - Every Friday: `{ "frequency": "weekly", "dayOfWeek": 5 }`
+ *       - Yearly on March 3: `{ "frequency": "yearly", "month": 3, "dayOfMonth": 3 }`
+ *       - Every 14 days: `{ "frequency": "daily", "interval": 14 }`
+ *
+ *       Omitted day fields default to those of startDate.
+ *     tags: [Recurring Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - vendorName
+ *               - description
+ *               - amount
+ *               - paymentType
+ *               - categoryId
+ *               - rule
+ *               - startDate
+ *             properties:
+ *               vendorName:
+ *                 type: string
+ *                 example: "Netflix"
+ *               description:
+ *                 type: string
+ *                 example: "Streaming subscription"
+ *               amount:
+ *                 type: number
+ *                 example: 15.49
+ *               currency:
+ *                 type: string
+ *                 description: ISO 4217 code; defaults to the user's home currency
+ *                 example: "USD"
+ *               paymentType:
+ *                 type: string
+ *                 example: "Credit Card"
+ *               categoryId:
+ *                 type: string
+ *                 example: "507f1f77bcf86cd799439012"
+ *               kind:
+ *                 type: string
+ *                 enum: [income, expense, transfer]
+ *                 description: Defaults to the category's kind, then expense
+ *               rule:
+ *                 $ref: '#/components/schemas/RecurrenceRule'
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Recurring transaction created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecurringTransaction'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ */
+router.post("/", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    // userId always comes from the path so a series can't be created for someone else
+    const recurring = await recurringService.createRecurringTransaction({
+      ...req.body,
+      userId: req.params.userId
+    });
+
+    res.status(201).json(recurring);
+  } catch (error) {
+    handleError(res, error, 'creating recurring transaction');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/recurring/{id}:
+ *   put:
+ *     summary: Update a recurring transaction
+ *     description: Changing the rule or endDate recomputes the next occurrence. Already generated transactions are not changed.
+ *     tags: [Recurring Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               vendorName:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *               currency:
+ *                 type: string
+ *               paymentType:
+ *                 type: string
+ *               categoryId:
+ *                 type: string
+ *               kind:
+ *                 type: string
+ *                 enum: [income, expense, transfer]
+ *               rule:
+ *                 $ref: '#/components/schemas/RecurrenceRule'
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: Pass null to remove the end date
+ *     responses:
+ *       200:
+ *         description: Recurring transaction updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecurringTransaction'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Recurring transaction not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put("/:id", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const recurring = await recurringService.updateRecurringTransaction(req.params.userId, req.params.id, req.body);
+
+    if (!recurring) {
+      return res.status(404).json({ error: "Recurring transaction not found" });
+    }
+
+    res.json(recurring);
+  } catch (error) {
+    handleError(res, error, 'updating recurring transaction');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/recurring/{id}:
+ *   delete:
+ *     summary: Delete a recurring transaction
+ *     description: Transactions already generated by the series are kept.
+ *     tags: [Recurring Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Recurring transaction deleted
+ *       404:
+ *         description: Recurring transaction not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete("/:id", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const deleted = await recurringService.deleteRecurringTransaction(req.params.userId, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({ error: "Recurring transaction not found" });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    handleError(res, error, 'deleting recurring transaction');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/recurring/{id}/pause:
+ *   post:
+ *     summary: Pause a recurring transaction
+ *     tags: [Recurring Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Recurring transaction paused
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecurringTransaction'
+ *       400:
+ *         description: Series has already ended
+ *       404:
+ *         description: Recurring transaction not found
+ */
+router.post("/:id/pause", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const recurring = await recurringService.pauseRecurringTransaction(req.params.userId, req.params.id);
+
+    if (!recurring) {
+      return res.status(404).json({ error: "Recurring transaction not found" });
+    }
+
+    res.json(recurring);
+  } catch (error) {
+    handleError(res, error, 'pausing recurring transaction');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/recurring/{id}/resume:
+ *   post:
+ *     summary: Resume a paused recurring transaction
+ *     description: Occurrences that fell inside the pause are not generated.
+ *     tags: [Recurring Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Recurring transaction resumed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecurringTransaction'
+ *       400:
+ *         description: Series has already ended
+ *       404:
+ *         description: Recurring transaction not found
+ */
+router.post("/:id/resume", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const recurring = await recurringService.resumeRecurringTransaction(req.params.userId, req.params.id);
+
+    if (!recurring) {
+      return res.status(404).json({ error: "Recurring transaction not found" });
+    }
+
+    res.json(recurring);
+  } catch (error) {
+    handleError(res, error, 'resuming recurring transaction');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/recurring/{id}/skip:
+ *   post:
+ *     summary: Skip one occurrence
+ *     tags: [Recurring Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Occurrence to skip (matched by day). Defaults to the next occurrence.
+ *     responses:
+ *       200:
+ *         description: Occurrence skipped
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecurringTransaction'
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Recurring transaction not found
+ */
+router.post("/:id/skip", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const recurring = await recurringService.skipOccurrence(req.params.userId, req.params.id, req.body);
+
+    if (!recurring) {
+      return res.status(404).json({ error: "Recurring transaction not found" });
+    }
+
+    res.json(recurring);
+  } catch (error) {
+    handleError(res, error, 'skipping recurring occurrence');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/recurring/{id}/end:
+ *   post:
+ *     summary: End a recurring transaction
+ *     description: Occurrences up to and including the end date are still generated.
+ *     tags: [Recurring Transactions]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Last day of the series. Defaults to now.
+ *     responses:
+ *       200:
+ *         description: Recurring transaction ended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecurringTransaction'
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Recurring transaction not found
+ */
+router.post("/:id/end", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const recurring = await recurringService.endRecurringTransaction(req.params.userId, req.params.id, req.body);
+
+    if (!recurring) {
+      return res.status(404).json({ error: "Recurring transaction not found" });
+    }
+
+    res.json(recurring);
+  } catch (error) {
+    handleError(res, error, 'ending recurring transaction');
+  }
+});
+
+export default router;
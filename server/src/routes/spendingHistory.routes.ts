@@ -254,12 +254,132 @@ router.get("/detailed", authenticateToken, requireSameUser('userId'), async (req
   }
 });
 
+/**
+ * @swagger
+ * /api/v1/users/{userId}/spending/cashflow:
+ *   get:
+ *     summary: Get income, expenses and net cash flow for a period
+ *     description: Transfers between the user's own accounts are reported separately and don't count as income or expenses
+ *     tags: [Spending History]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (MongoDB ObjectId)
+ *       - in: query
+ *         name: period
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [current_month, past_week, past_30_days, custom]
+ *         description: Time period for the report
+ *       - in: query
+ *         name: startDate
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start date (required if period is 'custom')
+ *       - in: query
+ *         name: endDate
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End date (required if period is 'custom')
+ *     responses:
+ *       200:
+ *         description: Cash-flow totals for the period
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 userId:
+ *                   type: string
+ *                 period:
+ *                   type: string
+ *                 startDate:
+ *                   type: string
+ *                   format: date-time
+ *                 endDate:
+ *                   type: string
+ *                   format: date-time
+ *                 totalIncome:
+ *                   type: number
+ *                   example: 4200
+ *                 totalExpenses:
+ *                   type: number
+ *                   example: 2345
+ *                 totalTransfers:
+ *                   type: number
+ *                   example: 500
+ *                 netFlow:
+ *                   type: number
+ *                   example: 1855
+ *                 savingsRate:
+ *                   type: number
+ *                   nullable: true
+ *                   description: Percentage of income not spent; null when there was no income
+ *                   example: 44.17
+ *                 incomeCount:
+ *                   type: number
+ *                 expenseCount:
+ *                   type: number
+ *                 transferCount:
+ *                   type: number
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.get("/cashflow", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    // Get userId from path parameter
+    const userId = req.params.userId;
+
+    // Validate query parameters
+    const queryValidation = SpendingQuerySchema.safeParse(req.query);
+
+    if (!queryValidation.success) {
+      return res.status(400).json({
+        error: 'Invalid query parameters',
+        details: queryValidation.error.issues
+      });
+    }
+
+    const query = queryValidation.data;
+
+    // Get cash-flow report from service
+    const report = await spendingHistoryService.getCashFlow(userId, query);
+
+    // Return successful response
+    res.json(report);
+  } catch (error) {
+    console.error('Error fetching cash flow:', error);
+
+    // Handle specific errors
+    if (error instanceof Error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    // Generic server error
+    res.status(500).json({ error: 'Failed to fetch cash flow' });
+  }
+});
+
 /**
  * @swagger
  * /api/v1/users/{userId}/spending/monthly-trends:
  *   get:
  *     summary: Get monthly spending trends with current month total and comparison
- *     description: Returns current month spending, historical monthly breakdown, and percentage change comparison for trend visualization
+ *     description: |
+ *       Returns current month spending, historical monthly breakdown, and percentage change comparison for trend visualization.
+ *       totalAmount covers expenses only; each month also reports income, net flow and savings rate.
  *     tags: [Spending History]
  *     parameters:
  *       - in: path
@@ -306,6 +426,17 @@ router.get("/detailed", authenticateToken, requireSameUser('userId'), async (req
  *                     transactionCount:
  *                       type: number
  *                       example: 45
+ *                     totalIncome:
+ *                       type: number
+ *                       example: 4200
+ *                     netFlow:
+ *                       type: number
+ *                       example: 1855
+ *                     savingsRate:
+ *                       type: number
+ *                       nullable: true
+ *                       description: Percentage of income not spent; null when there was no income
+ *                       example: 44.17
  *                     startDate:
  *                       type: string
  *                       format: date-time
@@ -328,6 +459,10 @@ router.get("/detailed", authenticateToken, requireSameUser('userId'), async (req
  *                     previousMonthsAverage:
  *                       type: number
  *                       example: 2094.64
+ *                     averageSavingsRate:
+ *                       type: number
+ *                       nullable: true
+ *                       example: 38.5
  *                 monthlyBreakdown:
  *                   type: array
  *                   items:
@@ -348,6 +483,16 @@ router.get("/detailed", authenticateToken, requireSameUser('userId'), async (req
  *                       transactionCount:
  *                         type: number
  *                         example: 52
+ *                       totalIncome:
+ *                         type: number
+ *                         example: 4200
+ *                       netFlow:
+ *                         type: number
+ *                         example: 2100
+ *                       savingsRate:
+ *                         type: number
+ *                         nullable: true
+ *                         example: 50
  *                       startDate:
  *                         type: string
  *                         format: date-time
@@ -0,0 +1,495 @@
+import { Router } from "express";
+import type { NextFunction, Request, Response } from "express";
+import multer from "multer";
+import { StatementImportService } from '../services/StatementImportService';
+import { StatementImportValidationError } from '../models/StatementImport';
+import { authenticateToken, requireSameUser } from '../middleware/auth.middleware';
+
+// Statements are parsed in memory; nothing is written to uploads/
+const MAX_STATEMENT_BYTES = 5 * 1024 * 1024;
+
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_STATEMENT_BYTES, files: 1 } });
+const router = Router({ mergeParams: true });
+
+const statementImportService = new StatementImportService();
+
+/**
+ * Shared error handler for statement import routes.
+ * Validation errors map to 400 (409 when the import was already committed or
+ * rolled back), everything else to 500.
+ */
+function handleError(res: Response, error: unknown, context: string) {
+  console.error(`Error ${context}:`, error);
+
+  if (error instanceof StatementImportValidationError) {
+    const status = error.message.includes('already') ? 409 : 400;
+    return res.status(status).json({
+      error: error.message,
+      field: error.field,
+      missing: error.missingFields
+    });
+  }
+
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+/**
+ * Runs the single-file upload, turning multer errors into 400/413 responses.
+ */
+function uploadStatement(req: Request, res: Response, next: NextFunction) {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `Statement files can be at most ${MAX_STATEMENT_BYTES / (1024 * 1024)} MB`
+        : error.message;
+      return res.status(status).json({ error: message, field: 'file' });
+    }
+    if (error) {
+      return next(error);
+    }
+    next();
+  });
+}
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/transactions/import:
+ *   post:
+ *     summary: Upload a bank statement and preview the import
+ *     description: |
+ *       Parses a CSV or OFX/QFX statement without saving any transactions.
+ *       Each row gets a suggested category and is checked against existing
+ *       transactions (same amount, date within 3 days, similar vendor) for likely
+ *       duplicates. For CSV files the column mapping is taken from `mapping`,
+ *       then `mappingProfileId`, and is otherwise guessed from the header line.
+ *       Previews that are not committed are discarded after 24 hours.
+ *     tags: [Statement Imports]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: CSV, OFX or QFX statement (max 5 MB, 2000 rows)
+ *               mapping:
+ *                 type: string
+ *                 description: JSON-encoded ColumnMapping (CSV only)
+ *                 example: '{"date":"Posted Date","vendor":"Payee","amount":"Amount","dateFormat":"MM/DD/YYYY"}'
+ *               mappingProfileId:
+ *                 type: string
+ *                 description: Saved mapping profile to use (CSV only)
+ *               saveMappingAs:
+ *                 type: string
+ *                 description: Save the mapping used as a profile with this name
+ *                 example: "Chase checking"
+ *               paymentType:
+ *                 type: string
+ *                 default: "Debit"
+ *                 description: Payment type given to the imported transactions
+ *     responses:
+ *       201:
+ *         description: Import preview
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StatementImport'
+ *       400:
+ *         description: Missing file, unreadable statement or invalid mapping
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Cannot import for another user
+ *       413:
+ *         description: Statement file is too large
+ *   get:
+ *     summary: List statement imports
+ *     description: Newest first. Rows are not included; fetch a single import to see them.
+ *     tags: [Statement Imports]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The user's imports
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/StatementImport'
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Cannot access another user's imports
+ */
+router.post("/", authenticateToken, requireSameUser('userId'), uploadStatement, async (req: Request, res: Response) => {
+  try {
+    const preview = await statementImportService.createPreview(req.params.userId, req.file, req.body);
+    res.status(201).json(preview);
+  } catch (error) {
+    handleError(res, error, 'previewing statement import');
+  }
+});
+
+router.get("/", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const imports = await statementImportService.getImports(req.params.userId);
+    res.json(imports);
+  } catch (error) {
+    handleError(res, error, 'fetching statement imports');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/transactions/import/mappings:
+ *   get:
+ *     summary: List saved column mapping profiles
+ *     tags: [Statement Imports]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The user's mapping profiles, by name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ImportMappingProfile'
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Cannot access another user's mappings
+ *   post:
+ *     summary: Save a column mapping profile
+ *     description: Replaces the user's profile with the same name, if any.
+ *     tags: [Statement Imports]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - mapping
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Chase checking"
+ *               mapping:
+ *                 $ref: '#/components/schemas/ColumnMapping'
+ *     responses:
+ *       201:
+ *         description: Saved profile
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportMappingProfile'
+ *       400:
+ *         description: Invalid mapping
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Cannot save mappings for another user
+ */
+router.get("/mappings", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const profiles = await statementImportService.getMappingProfiles(req.params.userId);
+    res.json(profiles);
+  } catch (error) {
+    handleError(res, error, 'fetching import mappings');
+  }
+});
+
+router.post("/mappings", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const profile = await statementImportService.saveMappingProfile(req.params.userId, req.body);
+    res.status(201).json(profile);
+  } catch (error) {
+    handleError(res, error, 'saving import mapping');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/transactions/import/mappings/{mappingId}:
+ *   delete:
+ *     summary: Delete a saved column mapping profile
+ *     tags: [Statement Imports]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: mappingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Profile deleted
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Cannot delete another user's mappings
+ *       404:
+ *         description: Profile not found
+ */
+router.delete("/mappings/:mappingId", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const deleted = await statementImportService.deleteMappingProfile(req.params.userId, req.params.mappingId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Mapping profile not found' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    handleError(res, error, 'deleting import mapping');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/transactions/import/{importId}:
+ *   get:
+ *     summary: Get a statement import with its rows
+ *     tags: [Statement Imports]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: importId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The import
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StatementImport'
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Cannot access another user's imports
+ *       404:
+ *         description: Import not found
+ */
+router.get("/:importId", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const statementImport = await statementImportService.getImport(req.params.userId, req.params.importId);
+    if (!statementImport) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+    res.json(statementImport);
+  } catch (error) {
+    handleError(res, error, 'fetching statement import');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/transactions/import/{importId}/commit:
+ *   post:
+ *     summary: Commit a previewed import
+ *     description: |
+ *       Saves the accepted rows as transactions in one batch, all tagged with the
+ *       import ID. Without `rows`, every readable row not flagged as a duplicate is
+ *       saved. Listing a flagged row in `rows` imports it anyway. Rows need a
+ *       category, either suggested or given here.
+ *     tags: [Statement Imports]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: importId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               rows:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - rowNumber
+ *                   properties:
+ *                     rowNumber:
+ *                       type: integer
+ *                       example: 3
+ *                     categoryId:
+ *                       type: string
+ *                     kind:
+ *                       type: string
+ *                       enum: [income, expense, transfer]
+ *                     vendorName:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Committed import with the created transaction IDs
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StatementImport'
+ *       400:
+ *         description: A selected row is unreadable, unknown or has no category
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Cannot commit another user's imports
+ *       404:
+ *         description: Import not found
+ *       409:
+ *         description: Import has already been committed
+ */
+router.post("/:importId/commit", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const statementImport = await statementImportService.commitImport(req.params.userId, req.params.importId, req.body);
+    if (!statementImport) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+    res.json(statementImport);
+  } catch (error) {
+    handleError(res, error, 'committing statement import');
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/{userId}/transactions/import/{importId}/rollback:
+ *   post:
+ *     summary: Roll back a committed import
+ *     description: Deletes every transaction created by the import and recomputes the affected budgets.
+ *     tags: [Statement Imports]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: importId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rolled back import
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StatementImport'
+ *       400:
+ *         description: Import has not been committed
+ *       401:
+ *         description: Unauthorized - Missing or invalid token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Cannot roll back another user's imports
+ *       404:
+ *         description: Import not found
+ *       409:
+ *         description: Import has already been rolled back
+ */
+router.post("/:importId/rollback", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const statementImport = await statementImportService.rollbackImport(req.params.userId, req.params.importId);
+    if (!statementImport) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+    res.json(statementImport);
+  } catch (error) {
+    handleError(res, error, 'rolling back statement import');
+  }
+});
+
+export default router;
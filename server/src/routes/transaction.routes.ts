@@ -1,5 +1,7 @@
 import { Router } from "express";
 import type { Request, Response } from "express";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
 import { TransactionService } from '../services/TransactionService';
 import { TransactionValidationError } from '../models/Transaction';
 import { authenticateToken, requireSameUser } from '../middleware/auth.middleware';
@@ -8,11 +10,21 @@ const router = Router({ mergeParams: true });
 
 const transactionService = new TransactionService();
 
+// Query parameters that switch the listing endpoint into paginated mode
+const LIST_QUERY_PARAMS = [
+  'limit', 'cursor', 'startDate', 'endDate', 'categoryId', 'paymentType',
+  'kind', 'vendor', 'minAmount', 'maxAmount', 'sortBy', 'sortOrder'
+];
+
 /**
  * @swagger
  * /api/v1/users/{userId}/transactions:
  *   get:
- *     summary: Get all transactions for a user
+ *     summary: Get transactions for a user
+ *     description: |
+ *       Without query parameters, returns every transaction for the user as an array (legacy behavior).
+ *       When any listing parameter is supplied, returns a single page of results with a cursor
+ *       for the next page. Pass nextCursor back as `cursor` with the same filters and sort.
  *     tags: [Transactions]
  *     parameters:
  *       - in: path
@@ -21,21 +33,116 @@ const transactionService = new TransactionService();
  *         schema:
  *           type: string
  *         description: User ID (MongoDB ObjectId)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *         description: Page size
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor returned as nextCursor by the previous page
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *         description: Earliest transaction date (YYYY-MM-DD or ISO 8601, inclusive)
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *         description: Latest transaction date (YYYY-MM-DD or ISO 8601, inclusive)
+ *       - in: query
+ *         name: categoryId
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         style: form
+ *         explode: false
+ *         description: One or more category IDs (comma separated or repeated)
+ *       - in: query
+ *         name: paymentType
+ *         schema:
+ *           type: string
+ *         description: Exact payment type
+ *       - in: query
+ *         name: kind
+ *         schema:
+ *           type: string
+ *           enum: [income, expense, transfer]
+ *         description: Only transactions of this kind
+ *       - in: query
+ *         name: vendor
+ *         schema:
+ *           type: string
+ *         description: Case-insensitive vendor name substring
+ *       - in: query
+ *         name: minAmount
+ *         schema:
+ *           type: number
+ *         description: Minimum amount (inclusive)
+ *       - in: query
+ *         name: maxAmount
+ *         schema:
+ *           type: number
+ *         description: Maximum amount (inclusive)
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [dateTime, amount, vendorName, createdAt]
+ *           default: dateTime
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
  *     responses:
  *       200:
- *         description: List of user's transactions
+ *         description: List of user's transactions, or a page of them when listing parameters are used
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Transaction'
+ *               oneOf:
+ *                 - type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Transaction'
+ *                 - type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Transaction'
+ *                     nextCursor:
+ *                       type: string
+ *                       nullable: true
+ *                     hasMore:
+ *                       type: boolean
+ *       400:
+ *         description: Invalid query parameters or cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
 router.get("/", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
   try {
     // Get userId from path parameter
     const userId = req.params.userId;
 
+    // Paginated listing when any listing parameter is present
+    const isListQuery = LIST_QUERY_PARAMS.some(param => req.query[param] !== undefined);
+    if (isListQuery) {
+      const page = await transactionService.listTransactions(userId, req.query);
+      return res.json(page);
+    }
+
     // Delegate business logic to service layer
     const transactions = await transactionService.getTransactionsByUserId(userId);
 
@@ -47,7 +154,7 @@ router.get("/", authenticateToken, requireSameUser('userId'), async (req: Reques
 
     // Handle validation errors (bad request format)
     if (error instanceof TransactionValidationError) {
-      return res.status(400).json({ error: error.message });
+      return res.status(400).json({ error: error.message, field: error.field });
     }
 
     // Return generic error to client
@@ -55,6 +162,131 @@ router.get("/", authenticateToken, requireSameUser('userId'), async (req: Reques
   }
 });
 
+/**
+ * @swagger
+ * /api/v1/users/{userId}/transactions/export:
+ *   get:
+ *     summary: Export transactions as a file
+ *     description: |
+ *       Streams every transaction matching the filters as CSV, JSON, OFX or XLSX. Accepts the same
+ *       filter and sort parameters as the listing endpoint (without limit and cursor). Category names
+ *       are resolved, and split transactions produce one row per split line in CSV and XLSX.
+ *     tags: [Transactions]
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID (MongoDB ObjectId)
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, json, ofx, xlsx]
+ *           default: csv
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *         description: Earliest transaction date (YYYY-MM-DD or ISO 8601, inclusive)
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *         description: Latest transaction date (YYYY-MM-DD or ISO 8601, inclusive)
+ *       - in: query
+ *         name: categoryId
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         style: form
+ *         explode: false
+ *         description: One or more category IDs (comma separated or repeated)
+ *       - in: query
+ *         name: paymentType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: kind
+ *         schema:
+ *           type: string
+ *           enum: [income, expense, transfer]
+ *       - in: query
+ *         name: vendor
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: minAmount
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: maxAmount
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [dateTime, amount, vendorName, createdAt]
+ *           default: dateTime
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *     responses:
+ *       200:
+ *         description: The export file, sent as an attachment
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Transaction'
+ *           application/x-ofx:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid format or filter parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get("/export", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
+  try {
+    const exported = await transactionService.exportTransactions(req.params.userId, req.query);
+
+    res.setHeader('Content-Type', exported.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${exported.fileName}"`);
+    await pipeline(Readable.from(exported.body), res);
+  } catch (error) {
+    console.error('Error exporting transactions:', error);
+
+    // Once streaming has started the status is already sent; just drop the connection
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+
+    if (error instanceof TransactionValidationError) {
+      return res.status(400).json({ error: error.message, field: error.field });
+    }
+
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * @swagger
  * /api/v1/users/{userId}/transactions/{id}:
@@ -91,9 +323,9 @@ router.get("/", authenticateToken, requireSameUser('userId'), async (req: Reques
 router.get("/:id", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
   try {
     // Extract ID from URL parameter
-    const transaction = await transactionService.getTransactionById(req.params.id);
+    const transaction = await transactionService.getTransactionById(req.params.userId, req.params.id);
 
-    // Check if transaction exists
+    // Check if transaction exists (transactions of other users look the same as missing ones)
     if (!transaction) {
       return res.status(404).json({ error: "Transaction not found" });
     }
@@ -139,7 +371,6 @@ router.get("/:id", authenticateToken, requireSameUser('userId'), async (req: Req
  *               - dateTime
  *               - amount
  *               - paymentType
- *               - categoryId
  *             properties:
  *               userId:
  *                 type: string
@@ -158,12 +389,26 @@ router.get("/:id", authenticateToken, requireSameUser('userId'), async (req: Req
  *                 type: number
  *                 format: double
  *                 example: 5.99
+ *               currency:
+ *                 type: string
+ *                 description: ISO 4217 code of amount; defaults to the user's home currency
+ *                 example: "EUR"
  *               paymentType:
  *                 type: string
  *                 example: "Credit Card"
+ *               kind:
+ *                 type: string
+ *                 enum: [income, expense, transfer]
+ *                 description: Defaults to the category's kind, then expense
  *               categoryId:
  *                 type: string
+ *                 description: Required unless splits are given (defaults to the largest split's category)
  *                 example: "507f1f77bcf86cd799439012"
+ *               splits:
+ *                 type: array
+ *                 description: Split the amount across categories. Line amounts must add up to amount.
+ *                 items:
+ *                   $ref: '#/components/schemas/TransactionSplit'
  *               receiptId:
  *                 type: string
  *                 example: "507f1f77bcf86cd799439013"
@@ -245,12 +490,24 @@ router.post("/", authenticateToken, requireSameUser('userId'), async (req: Reque
  *                 type: number
  *                 format: double
  *                 example: 5.99
+ *               currency:
+ *                 type: string
+ *                 example: "EUR"
  *               paymentType:
  *                 type: string
  *                 example: "Credit Card"
+ *               kind:
+ *                 type: string
+ *                 enum: [income, expense, transfer]
  *               categoryId:
  *                 type: string
  *                 example: "507f1f77bcf86cd799439012"
+ *               splits:
+ *                 type: array
+ *                 nullable: true
+ *                 description: Replace the split lines (must add up to amount), or null to remove the split
+ *                 items:
+ *                   $ref: '#/components/schemas/TransactionSplit'
  *               receiptId:
  *                 type: string
  *                 example: "507f1f77bcf86cd799439013"
@@ -277,7 +534,7 @@ router.post("/", authenticateToken, requireSameUser('userId'), async (req: Reque
 router.put("/:id", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
   try {
     // Pass ID and request body to service for validation and update
-    const transaction = await transactionService.updateTransaction(req.params.id, req.body);
+    const transaction = await transactionService.updateTransaction(req.params.userId, req.params.id, req.body);
 
     // Check if transaction exists
     if (!transaction) {
@@ -304,7 +561,7 @@ router.put("/:id", authenticateToken, requireSameUser('userId'), async (req: Req
 
 router.delete("/:id", authenticateToken, requireSameUser('userId'), async (req: Request, res: Response) => {
   try {
-    const deleted = await transactionService.deleteTransaction(req.params.id);
+    const deleted = await transactionService.deleteTransaction(req.params.userId, req.params.id);
     if (!deleted) {
       return res.status(404).json({ error: 'Transaction not found' });
     }
@@ -0,0 +1,37 @@
+/**
+ * Receipt Migration Script
+ *
+ * Copies receipts from Firestore into MongoDB and points linked transactions
+ * at the copies. Safe to run again: receipts copied by an earlier run are skipped.
+ *
+ * Needs FIREBASE_SERVICE_ACCOUNT and the MongoDB settings the server uses.
+ *
+ * Usage:
+ *   npm run migrate:receipts
+ *   npm run migrate:receipts -- --dry-run
+ */
+import "dotenv/config";
+import "../config/firebase-admin";
+import DatabaseConnection from "../config/database";
+import { ReceiptMigrationService } from "../services/ReceiptMigrationService";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  await DatabaseConnection.getInstance().connect();
+
+  try {
+    const { copied, skipped, relinked, failed } = await new ReceiptMigrationService().migrate({ dryRun });
+    console.log(
+      `${dryRun ? "Dry run: would copy" : "Copied"} ${copied} receipt(s), skipped ${skipped} already copied, ` +
+      `relinked ${relinked} transaction(s); ${failed} failed`
+    );
+    process.exitCode = failed > 0 ? 1 : 0;
+  } finally {
+    await DatabaseConnection.getInstance().disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error("Receipt migration failed:", error);
+  process.exit(1);
+});
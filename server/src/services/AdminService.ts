@@ -0,0 +1,271 @@
+import { ProfileRepository } from '../repositories/ProfileRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { BudgetRepository } from '../repositories/BudgetRepository';
+import { BudgetConflictRepository } from '../repositories/BudgetConflictRepository';
+import { CategoryRepository } from '../repositories/CategoryRepository';
+import { RecurringTransactionRepository } from '../repositories/RecurringTransactionRepository';
+import { getUserAccount, setUserDisabled, setUserRoles } from '../config/firebase-admin';
+import {
+  AdminValidationError,
+  listUsersQuerySchema,
+  updateAdminUserSchema,
+  toAdminUserResponse
+} from '../models/Admin';
+import type {
+  AdminUserResponse,
+  AdminUserDetailResponse,
+  UpdateAdminUserRequest,
+  UserUsageStats
+} from '../models/Admin';
+import { restoreBudgetConflictSchema, toBudgetConflictResponse, toBudgetResponse } from '../models/Budget';
+import type { BudgetConflictResponse, BudgetResponse, RestoreBudgetConflictRequest } from '../models/Budget';
+import type { Profile } from '../models/Profile';
+import { z } from 'zod';
+
+/**
+ * Service class for administrator operations across all users.
+ *
+ * Handles:
+ * - Listing and looking up users
+ * - Disabling accounts and granting roles (Firebase account + custom claims)
+ * - Usage stats per user
+ * - Resolving budgets the startup migration set aside
+ *
+ * @swagger
+ * tags:
+ *   name: Admin
+ *   description: User management and usage stats; requires the admin role
+ */
+export class AdminService {
+  private profileRepository: ProfileRepository;
+  private transactionRepository: TransactionRepository;
+  private budgetRepository: BudgetRepository;
+  private budgetConflictRepository: BudgetConflictRepository;
+  private categoryRepository: CategoryRepository;
+  private recurringRepository: RecurringTransactionRepository;
+
+  constructor() {
+    // In a larger app, the repositories would be injected for better testability
+    this.profileRepository = new ProfileRepository();
+    this.transactionRepository = new TransactionRepository();
+    this.budgetRepository = new BudgetRepository();
+    this.budgetConflictRepository = new BudgetConflictRepository();
+    this.categoryRepository = new CategoryRepository();
+    this.recurringRepository = new RecurringTransactionRepository();
+  }
+
+  /**
+   * Lists users, oldest account first.
+   *
+   * @param {any} queryParams - Optional exact email and disabled ("true"/"false") filters
+   * @returns {Promise<AdminUserResponse[]>} Matching users
+   * @throws {AdminValidationError} If the query is invalid
+   */
+  async getUsers(queryParams: any): Promise<AdminUserResponse[]> {
+    const query = parseOrThrow(listUsersQuerySchema, queryParams ?? {});
+    const profiles = await this.profileRepository.findProfiles(query);
+    return profiles.map(profile => toAdminUserResponse(profile));
+  }
+
+  /**
+   * Looks up a user with their account state, roles and usage.
+   *
+   * @param {string} id - The user (profile) ID
+   * @returns {Promise<AdminUserDetailResponse | null>} The user, or null if not found
+   * @throws {AdminValidationError} If the ID is invalid
+   */
+  async getUser(id: string): Promise<AdminUserDetailResponse | null> {
+    if (!id || typeof id !== 'string') {
+      throw new AdminValidationError('Invalid user ID');
+    }
+
+    const profile = await this.profileRepository.findProfileById(id);
+    if (!profile) {
+      return null;
+    }
+
+    return await this.describeUser(profile);
+  }
+
+  /**
+   * Disables or re-enables a user's account and/or replaces their roles.
+   * Administrators can't disable themselves or remove their own admin role.
+   *
+   * @param {string} id - The user (profile) ID
+   * @param {any} data - { disabled?: boolean, roles?: UserRole[] }
+   * @param {string} actingUserId - The administrator making the change
+   * @returns {Promise<AdminUserDetailResponse | null>} The updated user, or null if not found
+   * @throws {AdminValidationError} If validation fails
+   */
+  async updateUser(id: string, data: any, actingUserId?: string): Promise<AdminUserDetailResponse | null> {
+    if (!id || typeof id !== 'string') {
+      throw new AdminValidationError('Invalid user ID');
+    }
+
+    const validatedData: UpdateAdminUserRequest = parseOrThrow(updateAdminUserSchema, data);
+
+    if (id === actingUserId) {
+      if (validatedData.disabled === true) {
+        throw new AdminValidationError("You can't disable your own account", 'disabled');
+      }
+      if (validatedData.roles && !validatedData.roles.includes('admin')) {
+        throw new AdminValidationError("You can't remove your own admin role", 'roles');
+      }
+    }
+
+    let profile = await this.profileRepository.findProfileById(id);
+    if (!profile) {
+      return null;
+    }
+
+    if (validatedData.roles !== undefined) {
+      await setUserRoles(profile.firebaseUid, validatedData.roles);
+    }
+
+    if (validatedData.disabled !== undefined) {
+      // Firebase first: a disabled profile whose account still works would be misleading
+      await setUserDisabled(profile.firebaseUid, validatedData.disabled);
+      profile = await this.profileRepository.updateDisabled(id, validatedData.disabled);
+      if (!profile) {
+        return null;
+      }
+    }
+
+    return await this.describeUser(profile);
+  }
+
+  /**
+   * Usage stats for every user, most transactions first.
+   *
+   * @returns {Promise<UserUsageStats[]>} One entry per user
+   */
+  async getUsageStats(): Promise<UserUsageStats[]> {
+    const profiles = await this.profileRepository.findAllProfiles();
+    const userIds = profiles.map(profile => profile._id?.toString() || profile.id || '');
+    const stats = await this.collectUsage(userIds);
+    return stats.sort((a, b) => b.transactions - a.transactions);
+  }
+
+  /**
+   * Lists budgets the startup migration set aside, oldest first.
+   *
+   * @returns {Promise<BudgetConflictResponse[]>} Budgets waiting to be restored or discarded
+   */
+  async getBudgetConflicts(): Promise<BudgetConflictResponse[]> {
+    const conflicts = await this.budgetConflictRepository.findAll();
+    return conflicts.map(conflict => toBudgetConflictResponse(conflict));
+  }
+
+  /**
+   * Puts a set-aside budget back, in the month it converts to or the one given.
+   * A budget that already covers that month is only replaced when asked to.
+   *
+   * @param {string} id - The budget conflict ID
+   * @param {any} data - { month?: number, replace?: boolean }
+   * @returns {Promise<BudgetResponse | null>} The restored budget, or null if the conflict was not found
+   * @throws {AdminValidationError} If no month is known, or a budget already exists for it
+   */
+  async restoreBudgetConflict(id: string, data: any): Promise<BudgetResponse | null> {
+    const validatedData: RestoreBudgetConflictRequest = parseOrThrow(restoreBudgetConflictSchema, data ?? {});
+
+    const conflict = await this.budgetConflictRepository.findById(id);
+    if (!conflict) {
+      return null;
+    }
+
+    const month = validatedData.month ?? conflict.month;
+    if (month === undefined) {
+      throw new AdminValidationError("The budget's month could not be read; choose one", 'month');
+    }
+
+    const { budget } = conflict;
+    const existing = await this.budgetRepository.findByUserMonthYear(budget.userId, month, budget.year, budget.categoryId);
+    if (existing) {
+      if (!validatedData.replace) {
+        throw new AdminValidationError('A budget for this month already exists', 'month');
+      }
+      await this.budgetRepository.deleteBudget(existing._id!.toString());
+    }
+
+    const restored = await this.budgetRepository.restoreBudget({ ...budget, month });
+    await this.budgetConflictRepository.deleteConflict(id);
+    return toBudgetResponse(restored);
+  }
+
+  /**
+   * Discards a set-aside budget for good.
+   *
+   * @param {string} id - The budget conflict ID
+   * @returns {Promise<boolean>} True if discarded, false if not found
+   */
+  async discardBudgetConflict(id: string): Promise<boolean> {
+    return await this.budgetConflictRepository.deleteConflict(id);
+  }
+
+  /**
+   * Builds the detailed view of a user, including Firebase account state.
+   *
+   * @private
+   */
+  private async describeUser(profile: Profile): Promise<AdminUserDetailResponse> {
+    const user = toAdminUserResponse(profile);
+    const [usage] = await this.collectUsage([user.id]);
+
+    let account: Awaited<ReturnType<typeof getUserAccount>>;
+    try {
+      account = await getUserAccount(profile.firebaseUid);
+    } catch (error) {
+      console.error('Failed to look up Firebase account:', error);
+      // Don't throw - the profile and usage are still useful without it
+      account = { disabled: user.disabled, roles: [], lastSignInAt: null };
+    }
+
+    return {
+      ...user,
+      disabled: account.disabled,
+      roles: account.roles,
+      lastSignInAt: account.lastSignInAt,
+      usage,
+    };
+  }
+
+  /**
+   * Counts each user's data across collections.
+   *
+   * @private
+   */
+  private async collectUsage(userIds: string[]): Promise<UserUsageStats[]> {
+    const [transactions, budgets, categories, recurring] = await Promise.all([
+      this.transactionRepository.summarizeByUser(userIds),
+      this.budgetRepository.countByUser(userIds),
+      this.categoryRepository.countByUser(userIds),
+      this.recurringRepository.countByUser(userIds),
+    ]);
+
+    return userIds.map(userId => ({
+      userId,
+      transactions: transactions.get(userId)?.count ?? 0,
+      budgets: budgets.get(userId) ?? 0,
+      categories: categories.get(userId) ?? 0,
+      recurringTransactions: recurring.get(userId) ?? 0,
+      lastTransactionAt: transactions.get(userId)?.lastDateTime ?? null,
+    }));
+  }
+}
+
+/**
+ * Parses input with a schema, turning the first Zod issue into an AdminValidationError.
+ */
+function parseOrThrow<T extends z.ZodType>(schema: T, data: unknown): z.infer<T> {
+  try {
+    return schema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AdminValidationError(
+        error.issues[0]?.message || 'Validation failed',
+        error.issues[0]?.path[0]?.toString()
+      );
+    }
+    throw error;
+  }
+}
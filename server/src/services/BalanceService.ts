@@ -0,0 +1,223 @@
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { SettlementRepository } from '../repositories/SettlementRepository';
+import { ExchangeRateService } from './ExchangeRateService';
+import {
+  SettlementValidationError,
+  createSettlementSchema,
+  toSettlementResponse
+} from '../models/Settlement';
+import type {
+  BalancesResponse,
+  PersonBalance,
+  SettlementResponse
+} from '../models/Settlement';
+import { getCurrency } from '../models/ExchangeRate';
+import { getOwnShare } from '../models/Transaction';
+import { z } from 'zod';
+
+// Balances within half a cent of zero are settled
+const SETTLED_TOLERANCE = 0.005;
+
+/**
+ * Service class for who owes whom across shared transactions, and the
+ * settlements that pay those debts off.
+ *
+ * Balances are from the user's side and in their home currency:
+ * - When the user paid, each participant owes their share.
+ * - When a participant paid, the user owes them the user's own share.
+ *   What other participants owe that person is between them.
+ * - Settlements move the balance towards zero.
+ *
+ * People are matched by name, ignoring case.
+ *
+ * @swagger
+ * tags:
+ *   name: Balances
+ *   description: Shared expense balances and settlements
+ */
+export class BalanceService {
+  private transactionRepository: TransactionRepository;
+  private settlementRepository: SettlementRepository;
+  private exchangeRateService: ExchangeRateService;
+
+  constructor() {
+    // In a larger app, these would be injected for better testability
+    this.transactionRepository = new TransactionRepository();
+    this.settlementRepository = new SettlementRepository();
+    this.exchangeRateService = new ExchangeRateService();
+  }
+
+  /**
+   * Computes what each person the user shares costs with owes them, or is owed.
+   * People whose balance is settled are left out.
+   *
+   * @param {string} userId - The user ID
+   * @returns {Promise<BalancesResponse>} Balances in the user's home currency, largest first
+   */
+  async getBalances(userId: string): Promise<BalancesResponse> {
+    if (!userId || typeof userId !== 'string') {
+      throw new SettlementValidationError('Invalid user ID');
+    }
+
+    const homeCurrency = await this.exchangeRateService.getHomeCurrency(userId);
+    const balances = await this.computeBalances(userId, homeCurrency);
+
+    const people = [...balances.values()]
+      .filter(person => Math.abs(person.balance) >= SETTLED_TOLERANCE)
+      .sort((a, b) => Math.abs(b.balance) - Math.abs(a.balance));
+
+    return {
+      currency: homeCurrency,
+      owedToYou: roundCents(people.filter(person => person.balance > 0).reduce((sum, person) => sum + person.balance, 0)),
+      youOwe: roundCents(people.filter(person => person.balance < 0).reduce((sum, person) => sum - person.balance, 0)),
+      people,
+    };
+  }
+
+  /**
+   * Lists a user's settlements, newest first.
+   *
+   * @param {string} userId - The user ID
+   * @returns {Promise<SettlementResponse[]>} The user's settlements
+   */
+  async getSettlements(userId: string): Promise<SettlementResponse[]> {
+    const settlements = await this.settlementRepository.findByUserId(userId);
+    return settlements.map(settlement => toSettlementResponse(settlement));
+  }
+
+  /**
+   * Records a settlement with someone. Without an amount the whole current
+   * balance is settled; without a direction it's the one that reduces the balance.
+   *
+   * @param {string} userId - The user ID
+   * @param {any} data - { name, amount?, currency?, direction?, date?, note? }
+   * @returns {Promise<SettlementResponse>} The recorded settlement
+   * @throws {SettlementValidationError} If validation fails, the currency has no
+   *   exchange rate to the home currency, or there is nothing to settle
+   */
+  async createSettlement(userId: string, data: any): Promise<SettlementResponse> {
+    const validatedData = parseOrThrow(createSettlementSchema, data);
+
+    const homeCurrency = await this.exchangeRateService.getHomeCurrency(userId);
+    if (validatedData.currency && await this.exchangeRateService.findUnconvertibleCurrency([validatedData.currency], homeCurrency)) {
+      throw new SettlementValidationError(`No exchange rate is known between ${validatedData.currency} and ${homeCurrency}`, 'currency');
+    }
+
+    const balances = await this.computeBalances(userId, homeCurrency);
+    const person = balances.get(validatedData.name.toLowerCase());
+    const balance = person?.balance ?? 0;
+    const isSettled = Math.abs(balance) < SETTLED_TOLERANCE;
+
+    if (validatedData.amount === undefined && isSettled) {
+      throw new SettlementValidationError(`Nothing to settle with ${validatedData.name}`, 'name');
+    }
+    if (validatedData.direction === undefined && isSettled) {
+      throw new SettlementValidationError('Direction is required when there is no balance to settle', 'direction');
+    }
+
+    const settlement = await this.settlementRepository.createSettlement({
+      userId,
+      // Keep the spelling the user already uses for this person
+      name: person?.name ?? validatedData.name,
+      amount: validatedData.amount ?? roundCents(Math.abs(balance)),
+      currency: validatedData.amount !== undefined ? validatedData.currency ?? homeCurrency : homeCurrency,
+      direction: validatedData.direction ?? (balance > 0 ? 'received' : 'paid'),
+      date: validatedData.date ?? new Date(),
+      note: validatedData.note,
+    });
+
+    return toSettlementResponse(settlement);
+  }
+
+  /**
+   * Deletes a settlement, putting its amount back on the balance.
+   *
+   * @param {string} userId - The owning user ID
+   * @param {string} id - The settlement ID
+   * @returns {Promise<boolean>} True if deleted, false if not found for the user
+   */
+  async deleteSettlement(userId: string, id: string): Promise<boolean> {
+    if (!id || typeof id !== 'string') {
+      throw new SettlementValidationError('Invalid settlement ID');
+    }
+
+    const settlement = await this.settlementRepository.findSettlementById(id);
+    if (!settlement || settlement.userId !== userId) {
+      return false;
+    }
+
+    return await this.settlementRepository.deleteSettlement(id);
+  }
+
+  /**
+   * Initializes database indexes.
+   * Should be called during application startup.
+   */
+  async initializeIndexes(): Promise<void> {
+    await this.settlementRepository.createIndexes();
+  }
+
+  /**
+   * Balances per person, keyed by lowercase name, converted into the home currency.
+   *
+   * @private
+   */
+  private async computeBalances(userId: string, homeCurrency: string): Promise<Map<string, PersonBalance>> {
+    const [transactions, settlements] = await Promise.all([
+      this.transactionRepository.findWithParticipants(userId),
+      this.settlementRepository.findByUserId(userId),
+    ]);
+
+    const balances = new Map<string, PersonBalance>();
+    const add = (name: string, amount: number) => {
+      const key = name.toLowerCase();
+      const person = balances.get(key) ?? { name, balance: 0 };
+      person.balance = roundCents(person.balance + amount);
+      balances.set(key, person);
+    };
+
+    for (const transaction of transactions) {
+      const toHome = (amount: number) =>
+        this.exchangeRateService.convert(amount, getCurrency(transaction), homeCurrency, transaction.dateTime);
+
+      if (transaction.paidBy) {
+        // They paid: the user owes them the user's own part
+        add(transaction.paidBy, -(await toHome(getOwnShare(transaction))));
+        continue;
+      }
+
+      for (const participant of transaction.participants ?? []) {
+        add(participant.name, await toHome(participant.share));
+      }
+    }
+
+    for (const settlement of settlements) {
+      const amount = await this.exchangeRateService.convert(settlement.amount, settlement.currency, homeCurrency, settlement.date);
+      // Money received from them pays down what they owe; money paid to them pays down what the user owes
+      add(settlement.name, settlement.direction === 'received' ? -amount : amount);
+    }
+
+    return balances;
+  }
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Parses input with a schema, turning the first Zod issue into a SettlementValidationError.
+ */
+function parseOrThrow<T extends z.ZodType>(schema: T, data: unknown): z.infer<T> {
+  try {
+    return schema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new SettlementValidationError(
+        error.issues[0]?.message || 'Validation failed',
+        error.issues[0]?.path[0]?.toString()
+      );
+    }
+    throw error;
+  }
+}
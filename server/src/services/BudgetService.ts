@@ -1,16 +1,36 @@
 import { BudgetRepository } from '../repositories/BudgetRepository';
+import { BudgetConflictRepository } from '../repositories/BudgetConflictRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { ExchangeRateService } from './ExchangeRateService';
+import { NotificationService } from './NotificationService';
 import {
   BudgetValidationError,
   validateCreateBudgetRequest,
   toBudgetResponse,
-  updateBudgetSchema
+  updateBudgetSchema,
+  budgetStatusQuerySchema,
+  copyBudgetsForwardSchema,
+  budgetHistoryQuerySchema,
+  getBudgetPeriod,
+  getPeriodContaining,
+  shiftPeriod,
+  formatPeriodLabel,
+  getMonthIndex,
+  DEFAULT_PERIOD_START_DAY,
+  MAX_ROLLOVER_MONTHS
 } from '../models/Budget';
 import type {
   Budget,
+  BudgetConflictReason,
   CreateBudgetRequest,
   UpdateBudgetRequest,
-  BudgetResponse
+  BudgetResponse,
+  BudgetStatusLine,
+  BudgetStatusResponse,
+  CopyBudgetsForwardResponse,
+  BudgetHistoryResponse
 } from '../models/Budget';
+import { getCurrency } from '../models/ExchangeRate';
 import { z } from 'zod';
 
 /**
@@ -32,11 +52,19 @@ import { z } from 'zod';
  */
 export class BudgetService {
   private budgetRepository: BudgetRepository;
+  private budgetConflictRepository: BudgetConflictRepository;
+  private transactionRepository: TransactionRepository;
+  private exchangeRateService: ExchangeRateService;
+  private notificationService: NotificationService;
 
   constructor() {
     // Initialize repository for data access
     // In a larger app, this would be injected for better testability
     this.budgetRepository = new BudgetRepository();
+    this.budgetConflictRepository = new BudgetConflictRepository();
+    this.transactionRepository = new TransactionRepository();
+    this.exchangeRateService = new ExchangeRateService();
+    this.notificationService = new NotificationService();
   }
 
   /**
@@ -45,6 +73,8 @@ export class BudgetService {
      * Business logic includes:
      * - Input validation and sanitization
      * - Duplicate budget check (same user/month/year/category)
+     * - Defaulting the currency to the user's home currency, and rejecting
+     *   currencies with no exchange rate to it
      * - Data transformation for response
      *
      * @param {any} budgetData - Raw budget data from request
@@ -67,27 +97,29 @@ export class BudgetService {
         throw new BudgetValidationError('Budget already exists for this user, month, and year', 'month');
       }
 
-      // Step 3: Persist to database
-      const createdBudget = await this.budgetRepository.createBudget(validatedData);
+      // Step 3: Budgets are in the user's home currency unless given explicitly
+      if (validatedData.currency) {
+        await this.checkCurrency(validatedData.userId, validatedData.currency);
+      }
+      const currency = validatedData.currency ?? await this.exchangeRateService.getHomeCurrency(validatedData.userId);
+
+      // Step 4: Persist to database
+      const createdBudget = await this.budgetRepository.createBudget({ ...validatedData, currency });
 
-      // Step 4: Transform to response format
+      // Step 5: Transform to response format
       return toBudgetResponse(createdBudget);
     }
 
     /**
-       * Retrieves a budget by ID.
+       * Retrieves a budget by ID, scoped to its owner.
        *
+       * @param {string} userId - The owning user ID
        * @param {string} id - The budget ID
-       * @returns {Promise<BudgetResponse | null>} Budget or null if not found
+       * @returns {Promise<BudgetResponse | null>} Budget or null if not found for the user
        * @throws {BudgetValidationError} If ID is invalid
        */
-      async getBudgetById(id: string): Promise<BudgetResponse | null> {
-        // Validate ID format
-        if (!id || typeof id !== 'string') {
-          throw new BudgetValidationError('Invalid budget ID');
-        }
-
-        const budget = await this.budgetRepository.findBudgetById(id);
+      async getBudgetById(userId: string, id: string): Promise<BudgetResponse | null> {
+        const budget = await this.findOwned(userId, id);
 
         if (!budget) {
           return null;
@@ -97,16 +129,6 @@ export class BudgetService {
       }
 
       /**
-         * Retrieves all budgets.
-         *
-         * @returns {Promise<BudgetResponse[]>} Array of all budgets
-         */
-        async getAllBudgets(): Promise<BudgetResponse[]> {
-          const budgets = await this.budgetRepository.findAllBudgets();
-          return budgets.map(budget => toBudgetResponse(budget));
-        }
-
-        /**
          * Retrieves all budgets for a specific user.
          *
          * @param {string} userId - The user ID
@@ -124,21 +146,20 @@ export class BudgetService {
     /**
        * Updates an existing budget with validation.
        *
-       * Supports partial updates - only provided fields are updated.
+       * Supports partial updates - only provided fields are updated. Remaining
+       * is kept by the server: it's recomputed for the budget's new amount,
+       * period and category, and the budget is checked for alerts, since a
+       * lower amount or threshold can put current spending past one.
        *
+       * @param {string} userId - The owning user ID
        * @param {string} id - The budget ID to update
        * @param {any} updateData - Partial budget data to update
-       * @returns {Promise<BudgetResponse | null>} Updated budget or null
-       * @throws {BudgetValidationError} If validation fails
+       * @returns {Promise<BudgetResponse | null>} Updated budget or null if not found for the user
+       * @throws {BudgetValidationError} If validation fails or another budget covers the new period
        */
-      async updateBudget(id: string, updateData: any): Promise<BudgetResponse | null> {
-        // Validate ID
-        if (!id || typeof id !== 'string') {
-          throw new BudgetValidationError('Invalid budget ID');
-        }
-
-        // Check if budget exists
-        const existingBudget = await this.budgetRepository.findBudgetById(id);
+      async updateBudget(userId: string, id: string, updateData: any): Promise<BudgetResponse | null> {
+        // Check if budget exists and belongs to the user
+        const existingBudget = await this.findOwned(userId, id);
         if (!existingBudget) {
           return null;
         }
@@ -158,6 +179,25 @@ export class BudgetService {
           throw error;
         }
 
+        // Business rule - a budget moved to another month or category must still be
+        // the only one for its user/month/year/category
+        if (validatedData.month !== undefined || validatedData.year !== undefined || validatedData.categoryId !== undefined) {
+          const existingAtTarget = await this.budgetRepository.findByUserMonthYear(
+            userId,
+            validatedData.month ?? existingBudget.month,
+            validatedData.year ?? existingBudget.year,
+            validatedData.categoryId ?? existingBudget.categoryId
+          );
+
+          if (existingAtTarget && (existingAtTarget._id?.toString() || existingAtTarget.id) !== id) {
+            throw new BudgetValidationError('Budget already exists for this user, month, and year', 'month');
+          }
+        }
+
+        if (validatedData.currency) {
+          await this.checkCurrency(userId, validatedData.currency);
+        }
+
         // Update budget in database
         const updatedBudget = await this.budgetRepository.updateBudget(id, validatedData);
 
@@ -165,29 +205,596 @@ export class BudgetService {
           return null;
         }
 
-        return toBudgetResponse(updatedBudget);
+        const spent = await this.createSpendingLookup(userId)(updatedBudget);
+        const remaining = await this.updateRemaining(updatedBudget, spent);
+        await this.checkAlerts(updatedBudget, spent);
+
+        return toBudgetResponse({ ...updatedBudget, remaining });
       }
 
     /**
        * Deletes a budget by ID.
        *
+       * @param {string} userId - The owning user ID
        * @param {string} id - The budget ID to delete
-       * @returns {Promise<boolean>} True if deleted, false if not found
+       * @returns {Promise<boolean>} True if deleted, false if not found for the user
        * @throws {BudgetValidationError} If ID is invalid
        */
-      async deleteBudget(id: string): Promise<boolean> {
+      async deleteBudget(userId: string, id: string): Promise<boolean> {
+        const existingBudget = await this.findOwned(userId, id);
+        if (!existingBudget) {
+          return false;
+        }
+
+        return await this.budgetRepository.deleteBudget(id);
+      }
+
+      /**
+       * Recomputes `remaining` for the budgets whose period covers a given date.
+       *
+       * Always refreshes the user's overall monthly budget (no categoryId). When a
+       * categoryId is given, the category-scoped budget covering the date is
+       * refreshed as well. With a custom period start day, a date before the start
+       * day belongs to the previous month's budget. Remaining is the budget amount
+       * minus the period's spending, floored at zero to satisfy the budget schema.
+       * Spending is converted into each budget's currency. Each refreshed budget is
+       * then checked for alerts.
+       *
+       * @param {string} userId - The user ID
+       * @param {Date} date - Any date within the budget period
+       * @param {string} categoryId - Optional category whose budget should also be refreshed
+       * @returns {Promise<void>}
+       * @throws {BudgetValidationError} If user ID is invalid
+       */
+      async syncRemainingForMonth(userId: string, date: Date, categoryId?: string): Promise<void> {
+        if (!userId || typeof userId !== 'string') {
+          throw new BudgetValidationError('Invalid user ID');
+        }
+
+        const overallBudget = await this.findBudgetCovering(userId, date);
+        const categoryBudget = categoryId
+          ? await this.findBudgetCovering(userId, date, categoryId)
+          : null;
+
+        // Nothing to keep in sync for this date
+        if (!overallBudget && !categoryBudget) {
+          return;
+        }
+
+        // Aggregates once per period and currency; both budgets usually share one
+        const spentAgainst = this.createSpendingLookup(userId);
+
+        for (const budget of [overallBudget, categoryBudget]) {
+          if (budget) {
+            const spent = await spentAgainst(budget);
+            await this.updateRemaining(budget, spent);
+            await this.checkAlerts(budget, spent);
+          }
+        }
+      }
+
+      /**
+       * Computes the envelope status of a user's budgets for a month.
+       *
+       * For the overall budget and each category budget, returns what was spent
+       * against it, the amount rolled over from the previous month and what is
+       * left (negative when overspent). A budget with rollover enabled carries
+       * its leftover, or its overspend, into the next month's budget for the
+       * same category; chains are followed back up to MAX_ROLLOVER_MONTHS.
+       * Spending in categories without a budget is listed separately.
+       *
+       * @param {string} userId - The user ID
+       * @param {any} queryParams - month (1-12) and year; default to the budget month containing today
+       * @returns {Promise<BudgetStatusResponse>} The month's budget status
+       * @throws {BudgetValidationError} If user ID or query is invalid
+       */
+      async getBudgetStatus(userId: string, queryParams: any): Promise<BudgetStatusResponse> {
+        if (!userId || typeof userId !== 'string') {
+          throw new BudgetValidationError('Invalid user ID');
+        }
+
+        const query = this.parseQuery(budgetStatusQuerySchema, queryParams);
+        const [budgets, homeCurrency] = await Promise.all([
+          this.budgetRepository.findByUserId(userId),
+          this.exchangeRateService.getHomeCurrency(userId),
+        ]);
+
+        // Without a month, use the overall budget running today (it may have started last month)
+        const now = new Date();
+        const current = budgets.find(budget => !budget.categoryId && coversDate(budget, now)) ?? getPeriodContaining(now);
+        const month = query.month ?? current.month;
+        const year = query.year ?? (query.month ? now.getFullYear() : current.year);
+
+        const budgetsByKey = new Map(budgets.map(budget => [budgetKey(budget.month, budget.year, budget.categoryId), budget]));
+        const spentAgainst = this.createSpendingLookup(userId);
+
+        // Leftover carried into a budget from the month before, in the budget's currency
+        const rolledOverInto = async (budget: Budget, depth: number): Promise<number> => {
+          if (depth >= MAX_ROLLOVER_MONTHS) {
+            return 0;
+          }
+
+          const prev = shiftPeriod(budget.year, budget.month, -1);
+          const previous = budgetsByKey.get(budgetKey(prev.month, prev.year, budget.categoryId));
+          if (!previous?.rollover) {
+            return 0;
+          }
+
+          const { startDate: periodStart } = periodOf(budget);
+
+          const available = previous.amount + await rolledOverInto(previous, depth + 1);
+          const leftover = available - await spentAgainst(previous);
+          return this.exchangeRateService.convert(leftover, getCurrency(previous), getCurrency(budget), periodStart);
+        };
+
+        const toStatusLine = async (budget: Budget): Promise<BudgetStatusLine> => {
+          const rolledOver = await rolledOverInto(budget, 0);
+          const spent = await spentAgainst(budget);
+          const available = roundCents(budget.amount + rolledOver);
+          return {
+            budgetId: budget._id?.toString() || budget.id,
+            categoryId: budget.categoryId ?? null,
+            currency: getCurrency(budget),
+            amount: budget.amount,
+            rolledOver,
+            available,
+            spent,
+            remaining: roundCents(available - spent),
+            percentUsed: available > 0 ? Math.round((spent / available) * 1000) / 10 : null,
+            overBudget: spent > available,
+            rollover: budget.rollover ?? false,
+          };
+        };
+
+        const monthBudgets = budgets.filter(budget => budget.month === month && budget.year === year);
+        const overallBudget = monthBudgets.find(budget => !budget.categoryId);
+        const categoryBudgets = monthBudgets.filter(budget => budget.categoryId);
+
+        // Unbudgeted spending is measured over the overall budget's period
+        const { startDate, endDate } = getBudgetPeriod(
+          year,
+          month,
+          (overallBudget ?? categoryBudgets[0])?.periodStartDay ?? DEFAULT_PERIOD_START_DAY
+        );
+
+        const budgetedCategories = new Set(categoryBudgets.map(budget => budget.categoryId));
+        const homeSpending = await this.transactionRepository.aggregateByCategory(userId, startDate, endDate, 'expense', homeCurrency);
+
+        return {
+          month,
+          year,
+          startDate,
+          endDate,
+          overall: overallBudget ? await toStatusLine(overallBudget) : null,
+          categories: await Promise.all(categoryBudgets.map(toStatusLine)),
+          unbudgeted: homeSpending
+            .filter(item => item.totalAmount > 0 && !budgetedCategories.has(item.categoryId))
+            .map(item => ({ categoryId: item.categoryId, spent: roundCents(item.totalAmount), currency: homeCurrency })),
+        };
+      }
+
+      /**
+       * Copies the previous month's budget set into a month.
+       *
+       * Each overall and category budget of the month before is cloned with its
+       * amount, currency, period start day, rollover setting and alert
+       * thresholds. Budgets that already exist in the target month are left as
+       * they are. Remaining is computed from the target month's spending so far.
+       *
+       * @param {string} userId - The user ID
+       * @param {any} data - Target month (1-12) and year
+       * @returns {Promise<CopyBudgetsForwardResponse>} Created budgets and how many were skipped
+       * @throws {BudgetValidationError} If the input is invalid or the previous month has no budgets
+       */
+      async copyBudgetsForward(userId: string, data: any): Promise<CopyBudgetsForwardResponse> {
+        if (!userId || typeof userId !== 'string') {
+          throw new BudgetValidationError('Invalid user ID');
+        }
+
+        const target = this.parseQuery(copyBudgetsForwardSchema, data);
+        const source = shiftPeriod(target.year, target.month, -1);
+
+        const sourceBudgets = await this.budgetRepository.findByUserMonth(userId, source.month, source.year);
+        if (sourceBudgets.length === 0) {
+          throw new BudgetValidationError(`No budgets to copy from ${formatPeriodLabel(source.year, source.month)}`, 'month');
+        }
+
+        const existing = await this.budgetRepository.findByUserMonth(userId, target.month, target.year);
+        const existingKeys = new Set(existing.map(budget => budget.categoryId ?? ''));
+        const spentAgainst = this.createSpendingLookup(userId);
+
+        const created: BudgetResponse[] = [];
+        for (const budget of sourceBudgets) {
+          if (existingKeys.has(budget.categoryId ?? '')) {
+            continue;
+          }
+
+          const copy = {
+            userId,
+            month: target.month,
+            year: target.year,
+            amount: budget.amount,
+            currency: getCurrency(budget),
+            rollover: budget.rollover ?? false,
+            ...(budget.periodStartDay ? { periodStartDay: budget.periodStartDay } : {}),
+            ...(budget.alertThresholds ? { alertThresholds: budget.alertThresholds } : {}),
+            // Overall budgets must not store a categoryId at all
+            ...(budget.categoryId ? { categoryId: budget.categoryId } : {}),
+          };
+          const spent = await spentAgainst(copy);
+          const createdBudget = await this.budgetRepository.createBudget({
+            ...copy,
+            remaining: Math.max(0, roundCents(copy.amount - spent)),
+          });
+          created.push(toBudgetResponse(createdBudget));
+        }
+
+        return {
+          month: target.month,
+          year: target.year,
+          created,
+          skipped: sourceBudgets.length - created.length,
+        };
+      }
+
+      /**
+       * Lists how each month went against its budget.
+       *
+       * Covers every month that has a budget (or only those of one year), oldest
+       * first. Spending comes from the monthly expense totals, or is summed over
+       * the period when the budget starts on a custom day. Budgets are converted
+       * into the home currency at the start of their period. A month without an
+       * overall budget is measured against the sum of its category budgets,
+       * counting only the spending in those categories.
+       *
+       * @param {string} userId - The user ID
+       * @param {any} queryParams - Optional year
+       * @returns {Promise<BudgetHistoryResponse>} Per-month budgeted, spent and variance with totals
+       * @throws {BudgetValidationError} If user ID or query is invalid
+       */
+      async getBudgetHistory(userId: string, queryParams: any): Promise<BudgetHistoryResponse> {
+        if (!userId || typeof userId !== 'string') {
+          throw new BudgetValidationError('Invalid user ID');
+        }
+
+        const query = this.parseQuery(budgetHistoryQuerySchema, queryParams);
+        const [budgets, homeCurrency] = await Promise.all([
+          this.budgetRepository.findByUserId(userId),
+          this.exchangeRateService.getHomeCurrency(userId),
+        ]);
+
+        // Group budgets by month, keyed by months since year 0 so keys sort chronologically
+        const months = new Map<number, { year: number; month: number; overall?: Budget; categories: Budget[] }>();
+        for (const budget of budgets) {
+          if (query.year !== undefined && budget.year !== query.year) {
+            continue;
+          }
+
+          const key = budget.year * 12 + budget.month - 1;
+          if (!months.has(key)) {
+            months.set(key, { year: budget.year, month: budget.month, categories: [] });
+          }
+          const entry = months.get(key)!;
+          if (budget.categoryId) {
+            entry.categories.push(budget);
+          } else {
+            entry.overall = budget;
+          }
+        }
+
+        const history: BudgetHistoryResponse = {
+          currency: homeCurrency,
+          months: [],
+          totals: { budgeted: 0, spent: 0, variance: 0 },
+          monthsOverBudget: 0,
+        };
+        if (months.size === 0) {
+          return history;
+        }
+
+        const keys = [...months.keys()].sort((a, b) => a - b);
+        const first = months.get(keys[0])!;
+        const last = months.get(keys[keys.length - 1])!;
+        const spending = await this.transactionRepository.aggregateByMonth(
+          userId,
+          getBudgetPeriod(first.year, first.month).startDate,
+          getBudgetPeriod(last.year, last.month).endDate,
+          homeCurrency
+        );
+        const spendingByKey = new Map(spending.map(item => [item.year * 12 + item.month - 1, item]));
+
+        for (const key of keys) {
+          const { year, month, overall, categories } = months.get(key)!;
+          const { startDate, endDate } = periodOf(overall ?? categories[0]);
+          const toHome = (budget: Budget) =>
+            this.exchangeRateService.convert(budget.amount, getCurrency(budget), homeCurrency, startDate);
+
+          let budgeted = 0;
+          if (overall) {
+            budgeted = await toHome(overall);
+          } else {
+            for (const budget of categories) {
+              budgeted += await toHome(budget);
+            }
+          }
+          budgeted = roundCents(budgeted);
+
+          let spent = spendingByKey.get(key)?.totalAmount ?? 0;
+          let transactionCount = spendingByKey.get(key)?.transactionCount ?? 0;
+          if (!overall || startDate.getDate() !== DEFAULT_PERIOD_START_DAY) {
+            const byCategory = await this.transactionRepository.aggregateByCategory(userId, startDate, endDate, 'expense', homeCurrency);
+            const budgetedCategories = new Set(categories.map(budget => budget.categoryId));
+            const counted = overall ? byCategory : byCategory.filter(item => budgetedCategories.has(item.categoryId));
+            spent = counted.reduce((sum, item) => sum + item.totalAmount, 0);
+            transactionCount = counted.reduce((sum, item) => sum + item.transactionCount, 0);
+          }
+          spent = roundCents(spent);
+
+          history.months.push({
+            month,
+            year,
+            budgetId: overall ? overall._id?.toString() || overall.id : null,
+            budgeted,
+            spent,
+            variance: roundCents(budgeted - spent),
+            percentUsed: budgeted > 0 ? Math.round((spent / budgeted) * 10000) / 100 : null,
+            overBudget: spent > budgeted,
+            transactionCount,
+            categoryBudgetCount: categories.length,
+          });
+          history.totals.budgeted += budgeted;
+          history.totals.spent += spent;
+          if (spent > budgeted) {
+            history.monthsOverBudget++;
+          }
+        }
+
+        history.totals.budgeted = roundCents(history.totals.budgeted);
+        history.totals.spent = roundCents(history.totals.spent);
+        history.totals.variance = roundCents(history.totals.budgeted - history.totals.spent);
+
+        return history;
+      }
+
+      /**
+       * Returns a memoized lookup of the expense spending counted against a
+       * budget: everything for an overall budget, or the budget's category.
+       * Aggregates once per period and currency.
+       *
+       * @private
+       */
+      private createSpendingLookup(
+        userId: string
+      ): (budget: Pick<Budget, 'month' | 'year' | 'periodStartDay' | 'currency' | 'categoryId'>) => Promise<number> {
+        const aggregations = new Map<string, ReturnType<TransactionRepository['aggregateByCategory']>>();
+
+        return async (budget) => {
+          const { startDate, endDate } = periodOf(budget);
+          const currency = getCurrency(budget);
+          const key = `${startDate.getTime()}|${currency}`;
+          if (!aggregations.has(key)) {
+            aggregations.set(key, this.transactionRepository.aggregateByCategory(userId, startDate, endDate, 'expense', currency));
+          }
+
+          const spending = await aggregations.get(key)!;
+          const spent = budget.categoryId
+            ? spending.find(item => item.categoryId === budget.categoryId)?.totalAmount ?? 0
+            : spending.reduce((sum, item) => sum + item.totalAmount, 0);
+          return roundCents(spent);
+        };
+      }
+
+      /**
+       * Parses input with a schema, mapping Zod errors to BudgetValidationError.
+       *
+       * @private
+       */
+      private parseQuery<T extends z.ZodTypeAny>(schema: T, data: any): z.infer<T> {
+        try {
+          return schema.parse(data ?? {});
+        } catch (error) {
+          if (error instanceof z.ZodError) {
+            const message = error.issues[0]?.message || 'Validation failed';
+            throw new BudgetValidationError(message, error.issues[0]?.path[0]?.toString());
+          }
+          throw error;
+        }
+      }
+
+      /**
+       * Persists a recomputed remaining amount for a budget.
+       *
+       * @param {Budget} budget - The budget to update
+       * @param {number} spent - Amount spent against the budget
+       * @returns {Promise<number>} The remaining amount
+       * @private
+       */
+      private async updateRemaining(budget: Budget, spent: number): Promise<number> {
+        const remaining = Math.max(0, Math.round((budget.amount - spent) * 100) / 100);
+
+        if (remaining === budget.remaining) {
+          return remaining;
+        }
+
+        const budgetId = budget._id?.toString() || budget.id;
+        await this.budgetRepository.updateBudget(budgetId, { remaining });
+        return remaining;
+      }
+
+      /**
+       * Sends a budget alert if the spending crossed a new threshold.
+       * Alert failures are logged and never fail the write that triggered the check.
+       *
+       * @param {Budget} budget - The budget that was synced or updated
+       * @param {number} spent - Amount spent against it
+       * @private
+       */
+      private async checkAlerts(budget: Budget, spent: number): Promise<void> {
+        try {
+          await this.notificationService.checkBudgetThresholds(budget, spent);
+        } catch (error) {
+          console.error('Failed to check budget alerts:', error);
+        }
+      }
+
+      /**
+       * Loads a budget and checks that it belongs to the given user.
+       *
+       * @private
+       */
+      private async findOwned(userId: string, id: string): Promise<Budget | null> {
         if (!id || typeof id !== 'string') {
           throw new BudgetValidationError('Invalid budget ID');
         }
 
-        return await this.budgetRepository.deleteBudget(id);
+        const budget = await this.budgetRepository.findBudgetById(id);
+        if (!budget || budget.userId !== userId) {
+          return null;
+        }
+
+        return budget;
+      }
+
+      /**
+       * Finds the user's budget whose period contains a date. That is the budget
+       * of the date's calendar month, or of the month before when that budget
+       * starts on a later day (e.g. a March budget starting on the 15th covers
+       * April 10).
+       *
+       * @private
+       */
+      private async findBudgetCovering(userId: string, date: Date, categoryId?: string): Promise<Budget | null> {
+        const calendarMonth = getPeriodContaining(date);
+        const previousMonth = shiftPeriod(calendarMonth.year, calendarMonth.month, -1);
+
+        for (const { month, year } of [calendarMonth, previousMonth]) {
+          const budget = await this.budgetRepository.findByUserMonthYear(userId, month, year, categoryId);
+          if (budget && coversDate(budget, date)) {
+            return budget;
+          }
+        }
+
+        return null;
+      }
+
+      /**
+       * Converts budgets saved with month names to month numbers, then sets
+       * aside every budget that would keep the unique index from being built:
+       * month names that can't be read, and budgets for a user, month, year and
+       * category that already has one (the most recently updated is kept).
+       * Set-aside budgets are listed for administrators to restore or discard.
+       * Should be called during application startup, before the indexes are built.
+       *
+       * @returns {Promise<{ migrated: number; setAside: number }>} Migration counts
+       */
+      async migrateLegacyBudgets(): Promise<{ migrated: number; setAside: number }> {
+        let migrated = 0;
+        let setAside = 0;
+
+        for (const budget of await this.budgetRepository.findLegacyMonthBudgets()) {
+          const name = String(budget.month).trim();
+          const month = /^\d{1,2}$/.test(name) ? Number(name) : getMonthIndex(name) + 1;
+          if (month < 1 || month > 12) {
+            await this.setAsideBudget(budget, 'unreadable_month');
+            setAside++;
+            continue;
+          }
+
+          const existing = await this.budgetRepository.findByUserMonthYear(budget.userId, month, budget.year, budget.categoryId);
+          if (existing) {
+            await this.setAsideBudget(budget, 'duplicate', month, existing);
+            setAside++;
+            continue;
+          }
+
+          try {
+            await this.budgetRepository.updateBudget(budget._id!.toString(), { month });
+            migrated++;
+          } catch (error: any) {
+            // Saved for that month while the migration ran
+            if (error?.code !== 11000) {
+              throw error;
+            }
+            const conflicting = await this.budgetRepository.findByUserMonthYear(budget.userId, month, budget.year, budget.categoryId);
+            await this.setAsideBudget(budget, 'duplicate', month, conflicting);
+            setAside++;
+          }
+        }
+
+        for (const { kept, duplicates } of await this.budgetRepository.findDuplicateBudgets()) {
+          for (const duplicate of duplicates) {
+            await this.setAsideBudget(duplicate, 'duplicate', duplicate.month, kept);
+            setAside++;
+          }
+        }
+
+        return { migrated, setAside };
       }
 
       /**
        * Initializes database indexes.
        * Should be called during application startup.
+       *
+       * A unique index that can't be built because of budgets the migration
+       * couldn't set aside is logged instead of stopping the server; budgets
+       * are still checked for duplicates when they are saved.
        */
       async initializeIndexes(): Promise<void> {
-        await this.budgetRepository.createIndexes();
+        await this.budgetConflictRepository.createIndexes();
+        try {
+          await this.budgetRepository.createIndexes();
+        } catch (error) {
+          console.error('Failed to build budget indexes; duplicate budgets may remain:', error);
+        }
+      }
+
+      /**
+       * Rejects a currency that can't be converted into the user's home
+       * currency, which spending and history would otherwise count at face value.
+       *
+       * @throws {BudgetValidationError} If no exchange rate is known for the currency
+       */
+      private async checkCurrency(userId: string, currency: string): Promise<void> {
+        const homeCurrency = await this.exchangeRateService.getHomeCurrency(userId);
+        if (await this.exchangeRateService.findUnconvertibleCurrency([currency], homeCurrency)) {
+          throw new BudgetValidationError(`No exchange rate is known between ${currency} and ${homeCurrency}`, 'currency');
+        }
+      }
+
+      /**
+       * Records a budget for administrators to resolve and removes it from
+       * the budgets collection.
+       */
+      private async setAsideBudget(
+        budget: Budget,
+        reason: BudgetConflictReason,
+        month?: number,
+        conflicting?: Budget | null
+      ): Promise<void> {
+        await this.budgetConflictRepository.setAside(budget, reason, month, conflicting?._id?.toString());
+        await this.budgetRepository.deleteBudget(budget._id!.toString());
       }
 }
+
+/**
+ * Lookup key for a user's budget in a month (overall when categoryId is unset).
+ */
+function budgetKey(month: number, year: number, categoryId?: string): string {
+  return `${year}-${month}|${categoryId ?? ''}`;
+}
+
+/**
+ * The date range a budget covers.
+ */
+function periodOf(budget: Pick<Budget, 'month' | 'year' | 'periodStartDay'>): { startDate: Date; endDate: Date } {
+  return getBudgetPeriod(budget.year, budget.month, budget.periodStartDay ?? DEFAULT_PERIOD_START_DAY);
+}
+
+function coversDate(budget: Pick<Budget, 'month' | 'year' | 'periodStartDay'>, date: Date): boolean {
+  const { startDate, endDate } = periodOf(budget);
+  return date >= startDate && date <= endDate;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
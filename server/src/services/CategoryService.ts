@@ -1,4 +1,5 @@
 import { CategoryRepository } from '../repositories/CategoryRepository';
+import { HouseholdRepository } from '../repositories/HouseholdRepository';
 import {
   CategoryValidationError,
   validateCreateCategoryRequest,
@@ -32,12 +33,14 @@ import { z } from 'zod';
  */
 export class CategoryService {
   private categoryRepository: CategoryRepository;
+  private householdRepository: HouseholdRepository;
   private transactionRepository: any;
 
   constructor() {
-    // Initialize repository for data access
-    // In a larger app, this would be injected for better testability
+    // Initialize repositories for data access
+    // In a larger app, these would be injected for better testability
     this.categoryRepository = new CategoryRepository();
+    this.householdRepository = new HouseholdRepository();
   }
 
   /**
@@ -81,10 +84,15 @@ export class CategoryService {
       // lazy require to avoid circular deps
       const { TransactionRepository } = await import('../repositories/TransactionRepository');
       const txRepo = new TransactionRepository();
-      const cats = await this.categoryRepository.findByUserId(userId);
+      // Shared household categories are never merged, but transactions in them aren't orphaned
+      const [ownCategories, sharedCategories] = await Promise.all([
+        this.categoryRepository.findByUserId(userId),
+        this.findSharedCategories(userId)
+      ]);
+      const cats = ownCategories.filter(c => !c.householdId);
 
       // First, fix orphaned transactions
-      const validCategoryIds = cats.map(c => String(c._id || c.id));
+      const validCategoryIds = [...cats, ...sharedCategories].map(c => String(c._id || c.id));
       let uncategorizedCat = cats.find(c => String(c.name || '').toLowerCase() === 'uncategorized');
 
       // If no "Uncategorized" category exists, create one
@@ -92,6 +100,7 @@ export class CategoryService {
         const created = await this.categoryRepository.createCategory({
           name: 'Uncategorized',
           type: 'expense',
+          kind: 'expense',
           userId,
           color: '#9CA3AF'
         });
@@ -177,19 +186,15 @@ export class CategoryService {
     }
 
     /**
-       * Retrieves a cateogry by ID.
+       * Retrieves a cateogry by ID, scoped to its owner.
        *
+       * @param {string} userId - The owning user ID
        * @param {string} id - The cateogry ID
-       * @returns {Promise<CategoryResponse | null>} Cateogry or null if not found
+       * @returns {Promise<CategoryResponse | null>} Cateogry or null if not found for the user
        * @throws {CateogryValidationError} If ID is invalid
        */
-      async getCategoryById(id: string): Promise<CategoryResponse | null> {
-        // Validate ID format
-        if (!id || typeof id !== 'string') {
-          throw new CategoryValidationError('Invalid category ID');
-        }
-    
-        const category = await this.categoryRepository.findCategoryById(id);
+      async getCategoryById(userId: string, id: string): Promise<CategoryResponse | null> {
+        const category = await this.findOwned(userId, id);
     
         if (!category) {
           return null;
@@ -209,13 +214,24 @@ export class CategoryService {
         }
 
       /**
-         * Retrieves all categories for a specific user.
+         * Retrieves all categories for a specific user, including the shared
+         * categories of households they belong to.
          *
          * @param {string} userId - The user ID
          * @returns {Promise<CategoryResponse[]>} Array of user's categories
          */
         async getCategoriesByUserId(userId: string): Promise<CategoryResponse[]> {
-          const categories = await this.categoryRepository.findByUserId(userId);
+          const [ownCategories, sharedCategories] = await Promise.all([
+            this.categoryRepository.findByUserId(userId),
+            this.findSharedCategories(userId)
+          ]);
+
+          // Shared categories the user created come back from both queries
+          const seen = new Set(ownCategories.map(category => String(category._id || category.id)));
+          const categories = [
+            ...ownCategories,
+            ...sharedCategories.filter(category => !seen.has(String(category._id || category.id)))
+          ];
           return categories.map(category => toCategoryResponse(category));
         }
 
@@ -224,22 +240,19 @@ export class CategoryService {
        *
        * Supports partial updates - only provided fields are updated.
        *
+       * @param {string} userId - The owning user ID
        * @param {string} id - The category ID to update
        * @param {any} updateData - Partial category data to update
-       * @returns {Promise<CategoryResponse | null>} Updated category or null
+       * @returns {Promise<CategoryResponse | null>} Updated category or null if not found for the user
        * @throws {CategoryValidationError} If validation fails
        */
-      async updateCategory(id: string, updateData: any): Promise<CategoryResponse | null> {
-        // Validate ID
-        if (!id || typeof id !== 'string') {
-          throw new CategoryValidationError('Invalid category ID');
-        }
-
-        // Check if category exists
-        const existingCategory = await this.categoryRepository.findCategoryById(id);
+      async updateCategory(userId: string, id: string, updateData: any): Promise<CategoryResponse | null> {
+        // Check if category exists and belongs to the user
+        const existingCategory = await this.findOwned(userId, id);
         if (!existingCategory) {
           return null;
         }
+        this.assertPersonal(existingCategory);
 
         // Validate update data using Zod schema
         let validatedData: Partial<UpdateCategoryRequest>;
@@ -269,16 +282,71 @@ export class CategoryService {
     /**
        * Deletes a category by ID.
        *
+       * @param {string} userId - The owning user ID
        * @param {string} id - The category ID to delete
-       * @returns {Promise<boolean>} True if deleted, false if not found
+       * @returns {Promise<boolean>} True if deleted, false if not found for the user
        * @throws {CategoryValidationError} If ID is invalid
        */
-      async deleteCategory(id: string): Promise<boolean> {
+      async deleteCategory(userId: string, id: string): Promise<boolean> {
+        const existingCategory = await this.findOwned(userId, id);
+        if (!existingCategory) {
+          return false;
+        }
+        this.assertPersonal(existingCategory);
+
+        return await this.categoryRepository.deleteCategory(id);
+      }
+
+      /**
+       * Loads a category and checks that it belongs to the given user, or is
+       * shared with a household the user is a member of.
+       *
+       * @private
+       */
+      private async findOwned(userId: string, id: string): Promise<Category | null> {
         if (!id || typeof id !== 'string') {
           throw new CategoryValidationError('Invalid category ID');
         }
-    
-        return await this.categoryRepository.deleteCategory(id);
+
+        const category = await this.categoryRepository.findCategoryById(id);
+        if (!category) {
+          return null;
+        }
+
+        if (category.householdId) {
+          const isMember = await this.householdRepository.isMember(category.householdId, userId);
+          return isMember ? category : null;
+        }
+
+        return category.userId === userId ? category : null;
+      }
+
+      /**
+       * Loads the shared categories of every household the user belongs to.
+       *
+       * @private
+       */
+      private async findSharedCategories(userId: string): Promise<Category[]> {
+        const households = await this.householdRepository.findByMember(userId);
+        if (households.length === 0) {
+          return [];
+        }
+
+        return await this.categoryRepository.findByHouseholdIds(
+          households.map(household => household._id?.toString() || household.id)
+        );
+      }
+
+      /**
+       * Shared categories follow household roles, so they can't be changed
+       * through a member's personal category routes.
+       *
+       * @private
+       */
+      private assertPersonal(category: Category): void {
+        if (category.householdId) {
+          throw new CategoryValidationError('Shared categories are managed through their household');
+        }
       }
     
       /**
@@ -0,0 +1,324 @@
+/**
+ * Date phrase resolver
+ * Turns phrases such as "last Friday", "two days ago", "on the 3rd",
+ * "Saturday night" or "October 12th" into a moment in the user's time zone
+ */
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '../models/Profile';
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export interface DateResolveOptions {
+  now?: Date;
+  timeZone?: string;            // IANA name such as "America/Chicago"; UTC when missing
+}
+
+export interface ResolvedDate {
+  value: Date;
+  confidence: number;
+  phrases: string[];            // The words the date was read from, so callers can drop them from the text
+  timeOfDay?: TimeOfDay;
+}
+
+// A day on the user's calendar; month is 0-based like Date
+interface CalendarDay {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface DayMatch {
+  day: CalendarDay;
+  confidence: number;
+  phrase: string;
+  timeOfDay?: TimeOfDay;
+}
+
+// Hours used when only a part of the day is mentioned
+const TIME_OF_DAY_HOURS: Record<TimeOfDay, number> = { morning: 9, afternoon: 14, evening: 19, night: 21 };
+
+// Purchases on another day with no time mentioned are placed at midday,
+// so the date doesn't change when shown in a nearby time zone
+const DEFAULT_HOUR = 12;
+
+const MONTH_PATTERN = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const COUNT_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14,
+};
+
+// "first" .. "thirty first", spoken as words
+const ORDINAL_UNITS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9,
+};
+const ORDINAL_WORDS: Record<string, number> = {
+  ...ORDINAL_UNITS,
+  tenth: 10, eleventh: 11, twelfth: 12, thirteenth: 13, fourteenth: 14, fifteenth: 15, sixteenth: 16,
+  seventeenth: 17, eighteenth: 18, nineteenth: 19, twentieth: 20, thirtieth: 30,
+  ...Object.fromEntries(Object.entries(ORDINAL_UNITS).map(([word, n]) => [`twenty ${word}`, 20 + n])),
+  'thirty first': 31,
+};
+const ORDINAL_WORD_PATTERN = Object.keys(ORDINAL_WORDS)
+  .sort((a, b) => b.length - a.length)
+  .map(word => word.replace(' ', '[\\s-]'))
+  .join('|');
+// "3", "3rd", "third", "twenty-first"
+const DAY_PATTERN = `(\\d{1,2})(?:st|nd|rd|th)?|(${ORDINAL_WORD_PATTERN})`;
+
+/**
+ * Reads the wall-clock date and time of a moment in a time zone.
+ */
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month) - 1,
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+}
+
+/**
+ * How far a time zone's wall clock is ahead of UTC at a moment, in milliseconds.
+ */
+function getOffset(ms: number, timeZone: string): number {
+  const p = getZonedParts(new Date(ms), timeZone);
+  return Date.UTC(p.year, p.month, p.day, p.hour, p.minute, p.second) - Math.floor(ms / 1000) * 1000;
+}
+
+/**
+ * Finds the moment a wall-clock time on a day happens in a time zone.
+ */
+function toInstant(day: CalendarDay, hour: number, minute: number, timeZone: string): Date {
+  const wallClock = Date.UTC(day.year, day.month, day.day, hour, minute);
+  // The offset can change between the guess and the answer around daylight saving changes
+  const guess = wallClock - getOffset(wallClock, timeZone);
+  return new Date(wallClock - getOffset(guess, timeZone));
+}
+
+function addDays(day: CalendarDay, days: number): CalendarDay {
+  const d = new Date(Date.UTC(day.year, day.month, day.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth(), day: d.getUTCDate() };
+}
+
+function isAfter(a: CalendarDay, b: CalendarDay): boolean {
+  return Date.UTC(a.year, a.month, a.day) > Date.UTC(b.year, b.month, b.day);
+}
+
+function isSameDay(a: CalendarDay, b: CalendarDay): boolean {
+  return a.year === b.year && a.month === b.month && a.day === b.day;
+}
+
+/**
+ * Builds a calendar day, or null when the day doesn't exist (e.g. February 30th).
+ */
+function calendarDay(year: number, month: number, day: number): CalendarDay | null {
+  const d = new Date(Date.UTC(year, month, day));
+  if (d.getUTCMonth() !== month || d.getUTCDate() !== day) return null;
+  return { year, month, day };
+}
+
+function readDayNumber(digits: string | undefined, words: string | undefined): number {
+  if (digits) return parseInt(digits, 10);
+  return ORDINAL_WORDS[(words ?? '').toLowerCase().replace(/[\s-]+/, ' ')] ?? NaN;
+}
+
+/**
+ * A month and day without a year is the most recent one, since
+ * transactions are usually entered after they happen.
+ */
+function mostRecent(month: number, dayOfMonth: number, today: CalendarDay): CalendarDay | null {
+  const thisYear = calendarDay(today.year, month, dayOfMonth);
+  if (thisYear && !isAfter(thisYear, today)) return thisYear;
+  return calendarDay(today.year - 1, month, dayOfMonth);
+}
+
+/**
+ * Finds the day a phrase refers to. Matchers are tried from the most to the least specific.
+ */
+function matchDay(text: string, today: CalendarDay): DayMatch | null {
+  let m: RegExpMatchArray | null;
+
+  // ISO date like 2025-03-01
+  if ((m = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/))) {
+    const day = calendarDay(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+    if (day) return { day, confidence: 0.95, phrase: m[0] };
+  }
+
+  // m/d/yyyy or m/d/yy
+  if ((m = text.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})\b/))) {
+    const year = m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3]);
+    const day = calendarDay(year, Number(m[1]) - 1, Number(m[2]));
+    if (day) return { day, confidence: 0.8, phrase: m[0] };
+  }
+
+  // "October 12th", "on Oct 12, 2024", "March the third"
+  if ((m = text.match(new RegExp(`\\b(?:on\\s+)?(${MONTH_PATTERN})\\.?\\s+(?:the\\s+)?(?:${DAY_PATTERN})\\b(?:,?\\s+(\\d{4})\\b)?`, 'i')))) {
+    const month = MONTHS[m[1].slice(0, 3).toLowerCase()];
+    const dayOfMonth = readDayNumber(m[2], m[3]);
+    const day = m[4] ? calendarDay(Number(m[4]), month, dayOfMonth) : mostRecent(month, dayOfMonth, today);
+    if (day) return { day, confidence: 0.85, phrase: m[0] };
+  }
+
+  // "the 12th of October", "12 October 2024"
+  if ((m = text.match(new RegExp(`\\b(?:on\\s+)?(?:the\\s+)?(?:${DAY_PATTERN})\\s+(?:of\\s+)?(${MONTH_PATTERN})\\b(?:,?\\s+(\\d{4})\\b)?`, 'i')))) {
+    const month = MONTHS[m[3].slice(0, 3).toLowerCase()];
+    const dayOfMonth = readDayNumber(m[1], m[2]);
+    const day = m[4] ? calendarDay(Number(m[4]), month, dayOfMonth) : mostRecent(month, dayOfMonth, today);
+    if (day) return { day, confidence: 0.85, phrase: m[0] };
+  }
+
+  if ((m = text.match(/\b(?:the\s+)?day\s+before\s+yesterday\b/i))) {
+    return { day: addDays(today, -2), confidence: 0.9, phrase: m[0] };
+  }
+  if ((m = text.match(/\blast\s+night\b/i))) {
+    return { day: addDays(today, -1), confidence: 0.9, phrase: m[0], timeOfDay: 'night' };
+  }
+  if ((m = text.match(/\byesterday\b/i))) {
+    return { day: addDays(today, -1), confidence: 0.9, phrase: m[0] };
+  }
+  if ((m = text.match(/\btonight\b/i))) {
+    return { day: today, confidence: 0.9, phrase: m[0], timeOfDay: 'night' };
+  }
+  if ((m = text.match(/\btoday\b/i))) {
+    return { day: today, confidence: 0.9, phrase: m[0] };
+  }
+  if ((m = text.match(/\btomorrow\b/i))) {
+    return { day: addDays(today, 1), confidence: 0.9, phrase: m[0] };
+  }
+
+  // "two days ago", "3 weeks ago", "a couple of days ago"
+  const count = `\\d{1,3}|${Object.keys(COUNT_WORDS).join('|')}|(?:a\\s+)?couple(?:\\s+of)?|(?:a\\s+)?few`;
+  if ((m = text.match(new RegExp(`\\b(${count})\\s+(days?|weeks?)\\s+ago\\b`, 'i')))) {
+    const amount = m[1].toLowerCase();
+    const n = /couple/.test(amount) ? 2 : /few/.test(amount) ? 3 : /^\d+$/.test(amount) ? Number(amount) : COUNT_WORDS[amount];
+    const days = /^week/i.test(m[2]) ? n * 7 : n;
+    // "a couple" and "a few" are estimates
+    const confidence = /couple|few/.test(amount) ? 0.5 : 0.85;
+    return { day: addDays(today, -days), confidence, phrase: m[0] };
+  }
+
+  // "last Friday", "on Saturday", "Saturday night"; weekdays are the most recent one
+  if ((m = text.match(new RegExp(`\\b(?:(last|this|on|past)\\s+)?(${WEEKDAYS.join('|')})\\b`, 'i')))) {
+    const weekday = WEEKDAYS.indexOf(m[2].toLowerCase());
+    const todayWeekday = new Date(Date.UTC(today.year, today.month, today.day)).getUTCDay();
+    let daysBack = (todayWeekday - weekday + 7) % 7;
+    // "last Friday" on a Friday means a week ago
+    if (daysBack === 0 && m[1]?.toLowerCase() === 'last') daysBack = 7;
+    return { day: addDays(today, -daysBack), confidence: 0.8, phrase: m[0] };
+  }
+
+  if ((m = text.match(/\blast\s+week\b/i))) {
+    return { day: addDays(today, -7), confidence: 0.5, phrase: m[0] };
+  }
+
+  // "on the 3rd", "the twenty-first"; later this month than today means last month
+  if ((m = text.match(new RegExp(`\\b(?:on\\s+)?the\\s+(?:(\\d{1,2})(?:st|nd|rd|th)|(${ORDINAL_WORD_PATTERN}))\\b`, 'i')))) {
+    const dayOfMonth = readDayNumber(m[1], m[2]);
+    let day = calendarDay(today.year, today.month, dayOfMonth);
+    if (!day || isAfter(day, today)) {
+      const lastMonth = addDays({ ...today, day: 1 }, -1);
+      day = calendarDay(lastMonth.year, lastMonth.month, dayOfMonth);
+    }
+    if (day) return { day, confidence: 0.7, phrase: m[0] };
+  }
+
+  return null;
+}
+
+/**
+ * Finds a time of day: a clock time ("at 7:30pm", "19:00"), noon or midnight,
+ * or a part of the day ("this morning", "night").
+ */
+function matchTime(text: string): { hour: number; minute: number; phrase: string; timeOfDay?: TimeOfDay; explicit: boolean } | null {
+  let m: RegExpMatchArray | null;
+
+  if ((m = text.match(/\b(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)(?=\s|[.,!?]|$)/i))) {
+    const hour = Number(m[1]);
+    const minute = m[2] ? Number(m[2]) : 0;
+    if (hour >= 1 && hour <= 12 && minute < 60) {
+      const pm = m[3].toLowerCase().startsWith('p');
+      return { hour: (hour % 12) + (pm ? 12 : 0), minute, phrase: m[0], explicit: true };
+    }
+  }
+
+  if ((m = text.match(/\b(?:at\s+)?([01]?\d|2[0-3]):([0-5]\d)\b/))) {
+    return { hour: Number(m[1]), minute: Number(m[2]), phrase: m[0], explicit: true };
+  }
+
+  if ((m = text.match(/\b(?:at\s+)?(noon|midday|midnight)\b/i))) {
+    return { hour: /midnight/i.test(m[1]) ? 0 : 12, minute: 0, phrase: m[0], explicit: true };
+  }
+
+  if ((m = text.match(/\b(this\s+|in\s+the\s+)?(morning|afternoon|evening|night)\b/i))) {
+    const timeOfDay = m[2].toLowerCase() as TimeOfDay;
+    return { hour: TIME_OF_DAY_HOURS[timeOfDay], minute: 0, phrase: m[0], timeOfDay, explicit: Boolean(m[1]) };
+  }
+
+  return null;
+}
+
+/**
+ * Resolves the date and time a sentence refers to, in the user's time zone.
+ *
+ * - Days: today, yesterday, tomorrow, "the day before yesterday", "N days/weeks ago",
+ *   weekdays (the most recent one), "on the 3rd", month names and ISO or m/d/y dates.
+ * - Times: clock times, noon, midnight and parts of the day ("Saturday night").
+ *
+ * A day without a time is placed at midday; today without a time is now.
+ * Dates without a year are the most recent one.
+ *
+ * @param text - Transcribed or typed text
+ * @param options - The moment to resolve against (now by default) and the user's time zone
+ * @returns The resolved moment, or null when the text mentions no date or time
+ */
+export function resolveDatePhrase(text: string, options: DateResolveOptions = {}): ResolvedDate | null {
+  if (!text) return null;
+  const now = options.now ?? new Date();
+  const timeZone = options.timeZone && isValidTimeZone(options.timeZone) ? options.timeZone : DEFAULT_TIME_ZONE;
+
+  const zonedNow = getZonedParts(now, timeZone);
+  const today: CalendarDay = { year: zonedNow.year, month: zonedNow.month, day: zonedNow.day };
+
+  const dayMatch = matchDay(text, today);
+  // Look for the time in the rest of the sentence so "3/2/2025" isn't read again
+  const rest = dayMatch ? text.replace(dayMatch.phrase, ' ') : text;
+  const timeMatch = matchTime(rest);
+
+  if (!dayMatch && !timeMatch) return null;
+
+  const day = dayMatch?.day ?? today;
+  const timeOfDay = timeMatch?.timeOfDay ?? dayMatch?.timeOfDay;
+  const phrases = [dayMatch?.phrase, timeMatch?.phrase].filter((phrase): phrase is string => Boolean(phrase));
+  // A bare "morning" may describe the purchase rather than when it happened
+  const confidence = dayMatch?.confidence ?? (timeMatch?.explicit ? 0.8 : 0.6);
+
+  if (timeMatch) {
+    return { value: toInstant(day, timeMatch.hour, timeMatch.minute, timeZone), confidence, phrases, timeOfDay };
+  }
+  if (timeOfDay) {
+    return { value: toInstant(day, TIME_OF_DAY_HOURS[timeOfDay], 0, timeZone), confidence, phrases, timeOfDay };
+  }
+  if (isSameDay(day, today)) {
+    return { value: new Date(now.getTime()), confidence, phrases };
+  }
+  return { value: toInstant(day, DEFAULT_HOUR, 0, timeZone), confidence, phrases };
+}
@@ -0,0 +1,150 @@
+import { ExchangeRateRepository } from '../repositories/ExchangeRateRepository';
+import { ProfileRepository } from '../repositories/ProfileRepository';
+import {
+  ExchangeRateValidationError,
+  validateImportExchangeRatesRequest,
+  listExchangeRatesQuerySchema,
+  toExchangeRateResponse,
+  getCurrency
+} from '../models/ExchangeRate';
+import type {
+  ExchangeRateImportResult,
+  ExchangeRateResponse
+} from '../models/ExchangeRate';
+
+/**
+ * Service class for currencies and exchange rates.
+ *
+ * Handles:
+ * - Importing dated exchange rates into the local rate table
+ * - Resolving a user's home currency from their profile
+ * - Converting amounts between currencies using the rate for a date
+ *
+ * @swagger
+ * tags:
+ *   name: Exchange Rates
+ *   description: Exchange rate table used to report amounts in the user's home currency
+ */
+export class ExchangeRateService {
+  private exchangeRateRepository: ExchangeRateRepository;
+  private profileRepository: ProfileRepository;
+
+  constructor() {
+    // Initialize repository for data access
+    // In a larger app, this would be injected for better testability
+    this.exchangeRateRepository = new ExchangeRateRepository();
+    this.profileRepository = new ProfileRepository();
+  }
+
+  /**
+   * Imports a batch of dated rates. A rate for a pair and day that already
+   * exists is replaced.
+   *
+   * @param {any} data - Raw import payload ({ source?, rates: [...] })
+   * @returns {Promise<ExchangeRateImportResult>} Counts of new and replaced rates
+   * @throws {ExchangeRateValidationError} If validation fails
+   */
+  async importRates(data: any): Promise<ExchangeRateImportResult> {
+    const validatedData = validateImportExchangeRatesRequest(data);
+    return await this.exchangeRateRepository.upsertRates(validatedData.rates, validatedData.source);
+  }
+
+  /**
+   * Lists stored rates, newest first.
+   *
+   * @param {any} query - Raw query parameters (base, quote, limit)
+   * @returns {Promise<ExchangeRateResponse[]>} Matching rates
+   * @throws {ExchangeRateValidationError} If the query is invalid
+   */
+  async listRates(query: any): Promise<ExchangeRateResponse[]> {
+    const parsed = listExchangeRatesQuerySchema.safeParse(query);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new ExchangeRateValidationError(issue?.message || 'Invalid query parameters', issue?.path[0]?.toString());
+    }
+
+    const rates = await this.exchangeRateRepository.findRates(parsed.data);
+    return rates.map(rate => toExchangeRateResponse(rate));
+  }
+
+  /**
+   * Resolves the currency a user's reports are expressed in.
+   *
+   * @param {string} userId - The user (profile) ID
+   * @returns {Promise<string>} The profile's home currency, or the default currency
+   */
+  async getHomeCurrency(userId: string): Promise<string> {
+    try {
+      const profile = await this.profileRepository.findProfileById(userId);
+      return getCurrency({ currency: profile?.homeCurrency });
+    } catch (error) {
+      console.error('Failed to resolve home currency:', error);
+      // Don't throw - reports fall back to the default currency
+      return getCurrency({});
+    }
+  }
+
+  /**
+   * Finds the first of a set of currencies that can't be converted into another
+   * because no rate is known for the pair. Amounts are only accepted in
+   * currencies that convert into the user's home currency.
+   *
+   * @param {Iterable<string>} currencies - Currencies of the amounts
+   * @param {string} to - Currency the amounts are reported in
+   * @returns {Promise<string | null>} A currency without a rate, or null if all convert
+   */
+  async findUnconvertibleCurrency(currencies: Iterable<string>, to: string): Promise<string | null> {
+    for (const currency of new Set(currencies)) {
+      if (currency !== to && !await this.exchangeRateRepository.hasRate(currency, to)) {
+        return currency;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Gets the factor converting amounts from one currency to another on a date.
+   * Pairs without a known rate are left unconverted (factor 1), matching the
+   * repository aggregations; that only happens for amounts saved before
+   * currencies were checked with findUnconvertibleCurrency.
+   *
+   * @param {string} from - Currency of the amount
+   * @param {string} to - Currency to convert into
+   * @param {Date} date - Date of the amount
+   * @returns {Promise<number>} Conversion factor
+   */
+  async getConversionFactor(from: string, to: string, date: Date): Promise<number> {
+    if (from === to) {
+      return 1;
+    }
+
+    const factor = await this.exchangeRateRepository.findConversionFactor(from, to, date);
+    if (factor === null) {
+      console.warn(`No exchange rate for ${from}/${to}; amount left unconverted`);
+      return 1;
+    }
+    return factor;
+  }
+
+  /**
+   * Converts an amount between currencies using the rate for a date.
+   *
+   * @param {number} amount - Amount in the source currency
+   * @param {string} from - Currency of the amount
+   * @param {string} to - Currency to convert into
+   * @param {Date} date - Date of the amount
+   * @returns {Promise<number>} Converted amount, rounded to cents
+   */
+  async convert(amount: number, from: string, to: string, date: Date): Promise<number> {
+    const factor = await this.getConversionFactor(from, to, date);
+    return Math.round(amount * factor * 100) / 100;
+  }
+
+  /**
+   * Initializes database indexes.
+   * Should be called during application startup.
+   */
+  async initializeIndexes(): Promise<void> {
+    await this.exchangeRateRepository.createIndexes();
+  }
+}
@@ -5,9 +5,122 @@
  * Uses OAuth 2.0 to create and update spreadsheets in user's Google Drive.
  */
 
+import { createHash } from 'crypto';
 import { google } from 'googleapis';
 import type { sheets_v4 } from 'googleapis';
 
+const SHEET_HEADERS = [
+  'Date & Time',
+  'Vendor',
+  'Description',
+  'Amount',
+  'Payment Type',
+  'Category',
+];
+
+// Tabs of a synced spreadsheet. Columns G:H of the transactions tab hold the
+// row key and a hash of the row values; they are hidden from the user.
+const TRANSACTIONS_TAB = 'Transactions';
+const SUMMARY_TAB = 'Monthly Summary';
+const SYNC_HEADERS = [...SHEET_HEADERS, 'Transaction ID', 'Row Hash'];
+
+export const SUMMARY_HEADERS = ['Month', 'Category', 'Spent', 'Budget', 'Remaining', '% Used'];
+
+/**
+ * A transaction line to keep in a synced spreadsheet.
+ * The key identifies the line across syncs (transaction ID, plus the split
+ * line number for split transactions).
+ */
+export interface SheetSyncRow {
+  key: string;
+  transaction: any;
+}
+
+export interface SheetSyncResult {
+  spreadsheetId: string;
+  created: boolean;
+  appended: number;
+  updated: number;
+  removed: number;
+}
+
+/**
+ * Changes needed to bring the transactions tab in line with the current rows.
+ * Row numbers are 1-based sheet rows as they are before any rows are removed.
+ */
+export interface SheetSyncPlan {
+  updates: Array<{ row: number; values: any[] }>;
+  appends: any[][];
+  removals: number[];
+}
+
+/**
+ * Formats a transaction as the visible cells of a sheet row.
+ */
+function toSheetValues(t: any): any[] {
+  const date = new Date(t.dateTime);
+  const dateTimeString = date.toLocaleString('en-US', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  return [
+    dateTimeString,
+    t.vendorName || '',
+    t.description || '',
+    t.amount || 0,
+    t.paymentType || '',
+    t.categoryName || 'Uncategorized',
+  ];
+}
+
+/**
+ * Works out which sheet rows to update, append and remove.
+ *
+ * Existing rows are matched to current rows by key. Rows whose hash changed
+ * are rewritten in place, rows whose key no longer exists (or repeats) are
+ * removed, and new keys are appended in the order given. Rows without a key
+ * were added by the user and are left alone.
+ *
+ * @param existing - Key and hash of each data row, starting at sheet row 2
+ * @param rows - Current rows with their values and hash
+ * @returns The changes to apply
+ */
+export function planSheetSync(
+  existing: Array<{ key?: string; hash?: string }>,
+  rows: Array<{ key: string; hash: string; values: any[] }>
+): SheetSyncPlan {
+  const byKey = new Map(rows.map(row => [row.key, row]));
+  const seen = new Set<string>();
+  const plan: SheetSyncPlan = { updates: [], appends: [], removals: [] };
+
+  existing.forEach(({ key, hash }, index) => {
+    const sheetRow = index + 2;
+    if (!key) return;
+
+    const current = byKey.get(key);
+    if (!current || seen.has(key)) {
+      plan.removals.push(sheetRow);
+      return;
+    }
+
+    seen.add(key);
+    if (current.hash !== hash) {
+      plan.updates.push({ row: sheetRow, values: [...current.values, current.key, current.hash] });
+    }
+  });
+
+  for (const row of rows) {
+    if (!seen.has(row.key)) {
+      plan.appends.push([...row.values, row.key, row.hash]);
+    }
+  }
+
+  return plan;
+}
+
 export class GoogleSheetsService {
   private oauth2Client: any;
 
@@ -73,33 +186,8 @@ export class GoogleSheetsService {
     }
 
     // Prepare data rows
-    const headers = [
-      'Date & Time',
-      'Vendor',
-      'Description',
-      'Amount',
-      'Payment Type',
-      'Category',
-    ];
-
-    const rows = transactions.map((t) => {
-      const date = typeof t.dateTime === 'string' ? new Date(t.dateTime) : new Date(t.dateTime);
-      const dateTimeString = date.toLocaleString('en-US', {
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-      });
-      return [
-        dateTimeString,
-        t.vendorName || '',
-        t.description || '',
-        t.amount || 0,
-        t.paymentType || '',
-        t.categoryName || 'Uncategorized',
-      ];
-    });
+    const headers = SHEET_HEADERS;
+    const rows = transactions.map((t) => toSheetValues(t));
 
     // Write data to sheet
     await sheets.spreadsheets.values.update({
@@ -257,6 +345,247 @@ export class GoogleSheetsService {
     return `https://docs.google.com/spreadsheets/d/${spreadsheetId}`;
   }
 
+  /**
+   * Brings a spreadsheet in line with the given transaction rows.
+   *
+   * Only changed rows are written: new transactions are appended, edited ones
+   * are rewritten in place and deleted ones are removed, so user formatting and
+   * extra columns survive. The monthly summary tab is rewritten on every sync.
+   * A new spreadsheet is created when none is given or the old one is gone.
+   *
+   * @param spreadsheetId - Spreadsheet from a previous sync, if any
+   * @param rows - Transaction lines to keep in the sheet (with categoryName populated)
+   * @param summaryRows - Rows for the monthly summary tab, in SUMMARY_HEADERS order
+   * @param sheetTitle - Title used when a new spreadsheet is created
+   * @returns Spreadsheet ID and counts of rows changed
+   */
+  async syncSpreadsheet(
+    spreadsheetId: string | null | undefined,
+    rows: SheetSyncRow[],
+    summaryRows: any[][],
+    sheetTitle: string = 'Parrit Transactions'
+  ): Promise<SheetSyncResult> {
+    const sheets = google.sheets({ version: 'v4', auth: this.oauth2Client });
+
+    const existingTabs = spreadsheetId ? await this.getSheetIds(sheets, spreadsheetId) : null;
+    const created = !existingTabs;
+    let tabs = existingTabs ?? new Map<string, number>();
+
+    if (created) {
+      const createResponse = await sheets.spreadsheets.create({
+        requestBody: {
+          properties: { title: sheetTitle },
+          sheets: [{ properties: { title: TRANSACTIONS_TAB } }, { properties: { title: SUMMARY_TAB } }],
+        },
+      });
+      spreadsheetId = createResponse.data.spreadsheetId;
+      if (!spreadsheetId) {
+        throw new Error('Failed to create spreadsheet');
+      }
+      tabs = new Map((createResponse.data.sheets ?? []).map(sheet => [sheet.properties!.title!, sheet.properties!.sheetId!]));
+    }
+
+    // Recreate tabs the user deleted or renamed
+    const missing = [TRANSACTIONS_TAB, SUMMARY_TAB].filter(title => !tabs.has(title));
+    if (missing.length > 0) {
+      const addResponse = await sheets.spreadsheets.batchUpdate({
+        spreadsheetId: spreadsheetId!,
+        requestBody: { requests: missing.map(title => ({ addSheet: { properties: { title } } })) },
+      });
+      for (const reply of addResponse.data.replies ?? []) {
+        const properties = reply.addSheet?.properties;
+        if (properties?.title) tabs.set(properties.title, properties.sheetId!);
+      }
+    }
+
+    const id = spreadsheetId!;
+    const transactionsSheetId = tabs.get(TRANSACTIONS_TAB)!;
+
+    if (created || missing.includes(TRANSACTIONS_TAB)) {
+      await this.setUpTransactionsTab(sheets, id, transactionsSheetId);
+    }
+
+    // Read back row keys and hashes
+    const existingResponse = await sheets.spreadsheets.values.get({
+      spreadsheetId: id,
+      range: `'${TRANSACTIONS_TAB}'!G2:H`,
+    });
+    const existing = (existingResponse.data.values ?? []).map(([key, hash]) => ({ key, hash }));
+
+    const plan = planSheetSync(existing, rows.map(({ key, transaction }) => {
+      const values = toSheetValues(transaction);
+      return { key, values, hash: hashValues(values) };
+    }));
+
+    // Rewrite edited rows before removing any, so row numbers still line up
+    if (plan.updates.length > 0) {
+      await sheets.spreadsheets.values.batchUpdate({
+        spreadsheetId: id,
+        requestBody: {
+          valueInputOption: 'USER_ENTERED',
+          data: plan.updates.map(({ row, values }) => ({
+            range: `'${TRANSACTIONS_TAB}'!A${row}:H${row}`,
+            values: [values],
+          })),
+        },
+      });
+    }
+
+    if (plan.removals.length > 0) {
+      // Bottom-up so earlier removals don't shift later ones
+      const removals = [...plan.removals].sort((a, b) => b - a);
+      await sheets.spreadsheets.batchUpdate({
+        spreadsheetId: id,
+        requestBody: {
+          requests: removals.map(row => ({
+            deleteDimension: {
+              range: { sheetId: transactionsSheetId, dimension: 'ROWS', startIndex: row - 1, endIndex: row },
+            },
+          })),
+        },
+      });
+    }
+
+    if (plan.appends.length > 0) {
+      await sheets.spreadsheets.values.append({
+        spreadsheetId: id,
+        range: `'${TRANSACTIONS_TAB}'!A:H`,
+        valueInputOption: 'USER_ENTERED',
+        insertDataOption: 'INSERT_ROWS',
+        requestBody: { values: plan.appends },
+      });
+    }
+
+    await this.writeSummaryTab(sheets, id, tabs.get(SUMMARY_TAB)!, summaryRows);
+
+    return {
+      spreadsheetId: id,
+      created,
+      appended: plan.appends.length,
+      updated: plan.updates.length,
+      removed: plan.removals.length,
+    };
+  }
+
+  /**
+   * Looks up the tabs of a spreadsheet.
+   * @returns Map of tab title to sheet ID, or null if the spreadsheet no longer exists
+   */
+  private async getSheetIds(sheets: sheets_v4.Sheets, spreadsheetId: string): Promise<Map<string, number> | null> {
+    try {
+      const response = await sheets.spreadsheets.get({
+        spreadsheetId,
+        fields: 'sheets.properties(sheetId,title)',
+      });
+      return new Map((response.data.sheets ?? []).map(sheet => [sheet.properties!.title!, sheet.properties!.sheetId!]));
+    } catch (error: any) {
+      // Deleted or no longer shared with the app - start a new spreadsheet
+      if (error?.code === 404 || error?.code === 403) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Writes the header row and formatting of a new transactions tab and hides
+   * the key and hash columns.
+   */
+  private async setUpTransactionsTab(sheets: sheets_v4.Sheets, spreadsheetId: string, sheetId: number): Promise<void> {
+    await sheets.spreadsheets.values.update({
+      spreadsheetId,
+      range: `'${TRANSACTIONS_TAB}'!A1`,
+      valueInputOption: 'USER_ENTERED',
+      requestBody: { values: [SYNC_HEADERS] },
+    });
+
+    await sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: {
+        requests: [
+          headerFormatRequest(sheetId),
+          frozenHeaderRequest(sheetId),
+          // Format Amount column (D) as currency, including rows appended later
+          {
+            repeatCell: {
+              range: { sheetId, startRowIndex: 1, startColumnIndex: 3, endColumnIndex: 4 },
+              cell: {
+                userEnteredFormat: {
+                  numberFormat: { type: 'CURRENCY', pattern: '$#,##0.00' },
+                  horizontalAlignment: 'RIGHT',
+                },
+              },
+              fields: 'userEnteredFormat(numberFormat,horizontalAlignment)',
+            },
+          },
+          {
+            updateDimensionProperties: {
+              range: { sheetId, dimension: 'COLUMNS', startIndex: 0, endIndex: 6 },
+              properties: { pixelSize: 150 },
+              fields: 'pixelSize',
+            },
+          },
+          // Hide the Transaction ID and Row Hash columns (G:H)
+          {
+            updateDimensionProperties: {
+              range: { sheetId, dimension: 'COLUMNS', startIndex: 6, endIndex: 8 },
+              properties: { hiddenByUser: true },
+              fields: 'hiddenByUser',
+            },
+          },
+        ],
+      },
+    });
+  }
+
+  /**
+   * Replaces the contents of the monthly summary tab.
+   */
+  private async writeSummaryTab(
+    sheets: sheets_v4.Sheets,
+    spreadsheetId: string,
+    sheetId: number,
+    summaryRows: any[][]
+  ): Promise<void> {
+    await sheets.spreadsheets.values.clear({
+      spreadsheetId,
+      range: `'${SUMMARY_TAB}'`,
+    });
+
+    await sheets.spreadsheets.values.update({
+      spreadsheetId,
+      range: `'${SUMMARY_TAB}'!A1`,
+      valueInputOption: 'USER_ENTERED',
+      requestBody: { values: [SUMMARY_HEADERS, ...summaryRows] },
+    });
+
+    await sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: {
+        requests: [
+          headerFormatRequest(sheetId),
+          frozenHeaderRequest(sheetId),
+          // Spent, Budget and Remaining (C:E) as currency
+          {
+            repeatCell: {
+              range: { sheetId, startRowIndex: 1, startColumnIndex: 2, endColumnIndex: 5 },
+              cell: { userEnteredFormat: { numberFormat: { type: 'CURRENCY', pattern: '$#,##0.00' } } },
+              fields: 'userEnteredFormat.numberFormat',
+            },
+          },
+          // % Used (F) as a percentage
+          {
+            repeatCell: {
+              range: { sheetId, startRowIndex: 1, startColumnIndex: 5, endColumnIndex: 6 },
+              cell: { userEnteredFormat: { numberFormat: { type: 'PERCENT', pattern: '0%' } } },
+              fields: 'userEnteredFormat.numberFormat',
+            },
+          },
+        ],
+      },
+    });
+  }
+
   /**
    * Gets the OAuth2 authorization URL
    * @param state - Optional state parameter for OAuth flow
@@ -293,3 +622,39 @@ export class GoogleSheetsService {
   }
 }
 
+/**
+ * Short fingerprint of a row's values, used to spot edited rows.
+ */
+function hashValues(values: any[]): string {
+  return createHash('sha1').update(JSON.stringify(values)).digest('hex').slice(0, 16);
+}
+
+function headerFormatRequest(sheetId: number): sheets_v4.Schema$Request {
+  return {
+    repeatCell: {
+      range: { sheetId, startRowIndex: 0, endRowIndex: 1 },
+      cell: {
+        userEnteredFormat: {
+          backgroundColor: { red: 0.26, green: 0.65, blue: 0.30 }, // Green color
+          textFormat: {
+            foregroundColor: { red: 1, green: 1, blue: 1 },
+            bold: true,
+            fontSize: 11,
+          },
+          horizontalAlignment: 'CENTER',
+          verticalAlignment: 'MIDDLE',
+        },
+      },
+      fields: 'userEnteredFormat(backgroundColor,textFormat,horizontalAlignment,verticalAlignment)',
+    },
+  };
+}
+
+function frozenHeaderRequest(sheetId: number): sheets_v4.Schema$Request {
+  return {
+    updateSheetProperties: {
+      properties: { sheetId, gridProperties: { frozenRowCount: 1 } },
+      fields: 'gridProperties.frozenRowCount',
+    },
+  };
+}
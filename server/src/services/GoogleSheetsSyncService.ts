@@ -0,0 +1,247 @@
+/**
+ * Google Sheets Sync Service
+ *
+ * Keeps one spreadsheet per user up to date instead of creating a new
+ * spreadsheet on every export. The spreadsheet ID is stored on the profile.
+ */
+
+import { ProfileRepository } from '../repositories/ProfileRepository';
+import { GoogleSheetsService } from './GoogleSheetsService';
+import type { SheetSyncRow } from './GoogleSheetsService';
+import { TransactionService } from './TransactionService';
+import { CategoryService } from './CategoryService';
+import { BudgetService } from './BudgetService';
+import { ExchangeRateService } from './ExchangeRateService';
+import { buildCategoryNameMap, toCategoryRows } from './TransactionExporter';
+import { getCurrency } from '../models/ExchangeRate';
+import type { TransactionResponse } from '../models/Transaction';
+import type { BudgetResponse } from '../models/Budget';
+
+export interface GoogleSheetsSyncResponse {
+  spreadsheetId: string;
+  sheetUrl: string;
+  created: boolean;
+  appended: number;
+  updated: number;
+  removed: number;
+  transactionCount: number;
+}
+
+/**
+ * An amount spent or budgeted in a month, in the user's home currency.
+ * Entries without a categoryId are the overall monthly budget.
+ */
+export interface MonthlyAmount {
+  month: string; // YYYY-MM
+  categoryId?: string;
+  amount: number;
+}
+
+/**
+ * Builds the monthly summary tab: for each month (newest first), an
+ * "All categories" row followed by one row per category, with the amount
+ * spent, the budget, what is left of it and the share used.
+ * Budget columns are left blank where there is no budget.
+ *
+ * @param spending - Expense amounts per month and category
+ * @param budgets - Budget amounts per month, overall or per category
+ * @param categoryNames - Category ID to name lookup
+ * @returns Rows in SUMMARY_HEADERS order
+ */
+export function buildMonthlySummary(
+  spending: MonthlyAmount[],
+  budgets: MonthlyAmount[],
+  categoryNames: Map<string, string>
+): any[][] {
+  const months = new Map<string, { spent: Map<string, number>; budgets: Map<string, number>; total: number; overall?: number }>();
+  const monthFor = (month: string) => {
+    if (!months.has(month)) {
+      months.set(month, { spent: new Map(), budgets: new Map(), total: 0 });
+    }
+    return months.get(month)!;
+  };
+
+  for (const { month, categoryId, amount } of spending) {
+    const entry = monthFor(month);
+    const key = categoryId || '';
+    entry.spent.set(key, (entry.spent.get(key) ?? 0) + amount);
+    entry.total += amount;
+  }
+
+  for (const { month, categoryId, amount } of budgets) {
+    const entry = monthFor(month);
+    if (categoryId) {
+      entry.budgets.set(categoryId, amount);
+    } else {
+      entry.overall = amount;
+    }
+  }
+
+  const row = (month: string, label: string, spent: number, budget?: number) => {
+    const roundedSpent = Math.round(spent * 100) / 100;
+    if (budget === undefined) {
+      return [month, label, roundedSpent, '', '', ''];
+    }
+    return [
+      month,
+      label,
+      roundedSpent,
+      budget,
+      Math.round((budget - spent) * 100) / 100,
+      budget > 0 ? Math.round((spent / budget) * 10000) / 10000 : '',
+    ];
+  };
+
+  const rows: any[][] = [];
+  for (const month of [...months.keys()].sort().reverse()) {
+    const entry = months.get(month)!;
+    rows.push(row(month, 'All categories', entry.total, entry.overall));
+
+    const categoryIds = new Set([...entry.spent.keys(), ...entry.budgets.keys()]);
+    const categoryRows = [...categoryIds].map(categoryId => ({
+      name: categoryNames.get(categoryId) || 'Uncategorized',
+      categoryId,
+    }));
+    categoryRows.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const { name, categoryId } of categoryRows) {
+      rows.push(row(month, name, entry.spent.get(categoryId) ?? 0, entry.budgets.get(categoryId)));
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Service class for syncing transactions into a user's Google spreadsheet.
+ */
+export class GoogleSheetsSyncService {
+  private profileRepository: ProfileRepository;
+  private googleSheetsService: GoogleSheetsService;
+  private transactionService: TransactionService;
+  private categoryService: CategoryService;
+  private budgetService: BudgetService;
+  private exchangeRateService: ExchangeRateService;
+
+  constructor() {
+    // In a larger app, these would be injected for better testability
+    this.profileRepository = new ProfileRepository();
+    this.googleSheetsService = new GoogleSheetsService();
+    this.transactionService = new TransactionService();
+    this.categoryService = new CategoryService();
+    this.budgetService = new BudgetService();
+    this.exchangeRateService = new ExchangeRateService();
+  }
+
+  /**
+   * Syncs all of a user's transactions into their spreadsheet.
+   *
+   * Appends new transactions, rewrites edited ones and removes deleted ones,
+   * keyed by transaction ID in a hidden column, then refreshes the monthly
+   * summary tab. Creates the spreadsheet on first sync (or if it was deleted)
+   * and stores its ID on the profile.
+   *
+   * @param {string} userId - The user ID
+   * @param {{ accessToken: string, refreshToken?: string }} credentials - Google OAuth tokens
+   * @returns {Promise<GoogleSheetsSyncResponse>} Spreadsheet link and counts of rows changed
+   */
+  async syncTransactions(
+    userId: string,
+    credentials: { accessToken: string; refreshToken?: string }
+  ): Promise<GoogleSheetsSyncResponse> {
+    this.googleSheetsService.setCredentials(credentials.accessToken, credentials.refreshToken);
+
+    const [profile, transactions, categories, budgets, homeCurrency] = await Promise.all([
+      this.profileRepository.findProfileById(userId),
+      this.transactionService.getTransactionsByUserId(userId),
+      this.categoryService.getCategoriesByUserId(userId),
+      this.budgetService.getBudgetsByUserId(userId),
+      this.exchangeRateService.getHomeCurrency(userId),
+    ]);
+
+    const categoryNames = buildCategoryNameMap(categories);
+    const rows = this.toSyncRows(transactions, categoryNames);
+    const summaryRows = buildMonthlySummary(
+      await this.getMonthlySpending(transactions, homeCurrency),
+      await this.getMonthlyBudgets(budgets, homeCurrency),
+      categoryNames
+    );
+
+    const result = await this.googleSheetsService.syncSpreadsheet(
+      profile?.googleSpreadsheetId,
+      rows,
+      summaryRows
+    );
+
+    if (result.spreadsheetId !== profile?.googleSpreadsheetId) {
+      await this.profileRepository.updateGoogleSpreadsheetId(userId, result.spreadsheetId);
+    }
+
+    return {
+      ...result,
+      sheetUrl: `https://docs.google.com/spreadsheets/d/${result.spreadsheetId}`,
+      transactionCount: transactions.length,
+    };
+  }
+
+  /**
+   * Expands transactions into keyed sheet rows. The first line of a
+   * transaction is keyed by its ID and further split lines by ID#n, so a
+   * transaction that gains splits keeps its original row.
+   *
+   * @private
+   */
+  private toSyncRows(transactions: TransactionResponse[], categoryNames: Map<string, string>): SheetSyncRow[] {
+    return transactions.flatMap(transaction =>
+      toCategoryRows(transaction, categoryNames).map((row, index) => ({
+        key: index === 0 ? transaction.id : `${transaction.id}#${index + 1}`,
+        transaction: row,
+      }))
+    );
+  }
+
+  /**
+   * Expense amounts per month and category line, converted into the home
+   * currency at each transaction's date.
+   *
+   * @private
+   */
+  private async getMonthlySpending(transactions: TransactionResponse[], homeCurrency: string): Promise<MonthlyAmount[]> {
+    const spending: MonthlyAmount[] = [];
+
+    for (const transaction of transactions) {
+      if (transaction.kind !== 'expense') continue;
+
+      const date = new Date(transaction.dateTime);
+      const factor = await this.exchangeRateService.getConversionFactor(
+        getCurrency(transaction), homeCurrency, date
+      );
+      for (const row of toCategoryRows(transaction, new Map())) {
+        spending.push({ month: monthKey(date), categoryId: row.categoryId, amount: row.amount * factor });
+      }
+    }
+
+    return spending;
+  }
+
+  /**
+   * Budget amounts per month, converted into the home currency at the start
+   * of the budget period.
+   *
+   * @private
+   */
+  private async getMonthlyBudgets(budgets: BudgetResponse[], homeCurrency: string): Promise<MonthlyAmount[]> {
+    const amounts: MonthlyAmount[] = [];
+
+    for (const budget of budgets) {
+      const amount = await this.exchangeRateService.convert(budget.amount, getCurrency(budget), homeCurrency, budget.startDate);
+      amounts.push({ month: budget.period, categoryId: budget.categoryId, amount });
+    }
+
+    return amounts;
+  }
+}
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
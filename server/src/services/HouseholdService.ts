@@ -0,0 +1,863 @@
+import { HouseholdRepository } from '../repositories/HouseholdRepository';
+import { HouseholdInvitationRepository } from '../repositories/HouseholdInvitationRepository';
+import { HouseholdBudgetRepository } from '../repositories/HouseholdBudgetRepository';
+import { CategoryRepository } from '../repositories/CategoryRepository';
+import { ProfileRepository } from '../repositories/ProfileRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import {
+  HouseholdValidationError,
+  HouseholdPermissionError,
+  INVITATION_TTL_DAYS,
+  createHouseholdSchema,
+  updateHouseholdSchema,
+  createInvitationSchema,
+  updateMemberSchema,
+  createHouseholdCategorySchema,
+  createHouseholdBudgetSchema,
+  updateHouseholdBudgetSchema,
+  householdBudgetStatusQuerySchema,
+  householdSpendingQuerySchema,
+  hasHouseholdRole,
+  toHouseholdInvitationResponse,
+  toHouseholdBudgetResponse
+} from '../models/Household';
+import type {
+  Household,
+  HouseholdRole,
+  HouseholdResponse,
+  HouseholdMemberResponse,
+  HouseholdInvitationResponse,
+  HouseholdBudgetResponse,
+  HouseholdBudgetStatusLine,
+  HouseholdBudgetStatusResponse,
+  HouseholdSpendingReport
+} from '../models/Household';
+import { updateCategorySchema, getCategoryKind, toCategoryResponse } from '../models/Category';
+import type { Category, CategoryResponse } from '../models/Category';
+import { getBudgetPeriod, getPeriodContaining } from '../models/Budget';
+import { DEFAULT_CURRENCY } from '../models/ExchangeRate';
+import { z } from 'zod';
+
+type CategoryTotal = { categoryId: string; categoryName: string; totalAmount: number; transactionCount: number };
+
+/**
+ * Service class for households: groups of users sharing categories and budgets.
+ *
+ * Access follows the member's role (viewer < editor < owner). Users who
+ * aren't members get null (404) rather than a permission error, so household
+ * IDs can't be probed.
+ *
+ * @swagger
+ * tags:
+ *   name: Households
+ *   description: Shared households with invitations, member roles, shared categories and budgets
+ */
+export class HouseholdService {
+  private householdRepository: HouseholdRepository;
+  private invitationRepository: HouseholdInvitationRepository;
+  private budgetRepository: HouseholdBudgetRepository;
+  private categoryRepository: CategoryRepository;
+  private profileRepository: ProfileRepository;
+  private transactionRepository: TransactionRepository;
+
+  constructor() {
+    // In a larger app, the repositories would be injected for better testability
+    this.householdRepository = new HouseholdRepository();
+    this.invitationRepository = new HouseholdInvitationRepository();
+    this.budgetRepository = new HouseholdBudgetRepository();
+    this.categoryRepository = new CategoryRepository();
+    this.profileRepository = new ProfileRepository();
+    this.transactionRepository = new TransactionRepository();
+  }
+
+  /**
+   * Creates a household with the user as its owner.
+   *
+   * @param {string} userId - The creating user
+   * @param {any} data - { name, currency? }
+   * @returns {Promise<HouseholdResponse>} The new household
+   * @throws {HouseholdValidationError} If validation fails
+   */
+  async createHousehold(userId: string, data: any): Promise<HouseholdResponse> {
+    const validatedData = parseOrThrow(createHouseholdSchema, data);
+
+    const household = await this.householdRepository.createHousehold({
+      ...validatedData,
+      members: [{ userId, role: 'owner', joinedAt: new Date() }],
+    });
+
+    return await this.toResponse(household, userId);
+  }
+
+  /**
+   * Lists the households a user belongs to.
+   *
+   * @param {string} userId - The user ID
+   * @returns {Promise<HouseholdResponse[]>} The user's households
+   */
+  async getHouseholds(userId: string): Promise<HouseholdResponse[]> {
+    const households = await this.householdRepository.findByMember(userId);
+    return await Promise.all(households.map(household => this.toResponse(household, userId)));
+  }
+
+  /**
+   * Retrieves a household the user belongs to.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @returns {Promise<HouseholdResponse | null>} The household, or null if not found for the user
+   */
+  async getHousehold(userId: string, householdId: string): Promise<HouseholdResponse | null> {
+    const household = await this.requireMember(userId, householdId, 'viewer');
+    return household ? await this.toResponse(household, userId) : null;
+  }
+
+  /**
+   * Renames a household or changes its currency. Owner only.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @param {any} data - { name?, currency? }
+   * @returns {Promise<HouseholdResponse | null>} The updated household, or null if not found for the user
+   * @throws {HouseholdValidationError} If validation fails
+   * @throws {HouseholdPermissionError} If the user isn't the owner
+   */
+  async updateHousehold(userId: string, householdId: string, data: any): Promise<HouseholdResponse | null> {
+    const validatedData = parseOrThrow(updateHouseholdSchema, data);
+
+    if (!(await this.requireMember(userId, householdId, 'owner'))) {
+      return null;
+    }
+
+    const updated = await this.householdRepository.updateHousehold(householdId, validatedData);
+    return updated ? await this.toResponse(updated, userId) : null;
+  }
+
+  /**
+   * Deletes a household with its budgets and invitations. Shared categories
+   * become personal categories of the members who created them, so their
+   * transactions keep a valid category. Owner only.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @returns {Promise<boolean>} True if deleted, false if not found for the user
+   * @throws {HouseholdPermissionError} If the user isn't the owner
+   */
+  async deleteHousehold(userId: string, householdId: string): Promise<boolean> {
+    if (!(await this.requireMember(userId, householdId, 'owner'))) {
+      return false;
+    }
+
+    await Promise.all([
+      this.budgetRepository.deleteByHousehold(householdId),
+      this.invitationRepository.deleteByHousehold(householdId),
+      this.categoryRepository.clearHousehold(householdId),
+    ]);
+
+    return await this.householdRepository.deleteHousehold(householdId);
+  }
+
+  /**
+   * Invites someone to a household by email. Owner only.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @param {any} data - { email, role? }
+   * @returns {Promise<HouseholdInvitationResponse | null>} The invitation, or null if not found for the user
+   * @throws {HouseholdValidationError} If the invitee is already a member or already invited
+   * @throws {HouseholdPermissionError} If the user isn't the owner
+   */
+  async inviteMember(userId: string, householdId: string, data: any): Promise<HouseholdInvitationResponse | null> {
+    const validatedData = parseOrThrow(createInvitationSchema, data);
+
+    const household = await this.requireMember(userId, householdId, 'owner');
+    if (!household) {
+      return null;
+    }
+
+    const invitee = await this.profileRepository.findProfileByEmail(validatedData.email);
+    const inviteeId = invitee?._id?.toString() || invitee?.id;
+    if (inviteeId && household.members.some(member => member.userId === inviteeId)) {
+      throw new HouseholdValidationError('This user is already a member', 'email');
+    }
+
+    const now = new Date();
+    const pending = await this.invitationRepository.findPendingByHousehold(householdId, now);
+    if (pending.some(invitation => invitation.email === validatedData.email)) {
+      throw new HouseholdValidationError('This email already has a pending invitation', 'email');
+    }
+
+    const invitation = await this.invitationRepository.createInvitation({
+      householdId,
+      householdName: household.name,
+      email: validatedData.email,
+      role: validatedData.role,
+      invitedBy: userId,
+      status: 'pending',
+      expiresAt: new Date(now.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+    });
+
+    return toHouseholdInvitationResponse(invitation);
+  }
+
+  /**
+   * Lists a household's pending invitations. Owner only.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @returns {Promise<HouseholdInvitationResponse[] | null>} Pending invitations, or null if not found for the user
+   * @throws {HouseholdPermissionError} If the user isn't the owner
+   */
+  async getHouseholdInvitations(userId: string, householdId: string): Promise<HouseholdInvitationResponse[] | null> {
+    if (!(await this.requireMember(userId, householdId, 'owner'))) {
+      return null;
+    }
+
+    const invitations = await this.invitationRepository.findPendingByHousehold(householdId, new Date());
+    return invitations.map(invitation => toHouseholdInvitationResponse(invitation));
+  }
+
+  /**
+   * Withdraws a pending invitation. Owner only.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @param {string} invitationId - The invitation ID
+   * @returns {Promise<boolean>} True if revoked, false if not found or no longer pending
+   * @throws {HouseholdPermissionError} If the user isn't the owner
+   */
+  async revokeInvitation(userId: string, householdId: string, invitationId: string): Promise<boolean> {
+    if (!(await this.requireMember(userId, householdId, 'owner'))) {
+      return false;
+    }
+
+    const invitation = await this.invitationRepository.findInvitationById(invitationId);
+    if (!invitation || invitation.householdId !== householdId) {
+      return false;
+    }
+
+    return (await this.invitationRepository.resolvePending(invitationId, 'revoked')) !== null;
+  }
+
+  /**
+   * Lists the pending invitations sent to the user's verified sign-in email.
+   * The profile email isn't used, since users can change it without verifying it.
+   *
+   * @param {string | undefined} verifiedEmail - The token's email, if Firebase has verified it
+   * @returns {Promise<HouseholdInvitationResponse[]>} Pending invitations
+   */
+  async getMyInvitations(verifiedEmail: string | undefined): Promise<HouseholdInvitationResponse[]> {
+    if (!verifiedEmail) {
+      return [];
+    }
+
+    const invitations = await this.invitationRepository.findPendingByEmail(verifiedEmail.toLowerCase(), new Date());
+    return invitations.map(invitation => toHouseholdInvitationResponse(invitation));
+  }
+
+  /**
+   * Accepts an invitation sent to the user's verified email and joins the
+   * household with the invited role.
+   *
+   * @param {string} userId - The invited user
+   * @param {string | undefined} verifiedEmail - The token's email, if Firebase has verified it
+   * @param {string} invitationId - The invitation ID
+   * @returns {Promise<HouseholdResponse | null>} The joined household, or null if the invitation isn't the user's
+   * @throws {HouseholdValidationError} If the invitation expired or was already answered
+   */
+  async acceptInvitation(userId: string, verifiedEmail: string | undefined, invitationId: string): Promise<HouseholdResponse | null> {
+    const invitation = await this.findInvitationFor(verifiedEmail, invitationId);
+    if (!invitation) {
+      return null;
+    }
+
+    const household = await this.householdRepository.findHouseholdById(invitation.householdId);
+    if (!household) {
+      return null;
+    }
+
+    if (household.members.some(member => member.userId === userId)) {
+      await this.invitationRepository.resolvePending(invitationId, 'accepted');
+      throw new HouseholdValidationError('You are already a member of this household');
+    }
+
+    // Resolve first so the same invitation can't be used twice
+    if (!(await this.invitationRepository.resolvePending(invitationId, 'accepted'))) {
+      throw new HouseholdValidationError('Invitation has already been answered');
+    }
+
+    const joined = await this.householdRepository.addMember(invitation.householdId, {
+      userId,
+      role: invitation.role,
+      joinedAt: new Date(),
+    });
+
+    return joined ? await this.toResponse(joined, userId) : null;
+  }
+
+  /**
+   * Declines an invitation sent to the user's verified email.
+   *
+   * @param {string | undefined} verifiedEmail - The token's email, if Firebase has verified it
+   * @param {string} invitationId - The invitation ID
+   * @returns {Promise<boolean>} True if declined, false if the invitation isn't the user's
+   * @throws {HouseholdValidationError} If the invitation expired or was already answered
+   */
+  async declineInvitation(verifiedEmail: string | undefined, invitationId: string): Promise<boolean> {
+    const invitation = await this.findInvitationFor(verifiedEmail, invitationId);
+    if (!invitation) {
+      return false;
+    }
+
+    if (!(await this.invitationRepository.resolvePending(invitationId, 'declined'))) {
+      throw new HouseholdValidationError('Invitation has already been answered');
+    }
+
+    return true;
+  }
+
+  /**
+   * Changes a member's role between viewer and editor. Owner only.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @param {string} memberId - The member's user ID
+   * @param {any} data - { role }
+   * @returns {Promise<HouseholdResponse | null>} The updated household, or null if the household or member isn't found
+   * @throws {HouseholdValidationError} If validation fails or the member is the owner
+   * @throws {HouseholdPermissionError} If the user isn't the owner
+   */
+  async updateMemberRole(userId: string, householdId: string, memberId: string, data: any): Promise<HouseholdResponse | null> {
+    const { role } = parseOrThrow(updateMemberSchema, data);
+
+    const household = await this.requireMember(userId, householdId, 'owner');
+    if (!household) {
+      return null;
+    }
+
+    const member = household.members.find(m => m.userId === memberId);
+    if (!member) {
+      return null;
+    }
+    if (member.role === 'owner') {
+      throw new HouseholdValidationError("The owner's role can't be changed", 'role');
+    }
+
+    const updated = await this.householdRepository.updateMemberRole(householdId, memberId, role);
+    return updated ? await this.toResponse(updated, userId) : null;
+  }
+
+  /**
+   * Removes a member. Owners can remove anyone else; other members can only
+   * remove themselves (leave). The owner can't leave; they delete the household instead.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @param {string} memberId - The member's user ID
+   * @returns {Promise<boolean>} True if removed, false if the household or member isn't found
+   * @throws {HouseholdValidationError} If the owner tries to leave
+   * @throws {HouseholdPermissionError} If a non-owner removes someone else
+   */
+  async removeMember(userId: string, householdId: string, memberId: string): Promise<boolean> {
+    const household = await this.requireMember(userId, householdId, memberId === userId ? 'viewer' : 'owner');
+    if (!household) {
+      return false;
+    }
+
+    const member = household.members.find(m => m.userId === memberId);
+    if (!member) {
+      return false;
+    }
+    if (member.role === 'owner') {
+      throw new HouseholdValidationError("The owner can't leave the household; delete it instead");
+    }
+
+    return (await this.householdRepository.removeMember(householdId, memberId)) !== null;
+  }
+
+  /**
+   * Lists a household's shared categories.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @returns {Promise<CategoryResponse[] | null>} Shared categories, or null if not found for the user
+   */
+  async getCategories(userId: string, householdId: string): Promise<CategoryResponse[] | null> {
+    if (!(await this.requireMember(userId, householdId, 'viewer'))) {
+      return null;
+    }
+
+    const categories = await this.categoryRepository.findByHouseholdIds([householdId]);
+    return categories.map(category => toCategoryResponse(category));
+  }
+
+  /**
+   * Creates a shared category. Editors and the owner only.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @param {any} data - { name, type, color? }
+   * @returns {Promise<CategoryResponse | null>} The category, or null if not found for the user
+   * @throws {HouseholdValidationError} If validation fails or the name is taken
+   * @throws {HouseholdPermissionError} If the user is a viewer
+   */
+  async createCategory(userId: string, householdId: string, data: any): Promise<CategoryResponse | null> {
+    const validatedData = parseOrThrow(createHouseholdCategorySchema, data);
+
+    if (!(await this.requireMember(userId, householdId, 'editor'))) {
+      return null;
+    }
+
+    if (await this.categoryRepository.findByNameAndHouseholdId(validatedData.name, householdId)) {
+      throw new HouseholdValidationError('Category name already exists in this household', 'name');
+    }
+
+    const category = await this.categoryRepository.createCategory({
+      ...validatedData,
+      kind: getCategoryKind({ type: validatedData.type }),
+      userId,
+      householdId,
+    });
+
+    return toCategoryResponse(category);
+  }
+
+  /**
+   * Updates a shared category. Editors and the owner only.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @param {string} categoryId - The category ID
+   * @param {any} data - { name?, type?, kind?, color? }
+   * @returns {Promise<CategoryResponse | null>} The category, or null if not found in the household
+   * @throws {HouseholdValidationError} If validation fails or the name is taken
+   * @throws {HouseholdPermissionError} If the user is a viewer
+   */
+  async updateCategory(userId: string, householdId: string, categoryId: string, data: any): Promise<CategoryResponse | null> {
+    const validatedData = parseOrThrow(updateCategorySchema, data);
+
+    if (!(await this.requireMember(userId, householdId, 'editor'))) {
+      return null;
+    }
+
+    if (!(await this.findSharedCategory(householdId, categoryId))) {
+      return null;
+    }
+
+    if (validatedData.name) {
+      const existing = await this.categoryRepository.findByNameAndHouseholdId(validatedData.name, householdId);
+      if (existing && (existing._id?.toString() || existing.id) !== categoryId) {
+        throw new HouseholdValidationError('Category name already exists in this household', 'name');
+      }
+    }
+
+    const updated = await this.categoryRepository.updateCategory(categoryId, validatedData);
+    return updated ? toCategoryResponse(updated) : null;
+  }
+
+  /**
+   * Deletes a shared category that no shared budget uses. Editors and the owner only.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @param {string} categoryId - The category ID
+   * @returns {Promise<boolean>} True if deleted, false if not found in the household
+   * @throws {HouseholdValidationError} If a shared budget uses the category
+   * @throws {HouseholdPermissionError} If the user is a viewer
+   */
+  async deleteCategory(userId: string, householdId: string, categoryId: string): Promise<boolean> {
+    if (!(await this.requireMember(userId, householdId, 'editor'))) {
+      return false;
+    }
+
+    if (!(await this.findSharedCategory(householdId, categoryId))) {
+      return false;
+    }
+
+    if (await this.budgetRepository.existsForCategory(householdId, categoryId)) {
+      throw new HouseholdValidationError('Category is used by a shared budget', 'categoryId');
+    }
+
+    return await this.categoryRepository.deleteCategory(categoryId);
+  }
+
+  /**
+   * Lists a household's shared budgets.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @returns {Promise<HouseholdBudgetResponse[] | null>} Budgets, or null if not found for the user
+   */
+  async getBudgets(userId: string, householdId: string): Promise<HouseholdBudgetResponse[] | null> {
+    if (!(await this.requireMember(userId, householdId, 'viewer'))) {
+      return null;
+    }
+
+    const budgets = await this.budgetRepository.findByHousehold(householdId);
+    return budgets.map(budget => toHouseholdBudgetResponse(budget));
+  }
+
+  /**
+   * Creates a shared budget for a month, covering one shared category or all
+   * of them. Editors and the owner only.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @param {any} data - { month, year, amount, categoryId? }
+   * @returns {Promise<HouseholdBudgetResponse | null>} The budget, or null if not found for the user
+   * @throws {HouseholdValidationError} If validation fails, the category isn't shared or the budget exists
+   * @throws {HouseholdPermissionError} If the user is a viewer
+   */
+  async createBudget(userId: string, householdId: string, data: any): Promise<HouseholdBudgetResponse | null> {
+    const validatedData = parseOrThrow(createHouseholdBudgetSchema, data);
+
+    if (!(await this.requireMember(userId, householdId, 'editor'))) {
+      return null;
+    }
+
+    if (validatedData.categoryId && !(await this.findSharedCategory(householdId, validatedData.categoryId))) {
+      throw new HouseholdValidationError('Category is not shared with this household', 'categoryId');
+    }
+
+    const monthBudgets = await this.budgetRepository.findByHouseholdMonth(householdId, validatedData.month, validatedData.year);
+    if (monthBudgets.some(budget => budget.categoryId === validatedData.categoryId)) {
+      throw new HouseholdValidationError('Budget already exists for this household, month, and year', 'month');
+    }
+
+    const budget = await this.budgetRepository.createBudget({ ...validatedData, householdId, createdBy: userId });
+    return toHouseholdBudgetResponse(budget);
+  }
+
+  /**
+   * Changes a shared budget's amount. Editors and the owner only.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @param {string} budgetId - The budget ID
+   * @param {any} data - { amount }
+   * @returns {Promise<HouseholdBudgetResponse | null>} The budget, or null if not found in the household
+   * @throws {HouseholdValidationError} If validation fails
+   * @throws {HouseholdPermissionError} If the user is a viewer
+   */
+  async updateBudget(userId: string, householdId: string, budgetId: string, data: any): Promise<HouseholdBudgetResponse | null> {
+    const { amount } = parseOrThrow(updateHouseholdBudgetSchema, data);
+
+    if (!(await this.requireMember(userId, householdId, 'editor'))) {
+      return null;
+    }
+
+    const budget = await this.budgetRepository.findBudgetById(budgetId);
+    if (!budget || budget.householdId !== householdId) {
+      return null;
+    }
+
+    const updated = await this.budgetRepository.updateAmount(budgetId, amount);
+    return updated ? toHouseholdBudgetResponse(updated) : null;
+  }
+
+  /**
+   * Deletes a shared budget. Editors and the owner only.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @param {string} budgetId - The budget ID
+   * @returns {Promise<boolean>} True if deleted, false if not found in the household
+   * @throws {HouseholdPermissionError} If the user is a viewer
+   */
+  async deleteBudget(userId: string, householdId: string, budgetId: string): Promise<boolean> {
+    if (!(await this.requireMember(userId, householdId, 'editor'))) {
+      return false;
+    }
+
+    const budget = await this.budgetRepository.findBudgetById(budgetId);
+    if (!budget || budget.householdId !== householdId) {
+      return false;
+    }
+
+    return await this.budgetRepository.deleteBudget(budgetId);
+  }
+
+  /**
+   * Shared budgets for a month with what each member spent against them.
+   * A budget without a category covers all shared categories.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @param {any} queryParams - { month?, year? }; defaults to the current month
+   * @returns {Promise<HouseholdBudgetStatusResponse | null>} Status, or null if not found for the user
+   * @throws {HouseholdValidationError} If the query is invalid
+   */
+  async getBudgetStatus(userId: string, householdId: string, queryParams: any): Promise<HouseholdBudgetStatusResponse | null> {
+    const query = parseOrThrow(householdBudgetStatusQuerySchema, queryParams ?? {});
+
+    const household = await this.requireMember(userId, householdId, 'viewer');
+    if (!household) {
+      return null;
+    }
+
+    const now = new Date();
+    const current = getPeriodContaining(now);
+    const month = query.month ?? current.month;
+    const year = query.year ?? (query.month ? now.getFullYear() : current.year);
+    const currency = household.currency ?? DEFAULT_CURRENCY;
+
+    const budgets = await this.budgetRepository.findByHouseholdMonth(householdId, month, year);
+    const { startDate, endDate } = getBudgetPeriod(year, month);
+    const spending = await this.aggregateSpending(household, startDate, endDate);
+
+    const lines: HouseholdBudgetStatusLine[] = budgets.map(budget => {
+      const byMember = new Map<string, number>();
+      for (const row of spending.rows) {
+        if (budget.categoryId && row.categoryId !== budget.categoryId) {
+          continue;
+        }
+        byMember.set(row.userId, (byMember.get(row.userId) ?? 0) + row.totalAmount);
+      }
+
+      const spent = roundCents([...byMember.values()].reduce((sum, amount) => sum + amount, 0));
+      return {
+        budgetId: budget._id?.toString() || budget.id,
+        categoryId: budget.categoryId ?? null,
+        amount: budget.amount,
+        spent,
+        remaining: roundCents(budget.amount - spent),
+        percentUsed: Math.round((spent / budget.amount) * 1000) / 10,
+        byMember: [...byMember.entries()]
+          .map(([memberId, amount]) => ({ userId: memberId, spent: roundCents(amount) }))
+          .sort((a, b) => b.spent - a.spent),
+      };
+    });
+
+    // Overall budget first, then categories
+    lines.sort((a, b) => (a.categoryId === null ? -1 : 0) - (b.categoryId === null ? -1 : 0));
+
+    return { householdId, month, year, currency, budgets: lines };
+  }
+
+  /**
+   * Spending in shared categories over a date range, combined or per member.
+   *
+   * @param {string} userId - The requesting user
+   * @param {string} householdId - The household ID
+   * @param {any} queryParams - { startDate, endDate, view? }
+   * @returns {Promise<HouseholdSpendingReport | null>} The report, or null if not found for the user
+   * @throws {HouseholdValidationError} If the query is invalid
+   */
+  async getSpendingReport(userId: string, householdId: string, queryParams: any): Promise<HouseholdSpendingReport | null> {
+    const query = parseOrThrow(householdSpendingQuerySchema, queryParams ?? {});
+
+    const household = await this.requireMember(userId, householdId, 'viewer');
+    if (!household) {
+      return null;
+    }
+
+    const { rows, categoryNames } = await this.aggregateSpending(household, query.startDate, query.endDate);
+    const report: HouseholdSpendingReport = {
+      householdId,
+      startDate: query.startDate,
+      endDate: query.endDate,
+      currency: household.currency ?? DEFAULT_CURRENCY,
+      view: query.view,
+      totalAmount: roundCents(rows.reduce((sum, row) => sum + row.totalAmount, 0)),
+    };
+
+    const toCategoryTotals = (selected: typeof rows): CategoryTotal[] => {
+      const totals = new Map<string, CategoryTotal>();
+      for (const row of selected) {
+        const total = totals.get(row.categoryId) ?? {
+          categoryId: row.categoryId,
+          categoryName: categoryNames.get(row.categoryId) ?? 'Unknown',
+          totalAmount: 0,
+          transactionCount: 0,
+        };
+        total.totalAmount = roundCents(total.totalAmount + row.totalAmount);
+        total.transactionCount += row.transactionCount;
+        totals.set(row.categoryId, total);
+      }
+      return [...totals.values()].sort((a, b) => b.totalAmount - a.totalAmount);
+    };
+
+    if (query.view === 'combined') {
+      report.categories = toCategoryTotals(rows);
+      return report;
+    }
+
+    const names = await this.loadMemberNames(household);
+    report.members = household.members
+      .map(member => {
+        const categories = toCategoryTotals(rows.filter(row => row.userId === member.userId));
+        return {
+          userId: member.userId,
+          name: names.get(member.userId) ?? '',
+          totalAmount: roundCents(categories.reduce((sum, category) => sum + category.totalAmount, 0)),
+          // A split transaction touching two shared categories counts once per category
+          transactionCount: categories.reduce((sum, category) => sum + category.transactionCount, 0),
+          categories,
+        };
+      })
+      .sort((a, b) => b.totalAmount - a.totalAmount);
+
+    return report;
+  }
+
+  /**
+   * Initializes database indexes.
+   * Should be called during application startup.
+   */
+  async initializeIndexes(): Promise<void> {
+    await Promise.all([
+      this.householdRepository.createIndexes(),
+      this.invitationRepository.createIndexes(),
+      this.budgetRepository.createIndexes(),
+    ]);
+  }
+
+  /**
+   * Loads a household and checks that the user is a member with at least the
+   * required role.
+   *
+   * @private
+   * @returns The household, or null if it doesn't exist or the user isn't a member
+   * @throws {HouseholdPermissionError} If the user's role is insufficient
+   */
+  private async requireMember(userId: string, householdId: string, required: HouseholdRole): Promise<Household | null> {
+    if (!householdId || typeof householdId !== 'string') {
+      throw new HouseholdValidationError('Invalid household ID');
+    }
+
+    const household = await this.householdRepository.findHouseholdById(householdId);
+    const member = household?.members.find(m => m.userId === userId);
+    if (!household || !member) {
+      return null;
+    }
+
+    if (!hasHouseholdRole(member.role, required)) {
+      throw new HouseholdPermissionError(
+        required === 'owner' ? 'Only the household owner can do this' : 'Viewers can\'t change shared categories or budgets'
+      );
+    }
+
+    return household;
+  }
+
+  /**
+   * Loads an invitation addressed to the user's verified email that can still be answered.
+   *
+   * @private
+   * @returns The invitation, or null if it doesn't exist or isn't addressed to the user
+   * @throws {HouseholdValidationError} If the invitation was answered or expired
+   */
+  private async findInvitationFor(verifiedEmail: string | undefined, invitationId: string) {
+    if (!verifiedEmail) {
+      return null;
+    }
+
+    const invitation = await this.invitationRepository.findInvitationById(invitationId);
+    if (!invitation || invitation.email !== verifiedEmail.toLowerCase()) {
+      return null;
+    }
+
+    if (invitation.status !== 'pending') {
+      throw new HouseholdValidationError('Invitation has already been answered');
+    }
+    if (invitation.expiresAt <= new Date()) {
+      throw new HouseholdValidationError('Invitation has expired');
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Loads a category if it's shared with the household.
+   *
+   * @private
+   */
+  private async findSharedCategory(householdId: string, categoryId: string): Promise<Category | null> {
+    const category = await this.categoryRepository.findCategoryById(categoryId);
+    return category?.householdId === householdId ? category : null;
+  }
+
+  /**
+   * Members' spending in the household's shared categories, per member and category.
+   *
+   * @private
+   */
+  private async aggregateSpending(household: Household, startDate: Date, endDate: Date) {
+    const householdId = household._id?.toString() || household.id;
+    const categories = await this.categoryRepository.findByHouseholdIds([householdId]);
+    const categoryNames = new Map(categories.map(category => [category._id?.toString() || category.id, category.name]));
+
+    const rows = await this.transactionRepository.aggregateHouseholdSpending(
+      household.members.map(member => member.userId),
+      [...categoryNames.keys()],
+      startDate,
+      endDate,
+      household.currency ?? DEFAULT_CURRENCY
+    );
+
+    return { rows, categoryNames };
+  }
+
+  /**
+   * Looks up members' display names from their profiles.
+   *
+   * @private
+   */
+  private async loadMemberNames(household: Household): Promise<Map<string, string>> {
+    const profiles = await Promise.all(
+      household.members.map(member => this.profileRepository.findProfileById(member.userId))
+    );
+
+    return new Map(household.members.map((member, index) => {
+      const profile = profiles[index];
+      const name = profile ? `${profile.firstName} ${profile.lastName}`.trim() : '';
+      return [member.userId, name];
+    }));
+  }
+
+  /**
+   * Shapes a household for the API, with member names and the requester's role.
+   *
+   * @private
+   */
+  private async toResponse(household: Household, userId: string): Promise<HouseholdResponse> {
+    const names = await this.loadMemberNames(household);
+    const members: HouseholdMemberResponse[] = household.members.map(member => ({
+      userId: member.userId,
+      name: names.get(member.userId) ?? '',
+      role: member.role,
+      joinedAt: member.joinedAt,
+    }));
+
+    return {
+      id: household._id?.toString() || household.id || '',
+      name: household.name,
+      currency: household.currency ?? DEFAULT_CURRENCY,
+      role: household.members.find(member => member.userId === userId)?.role ?? 'viewer',
+      members,
+      createdAt: household.createdAt,
+      updatedAt: household.updatedAt,
+    };
+  }
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Parses input with a schema, turning the first Zod issue into a HouseholdValidationError.
+ */
+function parseOrThrow<T extends z.ZodType>(schema: T, data: unknown): z.infer<T> {
+  try {
+    return schema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new HouseholdValidationError(
+        error.issues[0]?.message || 'Validation failed',
+        error.issues[0]?.path[0]?.toString()
+      );
+    }
+    throw error;
+  }
+}
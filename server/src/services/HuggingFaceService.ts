@@ -76,7 +76,7 @@ export async function categorize(text: string): Promise<HuggingFaceResult> {
 }
 
 // keyword based mapping as fallbacks
-function mapTextToBucketByKeywords(text: string): string | null {
+export function mapTextToBucketByKeywords(text: string): string | null {
   if (!text) return null;
   const t = text.toLowerCase();
 
@@ -127,4 +127,4 @@ function mapLabelToBucket(label: string) {
   return 'misc';
 }
 
-export default { categorize };
+export default { categorize, mapTextToBucketByKeywords };
@@ -0,0 +1,218 @@
+/**
+ * Notification delivery channels
+ *
+ * Every notification is persisted (which is the in-app feed) and then handed
+ * to each channel. Push goes through the Expo push service to the token on the
+ * user's profile; email goes through an EmailTransport, which is SMTP in
+ * production and can be swapped for MemoryEmailTransport locally and in tests.
+ */
+
+import nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import type { Notification, NotificationChannelName } from '../models/Notification';
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+const SMTP_TIMEOUT_MS = 15000;
+
+/**
+ * Where a user can be reached, taken from their profile.
+ */
+export interface NotificationRecipient {
+  email?: string;
+  expoPushToken?: string | null;
+}
+
+/**
+ * A way of delivering notifications. Resolves 'skipped' when the recipient
+ * can't be reached on the channel and throws when delivery fails.
+ */
+export interface NotificationChannel {
+  readonly name: NotificationChannelName;
+  deliver(notification: Notification, recipient: NotificationRecipient): Promise<'sent' | 'skipped'>;
+}
+
+/**
+ * The in-app feed. The notification is already stored, so there is nothing
+ * left to send.
+ */
+export class InAppChannel implements NotificationChannel {
+  readonly name = 'in_app' as const;
+
+  async deliver(): Promise<'sent'> {
+    return 'sent';
+  }
+}
+
+/**
+ * Sends push notifications through the Expo push service.
+ */
+export class ExpoPushChannel implements NotificationChannel {
+  readonly name = 'push' as const;
+
+  async deliver(notification: Notification, recipient: NotificationRecipient): Promise<'sent' | 'skipped'> {
+    if (!recipient.expoPushToken) {
+      return 'skipped';
+    }
+
+    const response = await fetch(EXPO_PUSH_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify({
+        to: recipient.expoPushToken,
+        title: notification.title,
+        body: notification.message,
+        data: {
+          notificationId: notification._id?.toString() || notification.id,
+          type: notification.type,
+          budgetId: notification.budgetId,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Expo push request failed with status ${response.status}`);
+    }
+
+    // Expo answers 200 with a per-message ticket, which may still be an error
+    const result: any = await response.json();
+    if (result?.data?.status === 'error') {
+      throw new Error(result.data.message || 'Expo push was rejected');
+    }
+
+    return 'sent';
+  }
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Sends a plain-text email. Implementations throw when the message is not accepted.
+ */
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Email transport that keeps messages in memory instead of sending them.
+ * Used when running locally without an SMTP server, and in tests.
+ */
+export class MemoryEmailTransport implements EmailTransport {
+  readonly outbox: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<void> {
+    this.outbox.push(message);
+  }
+}
+
+/**
+ * Sends notifications by email to the address on the user's profile.
+ */
+export class EmailChannel implements NotificationChannel {
+  readonly name = 'email' as const;
+
+  constructor(private transport: EmailTransport) {}
+
+  async deliver(notification: Notification, recipient: NotificationRecipient): Promise<'sent' | 'skipped'> {
+    if (!recipient.email) {
+      return 'skipped';
+    }
+
+    await this.transport.send({
+      to: recipient.email,
+      subject: notification.title,
+      text: `${notification.message}\n\nYou are receiving this because budget alerts are turned on in Parrit.`,
+    });
+    return 'sent';
+  }
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;            // Implicit TLS (port 465); otherwise STARTTLS, required when logging in
+  user?: string;
+  pass?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Reads SMTP settings from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER,
+ * SMTP_PASS and SMTP_FROM.
+ *
+ * @returns The settings, or null when SMTP_HOST isn't set
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    return null;
+  }
+
+  const port = Number(process.env.SMTP_PORT) || 587;
+  return {
+    host,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    from: process.env.SMTP_FROM || process.env.SMTP_USER || `parrit@${host}`,
+  };
+}
+
+/**
+ * Sends email over SMTP, one connection per message. Credentials are only
+ * sent over TLS: with implicit TLS, or after the server accepted STARTTLS.
+ * A server that doesn't offer STARTTLS fails the message instead.
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  private transporter: Transporter;
+
+  constructor(private config: SmtpConfig) {
+    const timeoutMs = config.timeoutMs ?? SMTP_TIMEOUT_MS;
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      // Otherwise AUTH would go out in plain text when STARTTLS isn't offered
+      requireTLS: !config.secure && Boolean(config.user),
+      auth: config.user ? { user: config.user, pass: config.pass ?? '' } : undefined,
+      connectionTimeout: timeoutMs,
+      greetingTimeout: timeoutMs,
+      socketTimeout: timeoutMs,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    if (/[\r\n<>]/.test(message.to)) {
+      throw new Error('Invalid recipient address');
+    }
+
+    await this.transporter.sendMail({
+      from: this.config.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
+
+/**
+ * Creates the channels notifications are delivered through. Email is only
+ * included when SMTP is configured.
+ *
+ * @returns In-app, push and (optionally) email channels
+ */
+export function createDefaultChannels(): NotificationChannel[] {
+  const channels: NotificationChannel[] = [new InAppChannel(), new ExpoPushChannel()];
+
+  const smtp = getSmtpConfig();
+  if (smtp) {
+    channels.push(new EmailChannel(new SmtpEmailTransport(smtp)));
+  }
+
+  return channels;
+}
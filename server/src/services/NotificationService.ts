@@ -0,0 +1,248 @@
+import { NotificationRepository } from '../repositories/NotificationRepository';
+import { ProfileRepository } from '../repositories/ProfileRepository';
+import { CategoryRepository } from '../repositories/CategoryRepository';
+import { createDefaultChannels } from './NotificationChannels';
+import type { NotificationChannel } from './NotificationChannels';
+import {
+  NotificationValidationError,
+  listNotificationsQuerySchema,
+  toNotificationResponse
+} from '../models/Notification';
+import type {
+  Notification,
+  NotificationDelivery,
+  NotificationResponse,
+  NotificationListResponse
+} from '../models/Notification';
+import { DEFAULT_ALERT_THRESHOLDS, formatPeriodLabel } from '../models/Budget';
+import type { Budget } from '../models/Budget';
+import { getCurrency } from '../models/ExchangeRate';
+import { z } from 'zod';
+
+/**
+ * Service class for Notification business logic.
+ *
+ * Turns budget threshold crossings into persisted notifications and delivers
+ * each one through every configured channel (in-app feed, Expo push, email).
+ * Each threshold of a budget notifies at most once; a write that jumps past
+ * several thresholds produces a single notification for the highest one.
+ *
+ * @swagger
+ * tags:
+ *   name: Notifications
+ *   description: Budget alerts and the in-app notification feed
+ */
+export class NotificationService {
+  private notificationRepository: NotificationRepository;
+  private profileRepository: ProfileRepository;
+  private categoryRepository: CategoryRepository;
+  private channels: NotificationChannel[];
+
+  /**
+   * @param {NotificationChannel[]} channels - Delivery channels; defaults to in-app,
+   *   Expo push and, when SMTP is configured, email
+   */
+  constructor(channels: NotificationChannel[] = createDefaultChannels()) {
+    // In a larger app, the repositories would be injected for better testability
+    this.notificationRepository = new NotificationRepository();
+    this.profileRepository = new ProfileRepository();
+    this.categoryRepository = new CategoryRepository();
+    this.channels = channels;
+  }
+
+  /**
+   * Notifies the user when spending against a budget has crossed one of its
+   * alert thresholds that hasn't been notified yet.
+   *
+   * @param {Budget} budget - The budget spending was recomputed for
+   * @param {number} spent - Amount spent against it, in the budget's currency
+   * @returns {Promise<NotificationResponse | null>} The notification sent, or null if none was due
+   */
+  async checkBudgetThresholds(budget: Budget, spent: number): Promise<NotificationResponse | null> {
+    const thresholds = budget.alertThresholds ?? DEFAULT_ALERT_THRESHOLDS;
+    if (budget.amount <= 0 || thresholds.length === 0) {
+      return null;
+    }
+
+    const percentUsed = (spent / budget.amount) * 100;
+    const crossed = Math.max(0, ...thresholds.filter(threshold => percentUsed >= threshold));
+    if (crossed === 0) {
+      return null;
+    }
+
+    const budgetId = budget._id?.toString() || budget.id;
+    const alreadyNotified = await this.notificationRepository.findHighestThreshold(budgetId);
+    if (crossed <= alreadyNotified) {
+      return null;
+    }
+
+    const currency = getCurrency(budget);
+    const label = await this.describeBudget(budget);
+    const overBy = spent - budget.amount;
+
+    let notification: Notification;
+    try {
+      notification = await this.notificationRepository.createNotification({
+        userId: budget.userId,
+        type: 'budget_threshold',
+        title: `${crossed}% of your ${label} used`,
+        message:
+          `You've spent ${formatMoney(spent, currency)} of your ${formatMoney(budget.amount, currency)} ` +
+          `${label} for ${formatPeriodLabel(budget.year, budget.month)}.` +
+          (overBy > 0 ? ` That's ${formatMoney(overBy, currency)} over.` : ''),
+        budgetId,
+        threshold: crossed,
+        details: {
+          month: budget.month,
+          year: budget.year,
+          ...(budget.categoryId ? { categoryId: budget.categoryId } : {}),
+          amount: budget.amount,
+          spent: Math.round(spent * 100) / 100,
+          currency,
+          percentUsed: Math.round(percentUsed * 100) / 100,
+        },
+        read: false,
+        deliveries: [],
+      });
+    } catch (error: any) {
+      // Duplicate key on (budgetId, threshold): a concurrent write notified it first
+      if (error?.code === 11000) {
+        return null;
+      }
+      throw error;
+    }
+
+    return toNotificationResponse(await this.deliver(notification));
+  }
+
+  /**
+   * Lists a user's notifications, newest first, with their unread count.
+   *
+   * @param {string} userId - The user ID
+   * @param {any} queryParams - Optional unread filter ("true"/"false") and limit (1-100, default 50)
+   * @returns {Promise<NotificationListResponse>} Notifications and unread count
+   * @throws {NotificationValidationError} If user ID or query is invalid
+   */
+  async getNotifications(userId: string, queryParams: any): Promise<NotificationListResponse> {
+    if (!userId || typeof userId !== 'string') {
+      throw new NotificationValidationError('Invalid user ID');
+    }
+
+    let query: z.infer<typeof listNotificationsQuerySchema>;
+    try {
+      query = listNotificationsQuerySchema.parse(queryParams ?? {});
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new NotificationValidationError(
+          error.issues[0]?.message || 'Invalid query parameters',
+          error.issues[0]?.path[0]?.toString()
+        );
+      }
+      throw error;
+    }
+
+    const [notifications, unreadCount] = await Promise.all([
+      this.notificationRepository.findByUserId(userId, query),
+      this.notificationRepository.countUnread(userId),
+    ]);
+
+    return {
+      notifications: notifications.map(notification => toNotificationResponse(notification)),
+      unreadCount,
+    };
+  }
+
+  /**
+   * Marks one of a user's notifications as read.
+   *
+   * @param {string} userId - The owning user ID
+   * @param {string} id - The notification ID
+   * @returns {Promise<NotificationResponse | null>} The notification, or null if not found for the user
+   * @throws {NotificationValidationError} If an ID is invalid
+   */
+  async markAsRead(userId: string, id: string): Promise<NotificationResponse | null> {
+    if (!userId || typeof userId !== 'string') {
+      throw new NotificationValidationError('Invalid user ID');
+    }
+    if (!id || typeof id !== 'string') {
+      throw new NotificationValidationError('Invalid notification ID');
+    }
+
+    const notification = await this.notificationRepository.markAsRead(userId, id);
+    return notification ? toNotificationResponse(notification) : null;
+  }
+
+  /**
+   * Marks all of a user's notifications as read.
+   *
+   * @param {string} userId - The user ID
+   * @returns {Promise<number>} Number of notifications marked read
+   * @throws {NotificationValidationError} If user ID is invalid
+   */
+  async markAllAsRead(userId: string): Promise<number> {
+    if (!userId || typeof userId !== 'string') {
+      throw new NotificationValidationError('Invalid user ID');
+    }
+
+    return await this.notificationRepository.markAllAsRead(userId);
+  }
+
+  /**
+   * Hands a stored notification to every channel and records the outcomes.
+   * A failing channel doesn't stop the others.
+   *
+   * @private
+   */
+  private async deliver(notification: Notification): Promise<Notification> {
+    const profile = await this.profileRepository.findProfileById(notification.userId);
+    const recipient = { email: profile?.email, expoPushToken: profile?.expoPushToken };
+
+    const deliveries: NotificationDelivery[] = [];
+    for (const channel of this.channels) {
+      try {
+        const status = await channel.deliver(notification, recipient);
+        deliveries.push({ channel: channel.name, status, at: new Date() });
+      } catch (error: any) {
+        console.error(`Failed to deliver notification via ${channel.name}:`, error);
+        deliveries.push({ channel: channel.name, status: 'failed', error: error?.message || 'Delivery failed', at: new Date() });
+      }
+    }
+
+    const notificationId = notification._id?.toString() || notification.id;
+    await this.notificationRepository.updateDeliveries(notificationId, deliveries);
+
+    return { ...notification, deliveries };
+  }
+
+  /**
+   * Names a budget for messages: "Groceries budget" or "monthly budget".
+   *
+   * @private
+   */
+  private async describeBudget(budget: Budget): Promise<string> {
+    if (!budget.categoryId) {
+      return 'monthly budget';
+    }
+
+    try {
+      const category = await this.categoryRepository.findCategoryById(budget.categoryId);
+      return category ? `${category.name} budget` : 'category budget';
+    } catch (error) {
+      console.error('Failed to look up budget category:', error);
+      // Don't throw - the alert is still useful without the category name
+      return 'category budget';
+    }
+  }
+
+  /**
+   * Initializes database indexes.
+   * Should be called during application startup.
+   */
+  async initializeIndexes(): Promise<void> {
+    await this.notificationRepository.createIndexes();
+  }
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+}
@@ -0,0 +1,352 @@
+/**
+ * Object storage for uploaded files such as receipt images
+ *
+ * Files are stored under a key ("receipts/<userId>/<uuid>.jpg") and read back
+ * through signed links that expire. The backend is chosen by OBJECT_STORAGE:
+ * Firebase Storage, any S3-compatible service (AWS, MinIO, R2) or a directory
+ * on local disk, which the files route serves so the stack runs without any
+ * cloud account.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { getStorage } from 'firebase-admin/storage';
+
+export type ObjectStorageName = 'firebase' | 's3' | 'local';
+
+const S3_REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Where files are kept. Keys are paths relative to the storage root;
+ * deleting a key that doesn't exist is not an error.
+ */
+export interface ObjectStorage {
+  readonly name: ObjectStorageName;
+  upload(key: string, filePath: string, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
+
+/**
+ * Rejects keys that could escape the storage root or be read as a URL.
+ */
+function assertValidKey(key: string): void {
+  if (!key || key.startsWith('/') || key.includes('\\') || key.split('/').some((part) => part === '' || part === '.' || part === '..')) {
+    throw new Error(`Invalid object key "${key}"`);
+  }
+}
+
+/**
+ * Stores files in the default Firebase Storage bucket. Relies on the default
+ * Firebase app, which config/firebase-admin initializes.
+ */
+export class FirebaseObjectStorage implements ObjectStorage {
+  readonly name = 'firebase' as const;
+
+  async upload(key: string, filePath: string, contentType: string): Promise<void> {
+    assertValidKey(key);
+    await getStorage().bucket().upload(filePath, { destination: key, contentType });
+  }
+
+  async delete(key: string): Promise<void> {
+    assertValidKey(key);
+    await getStorage().bucket().file(key).delete({ ignoreNotFound: true });
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    assertValidKey(key);
+    const [url] = await getStorage().bucket().file(key).getSignedUrl({
+      action: 'read',
+      expires: Date.now() + expiresInSeconds * 1000,
+    });
+    return url;
+  }
+}
+
+/**
+ * Reads the object key from a Firebase Storage download URL, which is what
+ * receipts stored before object keys were kept.
+ * URL format: https://firebasestorage.googleapis.com/v0/b/{bucket}/o/{key}?alt=media
+ *
+ * @param url - A stored image URL
+ * @returns The object key, or null when the URL isn't a Firebase Storage URL
+ */
+export function getFirebaseObjectKey(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    const match = parsed.pathname.match(/\/o\/(.+)$/);
+    return parsed.hostname === 'firebasestorage.googleapis.com' && match ? decodeURIComponent(match[1]) : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface S3Options {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint?: string;            // e.g. http://localhost:9000 for MinIO; AWS when unset
+  forcePathStyle?: boolean;     // bucket in the path rather than the host name
+  timeoutMs?: number;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// Signature V4 encodes everything except unreserved characters
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+}
+
+/**
+ * Stores files in an S3-compatible bucket. Requests are signed with AWS
+ * Signature Version 4; reads use presigned URLs.
+ */
+export class S3ObjectStorage implements ObjectStorage {
+  readonly name = 's3' as const;
+
+  constructor(private options: S3Options) {}
+
+  async upload(key: string, filePath: string, contentType: string): Promise<void> {
+    assertValidKey(key);
+    const body = await fs.promises.readFile(filePath);
+    await this.send('PUT', key, body, { 'content-type': contentType });
+  }
+
+  async delete(key: string): Promise<void> {
+    assertValidKey(key);
+    await this.send('DELETE', key);
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    assertValidKey(key);
+    const url = this.objectUrl(key);
+    const amzDate = toAmzDate(new Date());
+    const scope = this.scope(amzDate);
+
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.options.accessKeyId}/${scope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(expiresInSeconds),
+      'X-Amz-SignedHeaders': 'host',
+    };
+    const canonicalQuery = Object.keys(query).sort()
+      .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+    const canonicalRequest = ['GET', url.pathname, canonicalQuery, `host:${url.host}\n`, 'host', 'UNSIGNED-PAYLOAD'].join('\n');
+
+    return `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${this.sign(amzDate, canonicalRequest)}`;
+  }
+
+  private async send(method: 'PUT' | 'DELETE', key: string, body?: Buffer, extraHeaders: Record<string, string> = {}): Promise<void> {
+    const url = this.objectUrl(key);
+    const amzDate = toAmzDate(new Date());
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      'x-amz-content-sha256': sha256Hex(body ?? ''),
+      'x-amz-date': amzDate,
+    };
+
+    const names = Object.keys(headers).sort();
+    const signedHeaders = names.join(';');
+    const canonicalHeaders = names.map((name) => `${name}:${headers[name].trim()}\n`).join('');
+    const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders, headers['x-amz-content-sha256']].join('\n');
+    const signature = this.sign(amzDate, canonicalRequest);
+
+    const { host: _host, ...requestHeaders } = headers;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${this.scope(amzDate)}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? S3_REQUEST_TIMEOUT_MS),
+    });
+
+    // S3 answers 204 for deletes, including of keys that don't exist
+    if (!response.ok) {
+      throw new Error(`S3 ${method} ${key} failed with status ${response.status}`);
+    }
+  }
+
+  private objectUrl(key: string): URL {
+    const { bucket, region, endpoint, forcePathStyle } = this.options;
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+
+    if (endpoint || forcePathStyle) {
+      const base = (endpoint || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, '');
+      return new URL(`${base}/${bucket}/${encodedKey}`);
+    }
+    const host = region === 'us-east-1' ? 's3.amazonaws.com' : `s3.${region}.amazonaws.com`;
+    return new URL(`https://${bucket}.${host}/${encodedKey}`);
+  }
+
+  private scope(amzDate: string): string {
+    return `${amzDate.slice(0, 8)}/${this.options.region}/s3/aws4_request`;
+  }
+
+  private sign(amzDate: string, canonicalRequest: string): string {
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, this.scope(amzDate), sha256Hex(canonicalRequest)].join('\n');
+    const dateKey = hmac(`AWS4${this.options.secretAccessKey}`, amzDate.slice(0, 8));
+    const signingKey = hmac(hmac(hmac(dateKey, this.options.region), 's3'), 'aws4_request');
+    return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+}
+
+export interface LocalStorageOptions {
+  directory: string;
+  baseUrl: string;              // where the files route is mounted, e.g. http://localhost:3000/api/v1/files
+  secret: string;               // signs links; links stop working when it changes
+}
+
+/**
+ * Stores files in a directory on local disk. Signed links point at the files
+ * route, which checks the signature and expiry before serving the file.
+ */
+export class LocalObjectStorage implements ObjectStorage {
+  readonly name = 'local' as const;
+
+  constructor(private options: LocalStorageOptions) {}
+
+  async upload(key: string, filePath: string): Promise<void> {
+    const target = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.copyFile(filePath, target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    assertValidKey(key);
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return `${this.options.baseUrl.replace(/\/+$/, '')}/${encodedKey}?expires=${expires}&signature=${this.signature(key, expires)}`;
+  }
+
+  /**
+   * Checks a link made by getSignedUrl and returns the file it points at.
+   *
+   * @param key - The object key from the link
+   * @param expires - The expiry from the link, in seconds since the epoch
+   * @param signature - The signature from the link
+   * @returns The file path, or null when the link is forged, expired or the file is gone
+   */
+  async resolveSignedUrl(key: string, expires: string, signature: string): Promise<string | null> {
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) return null;
+
+    try {
+      assertValidKey(key);
+    } catch {
+      return null;
+    }
+
+    const expected = Buffer.from(this.signature(key, expiresAt));
+    const given = Buffer.from(String(signature));
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+
+    const filePath = this.resolve(key);
+    return fs.existsSync(filePath) ? filePath : null;
+  }
+
+  private resolve(key: string): string {
+    assertValidKey(key);
+    const root = path.resolve(this.options.directory);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid object key "${key}"`);
+    }
+    return filePath;
+  }
+
+  private signature(key: string, expires: number): string {
+    return createHmac('sha256', this.options.secret).update(`${key}\n${expires}`).digest('hex');
+  }
+}
+
+let defaultStorage: ObjectStorage | null = null;
+
+/**
+ * Builds the object storage from environment variables. OBJECT_STORAGE picks
+ * firebase (the default), s3 or local. S3 needs S3_BUCKET, S3_ACCESS_KEY_ID and
+ * S3_SECRET_ACCESS_KEY; local disk uses LOCAL_STORAGE_DIR and signs links with
+ * LOCAL_STORAGE_SECRET.
+ *
+ * Built once and shared, so links signed by one service can be checked by the files route.
+ *
+ * @throws {Error} If the chosen backend is unknown or missing settings
+ */
+export function getObjectStorage(): ObjectStorage {
+  if (!defaultStorage) {
+    defaultStorage = buildObjectStorage();
+  }
+  return defaultStorage;
+}
+
+/**
+ * Builds a new object storage from environment variables, as described on
+ * getObjectStorage. LOCAL_STORAGE_SECRET may only be left out when NODE_ENV
+ * is development or test; links are then signed with a random secret and
+ * stop working when the server restarts.
+ *
+ * @throws {Error} If the chosen backend is unknown or missing settings
+ */
+export function buildObjectStorage(): ObjectStorage {
+  const backend = process.env.OBJECT_STORAGE?.trim().toLowerCase() || 'firebase';
+
+  switch (backend) {
+    case 'firebase':
+      return new FirebaseObjectStorage();
+    case 's3': {
+      const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+      if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+        throw new Error('OBJECT_STORAGE is s3 but S3_BUCKET, S3_ACCESS_KEY_ID or S3_SECRET_ACCESS_KEY is missing');
+      }
+      return new S3ObjectStorage({
+        bucket: S3_BUCKET,
+        region: process.env.S3_REGION || 'us-east-1',
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+        endpoint: process.env.S3_ENDPOINT,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      });
+    }
+    case 'local':
+      return new LocalObjectStorage({
+        directory: process.env.LOCAL_STORAGE_DIR || 'storage',
+        baseUrl: `${(process.env.PUBLIC_BASE_URL || 'http://localhost:3000').replace(/\/+$/, '')}/api/v1/files`,
+        secret: getLocalStorageSecret(),
+      });
+    default:
+      throw new Error(`Unknown OBJECT_STORAGE "${backend}"; use firebase, s3 or local`);
+  }
+}
+
+function getLocalStorageSecret(): string {
+  if (process.env.LOCAL_STORAGE_SECRET) {
+    return process.env.LOCAL_STORAGE_SECRET;
+  }
+
+  if (process.env.NODE_ENV !== 'development' && process.env.NODE_ENV !== 'test') {
+    throw new Error('OBJECT_STORAGE is local but LOCAL_STORAGE_SECRET is missing');
+  }
+  console.warn('LOCAL_STORAGE_SECRET is not set; file links will stop working when the server restarts');
+  return randomBytes(32).toString('hex');
+}
@@ -1,5 +1,6 @@
 import { ProfileRepository } from '../repositories/ProfileRepository';
 import {
+  DEFAULT_TIME_ZONE,
   ProfileValidationError,
   validateCreateProfileRequest,
   toProfileResponse,
@@ -13,6 +14,8 @@ import type {
 } from '../models/Profile';
 import { setCustomUserClaims } from '../config/firebase-admin.js';
 import { CategoryRepository } from '../repositories/CategoryRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { ExchangeRateService } from './ExchangeRateService';
 import { z } from 'zod';
 
 /**
@@ -29,11 +32,15 @@ import { z } from 'zod';
  */
 export class ProfileService {
   private profileRepository: ProfileRepository;
+  private transactionRepository: TransactionRepository;
+  private exchangeRateService: ExchangeRateService;
 
   constructor() {
     // Initialize repository for data access
     // In a larger app, this would be injected for better testability
     this.profileRepository = new ProfileRepository();
+    this.transactionRepository = new TransactionRepository();
+    this.exchangeRateService = new ExchangeRateService();
   }
 
   /**
@@ -109,13 +116,15 @@ export class ProfileService {
           'Entertainment',
           'Travel',
           'Gifts',
-          'Misc'
+          'Misc',
+          'Income'
         ];
 
         for (const name of defaults) {
           if (!existingNames.has(name.toLowerCase())) {
             try {
-              await catRepo.createCategory({ name, type: 'expense', userId });
+              const kind = name === 'Income' ? 'income' : 'expense';
+              await catRepo.createCategory({ name, type: kind, kind, userId });
               console.log(`Seeded '${name}' category for user ${userId}`);
             } catch (err) {
               // If the insert failed due to a unique constraint or race, ignore and continue
@@ -158,13 +167,36 @@ export class ProfileService {
   }
 
   /**
-   * Retrieves all profiles.
+   * Retrieves a profile with its server-only fields, such as the Google
+   * refresh token. Never send the result to a client.
    *
-   * @returns {Promise<ProfileResponse[]>} Array of all profiles
+   * @param {string} id - The profile ID
+   * @returns {Promise<Profile | null>} Profile or null if not found
+   * @throws {ProfileValidationError} If ID is invalid
    */
-  async getAllProfiles(): Promise<ProfileResponse[]> {
-    const profiles = await this.profileRepository.findAllProfiles();
-    return profiles.map(profile => toProfileResponse(profile));
+  async getFullProfile(id: string): Promise<Profile | null> {
+    if (!id || typeof id !== 'string') {
+      throw new ProfileValidationError('Invalid profile ID');
+    }
+
+    return await this.profileRepository.findProfileById(id);
+  }
+
+  /**
+   * Resolves the time zone a user's spoken dates are read in.
+   *
+   * @param {string} userId - The user (profile) ID
+   * @returns {Promise<string>} The profile's time zone, or UTC
+   */
+  async getTimeZone(userId: string): Promise<string> {
+    try {
+      const profile = await this.profileRepository.findProfileById(userId);
+      return profile?.timeZone || DEFAULT_TIME_ZONE;
+    } catch (error) {
+      console.error('Failed to resolve time zone:', error);
+      // Don't throw - dates fall back to UTC
+      return DEFAULT_TIME_ZONE;
+    }
   }
 
   /**
@@ -213,6 +245,18 @@ export class ProfileService {
       }
     }
 
+    // Business rule: Existing transactions must convert into a new home currency
+    if (validatedData.homeCurrency !== undefined && validatedData.homeCurrency !== existingProfile.homeCurrency) {
+      const currencies = await this.transactionRepository.findCurrenciesByUserId(id);
+      const unconvertible = await this.exchangeRateService.findUnconvertibleCurrency(currencies, validatedData.homeCurrency);
+      if (unconvertible) {
+        throw new ProfileValidationError(
+          `No exchange rate is known between ${unconvertible} and ${validatedData.homeCurrency}`,
+          'homeCurrency'
+        );
+      }
+    }
+
     // Update profile in database
     const updatedProfile = await this.profileRepository.updateProfile(id, validatedData);
 
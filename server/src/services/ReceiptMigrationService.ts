@@ -0,0 +1,93 @@
+import { ReceiptRepository } from '../repositories/ReceiptRepository';
+import { FirestoreReceiptRepository } from '../repositories/FirestoreReceiptRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import type { ReceiptStore } from '../repositories/ReceiptStore';
+import type { Receipt } from '../models/Receipt';
+
+/**
+ * What a receipt migration did, or would do on a dry run.
+ * skipped counts receipts copied by an earlier run.
+ */
+export interface ReceiptMigrationResult {
+  copied: number;
+  skipped: number;
+  relinked: number;
+  failed: number;
+}
+
+/**
+ * Service class for copying receipts from Firestore into MongoDB, the
+ * receipt system of record.
+ *
+ * Each copy keeps the Firestore document ID as legacyFirestoreId, so running
+ * the migration again skips receipts already copied. Transactions linked to
+ * the Firestore ID are pointed at the new receipt; this also happens for
+ * skipped receipts, in case an earlier run stopped part-way.
+ */
+export class ReceiptMigrationService {
+  private source: ReceiptStore;
+  private receiptRepository: ReceiptRepository;
+  private transactionRepository: TransactionRepository;
+
+  constructor(source: ReceiptStore = new FirestoreReceiptRepository()) {
+    // In a larger app, the repositories would be injected for better testability
+    this.source = source;
+    this.receiptRepository = new ReceiptRepository();
+    this.transactionRepository = new TransactionRepository();
+  }
+
+  /**
+   * Copies every receipt from the source store. A receipt that can't be
+   * copied is logged and counted as failed; the rest carry on.
+   *
+   * @param {object} options - dryRun counts what would change without writing
+   * @returns {Promise<ReceiptMigrationResult>} Migration counts
+   */
+  async migrate(options: { dryRun?: boolean } = {}): Promise<ReceiptMigrationResult> {
+    const result: ReceiptMigrationResult = { copied: 0, skipped: 0, relinked: 0, failed: 0 };
+    const receipts = await this.source.findAllReceipts();
+
+    for (const receipt of receipts) {
+      try {
+        await this.migrateReceipt(receipt, result, options.dryRun ?? false);
+      } catch (error) {
+        result.failed++;
+        console.error(`Failed to migrate receipt ${receipt.id}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  private async migrateReceipt(receipt: Receipt, result: ReceiptMigrationResult, dryRun: boolean): Promise<void> {
+    if (!receipt.userId) {
+      throw new Error('Receipt has no owner');
+    }
+
+    const linked = (await this.transactionRepository.findByReceiptId(receipt.id))
+      .filter((transaction) => transaction.userId === receipt.userId);
+    const existing = await this.receiptRepository.findByLegacyFirestoreId(receipt.id);
+
+    if (existing) {
+      result.skipped++;
+    } else {
+      result.copied++;
+    }
+    if (dryRun) {
+      result.relinked += linked.length;
+      return;
+    }
+
+    const { _id, id, updatedAt: _updatedAt, ...fields } = receipt;
+    // Firestore receipts only kept the category name; the transaction has the ID
+    const categoryId = fields.categoryId ?? linked.find((transaction) => transaction.categoryId)?.categoryId;
+    const copy = existing ?? await this.receiptRepository.createReceipt({
+      ...fields,
+      ...(categoryId && { categoryId }),
+      legacyFirestoreId: id,
+    });
+
+    const copyId = copy._id?.toString() || copy.id;
+    result.relinked += await this.transactionRepository.updateReceiptIdForUser(receipt.userId, receipt.id, copyId);
+  }
+}
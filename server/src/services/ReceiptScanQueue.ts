@@ -0,0 +1,295 @@
+import fs from 'fs';
+import { ReceiptValidationError } from '../models/Receipt';
+import {
+  MAX_RECEIPT_JOB_STAGE_ATTEMPTS,
+  RECEIPT_JOB_STAGES,
+  RECEIPT_JOB_TTL_MS,
+  toReceiptJobResponse
+} from '../models/ReceiptJob';
+import type { ReceiptJob, ReceiptJobResponse, ReceiptJobStage } from '../models/ReceiptJob';
+import { ReceiptJobRepository } from '../repositories/ReceiptJobRepository';
+import { ReceiptService } from './ReceiptService';
+
+// A claimed job goes back to the queue if its worker hasn't moved it on by then
+const JOB_LEASE_MS = 5 * 60 * 1000;
+
+// Wait before retrying a failed stage; doubles with each failed try
+const RETRY_BASE_DELAY_MS = 2000;
+
+// Shown instead of internal errors, which are logged
+const PROCESSING_FAILED_MESSAGE = 'Failed to process receipt';
+
+/**
+ * Service class for scanning receipts in the background.
+ *
+ * A scan is queued as a job in MongoDB and the upload request returns at
+ * once. Workers claim jobs one at a time and run them through the stages in
+ * RECEIPT_JOB_STAGES, saving each stage's output on the job. A stage that
+ * fails is retried with a backoff, starting from that stage, until it runs
+ * out of attempts. Every write to a job is made under the lease it was
+ * claimed with, so a worker that stalled past its lease can't overwrite the
+ * work of the one that took the job over.
+ *
+ * Stages read the uploaded image from the server's disk, so workers must run
+ * where uploads/ is, as the one in the server process does.
+ */
+export class ReceiptScanQueue {
+  private jobRepository: ReceiptJobRepository;
+  private receiptService: ReceiptService;
+  private draining = false;
+
+  constructor(receiptService: ReceiptService = new ReceiptService()) {
+    // Initialize repository for data access
+    // In a larger app, this would be injected for better testability
+    this.jobRepository = new ReceiptJobRepository();
+    this.receiptService = receiptService;
+  }
+
+  /**
+   * Queues a scan of an uploaded image. The file is kept until the job finishes.
+   *
+   * @param {string} userId - The user the receipt belongs to
+   * @param {string} filePath - The uploaded image
+   * @returns {Promise<ReceiptJobResponse>} The queued job
+   * @throws {ReceiptValidationError} If the file is not a readable image
+   */
+  async enqueue(userId: string, filePath: string): Promise<ReceiptJobResponse> {
+    await this.receiptService.checkReceiptImage(filePath);
+
+    const job = await this.jobRepository.createJob({ userId, filePath });
+    console.log(`📥 [RECEIPT JOB] Queued ${toReceiptJobResponse(job).id} for user ${userId}`);
+    return toReceiptJobResponse(job);
+  }
+
+  /**
+   * Gets a user's scan job, with the scan result once it has completed.
+   *
+   * @param {string} userId - The user who owns the job
+   * @param {string} jobId - The job ID
+   * @returns {Promise<ReceiptJobResponse | null>} The job, or null if not found for the user
+   */
+  async getJob(userId: string, jobId: string): Promise<ReceiptJobResponse | null> {
+    const job = await this.jobRepository.findJobById(jobId, userId);
+    return job ? toReceiptJobResponse(job) : null;
+  }
+
+  /**
+   * Processes jobs until none is ready. A call made while an earlier one is
+   * still draining returns at once, so it can be run on an interval.
+   *
+   * @returns {Promise<number>} Number of jobs processed
+   */
+  async drain(): Promise<number> {
+    if (this.draining) return 0;
+
+    this.draining = true;
+    try {
+      let processed = 0;
+      while (await this.processNextJob()) {
+        processed++;
+      }
+      return processed;
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /**
+   * Claims the next ready job and runs its remaining stages.
+   *
+   * @returns {Promise<boolean>} False if no job was ready
+   */
+  async processNextJob(): Promise<boolean> {
+    const job = await this.jobRepository.claimNextJob(JOB_LEASE_MS);
+    if (!job) return false;
+
+    await this.runJob(job);
+    return true;
+  }
+
+  /**
+   * Initializes the job queue's indexes.
+   * Should be called during application startup.
+   */
+  async initializeIndexes(): Promise<void> {
+    await this.jobRepository.createIndexes();
+  }
+
+  // --- 🔹 Helper Methods ---
+
+  /**
+   * Runs a claimed job from its current stage, saving each stage's output
+   * before starting the next one. Stops as soon as an update finds the lease
+   * taken over by another worker, leaving the job to that worker.
+   */
+  private async runJob(job: ReceiptJob): Promise<void> {
+    const id = toReceiptJobResponse(job).id;
+    const leaseId = job.leaseId ?? '';
+    const startTime = Date.now();
+    let current = job;
+
+    // A job reclaimed from a stopped worker may have no attempts left
+    if (job.attempts >= MAX_RECEIPT_JOB_STAGE_ATTEMPTS) {
+      await this.failJob(id, job, job.stage, job.attempts, PROCESSING_FAILED_MESSAGE, new Error('Worker stopped before finishing the stage'));
+      return;
+    }
+
+    for (const stage of RECEIPT_JOB_STAGES.slice(RECEIPT_JOB_STAGES.indexOf(job.stage))) {
+      let output: Partial<ReceiptJob>;
+      try {
+        output = await this.runStage(stage, current);
+      } catch (error) {
+        await this.handleStageFailure(id, current, stage, error);
+        return;
+      }
+
+      const completedStages = [...current.completedStages, stage];
+      const nextStage = RECEIPT_JOB_STAGES[completedStages.length];
+      if (!nextStage) {
+        const now = new Date();
+        const updated = await this.jobRepository.updateJob(
+          id,
+          leaseId,
+          { ...output, status: 'completed', completedStages, attempts: 0, completedAt: now, expiresAt: new Date(now.getTime() + RECEIPT_JOB_TTL_MS) },
+          ['lockedUntil', 'leaseId', 'error']
+        );
+        if (!updated) {
+          this.logLostLease(id, stage);
+          return;
+        }
+        console.log(`✅ [RECEIPT JOB] ${id} completed in ${Date.now() - startTime}ms`);
+        await this.removeUpload(current.filePath);
+        return;
+      }
+
+      current = { ...current, ...output, stage: nextStage, completedStages, attempts: 0 };
+      // Moving on renews the lease, so only a stalled worker loses the job
+      const updated = await this.jobRepository.updateJob(
+        id,
+        leaseId,
+        { ...output, stage: nextStage, completedStages, attempts: 0, lockedUntil: new Date(Date.now() + JOB_LEASE_MS) },
+        ['error']
+      );
+      if (!updated) {
+        this.logLostLease(id, stage);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Runs one stage on the outputs of the stages before it.
+   *
+   * @returns The job fields the stage produced
+   */
+  private async runStage(stage: ReceiptJobStage, job: ReceiptJob): Promise<Partial<ReceiptJob>> {
+    const stageStart = Date.now();
+    let output: Partial<ReceiptJob>;
+
+    switch (stage) {
+      case 'ocr':
+        output = { text: await this.receiptService.readReceiptText(job.filePath) };
+        break;
+      case 'parse':
+        output = { receipt: this.receiptService.parseReceipt(job.text ?? '') };
+        break;
+      case 'categorize':
+        output = { receipt: await this.receiptService.categorizeReceipt(this.requireOutput(job.receipt, 'parse')) };
+        break;
+      case 'upload':
+        output = { imageKey: await this.receiptService.uploadReceiptImage(job.userId, job.filePath) };
+        break;
+      case 'save':
+        output = {
+          result: await this.receiptService.saveScannedReceipt(
+            job.userId,
+            this.requireOutput(job.receipt, 'categorize'),
+            this.requireOutput(job.imageKey, 'upload'),
+            toReceiptJobResponse(job).id
+          ),
+        };
+        break;
+    }
+
+    console.log(`⏱️ [RECEIPT JOB] Stage ${stage} took ${Date.now() - stageStart}ms`);
+    return output;
+  }
+
+  /**
+   * Puts the job back in the queue to retry the stage after a backoff, or
+   * fails it once the stage is out of attempts. Invalid receipts fail at once.
+   * A failed job's upload and stored image are removed.
+   */
+  private async handleStageFailure(id: string, job: ReceiptJob, stage: ReceiptJobStage, error: unknown): Promise<void> {
+    const attempts = job.attempts + 1;
+    const message = error instanceof ReceiptValidationError ? error.message : PROCESSING_FAILED_MESSAGE;
+    const leaseId = job.leaseId ?? '';
+
+    if (error instanceof ReceiptValidationError || attempts >= MAX_RECEIPT_JOB_STAGE_ATTEMPTS) {
+      await this.failJob(id, job, stage, attempts, message, error);
+      return;
+    }
+
+    const delayMs = RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+    console.warn(`⚠️ [RECEIPT JOB] ${id} stage ${stage} failed (attempt ${attempts}), retrying in ${delayMs}ms:`, error);
+    const updated = await this.jobRepository.updateJob(
+      id,
+      leaseId,
+      { status: 'queued', attempts, error: message, runAfter: new Date(Date.now() + delayMs) },
+      ['lockedUntil', 'leaseId']
+    );
+    if (!updated) {
+      this.logLostLease(id, stage);
+    }
+  }
+
+  /**
+   * Fails the job and removes its upload and stored image.
+   */
+  private async failJob(
+    id: string,
+    job: ReceiptJob,
+    stage: ReceiptJobStage,
+    attempts: number,
+    message: string,
+    error: unknown
+  ): Promise<void> {
+    console.error(`❌ [RECEIPT JOB] ${id} failed at stage ${stage} after ${attempts} attempt(s):`, error);
+    const updated = await this.jobRepository.updateJob(
+      id,
+      job.leaseId ?? '',
+      { status: 'failed', attempts, error: message, expiresAt: new Date(Date.now() + RECEIPT_JOB_TTL_MS) },
+      ['lockedUntil', 'leaseId']
+    );
+    if (!updated) {
+      this.logLostLease(id, stage);
+      return;
+    }
+    await this.removeUpload(job.filePath);
+    if (job.imageKey) {
+      await this.receiptService.discardScannedImage(id, job.imageKey);
+    }
+  }
+
+  private logLostLease(id: string, stage: ReceiptJobStage): void {
+    console.warn(`⚠️ [RECEIPT JOB] ${id} lease ran out during stage ${stage}; leaving the job to the worker that claimed it`);
+  }
+
+  /**
+   * @throws {ReceiptValidationError} If an earlier stage left no output, which retrying can't fix
+   */
+  private requireOutput<T>(value: T | undefined, stage: ReceiptJobStage): T {
+    if (value === undefined) {
+      throw new ReceiptValidationError(`Receipt job is missing the output of the ${stage} stage`);
+    }
+    return value;
+  }
+
+  private async removeUpload(filePath: string): Promise<void> {
+    try {
+      await fs.promises.rm(filePath, { force: true });
+    } catch (cleanupError) {
+      console.error('Failed to remove uploaded receipt image:', cleanupError);
+    }
+  }
+}
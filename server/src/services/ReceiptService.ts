@@ -1,61 +1,72 @@
 import { ImageAnnotatorClient } from "@google-cloud/vision";
 import fs from "fs";
 import sharp from "sharp";
-import admin from "../config/firebase-admin";
 import { v4 as uuidv4 } from "uuid";
-import { ReceiptValidationError } from "../models/Receipt";
+import {
+  ReceiptValidationError,
+  toReceiptResponse,
+  validateCreateReceiptRequest,
+  validateUpdateReceiptRequest,
+} from "../models/Receipt";
+import type { NewReceipt, Receipt, ReceiptImageLink, ReceiptResponse } from "../models/Receipt";
+import type { ReceiptScanResult, ScannedReceipt } from "../models/ReceiptJob";
+import { createReceiptStore } from "../repositories/ReceiptStore";
+import type { ReceiptStore } from "../repositories/ReceiptStore";
+import { getFirebaseObjectKey, getObjectStorage } from "./ObjectStorage";
+import type { ObjectStorage } from "./ObjectStorage";
 import HuggingFaceService from "./HuggingFaceService";
+import { parsePaymentType } from "./TransactionTextParser";
+import { parseReceiptText, splitByCategory } from "./ReceiptTextParser";
 
-// Firestore reference
-const db = admin.firestore();
-const storage = admin.storage();
-const receiptsCollection = db.collection("receipts");
-
-interface ReceiptData {
-  userId: string;
-  merchantName: string;
-  amount: number;
-  date: Date;
-  category?: string;
-  imageUrl: string;
-  paymentType?: string;
-  notes?: string;
-}
+// Signed image links are short-lived; the client asks for a new one each time it shows an image
+const IMAGE_LINK_TTL_SECONDS = 15 * 60;
 
 export class ReceiptService {
-  constructor() {
-    console.log("✅ Firebase ReceiptService initialized");
+  private receiptRepository: ReceiptStore;
+  private objectStorage: ObjectStorage | null;
+
+  constructor(receiptStore: ReceiptStore = createReceiptStore(), objectStorage: ObjectStorage | null = null) {
+    // MongoDB unless RECEIPT_STORE selects the Firestore adapter
+    this.receiptRepository = receiptStore;
+    this.objectStorage = objectStorage;
+  }
+
+  /**
+   * Resolves the object storage on first use rather than on construction, so
+   * creating the service never fails; startServer checks the storage settings.
+   */
+  private ensureObjectStorage(): ObjectStorage {
+    if (!this.objectStorage) {
+      this.objectStorage = getObjectStorage();
+    }
+    return this.objectStorage;
   }
 
   /**
    * ===========================
    * 🔹 CREATE RECEIPT
    * ===========================
+   * @throws {ReceiptValidationError} If the receipt data is invalid
    */
-  async createReceipt(receiptData: any) {
-    if (!receiptData.userId || !receiptData.merchantName || !receiptData.amount) {
-      throw new ReceiptValidationError("Missing required fields");
-    }
-
-    const docRef = receiptsCollection.doc();
-    await docRef.set({
-      ...receiptData,
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  async createReceipt(userId: string, receiptData: any): Promise<ReceiptResponse> {
+    // The owner always comes from the route, never from the body
+    const validated = validateCreateReceiptRequest({ ...receiptData, userId });
+    const receipt = await this.receiptRepository.createReceipt({
+      ...validated,
+      date: new Date(validated.date),
     });
-
-    const created = await docRef.get();
-    return { id: docRef.id, ...created.data() };
+    return toReceiptResponse(receipt);
   }
 
   /**
    * ===========================
    * 🔹 GET RECEIPT BY ID
    * ===========================
+   * Returns null when the receipt doesn't exist or belongs to another user
    */
-  async getReceiptById(id: string) {
-    const doc = await receiptsCollection.doc(id).get();
-    if (!doc.exists) return null;
-    return { id: doc.id, ...doc.data() };
+  async getReceiptById(userId: string, id: string): Promise<ReceiptResponse | null> {
+    const receipt = await this.findOwned(userId, id);
+    return receipt ? toReceiptResponse(receipt) : null;
   }
 
   /**
@@ -63,129 +74,190 @@ export class ReceiptService {
    * 🔹 GET ALL USER RECEIPTS
    * ===========================
    */
-  async getReceiptsByUserId(userId: string) {
-    const snapshot = await receiptsCollection.where("userId", "==", userId).get();
-    const receipts: any[] = [];
-    snapshot.forEach((doc) => receipts.push({ id: doc.id, ...doc.data() }));
-    return receipts;
+  async getReceiptsByUserId(userId: string): Promise<ReceiptResponse[]> {
+    const receipts = await this.receiptRepository.findByUserId(userId);
+    return receipts.map(toReceiptResponse);
   }
 
   /**
    * ===========================
    * 🔹 UPDATE RECEIPT
    * ===========================
+   * Returns null when the receipt doesn't exist or belongs to another user.
+   * Fields outside the update schema, including the owner, are ignored.
+   *
+   * @throws {ReceiptValidationError} If the update data is invalid
    */
-  async updateReceipt(id: string, updateData: any) {
-    const docRef = receiptsCollection.doc(id);
-    const doc = await docRef.get();
-    if (!doc.exists) return null;
-
-    await docRef.update({
-      ...updateData,
-      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-    });
+  async updateReceipt(userId: string, id: string, updateData: any): Promise<ReceiptResponse | null> {
+    const validated = validateUpdateReceiptRequest(updateData ?? {});
+    const receipt = await this.findOwned(userId, id);
+    if (!receipt) return null;
 
-    const updated = await docRef.get();
-    return { id: docRef.id, ...updated.data() };
+    const updated = await this.receiptRepository.updateReceipt(id, validated);
+    return updated ? toReceiptResponse(updated) : null;
   }
 
   /**
    * ===========================
-   * 🔹 DELETE RECEIPT
+   * 🔹 GET RECEIPT IMAGE LINK
    * ===========================
-   * Deletes receipt from Firestore and its image from Firebase Storage
+   * Signs a short-lived link to the receipt's image. Images hosted elsewhere
+   * are linked as they are.
+   * Returns null when the receipt doesn't exist, belongs to another user or has no image
    */
-  async deleteReceipt(id: string): Promise<boolean> {
-    const docRef = receiptsCollection.doc(id);
-    const doc = await docRef.get();
-    if (!doc.exists) return false;
+  async getReceiptImageLink(userId: string, id: string): Promise<ReceiptImageLink | null> {
+    const receipt = await this.findOwned(userId, id);
+    if (!receipt) return null;
+
+    const key = this.getImageKey(receipt);
+    if (key) {
+      const url = await this.ensureObjectStorage().getSignedUrl(key, IMAGE_LINK_TTL_SECONDS);
+      return { url, expiresAt: new Date(Date.now() + IMAGE_LINK_TTL_SECONDS * 1000) };
+    }
+    return receipt.imageUrl ? { url: receipt.imageUrl, expiresAt: null } : null;
+  }
 
-    const receiptData = doc.data();
+  /**
+   * ===========================
+   * 🔹 DELETE RECEIPT
+   * ===========================
+   * Deletes the receipt and its stored image.
+   * Returns false when the receipt doesn't exist or belongs to another user
+   */
+  async deleteReceipt(userId: string, id: string): Promise<boolean> {
+    const receipt = await this.findOwned(userId, id);
+    if (!receipt) return false;
 
-    // Delete the image from Firebase Storage if it exists
-    if (receiptData?.imageUrl) {
+    const key = this.getImageKey(receipt);
+    if (key) {
       try {
-        // Extract file path from imageUrl
-        // URL format: https://firebasestorage.googleapis.com/v0/b/{bucket}/o/{path}?alt=media
-        const url = new URL(receiptData.imageUrl);
-        const pathMatch = url.pathname.match(/\/o\/(.+)/);
-
-        if (pathMatch) {
-          const filePath = decodeURIComponent(pathMatch[1]);
-          const bucket = storage.bucket();
-          const file = bucket.file(filePath);
-
-          console.log(`🗑️ Deleting receipt image: ${filePath}`);
-          await file.delete();
-          console.log(`✅ Successfully deleted receipt image from Storage`);
-        }
+        console.log(`🗑️ Deleting receipt image: ${key}`);
+        await this.ensureObjectStorage().delete(key);
       } catch (error) {
-        console.error('Failed to delete receipt image from Storage:', error);
-        // Continue with Firestore deletion even if Storage deletion fails
+        console.error('Failed to delete receipt image from storage:', error);
+        // Continue with the receipt deletion even if the image can't be deleted
       }
     }
 
-    // Delete the Firestore document
-    await docRef.delete();
-    console.log(`✅ Successfully deleted receipt ${id} from Firestore`);
-    return true;
+    return await this.receiptRepository.deleteReceipt(id);
+  }
+
+  /**
+   * Initializes the receipt store's indexes.
+   * Should be called during application startup.
+   */
+  async initializeIndexes(): Promise<void> {
+    await this.receiptRepository.createIndexes();
   }
 
   /**
    * ===========================
-   * 🔹 PROCESS RECEIPT IMAGE
+   * 🔹 SCAN STAGES
    * ===========================
-   * Steps:
-   * 1. OCR → Google Vision
-   * 2. Categorize → Hugging Face (with timeout fallback)
-   * 3. Upload image → Firebase Storage
-   * 4. Save metadata → Firestore
+   * A scanned receipt goes through the stages below in order. ReceiptScanQueue
+   * runs them in the background, keeps each stage's output on the job and
+   * retries a stage that fails, so each stage only depends on earlier outputs.
    */
-  async processReceipt(userId: string, filePath: string) {
-    const startTime = Date.now();
-    console.log(`⏱️ [RECEIPT] Starting receipt processing for user ${userId}`);
 
+  /**
+   * Checks an upload is a readable image before it is queued, so bad files
+   * are rejected without paying for OCR.
+   *
+   * @throws {ReceiptValidationError} If the file is not a readable image
+   */
+  async checkReceiptImage(filePath: string): Promise<void> {
     try {
-      // Step 1: Extract text with Google Vision OCR
-      const ocrStart = Date.now();
-      const visionClient = new ImageAnnotatorClient({
-        keyFilename: process.env.GOOGLE_APPLICATION_CREDENTIALS,
-      });
-
-      const [result] = await visionClient.textDetection(filePath);
-      const detections = result.textAnnotations;
-      const fullText = detections?.[0]?.description || "";
-      const ocrDuration = Date.now() - ocrStart;
-      console.log(`✅ [RECEIPT] OCR completed in ${ocrDuration}ms`);
-      console.log("🧾 OCR Extracted Text:", fullText.slice(0, 150));
-
-      // Step 2: Parse simple data from text
-      const parseStart = Date.now();
-      const merchant = this.extractMerchant(fullText);
-      const total = this.extractTotal(fullText);
-      const date = this.extractDate(fullText);
-      const parseDuration = Date.now() - parseStart;
-      console.log(`✅ [RECEIPT] Text parsing completed in ${parseDuration}ms`);
-
-      // Step 3: Predict category using HuggingFaceService (same as voice transactions)
-      const hfStart = Date.now();
-      console.log("🤖 [RECEIPT] Calling HuggingFace API for categorization...");
-      console.log(`🤖 [RECEIPT] Input: Transaction at ${merchant} for $${total}`);
-
-      const categoryResult = await HuggingFaceService.categorize(`${merchant} ${total}`);
-      const category = categoryResult.mapped || "misc";
-
-      const hfDuration = Date.now() - hfStart;
-      console.log(`✅ [RECEIPT] HuggingFace categorization completed in ${hfDuration}ms: ${category}`);
-      if (categoryResult.raw) {
-        console.log("🤖 [RECEIPT] Raw HuggingFace response:", JSON.stringify(categoryResult.raw).slice(0, 200));
-      }
+      await sharp(filePath).metadata();
+    } catch {
+      throw new ReceiptValidationError("File is not a readable image", "file");
+    }
+  }
+
+  /**
+   * OCR stage: extracts the receipt's text with Google Vision.
+   */
+  async readReceiptText(filePath: string): Promise<string> {
+    const ocrStart = Date.now();
+    const visionClient = new ImageAnnotatorClient({
+      keyFilename: process.env.GOOGLE_APPLICATION_CREDENTIALS,
+    });
+
+    const [result] = await visionClient.textDetection(filePath);
+    const detections = result.textAnnotations;
+    const fullText = detections?.[0]?.description || "";
+    console.log(`✅ [RECEIPT] OCR completed in ${Date.now() - ocrStart}ms`);
+    console.log("🧾 OCR Extracted Text:", fullText.slice(0, 150));
+    return fullText;
+  }
+
+  /**
+   * Parse stage: reads merchant, total, date and line items from the text,
+   * reconciled against the total.
+   */
+  parseReceipt(text: string): ScannedReceipt {
+    const merchant = this.extractMerchant(text);
+    const total = this.extractTotal(text);
+    const date = this.extractDate(text);
+    // Card brands and "CASH" are usually printed near the total
+    const paymentType = parsePaymentType(text);
+    const { lineItems, subtotal, tax, tip, reconciliation } = parseReceiptText(text, total);
+    if (reconciliation && !reconciliation.matches) {
+      console.warn(`⚠️ [RECEIPT] ${reconciliation.warnings.join("; ")}`);
+    }
+
+    return {
+      merchantName: merchant || "Unknown Merchant",
+      amount: total || 0,
+      date: date || new Date(),
+      paymentType: paymentType || "Card",
+      lineItems,
+      // Leave out amounts the receipt doesn't show rather than storing nulls
+      ...(subtotal !== undefined && { subtotal }),
+      ...(tax !== undefined && { tax }),
+      ...(tip !== undefined && { tip }),
+      ...(reconciliation && { reconciliation }),
+    };
+  }
+
+  /**
+   * Categorize stage: predicts the receipt's category with Hugging Face (same
+   * as voice transactions, with its timeout fallback) and each item's by keyword.
+   */
+  async categorizeReceipt(receipt: ScannedReceipt): Promise<ScannedReceipt> {
+    const hfStart = Date.now();
+    console.log("🤖 [RECEIPT] Calling HuggingFace API for categorization...");
+    console.log(`🤖 [RECEIPT] Input: Transaction at ${receipt.merchantName} for $${receipt.amount}`);
+
+    const categoryResult = await HuggingFaceService.categorize(`${receipt.merchantName} ${receipt.amount}`);
+    const category = categoryResult.mapped || "misc";
+    // Items without a telling keyword take the receipt's category
+    const lineItems = receipt.lineItems.map((item) => ({
+      ...item,
+      category: HuggingFaceService.mapTextToBucketByKeywords(item.description) || category,
+    }));
+
+    console.log(`✅ [RECEIPT] HuggingFace categorization completed in ${Date.now() - hfStart}ms: ${category}`);
+    if (categoryResult.raw) {
+      console.log("🤖 [RECEIPT] Raw HuggingFace response:", JSON.stringify(categoryResult.raw).slice(0, 200));
+    }
+    return { ...receipt, category, lineItems };
+  }
 
-      // Step 4: Compress image to reduce upload time
+  /**
+   * Upload stage: compresses the image and puts it in object storage.
+   * The upload itself is left for the caller to remove; the compressed copy
+   * is removed whether or not the upload succeeds.
+   *
+   * @returns The image's storage key
+   */
+  async uploadReceiptImage(userId: string, filePath: string): Promise<string> {
+    const compressedPath = `${filePath}-compressed.jpg`;
+
+    try {
+      // Compress image to reduce upload time
       const compressStart = Date.now();
       console.log("🗜️ [RECEIPT] Compressing image...");
 
-      const compressedPath = `${filePath}-compressed.jpg`;
       await sharp(filePath)
         .resize(1600, 1600, { // Max 1600x1600, maintains aspect ratio
           fit: 'inside',
@@ -197,96 +269,109 @@ export class ReceiptService {
       const originalSize = fs.statSync(filePath).size;
       const compressedSize = fs.statSync(compressedPath).size;
       const compressionRatio = ((1 - compressedSize / originalSize) * 100).toFixed(1);
-      const compressDuration = Date.now() - compressStart;
-      console.log(`✅ [RECEIPT] Image compressed in ${compressDuration}ms (${originalSize} → ${compressedSize} bytes, ${compressionRatio}% reduction)`);
+      console.log(`✅ [RECEIPT] Image compressed in ${Date.now() - compressStart}ms (${originalSize} → ${compressedSize} bytes, ${compressionRatio}% reduction)`);
 
-      // Step 5: Upload compressed image to Firebase Storage
       const uploadStart = Date.now();
-      console.log("☁️ [RECEIPT] Uploading to Firebase Storage...");
-
-      const bucket = storage.bucket();
-      const fileName = `receipts/${userId}/${uuidv4()}.jpg`;
-      const [uploadedFile] = await bucket.upload(compressedPath, {
-        destination: fileName,
-        metadata: {
-          metadata: {
-            firebaseStorageDownloadTokens: uuidv4(),
-          },
-        },
-      });
-
-      const imageUrl = `https://firebasestorage.googleapis.com/v0/b/${bucket.name}/o/${encodeURIComponent(
-        uploadedFile.name
-      )}?alt=media`;
-
-      const uploadDuration = Date.now() - uploadStart;
-      console.log(`✅ [RECEIPT] Firebase upload completed in ${uploadDuration}ms`);
-
-      // Step 6: Remove local temp files
-      fs.unlinkSync(filePath);
-      fs.unlinkSync(compressedPath);
-
-      // Step 7: Save receipt in Firestore
-      const firestoreStart = Date.now();
-      const receiptData: ReceiptData = {
-        userId,
-        merchantName: merchant || "Unknown Merchant",
-        amount: total || 0,
-        date: date || new Date(),
-        category,
-        imageUrl,
-        paymentType: "Card",
-        notes: "Auto-extracted from receipt image",
-      };
-
-      const docRef = receiptsCollection.doc();
-      await docRef.set({
-        ...receiptData,
-        createdAt: admin.firestore.FieldValue.serverTimestamp(),
-      });
-
-      const firestoreDuration = Date.now() - firestoreStart;
-      console.log(`✅ [RECEIPT] Firestore save completed in ${firestoreDuration}ms`);
-
-      const totalDuration = Date.now() - startTime;
-      console.log(`✅ [RECEIPT] Total processing time: ${totalDuration}ms`);
-      console.log(`📊 [RECEIPT] Breakdown: OCR=${ocrDuration}ms, Parse=${parseDuration}ms, HF=${Date.now() - hfStart}ms, Compress=${compressDuration}ms, Upload=${uploadDuration}ms, Firestore=${firestoreDuration}ms`);
-
-      // Return data in format expected by client for transaction confirmation
-      return {
-        success: true,
-        id: docRef.id,
-        data: {
-          merchant: receiptData.merchantName,
-          total: receiptData.amount,
-          date: receiptData.date instanceof Date ? receiptData.date.toISOString() : new Date().toISOString(),
-          category: receiptData.category,
-          description: `Purchase at ${receiptData.merchantName}`,
-          imageUrl: receiptData.imageUrl
-        }
-      };
-    } catch (error) {
-      const totalDuration = Date.now() - startTime;
-      console.error(`❌ [RECEIPT] Processing failed after ${totalDuration}ms:`, error);
+      console.log(`☁️ [RECEIPT] Uploading to ${this.ensureObjectStorage().name} storage...`);
 
-      // Clean up temp files if they still exist
+      const imageKey = `receipts/${userId}/${uuidv4()}.jpg`;
+      await this.ensureObjectStorage().upload(imageKey, compressedPath, "image/jpeg");
+
+      console.log(`✅ [RECEIPT] Image upload completed in ${Date.now() - uploadStart}ms`);
+      return imageKey;
+    } finally {
       try {
-        if (fs.existsSync(filePath)) {
-          fs.unlinkSync(filePath);
-        }
-        const compressedPath = `${filePath}-compressed.jpg`;
-        if (fs.existsSync(compressedPath)) {
-          fs.unlinkSync(compressedPath);
-        }
+        await fs.promises.rm(compressedPath, { force: true });
       } catch (cleanupError) {
-        console.error("Failed to clean up temp files:", cleanupError);
+        console.error("Failed to clean up temp file:", cleanupError);
+      }
+    }
+  }
+
+  /**
+   * Save stage: saves the receipt in the receipt store. The receipt is keyed
+   * on the scan job, so a retried save returns the receipt an earlier try
+   * saved instead of saving it twice.
+   *
+   * @returns The scan result in the format the client expects for transaction confirmation
+   */
+  async saveScannedReceipt(userId: string, receipt: ScannedReceipt, imageKey: string, jobId: string): Promise<ReceiptScanResult> {
+    const saveStart = Date.now();
+    const category = receipt.category || "misc";
+    const receiptData: NewReceipt = {
+      ...receipt,
+      userId,
+      category,
+      imageKey,
+      notes: "Auto-extracted from receipt image",
+      scanJobId: jobId,
+    };
+
+    const saved = await this.receiptRepository.findByScanJobId(jobId)
+      ?? await this.receiptRepository.createReceipt(receiptData);
+    console.log(`✅ [RECEIPT] Receipt saved to ${this.receiptRepository.name} in ${Date.now() - saveStart}ms`);
+
+    return {
+      success: true,
+      id: toReceiptResponse(saved).id,
+      data: {
+        merchant: receipt.merchantName,
+        total: receipt.amount,
+        date: new Date(receipt.date).toISOString(),
+        category,
+        description: `Purchase at ${receipt.merchantName}`,
+        paymentType: receipt.paymentType,
+        lineItems: receipt.lineItems,
+        subtotal: receipt.subtotal ?? null,
+        tax: receipt.tax ?? null,
+        tip: receipt.tip ?? null,
+        reconciliation: receipt.reconciliation ?? null,
+        // Suggested splits for saving the purchase as a split transaction
+        categorySplits: splitByCategory(receipt.lineItems, receipt.amount, category)
       }
+    };
+  }
+
+  /**
+   * Cleanup for a scan that failed after its upload stage: deletes the
+   * uploaded image unless a receipt was saved with it.
+   */
+  async discardScannedImage(jobId: string, imageKey: string): Promise<void> {
+    if (await this.receiptRepository.findByScanJobId(jobId)) return;
 
-      throw new Error("Failed to process and save receipt");
+    try {
+      await this.ensureObjectStorage().delete(imageKey);
+    } catch (error) {
+      console.error('Failed to delete scanned receipt image from storage:', error);
     }
   }
 
   // --- 🔹 Helper Methods ---
+
+  /**
+   * Loads a receipt and checks that it belongs to the given user.
+   *
+   * @throws {ReceiptValidationError} If the ID is missing
+   */
+  private async findOwned(userId: string, id: string): Promise<Receipt | null> {
+    if (!id || typeof id !== "string") {
+      throw new ReceiptValidationError("Invalid receipt ID");
+    }
+
+    const receipt = await this.receiptRepository.findReceiptById(id);
+    if (!receipt || receipt.userId !== userId) return null;
+    return receipt;
+  }
+
+  /**
+   * The storage key of a receipt's image. Receipts stored before keys were
+   * kept have a Firebase Storage URL, which only the Firebase backend can sign.
+   */
+  private getImageKey(receipt: Receipt): string | null {
+    if (receipt.imageKey) return receipt.imageKey;
+    return this.ensureObjectStorage().name === "firebase" ? getFirebaseObjectKey(receipt.imageUrl) : null;
+  }
+
   private extractMerchant(text: string): string {
     const lines = text.split("\n").map((l) => l.trim());
     return lines[0] || "Unknown Merchant";
@@ -296,8 +381,8 @@ export class ReceiptService {
     // Look for total, amount due, balance, or similar patterns
     // Patterns with and without dollar signs
     const totalPatterns = [
-      // With dollar sign
-      /total[:\s]*\$\s*(\d+[,.]?\d*\.?\d{2})/i,
+      // With dollar sign; \b keeps "subtotal" from being read as the total
+      /\btotal[:\s]*\$\s*(\d+[,.]?\d*\.?\d{2})/i,
       /amount\s+due[:\s]*\$\s*(\d+[,.]?\d*\.?\d{2})/i,
       /balance[:\s]*\$\s*(\d+[,.]?\d*\.?\d{2})/i,
       /grand\s+total[:\s]*\$\s*(\d+[,.]?\d*\.?\d{2})/i,
@@ -0,0 +1,287 @@
+/**
+ * Receipt text parser
+ * Reads line items, subtotal, tax and tip from OCR'd receipt text, checks that
+ * they add up to the total and splits the total by item category
+ */
+import type { ReceiptLineItem, ReceiptReconciliation } from '../models/Receipt';
+
+/**
+ * The amounts printed below the items. Missing when the receipt doesn't show them.
+ */
+export interface ReceiptAmounts {
+  subtotal?: number;
+  tax?: number;
+  tip?: number;
+}
+
+export interface ParsedReceiptText extends ReceiptAmounts {
+  lineItems: ReceiptLineItem[];
+  reconciliation?: ReceiptReconciliation;
+}
+
+export interface CategorySplit {
+  category: string;
+  amount: number;
+}
+
+// Receipts round each line, so sums are allowed to be a cent out
+const TOLERANCE = 0.01;
+
+// A price at the end of a line, e.g. "MILK 2% GAL 3.49 F" or "COUPON 1.00-"
+const TRAILING_PRICE = /^(.*?)\s+(-)?\$?\s?(\d{1,5}(?:,\d{3})*\.\d{2})(-)?(?:\s+[A-Z]{1,2})?$/;
+
+// A price alone on a line, which OCR produces when it splits a row in two
+const PRICE_ONLY = /^(-)?\$?\s?(\d{1,5}(?:,\d{3})*\.\d{2})(-)?$/;
+
+// "2 @ 1.50", "2.5 lb @ 0.59/lb" or "3 x $4.00", inside an item line or on its own line below it
+const UNIT_PRICE = /(\d+(?:\.\d+)?)\s*(?:lbs?|kg|oz|ea)?\s*[@x×]\s*\$?(\d+\.\d{2})(?:\s*\/\s*(?:lbs?|kg|oz|ea))?/i;
+
+// "2 x BANANAS" at the start of an item line
+const LEADING_QUANTITY = /^(\d{1,3})\s*[x×@]\s+/i;
+
+// Lines below the items (totals, payment, change) that are never items themselves
+const NOT_AN_ITEM = /\b(sub\s*-?\s*total|total|tax|hst|gst|pst|vat|tip|gratuity|change|cash|tender(ed)?|visa|master\s*card|amex|discover|debit|credit|card|balance|amount\s+due|payment|paid|auth(orization)?|approval|you\s+saved|items?\s+sold)\b/i;
+
+// Summary lines, checked in order so "subtotal" isn't read as a total
+const SUMMARY_LINES: [RegExp, keyof ReceiptAmounts][] = [
+  [/\bsub\s*-?\s*total\b/i, 'subtotal'],
+  [/\b(tip|gratuity)\b/i, 'tip'],
+  [/\b(sales\s+)?tax\b|\b(hst|gst|pst|vat)\b/i, 'tax'],
+];
+
+// Suggested-tip tables ("18% tip: 3.60") aren't what was paid
+const SUGGESTED_TIP = /suggest|%/i;
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toAmount(digits: string, ...signs: (string | undefined)[]): number {
+  const value = parseFloat(digits.replace(/,/g, ''));
+  return signs.some(Boolean) ? -value : value;
+}
+
+function formatAmount(value: number): string {
+  return value.toFixed(2);
+}
+
+function getLines(text: string): string[] {
+  return text.split('\n').map((line) => line.trim().replace(/\s+/g, ' ')).filter(Boolean);
+}
+
+/**
+ * Tidies an item description: drops SKU/UPC numbers and stray punctuation.
+ */
+function cleanDescription(description: string): string {
+  return description
+    .replace(/\b\d{5,}\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[^a-z0-9]+|[^a-z0-9)%]+$/gi, '')
+    .trim();
+}
+
+/**
+ * Reads purchased items from receipt text. Each item line ends with its price;
+ * quantities are read from "2 @ 1.50" or "2 x ITEM", including when the
+ * unit price is printed on its own line below the item.
+ *
+ * @param text - OCR text of the receipt
+ * @returns Items in the order they appear
+ */
+export function parseLineItems(text: string): ReceiptLineItem[] {
+  const items: ReceiptLineItem[] = [];
+  // A line with a name but no price, which a "2 @ 1.50  3.00" line may complete
+  let pendingDescription: string | null = null;
+
+  for (const line of getLines(text)) {
+    // "2 @ 1.50" alone on a line describes the item above it
+    const unitLine = line.match(UNIT_PRICE);
+    if (unitLine && unitLine.index === 0 && !/[a-z]{3,}/i.test(line.replace(unitLine[0], ''))) {
+      const quantity = parseFloat(unitLine[1]);
+      const unitPrice = parseFloat(unitLine[2]);
+      const lineTotal = line.slice(unitLine[0].length).trim().match(PRICE_ONLY);
+      const previous = items[items.length - 1];
+
+      if (lineTotal && pendingDescription) {
+        items.push({
+          description: pendingDescription,
+          quantity,
+          unitPrice,
+          total: toAmount(lineTotal[2], lineTotal[1], lineTotal[3]),
+        });
+      } else if (previous) {
+        previous.quantity = quantity;
+        previous.unitPrice = unitPrice;
+      }
+      pendingDescription = null;
+      continue;
+    }
+
+    if (NOT_AN_ITEM.test(line)) {
+      pendingDescription = null;
+      continue;
+    }
+
+    const match = line.match(TRAILING_PRICE);
+    if (!match) {
+      const description = cleanDescription(line);
+      pendingDescription = /[a-z]{2}/i.test(description) ? description : null;
+      continue;
+    }
+    pendingDescription = null;
+
+    const total = toAmount(match[3], match[2], match[4]);
+    let description = match[1];
+    let quantity = 1;
+    let unitPrice = total;
+
+    const inlineUnit = description.match(UNIT_PRICE);
+    const leadingQuantity = description.match(LEADING_QUANTITY);
+    if (inlineUnit) {
+      quantity = parseFloat(inlineUnit[1]);
+      unitPrice = parseFloat(inlineUnit[2]);
+      description = description.replace(inlineUnit[0], ' ');
+    } else if (leadingQuantity) {
+      quantity = parseInt(leadingQuantity[1], 10);
+      unitPrice = roundCents(total / quantity);
+      description = description.slice(leadingQuantity[0].length);
+    }
+
+    description = cleanDescription(description);
+    if (!/[a-z]{2}/i.test(description) || quantity <= 0) continue;
+
+    items.push({ description, quantity, unitPrice, total });
+  }
+
+  return items;
+}
+
+/**
+ * Reads the subtotal, tax and tip printed below the items. Several tax lines
+ * (state and city, GST and PST) are added together. When OCR puts the amount
+ * on the line after its label, that line is used.
+ *
+ * @param text - OCR text of the receipt
+ * @returns The amounts found
+ */
+export function extractReceiptAmounts(text: string): ReceiptAmounts {
+  const amounts: ReceiptAmounts = {};
+  const lines = getLines(text);
+
+  lines.forEach((line, index) => {
+    const summary = SUMMARY_LINES.find(([pattern]) => pattern.test(line));
+    if (!summary) return;
+
+    const [, field] = summary;
+    if (field === 'tip' && SUGGESTED_TIP.test(line)) return;
+    if (field === 'subtotal' && amounts.subtotal !== undefined) return;
+
+    const sameLine = line.match(/(-)?\$?\s?(\d{1,5}(?:,\d{3})*\.\d{2})(-)?\s*[A-Z]?$/);
+    const nextLine = lines[index + 1]?.match(PRICE_ONLY);
+    const amount = sameLine
+      ? toAmount(sameLine[2], sameLine[1], sameLine[3])
+      : nextLine ? toAmount(nextLine[2], nextLine[1], nextLine[3]) : undefined;
+    if (amount === undefined || amount < 0) return;
+
+    amounts[field] = field === 'tax' ? roundCents((amounts.tax ?? 0) + amount) : amount;
+  });
+
+  return amounts;
+}
+
+/**
+ * Checks that the items (or the printed subtotal), tax and tip add up to the
+ * total, and that the items add up to the subtotal.
+ *
+ * @param lineItems - Items read from the receipt
+ * @param amounts - Subtotal, tax and tip read from the receipt
+ * @param total - The receipt total
+ * @returns The sums compared and a warning for each mismatch
+ */
+export function reconcileReceipt(
+  lineItems: ReceiptLineItem[],
+  amounts: ReceiptAmounts,
+  total: number
+): ReceiptReconciliation {
+  const itemsTotal = roundCents(lineItems.reduce((sum, item) => sum + item.total, 0));
+  const base = amounts.subtotal ?? itemsTotal;
+  const computedTotal = roundCents(base + (amounts.tax ?? 0) + (amounts.tip ?? 0));
+  const difference = roundCents(total - computedTotal);
+  const warnings: string[] = [];
+
+  if (lineItems.length > 0 && amounts.subtotal !== undefined
+    && Math.abs(itemsTotal - amounts.subtotal) > TOLERANCE) {
+    warnings.push(`Line items add up to ${formatAmount(itemsTotal)} but the subtotal is ${formatAmount(amounts.subtotal)}`);
+  }
+  if (Math.abs(difference) > TOLERANCE) {
+    warnings.push(`Items, tax and tip add up to ${formatAmount(computedTotal)} but the total is ${formatAmount(total)}`);
+  }
+
+  return { itemsTotal, computedTotal, difference, matches: warnings.length === 0, warnings };
+}
+
+/**
+ * Splits a total across the categories of its items. Tax, tip and anything
+ * the items don't cover are shared in proportion to each category's items, and
+ * cents are handed out so the splits add up to the total exactly.
+ *
+ * @param lineItems - Items, with a category where one was suggested
+ * @param total - The amount to split
+ * @param fallbackCategory - Category for items without one
+ * @returns One split per category, largest first; empty when there's nothing to split
+ */
+export function splitByCategory(
+  lineItems: ReceiptLineItem[],
+  total: number,
+  fallbackCategory: string
+): CategorySplit[] {
+  const byCategory = new Map<string, number>();
+  for (const item of lineItems) {
+    const category = item.category || fallbackCategory;
+    byCategory.set(category, (byCategory.get(category) ?? 0) + item.total);
+  }
+
+  // Categories whose discounts outweigh their items have nothing to carry
+  const weights = [...byCategory].filter(([, amount]) => amount > 0);
+  const weightTotal = weights.reduce((sum, [, amount]) => sum + amount, 0);
+  const totalCents = Math.round(total * 100);
+  if (weightTotal <= 0 || totalCents <= 0) return [];
+
+  const shares = weights.map(([category, amount]) => {
+    const exact = (amount / weightTotal) * totalCents;
+    return { category, cents: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let leftover = totalCents - shares.reduce((sum, share) => sum + share.cents, 0);
+  for (const share of [...shares].sort((a, b) => b.remainder - a.remainder)) {
+    if (leftover <= 0) break;
+    share.cents += 1;
+    leftover -= 1;
+  }
+
+  return shares
+    .filter((share) => share.cents > 0)
+    .sort((a, b) => b.cents - a.cents)
+    .map((share) => ({ category: share.category, amount: share.cents / 100 }));
+}
+
+/**
+ * Reads line items, subtotal, tax and tip from receipt text and reconciles
+ * them against the total. There's nothing to reconcile when neither items
+ * nor a subtotal were found.
+ *
+ * @param text - OCR text of the receipt
+ * @param total - The receipt total
+ * @returns Items, amounts and the reconciliation
+ */
+export function parseReceiptText(text: string, total: number): ParsedReceiptText {
+  const lineItems = parseLineItems(text);
+  const amounts = extractReceiptAmounts(text);
+  const hasBreakdown = lineItems.length > 0 || amounts.subtotal !== undefined;
+
+  return {
+    lineItems,
+    ...amounts,
+    ...(hasBreakdown && total > 0 ? { reconciliation: reconcileReceipt(lineItems, amounts, total) } : {}),
+  };
+}
@@ -0,0 +1,525 @@
+import { RecurringTransactionRepository } from '../repositories/RecurringTransactionRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { TransactionService } from './TransactionService';
+import { ExchangeRateService } from './ExchangeRateService';
+import {
+  RecurringTransactionValidationError,
+  validateCreateRecurringTransactionRequest,
+  updateRecurringTransactionSchema,
+  skipOccurrenceSchema,
+  normalizeRecurrenceRule,
+  getFirstOccurrence,
+  getNextOccurrence,
+  toRecurringTransactionResponse
+} from '../models/RecurringTransaction';
+import type {
+  RecurringTransaction,
+  RecurrenceRule,
+  UpdateRecurringTransactionRequest,
+  RecurringTransactionResponse
+} from '../models/RecurringTransaction';
+import { z } from 'zod';
+
+// Upper bound on occurrences generated for one series in a single run,
+// so a misconfigured daily series can't flood the transactions collection.
+const MAX_OCCURRENCES_PER_RUN = 400;
+
+/**
+ * Service class for RecurringTransaction business logic.
+ *
+ * Owns the schedule of each series and the materializer that turns due
+ * occurrences into real Transaction documents. Materialization is idempotent:
+ * each generated transaction carries the series ID and its occurrence date,
+ * which are unique together, and the series only advances through a
+ * compare-and-set on nextOccurrence.
+ *
+ * @swagger
+ * tags:
+ *   name: Recurring Transactions
+ *   description: Recurring transactions and subscriptions (rent, streaming, utilities...)
+ */
+export class RecurringTransactionService {
+  private recurringRepository: RecurringTransactionRepository;
+  private transactionRepository: TransactionRepository;
+  private transactionService: TransactionService;
+  private exchangeRateService: ExchangeRateService;
+
+  constructor() {
+    // Initialize repository for data access
+    // In a larger app, this would be injected for better testability
+    this.recurringRepository = new RecurringTransactionRepository();
+    this.transactionRepository = new TransactionRepository();
+    this.transactionService = new TransactionService();
+    this.exchangeRateService = new ExchangeRateService();
+  }
+
+  /**
+   * Creates a new recurring transaction series.
+   *
+   * Business logic includes:
+   * - Input validation and sanitization
+   * - Resolving the rule against the start date (e.g. "monthly" → "monthly on day N")
+   * - Computing the first occurrence
+   *
+   * @param {any} recurringData - Raw series data from request
+   * @returns {Promise<RecurringTransactionResponse>} Created series response
+   * @throws {RecurringTransactionValidationError} If validation fails
+   */
+  async createRecurringTransaction(recurringData: any): Promise<RecurringTransactionResponse> {
+    // Step 1: Validate and sanitize input data
+    const validatedData = validateCreateRecurringTransactionRequest(recurringData);
+    if (validatedData.currency) {
+      await this.checkCurrency(validatedData.userId, validatedData.currency);
+    }
+
+    // Step 2: Resolve the schedule
+    const startDate = new Date(validatedData.startDate);
+    const endDate = validatedData.endDate ? new Date(validatedData.endDate) : undefined;
+    const rule = normalizeRecurrenceRule(validatedData.rule, startDate);
+    const nextOccurrence = getFirstOccurrence(rule, startDate);
+
+    // Step 3: Persist to database
+    const created = await this.recurringRepository.createRecurringTransaction({
+      userId: validatedData.userId,
+      vendorName: validatedData.vendorName,
+      description: validatedData.description,
+      amount: validatedData.amount,
+      currency: validatedData.currency,
+      paymentType: validatedData.paymentType,
+      categoryId: validatedData.categoryId,
+      kind: validatedData.kind,
+      rule,
+      startDate,
+      endDate,
+      nextOccurrence,
+      skippedDates: [],
+      status: endDate && nextOccurrence > endDate ? 'ended' : 'active'
+    });
+
+    // Step 4: Transform to response format
+    return toRecurringTransactionResponse(created);
+  }
+
+  /**
+   * Retrieves a recurring transaction by ID, scoped to its owner.
+   *
+   * @param {string} userId - The owning user ID
+   * @param {string} id - The recurring transaction ID
+   * @returns {Promise<RecurringTransactionResponse | null>} Series or null if not found
+   * @throws {RecurringTransactionValidationError} If ID is invalid
+   */
+  async getRecurringTransactionById(userId: string, id: string): Promise<RecurringTransactionResponse | null> {
+    const recurring = await this.findOwned(userId, id);
+    return recurring ? toRecurringTransactionResponse(recurring) : null;
+  }
+
+  /**
+   * Retrieves all recurring transactions for a specific user.
+   *
+   * @param {string} userId - The user ID
+   * @returns {Promise<RecurringTransactionResponse[]>} Array of the user's series
+   */
+  async getRecurringTransactionsByUserId(userId: string): Promise<RecurringTransactionResponse[]> {
+    if (!userId || typeof userId !== 'string') {
+      throw new RecurringTransactionValidationError('Invalid user ID');
+    }
+
+    const series = await this.recurringRepository.findByUserId(userId);
+    return series.map(recurring => toRecurringTransactionResponse(recurring));
+  }
+
+  /**
+   * Updates an existing series with validation.
+   *
+   * Supports partial updates. Changing the rule or the end date recomputes the
+   * next occurrence; already generated transactions are left untouched.
+   *
+   * @param {string} userId - The owning user ID
+   * @param {string} id - The recurring transaction ID to update
+   * @param {any} updateData - Partial series data to update
+   * @returns {Promise<RecurringTransactionResponse | null>} Updated series or null
+   * @throws {RecurringTransactionValidationError} If validation fails
+   */
+  async updateRecurringTransaction(
+    userId: string,
+    id: string,
+    updateData: any
+  ): Promise<RecurringTransactionResponse | null> {
+    const existing = await this.findOwned(userId, id);
+    if (!existing) {
+      return null;
+    }
+
+    // Validate update data using Zod schema
+    let validatedData: UpdateRecurringTransactionRequest;
+    try {
+      validatedData = updateRecurringTransactionSchema.parse(updateData);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const message = error.issues[0]?.message || 'Validation failed';
+        throw new RecurringTransactionValidationError(
+          message,
+          error.issues[0]?.path[0]?.toString()
+        );
+      }
+      throw error;
+    }
+
+    if (validatedData.currency) {
+      await this.checkCurrency(userId, validatedData.currency);
+    }
+
+    const { rule, endDate, ...fields } = validatedData;
+    const changes: Partial<RecurringTransaction> = { ...fields };
+    const unset: Array<keyof RecurringTransaction> = [];
+
+    // Recompute the schedule from today when the rule changes
+    if (rule) {
+      changes.rule = normalizeRecurrenceRule(rule, existing.startDate);
+      changes.nextOccurrence = this.firstOccurrenceFrom(changes.rule, existing.startDate, new Date());
+    }
+
+    if (endDate === null) {
+      unset.push('endDate');
+    } else if (endDate !== undefined) {
+      const end = new Date(endDate);
+      if (end < existing.startDate) {
+        throw new RecurringTransactionValidationError('startDate must be before or equal to endDate', 'endDate');
+      }
+      changes.endDate = end;
+    }
+
+    // A paused series stays paused; otherwise re-evaluate against the new end date
+    if (existing.status !== 'paused' && (rule || endDate !== undefined)) {
+      const next = changes.nextOccurrence ?? existing.nextOccurrence;
+      const end = endDate === null ? undefined : changes.endDate ?? existing.endDate;
+      changes.status = end && next > end ? 'ended' : 'active';
+    }
+
+    const updated = await this.recurringRepository.updateRecurringTransaction(id, changes, unset);
+    return updated ? toRecurringTransactionResponse(updated) : null;
+  }
+
+  /**
+   * Deletes a series. Transactions it already generated are kept.
+   *
+   * @param {string} userId - The owning user ID
+   * @param {string} id - The recurring transaction ID to delete
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  async deleteRecurringTransaction(userId: string, id: string): Promise<boolean> {
+    const existing = await this.findOwned(userId, id);
+    if (!existing) {
+      return false;
+    }
+
+    return await this.recurringRepository.deleteRecurringTransaction(id);
+  }
+
+  /**
+   * Pauses a series. No occurrences are generated while paused.
+   *
+   * @param {string} userId - The owning user ID
+   * @param {string} id - The recurring transaction ID
+   * @returns {Promise<RecurringTransactionResponse | null>} Updated series or null
+   * @throws {RecurringTransactionValidationError} If the series has ended
+   */
+  async pauseRecurringTransaction(userId: string, id: string): Promise<RecurringTransactionResponse | null> {
+    const existing = await this.findOwned(userId, id);
+    if (!existing) {
+      return null;
+    }
+
+    if (existing.status === 'ended') {
+      throw new RecurringTransactionValidationError('Recurring transaction has ended', 'status');
+    }
+
+    const updated = await this.recurringRepository.updateRecurringTransaction(id, { status: 'paused' });
+    return updated ? toRecurringTransactionResponse(updated) : null;
+  }
+
+  /**
+   * Resumes a paused series. Occurrences that fell inside the pause are not
+   * back-filled; the schedule continues from the next occurrence after now.
+   *
+   * @param {string} userId - The owning user ID
+   * @param {string} id - The recurring transaction ID
+   * @returns {Promise<RecurringTransactionResponse | null>} Updated series or null
+   * @throws {RecurringTransactionValidationError} If the series has ended
+   */
+  async resumeRecurringTransaction(userId: string, id: string): Promise<RecurringTransactionResponse | null> {
+    const existing = await this.findOwned(userId, id);
+    if (!existing) {
+      return null;
+    }
+
+    if (existing.status === 'ended') {
+      throw new RecurringTransactionValidationError('Recurring transaction has ended', 'status');
+    }
+
+    const nextOccurrence = this.firstOccurrenceFrom(existing.rule, existing.nextOccurrence, new Date());
+    const status = existing.endDate && nextOccurrence > existing.endDate ? 'ended' : 'active';
+
+    const updated = await this.recurringRepository.updateRecurringTransaction(id, { status, nextOccurrence });
+    return updated ? toRecurringTransactionResponse(updated) : null;
+  }
+
+  /**
+   * Skips a single occurrence without affecting the rest of the series.
+   *
+   * @param {string} userId - The owning user ID
+   * @param {string} id - The recurring transaction ID
+   * @param {any} skipData - Optional { date }; defaults to the next occurrence
+   * @returns {Promise<RecurringTransactionResponse | null>} Updated series or null
+   * @throws {RecurringTransactionValidationError} If validation fails
+   */
+  async skipOccurrence(userId: string, id: string, skipData: any): Promise<RecurringTransactionResponse | null> {
+    const existing = await this.findOwned(userId, id);
+    if (!existing) {
+      return null;
+    }
+
+    let date: Date;
+    try {
+      const parsed = skipOccurrenceSchema.parse(skipData ?? {});
+      date = parsed.date ? new Date(parsed.date) : existing.nextOccurrence;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const message = error.issues[0]?.message || 'Validation failed';
+        throw new RecurringTransactionValidationError(message, error.issues[0]?.path[0]?.toString());
+      }
+      throw error;
+    }
+
+    if (date < existing.startDate) {
+      throw new RecurringTransactionValidationError('Date is before the start of the series', 'date');
+    }
+
+    const skippedDates = existing.skippedDates || [];
+    if (skippedDates.some(skipped => this.isSameDay(skipped, date))) {
+      return toRecurringTransactionResponse(existing);
+    }
+
+    const updated = await this.recurringRepository.updateRecurringTransaction(id, {
+      skippedDates: [...skippedDates, date]
+    });
+    return updated ? toRecurringTransactionResponse(updated) : null;
+  }
+
+  /**
+   * Ends a series. Occurrences up to and including the end date are still generated.
+   *
+   * @param {string} userId - The owning user ID
+   * @param {string} id - The recurring transaction ID
+   * @param {any} endData - Optional { date }; defaults to now
+   * @returns {Promise<RecurringTransactionResponse | null>} Updated series or null
+   * @throws {RecurringTransactionValidationError} If validation fails
+   */
+  async endRecurringTransaction(userId: string, id: string, endData: any): Promise<RecurringTransactionResponse | null> {
+    const existing = await this.findOwned(userId, id);
+    if (!existing) {
+      return null;
+    }
+
+    let endDate: Date;
+    try {
+      const parsed = skipOccurrenceSchema.parse(endData ?? {});
+      endDate = parsed.date ? new Date(parsed.date) : new Date();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const message = error.issues[0]?.message || 'Validation failed';
+        throw new RecurringTransactionValidationError(message, error.issues[0]?.path[0]?.toString());
+      }
+      throw error;
+    }
+
+    if (endDate < existing.startDate) {
+      endDate = existing.startDate;
+    }
+
+    const changes: Partial<RecurringTransaction> = { endDate };
+    if (existing.nextOccurrence > endDate) {
+      changes.status = 'ended';
+    }
+
+    const updated = await this.recurringRepository.updateRecurringTransaction(id, changes);
+    return updated ? toRecurringTransactionResponse(updated) : null;
+  }
+
+  /**
+   * Generates transactions for every due occurrence of every active series.
+   *
+   * Safe to run repeatedly and concurrently: an occurrence that already has a
+   * transaction is not created again, and a series is only advanced by the run
+   * that observed its current nextOccurrence. After downtime, all missed
+   * occurrences up to `asOf` are caught up in order.
+   *
+   * @param {Date} asOf - Generate occurrences on or before this date (default now)
+   * @param {string} userId - Optional user to restrict the run to
+   * @returns {Promise<number>} Number of transactions created
+   */
+  async materializeDue(asOf: Date = new Date(), userId?: string): Promise<number> {
+    const dueSeries = await this.recurringRepository.findDue(asOf, userId);
+    let created = 0;
+
+    for (const series of dueSeries) {
+      try {
+        created += await this.materializeSeries(series, asOf);
+      } catch (error) {
+        console.error(`Failed to materialize recurring transaction ${series._id?.toString()}:`, error);
+        // Don't throw - one broken series shouldn't block the others
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Initializes database indexes.
+   * Should be called during application startup.
+   */
+  async initializeIndexes(): Promise<void> {
+    await this.recurringRepository.createIndexes();
+  }
+
+  /**
+   * Walks one series from its nextOccurrence up to `asOf`, creating a
+   * transaction for each non-skipped occurrence.
+   *
+   * @private
+   */
+  private async materializeSeries(series: RecurringTransaction, asOf: Date): Promise<number> {
+    const id = series._id?.toString() || series.id;
+    let current = new Date(series.nextOccurrence);
+    let created = 0;
+
+    for (let i = 0; i < MAX_OCCURRENCES_PER_RUN && current <= asOf; i++) {
+      // Past the end date: close the series without generating anything
+      if (series.endDate && current > series.endDate) {
+        await this.recurringRepository.advanceOccurrence(id, current, { status: 'ended' });
+        break;
+      }
+
+      const skipped = (series.skippedDates || []).some(date => this.isSameDay(date, current));
+      if (!skipped && await this.materializeOccurrence(series, current)) {
+        created++;
+      }
+
+      const next = getNextOccurrence(series.rule, current);
+      const ended = !!series.endDate && next > series.endDate;
+      const advanced = await this.recurringRepository.advanceOccurrence(id, current, {
+        nextOccurrence: next,
+        lastMaterializedAt: new Date(),
+        ...(ended ? { status: 'ended' as const } : {})
+      });
+
+      // Another run (or a user edit) moved the series on; leave it to them
+      if (!advanced || ended) {
+        break;
+      }
+
+      current = next;
+    }
+
+    return created;
+  }
+
+  /**
+   * Creates the transaction for a single occurrence unless it already exists.
+   *
+   * @returns {Promise<boolean>} True if a transaction was created
+   * @private
+   */
+  private async materializeOccurrence(series: RecurringTransaction, occurrence: Date): Promise<boolean> {
+    const recurringId = series._id?.toString() || series.id;
+
+    const existing = await this.transactionRepository.findByRecurringOccurrence(recurringId, occurrence);
+    if (existing) {
+      return false;
+    }
+
+    try {
+      await this.transactionService.createTransaction({
+        userId: series.userId,
+        vendorName: series.vendorName,
+        description: series.description,
+        dateTime: occurrence,
+        amount: series.amount,
+        currency: series.currency,
+        paymentType: series.paymentType,
+        categoryId: series.categoryId,
+        kind: series.kind,
+        recurringId
+      });
+      return true;
+    } catch (error: any) {
+      // Duplicate key on (recurringId, dateTime): a concurrent run created it first
+      if (error?.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Rejects a currency that can't be converted into the user's home currency,
+   * so generated transactions don't fail every time they come due.
+   *
+   * @throws {RecurringTransactionValidationError} If no exchange rate is known for the currency
+   * @private
+   */
+  private async checkCurrency(userId: string, currency: string): Promise<void> {
+    const homeCurrency = await this.exchangeRateService.getHomeCurrency(userId);
+    if (await this.exchangeRateService.findUnconvertibleCurrency([currency], homeCurrency)) {
+      throw new RecurringTransactionValidationError(`No exchange rate is known between ${currency} and ${homeCurrency}`, 'currency');
+    }
+  }
+
+  /**
+   * Loads a series and checks that it belongs to the given user.
+   *
+   * @private
+   */
+  private async findOwned(userId: string, id: string): Promise<RecurringTransaction | null> {
+    if (!id || typeof id !== 'string') {
+      throw new RecurringTransactionValidationError('Invalid recurring transaction ID');
+    }
+
+    const recurring = await this.recurringRepository.findRecurringTransactionById(id);
+    if (!recurring || recurring.userId !== userId) {
+      return null;
+    }
+
+    return recurring;
+  }
+
+  /**
+   * Finds the first occurrence of `rule` that is not before `from`,
+   * walking forward from `anchor` so the time of day and day-of-month are kept.
+   *
+   * @private
+   */
+  private firstOccurrenceFrom(rule: RecurrenceRule, anchor: Date, from: Date): Date {
+    let occurrence = getFirstOccurrence(rule, anchor);
+    const startOfDay = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+
+    while (occurrence < startOfDay) {
+      occurrence = getNextOccurrence(rule, occurrence);
+    }
+
+    return occurrence;
+  }
+
+  /**
+   * Compares two dates by local calendar day.
+   *
+   * @private
+   */
+  private isSameDay(a: Date, b: Date): boolean {
+    const left = new Date(a);
+    const right = new Date(b);
+    return left.getFullYear() === right.getFullYear()
+      && left.getMonth() === right.getMonth()
+      && left.getDate() === right.getDate();
+  }
+}
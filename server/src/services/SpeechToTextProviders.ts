@@ -0,0 +1,242 @@
+/**
+ * Speech-to-text providers
+ *
+ * Recordings are sent to whichever provider is configured, so API keys stay on
+ * the server and providers can be swapped without an app release. AssemblyAI is
+ * the hosted option; WhisperProvider talks to a self-hosted Whisper server with
+ * an OpenAI-compatible transcription endpoint; FakeSpeechToTextProvider returns
+ * a fixed transcript locally and in tests.
+ */
+
+import type {
+  SpeechToTextProviderName,
+  Transcription,
+  TranscriptionAudio,
+  TranscriptWord
+} from '../models/Transcription';
+
+const ASSEMBLYAI_URL = 'https://api.assemblyai.com/v2';
+const ASSEMBLYAI_POLL_INTERVAL_MS = 1500;
+const TRANSCRIPTION_TIMEOUT_MS = 90000;
+
+/**
+ * Turns a recording into text with word timings. Throws when the provider
+ * fails or doesn't answer in time.
+ */
+export interface SpeechToTextProvider {
+  readonly name: SpeechToTextProviderName;
+  transcribe(audio: TranscriptionAudio): Promise<Transcription>;
+}
+
+export interface AssemblyAIOptions {
+  apiKey: string;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Transcribes through AssemblyAI: uploads the audio, requests a transcript
+ * and polls until it completes. The timeout covers the whole exchange, each
+ * request included.
+ */
+export class AssemblyAIProvider implements SpeechToTextProvider {
+  readonly name = 'assemblyai' as const;
+
+  constructor(private options: AssemblyAIOptions) {}
+
+  async transcribe(audio: TranscriptionAudio): Promise<Transcription> {
+    const deadline = Date.now() + (this.options.timeoutMs ?? TRANSCRIPTION_TIMEOUT_MS);
+
+    const { upload_url: uploadUrl } = await this.request(deadline, '/upload', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array(audio.data),
+    });
+    if (!uploadUrl) {
+      throw new Error('AssemblyAI upload returned no URL');
+    }
+
+    const { id } = await this.request(deadline, '/transcript', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ audio_url: uploadUrl }),
+    });
+    if (!id) {
+      throw new Error('AssemblyAI returned no transcript ID');
+    }
+
+    while (Date.now() < deadline) {
+      const transcript = await this.request(deadline, `/transcript/${id}`, { method: 'GET' });
+
+      if (transcript.status === 'completed') {
+        return {
+          text: String(transcript.text || '').trim(),
+          words: (transcript.words || []).map((word: any): TranscriptWord => ({
+            text: word.text,
+            start: word.start,
+            end: word.end,
+            confidence: word.confidence,
+          })),
+          provider: this.name,
+        };
+      }
+      if (transcript.status === 'error') {
+        throw new Error(`AssemblyAI transcription failed: ${transcript.error || 'unknown error'}`);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, this.options.pollIntervalMs ?? ASSEMBLYAI_POLL_INTERVAL_MS));
+    }
+
+    throw new Error('AssemblyAI transcription timed out');
+  }
+
+  /**
+   * Sends a request that is aborted once the deadline passes.
+   */
+  private async request(deadline: number, path: string, init: RequestInit): Promise<any> {
+    const remainingMs = deadline - Date.now();
+    if (remainingMs <= 0) {
+      throw new Error('AssemblyAI transcription timed out');
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${ASSEMBLYAI_URL}${path}`, {
+        ...init,
+        headers: { ...init.headers, Authorization: this.options.apiKey },
+        signal: AbortSignal.timeout(remainingMs),
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error('AssemblyAI transcription timed out');
+      }
+      throw error;
+    }
+
+    if (!response.ok) {
+      throw new Error(`AssemblyAI request to ${path} failed with status ${response.status}`);
+    }
+
+    return response.json();
+  }
+}
+
+export interface WhisperOptions {
+  baseUrl: string;              // e.g. http://localhost:8000
+  model?: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Transcribes with a self-hosted Whisper server (faster-whisper-server,
+ * whisper.cpp and similar) through the OpenAI-compatible
+ * /v1/audio/transcriptions endpoint. Timings come back in seconds.
+ */
+export class WhisperProvider implements SpeechToTextProvider {
+  readonly name = 'whisper' as const;
+
+  constructor(private options: WhisperOptions) {}
+
+  async transcribe(audio: TranscriptionAudio): Promise<Transcription> {
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(audio.data)], { type: audio.mimeType }), audio.fileName || 'recording');
+    form.append('model', this.options.model || 'whisper-1');
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'word');
+
+    const response = await fetch(`${this.options.baseUrl.replace(/\/+$/, '')}/v1/audio/transcriptions`, {
+      method: 'POST',
+      headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : undefined,
+      body: form,
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? TRANSCRIPTION_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Whisper request failed with status ${response.status}`);
+    }
+
+    const result: any = await response.json();
+    // Some servers only report words inside each segment
+    const words = result.words
+      || (result.segments || []).flatMap((segment: any) => segment.words || []);
+
+    return {
+      text: String(result.text || '').trim(),
+      words: words.map((word: any): TranscriptWord => ({
+        text: String(word.word ?? word.text).trim(),
+        start: Math.round(word.start * 1000),
+        end: Math.round(word.end * 1000),
+        ...(typeof word.probability === 'number' ? { confidence: word.probability } : {}),
+      })),
+      provider: this.name,
+    };
+  }
+}
+
+// Each fake word takes this long
+const FAKE_WORD_MS = 400;
+
+/**
+ * Returns the same transcript for every recording, with evenly spaced words.
+ * Used when running locally without a provider, and in tests.
+ */
+export class FakeSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'fake' as const;
+  readonly received: TranscriptionAudio[] = [];
+
+  constructor(private text = 'twelve dollars at Starbucks this morning on my visa') {}
+
+  async transcribe(audio: TranscriptionAudio): Promise<Transcription> {
+    this.received.push(audio);
+
+    const words = this.text.split(/\s+/).filter(Boolean).map((text, index) => ({
+      text,
+      start: index * FAKE_WORD_MS,
+      end: (index + 1) * FAKE_WORD_MS,
+      confidence: 1,
+    }));
+
+    return { text: this.text, words, provider: this.name };
+  }
+}
+
+/**
+ * Creates the provider named by SPEECH_TO_TEXT_PROVIDER. When it isn't set,
+ * AssemblyAI is used if ASSEMBLYAI_API_KEY is set, then Whisper if WHISPER_URL is.
+ *
+ * A provider that is missing its settings is left out, so transcription is
+ * unavailable rather than the server failing to start.
+ *
+ * @returns The configured provider, or null when none is configured
+ */
+export function createSpeechToTextProvider(): SpeechToTextProvider | null {
+  const provider = process.env.SPEECH_TO_TEXT_PROVIDER
+    || (process.env.ASSEMBLYAI_API_KEY ? 'assemblyai' : process.env.WHISPER_URL ? 'whisper' : null);
+
+  switch (provider) {
+    case 'assemblyai':
+      if (!process.env.ASSEMBLYAI_API_KEY) {
+        console.warn('SPEECH_TO_TEXT_PROVIDER is assemblyai but ASSEMBLYAI_API_KEY is missing');
+        return null;
+      }
+      return new AssemblyAIProvider({ apiKey: process.env.ASSEMBLYAI_API_KEY });
+    case 'whisper':
+      if (!process.env.WHISPER_URL) {
+        console.warn('SPEECH_TO_TEXT_PROVIDER is whisper but WHISPER_URL is missing');
+        return null;
+      }
+      return new WhisperProvider({
+        baseUrl: process.env.WHISPER_URL,
+        model: process.env.WHISPER_MODEL,
+        apiKey: process.env.WHISPER_API_KEY,
+      });
+    case 'fake':
+      return new FakeSpeechToTextProvider();
+    case null:
+      return null;
+    default:
+      console.warn(`Unknown SPEECH_TO_TEXT_PROVIDER "${provider}"`);
+      return null;
+  }
+}
@@ -1,5 +1,6 @@
 import { TransactionRepository } from '../repositories/TransactionRepository';
 import { CategoryRepository } from '../repositories/CategoryRepository';
+import { ExchangeRateService } from './ExchangeRateService';
 import type {
   SpendingQuery,
   SpendingSummaryResponse,
@@ -11,9 +12,12 @@ import type {
   MonthlyTrendsResponse,
   MonthlyBreakdown,
   CurrentMonthSummary,
-  TrendData
+  TrendData,
+  CashFlowReport
 } from '../models/SpendingHistory';
+import { getCategoryAllocations, getTransactionKind } from '../models/Transaction';
 import type { Transaction } from '../models/Transaction';
+import { getCurrency } from '../models/ExchangeRate';
 import type { Category } from '../models/Category';
 
 /**
@@ -23,15 +27,24 @@ import type { Category } from '../models/Category';
  * - Date range calculations based on period types
  * - Aggregated spending summaries by category
  * - Detailed spending reports with transaction listings
+ * - Income vs expenses (net cash flow and savings rate)
  * - Percentage calculations for visualization
+ *
+ * "Spending" always means expenses: income and transfers are excluded from
+ * spending totals and reported by the cash-flow methods instead.
+ *
+ * All amounts are reported in the user's home currency, converted with the
+ * exchange rate for each transaction's date.
  */
 export class SpendingHistoryService {
   private transactionRepository: TransactionRepository;
   private categoryRepository: CategoryRepository;
+  private exchangeRateService: ExchangeRateService;
 
   constructor() {
     this.transactionRepository = new TransactionRepository();
     this.categoryRepository = new CategoryRepository();
+    this.exchangeRateService = new ExchangeRateService();
   }
 
   /**
@@ -100,12 +113,15 @@ export class SpendingHistoryService {
   async getSummary(userId: string, query: SpendingQuery): Promise<SpendingSummaryResponse> {
     // Calculate date range
     const { startDate, endDate, periodLabel } = this.calculateDateRange(query);
+    const currency = await this.exchangeRateService.getHomeCurrency(userId);
 
     // Get aggregated data from repository
     const aggregatedData = await this.transactionRepository.aggregateByCategory(
       userId,
       startDate,
-      endDate
+      endDate,
+      'expense',
+      currency
     );
 
     // Calculate total spending across all categories
@@ -140,6 +156,7 @@ export class SpendingHistoryService {
       period: periodLabel,
       startDate,
       endDate,
+      currency,
       totalSpending,
       categories,
     };
@@ -156,62 +173,74 @@ export class SpendingHistoryService {
   async getDetailedReport(userId: string, query: SpendingQuery): Promise<DetailedSpendingReport> {
     // Calculate date range
     const { startDate, endDate, periodLabel } = this.calculateDateRange(query);
+    const currency = await this.exchangeRateService.getHomeCurrency(userId);
 
-    // Get all transactions for the user within date range
-    const transactions = await this.transactionRepository.findByUserIdAndDateRange(
+    // Get all expense transactions for the user within date range
+    const transactions = (await this.transactionRepository.findByUserIdAndDateRange(
       userId,
       startDate,
       endDate
-    );
+    )).filter(t => getTransactionKind(t) === 'expense');
+    const convertedTransactions = await this.convertToCurrency(transactions, currency);
 
     // Get all categories for this user
     const allCategories = await this.categoryRepository.findAllCategories();
     const categoryMap = new Map<string, Category>();
     allCategories.forEach(cat => categoryMap.set(cat.id, cat));
 
-    // Group transactions by category
-    const categoryGroups = new Map<string, Transaction[]>();
+    // Group transaction lines by category (split transactions contribute one line per split)
+    const categoryGroups = new Map<string, TransactionDetail[]>();
+
+    for (const [index, transaction] of convertedTransactions.entries()) {
+      const isSplit = !!transaction.splits && transaction.splits.length > 0;
+      const original = transactions[index];
+      const originalLines = getCategoryAllocations(original);
+      const wasConverted = getCurrency(original) !== currency;
 
-    for (const transaction of transactions) {
-      if (!categoryGroups.has(transaction.categoryId)) {
-        categoryGroups.set(transaction.categoryId, []);
+      for (const [lineIndex, line] of getCategoryAllocations(transaction).entries()) {
+        if (!categoryGroups.has(line.categoryId)) {
+          categoryGroups.set(line.categoryId, []);
+        }
+        categoryGroups.get(line.categoryId)!.push({
+          id: transaction.id,
+          vendorName: transaction.vendorName,
+          description: transaction.description,
+          dateTime: transaction.dateTime,
+          amount: line.amount,
+          paymentType: transaction.paymentType,
+          receiptId: transaction.receiptId,
+          ...(isSplit && { transactionAmount: transaction.amount }),
+          ...(line.note && { splitNote: line.note }),
+          ...(wasConverted && {
+            originalCurrency: getCurrency(original),
+            originalAmount: originalLines[lineIndex].amount,
+          }),
+        });
       }
-      categoryGroups.get(transaction.categoryId)!.push(transaction);
     }
 
     // Build detailed report
     const categories: CategoryTransactions[] = [];
     let totalSpending = 0;
 
-    for (const [categoryId, categoryTransactions] of categoryGroups) {
+    for (const [categoryId, transactionDetails] of categoryGroups) {
       const category = categoryMap.get(categoryId);
 
       if (category) {
         // Calculate category total
-        const categoryTotal = categoryTransactions.reduce(
+        const categoryTotal = transactionDetails.reduce(
           (sum, t) => sum + t.amount,
           0
         );
 
         totalSpending += categoryTotal;
 
-        // Map transactions to detail format
-        const transactionDetails: TransactionDetail[] = categoryTransactions.map(t => ({
-          id: t.id,
-          vendorName: t.vendorName,
-          description: t.description,
-          dateTime: t.dateTime,
-          amount: t.amount,
-          paymentType: t.paymentType,
-          receiptId: t.receiptId,
-        }));
-
         categories.push({
           categoryId,
           categoryName: category.name,
           categoryType: category.type,
           totalAmount: categoryTotal,
-          transactionCount: categoryTransactions.length,
+          transactionCount: transactionDetails.length,
           transactions: transactionDetails,
         });
       }
@@ -225,11 +254,91 @@ export class SpendingHistoryService {
       period: periodLabel,
       startDate,
       endDate,
+      currency,
       totalSpending,
       categories,
     };
   }
 
+  /**
+   * Gets income, expenses and net cash flow for a period.
+   *
+   * @param {string} userId - The user ID
+   * @param {SpendingQuery} query - Query parameters
+   * @returns {Promise<CashFlowReport>} Cash-flow totals for the period
+   */
+  async getCashFlow(userId: string, query: SpendingQuery): Promise<CashFlowReport> {
+    // Calculate date range
+    const { startDate, endDate, periodLabel } = this.calculateDateRange(query);
+    const currency = await this.exchangeRateService.getHomeCurrency(userId);
+
+    // Get totals per kind from repository
+    const totals = await this.transactionRepository.aggregateByKind(userId, startDate, endDate, currency);
+    const byKind = new Map(totals.map(item => [item.kind, item]));
+
+    const totalIncome = byKind.get('income')?.totalAmount ?? 0;
+    const totalExpenses = byKind.get('expense')?.totalAmount ?? 0;
+
+    return {
+      userId,
+      period: periodLabel,
+      startDate,
+      endDate,
+      currency,
+      totalIncome,
+      totalExpenses,
+      totalTransfers: byKind.get('transfer')?.totalAmount ?? 0,
+      netFlow: Math.round((totalIncome - totalExpenses) * 100) / 100,
+      savingsRate: this.calculateSavingsRate(totalIncome, totalExpenses),
+      incomeCount: byKind.get('income')?.transactionCount ?? 0,
+      expenseCount: byKind.get('expense')?.transactionCount ?? 0,
+      transferCount: byKind.get('transfer')?.transactionCount ?? 0,
+    };
+  }
+
+  /**
+   * Calculates the share of income that was not spent, as a percentage.
+   * Negative when spending exceeded income.
+   *
+   * @param {number} income - Total income
+   * @param {number} expenses - Total expenses
+   * @returns {number | null} Savings rate rounded to 2 decimals, or null without income
+   */
+  private calculateSavingsRate(income: number, expenses: number): number | null {
+    if (income <= 0) {
+      return null;
+    }
+    return Math.round(((income - expenses) / income) * 10000) / 100;
+  }
+
+  /**
+   * Converts transactions (amount and split lines) into the given currency,
+   * using the exchange rate for each transaction's date. Transactions already
+   * in that currency are returned unchanged.
+   *
+   * @param {Transaction[]} transactions - Transactions in any currency
+   * @param {string} currency - Currency to convert into
+   * @returns {Promise<Transaction[]>} Converted copies, in the same order
+   */
+  private async convertToCurrency(transactions: Transaction[], currency: string): Promise<Transaction[]> {
+    return Promise.all(transactions.map(async (transaction) => {
+      const from = getCurrency(transaction);
+      if (from === currency) {
+        return transaction;
+      }
+
+      const factor = await this.exchangeRateService.getConversionFactor(from, currency, new Date(transaction.dateTime));
+      const convert = (amount: number) => Math.round(amount * factor * 100) / 100;
+
+      return {
+        ...transaction,
+        currency,
+        amount: convert(transaction.amount),
+        splits: transaction.splits?.map(line => ({ ...line, amount: convert(line.amount) })),
+      };
+    }));
+  }
+
   /**
    * Gets month boundaries (first and last moment of a month).
    *
@@ -288,6 +397,7 @@ export class SpendingHistoryService {
 
   /**
    * Gets monthly spending trends with current month total and comparison.
+   * Each month also reports income, net flow and savings rate.
    *
    * @param {string} userId - The user ID
    * @param {MonthlyTrendsQuery} query - Query parameters
@@ -300,23 +410,34 @@ export class SpendingHistoryService {
     const now = new Date();
     const currentMonthBoundaries = this.getMonthBoundaries(now);
     const currentMonthLabel = this.formatMonthLabel(now);
+    const currency = await this.exchangeRateService.getHomeCurrency(userId);
 
     // Fetch current month transactions
-    const currentMonthTransactions = await this.transactionRepository.findByUserIdAndDateRange(
-      userId,
-      currentMonthBoundaries.startDate,
-      currentMonthBoundaries.endDate
+    const currentMonthTransactions = await this.convertToCurrency(
+      await this.transactionRepository.findByUserIdAndDateRange(
+        userId,
+        currentMonthBoundaries.startDate,
+        currentMonthBoundaries.endDate
+      ),
+      currency
     );
 
-    const currentMonthTotal = currentMonthTransactions.reduce(
+    const currentMonthExpenses = currentMonthTransactions.filter(t => getTransactionKind(t) === 'expense');
+    const currentMonthTotal = currentMonthExpenses.reduce(
       (sum, t) => sum + t.amount,
       0
     );
+    const currentMonthIncome = currentMonthTransactions
+      .filter(t => getTransactionKind(t) === 'income')
+      .reduce((sum, t) => sum + t.amount, 0);
 
     const currentMonthSummary: CurrentMonthSummary = {
       month: currentMonthLabel,
       totalAmount: currentMonthTotal,
-      transactionCount: currentMonthTransactions.length,
+      transactionCount: currentMonthExpenses.length,
+      totalIncome: currentMonthIncome,
+      netFlow: Math.round((currentMonthIncome - currentMonthTotal) * 100) / 100,
+      savingsRate: this.calculateSavingsRate(currentMonthIncome, currentMonthTotal),
       startDate: currentMonthBoundaries.startDate,
       endDate: currentMonthBoundaries.endDate,
     };
@@ -332,7 +453,8 @@ export class SpendingHistoryService {
     const monthlyData = await this.transactionRepository.aggregateByMonth(
       userId,
       aggregationStartDate,
-      aggregationEndDate
+      aggregationEndDate,
+      currency
     );
 
     // Create a map for quick lookup
@@ -345,13 +467,18 @@ export class SpendingHistoryService {
       const key = `${monthInfo.year}-${monthInfo.month}`;
       const data = monthlyDataMap.get(key);
       const date = new Date(monthInfo.year, monthInfo.month - 1, 1);
+      const totalAmount = data?.totalAmount ?? 0;
+      const totalIncome = data?.totalIncome ?? 0;
 
       return {
         month: this.formatMonthLabel(date),
         year: monthInfo.year,
         monthNumber: monthInfo.month,
-        totalAmount: data?.totalAmount ?? 0,
+        totalAmount,
         transactionCount: data?.transactionCount ?? 0,
+        totalIncome,
+        netFlow: Math.round((totalIncome - totalAmount) * 100) / 100,
+        savingsRate: this.calculateSavingsRate(totalIncome, totalAmount),
         startDate: monthInfo.startDate,
         endDate: monthInfo.endDate,
       };
@@ -361,6 +488,7 @@ export class SpendingHistoryService {
     const previousMonthsTotals = monthlyBreakdown.map(m => m.totalAmount);
     const previousMonthsSum = previousMonthsTotals.reduce((sum, amount) => sum + amount, 0);
     const previousMonthsAverage = previousMonthsSum / monthCount;
+    const previousMonthsIncome = monthlyBreakdown.reduce((sum, m) => sum + m.totalIncome, 0);
 
     // Calculate percentage change
     let percentageChange = 0;
@@ -384,10 +512,12 @@ export class SpendingHistoryService {
       direction,
       comparisonPeriod: `last ${monthCount} months`,
       previousMonthsAverage: Math.round(previousMonthsAverage * 100) / 100,
+      averageSavingsRate: this.calculateSavingsRate(previousMonthsIncome, previousMonthsSum),
     };
 
     return {
       userId,
+      currency,
       currentMonth: currentMonthSummary,
       trend: trendData,
       monthlyBreakdown,
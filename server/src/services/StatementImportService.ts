@@ -0,0 +1,604 @@
+import { StatementImportRepository } from '../repositories/StatementImportRepository';
+import { ImportMappingRepository } from '../repositories/ImportMappingRepository';
+import { TransactionRepository } from '../repositories/TransactionRepository';
+import { TransactionService } from './TransactionService';
+import { CategoryService } from './CategoryService';
+import { ExchangeRateService } from './ExchangeRateService';
+import { categorize } from './HuggingFaceService';
+import {
+  detectStatementFormat,
+  guessColumnMapping,
+  parseCsvStatement,
+  parseOfxStatement,
+  readCsvHeader
+} from './StatementParser';
+import type { ParsedStatementRow } from './StatementParser';
+import {
+  MAX_IMPORT_ROWS,
+  IMPORT_PREVIEW_TTL_MS,
+  StatementImportValidationError,
+  validateStatementImportInput,
+  createStatementImportSchema,
+  columnMappingSchema,
+  saveMappingProfileSchema,
+  commitStatementImportSchema,
+  toStatementImportResponse,
+  toImportMappingProfileResponse
+} from '../models/StatementImport';
+import type {
+  ColumnMapping,
+  DuplicateMatch,
+  StatementRow,
+  StatementImportResponse,
+  ImportMappingProfileResponse
+} from '../models/StatementImport';
+import type { Transaction } from '../models/Transaction';
+import type { CategoryResponse } from '../models/Category';
+import { getCurrency } from '../models/ExchangeRate';
+
+// Existing transactions this many days either side of a row can be duplicates
+const DUPLICATE_WINDOW_DAYS = 3;
+
+// Minimum vendor similarity (0-1) for a row to be flagged as a duplicate
+const VENDOR_SIMILARITY_THRESHOLD = 0.6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Categorizer buckets and the default category names they correspond to
+const BUCKET_CATEGORY_NAMES: Record<string, string[]> = {
+  food: ['Food', 'Groceries'],
+  rent: ['Rent'],
+  utilities: ['Utilities'],
+  transportation: ['Transportation'],
+  entertainment: ['Entertainment'],
+  travel: ['Travel'],
+  gift: ['Gifts', 'Gift'],
+  misc: ['Misc'],
+};
+
+// Words banks add to card transactions that say nothing about the vendor
+const VENDOR_NOISE_WORDS = new Set([
+  'pos', 'purchase', 'card', 'debit', 'credit', 'visa', 'mastercard', 'payment',
+  'sq', 'tst', 'paypal', 'ach', 'online', 'recurring', 'inc', 'llc', 'ltd', 'co', 'the'
+]);
+
+/**
+ * An uploaded statement file.
+ */
+export interface StatementFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
+/**
+ * Service class for bank statement imports.
+ *
+ * Imports happen in two steps. Uploading a CSV or OFX/QFX file creates a
+ * preview: rows are parsed, given a suggested category and checked against
+ * existing transactions for likely duplicates, but nothing is written to the
+ * transactions collection. Committing the preview saves the accepted rows in
+ * one batch tagged with the import ID, so the whole import can later be
+ * rolled back.
+ *
+ * @swagger
+ * tags:
+ *   name: Statement Imports
+ *   description: Import transactions from bank CSV and OFX/QFX statements
+ */
+export class StatementImportService {
+  private statementImportRepository: StatementImportRepository;
+  private importMappingRepository: ImportMappingRepository;
+  private transactionRepository: TransactionRepository;
+  private transactionService: TransactionService;
+  private categoryService: CategoryService;
+  private exchangeRateService: ExchangeRateService;
+
+  constructor() {
+    // Initialize repositories and services
+    // In a larger app, this would be injected for better testability
+    this.statementImportRepository = new StatementImportRepository();
+    this.importMappingRepository = new ImportMappingRepository();
+    this.transactionRepository = new TransactionRepository();
+    this.transactionService = new TransactionService();
+    this.categoryService = new CategoryService();
+    this.exchangeRateService = new ExchangeRateService();
+  }
+
+  /**
+   * Parses an uploaded statement into a preview.
+   *
+   * Business logic includes:
+   * - Detecting the format (CSV or OFX/QFX)
+   * - Resolving the CSV column mapping: explicit, from a saved profile, or guessed from the header
+   * - Optionally saving the mapping as a per-bank profile
+   * - Suggesting a category for each row
+   * - Flagging rows that likely duplicate existing transactions
+   *
+   * @param {string} userId - The user importing the statement
+   * @param {StatementFile} file - The uploaded file
+   * @param {any} fields - Raw form fields sent with the file
+   * @returns {Promise<StatementImportResponse>} The preview
+   * @throws {StatementImportValidationError} If the file or mapping is invalid
+   */
+  async createPreview(userId: string, file: StatementFile | undefined, fields: any): Promise<StatementImportResponse> {
+    if (!userId || typeof userId !== 'string') {
+      throw new StatementImportValidationError('Invalid user ID');
+    }
+    if (!file || !file.buffer || file.buffer.length === 0) {
+      throw new StatementImportValidationError('A statement file is required', 'file');
+    }
+
+    // Step 1: Validate the form fields
+    const options = validateStatementImportInput(createStatementImportSchema, fields ?? {});
+    const content = file.buffer.toString('utf8');
+    const format = detectStatementFormat(file.originalname, content);
+
+    // Step 2: Parse the file
+    let parsedRows: ParsedStatementRow[];
+    let mapping: ColumnMapping | undefined;
+    if (format === 'ofx') {
+      parsedRows = parseOfxStatement(content);
+    } else {
+      mapping = await this.resolveMapping(userId, content, options.mapping, options.mappingProfileId);
+      parsedRows = parseCsvStatement(content, mapping);
+    }
+
+    if (parsedRows.length === 0) {
+      throw new StatementImportValidationError('The statement has no transactions', 'file');
+    }
+    if (parsedRows.length > MAX_IMPORT_ROWS) {
+      throw new StatementImportValidationError(`A statement can have at most ${MAX_IMPORT_ROWS} rows`, 'file');
+    }
+
+    // Step 3: Remember the mapping for the next statement from this bank
+    let mappingProfileId = options.mappingProfileId;
+    if (mapping && options.saveMappingAs) {
+      const profile = await this.importMappingRepository.upsertProfile(userId, options.saveMappingAs, mapping);
+      mappingProfileId = profile._id?.toString() || profile.id;
+    }
+
+    // Step 4: Default currency, suggested category and duplicate check
+    const homeCurrency = await this.exchangeRateService.getHomeCurrency(userId);
+    const rows: StatementRow[] = parsedRows.map(row => (
+      row.error ? row : { ...row, currency: row.currency ?? homeCurrency }
+    ));
+    await this.suggestCategories(userId, rows);
+    await this.flagDuplicates(userId, rows);
+
+    // Step 5: Persist the preview
+    const statementImport = await this.statementImportRepository.createImport({
+      userId,
+      fileName: file.originalname,
+      format,
+      status: 'preview',
+      paymentType: options.paymentType,
+      rows,
+      transactionIds: [],
+      mappingProfileId,
+      expiresAt: new Date(Date.now() + IMPORT_PREVIEW_TTL_MS),
+    });
+
+    return toStatementImportResponse(statementImport);
+  }
+
+  /**
+   * Resolves the column mapping for a CSV statement.
+   *
+   * @private
+   * @throws {StatementImportValidationError} If no usable mapping can be found
+   */
+  private async resolveMapping(
+    userId: string,
+    content: string,
+    mappingJson?: string,
+    mappingProfileId?: string
+  ): Promise<ColumnMapping> {
+    if (mappingJson) {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(mappingJson);
+      } catch {
+        throw new StatementImportValidationError('mapping must be valid JSON', 'mapping');
+      }
+      return validateStatementImportInput(columnMappingSchema, raw);
+    }
+
+    if (mappingProfileId) {
+      const profile = await this.importMappingRepository.findProfileById(mappingProfileId, userId);
+      if (!profile) {
+        throw new StatementImportValidationError('Mapping profile not found', 'mappingProfileId');
+      }
+      return profile.mapping;
+    }
+
+    const { headers, sampleRows } = readCsvHeader(content);
+    const guessed = guessColumnMapping(headers, sampleRows);
+    if (!guessed) {
+      throw new StatementImportValidationError(
+        'Could not detect the date, vendor and amount columns; provide a mapping',
+        'mapping'
+      );
+    }
+    return guessed;
+  }
+
+  /**
+   * Fills in a suggested category for each readable row.
+   * Income rows go to the user's income category; everything else is sent to
+   * the categorizer once per distinct vendor. Categorizer failures leave the
+   * row in Misc rather than failing the preview.
+   *
+   * @private
+   */
+  private async suggestCategories(userId: string, rows: StatementRow[]): Promise<void> {
+    const categories = await this.categoryService.getCategoriesByUserId(userId);
+    const byName = new Map(categories.map(category => [category.name.trim().toLowerCase(), category]));
+    const findCategory = (names: string[]): CategoryResponse | undefined =>
+      names.map(name => byName.get(name.toLowerCase())).find(Boolean);
+
+    const incomeCategory = categories.find(category => category.kind === 'income');
+    const bucketsByVendor = new Map<string, Promise<string>>();
+
+    for (const row of rows) {
+      if (row.error || !row.vendorName) continue;
+
+      if (row.kind === 'income') {
+        row.categoryId = incomeCategory?.id;
+        continue;
+      }
+
+      const key = row.vendorName.toLowerCase();
+      if (!bucketsByVendor.has(key)) {
+        bucketsByVendor.set(key, this.categorizeVendor(row.vendorName, row.description));
+      }
+      const bucket = await bucketsByVendor.get(key)!;
+      const category = findCategory(BUCKET_CATEGORY_NAMES[bucket] ?? []) ?? findCategory(BUCKET_CATEGORY_NAMES.misc);
+
+      row.suggestedCategory = bucket;
+      row.categoryId = category?.id;
+    }
+  }
+
+  /**
+   * Asks the categorizer for a vendor's category bucket.
+   *
+   * @private
+   */
+  private async categorizeVendor(vendorName: string, description?: string): Promise<string> {
+    try {
+      const result = await categorize(description ? `${vendorName} ${description}` : vendorName);
+      return result.mapped;
+    } catch (error) {
+      console.error('Failed to categorize statement row:', error);
+      // Don't throw - an uncategorized row can still be imported as Misc
+      return 'misc';
+    }
+  }
+
+  /**
+   * Flags rows that likely duplicate an existing transaction: same amount and
+   * currency, dated within a few days, and a similar vendor name.
+   *
+   * @private
+   */
+  private async flagDuplicates(userId: string, rows: StatementRow[]): Promise<void> {
+    const dated = rows.filter(row => !row.error && row.dateTime);
+    if (dated.length === 0) return;
+
+    const times = dated.map(row => row.dateTime!.getTime());
+    const existing = await this.transactionRepository.findByUserIdAndDateRange(
+      userId,
+      new Date(Math.min(...times) - DUPLICATE_WINDOW_DAYS * DAY_MS),
+      new Date(Math.max(...times) + DUPLICATE_WINDOW_DAYS * DAY_MS)
+    );
+    if (existing.length === 0) return;
+
+    for (const row of dated) {
+      const match = findDuplicate(row, existing);
+      if (match) {
+        row.duplicateOf = match;
+      }
+    }
+  }
+
+  /**
+   * Lists a user's statement imports, newest first, without their rows.
+   *
+   * @param {string} userId - The user ID
+   * @returns {Promise<StatementImportResponse[]>} The user's imports
+   */
+  async getImports(userId: string): Promise<StatementImportResponse[]> {
+    if (!userId || typeof userId !== 'string') {
+      throw new StatementImportValidationError('Invalid user ID');
+    }
+
+    const imports = await this.statementImportRepository.findByUserId(userId);
+    return imports.map(statementImport => toStatementImportResponse(statementImport, false));
+  }
+
+  /**
+   * Retrieves one of a user's statement imports with its rows.
+   *
+   * @param {string} userId - The user ID
+   * @param {string} importId - The import ID
+   * @returns {Promise<StatementImportResponse | null>} The import or null if not found
+   */
+  async getImport(userId: string, importId: string): Promise<StatementImportResponse | null> {
+    const statementImport = await this.statementImportRepository.findImportById(importId, userId);
+    return statementImport ? toStatementImportResponse(statementImport) : null;
+  }
+
+  /**
+   * Commits a preview: saves the accepted rows as transactions in one batch.
+   *
+   * Without a row selection, every readable row that isn't flagged as a
+   * duplicate is saved. Selected rows can override the category, kind and
+   * vendor name; an overridden category must be one the user can see. If the
+   * batch can't be written, anything that was saved is removed again and the
+   * import stays in preview.
+   *
+   * @param {string} userId - The user ID
+   * @param {string} importId - The import ID
+   * @param {any} commitData - Raw commit request
+   * @returns {Promise<StatementImportResponse | null>} The committed import or null if not found
+   * @throws {StatementImportValidationError} If the import isn't a preview, a category isn't the user's or a row can't be saved
+   */
+  async commitImport(userId: string, importId: string, commitData: any): Promise<StatementImportResponse | null> {
+    // Step 1: Validate the request and load the preview
+    const request = validateStatementImportInput(commitStatementImportSchema, commitData ?? {});
+    const statementImport = await this.statementImportRepository.findImportById(importId, userId);
+    if (!statementImport) {
+      return null;
+    }
+    if (statementImport.status !== 'preview') {
+      throw new StatementImportValidationError('Import has already been committed', 'status');
+    }
+
+    // Step 2: Pick the rows to save and apply overrides
+    const rowsByNumber = new Map(statementImport.rows.map(row => [row.rowNumber, row]));
+    const selected = request.rows
+      ? request.rows.map(selection => {
+          const row = rowsByNumber.get(selection.rowNumber);
+          if (!row) {
+            throw new StatementImportValidationError(`Row ${selection.rowNumber} is not in this import`, 'rows');
+          }
+          return {
+            ...row,
+            categoryId: selection.categoryId ?? row.categoryId,
+            kind: selection.kind ?? row.kind,
+            vendorName: selection.vendorName ?? row.vendorName,
+          };
+        })
+      : statementImport.rows.filter(row => !row.error && !row.duplicateOf);
+
+    if (selected.length === 0) {
+      throw new StatementImportValidationError('No rows to import', 'rows');
+    }
+
+    // Overridden categories must be the user's own or shared with their household
+    const usableCategories = new Map<string, boolean>();
+    for (const selection of request.rows ?? []) {
+      if (!selection.categoryId) continue;
+      if (!usableCategories.has(selection.categoryId)) {
+        const category = await this.categoryService.getCategoryById(userId, selection.categoryId);
+        usableCategories.set(selection.categoryId, category !== null);
+      }
+      if (!usableCategories.get(selection.categoryId)) {
+        throw new StatementImportValidationError(`Row ${selection.rowNumber} has a category that doesn't exist`, 'rows');
+      }
+    }
+
+    const transactions = selected.map(row => {
+      if (row.error) {
+        throw new StatementImportValidationError(`Row ${row.rowNumber} can't be imported: ${row.error}`, 'rows');
+      }
+      if (!row.categoryId) {
+        throw new StatementImportValidationError(`Row ${row.rowNumber} needs a category`, 'rows');
+      }
+      return {
+        userId,
+        vendorName: row.vendorName,
+        description: row.description || row.vendorName,
+        dateTime: new Date(row.dateTime!),
+        amount: row.amount,
+        currency: row.currency,
+        paymentType: statementImport.paymentType,
+        categoryId: row.categoryId,
+        kind: row.kind,
+        importId,
+      };
+    });
+
+    // Step 3: Claim the preview so a second commit can't run alongside this one
+    const claimed = await this.statementImportRepository.transitionStatus(
+      importId, 'preview', 'committed', { committedAt: new Date() }, ['expiresAt']
+    );
+    if (!claimed) {
+      throw new StatementImportValidationError('Import has already been committed', 'status');
+    }
+
+    // Step 4: Save the batch, undoing everything if it fails
+    let created;
+    try {
+      created = await this.transactionService.createTransactionBatch(transactions);
+    } catch (error) {
+      await this.transactionService.deleteTransactionsByImportId(importId);
+      await this.statementImportRepository.transitionStatus(
+        importId, 'committed', 'preview',
+        { expiresAt: new Date(Date.now() + IMPORT_PREVIEW_TTL_MS) }, ['committedAt']
+      );
+      throw error;
+    }
+
+    await this.statementImportRepository.updateImport(importId, {
+      transactionIds: created.map(transaction => transaction.id),
+    });
+
+    const committed = await this.statementImportRepository.findImportById(importId, userId);
+    return committed ? toStatementImportResponse(committed) : null;
+  }
+
+  /**
+   * Rolls back a committed import by deleting every transaction it created.
+   *
+   * @param {string} userId - The user ID
+   * @param {string} importId - The import ID
+   * @returns {Promise<StatementImportResponse | null>} The rolled back import or null if not found
+   * @throws {StatementImportValidationError} If the import isn't committed
+   */
+  async rollbackImport(userId: string, importId: string): Promise<StatementImportResponse | null> {
+    const statementImport = await this.statementImportRepository.findImportById(importId, userId);
+    if (!statementImport) {
+      return null;
+    }
+    if (statementImport.status === 'rolled_back') {
+      throw new StatementImportValidationError('Import has already been rolled back', 'status');
+    }
+    if (statementImport.status !== 'committed') {
+      throw new StatementImportValidationError('Only committed imports can be rolled back', 'status');
+    }
+
+    // Deleting by import ID is idempotent, so a concurrent rollback is harmless
+    await this.transactionService.deleteTransactionsByImportId(importId);
+    await this.statementImportRepository.transitionStatus(
+      importId, 'committed', 'rolled_back', { rolledBackAt: new Date() }
+    );
+
+    const rolledBack = await this.statementImportRepository.findImportById(importId, userId);
+    return rolledBack ? toStatementImportResponse(rolledBack) : null;
+  }
+
+  /**
+   * Lists a user's saved column mapping profiles.
+   *
+   * @param {string} userId - The user ID
+   * @returns {Promise<ImportMappingProfileResponse[]>} The user's profiles
+   */
+  async getMappingProfiles(userId: string): Promise<ImportMappingProfileResponse[]> {
+    const profiles = await this.importMappingRepository.findByUserId(userId);
+    return profiles.map(profile => toImportMappingProfileResponse(profile));
+  }
+
+  /**
+   * Saves a column mapping profile, replacing any profile with the same name.
+   *
+   * @param {string} userId - The user ID
+   * @param {any} profileData - Raw profile data
+   * @returns {Promise<ImportMappingProfileResponse>} The saved profile
+   * @throws {StatementImportValidationError} If validation fails
+   */
+  async saveMappingProfile(userId: string, profileData: any): Promise<ImportMappingProfileResponse> {
+    const validatedData = validateStatementImportInput(saveMappingProfileSchema, profileData);
+    const profile = await this.importMappingRepository.upsertProfile(userId, validatedData.name, validatedData.mapping);
+    return toImportMappingProfileResponse(profile);
+  }
+
+  /**
+   * Deletes a saved column mapping profile.
+   *
+   * @param {string} userId - The user ID
+   * @param {string} profileId - The profile ID
+   * @returns {Promise<boolean>} True if deleted, false if not found
+   */
+  async deleteMappingProfile(userId: string, profileId: string): Promise<boolean> {
+    return await this.importMappingRepository.deleteProfile(profileId, userId);
+  }
+
+  /**
+   * Initializes database indexes.
+   * Should be called during application startup.
+   */
+  async initializeIndexes(): Promise<void> {
+    await this.statementImportRepository.createIndexes();
+    await this.importMappingRepository.createIndexes();
+  }
+}
+
+/**
+ * Finds the existing transaction a statement row most likely duplicates.
+ *
+ * @param row - Parsed statement row
+ * @param existing - The user's transactions around the row's date
+ * @returns The best match, or undefined if none is close enough
+ */
+export function findDuplicate(row: StatementRow, existing: Transaction[]): DuplicateMatch | undefined {
+  let best: DuplicateMatch | undefined;
+
+  for (const transaction of existing) {
+    if (Math.abs(transaction.amount - (row.amount ?? 0)) >= 0.005) continue;
+    if (row.currency && getCurrency(transaction) !== row.currency) continue;
+
+    const days = Math.abs(new Date(transaction.dateTime).getTime() - row.dateTime!.getTime()) / DAY_MS;
+    if (days > DUPLICATE_WINDOW_DAYS) continue;
+
+    const similarity = vendorSimilarity(row.vendorName ?? '', transaction.vendorName);
+    if (similarity < VENDOR_SIMILARITY_THRESHOLD) continue;
+
+    // Vendor similarity counts most; a closer date breaks ties
+    const score = Math.round((0.7 * similarity + 0.3 * (1 - days / (DUPLICATE_WINDOW_DAYS + 1))) * 100) / 100;
+    if (!best || score > best.score) {
+      best = {
+        transactionId: transaction._id?.toString() || transaction.id,
+        vendorName: transaction.vendorName,
+        dateTime: transaction.dateTime,
+        amount: transaction.amount,
+        score,
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Scores how alike two vendor names are, from 0 to 1.
+ * Bank descriptions carry extra words ("SQ *BLUE BOTTLE COFFEE 1234"), so a
+ * name whose words all appear in the other counts as a full match. Otherwise
+ * the character bigram overlap (Dice coefficient) is used.
+ *
+ * @param a - First vendor name
+ * @param b - Second vendor name
+ * @returns Similarity from 0 (unrelated) to 1 (same vendor)
+ */
+export function vendorSimilarity(a: string, b: string): number {
+  const wordsA = vendorWords(a);
+  const wordsB = vendorWords(b);
+  if (wordsA.length === 0 || wordsB.length === 0) return 0;
+
+  const [shorter, longer] = wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA];
+  const longerSet = new Set(longer);
+  if (shorter.every(word => longerSet.has(word))) return 1;
+
+  const bigrams = (words: string[]) => {
+    const text = words.join('');
+    const counts = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+      const bigram = text.slice(i, i + 2);
+      counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+    }
+    return { counts, size: Math.max(text.length - 1, 0) };
+  };
+
+  const first = bigrams(wordsA);
+  const second = bigrams(wordsB);
+  if (first.size === 0 || second.size === 0) return 0;
+
+  let overlap = 0;
+  for (const [bigram, count] of first.counts) {
+    overlap += Math.min(count, second.counts.get(bigram) ?? 0);
+  }
+  return (2 * overlap) / (first.size + second.size);
+}
+
+/**
+ * Lower-cases a vendor name and keeps only the words that identify the vendor.
+ *
+ * @private
+ */
+function vendorWords(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !/^\d+$/.test(word) && !VENDOR_NOISE_WORDS.has(word));
+}
@@ -0,0 +1,448 @@
+/**
+ * Bank statement parser
+ * Turns CSV exports and OFX/QFX files into statement rows for import
+ */
+import { StatementImportValidationError } from '../models/StatementImport';
+import type { ColumnMapping, ColumnRef, StatementFormat } from '../models/StatementImport';
+import type { TransactionKind } from '../models/Transaction';
+
+/**
+ * A statement line as read from the file, before categorization.
+ * amount is always positive; the sign in the file decides kind.
+ */
+export interface ParsedStatementRow {
+  rowNumber: number;
+  dateTime?: Date;
+  amount?: number;
+  kind?: TransactionKind;
+  vendorName?: string;
+  description?: string;
+  currency?: string;
+  error?: string;
+}
+
+const DELIMITERS = [',', ';', '\t', '|'] as const;
+
+// Header names banks commonly use, checked in order
+const HEADER_PATTERNS = {
+  date: /^(transaction |posted |posting |booking |value )?date$|^date posted$/,
+  amount: /^(transaction )?amount$|^value$/,
+  debit: /debit|withdrawal|money out|paid out/,
+  credit: /credit|deposit|money in|paid in/,
+  vendor: /payee|merchant|vendor|^name$|^description$|details|narrative/,
+  description: /memo|reference|notes?$|^description$/,
+  currency: /^currency$/,
+};
+
+/**
+ * Detects whether a file is a CSV or an OFX/QFX statement.
+ * OFX content is recognised even when the file has another extension.
+ *
+ * @param fileName - Original file name
+ * @param content - File content
+ * @returns The statement format
+ */
+export function detectStatementFormat(fileName: string, content: string): StatementFormat {
+  if (/\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(content.slice(0, 4096))) {
+    return 'ofx';
+  }
+  return 'csv';
+}
+
+/**
+ * Picks the delimiter that occurs most often outside quotes in a line.
+ *
+ * @param line - Usually the header line
+ * @returns The detected delimiter, comma when nothing else is found
+ */
+export function detectDelimiter(line: string): string {
+  const counts = new Map<string, number>(DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && counts.has(char)) {
+      counts.set(char, counts.get(char)! + 1);
+    }
+  }
+
+  let best = ',';
+  for (const [delimiter, count] of counts) {
+    if (count > counts.get(best)!) best = delimiter;
+  }
+  return best;
+}
+
+/**
+ * Splits CSV text into records and fields.
+ * Handles quoted fields, doubled quotes, line breaks inside quotes and CRLF.
+ * Blank lines are skipped.
+ *
+ * @param content - CSV text
+ * @param delimiter - Field delimiter
+ * @returns One array of fields per record
+ */
+export function parseCsv(content: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.some(value => value.trim() !== '')) {
+      records.push(record);
+    }
+    record = [];
+    field = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+/**
+ * Parses an amount as written in a statement.
+ * Accepts currency symbols, thousands separators, a leading or trailing minus
+ * and accounting-style parentheses for negatives.
+ *
+ * @param value - Raw cell value
+ * @param decimalSeparator - '.' (1,234.56) or ',' (1.234,56)
+ * @returns The signed amount, or null if the value isn't a number
+ */
+export function parseAmount(value: string, decimalSeparator: '.' | ',' = '.'): number | null {
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/-$/.test(text)) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  // Drop currency symbols, codes and spaces
+  text = text.replace(/[^\d.,+-]/g, '');
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+
+  text = decimalSeparator === ','
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+
+  if (!/^\d+(\.\d+)?$|^\.\d+$/.test(text)) return null;
+
+  const amount = Number(text);
+  return negative ? -amount : amount;
+}
+
+/**
+ * Parses a statement date in the given format.
+ * Statement dates have no time; noon keeps them on the same calendar day
+ * when shown in nearby timezones.
+ *
+ * @param value - Raw cell value
+ * @param format - Expected date layout
+ * @returns The date, or null if the value doesn't match the format
+ */
+export function parseStatementDate(value: string, format: ColumnMapping['dateFormat']): Date | null {
+  const text = value.trim();
+  let year: number, month: number, day: number;
+
+  if (format === 'YYYY-MM-DD') {
+    const match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+    if (!match) return null;
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    const match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\b/);
+    if (!match) return null;
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    [month, day] = format === 'MM/DD/YYYY' ? [first, second] : [second, first];
+    year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+  }
+
+  const date = new Date(year, month - 1, day, 12, 0, 0, 0);
+  // Reject rolled-over dates such as 31/02
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Guesses a column mapping from a CSV header line and a few data rows.
+ *
+ * @param headers - Header cells
+ * @param sampleRows - Data rows used to guess the date format
+ * @returns A mapping, or null if the date, vendor or amount columns can't be found
+ */
+export function guessColumnMapping(headers: string[], sampleRows: string[][] = []): ColumnMapping | null {
+  const normalized = headers.map(header => header.trim().toLowerCase());
+  const used = new Set<number>();
+
+  const find = (pattern: RegExp): number | undefined => {
+    const index = normalized.findIndex((header, i) => !used.has(i) && pattern.test(header));
+    if (index === -1) return undefined;
+    used.add(index);
+    return index;
+  };
+
+  const date = find(HEADER_PATTERNS.date);
+  const amount = find(HEADER_PATTERNS.amount);
+  const debit = amount === undefined ? find(HEADER_PATTERNS.debit) : undefined;
+  const credit = amount === undefined ? find(HEADER_PATTERNS.credit) : undefined;
+  const vendor = find(HEADER_PATTERNS.vendor);
+  const description = find(HEADER_PATTERNS.description);
+  const currency = find(HEADER_PATTERNS.currency);
+
+  if (date === undefined || vendor === undefined || (amount === undefined && debit === undefined && credit === undefined)) {
+    return null;
+  }
+
+  return {
+    date: headers[date].trim(),
+    vendor: headers[vendor].trim(),
+    ...(description !== undefined && { description: headers[description].trim() }),
+    ...(amount !== undefined && { amount: headers[amount].trim() }),
+    ...(debit !== undefined && { debit: headers[debit].trim() }),
+    ...(credit !== undefined && { credit: headers[credit].trim() }),
+    ...(currency !== undefined && { currency: headers[currency].trim() }),
+    dateFormat: guessDateFormat(sampleRows.map(row => row[date] ?? '')),
+    decimalSeparator: '.',
+    hasHeader: true,
+    negativeIsExpense: true,
+  };
+}
+
+/**
+ * Guesses the date layout from sample values.
+ * Day-first is only chosen when a value can't be month-first.
+ *
+ * @private
+ */
+function guessDateFormat(values: string[]): ColumnMapping['dateFormat'] {
+  if (values.some(value => /^\d{4}[-/.]/.test(value.trim()))) {
+    return 'YYYY-MM-DD';
+  }
+  const dayFirst = values.some(value => {
+    const match = value.trim().match(/^(\d{1,2})[-/.](\d{1,2})[-/.]/);
+    return match !== null && Number(match[1]) > 12;
+  });
+  return dayFirst ? 'DD/MM/YYYY' : 'MM/DD/YYYY';
+}
+
+/**
+ * Reads the header line of a CSV statement.
+ *
+ * @param content - CSV text
+ * @param delimiter - Optional delimiter, detected when omitted
+ * @returns Header cells and the first data rows
+ */
+export function readCsvHeader(content: string, delimiter?: string): { headers: string[]; sampleRows: string[][] } {
+  const text = stripBom(content);
+  const records = parseCsv(text, delimiter ?? detectDelimiter(firstLine(text)));
+  return { headers: records[0] ?? [], sampleRows: records.slice(1, 21) };
+}
+
+/**
+ * Parses a CSV statement with a column mapping.
+ * Lines that can't be read are returned with an error instead of failing the file.
+ *
+ * @param content - CSV text
+ * @param mapping - Column mapping
+ * @returns Parsed rows in file order
+ * @throws {StatementImportValidationError} If a mapped column doesn't exist
+ */
+export function parseCsvStatement(content: string, mapping: ColumnMapping): ParsedStatementRow[] {
+  const text = stripBom(content);
+  const records = parseCsv(text, mapping.delimiter ?? detectDelimiter(firstLine(text)));
+  const headers = mapping.hasHeader ? (records.shift() ?? []) : [];
+
+  const resolve = (ref: ColumnRef | undefined, field: string): number | undefined => {
+    if (ref === undefined) return undefined;
+    if (typeof ref === 'number') return ref;
+
+    const index = headers.findIndex(header => header.trim().toLowerCase() === ref.toLowerCase());
+    if (index === -1) {
+      throw new StatementImportValidationError(`Column "${ref}" not found in the statement`, `mapping.${field}`);
+    }
+    return index;
+  };
+
+  const columns = {
+    date: resolve(mapping.date, 'date')!,
+    vendor: resolve(mapping.vendor, 'vendor')!,
+    description: resolve(mapping.description, 'description'),
+    amount: resolve(mapping.amount, 'amount'),
+    debit: resolve(mapping.debit, 'debit'),
+    credit: resolve(mapping.credit, 'credit'),
+    currency: resolve(mapping.currency, 'currency'),
+  };
+
+  return records.map((record, index) => {
+    const cell = (column: number | undefined) => (column === undefined ? '' : (record[column] ?? '').trim());
+    const row: ParsedStatementRow = { rowNumber: index + 1 };
+
+    row.vendorName = cell(columns.vendor) || undefined;
+    row.description = cell(columns.description) || undefined;
+    const currency = cell(columns.currency).toUpperCase();
+    if (/^[A-Z]{3}$/.test(currency)) row.currency = currency;
+
+    const date = parseStatementDate(cell(columns.date), mapping.dateFormat);
+    if (!date) {
+      return { ...row, error: `Invalid date "${cell(columns.date)}"` };
+    }
+    row.dateTime = date;
+
+    const signed = readSignedAmount(cell, columns, mapping);
+    if (signed === null) {
+      return { ...row, error: 'Missing or invalid amount' };
+    }
+    if (signed === 0) {
+      return { ...row, error: 'Amount is zero' };
+    }
+    row.amount = Math.abs(signed);
+    row.kind = signed < 0 ? 'expense' : 'income';
+
+    if (!row.vendorName) {
+      return { ...row, error: 'Missing vendor' };
+    }
+
+    return row;
+  });
+}
+
+/**
+ * Reads a row's amount as a signed number: negative for money out.
+ *
+ * @private
+ */
+function readSignedAmount(
+  cell: (column: number | undefined) => string,
+  columns: { amount?: number; debit?: number; credit?: number },
+  mapping: ColumnMapping
+): number | null {
+  if (columns.amount !== undefined) {
+    const amount = parseAmount(cell(columns.amount), mapping.decimalSeparator);
+    if (amount === null) return null;
+    return mapping.negativeIsExpense ? amount : -amount;
+  }
+
+  // Separate columns: usually only one of the two is filled per row
+  const debit = parseAmount(cell(columns.debit), mapping.decimalSeparator);
+  const credit = parseAmount(cell(columns.credit), mapping.decimalSeparator);
+  if (debit !== null && debit !== 0) return -Math.abs(debit);
+  if (credit !== null && credit !== 0) return Math.abs(credit);
+  return debit ?? credit;
+}
+
+/**
+ * Parses the transactions of an OFX or QFX statement.
+ * Supports both the SGML (OFX 1.x, unclosed tags) and XML (OFX 2.x) variants.
+ *
+ * @param content - OFX text
+ * @returns Parsed rows in file order
+ * @throws {StatementImportValidationError} If the file has no statement transactions
+ */
+export function parseOfxStatement(content: string): ParsedStatementRow[] {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi);
+  if (!blocks) {
+    throw new StatementImportValidationError('No transactions found in the OFX file', 'file');
+  }
+
+  const statementCurrency = readOfxTag(content, 'CURDEF')?.toUpperCase();
+
+  return blocks.map((block, index) => {
+    const row: ParsedStatementRow = { rowNumber: index + 1 };
+    const name = readOfxTag(block, 'NAME') || readOfxTag(block, 'PAYEE');
+    const memo = readOfxTag(block, 'MEMO');
+
+    row.vendorName = name || memo || undefined;
+    row.description = memo && memo !== row.vendorName ? memo : undefined;
+    if (statementCurrency && /^[A-Z]{3}$/.test(statementCurrency)) row.currency = statementCurrency;
+
+    const posted = readOfxTag(block, 'DTPOSTED')?.match(/^(\d{4})(\d{2})(\d{2})/);
+    const date = posted ? parseStatementDate(`${posted[1]}-${posted[2]}-${posted[3]}`, 'YYYY-MM-DD') : null;
+    if (!date) {
+      return { ...row, error: 'Missing or invalid DTPOSTED' };
+    }
+    row.dateTime = date;
+
+    const amount = parseAmount(readOfxTag(block, 'TRNAMT') ?? '');
+    if (amount === null || amount === 0) {
+      return { ...row, error: 'Missing or invalid TRNAMT' };
+    }
+    row.amount = Math.abs(amount);
+    row.kind = amount < 0 ? 'expense' : 'income';
+
+    if (!row.vendorName) {
+      return { ...row, error: 'Missing payee name' };
+    }
+
+    return row;
+  });
+}
+
+/**
+ * Reads the value of a leaf OFX element, closed or not.
+ *
+ * @private
+ */
+function readOfxTag(text: string, tag: string): string | undefined {
+  const match = text.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  if (!match) return undefined;
+
+  const value = match[1]
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .trim();
+  return value || undefined;
+}
+
+function stripBom(content: string): string {
+  return content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+}
+
+function firstLine(content: string): string {
+  const end = content.search(/\r?\n/);
+  return end === -1 ? content : content.slice(0, end);
+}
@@ -0,0 +1,438 @@
+/**
+ * Transaction exporter
+ * Streams a user's transactions as CSV, JSON, OFX or XLSX
+ */
+import { Readable } from 'stream';
+import zlib from 'zlib';
+import { getCategoryAllocations } from '../models/Transaction';
+import type { TransactionResponse, TransactionExportFormat } from '../models/Transaction';
+
+/**
+ * A transaction line with its category name resolved.
+ * Split transactions produce one line per split.
+ */
+export interface CategoryRow extends TransactionResponse {
+  categoryName: string;
+}
+
+/**
+ * Everything an export needs besides the transactions themselves.
+ */
+export interface TransactionExportContext {
+  userId: string;
+  categoryNames: Map<string, string>;
+  homeCurrency: string;
+  startDate?: Date;
+  endDate?: Date;
+  // Rate converting one unit of `from` into `to` on a date (OFX only)
+  getConversionFactor: (from: string, to: string, date: Date) => Promise<number>;
+}
+
+export interface TransactionExport {
+  contentType: string;
+  fileName: string;
+  body: AsyncIterable<string | Buffer>;
+}
+
+const CONTENT_TYPES: Record<TransactionExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ofx: 'application/x-ofx',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const ROW_HEADERS = [
+  'Date', 'Vendor', 'Description', 'Amount', 'Currency', 'Kind', 'Payment Type', 'Category', 'Transaction ID'
+];
+
+/**
+ * Builds a categoryId -> name lookup from a user's categories.
+ *
+ * @param categories - Categories (database or response shape)
+ * @returns Map of category ID to name
+ */
+export function buildCategoryNameMap(categories: Array<{ id?: string; _id?: unknown; name: string }>): Map<string, string> {
+  return new Map(categories.map(category => [category.id || String(category._id), category.name]));
+}
+
+/**
+ * Resolves category names for a transaction.
+ * Split transactions become one row per split line, carrying the line's
+ * amount and category so totals per category match the reports.
+ *
+ * @param transaction - Transaction to expand
+ * @param categoryNames - Category ID to name lookup
+ * @returns One row per category line
+ */
+export function toCategoryRows(transaction: TransactionResponse, categoryNames: Map<string, string>): CategoryRow[] {
+  return getCategoryAllocations(transaction).map(line => ({
+    ...transaction,
+    description: line.note ? `${transaction.description} (${line.note})` : transaction.description,
+    amount: line.amount,
+    categoryId: line.categoryId,
+    categoryName: categoryNames.get(line.categoryId) || 'Uncategorized',
+  }));
+}
+
+/**
+ * Creates a streaming export of transactions in the requested format.
+ * Transactions are read from the iterable as the body is consumed.
+ *
+ * @param format - Output format
+ * @param transactions - Transactions in export order
+ * @param context - Category names, currency and date range
+ * @returns Content type, suggested file name and body
+ */
+export function createTransactionExport(
+  format: TransactionExportFormat,
+  transactions: AsyncIterable<TransactionResponse>,
+  context: TransactionExportContext
+): TransactionExport {
+  const writers: Record<TransactionExportFormat, () => AsyncIterable<string | Buffer>> = {
+    csv: () => writeCsv(transactions, context),
+    json: () => writeJson(transactions, context),
+    ofx: () => writeOfx(transactions, context),
+    xlsx: () => writeXlsx(transactions, context),
+  };
+
+  return {
+    contentType: CONTENT_TYPES[format],
+    fileName: `parrit-transactions-${new Date().toISOString().slice(0, 10)}.${format}`,
+    body: writers[format](),
+  };
+}
+
+/**
+ * The values of one exported row, in ROW_HEADERS order.
+ *
+ * @private
+ */
+function rowValues(row: CategoryRow): Array<string | number | Date> {
+  return [
+    new Date(row.dateTime), row.vendorName, row.description, row.amount, row.currency,
+    row.kind, row.paymentType, row.categoryName, row.id,
+  ];
+}
+
+async function* writeCsv(
+  transactions: AsyncIterable<TransactionResponse>,
+  context: TransactionExportContext
+): AsyncGenerator<string> {
+  // Byte order mark so spreadsheet apps read the file as UTF-8
+  yield '\uFEFF' + ROW_HEADERS.map(csvCell).join(',') + '\r\n';
+
+  for await (const transaction of transactions) {
+    for (const row of toCategoryRows(transaction, context.categoryNames)) {
+      yield rowValues(row).map(csvCell).join(',') + '\r\n';
+    }
+  }
+}
+
+/**
+ * Formats a CSV cell. Text that a spreadsheet would run as a formula is
+ * prefixed with a quote, and cells with delimiters or quotes are quoted.
+ *
+ * @private
+ */
+function csvCell(value: string | number | Date): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number') return String(value);
+
+  let text = value ?? '';
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function* writeJson(
+  transactions: AsyncIterable<TransactionResponse>,
+  context: TransactionExportContext
+): AsyncGenerator<string> {
+  yield '[';
+  let first = true;
+
+  for await (const transaction of transactions) {
+    const item = {
+      ...transaction,
+      categoryName: context.categoryNames.get(transaction.categoryId) || 'Uncategorized',
+      splits: transaction.splits?.map(split => ({
+        ...split,
+        categoryName: context.categoryNames.get(split.categoryId) || 'Uncategorized',
+      })),
+    };
+    yield (first ? '\n' : ',\n') + JSON.stringify(item);
+    first = false;
+  }
+
+  yield first ? ']\n' : '\n]\n';
+}
+
+async function* writeOfx(
+  transactions: AsyncIterable<TransactionResponse>,
+  context: TransactionExportContext
+): AsyncGenerator<string> {
+  const now = ofxDate(new Date());
+
+  yield [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="211" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    `<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS><DTSERVER>${now}</DTSERVER><LANGUAGE>ENG</LANGUAGE>`,
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1><STMTTRNRS>',
+    '<TRNUID>0</TRNUID><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+    `<STMTRS><CURDEF>${context.homeCurrency}</CURDEF>`,
+    `<BANKACCTFROM><BANKID>PARRIT</BANKID><ACCTID>${xmlEscape(context.userId)}</ACCTID><ACCTTYPE>CHECKING</ACCTTYPE></BANKACCTFROM>`,
+    `<BANKTRANLIST><DTSTART>${ofxDate(context.startDate ?? new Date(0))}</DTSTART><DTEND>${ofxDate(context.endDate ?? new Date())}</DTEND>`,
+    '',
+  ].join('\n');
+
+  for await (const transaction of transactions) {
+    const date = new Date(transaction.dateTime);
+    // Money out is negative in OFX; transfers are treated as money out
+    const signed = transaction.kind === 'income' ? transaction.amount : -transaction.amount;
+    const trnType = { income: 'CREDIT', expense: 'DEBIT', transfer: 'XFER' }[transaction.kind];
+    const category = context.categoryNames.get(transaction.categoryId) || 'Uncategorized';
+    const memo = transaction.description ? `${transaction.description} - ${category}` : category;
+
+    let currency = '';
+    if (transaction.currency !== context.homeCurrency) {
+      const rate = await context.getConversionFactor(transaction.currency, context.homeCurrency, date);
+      currency = `<CURRENCY><CURRATE>${rate}</CURRATE><CURSYM>${transaction.currency}</CURSYM></CURRENCY>`;
+    }
+
+    yield [
+      '<STMTTRN>',
+      `<TRNTYPE>${trnType}</TRNTYPE>`,
+      `<DTPOSTED>${ofxDate(date)}</DTPOSTED>`,
+      `<TRNAMT>${signed.toFixed(2)}</TRNAMT>`,
+      `<FITID>${transaction.id}</FITID>`,
+      `<NAME>${xmlEscape(transaction.vendorName.slice(0, 32))}</NAME>`,
+      `<MEMO>${xmlEscape(memo.slice(0, 255))}</MEMO>`,
+      currency,
+      '</STMTTRN>\n',
+    ].join('');
+  }
+
+  yield '</BANKTRANLIST>\n</STMTRS></STMTTRNRS></BANKMSGSRSV1>\n</OFX>\n';
+}
+
+/**
+ * Formats a date as an OFX datetime in UTC (YYYYMMDDHHMMSS).
+ *
+ * @private
+ */
+function ofxDate(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+/**
+ * Streams a single-sheet workbook. Text is written as inline strings so the
+ * sheet can be produced row by row without a shared string table.
+ *
+ * @private
+ */
+function writeXlsx(
+  transactions: AsyncIterable<TransactionResponse>,
+  context: TransactionExportContext
+): AsyncIterable<Buffer> {
+  async function* sheet(): AsyncGenerator<string> {
+    yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+      + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+      + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+      + '<cols><col min="1" max="1" width="18" customWidth="1"/><col min="2" max="3" width="30" customWidth="1"/>'
+      + '<col min="4" max="8" width="14" customWidth="1"/><col min="9" max="9" width="26" customWidth="1"/></cols>'
+      + '<sheetData>';
+    yield xlsxRow(1, ROW_HEADERS, XLSX_STYLE.header);
+
+    let rowNumber = 1;
+    for await (const transaction of transactions) {
+      for (const row of toCategoryRows(transaction, context.categoryNames)) {
+        rowNumber++;
+        yield xlsxRow(rowNumber, rowValues(row));
+      }
+    }
+
+    yield '</sheetData></worksheet>';
+  }
+
+  return writeZip([
+    { name: '[Content_Types].xml', content: XLSX_CONTENT_TYPES },
+    { name: '_rels/.rels', content: XLSX_ROOT_RELS },
+    { name: 'xl/workbook.xml', content: XLSX_WORKBOOK },
+    { name: 'xl/_rels/workbook.xml.rels', content: XLSX_WORKBOOK_RELS },
+    { name: 'xl/styles.xml', content: XLSX_STYLES },
+    { name: 'xl/worksheets/sheet1.xml', content: sheet() },
+  ]);
+}
+
+// Style indexes into the cellXfs list of XLSX_STYLES
+const XLSX_STYLE = { header: 1, dateTime: 2, amount: 3 };
+
+// Days between the spreadsheet epoch (1899-12-30) and the Unix epoch
+const XLSX_EPOCH_OFFSET_DAYS = 25569;
+
+function xlsxRow(rowNumber: number, values: Array<string | number | Date>, style?: number): string {
+  const cells = values.map((value, index) => {
+    const ref = `${String.fromCharCode(65 + index)}${rowNumber}`;
+    if (value instanceof Date) {
+      const serial = value.getTime() / 86400000 + XLSX_EPOCH_OFFSET_DAYS;
+      return `<c r="${ref}" s="${XLSX_STYLE.dateTime}"><v>${serial}</v></c>`;
+    }
+    if (typeof value === 'number') {
+      return `<c r="${ref}" s="${XLSX_STYLE.amount}"><v>${value}</v></c>`;
+    }
+    const styleAttr = style ? ` s="${style}"` : '';
+    return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${xmlEscape(value ?? '')}</t></is></c>`;
+  });
+  return `<row r="${rowNumber}">${cells.join('')}</row>`;
+}
+
+const XLSX_CONTENT_TYPES = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+  + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+  + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+  + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+  + '</Types>';
+
+const XLSX_ROOT_RELS = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+  + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+  + '</Relationships>';
+
+const XLSX_WORKBOOK = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+  + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" '
+  + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+  + '<sheets><sheet name="Transactions" sheetId="1" r:id="rId1"/></sheets>'
+  + '</workbook>';
+
+const XLSX_WORKBOOK_RELS = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+  + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+  + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+  + '</Relationships>';
+
+const XLSX_STYLES = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+  + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+  + '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm"/></numFmts>'
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="4">'
+  + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+  + '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '</cellXfs>'
+  + '</styleSheet>';
+
+/**
+ * Escapes text for XML, dropping control characters XML can't carry.
+ *
+ * @private
+ */
+function xmlEscape(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+interface ZipEntry {
+  name: string;
+  content: string | AsyncIterable<string>;
+}
+
+/**
+ * Streams a ZIP archive of deflated entries.
+ * Sizes and checksums follow each entry in a data descriptor, so entry
+ * content can be produced while the archive is being written.
+ *
+ * @private
+ */
+async function* writeZip(entries: ZipEntry[]): AsyncGenerator<Buffer> {
+  const centralDirectory: Buffer[] = [];
+  const { time, date } = dosDateTime(new Date());
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    let crc = 0;
+    let size = 0;
+    let compressedSize = 0;
+
+    // Bit 3: sizes in data descriptor; bit 11: UTF-8 names
+    const flags = 0x0808;
+    const localHeader = Buffer.alloc(30);
+    localHeader.writeUInt32LE(0x04034b50, 0);
+    localHeader.writeUInt16LE(20, 4);
+    localHeader.writeUInt16LE(flags, 6);
+    localHeader.writeUInt16LE(8, 8);
+    localHeader.writeUInt16LE(time, 10);
+    localHeader.writeUInt16LE(date, 12);
+    localHeader.writeUInt16LE(name.length, 26);
+    yield Buffer.concat([localHeader, name]);
+
+    const source = async function* () {
+      const chunks = typeof entry.content === 'string' ? [entry.content] : entry.content;
+      for await (const chunk of chunks) {
+        const buffer = Buffer.from(chunk, 'utf8');
+        crc = zlib.crc32(buffer, crc);
+        size += buffer.length;
+        yield buffer;
+      }
+    };
+
+    for await (const compressed of Readable.from(source()).pipe(zlib.createDeflateRaw())) {
+      compressedSize += compressed.length;
+      yield compressed;
+    }
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(crc, 4);
+    descriptor.writeUInt32LE(compressedSize, 8);
+    descriptor.writeUInt32LE(size, 12);
+    yield descriptor;
+
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(0x02014b50, 0);
+    centralHeader.writeUInt16LE(20, 4);
+    centralHeader.writeUInt16LE(20, 6);
+    centralHeader.writeUInt16LE(flags, 8);
+    centralHeader.writeUInt16LE(8, 10);
+    centralHeader.writeUInt16LE(time, 12);
+    centralHeader.writeUInt16LE(date, 14);
+    centralHeader.writeUInt32LE(crc, 16);
+    centralHeader.writeUInt32LE(compressedSize, 20);
+    centralHeader.writeUInt32LE(size, 24);
+    centralHeader.writeUInt16LE(name.length, 28);
+    centralHeader.writeUInt32LE(offset, 42);
+    centralDirectory.push(centralHeader, name);
+
+    offset += localHeader.length + name.length + compressedSize + descriptor.length;
+  }
+
+  const directory = Buffer.concat(centralDirectory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  yield Buffer.concat([directory, end]);
+}
+
+function dosDateTime(value: Date): { time: number; date: number } {
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((value.getFullYear() - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+  };
+}
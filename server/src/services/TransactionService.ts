@@ -1,17 +1,38 @@
 import { TransactionRepository } from '../repositories/TransactionRepository';
 import { ReceiptService } from './ReceiptService';
 import { CategoryService } from './CategoryService';
+import { BudgetService } from './BudgetService';
+import { ExchangeRateService } from './ExchangeRateService';
+import { buildCategoryNameMap, createTransactionExport } from './TransactionExporter';
+import type { TransactionExport } from './TransactionExporter';
 import {
   TransactionValidationError,
   validateCreateTransactionRequest,
   toTransactionResponse,
-  updateTransactionSchema
+  updateTransactionSchema,
+  listTransactionsQuerySchema,
+  exportTransactionsQuerySchema,
+  encodeTransactionCursor,
+  decodeTransactionCursor,
+  splitsMatchAmount,
+  getPrimarySplitCategory,
+  getCategoryAllocations,
+  findParticipantsIssue,
+  assignParticipantShares,
+  isEvenSplit,
+  findParticipant
 } from '../models/Transaction';
 import type {
   Transaction,
   CreateTransactionRequest,
   UpdateTransactionRequest,
-  TransactionResponse
+  TransactionUpdate,
+  TransactionResponse,
+  TransactionPageResponse,
+  TransactionFilters,
+  TransactionKind,
+  ListTransactionsQuery,
+  ExportTransactionsQuery
 } from '../models/Transaction';
 import { z } from 'zod';
 
@@ -36,6 +57,8 @@ export class TransactionService {
   private transactionRepository: TransactionRepository;
   private receiptService: ReceiptService;
   private categoryService: CategoryService;
+  private budgetService: BudgetService;
+  private exchangeRateService: ExchangeRateService;
 
   constructor() {
     // Initialize repository for data access
@@ -43,6 +66,8 @@ export class TransactionService {
     this.transactionRepository = new TransactionRepository();
     this.receiptService = new ReceiptService();
     this.categoryService = new CategoryService();
+    this.budgetService = new BudgetService();
+    this.exchangeRateService = new ExchangeRateService();
   }
 
   /**
@@ -50,6 +75,10 @@ export class TransactionService {
      *
      * Business logic includes:
      * - Input validation and sanitization
+     * - Defaulting the kind (income/expense/transfer) from the category
+     * - Defaulting the currency to the user's home currency, and rejecting
+     *   currencies with no exchange rate to it
+     * - Recomputing remaining on the affected budgets
      * - Data transformation for response
      *
      * @param {any} transactionData - Raw transaction data from request
@@ -60,27 +89,35 @@ export class TransactionService {
       // Step 1: Validate and sanitize input data
       const validatedData = validateCreateTransactionRequest(transactionData);
 
-      // Step 2: Persist to database
-      const createdTransaction = await this.transactionRepository.createTransaction(validatedData);
+      // Step 2: Resolve the kind from the category when not given explicitly
+      const kind = validatedData.kind ?? await this.resolveCategoryKind(validatedData.userId, validatedData.categoryId);
 
-      // Step 3: Transform to response format
+      // Step 3: Amounts are in the user's home currency unless given explicitly
+      if (validatedData.currency) {
+        await this.checkCurrencies(validatedData.userId, [validatedData.currency]);
+      }
+      const currency = validatedData.currency ?? await this.exchangeRateService.getHomeCurrency(validatedData.userId);
+
+      // Step 4: Persist to database
+      const createdTransaction = await this.transactionRepository.createTransaction({ ...validatedData, kind, currency });
+
+      // Step 5: Keep budget remaining amounts in sync
+      await this.syncBudgets(createdTransaction);
+
+      // Step 6: Transform to response format
       return toTransactionResponse(createdTransaction);
     }
 
     /**
-       * Retrieves a transaction by ID.
+       * Retrieves a transaction by ID, scoped to its owner.
        *
+       * @param {string} userId - The owning user ID
        * @param {string} id - The transaction ID
-       * @returns {Promise<TransactionResponse | null>} Transaction or null if not found
+       * @returns {Promise<TransactionResponse | null>} Transaction or null if not found for the user
        * @throws {TransactionValidationError} If ID is invalid
        */
-      async getTransactionById(id: string): Promise<TransactionResponse | null> {
-        // Validate ID format
-        if (!id || typeof id !== 'string') {
-          throw new TransactionValidationError('Invalid transaction ID');
-        }
-
-        const transaction = await this.transactionRepository.findTransactionById(id);
+      async getTransactionById(userId: string, id: string): Promise<TransactionResponse | null> {
+        const transaction = await this.findOwned(userId, id);
 
         if (!transaction) {
           return null;
@@ -90,28 +127,160 @@ export class TransactionService {
       }
 
       /**
-         * Retrieves all transactions.
+         * Retrieves all transactions for a specific user.
          *
-         * @returns {Promise<TransactionResponse[]>} Array of all transactions
+         * @param {string} userId - The user ID
+         * @returns {Promise<TransactionResponse[]>} Array of user's transactions
          */
-        async getAllTransactions(): Promise<TransactionResponse[]> {
-          const transactions = await this.transactionRepository.findAllTransactions();
+        async getTransactionsByUserId(userId: string): Promise<TransactionResponse[]> {
+          if (!userId || typeof userId !== 'string') {
+            throw new TransactionValidationError('Invalid user ID');
+          }
+
+          const transactions = await this.transactionRepository.findByUserId(userId);
           return transactions.map(transaction => toTransactionResponse(transaction));
         }
 
         /**
-         * Retrieves all transactions for a specific user.
+         * Lists a user's transactions one page at a time.
+         *
+         * Supports filtering by date range, categories, payment type, vendor
+         * substring and amount range, plus sorting on dateTime, amount,
+         * vendorName or createdAt. The returned nextCursor is opaque and must be
+         * sent back unchanged (with the same filters and sort) to fetch the next page.
          *
          * @param {string} userId - The user ID
-         * @returns {Promise<TransactionResponse[]>} Array of user's transactions
+         * @param {any} queryParams - Raw query string parameters
+         * @returns {Promise<TransactionPageResponse>} A page of transactions
+         * @throws {TransactionValidationError} If the query or cursor is invalid
          */
-        async getTransactionsByUserId(userId: string): Promise<TransactionResponse[]> {
+        async listTransactions(userId: string, queryParams: any): Promise<TransactionPageResponse> {
           if (!userId || typeof userId !== 'string') {
             throw new TransactionValidationError('Invalid user ID');
           }
 
-          const transactions = await this.transactionRepository.findByUserId(userId);
-          return transactions.map(transaction => toTransactionResponse(transaction));
+          const query: ListTransactionsQuery = this.parseQuery(listTransactionsQuerySchema, queryParams);
+          const filters = this.toFilters(query);
+
+          const after = query.cursor ? decodeTransactionCursor(query.cursor, query.sortBy) ?? undefined : undefined;
+
+          const { transactions, hasMore } = await this.transactionRepository.findPageByUserId(userId, filters, {
+            limit: query.limit,
+            sortBy: query.sortBy,
+            sortOrder: query.sortOrder,
+            after,
+          });
+
+          const last = transactions[transactions.length - 1];
+
+          return {
+            items: transactions.map(transaction => toTransactionResponse(transaction)),
+            nextCursor: hasMore && last ? encodeTransactionCursor(last, query.sortBy) : null,
+            hasMore,
+          };
+        }
+
+        /**
+         * Streams all of a user's transactions matching the listing filters in
+         * CSV, JSON, OFX or XLSX.
+         *
+         * Takes the same filter and sort parameters as listTransactions, plus
+         * format. Category names are resolved, and split transactions become one
+         * row per split line in CSV and XLSX. Transactions are read from the
+         * database as the body is consumed.
+         *
+         * @param {string} userId - The user ID
+         * @param {any} queryParams - Raw query string parameters
+         * @returns {Promise<TransactionExport>} Content type, file name and streaming body
+         * @throws {TransactionValidationError} If the query is invalid
+         */
+        async exportTransactions(userId: string, queryParams: any): Promise<TransactionExport> {
+          if (!userId || typeof userId !== 'string') {
+            throw new TransactionValidationError('Invalid user ID');
+          }
+
+          const query: ExportTransactionsQuery = this.parseQuery(exportTransactionsQuerySchema, queryParams);
+          const filters = this.toFilters(query);
+
+          const [categories, homeCurrency] = await Promise.all([
+            this.categoryService.getCategoriesByUserId(userId),
+            this.exchangeRateService.getHomeCurrency(userId),
+          ]);
+
+          const source = this.transactionRepository.streamByUserId(userId, filters, {
+            sortBy: query.sortBy,
+            sortOrder: query.sortOrder,
+          });
+          const transactions = (async function* () {
+            for await (const transaction of source) {
+              yield toTransactionResponse(transaction);
+            }
+          })();
+
+          return createTransactionExport(query.format, transactions, {
+            userId,
+            categoryNames: buildCategoryNameMap(categories),
+            homeCurrency,
+            startDate: filters.startDate,
+            endDate: filters.endDate,
+            getConversionFactor: (from, to, date) => this.exchangeRateService.getConversionFactor(from, to, date),
+          });
+        }
+
+        /**
+         * Parses query string parameters with a schema, mapping Zod errors to
+         * TransactionValidationError.
+         *
+         * @private
+         */
+        private parseQuery<T extends z.ZodTypeAny>(schema: T, queryParams: any): z.infer<T> {
+          try {
+            return schema.parse(queryParams ?? {});
+          } catch (error) {
+            if (error instanceof z.ZodError) {
+              const message = error.issues[0]?.message || 'Validation failed';
+              throw new TransactionValidationError(
+                message,
+                error.issues[0]?.path[0]?.toString()
+              );
+            }
+            throw error;
+          }
+        }
+
+        /**
+         * Resolves parsed filter parameters to repository filters.
+         *
+         * @private
+         */
+        private toFilters(query: ListTransactionsQuery | ExportTransactionsQuery): TransactionFilters {
+          return {
+            startDate: query.startDate ? this.parseDateFilter(query.startDate, false) : undefined,
+            endDate: query.endDate ? this.parseDateFilter(query.endDate, true) : undefined,
+            categoryIds: query.categoryId,
+            paymentType: query.paymentType,
+            kind: query.kind,
+            vendor: query.vendor,
+            minAmount: query.minAmount,
+            maxAmount: query.maxAmount,
+          };
+        }
+
+        /**
+         * Converts a date filter to a Date.
+         * Date-only values cover the whole day (start or end of day).
+         *
+         * @private
+         */
+        private parseDateFilter(value: string, endOfDay: boolean): Date {
+          const dateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+          if (dateOnly) {
+            const [, year, month, day] = dateOnly.map(Number);
+            return endOfDay
+              ? new Date(year, month - 1, day, 23, 59, 59, 999)
+              : new Date(year, month - 1, day, 0, 0, 0, 0);
+          }
+          return new Date(value);
         }
 
         /**
@@ -148,27 +317,24 @@ export class TransactionService {
        * Updates an existing transaction with validation.
        *
        * Supports partial updates - only provided fields are updated.
-       * If transaction has a linked receipt, syncs changes to Firestore.
+       * If transaction has a linked receipt, syncs changes to the receipt.
+       * Budgets for both the previous and the new month/category are recomputed.
        *
+       * @param {string} userId - The owning user ID
        * @param {string} id - The transaction ID to update
        * @param {any} updateData - Partial transaction data to update
-       * @returns {Promise<TransactionResponse | null>} Updated transaction or null
+       * @returns {Promise<TransactionResponse | null>} Updated transaction or null if not found for the user
        * @throws {TransactionValidationError} If validation fails
        */
-      async updateTransaction(id: string, updateData: any): Promise<TransactionResponse | null> {
-        // Validate ID
-        if (!id || typeof id !== 'string') {
-          throw new TransactionValidationError('Invalid transaction ID');
-        }
-
-        // Check if transaction exists
-        const existingTransaction = await this.transactionRepository.findTransactionById(id);
+      async updateTransaction(userId: string, id: string, updateData: any): Promise<TransactionResponse | null> {
+        // Check if transaction exists and belongs to the user
+        const existingTransaction = await this.findOwned(userId, id);
         if (!existingTransaction) {
           return null;
         }
 
         // Validate update data using Zod schema
-        let validatedData: Partial<UpdateTransactionRequest>;
+        let validatedData: TransactionUpdate;
         try {
           validatedData = updateTransactionSchema.parse(updateData);
         } catch (error) {
@@ -182,6 +348,55 @@ export class TransactionService {
           throw error;
         }
 
+        if (validatedData.currency) {
+          await this.checkCurrencies(userId, [validatedData.currency]);
+        }
+
+        // Split lines must still add up when either the split or the amount changes
+        const splits = validatedData.splits === null
+          ? undefined
+          : validatedData.splits ?? existingTransaction.splits;
+        if (splits && splits.length > 0) {
+          if (!splitsMatchAmount(splits, validatedData.amount ?? existingTransaction.amount)) {
+            throw new TransactionValidationError('Split amounts must add up to the transaction amount', 'splits');
+          }
+          if (validatedData.splits && !validatedData.categoryId) {
+            validatedData.categoryId = getPrimarySplitCategory(validatedData.splits);
+          }
+        }
+
+        // Participants' shares must still fit when the participants, payer or amount change
+        if (validatedData.participants === null) {
+          if (existingTransaction.paidBy) validatedData.paidBy = null;
+          if (existingTransaction.splitEvenly) validatedData.splitEvenly = null;
+        }
+        const amount = validatedData.amount ?? existingTransaction.amount;
+        const participants = validatedData.participants === null
+          ? undefined
+          : validatedData.participants ?? existingTransaction.participants;
+        const paidBy = validatedData.paidBy === null
+          ? undefined
+          : validatedData.paidBy ?? existingTransaction.paidBy;
+        const participantsIssue = findParticipantsIssue(participants, amount, paidBy);
+        if (participantsIssue) {
+          throw new TransactionValidationError(participantsIssue.message, participantsIssue.field);
+        }
+        if (validatedData.participants) {
+          const splitEvenly = isEvenSplit(validatedData.participants);
+          validatedData.participants = assignParticipantShares(validatedData.participants, amount);
+          if (splitEvenly) {
+            validatedData.splitEvenly = true;
+          } else if (existingTransaction.splitEvenly) {
+            validatedData.splitEvenly = null;
+          }
+        } else if (validatedData.amount !== undefined && participants && existingTransaction.splitEvenly) {
+          // Even shares are divided again so they don't keep the old amount's
+          validatedData.participants = assignParticipantShares(participants.map(({ name }) => ({ name })), amount);
+        }
+        if (validatedData.paidBy && participants) {
+          validatedData.paidBy = findParticipant(participants, validatedData.paidBy)?.name;
+        }
+
         // Update transaction in database
         const updatedTransaction = await this.transactionRepository.updateTransaction(id, validatedData);
 
@@ -194,11 +409,14 @@ export class TransactionService {
           await this.syncTransactionToReceipt(updatedTransaction, validatedData);
         }
 
+        // Recompute budgets the transaction moved out of and into
+        await this.syncBudgets(existingTransaction, updatedTransaction);
+
         return toTransactionResponse(updatedTransaction);
       }
 
       /**
-       * Syncs transaction changes to linked receipt in Firestore.
+       * Syncs transaction changes to linked receipt.
        * Maps transaction fields to receipt fields for consistency.
        *
        * @param {Transaction} transaction - Updated transaction
@@ -231,8 +449,9 @@ export class TransactionService {
 
           // Resolve category name if categoryId was updated
           if (updateData.categoryId !== undefined) {
+            receiptUpdateData.categoryId = updateData.categoryId;
             try {
-              const category = await this.categoryService.getCategoryById(updateData.categoryId);
+              const category = await this.categoryService.getCategoryById(transaction.userId, updateData.categoryId);
               if (category) {
                 receiptUpdateData.category = category.name;
               }
@@ -245,7 +464,7 @@ export class TransactionService {
           // Only update receipt if there are fields to update
           if (Object.keys(receiptUpdateData).length > 0) {
             if (!transaction.receiptId) return;
-            await this.receiptService.updateReceipt(transaction.receiptId, receiptUpdateData);
+            await this.receiptService.updateReceipt(transaction.userId, transaction.receiptId, receiptUpdateData);
             console.log(`✅ Synced transaction ${transaction.id} to receipt ${transaction.receiptId}`);
           }
         } catch (error) {
@@ -256,29 +475,26 @@ export class TransactionService {
 
     /**
        * Deletes a transaction by ID.
-       * If the transaction has a linked receipt, also deletes the receipt from Firestore and Firebase Storage.
+       * If the transaction has a linked receipt, also deletes the receipt and its image.
        *
+       * @param {string} userId - The owning user ID
        * @param {string} id - The transaction ID to delete
-       * @returns {Promise<boolean>} True if deleted, false if not found
+       * @returns {Promise<boolean>} True if deleted, false if not found for the user
        * @throws {TransactionValidationError} If ID is invalid
        */
-      async deleteTransaction(id: string): Promise<boolean> {
-        if (!id || typeof id !== 'string') {
-          throw new TransactionValidationError('Invalid transaction ID');
-        }
-
-        // Get the transaction to check if it has a linked receipt
-        const transaction = await this.transactionRepository.findTransactionById(id);
+      async deleteTransaction(userId: string, id: string): Promise<boolean> {
+        // Get the transaction to check ownership and whether it has a linked receipt
+        const transaction = await this.findOwned(userId, id);
 
         if (!transaction) {
           return false;
         }
 
-        // If transaction has a linked receipt, delete it from Firestore and Storage
+        // If transaction has a linked receipt, delete it and its image
         if (transaction.receiptId) {
           try {
             console.log(`🗑️ Deleting linked receipt ${transaction.receiptId} for transaction ${id}`);
-            await this.receiptService.deleteReceipt(transaction.receiptId);
+            await this.receiptService.deleteReceipt(userId, transaction.receiptId);
             console.log(`✅ Successfully deleted linked receipt ${transaction.receiptId}`);
           } catch (error) {
             console.error(`Failed to delete linked receipt ${transaction.receiptId}:`, error);
@@ -287,7 +503,176 @@ export class TransactionService {
         }
 
         // Delete the transaction from MongoDB
-        return await this.transactionRepository.deleteTransaction(id);
+        const deleted = await this.transactionRepository.deleteTransaction(id);
+
+        if (deleted) {
+          await this.syncBudgets(transaction);
+        }
+
+        return deleted;
+      }
+
+      /**
+       * Creates several transactions in one batch.
+       *
+       * Every item is validated before anything is written, so one invalid item
+       * rejects the whole batch. Kinds and currencies are defaulted and checked
+       * the same way as in createTransaction, and each affected budget is synced
+       * once.
+       *
+       * @param {any[]} transactionsData - Raw transaction data items
+       * @returns {Promise<TransactionResponse[]>} Created transactions, in input order
+       * @throws {TransactionValidationError} If any item fails validation
+       */
+      async createTransactionBatch(transactionsData: any[]): Promise<TransactionResponse[]> {
+        if (!Array.isArray(transactionsData) || transactionsData.length === 0) {
+          throw new TransactionValidationError('At least one transaction is required');
+        }
+
+        // Step 1: Validate every item up front
+        const validatedItems = transactionsData.map(item => validateCreateTransactionRequest(item));
+
+        // Currencies given explicitly need an exchange rate to the user's home currency
+        const currenciesByUser = new Map<string, string[]>();
+        for (const item of validatedItems) {
+          if (item.currency) {
+            currenciesByUser.set(item.userId, [...currenciesByUser.get(item.userId) ?? [], item.currency]);
+          }
+        }
+        for (const [userId, itemCurrencies] of currenciesByUser) {
+          await this.checkCurrencies(userId, itemCurrencies);
+        }
+
+        // Step 2: Resolve kinds and currencies, looking each category and user up once
+        const kinds = new Map<string, Promise<TransactionKind>>();
+        const currencies = new Map<string, Promise<string>>();
+        const items: CreateTransactionRequest[] = [];
+        for (const item of validatedItems) {
+          if (!item.kind && !kinds.has(item.categoryId)) {
+            kinds.set(item.categoryId, this.resolveCategoryKind(item.userId, item.categoryId));
+          }
+          if (!item.currency && !currencies.has(item.userId)) {
+            currencies.set(item.userId, this.exchangeRateService.getHomeCurrency(item.userId));
+          }
+          items.push({
+            ...item,
+            kind: item.kind ?? await kinds.get(item.categoryId),
+            currency: item.currency ?? await currencies.get(item.userId)
+          });
+        }
+
+        // Step 3: Persist in a single insert
+        const createdTransactions = await this.transactionRepository.createTransactions(items);
+
+        // Step 4: Keep budget remaining amounts in sync
+        await this.syncBudgets(...createdTransactions);
+
+        return createdTransactions.map(transaction => toTransactionResponse(transaction));
+      }
+
+      /**
+       * Deletes every transaction created by a statement import.
+       *
+       * @param {string} importId - The statement import ID
+       * @returns {Promise<number>} Number of transactions deleted
+       * @throws {TransactionValidationError} If the import ID is invalid
+       */
+      async deleteTransactionsByImportId(importId: string): Promise<number> {
+        if (!importId || typeof importId !== 'string') {
+          throw new TransactionValidationError('Invalid import ID');
+        }
+
+        const transactions = await this.transactionRepository.findByImportId(importId);
+        if (transactions.length === 0) {
+          return 0;
+        }
+
+        const deletedCount = await this.transactionRepository.deleteByImportId(importId);
+        await this.syncBudgets(...transactions);
+
+        return deletedCount;
+      }
+
+      /**
+       * Recomputes remaining on the budgets affected by the given transactions.
+       * Each distinct user/month/category combination is synced once.
+       *
+       * @param {...Transaction} transactions - Transactions whose budgets changed
+       * @private
+       */
+      private async syncBudgets(...transactions: Transaction[]): Promise<void> {
+        const seen = new Set<string>();
+
+        for (const transaction of transactions) {
+          const date = new Date(transaction.dateTime);
+
+          // A split transaction affects the budget of every category it has a line in
+          for (const { categoryId } of getCategoryAllocations(transaction)) {
+            const key = `${transaction.userId}-${date.getFullYear()}-${date.getMonth()}-${categoryId}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+
+            try {
+              await this.budgetService.syncRemainingForMonth(transaction.userId, date, categoryId);
+            } catch (error) {
+              console.error('Failed to sync budget remaining:', error);
+              // Don't throw - budget sync failure shouldn't fail the transaction write
+            }
+          }
+        }
+      }
+
+      /**
+       * Looks up the kind of a category, falling back to expense when the
+       * category can't be found, belongs to another user or can't be read.
+       *
+       * @param {string} userId - The transaction's user ID
+       * @param {string} categoryId - The category ID
+       * @returns {Promise<TransactionKind>} The category's kind
+       * @private
+       */
+      private async resolveCategoryKind(userId: string, categoryId: string): Promise<TransactionKind> {
+        try {
+          const category = await this.categoryService.getCategoryById(userId, categoryId);
+          return category?.kind ?? 'expense';
+        } catch (error) {
+          console.error('Failed to resolve category kind:', error);
+          // Don't throw - an unknown category is treated as an expense
+          return 'expense';
+        }
+      }
+
+      /**
+       * Rejects currencies that can't be converted into the user's home
+       * currency, whose amounts reports would otherwise count at face value.
+       *
+       * @throws {TransactionValidationError} If no exchange rate is known for a currency
+       * @private
+       */
+      private async checkCurrencies(userId: string, currencies: string[]): Promise<void> {
+        const homeCurrency = await this.exchangeRateService.getHomeCurrency(userId);
+        const unconvertible = await this.exchangeRateService.findUnconvertibleCurrency(currencies, homeCurrency);
+        if (unconvertible) {
+          throw new TransactionValidationError(`No exchange rate is known between ${unconvertible} and ${homeCurrency}`, 'currency');
+        }
+      }
+
+      /**
+       * Loads a transaction and checks that it belongs to the given user.
+       *
+       * @private
+       */
+      private async findOwned(userId: string, id: string): Promise<Transaction | null> {
+        if (!id || typeof id !== 'string') {
+          throw new TransactionValidationError('Invalid transaction ID');
+        }
+
+        const transaction = await this.transactionRepository.findTransactionById(id);
+        if (!transaction || transaction.userId !== userId) {
+          return null;
+        }
+
+        return transaction;
       }
 
       /**
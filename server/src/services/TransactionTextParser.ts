@@ -0,0 +1,357 @@
+/**
+ * Transaction text parser
+ * Reads a transaction out of a spoken or typed sentence, e.g.
+ * "twelve dollars at Starbucks this morning on my visa"
+ */
+import type { DraftField, TransactionDraft } from '../models/TransactionDraft';
+import { resolveDatePhrase } from './DatePhraseResolver';
+import type { DateResolveOptions, TimeOfDay } from './DatePhraseResolver';
+
+// Spoken names and symbols for the supported currencies
+const MAJOR_UNITS = 'dollars|dollar|bucks|usd|euros|euro|eur|pounds|pound|quid|gbp|yen|jpy';
+const MINOR_UNITS = 'cents?|pence';
+const SYMBOLS = '[$€£¥]';
+
+const CURRENCY_PATTERNS: Array<[RegExp, string]> = [
+  [/€|\b(?:euros?|eur)\b/i, 'EUR'],
+  [/£|\b(?:pounds?|quid|gbp|pence)\b/i, 'GBP'],
+  [/¥|\b(?:yen|jpy)\b/i, 'JPY'],
+  [/\$|\b(?:dollars?|bucks|usd)\b/i, 'USD'],
+];
+
+const SMALL: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+};
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+// A run of number words such as "one hundred and twenty five"; longest words first so "seventeen" beats "seven"
+const NUMBER_WORD = `(?:${[...Object.keys(SMALL), ...Object.keys(TENS), 'hundred', 'thousand']
+  .sort((a, b) => b.length - a.length)
+  .join('|')})`;
+const NUMBER_WORDS = `${NUMBER_WORD}(?:[\\s-]+(?:and[\\s-]+)?${NUMBER_WORD})*`;
+
+// Checked in order; the first that matches gives the payment type
+const PAYMENT_TYPES: Array<[RegExp, string, number]> = [
+  [/\bvisa\b/, 'Visa', 0.9],
+  [/\b(?:mastercard|master card|master-card)\b/, 'Mastercard', 0.9],
+  [/\b(?:amex|american express)\b/, 'Amex', 0.9],
+  [/\bcredit card\b/, 'Credit Card', 0.9],
+  [/\bdebit card\b/, 'Debit Card', 0.9],
+  [/\bcash\b/, 'Cash', 0.9],
+  [/\b(?:apple pay|applepay)\b/, 'Apple Pay', 0.9],
+  [/\b(?:google pay|googlepay|gpay)\b/, 'Google Pay', 0.9],
+  // A bare "credit" or "debit" could also mean a refund or a bank entry
+  [/\bcredit\b/, 'Credit Card', 0.6],
+  [/\bdebit\b/, 'Debit Card', 0.6],
+];
+
+// "split with Sam", "split it evenly with Sam and Alex"; names run until punctuation or a date/payment phrase
+const SPLIT_PHRASE = /\bsplit(?:\s+it)?(?:\s+evenly)?\s+with\s+(.+?)(?=[.!?;]|\s+(?:on|using|by|paid|yesterday|today|tomorrow|this)\b|$)/i;
+
+interface AmountMatch {
+  value: number;
+  confidence: number;
+  match: string;
+}
+
+const NOT_FOUND: DraftField<never> = { value: null, confidence: 0 };
+
+function capitalize(s: string): string {
+  return String(s || '').replace(/\b\w/g, (m) => m.toUpperCase()).trim();
+}
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Turns number words into a number, e.g. "one hundred and twenty five" -> 125.
+ *
+ * @param words - Number words, separated by spaces or hyphens
+ * @returns The number, or null when a word isn't a number word
+ */
+export function wordsToNumber(words: string): number | null {
+  words = words.toLowerCase().replace(/[^a-z\s-]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!words) return null;
+  const parts = words.split(/ |-/).filter(part => part && part !== 'and');
+  if (parts.length === 0) return null;
+  let total = 0;
+  let current = 0;
+
+  for (const part of parts) {
+    if (SMALL[part] !== undefined) {
+      current += SMALL[part];
+    } else if (TENS[part] !== undefined) {
+      current += TENS[part];
+    } else if (part === 'hundred') {
+      if (current === 0) current = 1;
+      current *= 100;
+      total += current;
+      current = 0;
+    } else if (part === 'thousand') {
+      if (current === 0) current = 1;
+      current *= 1000;
+      total += current;
+      current = 0;
+    } else {
+      return null;
+    }
+  }
+  return total + current;
+}
+
+/**
+ * Finds the spoken or written amount and how it was said. Amounts with a
+ * symbol or currency are trusted most; shorthand like "11k" the least.
+ */
+function matchAmount(text: string): AmountMatch | null {
+  const s = String(text).replace(/(\d),(\d)/g, '$1$2');
+
+  // numeric with k/m suffix like "11k", "1.3k", "2M"
+  const suffixNum = s.match(/([0-9]+(?:\.[0-9]+)?)\s*([kKmM])\b/);
+  if (suffixNum) {
+    const n = parseFloat(suffixNum[1]);
+    const multiplier = suffixNum[2].toLowerCase() === 'k' ? 1000 : 1000000;
+    return { value: n * multiplier, confidence: 0.7, match: suffixNum[0] };
+  }
+
+  // word number with k/m like "eleven k dollars"
+  const wordSuffix = s.match(new RegExp(`\\b(${NUMBER_WORDS})\\s*([km])\\b`, 'i'));
+  if (wordSuffix) {
+    const n = wordsToNumber(wordSuffix[1]);
+    if (n !== null) {
+      const multiplier = wordSuffix[2].toLowerCase() === 'k' ? 1000 : 1000000;
+      return { value: n * multiplier, confidence: 0.6, match: wordSuffix[0] };
+    }
+  }
+
+  // numeric + "hundred" or "thousand" e.g. "13 hundred", "11 thousand"
+  const numberMultiplier = s.match(/([0-9]+(?:\.[0-9]+)?)\s*(hundred|thousand)\b/i);
+  if (numberMultiplier) {
+    const base = parseFloat(numberMultiplier[1]);
+    const multiplier = numberMultiplier[2].toLowerCase() === 'hundred' ? 100 : 1000;
+    return { value: base * multiplier, confidence: 0.8, match: numberMultiplier[0] };
+  }
+
+  const symbolWithCents = s.match(new RegExp(`${SYMBOLS}\\s*([0-9]+(?:\\.[0-9]{1,2})?)(?:\\s*(?:and|,)\\s*([0-9]+(?:\\.[0-9]{1,2})?)\\s*(?:${MINOR_UNITS}))?`, 'i'));
+  if (symbolWithCents) {
+    const major = parseFloat(symbolWithCents[1]);
+    const centsPart = symbolWithCents[2];
+    let value = major;
+    if (centsPart !== undefined) {
+      value += centsPart.includes('.') ? parseFloat(centsPart) : (parseInt(centsPart, 10) || 0) / 100;
+    }
+    return { value: roundCents(value), confidence: 0.95, match: symbolWithCents[0] };
+  }
+
+  // numeric followed by a currency name or symbol, e.g. "20 euros", "5 pounds 50 pence", "20€"
+  const numericWords = s.match(new RegExp(`([0-9]+(?:\\.[0-9]{1,2})?)\\s*(?:(?:${MAJOR_UNITS})\\b|${SYMBOLS})(?:\\s*(?:and|,)\\s*([0-9]+)\\s*(?:${MINOR_UNITS}))?`, 'i'));
+  if (numericWords) {
+    const cents = numericWords[2] !== undefined ? (parseInt(numericWords[2], 10) || 0) / 100 : 0;
+    return { value: roundCents(parseFloat(numericWords[1]) + cents), confidence: 0.95, match: numericWords[0] };
+  }
+
+  // "twenty dollars 50" or "twenty dollars fifty", checked before plain spoken amounts which would stop at "dollars"
+  const mixed = s.match(new RegExp(`\\b(${NUMBER_WORDS})\\s+(?:${MAJOR_UNITS})\\s+([0-9]{1,2}\\b|${NUMBER_WORDS}\\b)`, 'i'));
+  if (mixed) {
+    const major = wordsToNumber(mixed[1]);
+    const tail = /^[0-9]+$/.test(mixed[2]) ? parseInt(mixed[2], 10) : wordsToNumber(mixed[2]);
+    if (major !== null) {
+      const cents = tail !== null && tail < 100 ? tail : 0;
+      return { value: roundCents(major + cents / 100), confidence: 0.7, match: mixed[0] };
+    }
+  }
+
+  // spoken amounts, e.g. "twenty five dollars and thirty cents"
+  const wordsMatch = s.match(new RegExp(`\\b(${NUMBER_WORDS})\\s+(?:${MAJOR_UNITS})\\b(?:\\s*(?:and|,)\\s*(${NUMBER_WORDS})\\s+(?:${MINOR_UNITS})\\b)?`, 'i'));
+  if (wordsMatch) {
+    const major = wordsToNumber(wordsMatch[1]);
+    const cents = wordsMatch[2] ? wordsToNumber(wordsMatch[2]) ?? 0 : 0;
+    if (major !== null) {
+      return { value: roundCents(major + cents / 100), confidence: 0.85, match: wordsMatch[0] };
+    }
+  }
+
+  const centsOnly = s.match(new RegExp(`\\b(${NUMBER_WORDS})\\s+(?:${MINOR_UNITS})\\b`, 'i'));
+  if (centsOnly) {
+    const cents = wordsToNumber(centsOnly[1]);
+    if (cents !== null) {
+      return { value: roundCents(cents / 100), confidence: 0.7, match: centsOnly[0] };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Extracts a money amount from speech-to-text output, in whichever currency was spoken.
+ * Use extractCurrency to find out which currency that is.
+ *
+ * @param text - Transcribed or typed text
+ * @returns The amount, or null when none is found
+ */
+export function extractAmount(text: string): number | null {
+  if (!text) return null;
+  return matchAmount(text)?.value ?? null;
+}
+
+/**
+ * Detects which currency an utterance mentions, by name, code or symbol.
+ * When several are mentioned, the first one wins.
+ *
+ * @param text - Transcribed or typed text
+ * @returns An ISO 4217 code (USD, EUR, GBP or JPY), or null when no currency is mentioned
+ */
+export function extractCurrency(text: string): string | null {
+  if (!text) return null;
+  let found: { index: number; code: string } | null = null;
+
+  for (const [pattern, code] of CURRENCY_PATTERNS) {
+    const match = String(text).match(pattern);
+    if (match && match.index !== undefined && (!found || match.index < found.index)) {
+      found = { index: match.index, code };
+    }
+  }
+
+  return found ? found.code : null;
+}
+
+/**
+ * Detects the payment method mentioned, e.g. "on my visa" -> Visa.
+ *
+ * @param text - Transcribed or typed text
+ * @returns The payment type, or null when none is mentioned
+ */
+export function parsePaymentType(text: string): string | null {
+  return matchPaymentType(text)?.[1] ?? null;
+}
+
+function matchPaymentType(text: string): [RegExp, string, number] | null {
+  if (!text) return null;
+  const t = text.toLowerCase();
+  return PAYMENT_TYPES.find(([pattern]) => pattern.test(t)) ?? null;
+}
+
+/**
+ * Finds the names of people a cost is split with, e.g. "split with Sam and Alex".
+ *
+ * @param text - Transcribed or typed text
+ * @returns Capitalized, de-duplicated names; empty when the cost isn't split
+ */
+export function parseSplitParticipants(text: string): string[] {
+  if (!text) return [];
+  const m = text.match(SPLIT_PHRASE);
+  if (!m) return [];
+  const names = m[1]
+    .split(/\s*(?:,|&|\band\b)\s*/i)
+    .map((name) => capitalize(name))
+    .filter((name) => name && !/^(me|myself)$/i.test(name));
+  return Array.from(new Set(names));
+}
+
+/**
+ * Reads the vendor from "at ..." or "from ...", stopping before time
+ * phrases, filler such as "for some food" and payment methods.
+ *
+ * @param text - Transcribed or typed text, ideally with the amount already removed
+ * @returns The vendor, or null when none is named
+ */
+export function extractVendor(text: string): string | null {
+  if (!text) return null;
+  const atMatch = text
+    .replace(SPLIT_PHRASE, '')
+    .match(/\b(?:at|from)\s+([\w&.'\- ]+?)(?=(?:\s+(?:this|today|yesterday|tomorrow|on|in|at|for)\b|[.,]|$))/i);
+  if (!atMatch) return null;
+
+  let vendor = atMatch[1].trim().replace(/[.,]$/, '');
+  vendor = vendor.replace(/\b(this|today|yesterday|tomorrow|this morning|this evening|this afternoon)\b/gi, '').trim();
+  vendor = vendor.replace(/\bfor\s+(?:some\s+)?(?:food|coffee|lunch|dinner|breakfast|snack|a meal|takeout|some)\b/gi, '').trim();
+  vendor = vendor.replace(/\b(?:using|via|with|on)\s+(?:my\s+)?(?:credit card|debit card|visa|mastercard|amex|american express|apple pay|google pay|gpay|card)\b/gi, '').trim();
+  vendor = vendor.replace(/\b(?:using|via|with|on)\b.*$/i, '').trim();
+  vendor = vendor.replace(/\bfor\b.*$/i, '').trim();
+  vendor = vendor.replace(/\s+/g, ' ');
+  return vendor || null;
+}
+
+/**
+ * Builds a short description from what's left after removing the vendor,
+ * amount, payment method and filler words, e.g. "Morning Coffee".
+ *
+ * @param text - Transcribed or typed text
+ * @param vendor - Vendor already read from the text, removed from the description
+ * @param timeOfDay - Part of the day already read from the text, when its words were removed
+ * @returns A short description; empty only for empty text
+ */
+export function extractShortDescription(text: string, vendor: string | null, timeOfDay?: TimeOfDay): string {
+  if (!text) return '';
+  let s = String(text).replace(SPLIT_PHRASE, '');
+  if (vendor) {
+    s = s.replace(new RegExp('(?:at|from)\\s+' + escapeRegex(vendor), 'i'), '');
+  }
+  const amount = matchAmount(s);
+  if (amount) s = s.replace(amount.match, '');
+  s = s.replace(/\b(visa|mastercard|master card|amex|american express|credit card|debit card|debit|cash|apple pay|google pay|gpay)\b/gi, '');
+  s = s.replace(/\b(i\s+(spent|bought|paid|purchased)|spent|bought|paid|purchased|for|cost|on|at)\b/gi, '');
+  // Days go in dateTime; a time of day still says something about the purchase ("Morning Coffee")
+  s = s.replace(/\b(today|yesterday|tomorrow)\b/gi, '');
+  const timeMatch = s.match(/\bthis\s+(morning|afternoon|evening|night)\b/i);
+  let timeWord: string | null = timeOfDay ?? null;
+  if (timeMatch) {
+    timeWord = timeMatch[1].toLowerCase();
+    s = s.replace(timeMatch[0], '');
+  }
+  s = s.replace(/\b(a|an|the|my|some)\b/gi, ' ');
+  s = s.replace(/[.,!?]/g, ' ').replace(/\s+/g, ' ').trim();
+  const parts = s.split(' ').filter(Boolean);
+  let noun = parts.length ? parts[parts.length - 1] : '';
+  if (/^cup$/i.test(noun) && parts.length >= 2) noun = parts[parts.length - 2];
+  const desc = capitalize(timeWord ? `${timeWord} ${noun}` : noun || s.slice(0, 30));
+  return desc || capitalize(text.slice(0, 30));
+}
+
+/**
+ * Reads a transaction draft out of a sentence, with a confidence per field.
+ * Fields that weren't mentioned come back with a null value and zero confidence.
+ *
+ * @param text - Transcribed or typed text
+ * @param options - The moment relative dates are resolved against and the user's time zone
+ * @returns The draft
+ */
+export function parseTransactionText(text: string, options: DateResolveOptions = {}): TransactionDraft {
+  const amount = matchAmount(text);
+  const withoutAmount = amount ? text.replace(amount.match, ' ') : text;
+  const dateTime = resolveDatePhrase(withoutAmount, options);
+  // Read the vendor and description without the amount and date, so
+  // "at Olive Garden eighty dollars last Friday" stops at the name
+  const remainder = (dateTime?.phrases ?? []).reduce((rest, phrase) => rest.replace(phrase, ' '), withoutAmount);
+  const vendorName = extractVendor(remainder);
+  const currency = extractCurrency(text);
+  const paymentType = matchPaymentType(text);
+  // "Morning Coffee" reads well, "Night Pizza" doesn't
+  const timeOfDay = dateTime?.timeOfDay === 'night' ? undefined : dateTime?.timeOfDay;
+  const description = extractShortDescription(remainder, vendorName, timeOfDay);
+  const participants = parseSplitParticipants(remainder);
+
+  return {
+    text,
+    vendorName: vendorName
+      // Long vendor names usually swallowed more of the sentence than the name
+      ? { value: vendorName, confidence: vendorName.split(' ').length > 4 ? 0.5 : 0.8 }
+      : NOT_FOUND,
+    amount: amount ? { value: amount.value, confidence: amount.confidence } : NOT_FOUND,
+    currency: currency ? { value: currency, confidence: 0.9 } : NOT_FOUND,
+    paymentType: paymentType ? { value: paymentType[1], confidence: paymentType[2] } : NOT_FOUND,
+    dateTime: dateTime ? { value: dateTime.value, confidence: dateTime.confidence } : NOT_FOUND,
+    // The description is always a best guess
+    description: description ? { value: description, confidence: 0.5 } : NOT_FOUND,
+    participants: participants.length > 0 ? { value: participants, confidence: 0.8 } : NOT_FOUND,
+  };
+}
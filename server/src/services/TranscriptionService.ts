@@ -0,0 +1,54 @@
+import { createSpeechToTextProvider } from './SpeechToTextProviders';
+import type { SpeechToTextProvider } from './SpeechToTextProviders';
+import { TranscriptionValidationError } from '../models/Transcription';
+import type { Transcription, TranscriptionAudio } from '../models/Transcription';
+
+/**
+ * Service class for turning recordings into text.
+ *
+ * Hands the audio to the configured speech-to-text provider and tidies the
+ * result, so callers see the same shape whichever provider answered.
+ */
+export class TranscriptionService {
+  private provider: SpeechToTextProvider | null;
+
+  constructor(provider: SpeechToTextProvider | null = createSpeechToTextProvider()) {
+    this.provider = provider;
+  }
+
+  /**
+   * Whether a speech-to-text provider is configured.
+   *
+   * @returns {boolean} False when recordings can't be transcribed
+   */
+  isAvailable(): boolean {
+    return this.provider !== null;
+  }
+
+  /**
+   * Transcribes a recording.
+   *
+   * @param {TranscriptionAudio} audio - The uploaded recording
+   * @returns {Promise<Transcription>} Text with word timings in milliseconds, ordered by start
+   * @throws {TranscriptionValidationError} If the recording is empty
+   * @throws {Error} If no provider is configured or the provider fails
+   */
+  async transcribe(audio: TranscriptionAudio): Promise<Transcription> {
+    if (!this.provider) {
+      throw new Error('No speech-to-text provider is configured');
+    }
+    if (!audio.data || audio.data.length === 0) {
+      throw new TranscriptionValidationError('Recording is empty', 'file');
+    }
+
+    const transcription = await this.provider.transcribe(audio);
+
+    return {
+      text: transcription.text.trim(),
+      words: transcription.words
+        .filter((word) => word.text)
+        .sort((a, b) => a.start - b.start),
+      provider: transcription.provider,
+    };
+  }
+}
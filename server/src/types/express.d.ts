@@ -6,6 +6,7 @@
  */
 
 import { Request } from 'express';
+import type { UserRole } from '../models/Admin';
 
 /**
  * JWT Payload structure from Firebase ID tokens
@@ -16,6 +17,8 @@ export interface JWTPayload {
   email?: string;           // User's email address
   email_verified?: boolean; // Whether email is verified
   userId?: string;          // Custom claim: MongoDB profile ID (set after profile creation)
+  roles?: UserRole[];       // Custom claim: roles granting access beyond the user's own data
+  admin?: boolean;          // Legacy custom claim, treated as the admin role
   name?: string;            // User's display name
   picture?: string;         // User's profile picture URL
   iss?: string;             // Issuer
@@ -78,6 +78,8 @@ export const mockTokens = {
 export const firebaseErrors = {
   INVALID_TOKEN: 'auth/invalid-id-token',
   EXPIRED_TOKEN: 'auth/id-token-expired',
+  REVOKED_TOKEN: 'auth/id-token-revoked',
+  USER_DISABLED: 'auth/user-disabled',
   ARGUMENT_ERROR: 'auth/argument-error',
   USER_NOT_FOUND: 'auth/user-not-found',
 };
@@ -32,7 +32,7 @@ export function createTestBudget(userId: string, overrides?: Partial<any>) {
   return {
     id: randomUUID(),
     userId,
-    month: 'January',
+    month: 1,
     year: 2025,
     amount: 5000,
     remaining: 5000,
@@ -77,13 +77,12 @@ export function createTestReceipt(userId: string, overrides?: Partial<any>) {
   return {
     id: randomUUID(),
     userId,
-    vendorName: 'Target',
-    description: 'Home supplies',
-    dateTime: new Date('2025-01-26T10:00:00Z'),
+    merchantName: 'Target',
     amount: 75.25,
+    date: new Date('2025-01-26T10:00:00Z'),
     paymentType: 'debit',
-    categoryName: 'Home',
-    receiptImageUrl: 'https://example.com/receipt.jpg',
+    notes: 'Home supplies',
+    imageKey: `receipts/${userId}/receipt.jpg`,
     ...overrides,
   };
 }
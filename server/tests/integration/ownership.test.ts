@@ -0,0 +1,212 @@
+/**
+ * Resource Ownership Integration Tests
+ *
+ * A signed-in user must not be able to read, change or delete another user's
+ * transactions, budgets, categories or receipts by putting their own userId in the path
+ * and someone else's document ID after it.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import transactionRoutes from '../../src/routes/transaction.routes';
+import budgetRoutes from '../../src/routes/budget.routes';
+import categoryRoutes from '../../src/routes/category.routes';
+import receiptRoutes from '../../src/routes/receipt.routes';
+import { TransactionRepository } from '../../src/repositories/TransactionRepository';
+import { BudgetRepository } from '../../src/repositories/BudgetRepository';
+import { CategoryRepository } from '../../src/repositories/CategoryRepository';
+import { ReceiptRepository } from '../../src/repositories/ReceiptRepository';
+import { setupDatabase, teardownDatabase, clearDatabase } from '../helpers/mongodb-setup';
+import { mockTokens } from '../helpers/firebase-mocks';
+import { createTestBudget, createTestCategory, createTestReceipt, createTestTransaction } from '../helpers/test-data';
+
+// Mock Firebase Admin SDK at module level (token checks and the default Firebase object storage)
+vi.mock('../../src/config/firebase-admin', () => ({
+  default: {
+    firestore: Object.assign(vi.fn(() => ({ collection: vi.fn() })), {
+      FieldValue: { serverTimestamp: vi.fn() },
+    }),
+    storage: vi.fn(() => ({ bucket: vi.fn() })),
+  },
+  verifyIdToken: vi.fn(),
+  setCustomUserClaims: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { verifyIdToken } from '../../src/config/firebase-admin';
+
+// Create Express app for testing
+const app = express();
+app.use(express.json());
+app.use('/api/v1/users/:userId/transactions', transactionRoutes);
+app.use('/api/v1/users/:userId/budgets', budgetRoutes);
+app.use('/api/v1/users/:userId/categories', categoryRoutes);
+app.use('/api/v1/users/:userId/receipts', receiptRoutes);
+
+const owner = mockTokens.validWithUserId;
+const intruder = mockTokens.differentUser;
+
+describe('Resource Ownership Integration Tests', () => {
+  beforeAll(async () => {
+    await setupDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownDatabase();
+  });
+
+  afterEach(async () => {
+    await clearDatabase();
+    vi.clearAllMocks();
+  });
+
+  describe('/api/v1/users/:userId/transactions/:id', () => {
+    async function createOwnedTransaction() {
+      const { id, ...data } = createTestTransaction(owner.userId);
+      return await new TransactionRepository().createTransaction(data as any);
+    }
+
+    it("should return the owner's transaction", async () => {
+      // Arrange
+      const transaction = await createOwnedTransaction();
+      (verifyIdToken as any).mockResolvedValue(owner);
+
+      // Act
+      const response = await request(app)
+        .get(`/api/v1/users/${owner.userId}/transactions/${transaction._id}`)
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      // Assert
+      expect(response.body.vendorName).toBe('Whole Foods');
+    });
+
+    it("should return 404 for another user's transaction", async () => {
+      // Arrange
+      const transaction = await createOwnedTransaction();
+      (verifyIdToken as any).mockResolvedValue(intruder);
+      const path = `/api/v1/users/${intruder.userId}/transactions/${transaction._id}`;
+
+      // Act & Assert
+      await request(app).get(path).set('Authorization', 'Bearer valid-token').expect(404);
+      await request(app).put(path).set('Authorization', 'Bearer valid-token').send({ amount: 1 }).expect(404);
+      await request(app).delete(path).set('Authorization', 'Bearer valid-token').expect(404);
+
+      const stored = await new TransactionRepository().findTransactionById(transaction._id!.toString());
+      expect(stored?.amount).toBe(125.50);
+    });
+  });
+
+  describe('/api/v1/users/:userId/budgets/:id', () => {
+    async function createOwnedBudget() {
+      const { id, ...data } = createTestBudget(owner.userId);
+      return await new BudgetRepository().createBudget(data as any);
+    }
+
+    it("should return the owner's budget", async () => {
+      // Arrange
+      const budget = await createOwnedBudget();
+      (verifyIdToken as any).mockResolvedValue(owner);
+
+      // Act
+      const response = await request(app)
+        .get(`/api/v1/users/${owner.userId}/budgets/${budget._id}`)
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      // Assert
+      expect(response.body.amount).toBe(5000);
+    });
+
+    it("should return 404 for another user's budget", async () => {
+      // Arrange
+      const budget = await createOwnedBudget();
+      (verifyIdToken as any).mockResolvedValue(intruder);
+      const path = `/api/v1/users/${intruder.userId}/budgets/${budget._id}`;
+
+      // Act & Assert
+      await request(app).get(path).set('Authorization', 'Bearer valid-token').expect(404);
+      await request(app).put(path).set('Authorization', 'Bearer valid-token').send({ amount: 1 }).expect(404);
+      await request(app).delete(path).set('Authorization', 'Bearer valid-token').expect(404);
+
+      const stored = await new BudgetRepository().findBudgetById(budget._id!.toString());
+      expect(stored?.amount).toBe(5000);
+    });
+  });
+
+  describe('/api/v1/users/:userId/categories/:id', () => {
+    async function createOwnedCategory() {
+      const { id, ...data } = createTestCategory(owner.userId);
+      return await new CategoryRepository().createCategory(data as any);
+    }
+
+    it("should return the owner's category", async () => {
+      // Arrange
+      const category = await createOwnedCategory();
+      (verifyIdToken as any).mockResolvedValue(owner);
+
+      // Act
+      const response = await request(app)
+        .get(`/api/v1/users/${owner.userId}/categories/${category._id}`)
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      // Assert
+      expect(response.body.name).toBe('Groceries');
+    });
+
+    it("should return 404 for another user's category", async () => {
+      // Arrange
+      const category = await createOwnedCategory();
+      (verifyIdToken as any).mockResolvedValue(intruder);
+      const path = `/api/v1/users/${intruder.userId}/categories/${category._id}`;
+
+      // Act & Assert
+      await request(app).get(path).set('Authorization', 'Bearer valid-token').expect(404);
+      await request(app).put(path).set('Authorization', 'Bearer valid-token').send({ name: 'Mine now' }).expect(404);
+      await request(app).delete(path).set('Authorization', 'Bearer valid-token').expect(404);
+
+      const stored = await new CategoryRepository().findCategoryById(category._id!.toString());
+      expect(stored?.name).toBe('Groceries');
+    });
+  });
+
+  describe('/api/v1/users/:userId/receipts/:id', () => {
+    async function createOwnedReceipt() {
+      const { id, ...data } = createTestReceipt(owner.userId);
+      return await new ReceiptRepository().createReceipt(data as any);
+    }
+
+    it("should return the owner's receipt", async () => {
+      // Arrange
+      const receipt = await createOwnedReceipt();
+      (verifyIdToken as any).mockResolvedValue(owner);
+
+      // Act
+      const response = await request(app)
+        .get(`/api/v1/users/${owner.userId}/receipts/${receipt._id}`)
+        .set('Authorization', 'Bearer valid-token')
+        .expect(200);
+
+      // Assert
+      expect(response.body.merchantName).toBe('Target');
+    });
+
+    it("should return 404 for another user's receipt", async () => {
+      // Arrange
+      const receipt = await createOwnedReceipt();
+      (verifyIdToken as any).mockResolvedValue(intruder);
+      const path = `/api/v1/users/${intruder.userId}/receipts/${receipt._id}`;
+
+      // Act & Assert
+      await request(app).get(path).set('Authorization', 'Bearer valid-token').expect(404);
+      await request(app).get(`${path}/image`).set('Authorization', 'Bearer valid-token').expect(404);
+      await request(app).put(path).set('Authorization', 'Bearer valid-token').send({ amount: 1 }).expect(404);
+      await request(app).delete(path).set('Authorization', 'Bearer valid-token').expect(404);
+
+      const stored = await new ReceiptRepository().findReceiptById(receipt._id!.toString());
+      expect(stored?.amount).toBe(75.25);
+      expect(stored?.imageKey).toBe(`receipts/${owner.userId}/receipt.jpg`);
+    });
+  });
+});
@@ -350,50 +350,15 @@ describe('Profile API Integration Tests', () => {
   });
 
   describe('GET /api/v1/profiles', () => {
-    it('should retrieve all profiles', async () => {
-      // Arrange - Create multiple profiles
-      (verifyIdToken as any).mockResolvedValue(mockTokens.validWithoutUserId);
-
-      const profile1 = createTestProfile();
-      const profile2 = createTestProfile();
-
-      await request(app)
-        .post('/api/v1/profiles')
-        .set('Authorization', 'Bearer valid-token')
-        .send(profile1);
-
-      (verifyIdToken as any).mockResolvedValue({
-        uid: 'different-firebase-uid',
-        email: profile2.email,
-      });
-
-      await request(app)
-        .post('/api/v1/profiles')
-        .set('Authorization', 'Bearer valid-token-2')
-        .send(profile2);
-
-      // Mock token for list access
+    it('should not list all profiles (moved to the admin API)', async () => {
+      // Arrange
       (verifyIdToken as any).mockResolvedValue(mockTokens.validWithUserId);
 
-      // Act
-      const response = await request(app)
+      // Act & Assert
+      await request(app)
         .get('/api/v1/profiles')
         .set('Authorization', 'Bearer valid-token')
-        .expect(200);
-
-      // Assert
-      expect(Array.isArray(response.body)).toBe(true);
-      expect(response.body.length).toBeGreaterThanOrEqual(2);
-    });
-
-    it('should reject access without authentication', async () => {
-      // Act
-      const response = await request(app)
-        .get('/api/v1/profiles')
-        .expect(401);
-
-      // Assert
-      expect(response.body.error).toBe('No token provided');
+        .expect(404);
     });
   });
 });
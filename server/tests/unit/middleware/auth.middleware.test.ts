@@ -6,7 +6,7 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import type { Request, Response, NextFunction } from 'express';
-import { authenticateToken, requireSameUser } from '../../../src/middleware/auth.middleware';
+import { authenticateToken, requireSameUser, requireRole } from '../../../src/middleware/auth.middleware';
 import { mockTokens, firebaseErrors } from '../../helpers/firebase-mocks';
 
 // Mock Firebase Admin SDK
@@ -166,6 +166,27 @@ describe('Authentication Middleware', () => {
       expect(mockNext).not.toHaveBeenCalled();
     });
 
+    it('should reject revoked tokens and disabled accounts', async () => {
+      // Arrange
+      mockRequest.headers = {
+        authorization: 'Bearer revoked-token',
+      };
+      (verifyIdToken as any)
+        .mockRejectedValueOnce({ code: firebaseErrors.REVOKED_TOKEN, message: 'Token revoked' })
+        .mockRejectedValueOnce({ code: firebaseErrors.USER_DISABLED, message: 'User disabled' });
+
+      // Act
+      await authenticateToken(mockRequest as Request, mockResponse as Response, mockNext);
+      await authenticateToken(mockRequest as Request, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(statusMock).toHaveBeenNthCalledWith(1, 401);
+      expect(jsonMock).toHaveBeenNthCalledWith(1, { error: 'Token revoked' });
+      expect(statusMock).toHaveBeenNthCalledWith(2, 401);
+      expect(jsonMock).toHaveBeenNthCalledWith(2, { error: 'Account disabled' });
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
     it('should handle unknown Firebase errors', async () => {
       // Arrange
       mockRequest.headers = {
@@ -298,6 +319,56 @@ describe('Authentication Middleware', () => {
     });
   });
 
+  describe('requireRole', () => {
+    it('should allow access when the roles claim includes the role', () => {
+      // Arrange
+      mockRequest.user = { ...mockTokens.validWithUserId, roles: ['admin'] };
+
+      // Act
+      requireRole('admin')(mockRequest as Request, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalled();
+      expect(statusMock).not.toHaveBeenCalled();
+    });
+
+    it('should treat the legacy admin claim as the admin role', () => {
+      // Arrange
+      mockRequest.user = { ...mockTokens.validWithUserId, admin: true };
+
+      // Act
+      requireRole('admin')(mockRequest as Request, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it('should reject users without the role', () => {
+      // Arrange
+      mockRequest.user = mockTokens.validWithUserId;
+
+      // Act
+      requireRole('admin')(mockRequest as Request, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(statusMock).toHaveBeenCalledWith(403);
+      expect(jsonMock).toHaveBeenCalledWith({ error: 'Admin access required' });
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should reject unauthenticated requests', () => {
+      // Arrange
+      mockRequest.user = undefined;
+
+      // Act
+      requireRole('admin')(mockRequest as Request, mockResponse as Response, mockNext);
+
+      // Assert
+      expect(statusMock).toHaveBeenCalledWith(401);
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Integration: authenticateToken + requireSameUser', () => {
     it('should allow full authentication and authorization flow', async () => {
       // Arrange
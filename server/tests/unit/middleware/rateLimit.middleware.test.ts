@@ -0,0 +1,125 @@
+/**
+ * Rate Limiting Middleware Unit Tests
+ *
+ * Tests the per-user sliding window limit
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Request, Response, NextFunction } from 'express';
+import { rateLimitPerUser } from '../../../src/middleware/rateLimit.middleware';
+
+describe('Rate Limiting Middleware', () => {
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+  let jsonMock: ReturnType<typeof vi.fn>;
+  let statusMock: ReturnType<typeof vi.fn>;
+  let setHeaderMock: ReturnType<typeof vi.fn>;
+
+  function requestFor(userId: string): Request {
+    return { user: { uid: `uid-${userId}`, userId }, params: { userId } } as unknown as Request;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-01T12:00:00Z'));
+
+    jsonMock = vi.fn();
+    statusMock = vi.fn(() => ({ json: jsonMock }));
+    setHeaderMock = vi.fn();
+
+    mockResponse = {
+      status: statusMock as any,
+      setHeader: setHeaderMock as any,
+    };
+
+    mockNext = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should allow requests up to the limit', () => {
+    // Arrange
+    const limiter = rateLimitPerUser({ limit: 2, windowMs: 60_000 });
+
+    // Act
+    limiter(requestFor('user-123'), mockResponse as Response, mockNext);
+    limiter(requestFor('user-123'), mockResponse as Response, mockNext);
+
+    // Assert
+    expect(mockNext).toHaveBeenCalledTimes(2);
+    expect(statusMock).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests over the limit with 429 and Retry-After', () => {
+    // Arrange
+    const limiter = rateLimitPerUser({ limit: 2, windowMs: 60_000, message: 'Slow down' });
+    limiter(requestFor('user-123'), mockResponse as Response, mockNext);
+    vi.advanceTimersByTime(20_000);
+    limiter(requestFor('user-123'), mockResponse as Response, mockNext);
+
+    // Act
+    limiter(requestFor('user-123'), mockResponse as Response, mockNext);
+
+    // Assert
+    expect(mockNext).toHaveBeenCalledTimes(2);
+    expect(statusMock).toHaveBeenCalledWith(429);
+    expect(setHeaderMock).toHaveBeenCalledWith('Retry-After', '40');
+    expect(jsonMock).toHaveBeenCalledWith({ error: 'Slow down', retryAfter: 40 });
+  });
+
+  it('should allow requests again once the window has passed', () => {
+    // Arrange
+    const limiter = rateLimitPerUser({ limit: 1, windowMs: 60_000 });
+    limiter(requestFor('user-123'), mockResponse as Response, mockNext);
+    limiter(requestFor('user-123'), mockResponse as Response, mockNext);
+
+    // Act
+    vi.advanceTimersByTime(60_000);
+    limiter(requestFor('user-123'), mockResponse as Response, mockNext);
+
+    // Assert
+    expect(mockNext).toHaveBeenCalledTimes(2);
+    expect(statusMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should count each user separately', () => {
+    // Arrange
+    const limiter = rateLimitPerUser({ limit: 1, windowMs: 60_000 });
+    limiter(requestFor('user-123'), mockResponse as Response, mockNext);
+
+    // Act
+    limiter(requestFor('user-456'), mockResponse as Response, mockNext);
+
+    // Assert
+    expect(mockNext).toHaveBeenCalledTimes(2);
+    expect(statusMock).not.toHaveBeenCalled();
+  });
+
+  it('should count users without a userId claim by their Firebase uid', () => {
+    // Arrange
+    const limiter = rateLimitPerUser({ limit: 1, windowMs: 60_000 });
+    const request = { user: { uid: 'uid-new' }, params: {} } as unknown as Request;
+    limiter(request, mockResponse as Response, mockNext);
+
+    // Act
+    limiter(request, mockResponse as Response, mockNext);
+
+    // Assert
+    expect(mockNext).toHaveBeenCalledTimes(1);
+    expect(statusMock).toHaveBeenCalledWith(429);
+  });
+
+  it('should reject requests it cannot tie to a user', () => {
+    // Arrange
+    const limiter = rateLimitPerUser({ limit: 1, windowMs: 60_000 });
+
+    // Act
+    limiter({ params: {} } as unknown as Request, mockResponse as Response, mockNext);
+
+    // Assert
+    expect(mockNext).not.toHaveBeenCalled();
+    expect(statusMock).toHaveBeenCalledWith(401);
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * AdminService Unit Tests
+ *
+ * Tests user listing and lookup, disabling accounts, role changes, usage stats
+ * and resolving set-aside budgets
+ */
+
+import { ObjectId } from 'mongodb';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AdminService } from '../../../src/services/AdminService';
+import { AdminValidationError } from '../../../src/models/Admin';
+import type { BudgetConflict } from '../../../src/models/Budget';
+import type { Profile } from '../../../src/models/Profile';
+
+// Mock Firebase Admin SDK
+vi.mock('../../../src/config/firebase-admin', () => ({
+  getUserAccount: vi.fn(),
+  setUserDisabled: vi.fn().mockResolvedValue(undefined),
+  setUserRoles: vi.fn().mockResolvedValue(undefined),
+}));
+
+// Mock the repositories
+vi.mock('../../../src/repositories/ProfileRepository', () => ({
+  ProfileRepository: vi.fn().mockImplementation(() => ({
+    findProfileById: vi.fn(),
+    findAllProfiles: vi.fn(),
+    findProfiles: vi.fn(),
+    updateDisabled: vi.fn(),
+  })),
+}));
+
+vi.mock('../../../src/repositories/TransactionRepository', () => ({
+  TransactionRepository: vi.fn().mockImplementation(() => ({
+    summarizeByUser: vi.fn().mockResolvedValue(new Map()),
+  })),
+}));
+
+vi.mock('../../../src/repositories/BudgetRepository', () => ({
+  BudgetRepository: vi.fn().mockImplementation(() => ({
+    countByUser: vi.fn().mockResolvedValue(new Map()),
+    findByUserMonthYear: vi.fn(),
+    deleteBudget: vi.fn(),
+    restoreBudget: vi.fn(),
+  })),
+}));
+
+vi.mock('../../../src/repositories/BudgetConflictRepository', () => ({
+  BudgetConflictRepository: vi.fn().mockImplementation(() => ({
+    findAll: vi.fn(),
+    findById: vi.fn(),
+    deleteConflict: vi.fn(),
+  })),
+}));
+
+vi.mock('../../../src/repositories/CategoryRepository', () => ({
+  CategoryRepository: vi.fn().mockImplementation(() => ({
+    countByUser: vi.fn().mockResolvedValue(new Map()),
+  })),
+}));
+
+vi.mock('../../../src/repositories/RecurringTransactionRepository', () => ({
+  RecurringTransactionRepository: vi.fn().mockImplementation(() => ({
+    countByUser: vi.fn().mockResolvedValue(new Map()),
+  })),
+}));
+
+import { getUserAccount, setUserDisabled, setUserRoles } from '../../../src/config/firebase-admin';
+
+describe('AdminService', () => {
+  let adminService: AdminService;
+  let mockProfileRepository: any;
+  let mockTransactionRepository: any;
+  let mockBudgetRepository: any;
+  let mockBudgetConflictRepository: any;
+
+  const profile: Profile = {
+    id: 'user-123',
+    firebaseUid: 'firebase-uid-123',
+    firstName: 'Jo',
+    lastName: 'Doe',
+    birthday: '01/15',
+    email: 'jo@example.com',
+    phoneNumber: '555-0100',
+    googleRefreshToken: 'secret-refresh-token',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adminService = new AdminService();
+    mockProfileRepository = (adminService as any).profileRepository;
+    mockTransactionRepository = (adminService as any).transactionRepository;
+    mockBudgetRepository = (adminService as any).budgetRepository;
+    mockBudgetConflictRepository = (adminService as any).budgetConflictRepository;
+
+    (getUserAccount as any).mockResolvedValue({
+      disabled: false,
+      roles: [],
+      lastSignInAt: new Date('2025-03-01T09:00:00Z'),
+    });
+  });
+
+  describe('getUsers', () => {
+    it('should list users without their credentials', async () => {
+      // Arrange
+      mockProfileRepository.findProfiles.mockResolvedValue([profile]);
+
+      // Act
+      const result = await adminService.getUsers({});
+
+      // Assert
+      expect(mockProfileRepository.findProfiles).toHaveBeenCalledWith({});
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({ id: 'user-123', email: 'jo@example.com', disabled: false });
+      expect(result[0]).not.toHaveProperty('googleRefreshToken');
+    });
+
+    it('should pass email and disabled filters to the repository', async () => {
+      // Arrange
+      mockProfileRepository.findProfiles.mockResolvedValue([]);
+
+      // Act
+      await adminService.getUsers({ email: 'Jo@Example.com', disabled: 'true' });
+
+      // Assert
+      expect(mockProfileRepository.findProfiles).toHaveBeenCalledWith({ email: 'jo@example.com', disabled: true });
+    });
+
+    it('should throw AdminValidationError for an invalid email filter', async () => {
+      // Act & Assert
+      await expect(adminService.getUsers({ email: 'not-an-email' })).rejects.toThrow(AdminValidationError);
+    });
+  });
+
+  describe('getUser', () => {
+    it('should include account state, roles and usage', async () => {
+      // Arrange
+      mockProfileRepository.findProfileById.mockResolvedValue(profile);
+      (getUserAccount as any).mockResolvedValue({ disabled: false, roles: ['admin'], lastSignInAt: null });
+      mockTransactionRepository.summarizeByUser.mockResolvedValue(
+        new Map([['user-123', { count: 12, lastDateTime: new Date('2025-02-28T12:00:00Z') }]])
+      );
+      mockBudgetRepository.countByUser.mockResolvedValue(new Map([['user-123', 2]]));
+
+      // Act
+      const result = await adminService.getUser('user-123');
+
+      // Assert
+      expect(getUserAccount).toHaveBeenCalledWith('firebase-uid-123');
+      expect(result?.roles).toEqual(['admin']);
+      expect(result?.usage).toEqual({
+        userId: 'user-123',
+        transactions: 12,
+        budgets: 2,
+        categories: 0,
+        recurringTransactions: 0,
+        lastTransactionAt: new Date('2025-02-28T12:00:00Z'),
+      });
+    });
+
+    it('should still return the user when the Firebase lookup fails', async () => {
+      // Arrange
+      mockProfileRepository.findProfileById.mockResolvedValue({ ...profile, disabled: true });
+      (getUserAccount as any).mockRejectedValue(new Error('auth/user-not-found'));
+
+      // Act
+      const result = await adminService.getUser('user-123');
+
+      // Assert
+      expect(result).toMatchObject({ id: 'user-123', disabled: true, roles: [], lastSignInAt: null });
+    });
+
+    it('should return null if user not found', async () => {
+      // Arrange
+      mockProfileRepository.findProfileById.mockResolvedValue(null);
+
+      // Act
+      const result = await adminService.getUser('missing');
+
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('updateUser', () => {
+    it('should disable the Firebase account and flag the profile', async () => {
+      // Arrange
+      mockProfileRepository.findProfileById.mockResolvedValue(profile);
+      mockProfileRepository.updateDisabled.mockResolvedValue({ ...profile, disabled: true });
+      (getUserAccount as any).mockResolvedValue({ disabled: true, roles: [], lastSignInAt: null });
+
+      // Act
+      const result = await adminService.updateUser('user-123', { disabled: true }, 'admin-1');
+
+      // Assert
+      expect(setUserDisabled).toHaveBeenCalledWith('firebase-uid-123', true);
+      expect(mockProfileRepository.updateDisabled).toHaveBeenCalledWith('user-123', true);
+      expect(setUserRoles).not.toHaveBeenCalled();
+      expect(result?.disabled).toBe(true);
+    });
+
+    it('should replace roles without touching the account status', async () => {
+      // Arrange
+      mockProfileRepository.findProfileById.mockResolvedValue(profile);
+
+      // Act
+      await adminService.updateUser('user-123', { roles: ['admin', 'admin'] }, 'admin-1');
+
+      // Assert
+      expect(setUserRoles).toHaveBeenCalledWith('firebase-uid-123', ['admin']);
+      expect(setUserDisabled).not.toHaveBeenCalled();
+    });
+
+    it('should not let administrators disable themselves', async () => {
+      // Act & Assert
+      await expect(
+        adminService.updateUser('admin-1', { disabled: true }, 'admin-1')
+      ).rejects.toThrow("You can't disable your own account");
+      expect(setUserDisabled).not.toHaveBeenCalled();
+    });
+
+    it('should not let administrators remove their own admin role', async () => {
+      // Act & Assert
+      await expect(
+        adminService.updateUser('admin-1', { roles: [] }, 'admin-1')
+      ).rejects.toThrow(AdminValidationError);
+      expect(setUserRoles).not.toHaveBeenCalled();
+    });
+
+    it('should throw AdminValidationError when nothing is changed', async () => {
+      // Act & Assert
+      await expect(adminService.updateUser('user-123', {}, 'admin-1')).rejects.toThrow('Provide disabled or roles');
+    });
+
+    it('should throw AdminValidationError for unknown roles', async () => {
+      // Act & Assert
+      await expect(
+        adminService.updateUser('user-123', { roles: ['superuser'] }, 'admin-1')
+      ).rejects.toThrow(AdminValidationError);
+    });
+
+    it('should return null if user not found', async () => {
+      // Arrange
+      mockProfileRepository.findProfileById.mockResolvedValue(null);
+
+      // Act
+      const result = await adminService.updateUser('missing', { disabled: true }, 'admin-1');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(setUserDisabled).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getUsageStats', () => {
+    it('should report every user, most transactions first', async () => {
+      // Arrange
+      mockProfileRepository.findAllProfiles.mockResolvedValue([
+        profile,
+        { ...profile, id: 'user-456', firebaseUid: 'firebase-uid-456' },
+      ]);
+      mockTransactionRepository.summarizeByUser.mockResolvedValue(
+        new Map([['user-456', { count: 3, lastDateTime: new Date('2025-03-01T00:00:00Z') }]])
+      );
+
+      // Act
+      const result = await adminService.getUsageStats();
+
+      // Assert
+      expect(mockTransactionRepository.summarizeByUser).toHaveBeenCalledWith(['user-123', 'user-456']);
+      expect(result.map(stats => stats.userId)).toEqual(['user-456', 'user-123']);
+      expect(result[1]).toMatchObject({ transactions: 0, lastTransactionAt: null });
+    });
+  });
+
+  describe('budget conflicts', () => {
+    const budgetId = new ObjectId('507f1f77bcf86cd799439050');
+    const conflictId = '507f1f77bcf86cd799439051';
+
+    const createConflict = (overrides: Partial<BudgetConflict> = {}): BudgetConflict => ({
+      _id: new ObjectId(conflictId),
+      id: '',
+      budgetId: budgetId.toString(),
+      userId: 'user-123',
+      reason: 'duplicate',
+      month: 3,
+      conflictingBudgetId: '507f1f77bcf86cd799439052',
+      budget: { _id: budgetId, id: '', userId: 'user-123', month: 'March' as any, year: 2025, amount: 500, remaining: 500 },
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockBudgetRepository.restoreBudget.mockImplementation(async (budget: any) => budget);
+      mockBudgetConflictRepository.deleteConflict.mockResolvedValue(true);
+    });
+
+    it('should list set-aside budgets with the ID they had', async () => {
+      // Arrange
+      mockBudgetConflictRepository.findAll.mockResolvedValue([createConflict()]);
+
+      // Act
+      const result = await adminService.getBudgetConflicts();
+
+      // Assert
+      expect(result[0]).toMatchObject({ id: conflictId, reason: 'duplicate', month: 3 });
+      expect(result[0].budget).toMatchObject({ id: budgetId.toString(), month: 'March' });
+      expect(result[0].budget).not.toHaveProperty('_id');
+    });
+
+    it('should restore a budget in the month it converts to', async () => {
+      // Arrange
+      mockBudgetConflictRepository.findById.mockResolvedValue(createConflict({ reason: 'unreadable_month', month: undefined }));
+      mockBudgetRepository.findByUserMonthYear.mockResolvedValue(null);
+
+      // Act
+      const result = await adminService.restoreBudgetConflict(conflictId, { month: 4 });
+
+      // Assert
+      expect(result).toMatchObject({ id: budgetId.toString(), month: 4 });
+      expect(mockBudgetRepository.restoreBudget).toHaveBeenCalledWith(expect.objectContaining({ _id: budgetId, month: 4 }));
+      expect(mockBudgetConflictRepository.deleteConflict).toHaveBeenCalledWith(conflictId);
+    });
+
+    it('should require a month when the month name could not be read', async () => {
+      // Arrange
+      mockBudgetConflictRepository.findById.mockResolvedValue(createConflict({ reason: 'unreadable_month', month: undefined }));
+
+      // Act & Assert
+      await expect(adminService.restoreBudgetConflict(conflictId, {})).rejects.toThrow(AdminValidationError);
+      expect(mockBudgetRepository.restoreBudget).not.toHaveBeenCalled();
+    });
+
+    it('should not overwrite a budget for the same month unless asked to', async () => {
+      // Arrange
+      const existing = { _id: new ObjectId('507f1f77bcf86cd799439052'), userId: 'user-123', month: 3, year: 2025 };
+      mockBudgetConflictRepository.findById.mockResolvedValue(createConflict());
+      mockBudgetRepository.findByUserMonthYear.mockResolvedValue(existing);
+
+      // Act & Assert
+      await expect(adminService.restoreBudgetConflict(conflictId, {})).rejects.toThrow('already exists');
+      expect(mockBudgetRepository.deleteBudget).not.toHaveBeenCalled();
+
+      await adminService.restoreBudgetConflict(conflictId, { replace: true });
+      expect(mockBudgetRepository.deleteBudget).toHaveBeenCalledWith(existing._id.toString());
+      expect(mockBudgetRepository.restoreBudget).toHaveBeenCalledWith(expect.objectContaining({ month: 3 }));
+    });
+
+    it('should return null for a missing conflict', async () => {
+      // Arrange
+      mockBudgetConflictRepository.findById.mockResolvedValue(null);
+
+      // Act & Assert
+      expect(await adminService.restoreBudgetConflict(conflictId, {})).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * BalanceService Unit Tests
+ *
+ * Tests who-owes-whom balances from shared transactions and settlements
+ * with mocked repositories
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BalanceService } from '../../../src/services/BalanceService';
+import { SettlementValidationError } from '../../../src/models/Settlement';
+import type { Settlement } from '../../../src/models/Settlement';
+import type { Transaction } from '../../../src/models/Transaction';
+
+// Mock the repositories
+vi.mock('../../../src/repositories/TransactionRepository', () => ({
+  TransactionRepository: vi.fn().mockImplementation(() => ({
+    findWithParticipants: vi.fn().mockResolvedValue([]),
+  })),
+}));
+
+vi.mock('../../../src/repositories/SettlementRepository', () => ({
+  SettlementRepository: vi.fn().mockImplementation(() => ({
+    createSettlement: vi.fn(),
+    findSettlementById: vi.fn(),
+    findByUserId: vi.fn().mockResolvedValue([]),
+    deleteSettlement: vi.fn(),
+    createIndexes: vi.fn(),
+  })),
+}));
+
+vi.mock('../../../src/services/ExchangeRateService', () => ({
+  ExchangeRateService: vi.fn().mockImplementation(() => ({
+    getHomeCurrency: vi.fn().mockResolvedValue('USD'),
+    convert: vi.fn().mockImplementation(async (amount: number) => amount),
+  })),
+}));
+
+describe('BalanceService', () => {
+  let balanceService: BalanceService;
+  let transactionRepository: any;
+  let settlementRepository: any;
+  let exchangeRateService: any;
+
+  const sharedTransaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+    id: '',
+    userId: 'user-1',
+    amount: 80,
+    kind: 'expense',
+    dateTime: new Date('2026-03-10T19:00:00Z'),
+    participants: [{ name: 'Sam', share: 40 }],
+    ...overrides,
+  } as Transaction);
+
+  const settlement = (overrides: Partial<Settlement> = {}): Settlement => ({
+    id: '',
+    userId: 'user-1',
+    name: 'Sam',
+    amount: 40,
+    currency: 'USD',
+    direction: 'received',
+    date: new Date('2026-03-12T00:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    balanceService = new BalanceService();
+    transactionRepository = (balanceService as any).transactionRepository;
+    settlementRepository = (balanceService as any).settlementRepository;
+    exchangeRateService = (balanceService as any).exchangeRateService;
+    settlementRepository.createSettlement.mockImplementation(async (data: any) => ({ ...data, id: 'settlement-1' }));
+  });
+
+  describe('getBalances', () => {
+    it('should count participant shares as owed to the user when the user paid', async () => {
+      // Arrange
+      transactionRepository.findWithParticipants.mockResolvedValue([
+        sharedTransaction(),
+        sharedTransaction({ amount: 30, participants: [{ name: 'sam', share: 10 }, { name: 'Alex', share: 10 }] }),
+      ]);
+
+      // Act
+      const result = await balanceService.getBalances('user-1');
+
+      // Assert
+      expect(result).toEqual({
+        currency: 'USD',
+        owedToYou: 60,
+        youOwe: 0,
+        people: [
+          { name: 'Sam', balance: 50 },
+          { name: 'Alex', balance: 10 },
+        ],
+      });
+    });
+
+    it('should count the user\'s own share as owed when someone else paid', async () => {
+      // Arrange
+      transactionRepository.findWithParticipants.mockResolvedValue([
+        sharedTransaction({
+          amount: 90,
+          paidBy: 'Sam',
+          participants: [{ name: 'Sam', share: 30 }, { name: 'Alex', share: 30 }],
+        }),
+      ]);
+
+      // Act
+      const result = await balanceService.getBalances('user-1');
+
+      // Assert
+      expect(result.people).toEqual([{ name: 'Sam', balance: -30 }]);
+      expect(result.youOwe).toBe(30);
+      expect(result.owedToYou).toBe(0);
+    });
+
+    it('should apply settlements and leave out people who are settled up', async () => {
+      // Arrange
+      transactionRepository.findWithParticipants.mockResolvedValue([
+        sharedTransaction(),
+        sharedTransaction({ paidBy: 'Alex', participants: [{ name: 'Alex', share: 50 }] }),
+      ]);
+      settlementRepository.findByUserId.mockResolvedValue([
+        settlement(),
+        settlement({ name: 'Alex', amount: 10, direction: 'paid' }),
+      ]);
+
+      // Act
+      const result = await balanceService.getBalances('user-1');
+
+      // Assert
+      expect(result.people).toEqual([{ name: 'Alex', balance: -20 }]);
+    });
+
+    it('should convert amounts into the home currency at the transaction date', async () => {
+      // Arrange
+      const dateTime = new Date('2026-03-10T19:00:00Z');
+      transactionRepository.findWithParticipants.mockResolvedValue([
+        sharedTransaction({ currency: 'EUR', dateTime }),
+      ]);
+      exchangeRateService.convert.mockResolvedValue(43.5);
+
+      // Act
+      const result = await balanceService.getBalances('user-1');
+
+      // Assert
+      expect(exchangeRateService.convert).toHaveBeenCalledWith(40, 'EUR', 'USD', dateTime);
+      expect(result.people).toEqual([{ name: 'Sam', balance: 43.5 }]);
+    });
+  });
+
+  describe('createSettlement', () => {
+    it('should settle the whole balance when no amount is given', async () => {
+      // Arrange
+      transactionRepository.findWithParticipants.mockResolvedValue([sharedTransaction()]);
+
+      // Act
+      const result = await balanceService.createSettlement('user-1', { name: 'sam' });
+
+      // Assert
+      expect(settlementRepository.createSettlement).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-1',
+        name: 'Sam',
+        amount: 40,
+        currency: 'USD',
+        direction: 'received',
+      }));
+      expect(result.id).toBe('settlement-1');
+    });
+
+    it('should default to paying when the user owes the person', async () => {
+      // Arrange
+      transactionRepository.findWithParticipants.mockResolvedValue([
+        sharedTransaction({ paidBy: 'Sam' }),
+      ]);
+
+      // Act
+      await balanceService.createSettlement('user-1', { name: 'Sam', amount: 15 });
+
+      // Assert
+      expect(settlementRepository.createSettlement).toHaveBeenCalledWith(expect.objectContaining({
+        amount: 15,
+        direction: 'paid',
+      }));
+    });
+
+    it('should reject settling with someone there is no balance with', async () => {
+      // Act & Assert
+      await expect(balanceService.createSettlement('user-1', { name: 'Sam' }))
+        .rejects.toThrow('Nothing to settle with Sam');
+      await expect(balanceService.createSettlement('user-1', { name: 'Sam', amount: 5 }))
+        .rejects.toThrow(SettlementValidationError);
+      expect(settlementRepository.createSettlement).not.toHaveBeenCalled();
+    });
+
+    it('should record an explicit settlement without a balance', async () => {
+      // Act
+      await balanceService.createSettlement('user-1', { name: 'Sam', amount: 5, direction: 'paid' });
+
+      // Assert
+      expect(settlementRepository.createSettlement).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Sam',
+        amount: 5,
+        direction: 'paid',
+      }));
+    });
+
+    it('should reject a missing name', async () => {
+      // Act & Assert
+      await expect(balanceService.createSettlement('user-1', { amount: 5 }))
+        .rejects.toThrow(SettlementValidationError);
+    });
+  });
+
+  describe('deleteSettlement', () => {
+    it('should not delete another user\'s settlement', async () => {
+      // Arrange
+      settlementRepository.findSettlementById.mockResolvedValue(settlement({ userId: 'user-2' }));
+
+      // Act
+      const result = await balanceService.deleteSettlement('user-1', '507f1f77bcf86cd799439011');
+
+      // Assert
+      expect(result).toBe(false);
+      expect(settlementRepository.deleteSettlement).not.toHaveBeenCalled();
+    });
+
+    it('should delete the user\'s own settlement', async () => {
+      // Arrange
+      settlementRepository.findSettlementById.mockResolvedValue(settlement());
+      settlementRepository.deleteSettlement.mockResolvedValue(true);
+
+      // Act
+      const result = await balanceService.deleteSettlement('user-1', '507f1f77bcf86cd799439011');
+
+      // Assert
+      expect(result).toBe(true);
+    });
+  });
+});
@@ -6,7 +6,8 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { BudgetService } from '../../../src/services/BudgetService';
-import { BudgetValidationError } from '../../../src/models/Budget';
+import { ObjectId } from 'mongodb';
+import { BudgetValidationError, getBudgetPeriod, getPeriodContaining, shiftPeriod } from '../../../src/models/Budget';
 import type { Budget } from '../../../src/models/Budget';
 
 // Mock the BudgetRepository
@@ -17,28 +18,68 @@ vi.mock('../../../src/repositories/BudgetRepository', () => ({
     findAllBudgets: vi.fn(),
     findByUserId: vi.fn(),
     findByUserMonthYear: vi.fn(),
+    findByUserMonth: vi.fn(),
     updateBudget: vi.fn(),
     deleteBudget: vi.fn(),
+    findLegacyMonthBudgets: vi.fn(),
+    findDuplicateBudgets: vi.fn(),
     createIndexes: vi.fn(),
   })),
 }));
 
+// Mock the BudgetConflictRepository (budgets set aside by the migration)
+vi.mock('../../../src/repositories/BudgetConflictRepository', () => ({
+  BudgetConflictRepository: vi.fn().mockImplementation(() => ({
+    setAside: vi.fn(),
+    createIndexes: vi.fn(),
+  })),
+}));
+
+// Mock the TransactionRepository (used to compute spending for remaining)
+vi.mock('../../../src/repositories/TransactionRepository', () => ({
+  TransactionRepository: vi.fn().mockImplementation(() => ({
+    aggregateByCategory: vi.fn(),
+    aggregateByMonth: vi.fn(),
+  })),
+}));
+
+// Mock the ExchangeRateService (resolves the user's home currency)
+vi.mock('../../../src/services/ExchangeRateService', () => ({
+  ExchangeRateService: vi.fn().mockImplementation(() => ({
+    getHomeCurrency: vi.fn().mockResolvedValue('USD'),
+    convert: vi.fn().mockImplementation(async (amount: number) => Math.round(amount * 100) / 100),
+  })),
+}));
+
+// Mock the NotificationService
+vi.mock('../../../src/services/NotificationService', () => ({
+  NotificationService: vi.fn().mockImplementation(() => ({
+    checkBudgetThresholds: vi.fn().mockResolvedValue(null),
+  })),
+}));
+
 import { BudgetRepository } from '../../../src/repositories/BudgetRepository';
 
 describe('BudgetService', () => {
   let budgetService: BudgetService;
   let mockBudgetRepository: any;
+  let mockBudgetConflictRepository: any;
+  let mockTransactionRepository: any;
+  let mockNotificationService: any;
 
   beforeEach(() => {
     budgetService = new BudgetService();
     mockBudgetRepository = (budgetService as any).budgetRepository;
+    mockBudgetConflictRepository = (budgetService as any).budgetConflictRepository;
+    mockTransactionRepository = (budgetService as any).transactionRepository;
+    mockNotificationService = (budgetService as any).notificationService;
     vi.clearAllMocks();
   });
 
   describe('createBudget', () => {
     const validBudgetData = {
       userId: 'user-123',
-      month: 'January',
+      month: 1,
       year: 2025,
       amount: 5000,
       remaining: 5000,
@@ -48,7 +89,7 @@ describe('BudgetService', () => {
     const mockCreatedBudget: Budget = {
       id: 'budget-123',
       userId: 'user-123',
-      month: 'January',
+      month: 1,
       year: 2025,
       amount: 5000,
       remaining: 5000,
@@ -66,15 +107,16 @@ describe('BudgetService', () => {
       // Assert
       expect(result).toBeDefined();
       expect(result.id).toBe('budget-123');
-      expect(result.month).toBe('January');
+      expect(result.month).toBe(1);
+      expect(result.period).toBe('2025-01');
       expect(result.amount).toBe(5000);
       expect(mockBudgetRepository.findByUserMonthYear).toHaveBeenCalledWith(
         'user-123',
-        'January',
+        1,
         2025,
         'cat-123'
       );
-      expect(mockBudgetRepository.createBudget).toHaveBeenCalledWith(validBudgetData);
+      expect(mockBudgetRepository.createBudget).toHaveBeenCalledWith({ ...validBudgetData, currency: 'USD' });
     });
 
     it('should throw BudgetValidationError if budget already exists for user/month/year', async () => {
@@ -131,7 +173,7 @@ describe('BudgetService', () => {
     const mockBudget: Budget = {
       id: 'budget-123',
       userId: 'user-123',
-      month: 'January',
+      month: 1,
       year: 2025,
       amount: 5000,
       remaining: 5000,
@@ -143,7 +185,7 @@ describe('BudgetService', () => {
       mockBudgetRepository.findBudgetById.mockResolvedValue(mockBudget);
 
       // Act
-      const result = await budgetService.getBudgetById('budget-123');
+      const result = await budgetService.getBudgetById('user-123', 'budget-123');
 
       // Assert
       expect(result).toBeDefined();
@@ -156,63 +198,27 @@ describe('BudgetService', () => {
       mockBudgetRepository.findBudgetById.mockResolvedValue(null);
 
       // Act
-      const result = await budgetService.getBudgetById('non-existent-id');
+      const result = await budgetService.getBudgetById('user-123', 'non-existent-id');
 
       // Assert
       expect(result).toBeNull();
     });
 
-    it('should throw BudgetValidationError for invalid ID format', async () => {
-      // Act & Assert
-      await expect(budgetService.getBudgetById('')).rejects.toThrow(BudgetValidationError);
-      expect(mockBudgetRepository.findBudgetById).not.toHaveBeenCalled();
-    });
-  });
-
-  describe('getAllBudgets', () => {
-    it('should return all budgets', async () => {
+    it("should return null for another user's budget", async () => {
       // Arrange
-      const mockBudgets: Budget[] = [
-        {
-          id: 'budget-1',
-          userId: 'user-123',
-          month: 'January',
-          year: 2025,
-          amount: 5000,
-          remaining: 5000,
-          categoryId: 'cat-123',
-        },
-        {
-          id: 'budget-2',
-          userId: 'user-456',
-          month: 'February',
-          year: 2025,
-          amount: 3000,
-          remaining: 3000,
-          categoryId: 'cat-456',
-        },
-      ];
-
-      mockBudgetRepository.findAllBudgets.mockResolvedValue(mockBudgets);
+      mockBudgetRepository.findBudgetById.mockResolvedValue({ ...mockBudget, userId: 'user-456' });
 
       // Act
-      const result = await budgetService.getAllBudgets();
+      const result = await budgetService.getBudgetById('user-123', 'budget-123');
 
       // Assert
-      expect(result).toHaveLength(2);
-      expect(result[0].id).toBe('budget-1');
-      expect(result[1].id).toBe('budget-2');
+      expect(result).toBeNull();
     });
 
-    it('should return empty array if no budgets exist', async () => {
-      // Arrange
-      mockBudgetRepository.findAllBudgets.mockResolvedValue([]);
-
-      // Act
-      const result = await budgetService.getAllBudgets();
-
-      // Assert
-      expect(result).toEqual([]);
+    it('should throw BudgetValidationError for invalid ID format', async () => {
+      // Act & Assert
+      await expect(budgetService.getBudgetById('user-123', '')).rejects.toThrow(BudgetValidationError);
+      expect(mockBudgetRepository.findBudgetById).not.toHaveBeenCalled();
     });
   });
 
@@ -223,7 +229,7 @@ describe('BudgetService', () => {
         {
           id: 'budget-1',
           userId: 'user-123',
-          month: 'January',
+          month: 1,
           year: 2025,
           amount: 5000,
           remaining: 5000,
@@ -232,7 +238,7 @@ describe('BudgetService', () => {
         {
           id: 'budget-2',
           userId: 'user-123',
-          month: 'February',
+          month: 2,
           year: 2025,
           amount: 3000,
           remaining: 3000,
@@ -274,7 +280,7 @@ describe('BudgetService', () => {
     const existingBudget: Budget = {
       id: 'budget-123',
       userId: 'user-123',
-      month: 'January',
+      month: 1,
       year: 2025,
       amount: 5000,
       remaining: 5000,
@@ -288,9 +294,10 @@ describe('BudgetService', () => {
 
       mockBudgetRepository.findBudgetById.mockResolvedValue(existingBudget);
       mockBudgetRepository.updateBudget.mockResolvedValue(updatedBudget);
+      mockTransactionRepository.aggregateByCategory.mockResolvedValue([]);
 
       // Act
-      const result = await budgetService.updateBudget('budget-123', updateData);
+      const result = await budgetService.updateBudget('user-123', 'budget-123', updateData);
 
       // Assert
       expect(result).toBeDefined();
@@ -298,12 +305,82 @@ describe('BudgetService', () => {
       expect(mockBudgetRepository.updateBudget).toHaveBeenCalledWith('budget-123', updateData);
     });
 
+    it('should recompute remaining for the new amount and category, ignoring a remaining sent by the client', async () => {
+      // Arrange
+      mockBudgetRepository.findBudgetById.mockResolvedValue(existingBudget);
+      mockBudgetRepository.updateBudget.mockResolvedValueOnce({ ...existingBudget, amount: 400, categoryId: 'cat-456' });
+      mockTransactionRepository.aggregateByCategory.mockResolvedValue([
+        { categoryId: 'cat-123', totalAmount: 250.5, transactionCount: 3 },
+        { categoryId: 'cat-456', totalAmount: 100, transactionCount: 1 },
+      ]);
+
+      // Act
+      const result = await budgetService.updateBudget('user-123', 'budget-123', {
+        amount: 400,
+        categoryId: 'cat-456',
+        remaining: 9999,
+      });
+
+      // Assert
+      expect(mockBudgetRepository.updateBudget).toHaveBeenNthCalledWith(1, 'budget-123', { amount: 400, categoryId: 'cat-456' });
+      expect(mockBudgetRepository.updateBudget).toHaveBeenNthCalledWith(2, 'budget-123', { remaining: 300 });
+      expect(mockTransactionRepository.aggregateByCategory).toHaveBeenCalledWith(
+        'user-123',
+        new Date(2025, 0, 1, 0, 0, 0, 0),
+        new Date(2025, 0, 31, 23, 59, 59, 999),
+        'expense',
+        'USD'
+      );
+      expect(result?.remaining).toBe(300);
+    });
+
+    it('should send an alert when a lower amount puts spending past a threshold', async () => {
+      // Arrange
+      const updatedBudget: Budget = { ...existingBudget, amount: 300, alertThresholds: [50, 80] };
+      mockBudgetRepository.findBudgetById.mockResolvedValue(existingBudget);
+      mockBudgetRepository.updateBudget.mockResolvedValueOnce(updatedBudget);
+      mockTransactionRepository.aggregateByCategory.mockResolvedValue([
+        { categoryId: 'cat-123', totalAmount: 250.5, transactionCount: 3 },
+      ]);
+
+      // Act
+      await budgetService.updateBudget('user-123', 'budget-123', { amount: 300, alertThresholds: [50, 80] });
+
+      // Assert
+      expect(mockNotificationService.checkBudgetThresholds).toHaveBeenCalledWith(updatedBudget, 250.5);
+    });
+
+    it('should reject moving a budget onto a month that already has one for its category', async () => {
+      // Arrange
+      mockBudgetRepository.findBudgetById.mockResolvedValue(existingBudget);
+      mockBudgetRepository.findByUserMonthYear.mockResolvedValue({ ...existingBudget, id: 'budget-456', month: 2 });
+
+      // Act & Assert
+      await expect(
+        budgetService.updateBudget('user-123', 'budget-123', { month: 2 })
+      ).rejects.toMatchObject({ message: 'Budget already exists for this user, month, and year', field: 'month' });
+      expect(mockBudgetRepository.findByUserMonthYear).toHaveBeenCalledWith('user-123', 2, 2025, 'cat-123');
+      expect(mockBudgetRepository.updateBudget).not.toHaveBeenCalled();
+    });
+
     it('should return null if budget not found', async () => {
       // Arrange
       mockBudgetRepository.findBudgetById.mockResolvedValue(null);
 
       // Act
-      const result = await budgetService.updateBudget('non-existent-id', { amount: 6000 });
+      const result = await budgetService.updateBudget('user-123', 'non-existent-id', { amount: 6000 });
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockBudgetRepository.updateBudget).not.toHaveBeenCalled();
+    });
+
+    it("should not update another user's budget", async () => {
+      // Arrange
+      mockBudgetRepository.findBudgetById.mockResolvedValue({ ...existingBudget, userId: 'user-456' });
+
+      // Act
+      const result = await budgetService.updateBudget('user-123', 'budget-123', { amount: 6000 });
 
       // Assert
       expect(result).toBeNull();
@@ -313,7 +390,7 @@ describe('BudgetService', () => {
     it('should throw BudgetValidationError for invalid ID', async () => {
       // Act & Assert
       await expect(
-        budgetService.updateBudget('', { amount: 6000 })
+        budgetService.updateBudget('user-123', '', { amount: 6000 })
       ).rejects.toThrow(BudgetValidationError);
     });
 
@@ -323,18 +400,28 @@ describe('BudgetService', () => {
 
       // Act & Assert
       await expect(
-        budgetService.updateBudget('budget-123', { amount: -100 })
+        budgetService.updateBudget('user-123', 'budget-123', { amount: -100 })
       ).rejects.toThrow(BudgetValidationError);
     });
   });
 
   describe('deleteBudget', () => {
+    const existingBudget: Budget = {
+      id: 'budget-123',
+      userId: 'user-123',
+      month: 1,
+      year: 2025,
+      amount: 5000,
+      remaining: 5000,
+    };
+
     it('should delete budget successfully', async () => {
       // Arrange
+      mockBudgetRepository.findBudgetById.mockResolvedValue(existingBudget);
       mockBudgetRepository.deleteBudget.mockResolvedValue(true);
 
       // Act
-      const result = await budgetService.deleteBudget('budget-123');
+      const result = await budgetService.deleteBudget('user-123', 'budget-123');
 
       // Assert
       expect(result).toBe(true);
@@ -346,19 +433,574 @@ describe('BudgetService', () => {
       mockBudgetRepository.deleteBudget.mockResolvedValue(false);
 
       // Act
-      const result = await budgetService.deleteBudget('non-existent-id');
+      const result = await budgetService.deleteBudget('user-123', 'non-existent-id');
+
+      // Assert
+      expect(result).toBe(false);
+    });
+
+    it("should not delete another user's budget", async () => {
+      // Arrange
+      mockBudgetRepository.findBudgetById.mockResolvedValue({ ...existingBudget, userId: 'user-456' });
+
+      // Act
+      const result = await budgetService.deleteBudget('user-123', 'budget-123');
 
       // Assert
       expect(result).toBe(false);
+      expect(mockBudgetRepository.deleteBudget).not.toHaveBeenCalled();
     });
 
     it('should throw BudgetValidationError for invalid ID', async () => {
       // Act & Assert
-      await expect(budgetService.deleteBudget('')).rejects.toThrow(BudgetValidationError);
+      await expect(budgetService.deleteBudget('user-123', '')).rejects.toThrow(BudgetValidationError);
       expect(mockBudgetRepository.deleteBudget).not.toHaveBeenCalled();
     });
   });
 
+  describe('syncRemainingForMonth', () => {
+    const overallBudget: Budget = {
+      id: 'budget-overall',
+      userId: 'user-123',
+      month: 1,
+      year: 2025,
+      amount: 1000,
+      remaining: 1000,
+    };
+
+    const groceriesBudget: Budget = {
+      id: 'budget-groceries',
+      userId: 'user-123',
+      month: 1,
+      year: 2025,
+      amount: 300,
+      remaining: 300,
+      categoryId: 'cat-123',
+    };
+
+    const spending = [
+      { categoryId: 'cat-123', totalAmount: 250.5, transactionCount: 3 },
+      { categoryId: 'cat-456', totalAmount: 100, transactionCount: 1 },
+    ];
+
+    it('should recompute remaining for the overall and category budgets', async () => {
+      // Arrange
+      mockBudgetRepository.findByUserMonthYear
+        .mockResolvedValueOnce(overallBudget)
+        .mockResolvedValueOnce(groceriesBudget);
+      mockTransactionRepository.aggregateByCategory.mockResolvedValue(spending);
+
+      // Act
+      await budgetService.syncRemainingForMonth('user-123', new Date(2025, 0, 15), 'cat-123');
+
+      // Assert
+      expect(mockBudgetRepository.findByUserMonthYear).toHaveBeenCalledWith('user-123', 1, 2025, undefined);
+      expect(mockBudgetRepository.findByUserMonthYear).toHaveBeenCalledWith('user-123', 1, 2025, 'cat-123');
+      expect(mockTransactionRepository.aggregateByCategory).toHaveBeenCalledWith(
+        'user-123',
+        new Date(2025, 0, 1, 0, 0, 0, 0),
+        new Date(2025, 0, 31, 23, 59, 59, 999),
+        'expense',
+        'USD'
+      );
+      expect(mockTransactionRepository.aggregateByCategory).toHaveBeenCalledTimes(1);
+      expect(mockBudgetRepository.updateBudget).toHaveBeenCalledWith('budget-overall', { remaining: 649.5 });
+      expect(mockBudgetRepository.updateBudget).toHaveBeenCalledWith('budget-groceries', { remaining: 49.5 });
+    });
+
+    it('should check alert thresholds for each synced budget', async () => {
+      // Arrange
+      mockBudgetRepository.findByUserMonthYear
+        .mockResolvedValueOnce(overallBudget)
+        .mockResolvedValueOnce(groceriesBudget);
+      mockTransactionRepository.aggregateByCategory.mockResolvedValue(spending);
+
+      // Act
+      await budgetService.syncRemainingForMonth('user-123', new Date(2025, 0, 15), 'cat-123');
+
+      // Assert
+      expect(mockNotificationService.checkBudgetThresholds).toHaveBeenCalledWith(overallBudget, 350.5);
+      expect(mockNotificationService.checkBudgetThresholds).toHaveBeenCalledWith(groceriesBudget, 250.5);
+    });
+
+    it('should not fail the sync when checking alerts fails', async () => {
+      // Arrange
+      mockBudgetRepository.findByUserMonthYear.mockResolvedValueOnce(overallBudget);
+      mockTransactionRepository.aggregateByCategory.mockResolvedValue(spending);
+      mockNotificationService.checkBudgetThresholds.mockRejectedValue(new Error('SMTP down'));
+
+      // Act & Assert
+      await expect(
+        budgetService.syncRemainingForMonth('user-123', new Date(2025, 0, 15))
+      ).resolves.toBeUndefined();
+      expect(mockBudgetRepository.updateBudget).toHaveBeenCalledWith('budget-overall', { remaining: 649.5 });
+    });
+
+    it('should aggregate spending in each budget currency', async () => {
+      // Arrange
+      mockBudgetRepository.findByUserMonthYear
+        .mockResolvedValueOnce(overallBudget)
+        .mockResolvedValueOnce({ ...groceriesBudget, currency: 'EUR' });
+      mockTransactionRepository.aggregateByCategory
+        .mockResolvedValueOnce(spending)
+        .mockResolvedValueOnce([{ categoryId: 'cat-123', totalAmount: 230, transactionCount: 3 }]);
+
+      // Act
+      await budgetService.syncRemainingForMonth('user-123', new Date(2025, 0, 15), 'cat-123');
+
+      // Assert
+      expect(mockTransactionRepository.aggregateByCategory).toHaveBeenCalledWith(
+        'user-123', expect.any(Date), expect.any(Date), 'expense', 'USD'
+      );
+      expect(mockTransactionRepository.aggregateByCategory).toHaveBeenCalledWith(
+        'user-123', expect.any(Date), expect.any(Date), 'expense', 'EUR'
+      );
+      expect(mockBudgetRepository.updateBudget).toHaveBeenCalledWith('budget-overall', { remaining: 649.5 });
+      expect(mockBudgetRepository.updateBudget).toHaveBeenCalledWith('budget-groceries', { remaining: 70 });
+    });
+
+    it('should floor remaining at zero when the budget is overspent', async () => {
+      // Arrange
+      mockBudgetRepository.findByUserMonthYear.mockResolvedValueOnce({ ...overallBudget, amount: 200 });
+      mockTransactionRepository.aggregateByCategory.mockResolvedValue(spending);
+
+      // Act
+      await budgetService.syncRemainingForMonth('user-123', new Date(2025, 0, 15));
+
+      // Assert
+      expect(mockBudgetRepository.updateBudget).toHaveBeenCalledWith('budget-overall', { remaining: 0 });
+    });
+
+    it('should skip aggregation when no budget exists for the month', async () => {
+      // Arrange
+      mockBudgetRepository.findByUserMonthYear.mockResolvedValue(null);
+
+      // Act
+      await budgetService.syncRemainingForMonth('user-123', new Date(2025, 0, 15), 'cat-123');
+
+      // Assert
+      expect(mockTransactionRepository.aggregateByCategory).not.toHaveBeenCalled();
+      expect(mockBudgetRepository.updateBudget).not.toHaveBeenCalled();
+    });
+
+    it('should not write when remaining is unchanged', async () => {
+      // Arrange
+      mockBudgetRepository.findByUserMonthYear.mockResolvedValueOnce({ ...overallBudget, remaining: 649.5 });
+      mockTransactionRepository.aggregateByCategory.mockResolvedValue(spending);
+
+      // Act
+      await budgetService.syncRemainingForMonth('user-123', new Date(2025, 0, 15));
+
+      // Assert
+      expect(mockBudgetRepository.updateBudget).not.toHaveBeenCalled();
+    });
+
+    it('should sync the previous month when the date is before its custom start day', async () => {
+      // Arrange: the January budget starts on the 15th, so it covers February 10
+      const paydayBudget = { ...overallBudget, periodStartDay: 15 };
+      mockBudgetRepository.findByUserMonthYear
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(paydayBudget);
+      mockTransactionRepository.aggregateByCategory.mockResolvedValue(spending);
+
+      // Act
+      await budgetService.syncRemainingForMonth('user-123', new Date(2025, 1, 10));
+
+      // Assert
+      expect(mockBudgetRepository.findByUserMonthYear).toHaveBeenNthCalledWith(1, 'user-123', 2, 2025, undefined);
+      expect(mockBudgetRepository.findByUserMonthYear).toHaveBeenNthCalledWith(2, 'user-123', 1, 2025, undefined);
+      expect(mockTransactionRepository.aggregateByCategory).toHaveBeenCalledWith(
+        'user-123',
+        new Date(2025, 0, 15, 0, 0, 0, 0),
+        new Date(2025, 1, 14, 23, 59, 59, 999),
+        'expense',
+        'USD'
+      );
+      expect(mockBudgetRepository.updateBudget).toHaveBeenCalledWith('budget-overall', { remaining: 649.5 });
+    });
+
+    it('should skip a budget whose custom period has not started yet', async () => {
+      // Arrange: the February budget starts on the 15th and January has none
+      mockBudgetRepository.findByUserMonthYear
+        .mockResolvedValueOnce({ ...overallBudget, month: 2, periodStartDay: 15 })
+        .mockResolvedValueOnce(null);
+
+      // Act
+      await budgetService.syncRemainingForMonth('user-123', new Date(2025, 1, 10));
+
+      // Assert
+      expect(mockTransactionRepository.aggregateByCategory).not.toHaveBeenCalled();
+      expect(mockBudgetRepository.updateBudget).not.toHaveBeenCalled();
+    });
+
+    it('should throw BudgetValidationError for invalid user ID', async () => {
+      // Act & Assert
+      await expect(
+        budgetService.syncRemainingForMonth('', new Date())
+      ).rejects.toThrow(BudgetValidationError);
+    });
+  });
+
+  describe('getBudgetStatus', () => {
+    const budget = (month: number, amount: number, extra: Partial<Budget> = {}): Budget => ({
+      id: `budget-${month}-${extra.categoryId ?? 'overall'}`,
+      userId: 'user-123',
+      month,
+      year: 2025,
+      amount,
+      remaining: amount,
+      ...extra,
+    });
+
+    // Spending per month index: January 0, February 1, March 2
+    const spendingByMonth: Record<number, Array<{ categoryId: string; totalAmount: number; transactionCount: number }>> = {
+      0: [{ categoryId: 'cat-food', totalAmount: 150, transactionCount: 4 }],
+      1: [{ categoryId: 'cat-food', totalAmount: 260, transactionCount: 6 }],
+      2: [
+        { categoryId: 'cat-food', totalAmount: 120, transactionCount: 3 },
+        { categoryId: 'cat-fun', totalAmount: 45.5, transactionCount: 2 },
+      ],
+    };
+
+    beforeEach(() => {
+      mockTransactionRepository.aggregateByCategory.mockImplementation(
+        async (_userId: string, startDate: Date) => spendingByMonth[startDate.getMonth()] ?? []
+      );
+    });
+
+    it('should compute spent and remaining per budget and list unbudgeted spending', async () => {
+      // Arrange
+      mockBudgetRepository.findByUserId.mockResolvedValue([
+        budget(3, 1000),
+        budget(3, 200, { categoryId: 'cat-food' }),
+      ]);
+
+      // Act
+      const status = await budgetService.getBudgetStatus('user-123', { month: '3', year: '2025' });
+
+      // Assert
+      expect(status.month).toBe(3);
+      expect(status.overall).toMatchObject({ categoryId: null, spent: 165.5, remaining: 834.5, rolledOver: 0, overBudget: false });
+      expect(status.categories).toEqual([
+        expect.objectContaining({ categoryId: 'cat-food', spent: 120, available: 200, remaining: 80, percentUsed: 60 }),
+      ]);
+      expect(status.unbudgeted).toEqual([{ categoryId: 'cat-fun', spent: 45.5, currency: 'USD' }]);
+    });
+
+    it('should roll unspent and overspent amounts forward through the chain', async () => {
+      // Arrange: January leaves 50, February overspends by 10 after the carry-in
+      mockBudgetRepository.findByUserId.mockResolvedValue([
+        budget(1, 200, { categoryId: 'cat-food', rollover: true }),
+        budget(2, 200, { categoryId: 'cat-food', rollover: true }),
+        budget(3, 200, { categoryId: 'cat-food' }),
+      ]);
+
+      // Act: older app versions still send month names
+      const status = await budgetService.getBudgetStatus('user-123', { month: 'march', year: 2025 });
+
+      // Assert
+      expect(status.categories[0]).toMatchObject({ rolledOver: -10, available: 190, spent: 120, remaining: 70 });
+    });
+
+    it('should not carry anything when the previous budget has rollover disabled', async () => {
+      // Arrange
+      mockBudgetRepository.findByUserId.mockResolvedValue([
+        budget(2, 500, { categoryId: 'cat-food' }),
+        budget(3, 100, { categoryId: 'cat-food' }),
+      ]);
+
+      // Act
+      const status = await budgetService.getBudgetStatus('user-123', { month: 3, year: 2025 });
+
+      // Assert
+      expect(status.categories[0]).toMatchObject({ rolledOver: 0, remaining: -20, overBudget: true });
+    });
+
+    it('should measure a budget over its custom period', async () => {
+      // Arrange: a March budget starting on the 20th runs March 20 - April 19
+      mockBudgetRepository.findByUserId.mockResolvedValue([budget(3, 1000, { periodStartDay: 20 })]);
+
+      // Act
+      const status = await budgetService.getBudgetStatus('user-123', { month: 3, year: 2025 });
+
+      // Assert
+      expect(status.startDate).toEqual(new Date(2025, 2, 20, 0, 0, 0, 0));
+      expect(status.endDate).toEqual(new Date(2025, 3, 19, 23, 59, 59, 999));
+      expect(mockTransactionRepository.aggregateByCategory).toHaveBeenCalledWith(
+        'user-123', status.startDate, status.endDate, 'expense', 'USD'
+      );
+    });
+
+    it('should throw BudgetValidationError for an unknown month', async () => {
+      // Act & Assert
+      await expect(
+        budgetService.getBudgetStatus('user-123', { month: 'Smarch', year: 2025 })
+      ).rejects.toThrow(BudgetValidationError);
+    });
+  });
+
+  describe('copyBudgetsForward', () => {
+    const februaryBudgets: Budget[] = [
+      { id: 'b-1', userId: 'user-123', month: 2, year: 2025, amount: 900, remaining: 0, currency: 'USD' },
+      { id: 'b-2', userId: 'user-123', month: 2, year: 2025, amount: 200, remaining: 10, currency: 'USD', categoryId: 'cat-food', rollover: true },
+      { id: 'b-3', userId: 'user-123', month: 2, year: 2025, amount: 80, remaining: 80, currency: 'USD', categoryId: 'cat-fun' },
+    ];
+
+    it('should clone the previous month and skip budgets that already exist', async () => {
+      // Arrange
+      mockBudgetRepository.findByUserMonth
+        .mockResolvedValueOnce(februaryBudgets)
+        .mockResolvedValueOnce([{ ...februaryBudgets[2], id: 'b-4', month: 3 }]);
+      mockTransactionRepository.aggregateByCategory.mockResolvedValue([
+        { categoryId: 'cat-food', totalAmount: 50, transactionCount: 1 },
+      ]);
+      mockBudgetRepository.createBudget.mockImplementation(async (data: any) => ({ ...data, id: `new-${data.categoryId ?? 'overall'}` }));
+
+      // Act
+      const result = await budgetService.copyBudgetsForward('user-123', { month: 3, year: 2025 });
+
+      // Assert
+      expect(mockBudgetRepository.findByUserMonth).toHaveBeenCalledWith('user-123', 2, 2025);
+      expect(mockBudgetRepository.createBudget).toHaveBeenCalledTimes(2);
+      expect(mockBudgetRepository.createBudget).toHaveBeenCalledWith({
+        userId: 'user-123', month: 3, year: 2025, amount: 900, remaining: 850, currency: 'USD', rollover: false,
+      });
+      expect(mockBudgetRepository.createBudget).toHaveBeenCalledWith({
+        userId: 'user-123', month: 3, year: 2025, amount: 200, remaining: 150, currency: 'USD', rollover: true, categoryId: 'cat-food',
+      });
+      expect(result.created.map(b => b.id)).toEqual(['new-overall', 'new-cat-food']);
+      expect(result.skipped).toBe(1);
+    });
+
+    it('should copy December into January of the next year', async () => {
+      // Arrange
+      mockBudgetRepository.findByUserMonth.mockResolvedValue([]);
+
+      // Act & Assert
+      await expect(
+        budgetService.copyBudgetsForward('user-123', { month: 1, year: 2026 })
+      ).rejects.toThrow('No budgets to copy from December 2025');
+    });
+  });
+
+  describe('getBudgetHistory', () => {
+    const budgets: Budget[] = [
+      { id: 'b-jan', userId: 'user-123', month: 1, year: 2025, amount: 1000, remaining: 0, currency: 'USD' },
+      { id: 'b-jan-food', userId: 'user-123', month: 1, year: 2025, amount: 300, remaining: 0, currency: 'USD', categoryId: 'cat-food' },
+      { id: 'b-mar-food', userId: 'user-123', month: 3, year: 2025, amount: 250, remaining: 0, currency: 'USD', categoryId: 'cat-food' },
+      { id: 'b-mar-fun', userId: 'user-123', month: 3, year: 2025, amount: 100, remaining: 0, currency: 'USD', categoryId: 'cat-fun' },
+      { id: 'b-dec', userId: 'user-123', month: 12, year: 2024, amount: 900, remaining: 0, currency: 'USD' },
+    ];
+
+    beforeEach(() => {
+      mockBudgetRepository.findByUserId.mockResolvedValue(budgets);
+      mockTransactionRepository.aggregateByMonth.mockResolvedValue([
+        { year: 2024, month: 12, totalAmount: 950.255, transactionCount: 20, totalIncome: 0, incomeCount: 0 },
+        { year: 2025, month: 1, totalAmount: 800, transactionCount: 15, totalIncome: 3000, incomeCount: 1 },
+        { year: 2025, month: 2, totalAmount: 500, transactionCount: 9, totalIncome: 0, incomeCount: 0 },
+      ]);
+      mockTransactionRepository.aggregateByCategory.mockResolvedValue([]);
+    });
+
+    it('should compare each budgeted month with its spending, oldest first', async () => {
+      // Act
+      const history = await budgetService.getBudgetHistory('user-123', {});
+
+      // Assert
+      expect(mockTransactionRepository.aggregateByMonth).toHaveBeenCalledWith(
+        'user-123',
+        new Date(2024, 11, 1, 0, 0, 0, 0),
+        new Date(2025, 2, 31, 23, 59, 59, 999),
+        'USD'
+      );
+      expect(history.months).toEqual([
+        expect.objectContaining({ month: 12, year: 2024, budgetId: 'b-dec', budgeted: 900, spent: 950.26, variance: -50.26, overBudget: true }),
+        expect.objectContaining({ month: 1, year: 2025, budgetId: 'b-jan', budgeted: 1000, spent: 800, variance: 200, percentUsed: 80, categoryBudgetCount: 1 }),
+        // No overall budget in March: measured against the category budgets, with no spending yet
+        expect.objectContaining({ month: 3, year: 2025, budgetId: null, budgeted: 350, spent: 0, variance: 350, transactionCount: 0 }),
+      ]);
+      expect(history.totals).toEqual({ budgeted: 2250, spent: 1750.26, variance: 499.74 });
+      expect(history.monthsOverBudget).toBe(1);
+    });
+
+    it('should only count spending in the budgeted categories of a month without an overall budget', async () => {
+      // Arrange
+      mockTransactionRepository.aggregateByCategory.mockResolvedValue([
+        { categoryId: 'cat-food', totalAmount: 200, transactionCount: 4 },
+        { categoryId: 'cat-fun', totalAmount: 50.5, transactionCount: 1 },
+        { categoryId: 'cat-rent', totalAmount: 1500, transactionCount: 1 },
+      ]);
+
+      // Act
+      const history = await budgetService.getBudgetHistory('user-123', {});
+
+      // Assert
+      expect(mockTransactionRepository.aggregateByCategory).toHaveBeenCalledWith(
+        'user-123',
+        new Date(2025, 2, 1, 0, 0, 0, 0),
+        new Date(2025, 2, 31, 23, 59, 59, 999),
+        'expense',
+        'USD'
+      );
+      expect(history.months[2]).toMatchObject({
+        month: 3, budgeted: 350, spent: 250.5, variance: 99.5, overBudget: false, transactionCount: 5,
+      });
+    });
+
+    it('should only include the requested year', async () => {
+      // Act
+      const history = await budgetService.getBudgetHistory('user-123', { year: '2024' });
+
+      // Assert
+      expect(history.months.map(m => m.month)).toEqual([12]);
+      expect(mockTransactionRepository.aggregateByMonth.mock.calls[0][2]).toEqual(new Date(2024, 11, 31, 23, 59, 59, 999));
+    });
+
+    it('should sum spending over the period of a budget with a custom start day', async () => {
+      // Arrange
+      mockBudgetRepository.findByUserId.mockResolvedValue([
+        { id: 'b-feb', userId: 'user-123', month: 2, year: 2025, amount: 1000, remaining: 0, currency: 'USD', periodStartDay: 15 },
+      ]);
+      mockTransactionRepository.aggregateByCategory.mockResolvedValue([
+        { categoryId: 'cat-food', totalAmount: 400, transactionCount: 5 },
+        { categoryId: 'cat-fun', totalAmount: 150.5, transactionCount: 2 },
+      ]);
+
+      // Act
+      const history = await budgetService.getBudgetHistory('user-123', {});
+
+      // Assert
+      expect(mockTransactionRepository.aggregateByCategory).toHaveBeenCalledWith(
+        'user-123',
+        new Date(2025, 1, 15, 0, 0, 0, 0),
+        new Date(2025, 2, 14, 23, 59, 59, 999),
+        'expense',
+        'USD'
+      );
+      expect(history.months).toEqual([
+        expect.objectContaining({ month: 2, year: 2025, spent: 550.5, variance: 449.5, transactionCount: 7 }),
+      ]);
+    });
+
+    it('should return an empty history without aggregating when there are no budgets', async () => {
+      // Arrange
+      mockBudgetRepository.findByUserId.mockResolvedValue([]);
+
+      // Act
+      const history = await budgetService.getBudgetHistory('user-123', {});
+
+      // Assert
+      expect(history).toEqual({ currency: 'USD', months: [], totals: { budgeted: 0, spent: 0, variance: 0 }, monthsOverBudget: 0 });
+      expect(mockTransactionRepository.aggregateByMonth).not.toHaveBeenCalled();
+    });
+
+    it('should throw BudgetValidationError for an invalid year', async () => {
+      // Act & Assert
+      await expect(budgetService.getBudgetHistory('user-123', { year: 'soon' })).rejects.toThrow(BudgetValidationError);
+    });
+  });
+
+  describe('budget periods', () => {
+    it('should end a custom period the day before the start day of the next month', () => {
+      expect(getBudgetPeriod(2025, 12, 25)).toEqual({
+        startDate: new Date(2025, 11, 25, 0, 0, 0, 0),
+        endDate: new Date(2026, 0, 24, 23, 59, 59, 999),
+      });
+      expect(getBudgetPeriod(2024, 2).endDate).toEqual(new Date(2024, 1, 29, 23, 59, 59, 999));
+    });
+
+    it('should assign dates before the start day to the previous month', () => {
+      expect(getPeriodContaining(new Date(2025, 0, 10), 15)).toEqual({ year: 2024, month: 12 });
+      expect(getPeriodContaining(new Date(2025, 0, 15), 15)).toEqual({ year: 2025, month: 1 });
+      expect(shiftPeriod(2025, 1, -13)).toEqual({ year: 2023, month: 12 });
+    });
+  });
+
+  describe('migrateLegacyBudgets', () => {
+    const legacyBudget = (month: unknown, overrides: Partial<Budget> = {}): Budget => ({
+      _id: new ObjectId(),
+      id: '',
+      userId: 'user-123',
+      month: month as number,
+      year: 2025,
+      amount: 500,
+      remaining: 500,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockBudgetRepository.findLegacyMonthBudgets.mockResolvedValue([]);
+      mockBudgetRepository.findDuplicateBudgets.mockResolvedValue([]);
+      mockBudgetRepository.findByUserMonthYear.mockResolvedValue(null);
+      mockBudgetRepository.updateBudget.mockResolvedValue({});
+      mockBudgetRepository.deleteBudget.mockResolvedValue(true);
+    });
+
+    it('should convert month names to month numbers', async () => {
+      // Arrange
+      const march = legacyBudget('March');
+      const april = legacyBudget(' 4 ', { categoryId: 'cat-123' });
+      mockBudgetRepository.findLegacyMonthBudgets.mockResolvedValue([march, april]);
+
+      // Act
+      const result = await budgetService.migrateLegacyBudgets();
+
+      // Assert
+      expect(result).toEqual({ migrated: 2, setAside: 0 });
+      expect(mockBudgetRepository.updateBudget).toHaveBeenCalledWith(march._id!.toString(), { month: 3 });
+      expect(mockBudgetRepository.updateBudget).toHaveBeenCalledWith(april._id!.toString(), { month: 4 });
+      expect(mockBudgetConflictRepository.setAside).not.toHaveBeenCalled();
+    });
+
+    it('should set aside a budget whose month name cannot be read', async () => {
+      // Arrange
+      const budget = legacyBudget('Märzo');
+      mockBudgetRepository.findLegacyMonthBudgets.mockResolvedValue([budget]);
+
+      // Act
+      const result = await budgetService.migrateLegacyBudgets();
+
+      // Assert
+      expect(result).toEqual({ migrated: 0, setAside: 1 });
+      expect(mockBudgetConflictRepository.setAside).toHaveBeenCalledWith(budget, 'unreadable_month', undefined, undefined);
+      expect(mockBudgetRepository.deleteBudget).toHaveBeenCalledWith(budget._id!.toString());
+      expect(mockBudgetRepository.updateBudget).not.toHaveBeenCalled();
+    });
+
+    it('should set aside a legacy budget that clashes with a numeric-month budget', async () => {
+      // Arrange
+      const budget = legacyBudget('March');
+      const existing = legacyBudget(3);
+      mockBudgetRepository.findLegacyMonthBudgets.mockResolvedValue([budget]);
+      mockBudgetRepository.findByUserMonthYear.mockResolvedValue(existing);
+
+      // Act
+      const result = await budgetService.migrateLegacyBudgets();
+
+      // Assert
+      expect(result).toEqual({ migrated: 0, setAside: 1 });
+      expect(mockBudgetRepository.findByUserMonthYear).toHaveBeenCalledWith('user-123', 3, 2025, undefined);
+      expect(mockBudgetConflictRepository.setAside).toHaveBeenCalledWith(budget, 'duplicate', 3, existing._id!.toString());
+      expect(mockBudgetRepository.deleteBudget).toHaveBeenCalledWith(budget._id!.toString());
+    });
+
+    it('should keep the newest of budgets saved twice for a month and set aside the rest', async () => {
+      // Arrange
+      const kept = legacyBudget(3);
+      const duplicate = legacyBudget(3, { categoryId: null as any });
+      mockBudgetRepository.findDuplicateBudgets.mockResolvedValue([{ kept, duplicates: [duplicate] }]);
+
+      // Act
+      const result = await budgetService.migrateLegacyBudgets();
+
+      // Assert
+      expect(result).toEqual({ migrated: 0, setAside: 1 });
+      expect(mockBudgetConflictRepository.setAside).toHaveBeenCalledWith(duplicate, 'duplicate', 3, kept._id!.toString());
+      expect(mockBudgetRepository.deleteBudget).toHaveBeenCalledTimes(1);
+      expect(mockBudgetRepository.deleteBudget).toHaveBeenCalledWith(duplicate._id!.toString());
+    });
+  });
+
   describe('initializeIndexes', () => {
     it('should call repository createIndexes', async () => {
       // Arrange
@@ -369,6 +1011,16 @@ describe('BudgetService', () => {
 
       // Assert
       expect(mockBudgetRepository.createIndexes).toHaveBeenCalled();
+      expect(mockBudgetConflictRepository.createIndexes).toHaveBeenCalled();
+    });
+
+    it('should not throw when the unique index cannot be built', async () => {
+      // Arrange
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockBudgetRepository.createIndexes.mockRejectedValue(Object.assign(new Error('E11000 duplicate key error'), { code: 11000 }));
+
+      // Act & Assert
+      await expect(budgetService.initializeIndexes()).resolves.toBeUndefined();
     });
   });
 });
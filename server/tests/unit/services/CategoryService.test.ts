@@ -18,19 +18,30 @@ vi.mock('../../../src/repositories/CategoryRepository', () => ({
     findByNameAndUserId: vi.fn(),
     updateCategory: vi.fn(),
     deleteCategory: vi.fn(),
+    findByUserId: vi.fn(),
+    findByHouseholdIds: vi.fn(),
     createIndexes: vi.fn(),
   })),
 }));
 
+vi.mock('../../../src/repositories/HouseholdRepository', () => ({
+  HouseholdRepository: vi.fn().mockImplementation(() => ({
+    isMember: vi.fn(),
+    findByMember: vi.fn(),
+  })),
+}));
+
 import { CategoryRepository } from '../../../src/repositories/CategoryRepository';
 
 describe('CategoryService', () => {
   let categoryService: CategoryService;
   let mockCategoryRepository: any;
+  let mockHouseholdRepository: any;
 
   beforeEach(() => {
     categoryService = new CategoryService();
     mockCategoryRepository = (categoryService as any).categoryRepository;
+    mockHouseholdRepository = (categoryService as any).householdRepository;
     vi.clearAllMocks();
   });
 
@@ -65,7 +76,20 @@ describe('CategoryService', () => {
         'Groceries',
         'user-123'
       );
-      expect(mockCategoryRepository.createCategory).toHaveBeenCalledWith(validCategoryData);
+      expect(mockCategoryRepository.createCategory).toHaveBeenCalledWith({ ...validCategoryData, kind: 'expense' });
+    });
+
+    it('should derive kind from an income type', async () => {
+      // Arrange
+      mockCategoryRepository.findByNameAndUserId.mockResolvedValue(null);
+      mockCategoryRepository.createCategory.mockResolvedValue({ ...mockCreatedCategory, name: 'Salary', type: 'income', kind: 'income' });
+
+      // Act
+      const result = await categoryService.createCategory({ ...validCategoryData, name: 'Salary', type: 'Income' });
+
+      // Assert
+      expect(mockCategoryRepository.createCategory).toHaveBeenCalledWith(expect.objectContaining({ kind: 'income' }));
+      expect(result.kind).toBe('income');
     });
 
     it('should throw CategoryValidationError if category name already exists for user', async () => {
@@ -143,7 +167,7 @@ describe('CategoryService', () => {
       mockCategoryRepository.findCategoryById.mockResolvedValue(mockCategory);
 
       // Act
-      const result = await categoryService.getCategoryById('cat-123');
+      const result = await categoryService.getCategoryById('user-123', 'cat-123');
 
       // Assert
       expect(result).toBeDefined();
@@ -156,7 +180,43 @@ describe('CategoryService', () => {
       mockCategoryRepository.findCategoryById.mockResolvedValue(null);
 
       // Act
-      const result = await categoryService.getCategoryById('non-existent-id');
+      const result = await categoryService.getCategoryById('user-123', 'non-existent-id');
+
+      // Assert
+      expect(result).toBeNull();
+    });
+
+    it("should return null for another user's category", async () => {
+      // Arrange
+      mockCategoryRepository.findCategoryById.mockResolvedValue({ ...mockCategory, userId: 'user-456' });
+
+      // Act
+      const result = await categoryService.getCategoryById('user-123', 'cat-123');
+
+      // Assert
+      expect(result).toBeNull();
+    });
+
+    it("should return a household's shared category to its members", async () => {
+      // Arrange
+      mockCategoryRepository.findCategoryById.mockResolvedValue({ ...mockCategory, userId: 'user-456', householdId: 'house-1' });
+      mockHouseholdRepository.isMember.mockResolvedValue(true);
+
+      // Act
+      const result = await categoryService.getCategoryById('user-123', 'cat-123');
+
+      // Assert
+      expect(mockHouseholdRepository.isMember).toHaveBeenCalledWith('house-1', 'user-123');
+      expect(result?.householdId).toBe('house-1');
+    });
+
+    it('should return null for a shared category of a household the user left', async () => {
+      // Arrange
+      mockCategoryRepository.findCategoryById.mockResolvedValue({ ...mockCategory, householdId: 'house-1' });
+      mockHouseholdRepository.isMember.mockResolvedValue(false);
+
+      // Act
+      const result = await categoryService.getCategoryById('user-123', 'cat-123');
 
       // Assert
       expect(result).toBeNull();
@@ -164,11 +224,43 @@ describe('CategoryService', () => {
 
     it('should throw CategoryValidationError for invalid ID format', async () => {
       // Act & Assert
-      await expect(categoryService.getCategoryById('')).rejects.toThrow(CategoryValidationError);
+      await expect(categoryService.getCategoryById('user-123', '')).rejects.toThrow(CategoryValidationError);
       expect(mockCategoryRepository.findCategoryById).not.toHaveBeenCalled();
     });
   });
 
+  describe('getCategoriesByUserId', () => {
+    it("should include the shared categories of the user's households once", async () => {
+      // Arrange
+      const own: Category = { id: 'cat-1', userId: 'user-123', name: 'Coffee', type: 'expense' };
+      const sharedByUser: Category = { id: 'cat-2', userId: 'user-123', name: 'Rent', type: 'expense', householdId: 'house-1' };
+      const sharedByOther: Category = { id: 'cat-3', userId: 'user-456', name: 'Groceries', type: 'expense', householdId: 'house-1' };
+      mockCategoryRepository.findByUserId.mockResolvedValue([own, sharedByUser]);
+      mockHouseholdRepository.findByMember.mockResolvedValue([{ id: 'house-1', name: 'Home', members: [] }]);
+      mockCategoryRepository.findByHouseholdIds.mockResolvedValue([sharedByUser, sharedByOther]);
+
+      // Act
+      const result = await categoryService.getCategoriesByUserId('user-123');
+
+      // Assert
+      expect(mockCategoryRepository.findByHouseholdIds).toHaveBeenCalledWith(['house-1']);
+      expect(result.map(category => category.id)).toEqual(['cat-1', 'cat-2', 'cat-3']);
+    });
+
+    it('should skip the household lookup for users without households', async () => {
+      // Arrange
+      mockCategoryRepository.findByUserId.mockResolvedValue([]);
+      mockHouseholdRepository.findByMember.mockResolvedValue([]);
+
+      // Act
+      const result = await categoryService.getCategoriesByUserId('user-123');
+
+      // Assert
+      expect(result).toEqual([]);
+      expect(mockCategoryRepository.findByHouseholdIds).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getAllCategories', () => {
     it('should return all categories', async () => {
       // Arrange
@@ -229,7 +321,7 @@ describe('CategoryService', () => {
       mockCategoryRepository.updateCategory.mockResolvedValue(updatedCategory);
 
       // Act
-      const result = await categoryService.updateCategory('cat-123', updateData);
+      const result = await categoryService.updateCategory('user-123', 'cat-123', updateData);
 
       // Assert
       expect(result).toBeDefined();
@@ -246,7 +338,7 @@ describe('CategoryService', () => {
       mockCategoryRepository.updateCategory.mockResolvedValue(updatedCategory);
 
       // Act
-      const result = await categoryService.updateCategory('cat-123', updateData);
+      const result = await categoryService.updateCategory('user-123', 'cat-123', updateData);
 
       // Assert
       expect(result).toBeDefined();
@@ -258,7 +350,19 @@ describe('CategoryService', () => {
       mockCategoryRepository.findCategoryById.mockResolvedValue(null);
 
       // Act
-      const result = await categoryService.updateCategory('non-existent-id', { name: 'New Name' });
+      const result = await categoryService.updateCategory('user-123', 'non-existent-id', { name: 'New Name' });
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockCategoryRepository.updateCategory).not.toHaveBeenCalled();
+    });
+
+    it("should not update another user's category", async () => {
+      // Arrange
+      mockCategoryRepository.findCategoryById.mockResolvedValue({ ...existingCategory, userId: 'user-456' });
+
+      // Act
+      const result = await categoryService.updateCategory('user-123', 'cat-123', { name: 'New Name' });
 
       // Assert
       expect(result).toBeNull();
@@ -268,7 +372,7 @@ describe('CategoryService', () => {
     it('should throw CategoryValidationError for invalid ID', async () => {
       // Act & Assert
       await expect(
-        categoryService.updateCategory('', { name: 'New Name' })
+        categoryService.updateCategory('user-123', '', { name: 'New Name' })
       ).rejects.toThrow(CategoryValidationError);
     });
 
@@ -281,7 +385,7 @@ describe('CategoryService', () => {
       });
 
       // Act
-      const result = await categoryService.updateCategory('cat-123', { type: 'custom-type' });
+      const result = await categoryService.updateCategory('user-123', 'cat-123', { type: 'custom-type' });
 
       // Assert
       expect(result).toBeDefined();
@@ -290,12 +394,20 @@ describe('CategoryService', () => {
   });
 
   describe('deleteCategory', () => {
+    const existingCategory: Category = {
+      id: 'cat-123',
+      userId: 'user-123',
+      name: 'Groceries',
+      type: 'expense',
+    };
+
     it('should delete category successfully', async () => {
       // Arrange
+      mockCategoryRepository.findCategoryById.mockResolvedValue(existingCategory);
       mockCategoryRepository.deleteCategory.mockResolvedValue(true);
 
       // Act
-      const result = await categoryService.deleteCategory('cat-123');
+      const result = await categoryService.deleteCategory('user-123', 'cat-123');
 
       // Assert
       expect(result).toBe(true);
@@ -307,15 +419,39 @@ describe('CategoryService', () => {
       mockCategoryRepository.deleteCategory.mockResolvedValue(false);
 
       // Act
-      const result = await categoryService.deleteCategory('non-existent-id');
+      const result = await categoryService.deleteCategory('user-123', 'non-existent-id');
+
+      // Assert
+      expect(result).toBe(false);
+    });
+
+    it("should not delete another user's category", async () => {
+      // Arrange
+      mockCategoryRepository.findCategoryById.mockResolvedValue({ ...existingCategory, userId: 'user-456' });
+
+      // Act
+      const result = await categoryService.deleteCategory('user-123', 'cat-123');
 
       // Assert
       expect(result).toBe(false);
+      expect(mockCategoryRepository.deleteCategory).not.toHaveBeenCalled();
+    });
+
+    it('should not delete a shared category through the personal routes', async () => {
+      // Arrange
+      mockCategoryRepository.findCategoryById.mockResolvedValue({ ...existingCategory, householdId: 'house-1' });
+      mockHouseholdRepository.isMember.mockResolvedValue(true);
+
+      // Act & Assert
+      await expect(categoryService.deleteCategory('user-123', 'cat-123')).rejects.toThrow(
+        'Shared categories are managed through their household'
+      );
+      expect(mockCategoryRepository.deleteCategory).not.toHaveBeenCalled();
     });
 
     it('should throw CategoryValidationError for invalid ID', async () => {
       // Act & Assert
-      await expect(categoryService.deleteCategory('')).rejects.toThrow(CategoryValidationError);
+      await expect(categoryService.deleteCategory('user-123', '')).rejects.toThrow(CategoryValidationError);
       expect(mockCategoryRepository.deleteCategory).not.toHaveBeenCalled();
     });
   });
@@ -0,0 +1,80 @@
+/**
+ * DatePhraseResolver Unit Tests
+ *
+ * Tests resolving weekdays, ordinals, month names, "N days ago" and times of day
+ * relative to now in the user's time zone
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveDatePhrase } from '../../../src/services/DatePhraseResolver';
+
+describe('DatePhraseResolver', () => {
+  // Saturday 15 March 2025, 11:00 in Chicago
+  const now = new Date('2025-03-15T17:00:00Z');
+  const chicago = { now, timeZone: 'America/Chicago' };
+
+  describe('resolveDatePhrase', () => {
+    it('should resolve relative day words to noon in the time zone', () => {
+      expect(resolveDatePhrase('yesterday', chicago)?.value).toEqual(new Date('2025-03-14T17:00:00Z'));
+      expect(resolveDatePhrase('the day before yesterday', chicago)?.value).toEqual(new Date('2025-03-13T17:00:00Z'));
+      expect(resolveDatePhrase('tomorrow', chicago)?.value).toEqual(new Date('2025-03-16T17:00:00Z'));
+    });
+
+    it('should keep the current moment for today', () => {
+      expect(resolveDatePhrase('today', chicago)?.value).toEqual(now);
+    });
+
+    it('should resolve weekdays to the most recent one', () => {
+      expect(resolveDatePhrase('last Friday', chicago)?.value).toEqual(new Date('2025-03-14T17:00:00Z'));
+      expect(resolveDatePhrase('on monday', chicago)?.value).toEqual(new Date('2025-03-10T17:00:00Z'));
+      expect(resolveDatePhrase('last Saturday', chicago)?.value).toEqual(new Date('2025-03-08T18:00:00Z'));
+    });
+
+    it('should count days and weeks back', () => {
+      expect(resolveDatePhrase('two days ago', chicago)?.value).toEqual(new Date('2025-03-13T17:00:00Z'));
+      expect(resolveDatePhrase('3 weeks ago', chicago)?.value).toEqual(new Date('2025-02-22T18:00:00Z'));
+      expect(resolveDatePhrase('a couple days ago', chicago)?.confidence).toBe(0.5);
+    });
+
+    it('should resolve ordinals to this month or the last one', () => {
+      expect(resolveDatePhrase('on the 3rd', chicago)?.value).toEqual(new Date('2025-03-03T18:00:00Z'));
+      expect(resolveDatePhrase('on the 20th', chicago)?.value).toEqual(new Date('2025-02-20T18:00:00Z'));
+    });
+
+    it('should resolve month names to the most recent such day', () => {
+      expect(resolveDatePhrase('October 12th', chicago)?.value).toEqual(new Date('2024-10-12T17:00:00Z'));
+      expect(resolveDatePhrase('the 2nd of March', chicago)?.value).toEqual(new Date('2025-03-02T18:00:00Z'));
+      expect(resolveDatePhrase('March 2 2024', chicago)?.value).toEqual(new Date('2024-03-02T18:00:00Z'));
+    });
+
+    it('should apply times of day and clock times', () => {
+      expect(resolveDatePhrase('Saturday night', chicago)?.value).toEqual(new Date('2025-03-16T02:00:00Z'));
+      expect(resolveDatePhrase('Saturday night', chicago)?.timeOfDay).toBe('night');
+      expect(resolveDatePhrase('yesterday at 7:30pm', chicago)?.value).toEqual(new Date('2025-03-15T00:30:00Z'));
+      expect(resolveDatePhrase('last night', chicago)?.value).toEqual(new Date('2025-03-15T02:00:00Z'));
+      expect(resolveDatePhrase('this morning', chicago)?.value).toEqual(new Date('2025-03-15T14:00:00Z'));
+    });
+
+    it('should read ISO and slash dates', () => {
+      expect(resolveDatePhrase('2025-01-05', chicago)?.value).toEqual(new Date('2025-01-05T18:00:00Z'));
+      expect(resolveDatePhrase('on 1/5/2025', chicago)?.value).toEqual(new Date('2025-01-05T18:00:00Z'));
+    });
+
+    it('should report the phrases it read', () => {
+      expect(resolveDatePhrase('coffee last Friday morning', chicago)?.phrases).toEqual(['last Friday', 'morning']);
+    });
+
+    it('should fall back to UTC for a missing or unknown time zone', () => {
+      expect(resolveDatePhrase('yesterday', { now })?.value).toEqual(new Date('2025-03-14T12:00:00Z'));
+      expect(resolveDatePhrase('yesterday', { now, timeZone: 'Mars/Olympus' })?.value).toEqual(new Date('2025-03-14T12:00:00Z'));
+    });
+
+    it('should reject days that do not exist', () => {
+      expect(resolveDatePhrase('February 30th', chicago)).toBeNull();
+    });
+
+    it('should return null when no date is mentioned', () => {
+      expect(resolveDatePhrase('coffee at Starbucks', chicago)).toBeNull();
+    });
+  });
+});
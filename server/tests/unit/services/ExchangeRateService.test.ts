@@ -0,0 +1,133 @@
+/**
+ * ExchangeRateService Unit Tests
+ *
+ * Tests rate import, home currency resolution and conversion with mocked dependencies
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ExchangeRateService } from '../../../src/services/ExchangeRateService';
+import { ExchangeRateValidationError } from '../../../src/models/ExchangeRate';
+
+// Mock the ExchangeRateRepository
+vi.mock('../../../src/repositories/ExchangeRateRepository', () => ({
+  ExchangeRateRepository: vi.fn().mockImplementation(() => ({
+    upsertRates: vi.fn(),
+    findRates: vi.fn(),
+    findConversionFactor: vi.fn(),
+    createIndexes: vi.fn(),
+  })),
+}));
+
+// Mock the ProfileRepository (source of the home currency)
+vi.mock('../../../src/repositories/ProfileRepository', () => ({
+  ProfileRepository: vi.fn().mockImplementation(() => ({
+    findProfileById: vi.fn(),
+  })),
+}));
+
+describe('ExchangeRateService', () => {
+  let exchangeRateService: ExchangeRateService;
+  let mockExchangeRateRepository: any;
+  let mockProfileRepository: any;
+
+  beforeEach(() => {
+    exchangeRateService = new ExchangeRateService();
+    mockExchangeRateRepository = (exchangeRateService as any).exchangeRateRepository;
+    mockProfileRepository = (exchangeRateService as any).profileRepository;
+    vi.clearAllMocks();
+  });
+
+  describe('importRates', () => {
+    it('should normalize currency codes and upsert the rates', async () => {
+      // Arrange
+      mockExchangeRateRepository.upsertRates.mockResolvedValue({ imported: 1, updated: 1 });
+
+      // Act
+      const result = await exchangeRateService.importRates({
+        source: 'ECB',
+        rates: [
+          { base: 'eur', quote: 'usd', rate: 1.0842, date: '2025-03-14' },
+          { base: 'GBP', quote: 'USD', rate: 1.2931, date: '2025-03-14' },
+        ],
+      });
+
+      // Assert
+      expect(result).toEqual({ imported: 1, updated: 1 });
+      expect(mockExchangeRateRepository.upsertRates).toHaveBeenCalledWith(
+        [
+          { base: 'EUR', quote: 'USD', rate: 1.0842, date: '2025-03-14' },
+          { base: 'GBP', quote: 'USD', rate: 1.2931, date: '2025-03-14' },
+        ],
+        'ECB'
+      );
+    });
+
+    it('should reject a rate between the same currency', async () => {
+      // Act & Assert
+      await expect(
+        exchangeRateService.importRates({ rates: [{ base: 'USD', quote: 'USD', rate: 1, date: '2025-03-14' }] })
+      ).rejects.toThrow(ExchangeRateValidationError);
+      expect(mockExchangeRateRepository.upsertRates).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid dates and non-positive rates', async () => {
+      // Act & Assert
+      await expect(
+        exchangeRateService.importRates({ rates: [{ base: 'EUR', quote: 'USD', rate: 1.1, date: '14/03/2025' }] })
+      ).rejects.toThrow('Invalid date format. Use YYYY-MM-DD');
+      await expect(
+        exchangeRateService.importRates({ rates: [{ base: 'EUR', quote: 'USD', rate: 0, date: '2025-03-14' }] })
+      ).rejects.toThrow('Rate must be positive');
+    });
+  });
+
+  describe('getHomeCurrency', () => {
+    it('should return the profile home currency', async () => {
+      // Arrange
+      mockProfileRepository.findProfileById.mockResolvedValue({ id: 'user-123', homeCurrency: 'GBP' });
+
+      // Act & Assert
+      expect(await exchangeRateService.getHomeCurrency('user-123')).toBe('GBP');
+    });
+
+    it('should default to USD for profiles without a home currency', async () => {
+      // Arrange
+      mockProfileRepository.findProfileById.mockResolvedValue({ id: 'user-123' });
+
+      // Act & Assert
+      expect(await exchangeRateService.getHomeCurrency('user-123')).toBe('USD');
+    });
+  });
+
+  describe('convert', () => {
+    it('should convert using the rate for the date and round to cents', async () => {
+      // Arrange
+      mockExchangeRateRepository.findConversionFactor.mockResolvedValue(1.0842);
+      const date = new Date('2025-03-14T12:00:00Z');
+
+      // Act
+      const result = await exchangeRateService.convert(20, 'EUR', 'USD', date);
+
+      // Assert
+      expect(result).toBe(21.68);
+      expect(mockExchangeRateRepository.findConversionFactor).toHaveBeenCalledWith('EUR', 'USD', date);
+    });
+
+    it('should not look up a rate when the currencies match', async () => {
+      // Act
+      const result = await exchangeRateService.convert(20, 'USD', 'USD', new Date());
+
+      // Assert
+      expect(result).toBe(20);
+      expect(mockExchangeRateRepository.findConversionFactor).not.toHaveBeenCalled();
+    });
+
+    it('should leave the amount unconverted when no rate is known', async () => {
+      // Arrange
+      mockExchangeRateRepository.findConversionFactor.mockResolvedValue(null);
+
+      // Act & Assert
+      expect(await exchangeRateService.convert(3000, 'JPY', 'USD', new Date())).toBe(3000);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * GoogleSheetsSyncService Unit Tests
+ *
+ * Tests incremental sheet sync planning, the monthly summary tab and sync orchestration
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GoogleSheetsSyncService, buildMonthlySummary } from '../../../src/services/GoogleSheetsSyncService';
+import { planSheetSync } from '../../../src/services/GoogleSheetsService';
+import type { TransactionResponse } from '../../../src/models/Transaction';
+
+// Mock the GoogleSheetsService API calls, keeping the pure sync planner
+vi.mock('../../../src/services/GoogleSheetsService', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../../../src/services/GoogleSheetsService')>(),
+  GoogleSheetsService: vi.fn().mockImplementation(() => ({
+    setCredentials: vi.fn(),
+    syncSpreadsheet: vi.fn(),
+  })),
+}));
+
+// Mock the ProfileRepository
+vi.mock('../../../src/repositories/ProfileRepository', () => ({
+  ProfileRepository: vi.fn().mockImplementation(() => ({
+    findProfileById: vi.fn(),
+    updateGoogleSpreadsheetId: vi.fn(),
+  })),
+}));
+
+// Mock the TransactionService
+vi.mock('../../../src/services/TransactionService', () => ({
+  TransactionService: vi.fn().mockImplementation(() => ({
+    getTransactionsByUserId: vi.fn(),
+  })),
+}));
+
+// Mock the CategoryService
+vi.mock('../../../src/services/CategoryService', () => ({
+  CategoryService: vi.fn().mockImplementation(() => ({
+    getCategoriesByUserId: vi.fn().mockResolvedValue([
+      { id: 'cat-food', name: 'Groceries' },
+      { id: 'cat-home', name: 'Household' },
+    ]),
+  })),
+}));
+
+// Mock the BudgetService
+vi.mock('../../../src/services/BudgetService', () => ({
+  BudgetService: vi.fn().mockImplementation(() => ({
+    getBudgetsByUserId: vi.fn().mockResolvedValue([]),
+  })),
+}));
+
+// Mock the ExchangeRateService
+vi.mock('../../../src/services/ExchangeRateService', () => ({
+  ExchangeRateService: vi.fn().mockImplementation(() => ({
+    getHomeCurrency: vi.fn().mockResolvedValue('USD'),
+    getConversionFactor: vi.fn().mockResolvedValue(1),
+    convert: vi.fn().mockImplementation(async (amount: number) => amount),
+  })),
+}));
+
+describe('GoogleSheetsSyncService', () => {
+  describe('planSheetSync', () => {
+    it('should update changed rows, remove deleted ones and append new keys', () => {
+      // Arrange
+      const existing = [
+        { key: 'tx-1', hash: 'aaa' },
+        { key: 'tx-2', hash: 'old' },
+        {},
+        { key: 'tx-gone', hash: 'ccc' },
+      ];
+      const rows = [
+        { key: 'tx-1', hash: 'aaa', values: ['a'] },
+        { key: 'tx-2', hash: 'new', values: ['b'] },
+        { key: 'tx-3', hash: 'ddd', values: ['c'] },
+      ];
+
+      // Act
+      const plan = planSheetSync(existing, rows);
+
+      // Assert
+      expect(plan.updates).toEqual([{ row: 3, values: ['b', 'tx-2', 'new'] }]);
+      expect(plan.removals).toEqual([5]);
+      expect(plan.appends).toEqual([['c', 'tx-3', 'ddd']]);
+    });
+
+    it('should remove repeated keys', () => {
+      // Act
+      const plan = planSheetSync(
+        [{ key: 'tx-1', hash: 'aaa' }, { key: 'tx-1', hash: 'aaa' }],
+        [{ key: 'tx-1', hash: 'aaa', values: [] }]
+      );
+
+      // Assert
+      expect(plan).toEqual({ updates: [], appends: [], removals: [3] });
+    });
+  });
+
+  describe('buildMonthlySummary', () => {
+    it('should total spending per month and category against budgets, newest month first', () => {
+      // Arrange
+      const names = new Map([['cat-food', 'Groceries'], ['cat-home', 'Household']]);
+      const spending = [
+        { month: '2025-02', categoryId: 'cat-food', amount: 40 },
+        { month: '2025-03', categoryId: 'cat-food', amount: 60 },
+        { month: '2025-03', categoryId: 'cat-food', amount: 30 },
+        { month: '2025-03', categoryId: 'cat-home', amount: 10 },
+      ];
+      const budgets = [
+        { month: '2025-03', amount: 500 },
+        { month: '2025-03', categoryId: 'cat-food', amount: 80 },
+      ];
+
+      // Act
+      const rows = buildMonthlySummary(spending, budgets, names);
+
+      // Assert
+      expect(rows).toEqual([
+        ['2025-03', 'All categories', 100, 500, 400, 0.2],
+        ['2025-03', 'Groceries', 90, 80, -10, 1.125],
+        ['2025-03', 'Household', 10, '', '', ''],
+        ['2025-02', 'All categories', 40, '', '', ''],
+        ['2025-02', 'Groceries', 40, '', '', ''],
+      ]);
+    });
+  });
+
+  describe('syncTransactions', () => {
+    let syncService: GoogleSheetsSyncService;
+    let mockGoogleSheetsService: any;
+    let mockProfileRepository: any;
+    let mockTransactionService: any;
+    let mockBudgetService: any;
+
+    const splitTransaction = {
+      id: 'tx-1',
+      userId: 'user-123',
+      vendorName: 'Costco',
+      description: 'Bulk run',
+      dateTime: new Date(2025, 2, 10, 12).toISOString(),
+      amount: 90,
+      paymentType: 'Credit',
+      categoryId: 'cat-food',
+      kind: 'expense',
+      currency: 'USD',
+      splits: [
+        { categoryId: 'cat-food', amount: 60 },
+        { categoryId: 'cat-home', amount: 30 },
+      ],
+    } as TransactionResponse;
+
+    const paycheck = {
+      ...splitTransaction,
+      id: 'tx-2',
+      vendorName: 'ACME',
+      amount: 2000,
+      categoryId: 'cat-income',
+      kind: 'income',
+      splits: undefined,
+    } as TransactionResponse;
+
+    beforeEach(() => {
+      syncService = new GoogleSheetsSyncService();
+      mockGoogleSheetsService = (syncService as any).googleSheetsService;
+      mockProfileRepository = (syncService as any).profileRepository;
+      mockTransactionService = (syncService as any).transactionService;
+      mockBudgetService = (syncService as any).budgetService;
+      vi.clearAllMocks();
+    });
+
+    it('should sync keyed rows and the summary into the stored spreadsheet', async () => {
+      // Arrange
+      mockProfileRepository.findProfileById.mockResolvedValue({ id: 'user-123', googleSpreadsheetId: 'sheet-1' });
+      mockTransactionService.getTransactionsByUserId.mockResolvedValue([splitTransaction, paycheck]);
+      mockBudgetService.getBudgetsByUserId.mockResolvedValue([
+        {
+          id: 'budget-1', userId: 'user-123', month: 3, year: 2025, period: '2025-03', periodStartDay: 1,
+          startDate: new Date(2025, 2, 1), endDate: new Date(2025, 2, 31, 23, 59, 59, 999),
+          amount: 500, remaining: 410, currency: 'USD',
+        },
+      ]);
+      mockGoogleSheetsService.syncSpreadsheet.mockResolvedValue({
+        spreadsheetId: 'sheet-1', created: false, appended: 1, updated: 0, removed: 0,
+      });
+
+      // Act
+      const result = await syncService.syncTransactions('user-123', { accessToken: 'token' });
+
+      // Assert
+      const [spreadsheetId, rows, summaryRows] = mockGoogleSheetsService.syncSpreadsheet.mock.calls[0];
+      expect(spreadsheetId).toBe('sheet-1');
+      expect(rows.map((row: any) => row.key)).toEqual(['tx-1', 'tx-1#2', 'tx-2']);
+      expect(rows[1].transaction).toMatchObject({ amount: 30, categoryName: 'Household' });
+      expect(summaryRows[0]).toEqual(['2025-03', 'All categories', 90, 500, 410, 0.18]);
+      expect(mockProfileRepository.updateGoogleSpreadsheetId).not.toHaveBeenCalled();
+      expect(result).toMatchObject({
+        sheetUrl: 'https://docs.google.com/spreadsheets/d/sheet-1',
+        appended: 1,
+        transactionCount: 2,
+      });
+    });
+
+    it('should store the spreadsheet ID when a new spreadsheet was created', async () => {
+      // Arrange
+      mockProfileRepository.findProfileById.mockResolvedValue({ id: 'user-123' });
+      mockTransactionService.getTransactionsByUserId.mockResolvedValue([]);
+      mockGoogleSheetsService.syncSpreadsheet.mockResolvedValue({
+        spreadsheetId: 'sheet-new', created: true, appended: 0, updated: 0, removed: 0,
+      });
+
+      // Act
+      await syncService.syncTransactions('user-123', { accessToken: 'token', refreshToken: 'refresh' });
+
+      // Assert
+      expect(mockGoogleSheetsService.setCredentials).toHaveBeenCalledWith('token', 'refresh');
+      expect(mockGoogleSheetsService.syncSpreadsheet.mock.calls[0][0]).toBeUndefined();
+      expect(mockProfileRepository.updateGoogleSpreadsheetId).toHaveBeenCalledWith('user-123', 'sheet-new');
+    });
+  });
+});
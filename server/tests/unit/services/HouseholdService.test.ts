@@ -0,0 +1,519 @@
+/**
+ * HouseholdService Unit Tests
+ *
+ * Tests households, invitations, member roles, shared categories and budgets,
+ * and spending reports with mocked repositories
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { HouseholdService } from '../../../src/services/HouseholdService';
+import { HouseholdValidationError, HouseholdPermissionError } from '../../../src/models/Household';
+import type { Household, HouseholdInvitation } from '../../../src/models/Household';
+
+// Mock the repositories
+vi.mock('../../../src/repositories/HouseholdRepository', () => ({
+  HouseholdRepository: vi.fn().mockImplementation(() => ({
+    createHousehold: vi.fn(),
+    findHouseholdById: vi.fn(),
+    findByMember: vi.fn(),
+    updateHousehold: vi.fn(),
+    addMember: vi.fn(),
+    updateMemberRole: vi.fn(),
+    removeMember: vi.fn(),
+    deleteHousehold: vi.fn(),
+    createIndexes: vi.fn(),
+  })),
+}));
+
+vi.mock('../../../src/repositories/HouseholdInvitationRepository', () => ({
+  HouseholdInvitationRepository: vi.fn().mockImplementation(() => ({
+    createInvitation: vi.fn(),
+    findInvitationById: vi.fn(),
+    findPendingByEmail: vi.fn(),
+    findPendingByHousehold: vi.fn().mockResolvedValue([]),
+    resolvePending: vi.fn(),
+    deleteByHousehold: vi.fn(),
+    createIndexes: vi.fn(),
+  })),
+}));
+
+vi.mock('../../../src/repositories/HouseholdBudgetRepository', () => ({
+  HouseholdBudgetRepository: vi.fn().mockImplementation(() => ({
+    createBudget: vi.fn(),
+    findBudgetById: vi.fn(),
+    findByHousehold: vi.fn(),
+    findByHouseholdMonth: vi.fn().mockResolvedValue([]),
+    existsForCategory: vi.fn().mockResolvedValue(false),
+    updateAmount: vi.fn(),
+    deleteBudget: vi.fn(),
+    deleteByHousehold: vi.fn(),
+    createIndexes: vi.fn(),
+  })),
+}));
+
+vi.mock('../../../src/repositories/CategoryRepository', () => ({
+  CategoryRepository: vi.fn().mockImplementation(() => ({
+    createCategory: vi.fn(),
+    findCategoryById: vi.fn(),
+    findByHouseholdIds: vi.fn().mockResolvedValue([]),
+    findByNameAndHouseholdId: vi.fn().mockResolvedValue(null),
+    updateCategory: vi.fn(),
+    deleteCategory: vi.fn(),
+    clearHousehold: vi.fn(),
+  })),
+}));
+
+vi.mock('../../../src/repositories/ProfileRepository', () => ({
+  ProfileRepository: vi.fn().mockImplementation(() => ({
+    findProfileById: vi.fn().mockResolvedValue(null),
+    findProfileByEmail: vi.fn().mockResolvedValue(null),
+  })),
+}));
+
+vi.mock('../../../src/repositories/TransactionRepository', () => ({
+  TransactionRepository: vi.fn().mockImplementation(() => ({
+    aggregateHouseholdSpending: vi.fn().mockResolvedValue([]),
+  })),
+}));
+
+describe('HouseholdService', () => {
+  let householdService: HouseholdService;
+  let mockHouseholdRepository: any;
+  let mockInvitationRepository: any;
+  let mockBudgetRepository: any;
+  let mockCategoryRepository: any;
+  let mockProfileRepository: any;
+  let mockTransactionRepository: any;
+
+  const household: Household = {
+    id: 'house-1',
+    name: 'Maple Street',
+    currency: 'USD',
+    members: [
+      { userId: 'owner-1', role: 'owner', joinedAt: new Date('2025-01-01') },
+      { userId: 'editor-1', role: 'editor', joinedAt: new Date('2025-01-02') },
+      { userId: 'viewer-1', role: 'viewer', joinedAt: new Date('2025-01-03') },
+    ],
+  };
+
+  const invitation: HouseholdInvitation = {
+    id: 'invite-1',
+    householdId: 'house-1',
+    householdName: 'Maple Street',
+    email: 'new@example.com',
+    role: 'editor',
+    invitedBy: 'owner-1',
+    status: 'pending',
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    householdService = new HouseholdService();
+    mockHouseholdRepository = (householdService as any).householdRepository;
+    mockInvitationRepository = (householdService as any).invitationRepository;
+    mockBudgetRepository = (householdService as any).budgetRepository;
+    mockCategoryRepository = (householdService as any).categoryRepository;
+    mockProfileRepository = (householdService as any).profileRepository;
+    mockTransactionRepository = (householdService as any).transactionRepository;
+
+    mockHouseholdRepository.findHouseholdById.mockResolvedValue(household);
+  });
+
+  describe('createHousehold', () => {
+    it('should make the creator the owner', async () => {
+      // Arrange
+      mockHouseholdRepository.createHousehold.mockImplementation(async (data: any) => ({ ...data, id: 'house-2' }));
+
+      // Act
+      const result = await householdService.createHousehold('user-1', { name: ' Home ' });
+
+      // Assert
+      expect(mockHouseholdRepository.createHousehold).toHaveBeenCalledWith({
+        name: 'Home',
+        currency: 'USD',
+        members: [expect.objectContaining({ userId: 'user-1', role: 'owner' })],
+      });
+      expect(result.role).toBe('owner');
+    });
+
+    it('should throw HouseholdValidationError without a name', async () => {
+      // Act & Assert
+      await expect(householdService.createHousehold('user-1', {})).rejects.toThrow(HouseholdValidationError);
+    });
+  });
+
+  describe('getHousehold', () => {
+    it('should return null for users who are not members', async () => {
+      // Act
+      const result = await householdService.getHousehold('stranger', 'house-1');
+
+      // Assert
+      expect(result).toBeNull();
+    });
+
+    it('should include member names and the requester role', async () => {
+      // Arrange
+      mockProfileRepository.findProfileById.mockImplementation(async (id: string) =>
+        id === 'owner-1' ? { id, firstName: 'Ana', lastName: 'Silva' } : null
+      );
+
+      // Act
+      const result = await householdService.getHousehold('viewer-1', 'house-1');
+
+      // Assert
+      expect(result?.role).toBe('viewer');
+      expect(result?.members[0]).toMatchObject({ userId: 'owner-1', name: 'Ana Silva', role: 'owner' });
+    });
+  });
+
+  describe('updateHousehold', () => {
+    it('should only let the owner rename the household', async () => {
+      // Act & Assert
+      await expect(
+        householdService.updateHousehold('editor-1', 'house-1', { name: 'Oak Lane' })
+      ).rejects.toThrow(HouseholdPermissionError);
+      expect(mockHouseholdRepository.updateHousehold).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteHousehold', () => {
+    it('should remove budgets and invitations and release shared categories', async () => {
+      // Arrange
+      mockHouseholdRepository.deleteHousehold.mockResolvedValue(true);
+
+      // Act
+      const result = await householdService.deleteHousehold('owner-1', 'house-1');
+
+      // Assert
+      expect(result).toBe(true);
+      expect(mockBudgetRepository.deleteByHousehold).toHaveBeenCalledWith('house-1');
+      expect(mockInvitationRepository.deleteByHousehold).toHaveBeenCalledWith('house-1');
+      expect(mockCategoryRepository.clearHousehold).toHaveBeenCalledWith('house-1');
+    });
+  });
+
+  describe('inviteMember', () => {
+    it('should create a pending invitation that expires', async () => {
+      // Arrange
+      mockInvitationRepository.createInvitation.mockImplementation(async (data: any) => ({ ...data, id: 'invite-2' }));
+
+      // Act
+      const result = await householdService.inviteMember('owner-1', 'house-1', { email: 'New@Example.com', role: 'viewer' });
+
+      // Assert
+      expect(result).toMatchObject({ email: 'new@example.com', role: 'viewer', status: 'pending', householdName: 'Maple Street' });
+      expect(result!.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should reject inviting an existing member', async () => {
+      // Arrange
+      mockProfileRepository.findProfileByEmail.mockResolvedValue({ id: 'editor-1', email: 'editor@example.com' });
+
+      // Act & Assert
+      await expect(
+        householdService.inviteMember('owner-1', 'house-1', { email: 'editor@example.com' })
+      ).rejects.toThrow('This user is already a member');
+    });
+
+    it('should reject a second pending invitation for the same email', async () => {
+      // Arrange
+      mockInvitationRepository.findPendingByHousehold.mockResolvedValue([invitation]);
+
+      // Act & Assert
+      await expect(
+        householdService.inviteMember('owner-1', 'house-1', { email: 'new@example.com' })
+      ).rejects.toThrow(HouseholdValidationError);
+      expect(mockInvitationRepository.createInvitation).not.toHaveBeenCalled();
+    });
+
+    it('should not let editors invite', async () => {
+      // Act & Assert
+      await expect(
+        householdService.inviteMember('editor-1', 'house-1', { email: 'new@example.com' })
+      ).rejects.toThrow(HouseholdPermissionError);
+    });
+  });
+
+  describe('getMyInvitations', () => {
+    it('should list invitations sent to the verified email', async () => {
+      // Arrange
+      mockInvitationRepository.findPendingByEmail.mockResolvedValue([invitation]);
+
+      // Act
+      const result = await householdService.getMyInvitations('New@Example.com');
+
+      // Assert
+      expect(result).toHaveLength(1);
+      expect(mockInvitationRepository.findPendingByEmail).toHaveBeenCalledWith('new@example.com', expect.any(Date));
+    });
+
+    it('should list nothing without a verified email', async () => {
+      // Act
+      const result = await householdService.getMyInvitations(undefined);
+
+      // Assert
+      expect(result).toEqual([]);
+      expect(mockInvitationRepository.findPendingByEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should add the user with the invited role', async () => {
+      // Arrange
+      mockInvitationRepository.findInvitationById.mockResolvedValue(invitation);
+      mockProfileRepository.findProfileById.mockResolvedValue({ id: 'new-1', email: 'new@example.com', firstName: 'Sam', lastName: 'Lee' });
+      mockInvitationRepository.resolvePending.mockResolvedValue({ ...invitation, status: 'accepted' });
+      mockHouseholdRepository.addMember.mockImplementation(async (_id: string, member: any) => ({
+        ...household,
+        members: [...household.members, member],
+      }));
+
+      // Act
+      const result = await householdService.acceptInvitation('new-1', 'New@Example.com', 'invite-1');
+
+      // Assert
+      expect(mockInvitationRepository.resolvePending).toHaveBeenCalledWith('invite-1', 'accepted');
+      expect(mockHouseholdRepository.addMember).toHaveBeenCalledWith('house-1', expect.objectContaining({ userId: 'new-1', role: 'editor' }));
+      expect(result?.role).toBe('editor');
+    });
+
+    it("should return null for an invitation sent to someone else", async () => {
+      // Arrange
+      mockInvitationRepository.findInvitationById.mockResolvedValue(invitation);
+
+      // Act
+      const result = await householdService.acceptInvitation('other-1', 'other@example.com', 'invite-1');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockHouseholdRepository.addMember).not.toHaveBeenCalled();
+    });
+
+    it("should refuse a user who put the invitee's email on their profile", async () => {
+      // Arrange
+      mockInvitationRepository.findInvitationById.mockResolvedValue(invitation);
+      mockProfileRepository.findProfileById.mockResolvedValue({ id: 'other-1', email: 'new@example.com' });
+
+      // Act
+      const result = await householdService.acceptInvitation('other-1', 'other@example.com', 'invite-1');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockInvitationRepository.resolvePending).not.toHaveBeenCalled();
+      expect(mockHouseholdRepository.addMember).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a user whose sign-in email is not verified', async () => {
+      // Arrange
+      mockInvitationRepository.findInvitationById.mockResolvedValue(invitation);
+
+      // Act
+      const result = await householdService.acceptInvitation('new-1', undefined, 'invite-1');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockHouseholdRepository.addMember).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired invitations', async () => {
+      // Arrange
+      mockInvitationRepository.findInvitationById.mockResolvedValue({ ...invitation, expiresAt: new Date('2020-01-01') });
+
+      // Act & Assert
+      await expect(householdService.acceptInvitation('new-1', 'new@example.com', 'invite-1')).rejects.toThrow('Invitation has expired');
+    });
+  });
+
+  describe('updateMemberRole', () => {
+    it("should not change the owner's role", async () => {
+      // Act & Assert
+      await expect(
+        householdService.updateMemberRole('owner-1', 'house-1', 'owner-1', { role: 'viewer' })
+      ).rejects.toThrow(HouseholdValidationError);
+    });
+
+    it('should change a member between editor and viewer', async () => {
+      // Arrange
+      mockHouseholdRepository.updateMemberRole.mockResolvedValue(household);
+
+      // Act
+      await householdService.updateMemberRole('owner-1', 'house-1', 'viewer-1', { role: 'editor' });
+
+      // Assert
+      expect(mockHouseholdRepository.updateMemberRole).toHaveBeenCalledWith('house-1', 'viewer-1', 'editor');
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should let members leave', async () => {
+      // Arrange
+      mockHouseholdRepository.removeMember.mockResolvedValue(household);
+
+      // Act
+      const result = await householdService.removeMember('viewer-1', 'house-1', 'viewer-1');
+
+      // Assert
+      expect(result).toBe(true);
+    });
+
+    it('should not let members remove each other', async () => {
+      // Act & Assert
+      await expect(householdService.removeMember('editor-1', 'house-1', 'viewer-1')).rejects.toThrow(HouseholdPermissionError);
+    });
+
+    it('should not let the owner leave', async () => {
+      // Act & Assert
+      await expect(householdService.removeMember('owner-1', 'house-1', 'owner-1')).rejects.toThrow(HouseholdValidationError);
+      expect(mockHouseholdRepository.removeMember).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('shared categories', () => {
+    it('should create categories linked to the household', async () => {
+      // Arrange
+      mockCategoryRepository.createCategory.mockImplementation(async (data: any) => ({ ...data, id: 'cat-1' }));
+
+      // Act
+      const result = await householdService.createCategory('editor-1', 'house-1', { name: 'Groceries', type: 'expense' });
+
+      // Assert
+      expect(mockCategoryRepository.createCategory).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Groceries', userId: 'editor-1', householdId: 'house-1', kind: 'expense' })
+      );
+      expect(result?.householdId).toBe('house-1');
+    });
+
+    it('should not let viewers create categories', async () => {
+      // Act & Assert
+      await expect(
+        householdService.createCategory('viewer-1', 'house-1', { name: 'Groceries', type: 'expense' })
+      ).rejects.toThrow(HouseholdPermissionError);
+    });
+
+    it('should not delete a category a shared budget uses', async () => {
+      // Arrange
+      mockCategoryRepository.findCategoryById.mockResolvedValue({ id: 'cat-1', householdId: 'house-1' });
+      mockBudgetRepository.existsForCategory.mockResolvedValue(true);
+
+      // Act & Assert
+      await expect(householdService.deleteCategory('editor-1', 'house-1', 'cat-1')).rejects.toThrow(HouseholdValidationError);
+      expect(mockCategoryRepository.deleteCategory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createBudget', () => {
+    it('should reject categories that are not shared with the household', async () => {
+      // Arrange
+      mockCategoryRepository.findCategoryById.mockResolvedValue({ id: 'cat-9', userId: 'editor-1' });
+
+      // Act & Assert
+      await expect(
+        householdService.createBudget('editor-1', 'house-1', { month: 3, year: 2025, amount: 500, categoryId: 'cat-9' })
+      ).rejects.toThrow('Category is not shared with this household');
+    });
+
+    it('should reject a second budget for the same month and category', async () => {
+      // Arrange
+      mockBudgetRepository.findByHouseholdMonth.mockResolvedValue([{ id: 'budget-1', month: 3, year: 2025 }]);
+
+      // Act & Assert
+      await expect(
+        householdService.createBudget('editor-1', 'house-1', { month: 3, year: 2025, amount: 500 })
+      ).rejects.toThrow(HouseholdValidationError);
+    });
+  });
+
+  describe('getBudgetStatus', () => {
+    it('should split spending by member and cover all categories for the overall budget', async () => {
+      // Arrange
+      mockBudgetRepository.findByHouseholdMonth.mockResolvedValue([
+        { id: 'budget-cat', householdId: 'house-1', month: 3, year: 2025, amount: 200, categoryId: 'cat-1' },
+        { id: 'budget-all', householdId: 'house-1', month: 3, year: 2025, amount: 500 },
+      ]);
+      mockCategoryRepository.findByHouseholdIds.mockResolvedValue([
+        { id: 'cat-1', name: 'Groceries' },
+        { id: 'cat-2', name: 'Utilities' },
+      ]);
+      mockTransactionRepository.aggregateHouseholdSpending.mockResolvedValue([
+        { userId: 'owner-1', categoryId: 'cat-1', totalAmount: 120, transactionCount: 3 },
+        { userId: 'editor-1', categoryId: 'cat-1', totalAmount: 30.5, transactionCount: 1 },
+        { userId: 'editor-1', categoryId: 'cat-2', totalAmount: 80, transactionCount: 1 },
+      ]);
+
+      // Act
+      const result = await householdService.getBudgetStatus('viewer-1', 'house-1', { month: '3', year: '2025' });
+
+      // Assert
+      expect(mockTransactionRepository.aggregateHouseholdSpending).toHaveBeenCalledWith(
+        ['owner-1', 'editor-1', 'viewer-1'],
+        ['cat-1', 'cat-2'],
+        new Date(2025, 2, 1, 0, 0, 0, 0),
+        new Date(2025, 3, 0, 23, 59, 59, 999),
+        'USD'
+      );
+      expect(result?.budgets[0]).toMatchObject({ budgetId: 'budget-all', spent: 230.5, remaining: 269.5 });
+      expect(result?.budgets[1]).toMatchObject({
+        budgetId: 'budget-cat',
+        spent: 150.5,
+        byMember: [{ userId: 'owner-1', spent: 120 }, { userId: 'editor-1', spent: 30.5 }],
+      });
+    });
+  });
+
+  describe('getSpendingReport', () => {
+    const rows = [
+      { userId: 'owner-1', categoryId: 'cat-1', totalAmount: 120, transactionCount: 3 },
+      { userId: 'editor-1', categoryId: 'cat-1', totalAmount: 30, transactionCount: 1 },
+      { userId: 'editor-1', categoryId: 'cat-2', totalAmount: 200, transactionCount: 1 },
+    ];
+
+    beforeEach(() => {
+      mockCategoryRepository.findByHouseholdIds.mockResolvedValue([
+        { id: 'cat-1', name: 'Groceries' },
+        { id: 'cat-2', name: 'Utilities' },
+      ]);
+      mockTransactionRepository.aggregateHouseholdSpending.mockResolvedValue(rows);
+    });
+
+    it('should combine members into category totals', async () => {
+      // Act
+      const result = await householdService.getSpendingReport('viewer-1', 'house-1', {
+        startDate: '2025-03-01',
+        endDate: '2025-03-31',
+      });
+
+      // Assert
+      expect(result?.totalAmount).toBe(350);
+      expect(result?.categories).toEqual([
+        { categoryId: 'cat-2', categoryName: 'Utilities', totalAmount: 200, transactionCount: 1 },
+        { categoryId: 'cat-1', categoryName: 'Groceries', totalAmount: 150, transactionCount: 4 },
+      ]);
+      expect(result?.members).toBeUndefined();
+    });
+
+    it('should break spending down per member', async () => {
+      // Act
+      const result = await householdService.getSpendingReport('viewer-1', 'house-1', {
+        startDate: '2025-03-01',
+        endDate: '2025-03-31',
+        view: 'member',
+      });
+
+      // Assert
+      expect(result?.members?.map(member => [member.userId, member.totalAmount])).toEqual([
+        ['editor-1', 230],
+        ['owner-1', 120],
+        ['viewer-1', 0],
+      ]);
+      expect(result?.members?.[0].categories).toHaveLength(2);
+    });
+
+    it('should throw HouseholdValidationError when the range is reversed', async () => {
+      // Act & Assert
+      await expect(
+        householdService.getSpendingReport('viewer-1', 'house-1', { startDate: '2025-03-31', endDate: '2025-03-01' })
+      ).rejects.toThrow(HouseholdValidationError);
+    });
+  });
+});
@@ -0,0 +1,370 @@
+/**
+ * NotificationService Unit Tests
+ *
+ * Tests budget threshold alerts, channel delivery, the notification feed and the SMTP transport
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import { ObjectId } from 'mongodb';
+import { NotificationService } from '../../../src/services/NotificationService';
+import {
+  InAppChannel,
+  EmailChannel,
+  ExpoPushChannel,
+  MemoryEmailTransport,
+  SmtpEmailTransport
+} from '../../../src/services/NotificationChannels';
+import type { NotificationChannel } from '../../../src/services/NotificationChannels';
+import { NotificationValidationError } from '../../../src/models/Notification';
+import type { Budget } from '../../../src/models/Budget';
+
+// Mock the NotificationRepository
+vi.mock('../../../src/repositories/NotificationRepository', () => ({
+  NotificationRepository: vi.fn().mockImplementation(() => ({
+    createNotification: vi.fn(),
+    findHighestThreshold: vi.fn().mockResolvedValue(0),
+    findByUserId: vi.fn(),
+    countUnread: vi.fn(),
+    markAsRead: vi.fn(),
+    markAllAsRead: vi.fn(),
+    updateDeliveries: vi.fn(),
+    createIndexes: vi.fn(),
+  })),
+}));
+
+// Mock the ProfileRepository
+vi.mock('../../../src/repositories/ProfileRepository', () => ({
+  ProfileRepository: vi.fn().mockImplementation(() => ({
+    findProfileById: vi.fn().mockResolvedValue({ id: 'user-123', email: 'jo@example.com' }),
+  })),
+}));
+
+// Mock the CategoryRepository
+vi.mock('../../../src/repositories/CategoryRepository', () => ({
+  CategoryRepository: vi.fn().mockImplementation(() => ({
+    findCategoryById: vi.fn().mockResolvedValue({ id: 'cat-food', name: 'Groceries' }),
+  })),
+}));
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+  let mockNotificationRepository: any;
+  let outbox: MemoryEmailTransport;
+
+  const budgetId = new ObjectId();
+
+  const buildBudget = (overrides: Partial<Budget> = {}): Budget => ({
+    _id: budgetId,
+    id: budgetId.toString(),
+    userId: 'user-123',
+    month: 3,
+    year: 2025,
+    amount: 200,
+    remaining: 200,
+    currency: 'USD',
+    categoryId: 'cat-food',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    outbox = new MemoryEmailTransport();
+    service = new NotificationService([new InAppChannel(), new EmailChannel(outbox)]);
+    mockNotificationRepository = (service as any).notificationRepository;
+    vi.clearAllMocks();
+
+    mockNotificationRepository.createNotification.mockImplementation(async (data: any) => ({
+      ...data,
+      _id: new ObjectId(),
+      id: '',
+      createdAt: new Date(),
+    }));
+  });
+
+  describe('checkBudgetThresholds', () => {
+    it('should notify the highest newly crossed threshold on every channel', async () => {
+      // Act
+      const notification = await service.checkBudgetThresholds(buildBudget(), 170);
+
+      // Assert
+      expect(mockNotificationRepository.findHighestThreshold).toHaveBeenCalledWith(budgetId.toString());
+      expect(mockNotificationRepository.createNotification).toHaveBeenCalledTimes(1);
+      expect(notification).toMatchObject({
+        threshold: 80,
+        budgetId: budgetId.toString(),
+        title: '80% of your Groceries budget used',
+        message: "You've spent $170.00 of your $200.00 Groceries budget for March 2025.",
+        details: { percentUsed: 85, spent: 170, amount: 200, currency: 'USD' },
+        read: false,
+      });
+      expect(notification!.deliveries.map(d => [d.channel, d.status])).toEqual([['in_app', 'sent'], ['email', 'sent']]);
+      expect(mockNotificationRepository.updateDeliveries).toHaveBeenCalledWith(notification!.id, notification!.deliveries);
+      expect(outbox.outbox).toEqual([
+        expect.objectContaining({ to: 'jo@example.com', subject: '80% of your Groceries budget used' }),
+      ]);
+    });
+
+    it('should not notify a threshold that was already notified', async () => {
+      // Arrange
+      mockNotificationRepository.findHighestThreshold.mockResolvedValue(80);
+
+      // Act
+      const notification = await service.checkBudgetThresholds(buildBudget(), 190);
+
+      // Assert
+      expect(notification).toBeNull();
+      expect(mockNotificationRepository.createNotification).not.toHaveBeenCalled();
+    });
+
+    it('should mention the overspend once the overall budget is exceeded', async () => {
+      // Arrange
+      mockNotificationRepository.findHighestThreshold.mockResolvedValue(80);
+
+      // Act
+      const notification = await service.checkBudgetThresholds(buildBudget({ categoryId: undefined }), 230);
+
+      // Assert
+      expect(notification).toMatchObject({
+        threshold: 100,
+        title: '100% of your monthly budget used',
+        message: "You've spent $230.00 of your $200.00 monthly budget for March 2025. That's $30.00 over.",
+      });
+    });
+
+    it('should use the thresholds configured on the budget', async () => {
+      // Act
+      const notification = await service.checkBudgetThresholds(buildBudget({ alertThresholds: [90] }), 170);
+
+      // Assert
+      expect(notification).toBeNull();
+      expect(mockNotificationRepository.findHighestThreshold).not.toHaveBeenCalled();
+    });
+
+    it('should not notify when alerts are turned off', async () => {
+      // Act
+      const notification = await service.checkBudgetThresholds(buildBudget({ alertThresholds: [] }), 500);
+
+      // Assert
+      expect(notification).toBeNull();
+    });
+
+    it('should ignore a duplicate created by a concurrent write', async () => {
+      // Arrange
+      mockNotificationRepository.createNotification.mockRejectedValue(Object.assign(new Error('E11000'), { code: 11000 }));
+
+      // Act
+      const notification = await service.checkBudgetThresholds(buildBudget(), 120);
+
+      // Assert
+      expect(notification).toBeNull();
+      expect(outbox.outbox).toHaveLength(0);
+    });
+
+    it('should record a failing channel without stopping the others', async () => {
+      // Arrange
+      const failing: NotificationChannel = {
+        name: 'push',
+        deliver: vi.fn().mockRejectedValue(new Error('Expo is down')),
+      };
+      service = new NotificationService([failing, new EmailChannel(outbox)]);
+      mockNotificationRepository = (service as any).notificationRepository;
+      mockNotificationRepository.createNotification.mockImplementation(async (data: any) => ({ ...data, _id: new ObjectId(), id: '' }));
+
+      // Act
+      const notification = await service.checkBudgetThresholds(buildBudget(), 100);
+
+      // Assert
+      expect(notification!.deliveries).toEqual([
+        expect.objectContaining({ channel: 'push', status: 'failed', error: 'Expo is down' }),
+        expect.objectContaining({ channel: 'email', status: 'sent' }),
+      ]);
+      expect(outbox.outbox).toHaveLength(1);
+    });
+  });
+
+  describe('ExpoPushChannel', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const notification = {
+      id: 'n-1',
+      userId: 'user-123',
+      type: 'budget_threshold' as const,
+      title: '50% of your monthly budget used',
+      message: 'Halfway there',
+      read: false,
+      deliveries: [],
+    };
+
+    it('should skip users without a push token', async () => {
+      // Arrange
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+
+      // Act
+      const status = await new ExpoPushChannel().deliver(notification, { email: 'jo@example.com' });
+
+      // Assert
+      expect(status).toBe('skipped');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should send to the Expo push service and surface rejected tickets', async () => {
+      // Arrange
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ data: { status: 'ok' } }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ data: { status: 'error', message: 'DeviceNotRegistered' } }) });
+      vi.stubGlobal('fetch', fetchMock);
+      const channel = new ExpoPushChannel();
+      const recipient = { expoPushToken: 'ExponentPushToken[abc]' };
+
+      // Act
+      const status = await channel.deliver(notification, recipient);
+
+      // Assert
+      expect(status).toBe('sent');
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+        to: 'ExponentPushToken[abc]',
+        title: '50% of your monthly budget used',
+        body: 'Halfway there',
+        data: { notificationId: 'n-1' },
+      });
+      await expect(channel.deliver(notification, recipient)).rejects.toThrow('DeviceNotRegistered');
+    });
+  });
+
+  describe('SmtpEmailTransport', () => {
+    let server: net.Server;
+    let received: string[];
+
+    beforeEach(async () => {
+      received = [];
+      // Scripted stand-in SMTP server that accepts one message
+      server = net.createServer(socket => {
+        let inData = false;
+        let buffer = '';
+        socket.write('220 localhost ready\r\n');
+        socket.on('data', chunk => {
+          buffer += chunk.toString();
+          let newline: number;
+          while ((newline = buffer.indexOf('\r\n')) !== -1) {
+            const line = buffer.slice(0, newline);
+            buffer = buffer.slice(newline + 2);
+            received.push(line);
+
+            if (inData) {
+              if (line === '.') {
+                inData = false;
+                socket.write('250 queued\r\n');
+              }
+            } else if (line.startsWith('EHLO')) {
+              socket.write('250-localhost\r\n250 AUTH PLAIN\r\n');
+            } else if (line === 'STARTTLS') {
+              socket.write('502 command not implemented\r\n');
+            } else if (line.startsWith('AUTH')) {
+              socket.write('235 ok\r\n');
+            } else if (line === 'DATA') {
+              inData = true;
+              socket.write('354 go ahead\r\n');
+            } else if (line === 'QUIT') {
+              socket.end('221 bye\r\n');
+            } else {
+              socket.write('250 ok\r\n');
+            }
+          }
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should send a dot-stuffed message', async () => {
+      // Arrange
+      const transport = new SmtpEmailTransport({
+        host: '127.0.0.1',
+        port: (server.address() as AddressInfo).port,
+        secure: false,
+        from: 'Parrit <alerts@parrit.app>',
+        timeoutMs: 2000,
+      });
+
+      // Act
+      await transport.send({ to: 'jo@example.com', subject: 'Budget alert', text: 'Line one\n.hidden dot' });
+
+      // Assert
+      expect(received).toContain('MAIL FROM:<alerts@parrit.app>');
+      expect(received).toContain('RCPT TO:<jo@example.com>');
+      expect(received).toContain('Subject: Budget alert');
+      expect(received).toContain('..hidden dot');
+    });
+
+    it('should not send credentials when the server does not offer STARTTLS', async () => {
+      // Arrange
+      const transport = new SmtpEmailTransport({
+        host: '127.0.0.1',
+        port: (server.address() as AddressInfo).port,
+        secure: false,
+        user: 'parrit',
+        pass: 'secret',
+        from: 'alerts@parrit.app',
+        timeoutMs: 2000,
+      });
+
+      // Act & Assert
+      await expect(transport.send({ to: 'jo@example.com', subject: 's', text: 't' })).rejects.toThrow(/STARTTLS/i);
+      expect(received.some(line => line.startsWith('AUTH'))).toBe(false);
+      expect(received.some(line => line.startsWith('MAIL FROM'))).toBe(false);
+    });
+
+    it('should reject recipients that could inject commands', async () => {
+      // Arrange
+      const transport = new SmtpEmailTransport({ host: '127.0.0.1', port: 1, secure: false, from: 'a@b.c' });
+
+      // Act & Assert
+      await expect(
+        transport.send({ to: 'jo@example.com>\r\nRCPT TO:<x@y.z', subject: 's', text: 't' })
+      ).rejects.toThrow('Invalid recipient address');
+    });
+  });
+
+  describe('getNotifications', () => {
+    it('should return the feed with the unread count', async () => {
+      // Arrange
+      mockNotificationRepository.findByUserId.mockResolvedValue([
+        { _id: new ObjectId(), id: '', userId: 'user-123', type: 'budget_threshold', title: 't', message: 'm', read: false, deliveries: [] },
+      ]);
+      mockNotificationRepository.countUnread.mockResolvedValue(1);
+
+      // Act
+      const result = await service.getNotifications('user-123', { unread: 'true', limit: '10' });
+
+      // Assert
+      expect(mockNotificationRepository.findByUserId).toHaveBeenCalledWith('user-123', { unread: true, limit: 10 });
+      expect(result.unreadCount).toBe(1);
+      expect(result.notifications[0].id).toMatch(/^[0-9a-f]{24}$/);
+    });
+
+    it('should throw NotificationValidationError for an invalid limit', async () => {
+      // Act & Assert
+      await expect(service.getNotifications('user-123', { limit: '500' })).rejects.toThrow(NotificationValidationError);
+    });
+  });
+
+  describe('markAsRead', () => {
+    it('should return null when the notification is not the user\'s', async () => {
+      // Arrange
+      mockNotificationRepository.markAsRead.mockResolvedValue(null);
+
+      // Act
+      const result = await service.markAsRead('user-123', new ObjectId().toString());
+
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+});
@@ -22,6 +22,20 @@ vi.mock('../../../src/repositories/ProfileRepository', () => ({
   })),
 }));
 
+// Mock the TransactionRepository (currencies checked when the home currency changes)
+vi.mock('../../../src/repositories/TransactionRepository', () => ({
+  TransactionRepository: vi.fn().mockImplementation(() => ({
+    findCurrenciesByUserId: vi.fn().mockResolvedValue([]),
+  })),
+}));
+
+// Mock the ExchangeRateService
+vi.mock('../../../src/services/ExchangeRateService', () => ({
+  ExchangeRateService: vi.fn().mockImplementation(() => ({
+    findUnconvertibleCurrency: vi.fn().mockResolvedValue(null),
+  })),
+}));
+
 // Mock Firebase Admin SDK
 vi.mock('../../../src/config/firebase-admin', () => ({
   setCustomUserClaims: vi.fn().mockResolvedValue(undefined),
@@ -33,6 +47,8 @@ import { setCustomUserClaims } from '../../../src/config/firebase-admin';
 describe('ProfileService', () => {
   let profileService: ProfileService;
   let mockProfileRepository: any;
+  let mockTransactionRepository: any;
+  let mockExchangeRateService: any;
 
   beforeEach(() => {
     // Create fresh service instance
@@ -40,6 +56,8 @@ describe('ProfileService', () => {
 
     // Get the mock repository instance
     mockProfileRepository = (profileService as any).profileRepository;
+    mockTransactionRepository = (profileService as any).transactionRepository;
+    mockExchangeRateService = (profileService as any).exchangeRateService;
 
     // Clear all mocks
     vi.clearAllMocks();
@@ -83,6 +101,7 @@ describe('ProfileService', () => {
       expect(mockProfileRepository.findProfileByEmail).toHaveBeenCalledWith('john@example.com');
       expect(mockProfileRepository.createProfile).toHaveBeenCalledWith({
         ...validProfileData,
+        homeCurrency: 'USD',
         firebaseUid: 'firebase-uid-123',
       });
     });
@@ -213,56 +232,77 @@ describe('ProfileService', () => {
     });
   });
 
-  describe('getAllProfiles', () => {
-    it('should return all profiles', async () => {
+  describe('getFullProfile', () => {
+    it('should return the profile with its server-only fields', async () => {
       // Arrange
-      const mockProfiles: Profile[] = [
-        {
-          _id: { toString: () => 'profile-1' } as any,
-          id: 'profile-1',
-          firebaseUid: 'firebase-uid-1',
-          firstName: 'John',
-          lastName: 'Doe',
-          birthday: '01/15',
-          email: 'john@example.com',
-          phoneNumber: '+1234567890',
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-        {
-          _id: { toString: () => 'profile-2' } as any,
-          id: 'profile-2',
-          firebaseUid: 'firebase-uid-2',
-          firstName: 'Jane',
-          lastName: 'Smith',
-          birthday: '02/20',
-          email: 'jane@example.com',
-          phoneNumber: '+0987654321',
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-      ];
-
-      mockProfileRepository.findAllProfiles.mockResolvedValue(mockProfiles);
+      const fullProfile = { id: 'profile-id-123', email: 'john@example.com', googleRefreshToken: 'refresh-token' };
+      mockProfileRepository.findProfileById.mockResolvedValue(fullProfile);
 
       // Act
-      const result = await profileService.getAllProfiles();
+      const result = await profileService.getFullProfile('profile-id-123');
 
       // Assert
-      expect(result).toHaveLength(2);
-      expect(result[0].id).toBe('profile-1');
-      expect(result[1].id).toBe('profile-2');
+      expect(result).toEqual(fullProfile);
+      expect(mockProfileRepository.findProfileById).toHaveBeenCalledWith('profile-id-123');
     });
 
-    it('should return empty array if no profiles exist', async () => {
+    it('should throw ProfileValidationError for invalid ID format', async () => {
+      // Act & Assert
+      await expect(profileService.getFullProfile('')).rejects.toThrow(ProfileValidationError);
+      expect(mockProfileRepository.findProfileById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTimeZone', () => {
+    it('should return the profile time zone', async () => {
       // Arrange
-      mockProfileRepository.findAllProfiles.mockResolvedValue([]);
+      mockProfileRepository.findProfileById.mockResolvedValue({ id: 'profile-id-123', timeZone: 'America/Chicago' });
+
+      // Act & Assert
+      await expect(profileService.getTimeZone('profile-id-123')).resolves.toBe('America/Chicago');
+    });
+
+    it('should fall back to UTC when the profile has none or cannot be read', async () => {
+      // Arrange
+      mockProfileRepository.findProfileById.mockResolvedValueOnce({ id: 'profile-id-123' });
+      mockProfileRepository.findProfileById.mockRejectedValueOnce(new Error('Database error'));
+
+      // Act & Assert
+      await expect(profileService.getTimeZone('profile-id-123')).resolves.toBe('UTC');
+      await expect(profileService.getTimeZone('profile-id-123')).resolves.toBe('UTC');
+    });
+  });
+
+  describe('updateProfile', () => {
+    const existingProfile = { id: 'profile-id-123', firebaseUid: 'firebase-uid-123', homeCurrency: 'USD' };
+
+    beforeEach(() => {
+      mockProfileRepository.findProfileById.mockResolvedValue(existingProfile);
+      mockProfileRepository.updateProfile.mockImplementation(async (_id: string, data: any) => ({ ...existingProfile, ...data }));
+    });
+
+    it('should change the home currency when existing transactions convert into it', async () => {
+      // Arrange
+      mockTransactionRepository.findCurrenciesByUserId.mockResolvedValue(['USD', 'EUR']);
 
       // Act
-      const result = await profileService.getAllProfiles();
+      const result = await profileService.updateProfile('profile-id-123', { homeCurrency: 'gbp' });
 
       // Assert
-      expect(result).toEqual([]);
+      expect(mockExchangeRateService.findUnconvertibleCurrency).toHaveBeenCalledWith(['USD', 'EUR'], 'GBP');
+      expect(result?.homeCurrency).toBe('GBP');
+    });
+
+    it('should reject a home currency that existing transactions have no exchange rate to', async () => {
+      // Arrange
+      mockTransactionRepository.findCurrenciesByUserId.mockResolvedValue(['USD', 'EUR']);
+      mockExchangeRateService.findUnconvertibleCurrency.mockResolvedValueOnce('EUR');
+
+      // Act & Assert
+      await expect(profileService.updateProfile('profile-id-123', { homeCurrency: 'JPY' }))
+        .rejects.toMatchObject({ field: 'homeCurrency' });
+      expect(mockProfileRepository.updateProfile).not.toHaveBeenCalled();
     });
   });
+
 });
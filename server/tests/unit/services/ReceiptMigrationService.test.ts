@@ -0,0 +1,112 @@
+/**
+ * ReceiptMigrationService Unit Tests
+ *
+ * Tests copying Firestore receipts into MongoDB and relinking their transactions
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ReceiptMigrationService } from '../../../src/services/ReceiptMigrationService';
+import type { Receipt } from '../../../src/models/Receipt';
+
+vi.mock('../../../src/repositories/ReceiptRepository', () => ({
+  ReceiptRepository: vi.fn().mockImplementation(() => ({
+    createReceipt: vi.fn(),
+    findByLegacyFirestoreId: vi.fn(),
+  })),
+}));
+
+vi.mock('../../../src/repositories/TransactionRepository', () => ({
+  TransactionRepository: vi.fn().mockImplementation(() => ({
+    findByReceiptId: vi.fn(),
+    updateReceiptIdForUser: vi.fn(),
+  })),
+}));
+
+describe('ReceiptMigrationService', () => {
+  let service: ReceiptMigrationService;
+  let source: any;
+  let mockReceiptRepository: any;
+  let mockTransactionRepository: any;
+
+  const firestoreReceipt: Receipt = {
+    id: 'fs-1',
+    userId: 'user-123',
+    merchantName: 'Starbucks',
+    amount: 5.4,
+    date: new Date('2025-03-01T09:00:00Z'),
+    category: 'food',
+    paymentType: 'Card',
+    imageUrl: 'https://firebasestorage.googleapis.com/v0/b/bucket/o/receipts%2Fa.jpg?alt=media',
+    createdAt: new Date('2025-03-01T09:01:00Z'),
+  };
+
+  beforeEach(() => {
+    source = { findAllReceipts: vi.fn().mockResolvedValue([firestoreReceipt]) };
+    service = new ReceiptMigrationService(source);
+    mockReceiptRepository = (service as any).receiptRepository;
+    mockTransactionRepository = (service as any).transactionRepository;
+    mockTransactionRepository.findByReceiptId.mockResolvedValue([
+      { id: 'tx-1', userId: 'user-123', categoryId: 'cat-food', receiptId: 'fs-1' },
+    ]);
+    mockTransactionRepository.updateReceiptIdForUser.mockResolvedValue(1);
+  });
+
+  it('should copy receipts with the category ID of their transaction and relink it', async () => {
+    // Arrange
+    mockReceiptRepository.findByLegacyFirestoreId.mockResolvedValue(null);
+    mockReceiptRepository.createReceipt.mockResolvedValue({ ...firestoreReceipt, id: '', _id: 'mongo-1' });
+
+    // Act
+    const result = await service.migrate();
+
+    // Assert
+    expect(result).toEqual({ copied: 1, skipped: 0, relinked: 1, failed: 0 });
+    const { id: _id, ...fields } = firestoreReceipt;
+    expect(mockReceiptRepository.createReceipt).toHaveBeenCalledWith({
+      ...fields,
+      categoryId: 'cat-food',
+      legacyFirestoreId: 'fs-1',
+    });
+    expect(mockTransactionRepository.updateReceiptIdForUser).toHaveBeenCalledWith('user-123', 'fs-1', 'mongo-1');
+  });
+
+  it('should skip receipts copied by an earlier run but still relink their transactions', async () => {
+    // Arrange
+    mockReceiptRepository.findByLegacyFirestoreId.mockResolvedValue({ ...firestoreReceipt, id: 'mongo-1' });
+
+    // Act
+    const result = await service.migrate();
+
+    // Assert
+    expect(result).toEqual({ copied: 0, skipped: 1, relinked: 1, failed: 0 });
+    expect(mockReceiptRepository.createReceipt).not.toHaveBeenCalled();
+    expect(mockTransactionRepository.updateReceiptIdForUser).toHaveBeenCalledWith('user-123', 'fs-1', 'mongo-1');
+  });
+
+  it('should only count changes on a dry run', async () => {
+    // Arrange
+    mockReceiptRepository.findByLegacyFirestoreId.mockResolvedValue(null);
+
+    // Act
+    const result = await service.migrate({ dryRun: true });
+
+    // Assert
+    expect(result).toEqual({ copied: 1, skipped: 0, relinked: 1, failed: 0 });
+    expect(mockReceiptRepository.createReceipt).not.toHaveBeenCalled();
+    expect(mockTransactionRepository.updateReceiptIdForUser).not.toHaveBeenCalled();
+  });
+
+  it('should count receipts that fail and carry on with the rest', async () => {
+    // Arrange
+    source.findAllReceipts.mockResolvedValue([{ ...firestoreReceipt, id: 'fs-0', userId: '' }, firestoreReceipt]);
+    mockReceiptRepository.findByLegacyFirestoreId.mockResolvedValue(null);
+    mockReceiptRepository.createReceipt.mockResolvedValue({ ...firestoreReceipt, id: '', _id: 'mongo-1' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    // Act
+    const result = await service.migrate();
+
+    // Assert
+    expect(result).toEqual({ copied: 1, skipped: 0, relinked: 1, failed: 1 });
+  });
+});
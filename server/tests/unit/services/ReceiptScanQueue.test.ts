@@ -0,0 +1,312 @@
+/**
+ * ReceiptScanQueue Unit Tests
+ *
+ * Tests queueing receipt scans and running their stages with retries
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ObjectId } from 'mongodb';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ReceiptScanQueue } from '../../../src/services/ReceiptScanQueue';
+import { ReceiptValidationError } from '../../../src/models/Receipt';
+import type { ReceiptJob, ScannedReceipt } from '../../../src/models/ReceiptJob';
+
+vi.mock('../../../src/repositories/ReceiptJobRepository', () => ({
+  ReceiptJobRepository: vi.fn().mockImplementation(() => ({
+    createJob: vi.fn(),
+    findJobById: vi.fn(),
+    claimNextJob: vi.fn(),
+    updateJob: vi.fn(),
+    createIndexes: vi.fn(),
+  })),
+}));
+
+describe('ReceiptScanQueue', () => {
+  let queue: ReceiptScanQueue;
+  let receiptService: any;
+  let mockJobRepository: any;
+  let workDir: string;
+  let filePath: string;
+
+  const jobId = new ObjectId('507f1f77bcf86cd799439040');
+
+  const scanned: ScannedReceipt = {
+    merchantName: 'Starbucks',
+    amount: 5.4,
+    date: new Date('2025-03-01T09:00:00Z'),
+    paymentType: 'Card',
+    lineItems: [{ description: 'LATTE', quantity: 1, total: 5.4 }],
+  };
+
+  const scanResult = {
+    success: true,
+    id: 'receipt-1',
+    data: { merchant: 'Starbucks', total: 5.4 },
+  };
+
+  const createJob = (overrides: Partial<ReceiptJob> = {}): ReceiptJob => ({
+    _id: jobId,
+    id: '',
+    userId: 'user-123',
+    status: 'processing',
+    stage: 'ocr',
+    completedStages: [],
+    attempts: 0,
+    filePath,
+    runAfter: new Date(),
+    leaseId: 'lease-1',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'parrit-scan-'));
+    filePath = path.join(workDir, 'upload');
+    fs.writeFileSync(filePath, 'jpeg bytes');
+
+    receiptService = {
+      checkReceiptImage: vi.fn().mockResolvedValue(undefined),
+      readReceiptText: vi.fn().mockResolvedValue('STARBUCKS\nTOTAL $5.40'),
+      parseReceipt: vi.fn().mockReturnValue(scanned),
+      categorizeReceipt: vi.fn().mockResolvedValue({ ...scanned, category: 'food' }),
+      uploadReceiptImage: vi.fn().mockResolvedValue('receipts/user-123/a.jpg'),
+      saveScannedReceipt: vi.fn().mockResolvedValue(scanResult),
+      discardScannedImage: vi.fn().mockResolvedValue(undefined),
+    };
+    queue = new ReceiptScanQueue(receiptService);
+    mockJobRepository = (queue as any).jobRepository;
+    mockJobRepository.updateJob.mockResolvedValue(true);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe('enqueue', () => {
+    it('should queue a job for a readable image', async () => {
+      // Arrange
+      mockJobRepository.createJob.mockResolvedValue(createJob({ status: 'queued' }));
+
+      // Act
+      const result = await queue.enqueue('user-123', filePath);
+
+      // Assert
+      expect(result).toMatchObject({ id: jobId.toString(), status: 'queued', stage: 'ocr', progress: 0 });
+      expect(result.result).toBeUndefined();
+      expect(mockJobRepository.createJob).toHaveBeenCalledWith({ userId: 'user-123', filePath });
+    });
+
+    it('should reject a file that is not a readable image', async () => {
+      // Arrange
+      receiptService.checkReceiptImage.mockRejectedValue(new ReceiptValidationError('File is not a readable image', 'file'));
+
+      // Act & Assert
+      await expect(queue.enqueue('user-123', filePath)).rejects.toThrow(ReceiptValidationError);
+      expect(mockJobRepository.createJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processNextJob', () => {
+    it('should return false when no job is ready', async () => {
+      // Arrange
+      mockJobRepository.claimNextJob.mockResolvedValue(null);
+
+      // Act & Assert
+      expect(await queue.processNextJob()).toBe(false);
+    });
+
+    it('should run every stage, pass outputs along and complete the job', async () => {
+      // Arrange
+      mockJobRepository.claimNextJob.mockResolvedValue(createJob());
+
+      // Act
+      const processed = await queue.processNextJob();
+
+      // Assert
+      expect(processed).toBe(true);
+      expect(receiptService.parseReceipt).toHaveBeenCalledWith('STARBUCKS\nTOTAL $5.40');
+      expect(receiptService.categorizeReceipt).toHaveBeenCalledWith(scanned);
+      expect(receiptService.saveScannedReceipt).toHaveBeenCalledWith(
+        'user-123',
+        { ...scanned, category: 'food' },
+        'receipts/user-123/a.jpg',
+        jobId.toString()
+      );
+
+      const [id, leaseId, update, unset] = mockJobRepository.updateJob.mock.calls.at(-1);
+      expect(id).toBe(jobId.toString());
+      expect(leaseId).toBe('lease-1');
+      expect(update).toMatchObject({
+        status: 'completed',
+        completedStages: ['ocr', 'parse', 'categorize', 'upload', 'save'],
+        result: scanResult,
+      });
+      expect(update.expiresAt).toBeInstanceOf(Date);
+      expect(unset).toEqual(['lockedUntil', 'leaseId', 'error']);
+      expect(fs.existsSync(filePath)).toBe(false);
+    });
+
+    it('should stop once another worker has taken over the lease', async () => {
+      // Arrange
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockJobRepository.claimNextJob.mockResolvedValue(createJob());
+      mockJobRepository.updateJob.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+      // Act
+      await queue.processNextJob();
+
+      // Assert
+      expect(mockJobRepository.updateJob).toHaveBeenCalledTimes(2);
+      expect(receiptService.categorizeReceipt).not.toHaveBeenCalled();
+      expect(fs.existsSync(filePath)).toBe(true);
+    });
+
+    it('should resume a retried job at the stage that failed', async () => {
+      // Arrange
+      mockJobRepository.claimNextJob.mockResolvedValue(createJob({
+        stage: 'upload',
+        completedStages: ['ocr', 'parse', 'categorize'],
+        attempts: 1,
+        text: 'STARBUCKS\nTOTAL $5.40',
+        receipt: { ...scanned, category: 'food' },
+      }));
+
+      // Act
+      await queue.processNextJob();
+
+      // Assert
+      expect(receiptService.readReceiptText).not.toHaveBeenCalled();
+      expect(receiptService.categorizeReceipt).not.toHaveBeenCalled();
+      expect(receiptService.uploadReceiptImage).toHaveBeenCalledWith('user-123', filePath);
+      expect(mockJobRepository.updateJob.mock.calls.at(-1)[2].status).toBe('completed');
+    });
+
+    it('should requeue a failed stage with a backoff and keep the upload', async () => {
+      // Arrange
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      receiptService.uploadReceiptImage.mockRejectedValue(new Error('storage unavailable'));
+      mockJobRepository.claimNextJob.mockResolvedValue(createJob());
+      const before = Date.now();
+
+      // Act
+      await queue.processNextJob();
+
+      // Assert
+      const [, , update, unset] = mockJobRepository.updateJob.mock.calls.at(-1);
+      expect(update).toMatchObject({ status: 'queued', attempts: 1, error: 'Failed to process receipt' });
+      expect(update.runAfter.getTime()).toBeGreaterThanOrEqual(before + 2000);
+      expect(unset).toEqual(['lockedUntil', 'leaseId']);
+
+      // Earlier stages' outputs were saved as they finished
+      const stageUpdates = mockJobRepository.updateJob.mock.calls.map((call: any[]) => call[2]);
+      expect(stageUpdates[2]).toMatchObject({ stage: 'upload', completedStages: ['ocr', 'parse', 'categorize'] });
+      expect(fs.existsSync(filePath)).toBe(true);
+    });
+
+    it('should fail the job once a stage is out of attempts', async () => {
+      // Arrange
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      receiptService.readReceiptText.mockRejectedValue(new Error('Vision API quota exceeded'));
+      mockJobRepository.claimNextJob.mockResolvedValue(createJob({ attempts: 2 }));
+
+      // Act
+      await queue.processNextJob();
+
+      // Assert
+      expect(mockJobRepository.updateJob).toHaveBeenCalledTimes(1);
+      const [, , update] = mockJobRepository.updateJob.mock.calls[0];
+      expect(update).toMatchObject({ status: 'failed', attempts: 3, error: 'Failed to process receipt' });
+      expect(update.expiresAt).toBeInstanceOf(Date);
+      expect(receiptService.parseReceipt).not.toHaveBeenCalled();
+      expect(receiptService.discardScannedImage).not.toHaveBeenCalled();
+      expect(fs.existsSync(filePath)).toBe(false);
+    });
+
+    it('should fail a job reclaimed after its lease ran out once it is out of attempts', async () => {
+      // Arrange
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockJobRepository.claimNextJob.mockResolvedValue(createJob({
+        stage: 'parse',
+        completedStages: ['ocr'],
+        attempts: 3,
+        text: 'STARBUCKS\nTOTAL $5.40',
+        lockedUntil: new Date(Date.now() - 1000),
+      }));
+
+      // Act
+      await queue.processNextJob();
+
+      // Assert
+      expect(receiptService.parseReceipt).not.toHaveBeenCalled();
+      expect(mockJobRepository.updateJob).toHaveBeenCalledTimes(1);
+      const [, leaseId, update] = mockJobRepository.updateJob.mock.calls[0];
+      expect(leaseId).toBe('lease-1');
+      expect(update).toMatchObject({ status: 'failed', attempts: 3, error: 'Failed to process receipt' });
+      expect(fs.existsSync(filePath)).toBe(false);
+    });
+
+    it('should discard the stored image when a job fails after its upload', async () => {
+      // Arrange
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      receiptService.saveScannedReceipt.mockRejectedValue(new Error('receipt store unavailable'));
+      mockJobRepository.claimNextJob.mockResolvedValue(createJob({
+        stage: 'save',
+        completedStages: ['ocr', 'parse', 'categorize', 'upload'],
+        attempts: 2,
+        receipt: { ...scanned, category: 'food' },
+        imageKey: 'receipts/user-123/a.jpg',
+      }));
+
+      // Act
+      await queue.processNextJob();
+
+      // Assert
+      expect(mockJobRepository.updateJob.mock.calls[0][2].status).toBe('failed');
+      expect(receiptService.discardScannedImage).toHaveBeenCalledWith(jobId.toString(), 'receipts/user-123/a.jpg');
+    });
+  });
+
+  describe('drain', () => {
+    it('should process jobs until none is ready', async () => {
+      // Arrange
+      mockJobRepository.claimNextJob
+        .mockResolvedValueOnce(createJob())
+        .mockResolvedValueOnce(createJob())
+        .mockResolvedValueOnce(null);
+
+      // Act & Assert
+      expect(await queue.drain()).toBe(2);
+    });
+  });
+
+  describe('getJob', () => {
+    it('should include the result of a completed job', async () => {
+      // Arrange
+      mockJobRepository.findJobById.mockResolvedValue(createJob({
+        status: 'completed',
+        stage: 'save',
+        completedStages: ['ocr', 'parse', 'categorize', 'upload', 'save'],
+        result: scanResult as any,
+      }));
+
+      // Act
+      const result = await queue.getJob('user-123', jobId.toString());
+
+      // Assert
+      expect(result).toMatchObject({ status: 'completed', progress: 100, result: scanResult });
+      expect(result).not.toHaveProperty('filePath');
+      expect(mockJobRepository.findJobById).toHaveBeenCalledWith(jobId.toString(), 'user-123');
+    });
+
+    it("should return null for a missing or another user's job", async () => {
+      // Arrange
+      mockJobRepository.findJobById.mockResolvedValue(null);
+
+      // Act & Assert
+      expect(await queue.getJob('user-456', jobId.toString())).toBeNull();
+    });
+  });
+});
@@ -4,7 +4,7 @@
  * Tests the business logic layer for receipts with mocked dependencies
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ReceiptService } from '../../../src/services/ReceiptService';
 import { ReceiptValidationError } from '../../../src/models/Receipt';
 import type { Receipt } from '../../../src/models/Receipt';
@@ -12,113 +12,114 @@ import type { Receipt } from '../../../src/models/Receipt';
 // Mock the ReceiptRepository
 vi.mock('../../../src/repositories/ReceiptRepository', () => ({
   ReceiptRepository: vi.fn().mockImplementation(() => ({
+    name: 'mongo',
     createReceipt: vi.fn(),
     findReceiptById: vi.fn(),
     findAllReceipts: vi.fn(),
     findByUserId: vi.fn(),
+    findByScanJobId: vi.fn(),
     updateReceipt: vi.fn(),
     deleteReceipt: vi.fn(),
     createIndexes: vi.fn(),
   })),
 }));
 
-import { ReceiptRepository } from '../../../src/repositories/ReceiptRepository';
+import { createReceiptStore } from '../../../src/repositories/ReceiptStore';
+import { FirestoreReceiptRepository } from '../../../src/repositories/FirestoreReceiptRepository';
 
 describe('ReceiptService', () => {
   let receiptService: ReceiptService;
   let mockReceiptRepository: any;
+  let mockObjectStorage: any;
+
+  const existingReceipt: Receipt = {
+    id: 'receipt-123',
+    userId: 'user-123',
+    merchantName: 'Target',
+    date: new Date('2025-01-26T10:00:00Z'),
+    amount: 75.25,
+    categoryId: 'cat-123',
+    category: 'misc',
+    paymentType: 'Card',
+    imageUrl: 'https://example.com/receipt.jpg',
+    notes: 'Home supplies',
+  };
 
   beforeEach(() => {
-    receiptService = new ReceiptService();
+    mockObjectStorage = {
+      name: 'local',
+      upload: vi.fn(),
+      delete: vi.fn(),
+      getSignedUrl: vi.fn(),
+    };
+    receiptService = new ReceiptService(undefined, mockObjectStorage);
     mockReceiptRepository = (receiptService as any).receiptRepository;
     vi.clearAllMocks();
   });
 
   describe('createReceipt', () => {
     const validReceiptData = {
-      userId: 'user-123',
       merchantName: 'Target',
-      date: new Date('2025-01-26T10:00:00Z'),
+      date: '2025-01-26T10:00:00Z',
       amount: 75.25,
-      categoryId: 'cat-123',
+      category: 'misc',
+      paymentType: 'Card',
       imageUrl: 'https://example.com/receipt.jpg',
       notes: 'Home supplies',
     };
 
-    const mockCreatedReceipt: Receipt = {
-      id: 'receipt-123',
-      ...validReceiptData,
-    };
-
-    it('should create a receipt successfully with valid data', async () => {
+    it('should create a receipt for the user in the route', async () => {
       // Arrange
-      mockReceiptRepository.createReceipt.mockResolvedValue(mockCreatedReceipt);
+      mockReceiptRepository.createReceipt.mockResolvedValue(existingReceipt);
 
       // Act
-      const result = await receiptService.createReceipt(validReceiptData);
+      const result = await receiptService.createReceipt('user-123', { ...validReceiptData, userId: 'user-456' });
 
       // Assert
-      expect(result).toBeDefined();
       expect(result.id).toBe('receipt-123');
       expect(result.merchantName).toBe('Target');
-      expect(result.amount).toBe(75.25);
-      expect(result.imageUrl).toBe('https://example.com/receipt.jpg');
-      expect(mockReceiptRepository.createReceipt).toHaveBeenCalledWith(validReceiptData);
+      expect(result.paymentType).toBe('Card');
+      expect(mockReceiptRepository.createReceipt).toHaveBeenCalledWith({
+        ...validReceiptData,
+        userId: 'user-123',
+        date: new Date('2025-01-26T10:00:00Z'),
+      });
     });
 
     it('should throw ReceiptValidationError for missing required fields', async () => {
-      // Arrange
-      const incompleteData = { userId: 'user-123' };
-
       // Act & Assert
       await expect(
-        receiptService.createReceipt(incompleteData)
+        receiptService.createReceipt('user-123', { notes: 'Lunch' })
       ).rejects.toThrow(ReceiptValidationError);
+      expect(mockReceiptRepository.createReceipt).not.toHaveBeenCalled();
     });
 
     it('should throw ReceiptValidationError for invalid amount (negative)', async () => {
-      // Arrange
-      const invalidData = { ...validReceiptData, amount: -100 };
-
       // Act & Assert
       await expect(
-        receiptService.createReceipt(invalidData)
+        receiptService.createReceipt('user-123', { ...validReceiptData, amount: -100 })
       ).rejects.toThrow(ReceiptValidationError);
     });
 
     it('should throw ReceiptValidationError for invalid URL format', async () => {
-      // Arrange
-      const invalidData = { ...validReceiptData, imageUrl: 'not-a-url' };
-
       // Act & Assert
       await expect(
-        receiptService.createReceipt(invalidData)
+        receiptService.createReceipt('user-123', { ...validReceiptData, imageUrl: 'not-a-url' })
       ).rejects.toThrow(ReceiptValidationError);
     });
   });
 
   describe('getReceiptById', () => {
-    const mockReceipt: Receipt = {
-      id: 'receipt-123',
-      userId: 'user-123',
-      merchantName: 'Target',
-      date: new Date('2025-01-26T10:00:00Z'),
-      amount: 75.25,
-      categoryId: 'cat-123',
-      imageUrl: 'https://example.com/receipt.jpg',
-      notes: 'Home supplies',
-    };
-
     it('should return receipt if found', async () => {
       // Arrange
-      mockReceiptRepository.findReceiptById.mockResolvedValue(mockReceipt);
+      mockReceiptRepository.findReceiptById.mockResolvedValue(existingReceipt);
 
       // Act
-      const result = await receiptService.getReceiptById('receipt-123');
+      const result = await receiptService.getReceiptById('user-123', 'receipt-123');
 
       // Assert
-      expect(result).toBeDefined();
       expect(result?.id).toBe('receipt-123');
+      expect(result?.category).toBe('misc');
       expect(mockReceiptRepository.findReceiptById).toHaveBeenCalledWith('receipt-123');
     });
 
@@ -127,95 +128,56 @@ describe('ReceiptService', () => {
       mockReceiptRepository.findReceiptById.mockResolvedValue(null);
 
       // Act
-      const result = await receiptService.getReceiptById('non-existent-id');
+      const result = await receiptService.getReceiptById('user-123', 'non-existent-id');
 
       // Assert
       expect(result).toBeNull();
     });
 
-    it('should throw ReceiptValidationError for invalid ID format', async () => {
-      // Act & Assert
-      await expect(receiptService.getReceiptById('')).rejects.toThrow(ReceiptValidationError);
-      expect(mockReceiptRepository.findReceiptById).not.toHaveBeenCalled();
-    });
-  });
-
-  describe('getAllReceipts', () => {
-    it('should return all receipts', async () => {
+    it("should return null for another user's receipt", async () => {
       // Arrange
-      const mockReceipts: Receipt[] = [
-        {
-          id: 'receipt-1',
-          userId: 'user-123',
-          merchantName: 'Store A',
-          date: new Date(),
-          amount: 50.00,
-          categoryId: 'cat-123',
-          imageUrl: 'https://example.com/r1.jpg',
-          notes: 'Purchase',
-        },
-        {
-          id: 'receipt-2',
-          userId: 'user-456',
-          merchantName: 'Store B',
-          date: new Date(),
-          amount: 75.00,
-          categoryId: 'cat-456',
-          imageUrl: 'https://example.com/r2.jpg',
-          notes: 'Purchase',
-        },
-      ];
-
-      mockReceiptRepository.findAllReceipts.mockResolvedValue(mockReceipts);
+      mockReceiptRepository.findReceiptById.mockResolvedValue(existingReceipt);
 
       // Act
-      const result = await receiptService.getAllReceipts();
+      const result = await receiptService.getReceiptById('user-456', 'receipt-123');
 
       // Assert
-      expect(result).toHaveLength(2);
-      expect(result[0].id).toBe('receipt-1');
-      expect(result[1].id).toBe('receipt-2');
+      expect(result).toBeNull();
     });
 
-    it('should return empty array if no receipts exist', async () => {
+    it('should throw ReceiptValidationError for invalid ID format', async () => {
+      // Act & Assert
+      await expect(receiptService.getReceiptById('user-123', '')).rejects.toThrow(ReceiptValidationError);
+      expect(mockReceiptRepository.findReceiptById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getReceiptsByUserId', () => {
+    it("should return the user's receipts", async () => {
       // Arrange
-      mockReceiptRepository.findAllReceipts.mockResolvedValue([]);
+      mockReceiptRepository.findByUserId.mockResolvedValue([existingReceipt, { ...existingReceipt, id: 'receipt-2' }]);
 
       // Act
-      const result = await receiptService.getAllReceipts();
+      const result = await receiptService.getReceiptsByUserId('user-123');
 
       // Assert
-      expect(result).toEqual([]);
+      expect(result.map((receipt) => receipt.id)).toEqual(['receipt-123', 'receipt-2']);
+      expect(mockReceiptRepository.findByUserId).toHaveBeenCalledWith('user-123');
     });
   });
 
   describe('updateReceipt', () => {
-    const existingReceipt: Receipt = {
-      id: 'receipt-123',
-      userId: 'user-123',
-      merchantName: 'Target',
-      date: new Date('2025-01-26T10:00:00Z'),
-      amount: 75.25,
-      categoryId: 'cat-123',
-      imageUrl: 'https://example.com/receipt.jpg',
-      notes: 'Home supplies',
-    };
-
     it('should update a receipt with valid data', async () => {
       // Arrange
-      const updateData = { amount: 80.00 };
-      const updatedReceipt: Receipt = { ...existingReceipt, amount: 80.00 };
-
       mockReceiptRepository.findReceiptById.mockResolvedValue(existingReceipt);
-      mockReceiptRepository.updateReceipt.mockResolvedValue(updatedReceipt);
+      mockReceiptRepository.updateReceipt.mockResolvedValue({ ...existingReceipt, amount: 80 });
 
       // Act
-      const result = await receiptService.updateReceipt('receipt-123', updateData);
+      const result = await receiptService.updateReceipt('user-123', 'receipt-123', { amount: 80, userId: 'user-456' });
 
       // Assert
-      expect(result).toBeDefined();
-      expect(result?.amount).toBe(80.00);
-      expect(mockReceiptRepository.updateReceipt).toHaveBeenCalledWith('receipt-123', updateData);
+      expect(result?.amount).toBe(80);
+      expect(mockReceiptRepository.updateReceipt).toHaveBeenCalledWith('receipt-123', { amount: 80 });
     });
 
     it('should return null if receipt not found', async () => {
@@ -223,49 +185,214 @@ describe('ReceiptService', () => {
       mockReceiptRepository.findReceiptById.mockResolvedValue(null);
 
       // Act
-      const result = await receiptService.updateReceipt('non-existent-id', { amount: 80.00 });
+      const result = await receiptService.updateReceipt('user-123', 'non-existent-id', { amount: 80 });
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockReceiptRepository.updateReceipt).not.toHaveBeenCalled();
+    });
+
+    it("should not update another user's receipt", async () => {
+      // Arrange
+      mockReceiptRepository.findReceiptById.mockResolvedValue(existingReceipt);
+
+      // Act
+      const result = await receiptService.updateReceipt('user-456', 'receipt-123', { amount: 80 });
 
       // Assert
       expect(result).toBeNull();
       expect(mockReceiptRepository.updateReceipt).not.toHaveBeenCalled();
     });
 
+    it('should throw ReceiptValidationError for invalid data', async () => {
+      // Act & Assert
+      await expect(
+        receiptService.updateReceipt('user-123', 'receipt-123', { amount: -5 })
+      ).rejects.toThrow(ReceiptValidationError);
+      expect(mockReceiptRepository.updateReceipt).not.toHaveBeenCalled();
+    });
+
     it('should throw ReceiptValidationError for invalid ID', async () => {
       // Act & Assert
       await expect(
-        receiptService.updateReceipt('', { amount: 80.00 })
+        receiptService.updateReceipt('user-123', '', { amount: 80 })
       ).rejects.toThrow(ReceiptValidationError);
     });
   });
 
+  describe('getReceiptImageLink', () => {
+    it('should sign a link to the stored image', async () => {
+      // Arrange
+      mockReceiptRepository.findReceiptById.mockResolvedValue({ ...existingReceipt, imageKey: 'receipts/user-123/a.jpg' });
+      mockObjectStorage.getSignedUrl.mockResolvedValue('http://localhost:3000/api/v1/files/receipts/user-123/a.jpg?signature=x');
+
+      // Act
+      const result = await receiptService.getReceiptImageLink('user-123', 'receipt-123');
+
+      // Assert
+      expect(result?.url).toBe('http://localhost:3000/api/v1/files/receipts/user-123/a.jpg?signature=x');
+      expect(result?.expiresAt).toBeInstanceOf(Date);
+      expect(mockObjectStorage.getSignedUrl).toHaveBeenCalledWith('receipts/user-123/a.jpg', 900);
+    });
+
+    it('should link images hosted elsewhere as they are', async () => {
+      // Arrange
+      mockReceiptRepository.findReceiptById.mockResolvedValue(existingReceipt);
+
+      // Act
+      const result = await receiptService.getReceiptImageLink('user-123', 'receipt-123');
+
+      // Assert
+      expect(result).toEqual({ url: 'https://example.com/receipt.jpg', expiresAt: null });
+      expect(mockObjectStorage.getSignedUrl).not.toHaveBeenCalled();
+    });
+
+    it("should return null for a receipt without an image or another user's receipt", async () => {
+      // Arrange
+      mockReceiptRepository.findReceiptById
+        .mockResolvedValueOnce({ ...existingReceipt, imageUrl: undefined })
+        .mockResolvedValueOnce({ ...existingReceipt, imageKey: 'receipts/user-123/a.jpg' });
+
+      // Act
+      const withoutImage = await receiptService.getReceiptImageLink('user-123', 'receipt-123');
+      const notOwned = await receiptService.getReceiptImageLink('user-456', 'receipt-123');
+
+      // Assert
+      expect(withoutImage).toBeNull();
+      expect(notOwned).toBeNull();
+      expect(mockObjectStorage.getSignedUrl).not.toHaveBeenCalled();
+    });
+  });
+
   describe('deleteReceipt', () => {
-    it('should delete receipt successfully', async () => {
+    it('should delete the receipt and its stored image', async () => {
       // Arrange
+      mockReceiptRepository.findReceiptById.mockResolvedValue({ ...existingReceipt, imageKey: 'receipts/user-123/a.jpg' });
       mockReceiptRepository.deleteReceipt.mockResolvedValue(true);
 
       // Act
-      const result = await receiptService.deleteReceipt('receipt-123');
+      const result = await receiptService.deleteReceipt('user-123', 'receipt-123');
 
       // Assert
       expect(result).toBe(true);
+      expect(mockObjectStorage.delete).toHaveBeenCalledWith('receipts/user-123/a.jpg');
       expect(mockReceiptRepository.deleteReceipt).toHaveBeenCalledWith('receipt-123');
     });
 
-    it('should return false if receipt not found', async () => {
+    it('should delete the receipt even when the image cannot be deleted', async () => {
+      // Arrange
+      mockReceiptRepository.findReceiptById.mockResolvedValue({ ...existingReceipt, imageKey: 'receipts/user-123/a.jpg' });
+      mockReceiptRepository.deleteReceipt.mockResolvedValue(true);
+      mockObjectStorage.delete.mockRejectedValue(new Error('storage unavailable'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      // Act
+      const result = await receiptService.deleteReceipt('user-123', 'receipt-123');
+
+      // Assert
+      expect(result).toBe(true);
+    });
+
+    it("should return false for a missing or another user's receipt", async () => {
       // Arrange
-      mockReceiptRepository.deleteReceipt.mockResolvedValue(false);
+      mockReceiptRepository.findReceiptById.mockResolvedValueOnce(null).mockResolvedValueOnce(existingReceipt);
 
       // Act
-      const result = await receiptService.deleteReceipt('non-existent-id');
+      const missing = await receiptService.deleteReceipt('user-123', 'non-existent-id');
+      const notOwned = await receiptService.deleteReceipt('user-456', 'receipt-123');
 
       // Assert
-      expect(result).toBe(false);
+      expect(missing).toBe(false);
+      expect(notOwned).toBe(false);
+      expect(mockReceiptRepository.deleteReceipt).not.toHaveBeenCalled();
+      expect(mockObjectStorage.delete).not.toHaveBeenCalled();
     });
 
     it('should throw ReceiptValidationError for invalid ID', async () => {
       // Act & Assert
-      await expect(receiptService.deleteReceipt('')).rejects.toThrow(ReceiptValidationError);
+      await expect(receiptService.deleteReceipt('user-123', '')).rejects.toThrow(ReceiptValidationError);
       expect(mockReceiptRepository.deleteReceipt).not.toHaveBeenCalled();
     });
   });
+
+  describe('saveScannedReceipt', () => {
+    const scanned = {
+      merchantName: 'Starbucks',
+      amount: 5.4,
+      date: new Date('2025-03-01T09:00:00Z'),
+      paymentType: 'Card',
+      lineItems: [{ description: 'LATTE', quantity: 1, unitPrice: 5.4, total: 5.4 }],
+      category: 'food',
+    };
+
+    it('should save the receipt keyed on the scan job', async () => {
+      // Arrange
+      mockReceiptRepository.findByScanJobId.mockResolvedValue(null);
+      mockReceiptRepository.createReceipt.mockResolvedValue({ ...existingReceipt, id: 'receipt-new' });
+
+      // Act
+      const result = await receiptService.saveScannedReceipt('user-123', scanned, 'receipts/user-123/a.jpg', 'job-1');
+
+      // Assert
+      expect(result.id).toBe('receipt-new');
+      expect(mockReceiptRepository.createReceipt).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-123', imageKey: 'receipts/user-123/a.jpg', scanJobId: 'job-1' })
+      );
+    });
+
+    it('should return the receipt an earlier try saved instead of saving it again', async () => {
+      // Arrange
+      mockReceiptRepository.findByScanJobId.mockResolvedValue({ ...existingReceipt, id: 'receipt-saved' });
+
+      // Act
+      const result = await receiptService.saveScannedReceipt('user-123', scanned, 'receipts/user-123/a.jpg', 'job-1');
+
+      // Assert
+      expect(result.id).toBe('receipt-saved');
+      expect(mockReceiptRepository.findByScanJobId).toHaveBeenCalledWith('job-1');
+      expect(mockReceiptRepository.createReceipt).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('discardScannedImage', () => {
+    it('should delete the image of a scan that saved no receipt', async () => {
+      // Arrange
+      mockReceiptRepository.findByScanJobId.mockResolvedValue(null);
+
+      // Act
+      await receiptService.discardScannedImage('job-1', 'receipts/user-123/a.jpg');
+
+      // Assert
+      expect(mockObjectStorage.delete).toHaveBeenCalledWith('receipts/user-123/a.jpg');
+    });
+
+    it('should keep an image a saved receipt uses', async () => {
+      // Arrange
+      mockReceiptRepository.findByScanJobId.mockResolvedValue(existingReceipt);
+
+      // Act
+      await receiptService.discardScannedImage('job-1', 'receipts/user-123/a.jpg');
+
+      // Assert
+      expect(mockObjectStorage.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createReceiptStore', () => {
+    afterEach(() => {
+      delete process.env.RECEIPT_STORE;
+    });
+
+    it('should store receipts in MongoDB by default', () => {
+      expect(createReceiptStore().name).toBe('mongo');
+    });
+
+    it('should use the Firestore adapter when configured', () => {
+      // Arrange
+      process.env.RECEIPT_STORE = 'firestore';
+
+      // Act & Assert
+      expect(createReceiptStore()).toBeInstanceOf(FirestoreReceiptRepository);
+    });
+  });
 });
@@ -0,0 +1,142 @@
+/**
+ * ReceiptTextParser Unit Tests
+ *
+ * Tests reading line items, subtotal, tax and tip from OCR text, reconciling
+ * them against the total and splitting the total by item category
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  extractReceiptAmounts,
+  parseLineItems,
+  parseReceiptText,
+  reconcileReceipt,
+  splitByCategory,
+} from '../../../src/services/ReceiptTextParser';
+
+const GROCERY_RECEIPT = `TRADER JOE'S
+123 Main St
+10/12/2025 12:31
+BANANAS
+2 @ 0.29 0.58
+2 x ORGANIC MILK 7.98
+BREAD 012345678901 3.49 F
+CHEESE 2.5 lb @ 4.00/lb 10.00
+COUPON 1.00-
+SUBTOTAL 21.05
+TAX 8.25% 1.74
+TOTAL 22.79
+VISA 22.79
+CHANGE 0.00`;
+
+describe('ReceiptTextParser', () => {
+  describe('parseLineItems', () => {
+    it('should read descriptions, quantities, unit prices and line totals', () => {
+      expect(parseLineItems(GROCERY_RECEIPT)).toEqual([
+        { description: 'BANANAS', quantity: 2, unitPrice: 0.29, total: 0.58 },
+        { description: 'ORGANIC MILK', quantity: 2, unitPrice: 3.99, total: 7.98 },
+        { description: 'BREAD', quantity: 1, unitPrice: 3.49, total: 3.49 },
+        { description: 'CHEESE', quantity: 2.5, unitPrice: 4, total: 10 },
+        { description: 'COUPON', quantity: 1, unitPrice: -1, total: -1 },
+      ]);
+    });
+
+    it('should apply a quantity line to the item above it', () => {
+      expect(parseLineItems('LATTE 9.00\n3 @ 3.00')).toEqual([
+        { description: 'LATTE', quantity: 3, unitPrice: 3, total: 9 },
+      ]);
+    });
+
+    it('should skip totals, payments and lines without a price', () => {
+      expect(parseLineItems('Joe\'s Diner\nTable 4\nSubtotal 12.00\nCash 20.00\nChange 8.00')).toEqual([]);
+    });
+  });
+
+  describe('extractReceiptAmounts', () => {
+    it('should read subtotal, tax and tip', () => {
+      expect(extractReceiptAmounts('Subtotal: $40.00\nSales Tax $3.20\nTip $8.00\nTotal $51.20'))
+        .toEqual({ subtotal: 40, tax: 3.2, tip: 8 });
+    });
+
+    it('should add up several tax lines and read amounts printed on the next line', () => {
+      expect(extractReceiptAmounts('SUBTOTAL\n10.00\nGST 0.50\nPST 0.70')).toEqual({ subtotal: 10, tax: 1.2 });
+    });
+
+    it('should ignore suggested tips', () => {
+      expect(extractReceiptAmounts('Suggested tip 18%: 3.60\n20% tip 4.00')).toEqual({});
+    });
+  });
+
+  describe('reconcileReceipt', () => {
+    const items = [
+      { description: 'Burger', quantity: 1, unitPrice: 12, total: 12 },
+      { description: 'Fries', quantity: 1, unitPrice: 4, total: 4 },
+    ];
+
+    it('should match when items, tax and tip add up to the total', () => {
+      expect(reconcileReceipt(items, { subtotal: 16, tax: 1.28, tip: 3 }, 20.28)).toEqual({
+        itemsTotal: 16,
+        computedTotal: 20.28,
+        difference: 0,
+        matches: true,
+        warnings: [],
+      });
+    });
+
+    it('should tolerate a cent of rounding', () => {
+      expect(reconcileReceipt(items, { tax: 1.28 }, 17.29).matches).toBe(true);
+    });
+
+    it('should warn when items miss the subtotal or the sum misses the total', () => {
+      // Act
+      const result = reconcileReceipt(items, { subtotal: 18, tax: 1.44 }, 25);
+
+      // Assert
+      expect(result.matches).toBe(false);
+      expect(result.difference).toBe(5.56);
+      expect(result.warnings).toEqual([
+        'Line items add up to 16.00 but the subtotal is 18.00',
+        'Items, tax and tip add up to 19.44 but the total is 25.00',
+      ]);
+    });
+  });
+
+  describe('splitByCategory', () => {
+    it('should share tax and tip across categories so splits add up to the total', () => {
+      // Arrange
+      const items = [
+        { description: 'Milk', quantity: 1, unitPrice: 3.33, total: 3.33, category: 'food' },
+        { description: 'Soap', quantity: 1, unitPrice: 3.33, total: 3.33, category: 'misc' },
+        { description: 'Candle', quantity: 1, unitPrice: 3.34, total: 3.34 },
+      ];
+
+      // Act
+      const splits = splitByCategory(items, 10.83, 'gift');
+
+      // Assert
+      expect(splits.map((split) => split.category)).toEqual(['gift', 'food', 'misc']);
+      expect(splits.reduce((sum, split) => sum + split.amount * 100, 0)).toBe(1083);
+    });
+
+    it('should return no splits when there are no priced items', () => {
+      expect(splitByCategory([], 10, 'misc')).toEqual([]);
+    });
+  });
+
+  describe('parseReceiptText', () => {
+    it('should read items and amounts and reconcile them against the total', () => {
+      // Act
+      const result = parseReceiptText(GROCERY_RECEIPT, 22.79);
+
+      // Assert
+      expect(result.lineItems).toHaveLength(5);
+      expect(result.subtotal).toBe(21.05);
+      expect(result.tax).toBe(1.74);
+      expect(result.reconciliation?.matches).toBe(true);
+    });
+
+    it('should leave out the reconciliation when there is nothing to compare', () => {
+      expect(parseReceiptText('STARBUCKS\nTOTAL 5.40', 5.4)).toEqual({ lineItems: [] });
+    });
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * RecurringTransactionService Unit Tests
+ *
+ * Tests schedule computation, series lifecycle and the materializer with mocked dependencies
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { RecurringTransactionService } from '../../../src/services/RecurringTransactionService';
+import {
+  RecurringTransactionValidationError,
+  getFirstOccurrence,
+  getNextOccurrence,
+  normalizeRecurrenceRule
+} from '../../../src/models/RecurringTransaction';
+import type { RecurringTransaction } from '../../../src/models/RecurringTransaction';
+
+// Mock the RecurringTransactionRepository
+vi.mock('../../../src/repositories/RecurringTransactionRepository', () => ({
+  RecurringTransactionRepository: vi.fn().mockImplementation(() => ({
+    createRecurringTransaction: vi.fn(),
+    findRecurringTransactionById: vi.fn(),
+    findByUserId: vi.fn(),
+    findDue: vi.fn(),
+    updateRecurringTransaction: vi.fn(),
+    advanceOccurrence: vi.fn(),
+    deleteRecurringTransaction: vi.fn(),
+    createIndexes: vi.fn(),
+  })),
+}));
+
+// Mock the TransactionRepository
+vi.mock('../../../src/repositories/TransactionRepository', () => ({
+  TransactionRepository: vi.fn().mockImplementation(() => ({
+    findByRecurringOccurrence: vi.fn(),
+  })),
+}));
+
+// Mock the TransactionService (pulls in Firestore-backed ReceiptService)
+vi.mock('../../../src/services/TransactionService', () => ({
+  TransactionService: vi.fn().mockImplementation(() => ({
+    createTransaction: vi.fn(),
+  })),
+}));
+
+describe('RecurringTransactionService', () => {
+  let service: RecurringTransactionService;
+  let mockRecurringRepository: any;
+  let mockTransactionRepository: any;
+  let mockTransactionService: any;
+
+  const seriesId = new ObjectId();
+
+  const buildSeries = (overrides: Partial<RecurringTransaction> = {}): RecurringTransaction => ({
+    _id: seriesId,
+    id: seriesId.toString(),
+    userId: 'user-123',
+    vendorName: 'Landlord',
+    description: 'Rent',
+    amount: 1500,
+    paymentType: 'Bank Transfer',
+    categoryId: 'cat-rent',
+    rule: { frequency: 'monthly', interval: 1, dayOfMonth: 1 },
+    startDate: new Date(2025, 0, 1, 9, 0),
+    nextOccurrence: new Date(2025, 0, 1, 9, 0),
+    skippedDates: [],
+    status: 'active',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    service = new RecurringTransactionService();
+    mockRecurringRepository = (service as any).recurringRepository;
+    mockTransactionRepository = (service as any).transactionRepository;
+    mockTransactionService = (service as any).transactionService;
+    vi.clearAllMocks();
+  });
+
+  describe('schedule rules', () => {
+    it('should fill in the day of month from the start date', () => {
+      const rule = normalizeRecurrenceRule({ frequency: 'monthly', interval: 1 }, new Date(2025, 2, 15));
+
+      expect(rule).toEqual({ frequency: 'monthly', interval: 1, dayOfMonth: 15 });
+    });
+
+    it('should clamp monthly occurrences to the last day of short months', () => {
+      const rule = { frequency: 'monthly' as const, interval: 1, dayOfMonth: 31 };
+
+      const feb = getNextOccurrence(rule, new Date(2025, 0, 31));
+      const mar = getNextOccurrence(rule, feb);
+
+      expect(feb.getMonth()).toBe(1);
+      expect(feb.getDate()).toBe(28);
+      expect(mar.getMonth()).toBe(2);
+      expect(mar.getDate()).toBe(31);
+    });
+
+    it('should move the first weekly occurrence to the requested weekday', () => {
+      // 2025-01-01 is a Wednesday; first Friday is the 3rd
+      const first = getFirstOccurrence({ frequency: 'weekly', interval: 1, dayOfWeek: 5 }, new Date(2025, 0, 1));
+
+      expect(first.getDate()).toBe(3);
+      expect(first.getDay()).toBe(5);
+    });
+
+    it('should roll a monthly first occurrence into the next month when the day has passed', () => {
+      const first = getFirstOccurrence({ frequency: 'monthly', interval: 1, dayOfMonth: 5 }, new Date(2025, 0, 20));
+
+      expect(first.getMonth()).toBe(1);
+      expect(first.getDate()).toBe(5);
+    });
+
+    it('should step every N days and yearly on a fixed date', () => {
+      const everyTen = getNextOccurrence({ frequency: 'daily', interval: 10 }, new Date(2025, 0, 25));
+      const yearly = getNextOccurrence({ frequency: 'yearly', interval: 1, month: 3, dayOfMonth: 3 }, new Date(2025, 2, 3));
+
+      expect(everyTen).toEqual(new Date(2025, 1, 4));
+      expect(yearly).toEqual(new Date(2026, 2, 3));
+    });
+  });
+
+  describe('createRecurringTransaction', () => {
+    it('should create a series with a normalized rule and first occurrence', async () => {
+      // Arrange
+      mockRecurringRepository.createRecurringTransaction.mockImplementation(async (data: any) => ({
+        ...data,
+        _id: seriesId,
+        id: '',
+      }));
+
+      // Act
+      const result = await service.createRecurringTransaction({
+        userId: 'user-123',
+        vendorName: 'Netflix',
+        description: 'Streaming',
+        amount: 15.49,
+        paymentType: 'Credit Card',
+        categoryId: 'cat-ent',
+        rule: { frequency: 'weekly', dayOfWeek: 5 },
+        startDate: new Date(2025, 0, 1).toISOString(),
+      });
+
+      // Assert
+      const saved = mockRecurringRepository.createRecurringTransaction.mock.calls[0][0];
+      expect(saved.rule).toEqual({ frequency: 'weekly', interval: 1, dayOfWeek: 5 });
+      expect(saved.nextOccurrence).toEqual(new Date(2025, 0, 3));
+      expect(saved.status).toBe('active');
+      expect(saved.skippedDates).toEqual([]);
+      expect(result.id).toBe(seriesId.toString());
+    });
+
+    it('should reject an end date before the start date', async () => {
+      // Act & Assert
+      await expect(service.createRecurringTransaction({
+        userId: 'user-123',
+        vendorName: 'Netflix',
+        description: 'Streaming',
+        amount: 15.49,
+        paymentType: 'Credit Card',
+        categoryId: 'cat-ent',
+        rule: { frequency: 'monthly' },
+        startDate: '2025-02-01T00:00:00Z',
+        endDate: '2025-01-01T00:00:00Z',
+      })).rejects.toThrow(RecurringTransactionValidationError);
+      expect(mockRecurringRepository.createRecurringTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('should return null for a series owned by another user', async () => {
+      // Arrange
+      mockRecurringRepository.findRecurringTransactionById.mockResolvedValue(buildSeries({ userId: 'other-user' }));
+
+      // Act
+      const result = await service.pauseRecurringTransaction('user-123', seriesId.toString());
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockRecurringRepository.updateRecurringTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should pause an active series', async () => {
+      // Arrange
+      mockRecurringRepository.findRecurringTransactionById.mockResolvedValue(buildSeries());
+      mockRecurringRepository.updateRecurringTransaction.mockResolvedValue(buildSeries({ status: 'paused' }));
+
+      // Act
+      const result = await service.pauseRecurringTransaction('user-123', seriesId.toString());
+
+      // Assert
+      expect(mockRecurringRepository.updateRecurringTransaction).toHaveBeenCalledWith(seriesId.toString(), { status: 'paused' });
+      expect(result?.status).toBe('paused');
+    });
+
+    it('should not pause an ended series', async () => {
+      // Arrange
+      mockRecurringRepository.findRecurringTransactionById.mockResolvedValue(buildSeries({ status: 'ended' }));
+
+      // Act & Assert
+      await expect(service.pauseRecurringTransaction('user-123', seriesId.toString()))
+        .rejects.toThrow('Recurring transaction has ended');
+    });
+
+    it('should resume from the next occurrence after today without back-filling', async () => {
+      // Arrange
+      const series = buildSeries({ status: 'paused', nextOccurrence: new Date(2020, 0, 1, 9, 0) });
+      mockRecurringRepository.findRecurringTransactionById.mockResolvedValue(series);
+      mockRecurringRepository.updateRecurringTransaction.mockResolvedValue(series);
+
+      // Act
+      await service.resumeRecurringTransaction('user-123', seriesId.toString());
+
+      // Assert
+      const changes = mockRecurringRepository.updateRecurringTransaction.mock.calls[0][1];
+      const today = new Date();
+      expect(changes.status).toBe('active');
+      expect(changes.nextOccurrence.getDate()).toBe(1);
+      expect(changes.nextOccurrence >= new Date(today.getFullYear(), today.getMonth(), today.getDate())).toBe(true);
+    });
+
+    it('should record a skipped occurrence defaulting to the next one', async () => {
+      // Arrange
+      const series = buildSeries();
+      mockRecurringRepository.findRecurringTransactionById.mockResolvedValue(series);
+      mockRecurringRepository.updateRecurringTransaction.mockResolvedValue(series);
+
+      // Act
+      await service.skipOccurrence('user-123', seriesId.toString(), {});
+
+      // Assert
+      expect(mockRecurringRepository.updateRecurringTransaction).toHaveBeenCalledWith(seriesId.toString(), {
+        skippedDates: [series.nextOccurrence],
+      });
+    });
+
+    it('should mark a series ended when the end date is before the next occurrence', async () => {
+      // Arrange
+      const series = buildSeries({ nextOccurrence: new Date(2025, 2, 1, 9, 0) });
+      mockRecurringRepository.findRecurringTransactionById.mockResolvedValue(series);
+      mockRecurringRepository.updateRecurringTransaction.mockResolvedValue(series);
+
+      // Act
+      await service.endRecurringTransaction('user-123', seriesId.toString(), { date: new Date(2025, 1, 15).toISOString() });
+
+      // Assert
+      expect(mockRecurringRepository.updateRecurringTransaction).toHaveBeenCalledWith(seriesId.toString(), {
+        endDate: new Date(2025, 1, 15),
+        status: 'ended',
+      });
+    });
+  });
+
+  describe('materializeDue', () => {
+    it('should catch up every missed occurrence in order', async () => {
+      // Arrange
+      mockRecurringRepository.findDue.mockResolvedValue([buildSeries()]);
+      mockTransactionRepository.findByRecurringOccurrence.mockResolvedValue(null);
+      mockTransactionService.createTransaction.mockResolvedValue({});
+      mockRecurringRepository.advanceOccurrence.mockResolvedValue(true);
+
+      // Act
+      const created = await service.materializeDue(new Date(2025, 2, 15));
+
+      // Assert
+      expect(created).toBe(3);
+      const dates = mockTransactionService.createTransaction.mock.calls.map((call: any[]) => call[0].dateTime);
+      expect(dates).toEqual([new Date(2025, 0, 1, 9, 0), new Date(2025, 1, 1, 9, 0), new Date(2025, 2, 1, 9, 0)]);
+      expect(mockTransactionService.createTransaction.mock.calls[0][0].recurringId).toBe(seriesId.toString());
+      expect(mockRecurringRepository.advanceOccurrence).toHaveBeenLastCalledWith(
+        seriesId.toString(),
+        new Date(2025, 2, 1, 9, 0),
+        expect.objectContaining({ nextOccurrence: new Date(2025, 3, 1, 9, 0) })
+      );
+    });
+
+    it('should not recreate an occurrence that already has a transaction', async () => {
+      // Arrange
+      mockRecurringRepository.findDue.mockResolvedValue([buildSeries()]);
+      mockTransactionRepository.findByRecurringOccurrence.mockResolvedValue({ id: 'tx-existing' });
+      mockRecurringRepository.advanceOccurrence.mockResolvedValue(true);
+
+      // Act
+      const created = await service.materializeDue(new Date(2025, 0, 15));
+
+      // Assert
+      expect(created).toBe(0);
+      expect(mockTransactionService.createTransaction).not.toHaveBeenCalled();
+      expect(mockRecurringRepository.advanceOccurrence).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat a duplicate key error as already materialized', async () => {
+      // Arrange
+      mockRecurringRepository.findDue.mockResolvedValue([buildSeries()]);
+      mockTransactionRepository.findByRecurringOccurrence.mockResolvedValue(null);
+      mockTransactionService.createTransaction.mockRejectedValue(Object.assign(new Error('E11000'), { code: 11000 }));
+      mockRecurringRepository.advanceOccurrence.mockResolvedValue(true);
+
+      // Act
+      const created = await service.materializeDue(new Date(2025, 0, 15));
+
+      // Assert
+      expect(created).toBe(0);
+      expect(mockRecurringRepository.advanceOccurrence).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip skipped dates but still advance past them', async () => {
+      // Arrange
+      mockRecurringRepository.findDue.mockResolvedValue([buildSeries({ skippedDates: [new Date(2025, 1, 1)] })]);
+      mockTransactionRepository.findByRecurringOccurrence.mockResolvedValue(null);
+      mockTransactionService.createTransaction.mockResolvedValue({});
+      mockRecurringRepository.advanceOccurrence.mockResolvedValue(true);
+
+      // Act
+      const created = await service.materializeDue(new Date(2025, 2, 15));
+
+      // Assert
+      expect(created).toBe(2);
+      expect(mockRecurringRepository.advanceOccurrence).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop when another run has already advanced the series', async () => {
+      // Arrange
+      mockRecurringRepository.findDue.mockResolvedValue([buildSeries()]);
+      mockTransactionRepository.findByRecurringOccurrence.mockResolvedValue(null);
+      mockTransactionService.createTransaction.mockResolvedValue({});
+      mockRecurringRepository.advanceOccurrence.mockResolvedValue(false);
+
+      // Act
+      const created = await service.materializeDue(new Date(2025, 2, 15));
+
+      // Assert
+      expect(created).toBe(1);
+      expect(mockRecurringRepository.advanceOccurrence).toHaveBeenCalledTimes(1);
+    });
+
+    it('should end the series after its last occurrence', async () => {
+      // Arrange
+      mockRecurringRepository.findDue.mockResolvedValue([buildSeries({ endDate: new Date(2025, 1, 10) })]);
+      mockTransactionRepository.findByRecurringOccurrence.mockResolvedValue(null);
+      mockTransactionService.createTransaction.mockResolvedValue({});
+      mockRecurringRepository.advanceOccurrence.mockResolvedValue(true);
+
+      // Act
+      const created = await service.materializeDue(new Date(2025, 5, 1));
+
+      // Assert
+      expect(created).toBe(2);
+      expect(mockRecurringRepository.advanceOccurrence).toHaveBeenLastCalledWith(
+        seriesId.toString(),
+        new Date(2025, 1, 1, 9, 0),
+        expect.objectContaining({ status: 'ended' })
+      );
+    });
+
+    it('should keep going when one series fails', async () => {
+      // Arrange
+      const other = buildSeries({ _id: new ObjectId(), userId: 'user-456' });
+      mockRecurringRepository.findDue.mockResolvedValue([buildSeries(), other]);
+      mockTransactionRepository.findByRecurringOccurrence.mockResolvedValue(null);
+      mockTransactionService.createTransaction
+        .mockRejectedValueOnce(new Error('Database down'))
+        .mockResolvedValue({});
+      mockRecurringRepository.advanceOccurrence.mockResolvedValue(true);
+
+      // Act
+      const created = await service.materializeDue(new Date(2025, 0, 15));
+
+      // Assert
+      expect(created).toBe(1);
+    });
+  });
+});
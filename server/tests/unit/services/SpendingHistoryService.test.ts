@@ -15,6 +15,7 @@ vi.mock('../../../src/repositories/TransactionRepository', () => ({
     aggregateByCategory: vi.fn(),
     findByUserIdAndDateRange: vi.fn(),
     aggregateByMonth: vi.fn(),
+    aggregateByKind: vi.fn(),
   })),
 }));
 
@@ -25,6 +26,13 @@ vi.mock('../../../src/repositories/CategoryRepository', () => ({
   })),
 }));
 
+vi.mock('../../../src/services/ExchangeRateService', () => ({
+  ExchangeRateService: vi.fn().mockImplementation(() => ({
+    getHomeCurrency: vi.fn().mockResolvedValue('USD'),
+    getConversionFactor: vi.fn().mockResolvedValue(1),
+  })),
+}));
+
 import { TransactionRepository } from '../../../src/repositories/TransactionRepository';
 import { CategoryRepository } from '../../../src/repositories/CategoryRepository';
 
@@ -32,11 +40,13 @@ describe('SpendingHistoryService', () => {
   let spendingHistoryService: SpendingHistoryService;
   let mockTransactionRepository: any;
   let mockCategoryRepository: any;
+  let mockExchangeRateService: any;
 
   beforeEach(() => {
     spendingHistoryService = new SpendingHistoryService();
     mockTransactionRepository = (spendingHistoryService as any).transactionRepository;
     mockCategoryRepository = (spendingHistoryService as any).categoryRepository;
+    mockExchangeRateService = (spendingHistoryService as any).exchangeRateService;
     vi.clearAllMocks();
   });
 
@@ -87,6 +97,24 @@ describe('SpendingHistoryService', () => {
       expect(result.categories[1].percentage).toBe(37.5); // 300/800 * 100
     });
 
+    it('should aggregate spending in the user home currency', async () => {
+      // Arrange
+      mockExchangeRateService.getHomeCurrency.mockResolvedValue('EUR');
+      mockTransactionRepository.aggregateByCategory.mockResolvedValue([]);
+
+      const query = { period: 'current_month' as const };
+
+      // Act
+      const result = await spendingHistoryService.getSummary('user-123', query);
+
+      // Assert
+      expect(mockExchangeRateService.getHomeCurrency).toHaveBeenCalledWith('user-123');
+      expect(mockTransactionRepository.aggregateByCategory).toHaveBeenCalledWith(
+        'user-123', expect.any(Date), expect.any(Date), 'expense', 'EUR'
+      );
+      expect(result.currency).toBe('EUR');
+    });
+
     it('should return spending summary for past_week period', async () => {
       // Arrange
       mockTransactionRepository.aggregateByCategory.mockResolvedValue(mockAggregatedData);
@@ -337,6 +365,84 @@ describe('SpendingHistoryService', () => {
       expect(groceriesCategory?.totalAmount).toBe(90.00);
     });
 
+    it('should allocate split transactions to each split category', async () => {
+      // Arrange
+      const householdCategory: Category = {
+        id: 'cat-789',
+        userId: 'user-123',
+        name: 'Household',
+        type: 'expense',
+      };
+
+      const splitTransaction: Transaction = {
+        id: 'tx-split',
+        userId: 'user-123',
+        vendorName: 'Costco',
+        description: 'Monthly stock-up',
+        dateTime: new Date(),
+        amount: 150.00,
+        paymentType: 'credit',
+        categoryId: 'cat-123',
+        splits: [
+          { categoryId: 'cat-123', amount: 100.00 },
+          { categoryId: 'cat-789', amount: 50.00, note: 'Paper towels' },
+        ],
+      };
+
+      mockTransactionRepository.findByUserIdAndDateRange.mockResolvedValue([splitTransaction]);
+      mockCategoryRepository.findAllCategories.mockResolvedValue([mockCategory, householdCategory]);
+
+      const query = { period: 'current_month' as const };
+
+      // Act
+      const result = await spendingHistoryService.getDetailedReport('user-123', query);
+
+      // Assert
+      expect(result.totalSpending).toBe(150.00);
+      const household = result.categories.find(c => c.categoryName === 'Household');
+      expect(household?.totalAmount).toBe(50.00);
+      expect(household?.transactions[0]).toMatchObject({
+        id: 'tx-split',
+        amount: 50.00,
+        transactionAmount: 150.00,
+        splitNote: 'Paper towels',
+      });
+      const groceries = result.categories.find(c => c.categoryName === 'Groceries');
+      expect(groceries?.totalAmount).toBe(100.00);
+    });
+
+    it('should convert foreign currency transactions into the home currency', async () => {
+      // Arrange
+      const euroTransaction: Transaction = {
+        ...mockTransactions[0],
+        id: 'tx-eur',
+        amount: 20.00,
+        currency: 'EUR',
+      };
+
+      mockTransactionRepository.findByUserIdAndDateRange.mockResolvedValue([euroTransaction, mockTransactions[1]]);
+      mockCategoryRepository.findAllCategories.mockResolvedValue([mockCategory]);
+      mockExchangeRateService.getConversionFactor.mockResolvedValue(1.1);
+
+      const query = { period: 'current_month' as const };
+
+      // Act
+      const result = await spendingHistoryService.getDetailedReport('user-123', query);
+
+      // Assert
+      expect(mockExchangeRateService.getConversionFactor).toHaveBeenCalledTimes(1);
+      expect(mockExchangeRateService.getConversionFactor).toHaveBeenCalledWith('EUR', 'USD', euroTransaction.dateTime);
+      expect(result.currency).toBe('USD');
+      expect(result.totalSpending).toBe(109.25); // 22.00 + 87.25
+      expect(result.categories[0].transactions[0]).toMatchObject({
+        id: 'tx-eur',
+        amount: 22.00,
+        originalCurrency: 'EUR',
+        originalAmount: 20.00,
+      });
+      expect(result.categories[0].transactions[1].originalCurrency).toBeUndefined();
+    });
+
     it('should handle empty transaction list', async () => {
       // Arrange
       mockTransactionRepository.findByUserIdAndDateRange.mockResolvedValue([]);
@@ -554,5 +660,90 @@ describe('SpendingHistoryService', () => {
       expect(result.monthlyBreakdown).toHaveLength(6);
       expect(result.monthlyBreakdown.every(m => m.totalAmount === 0)).toBe(true);
     });
+
+    it('should report income, net flow and savings rate per month', async () => {
+      // Arrange
+      const now = new Date();
+      const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+      const twoMonthsAgo = new Date(now.getFullYear(), now.getMonth() - 2, 1);
+
+      mockTransactionRepository.findByUserIdAndDateRange.mockResolvedValue([
+        { id: 'tx-1', userId: 'user-123', vendorName: 'Employer', description: 'Salary', dateTime: now, amount: 3000, paymentType: 'transfer', categoryId: 'cat-income', kind: 'income' },
+        { id: 'tx-2', userId: 'user-123', vendorName: 'Store', description: 'Food', dateTime: now, amount: 600, paymentType: 'credit', categoryId: 'cat-123' },
+        { id: 'tx-3', userId: 'user-123', vendorName: 'Bank', description: 'To savings', dateTime: now, amount: 1000, paymentType: 'transfer', categoryId: 'cat-savings', kind: 'transfer' },
+      ]);
+      mockTransactionRepository.aggregateByMonth.mockResolvedValue([
+        { year: twoMonthsAgo.getFullYear(), month: twoMonthsAgo.getMonth() + 1, totalAmount: 2000, transactionCount: 10, totalIncome: 2500, incomeCount: 1 },
+        { year: lastMonth.getFullYear(), month: lastMonth.getMonth() + 1, totalAmount: 1000, transactionCount: 5, totalIncome: 0, incomeCount: 0 },
+      ]);
+
+      const query = { monthCount: 2, includeCurrentMonth: true };
+
+      // Act
+      const result = await spendingHistoryService.getMonthlyTrends('user-123', query);
+
+      // Assert
+      expect(result.currentMonth).toMatchObject({
+        totalAmount: 600,
+        transactionCount: 1,
+        totalIncome: 3000,
+        netFlow: 2400,
+        savingsRate: 80,
+      });
+      expect(result.monthlyBreakdown[0]).toMatchObject({ totalIncome: 2500, netFlow: 500, savingsRate: 20 });
+      expect(result.monthlyBreakdown[1]).toMatchObject({ totalIncome: 0, netFlow: -1000, savingsRate: null });
+      // (2500 - 3000) / 2500 over the comparison period
+      expect(result.trend.averageSavingsRate).toBe(-20);
+    });
+  });
+
+  describe('getCashFlow', () => {
+    it('should report income, expenses, transfers and net flow', async () => {
+      // Arrange
+      mockTransactionRepository.aggregateByKind.mockResolvedValue([
+        { kind: 'income', totalAmount: 4200, transactionCount: 2 },
+        { kind: 'expense', totalAmount: 2345.5, transactionCount: 40 },
+        { kind: 'transfer', totalAmount: 500, transactionCount: 1 },
+      ]);
+
+      const query = { period: 'current_month' as const };
+
+      // Act
+      const result = await spendingHistoryService.getCashFlow('user-123', query);
+
+      // Assert
+      expect(mockTransactionRepository.aggregateByKind).toHaveBeenCalledWith(
+        'user-123', expect.any(Date), expect.any(Date), 'USD'
+      );
+      expect(result).toMatchObject({
+        userId: 'user-123',
+        currency: 'USD',
+        totalIncome: 4200,
+        totalExpenses: 2345.5,
+        totalTransfers: 500,
+        netFlow: 1854.5,
+        savingsRate: 44.15,
+        incomeCount: 2,
+        expenseCount: 40,
+        transferCount: 1,
+      });
+    });
+
+    it('should return a null savings rate when there is no income', async () => {
+      // Arrange
+      mockTransactionRepository.aggregateByKind.mockResolvedValue([
+        { kind: 'expense', totalAmount: 100, transactionCount: 3 },
+      ]);
+
+      const query = { period: 'past_week' as const };
+
+      // Act
+      const result = await spendingHistoryService.getCashFlow('user-123', query);
+
+      // Assert
+      expect(result.totalIncome).toBe(0);
+      expect(result.netFlow).toBe(-100);
+      expect(result.savingsRate).toBeNull();
+    });
   });
 });
@@ -0,0 +1,314 @@
+/**
+ * StatementImportService Unit Tests
+ *
+ * Tests statement previews, duplicate detection, commit and rollback with mocked dependencies
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { StatementImportService, vendorSimilarity } from '../../../src/services/StatementImportService';
+import { StatementImportValidationError } from '../../../src/models/StatementImport';
+import type { StatementImport } from '../../../src/models/StatementImport';
+import { categorize } from '../../../src/services/HuggingFaceService';
+
+// Mock the StatementImportRepository
+vi.mock('../../../src/repositories/StatementImportRepository', () => ({
+  StatementImportRepository: vi.fn().mockImplementation(() => ({
+    createImport: vi.fn().mockImplementation(async (data: any) => ({ ...data, id: 'import-1' })),
+    findImportById: vi.fn(),
+    findByUserId: vi.fn(),
+    updateImport: vi.fn().mockResolvedValue(true),
+    transitionStatus: vi.fn().mockResolvedValue(true),
+    createIndexes: vi.fn(),
+  })),
+}));
+
+// Mock the ImportMappingRepository
+vi.mock('../../../src/repositories/ImportMappingRepository', () => ({
+  ImportMappingRepository: vi.fn().mockImplementation(() => ({
+    upsertProfile: vi.fn(),
+    findProfileById: vi.fn(),
+    findByUserId: vi.fn(),
+    deleteProfile: vi.fn(),
+    createIndexes: vi.fn(),
+  })),
+}));
+
+// Mock the TransactionRepository (source of duplicate candidates)
+vi.mock('../../../src/repositories/TransactionRepository', () => ({
+  TransactionRepository: vi.fn().mockImplementation(() => ({
+    findByUserIdAndDateRange: vi.fn().mockResolvedValue([]),
+  })),
+}));
+
+// Mock the TransactionService
+vi.mock('../../../src/services/TransactionService', () => ({
+  TransactionService: vi.fn().mockImplementation(() => ({
+    createTransactionBatch: vi.fn(),
+    deleteTransactionsByImportId: vi.fn(),
+  })),
+}));
+
+// Mock the CategoryService
+vi.mock('../../../src/services/CategoryService', () => ({
+  CategoryService: vi.fn().mockImplementation(() => ({
+    getCategoriesByUserId: vi.fn().mockResolvedValue([
+      { id: 'cat-food', name: 'Food', kind: 'expense' },
+      { id: 'cat-transport', name: 'Transportation', kind: 'expense' },
+      { id: 'cat-misc', name: 'Misc', kind: 'expense' },
+      { id: 'cat-income', name: 'Income', kind: 'income' },
+    ]),
+    getCategoryById: vi.fn().mockResolvedValue({ id: 'cat-transport', name: 'Transportation', kind: 'expense' }),
+  })),
+}));
+
+// Mock the ExchangeRateService
+vi.mock('../../../src/services/ExchangeRateService', () => ({
+  ExchangeRateService: vi.fn().mockImplementation(() => ({
+    getHomeCurrency: vi.fn().mockResolvedValue('USD'),
+  })),
+}));
+
+// Mock the Hugging Face categorizer
+vi.mock('../../../src/services/HuggingFaceService', () => ({
+  categorize: vi.fn(),
+}));
+
+const csvFile = (content: string, originalname = 'statement.csv') => ({
+  originalname,
+  buffer: Buffer.from(content, 'utf8'),
+});
+
+describe('StatementImportService', () => {
+  let statementImportService: StatementImportService;
+  let mockStatementImportRepository: any;
+  let mockImportMappingRepository: any;
+  let mockTransactionRepository: any;
+  let mockTransactionService: any;
+  let mockCategoryService: any;
+  const mockCategorize = vi.mocked(categorize);
+
+  beforeEach(() => {
+    statementImportService = new StatementImportService();
+    mockStatementImportRepository = (statementImportService as any).statementImportRepository;
+    mockImportMappingRepository = (statementImportService as any).importMappingRepository;
+    mockTransactionRepository = (statementImportService as any).transactionRepository;
+    mockTransactionService = (statementImportService as any).transactionService;
+    mockCategoryService = (statementImportService as any).categoryService;
+    vi.clearAllMocks();
+    mockCategorize.mockResolvedValue({ mapped: 'food' });
+  });
+
+  describe('createPreview', () => {
+    const csv = 'Date,Payee,Amount\n2025-03-01,Blue Bottle Coffee,-4.50\n2025-03-02,ACME Payroll,2500.00\n2025-03-02,Blue Bottle Coffee,-3.00\n';
+
+    it('should parse rows, suggest categories and store a preview', async () => {
+      // Act
+      const result = await statementImportService.createPreview('user-123', csvFile(csv), {});
+
+      // Assert
+      expect(result.status).toBe('preview');
+      expect(result.rowCount).toBe(3);
+      expect(result.rows[0]).toMatchObject({ vendorName: 'Blue Bottle Coffee', currency: 'USD', categoryId: 'cat-food', suggestedCategory: 'food' });
+      expect(result.rows[1]).toMatchObject({ kind: 'income', categoryId: 'cat-income' });
+      // One categorizer call per distinct vendor, none for income
+      expect(mockCategorize).toHaveBeenCalledTimes(1);
+      expect(mockStatementImportRepository.createImport).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-123', format: 'csv', paymentType: 'Debit', expiresAt: expect.any(Date) })
+      );
+    });
+
+    it('should fall back to Misc when the categorizer fails', async () => {
+      // Arrange
+      mockCategorize.mockRejectedValue(new Error('Missing HUGGINGFACE_API_KEY environment variable on server'));
+
+      // Act
+      const result = await statementImportService.createPreview('user-123', csvFile(csv), {});
+
+      // Assert
+      expect(result.rows[0]).toMatchObject({ categoryId: 'cat-misc', suggestedCategory: 'misc' });
+    });
+
+    it('should flag rows matching an existing transaction', async () => {
+      // Arrange
+      mockTransactionRepository.findByUserIdAndDateRange.mockResolvedValue([
+        { id: 'tx-voice', userId: 'user-123', vendorName: 'blue bottle', amount: 4.5, dateTime: new Date(2025, 2, 2, 9), currency: 'USD' },
+      ]);
+
+      // Act
+      const result = await statementImportService.createPreview('user-123', csvFile(csv), {});
+
+      // Assert
+      expect(result.duplicateCount).toBe(1);
+      expect(result.rows[0].duplicateOf).toMatchObject({ transactionId: 'tx-voice', amount: 4.5 });
+      expect(result.rows[2].duplicateOf).toBeUndefined();
+    });
+
+    it('should use and save an explicit mapping', async () => {
+      // Arrange
+      const mapping = { date: 0, vendor: 1, amount: 2, hasHeader: false, dateFormat: 'MM/DD/YYYY' };
+      mockImportMappingRepository.upsertProfile.mockResolvedValue({ id: 'mapping-1', name: 'My bank', mapping });
+
+      // Act
+      const result = await statementImportService.createPreview(
+        'user-123',
+        csvFile('03/01/2025,Shell,-30.00\n'),
+        { mapping: JSON.stringify(mapping), saveMappingAs: 'My bank' }
+      );
+
+      // Assert
+      expect(result.rows[0]).toMatchObject({ vendorName: 'Shell', amount: 30 });
+      expect(mockImportMappingRepository.upsertProfile).toHaveBeenCalledWith(
+        'user-123', 'My bank', expect.objectContaining({ date: 0, dateFormat: 'MM/DD/YYYY' })
+      );
+      expect(result.mappingProfileId).toBe('mapping-1');
+    });
+
+    it('should reject a missing file and undetectable columns', async () => {
+      // Act & Assert
+      await expect(statementImportService.createPreview('user-123', undefined, {}))
+        .rejects.toThrow('A statement file is required');
+      await expect(statementImportService.createPreview('user-123', csvFile('Foo,Bar\n1,2\n'), {}))
+        .rejects.toThrow(StatementImportValidationError);
+      expect(mockStatementImportRepository.createImport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('commitImport', () => {
+    const preview: StatementImport = {
+      id: 'import-1',
+      userId: 'user-123',
+      fileName: 'statement.csv',
+      format: 'csv',
+      status: 'preview',
+      paymentType: 'Debit',
+      transactionIds: [],
+      rows: [
+        { rowNumber: 1, dateTime: new Date(2025, 2, 1, 12), amount: 4.5, kind: 'expense', currency: 'USD', vendorName: 'Blue Bottle', categoryId: 'cat-food' },
+        { rowNumber: 2, dateTime: new Date(2025, 2, 2, 12), amount: 30, kind: 'expense', currency: 'USD', vendorName: 'Shell', categoryId: 'cat-misc',
+          duplicateOf: { transactionId: 'tx-1', vendorName: 'Shell', dateTime: new Date(2025, 2, 2), amount: 30, score: 0.95 } },
+        { rowNumber: 3, error: 'Missing or invalid amount' },
+      ],
+    };
+
+    it('should save readable, non-duplicate rows tagged with the import ID', async () => {
+      // Arrange
+      mockStatementImportRepository.findImportById.mockResolvedValue(preview);
+      mockTransactionService.createTransactionBatch.mockResolvedValue([{ id: 'tx-new' }]);
+
+      // Act
+      await statementImportService.commitImport('user-123', 'import-1', {});
+
+      // Assert
+      const batch = mockTransactionService.createTransactionBatch.mock.calls[0][0];
+      expect(batch).toHaveLength(1);
+      expect(batch[0]).toMatchObject({ vendorName: 'Blue Bottle', description: 'Blue Bottle', importId: 'import-1', paymentType: 'Debit' });
+      expect(mockStatementImportRepository.transitionStatus).toHaveBeenCalledWith(
+        'import-1', 'preview', 'committed', expect.any(Object), ['expiresAt']
+      );
+      expect(mockStatementImportRepository.updateImport).toHaveBeenCalledWith('import-1', { transactionIds: ['tx-new'] });
+    });
+
+    it('should import selected rows with overrides, including flagged duplicates', async () => {
+      // Arrange
+      mockStatementImportRepository.findImportById.mockResolvedValue(preview);
+      mockTransactionService.createTransactionBatch.mockResolvedValue([{ id: 'tx-new' }]);
+
+      // Act
+      await statementImportService.commitImport('user-123', 'import-1', { rows: [{ rowNumber: 2, categoryId: 'cat-transport' }] });
+
+      // Assert
+      expect(mockTransactionService.createTransactionBatch.mock.calls[0][0][0]).toMatchObject({ vendorName: 'Shell', categoryId: 'cat-transport' });
+      expect(mockCategoryService.getCategoryById).toHaveBeenCalledWith('user-123', 'cat-transport');
+    });
+
+    it("should reject a category override the user can't use", async () => {
+      // Arrange
+      mockStatementImportRepository.findImportById.mockResolvedValue(preview);
+      mockCategoryService.getCategoryById.mockResolvedValueOnce(null);
+
+      // Act & Assert
+      await expect(statementImportService.commitImport('user-123', 'import-1', { rows: [{ rowNumber: 1, categoryId: 'cat-other-user' }] }))
+        .rejects.toMatchObject({ message: "Row 1 has a category that doesn't exist", field: 'rows' });
+      expect(mockStatementImportRepository.transitionStatus).not.toHaveBeenCalled();
+      expect(mockTransactionService.createTransactionBatch).not.toHaveBeenCalled();
+    });
+
+    it('should reject unreadable rows', async () => {
+      // Arrange
+      mockStatementImportRepository.findImportById.mockResolvedValue(preview);
+
+      // Act & Assert
+      await expect(statementImportService.commitImport('user-123', 'import-1', { rows: [{ rowNumber: 3 }] }))
+        .rejects.toThrow('Row 3 can\'t be imported: Missing or invalid amount');
+      expect(mockStatementImportRepository.transitionStatus).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to commit an import twice', async () => {
+      // Arrange
+      mockStatementImportRepository.findImportById.mockResolvedValue({ ...preview, status: 'committed' });
+
+      // Act & Assert
+      await expect(statementImportService.commitImport('user-123', 'import-1', {}))
+        .rejects.toThrow('Import has already been committed');
+      expect(mockTransactionService.createTransactionBatch).not.toHaveBeenCalled();
+    });
+
+    it('should undo a failed batch and return the import to preview', async () => {
+      // Arrange
+      mockStatementImportRepository.findImportById.mockResolvedValue(preview);
+      mockTransactionService.createTransactionBatch.mockRejectedValue(new Error('insert failed'));
+
+      // Act & Assert
+      await expect(statementImportService.commitImport('user-123', 'import-1', {})).rejects.toThrow('insert failed');
+      expect(mockTransactionService.deleteTransactionsByImportId).toHaveBeenCalledWith('import-1');
+      expect(mockStatementImportRepository.transitionStatus).toHaveBeenLastCalledWith(
+        'import-1', 'committed', 'preview', expect.any(Object), ['committedAt']
+      );
+    });
+
+    it('should return null when the import does not exist', async () => {
+      // Arrange
+      mockStatementImportRepository.findImportById.mockResolvedValue(null);
+
+      // Act & Assert
+      expect(await statementImportService.commitImport('user-123', 'missing', {})).toBeNull();
+    });
+  });
+
+  describe('rollbackImport', () => {
+    it('should delete the committed transactions', async () => {
+      // Arrange
+      mockStatementImportRepository.findImportById.mockResolvedValue({ id: 'import-1', userId: 'user-123', status: 'committed', rows: [], transactionIds: ['tx-new'] });
+
+      // Act
+      await statementImportService.rollbackImport('user-123', 'import-1');
+
+      // Assert
+      expect(mockTransactionService.deleteTransactionsByImportId).toHaveBeenCalledWith('import-1');
+      expect(mockStatementImportRepository.transitionStatus).toHaveBeenCalledWith(
+        'import-1', 'committed', 'rolled_back', { rolledBackAt: expect.any(Date) }
+      );
+    });
+
+    it('should only roll back committed imports', async () => {
+      // Arrange
+      mockStatementImportRepository.findImportById.mockResolvedValue({ id: 'import-1', userId: 'user-123', status: 'preview', rows: [], transactionIds: [] });
+
+      // Act & Assert
+      await expect(statementImportService.rollbackImport('user-123', 'import-1'))
+        .rejects.toThrow('Only committed imports can be rolled back');
+      expect(mockTransactionService.deleteTransactionsByImportId).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('vendorSimilarity', () => {
+    it('should match bank descriptions containing the vendor name', () => {
+      expect(vendorSimilarity('SQ *BLUE BOTTLE COFFEE 1234', 'Blue Bottle')).toBe(1);
+      expect(vendorSimilarity('Starbucks', 'STARBUCKS STORE')).toBe(1);
+    });
+
+    it('should score unrelated vendors low', () => {
+      expect(vendorSimilarity('Shell', 'Whole Foods')).toBeLessThan(0.6);
+    });
+  });
+});
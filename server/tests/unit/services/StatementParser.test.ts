@@ -0,0 +1,180 @@
+/**
+ * StatementParser Unit Tests
+ *
+ * Tests CSV and OFX statement parsing, column mapping guesses and amount/date handling
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  detectStatementFormat,
+  guessColumnMapping,
+  parseAmount,
+  parseCsv,
+  parseCsvStatement,
+  parseOfxStatement,
+  parseStatementDate,
+  readCsvHeader,
+} from '../../../src/services/StatementParser';
+import { StatementImportValidationError, columnMappingSchema } from '../../../src/models/StatementImport';
+
+describe('StatementParser', () => {
+  describe('parseCsv', () => {
+    it('should handle quoted fields, escaped quotes and CRLF line endings', () => {
+      // Act
+      const records = parseCsv('Date,Payee,Amount\r\n2025-03-01,"Joe\'s ""Diner"", Inc",-12.50\r\n\r\n', ',');
+
+      // Assert
+      expect(records).toEqual([
+        ['Date', 'Payee', 'Amount'],
+        ['2025-03-01', 'Joe\'s "Diner", Inc', '-12.50'],
+      ]);
+    });
+  });
+
+  describe('parseAmount', () => {
+    it('should parse signs, symbols, separators and parentheses', () => {
+      expect(parseAmount('-1,234.56')).toBe(-1234.56);
+      expect(parseAmount('$42.10')).toBe(42.1);
+      expect(parseAmount('(15.00)')).toBe(-15);
+      expect(parseAmount('20.00-')).toBe(-20);
+      expect(parseAmount('-1.234,56 €', ',')).toBe(-1234.56);
+    });
+
+    it('should return null for text that is not an amount', () => {
+      expect(parseAmount('')).toBeNull();
+      expect(parseAmount('pending')).toBeNull();
+    });
+  });
+
+  describe('parseStatementDate', () => {
+    it('should parse each supported layout', () => {
+      expect(parseStatementDate('2025-03-04', 'YYYY-MM-DD')?.getDate()).toBe(4);
+      expect(parseStatementDate('03/04/2025', 'MM/DD/YYYY')?.getMonth()).toBe(2);
+      expect(parseStatementDate('03/04/2025', 'DD/MM/YYYY')?.getMonth()).toBe(3);
+      expect(parseStatementDate('04.03.25', 'DD/MM/YYYY')?.getFullYear()).toBe(2025);
+    });
+
+    it('should reject impossible dates', () => {
+      expect(parseStatementDate('31/02/2025', 'DD/MM/YYYY')).toBeNull();
+      expect(parseStatementDate('yesterday', 'YYYY-MM-DD')).toBeNull();
+    });
+  });
+
+  describe('guessColumnMapping', () => {
+    it('should find signed amount columns and guess a day-first date format', () => {
+      // Arrange
+      const { headers, sampleRows } = readCsvHeader('Date;Description;Amount\n25/03/2025;Tesco;-8,20\n');
+
+      // Act
+      const mapping = guessColumnMapping(headers, sampleRows);
+
+      // Assert
+      expect(mapping).toMatchObject({ date: 'Date', vendor: 'Description', amount: 'Amount', dateFormat: 'DD/MM/YYYY' });
+    });
+
+    it('should fall back to debit and credit columns', () => {
+      // Act
+      const mapping = guessColumnMapping(['Posted Date', 'Payee', 'Memo', 'Debit', 'Credit']);
+
+      // Assert
+      expect(mapping).toMatchObject({ date: 'Posted Date', vendor: 'Payee', description: 'Memo', debit: 'Debit', credit: 'Credit' });
+      expect(mapping?.amount).toBeUndefined();
+    });
+
+    it('should return null when required columns are missing', () => {
+      expect(guessColumnMapping(['Foo', 'Bar'])).toBeNull();
+    });
+  });
+
+  describe('parseCsvStatement', () => {
+    it('should turn signed amounts into expense and income rows', () => {
+      // Arrange
+      const csv = 'Date,Payee,Amount\n2025-03-01,Blue Bottle,-4.50\n2025-03-02,ACME Payroll,2500.00\n';
+      const mapping = columnMappingSchema.parse({ date: 'Date', vendor: 'Payee', amount: 'Amount' });
+
+      // Act
+      const rows = parseCsvStatement(csv, mapping);
+
+      // Assert
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({ rowNumber: 1, vendorName: 'Blue Bottle', amount: 4.5, kind: 'expense' });
+      expect(rows[1]).toMatchObject({ rowNumber: 2, vendorName: 'ACME Payroll', amount: 2500, kind: 'income' });
+    });
+
+    it('should honour debit/credit columns and banks that export expenses as positive', () => {
+      // Arrange
+      const csv = 'Date,Payee,Debit,Credit\n2025-03-01,Shell,30.00,\n2025-03-02,Refund,,12.00\n';
+      const mapping = columnMappingSchema.parse({ date: 'Date', vendor: 'Payee', debit: 'Debit', credit: 'Credit' });
+      const flipped = columnMappingSchema.parse({ date: 0, vendor: 1, amount: 2, hasHeader: false, negativeIsExpense: false });
+
+      // Act
+      const rows = parseCsvStatement(csv, mapping);
+      const flippedRows = parseCsvStatement('2025-03-01,Shell,30.00\n', flipped);
+
+      // Assert
+      expect(rows.map(row => row.kind)).toEqual(['expense', 'income']);
+      expect(flippedRows[0]).toMatchObject({ amount: 30, kind: 'expense' });
+    });
+
+    it('should keep unreadable lines as rows with an error', () => {
+      // Arrange
+      const csv = 'Date,Payee,Amount\nnot a date,Shell,-30\n2025-03-02,Shell,n/a\n';
+      const mapping = columnMappingSchema.parse({ date: 'Date', vendor: 'Payee', amount: 'Amount' });
+
+      // Act
+      const rows = parseCsvStatement(csv, mapping);
+
+      // Assert
+      expect(rows[0].error).toBe('Invalid date "not a date"');
+      expect(rows[1].error).toBe('Missing or invalid amount');
+    });
+
+    it('should throw when a mapped column does not exist', () => {
+      // Arrange
+      const mapping = columnMappingSchema.parse({ date: 'Date', vendor: 'Merchant', amount: 'Amount' });
+
+      // Act & Assert
+      expect(() => parseCsvStatement('Date,Payee,Amount\n2025-03-01,Shell,-30\n', mapping))
+        .toThrow(StatementImportValidationError);
+    });
+  });
+
+  describe('parseOfxStatement', () => {
+    it('should parse SGML statements with unclosed tags', () => {
+      // Arrange
+      const ofx = [
+        'OFXHEADER:100',
+        '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>EUR',
+        '<BANKTRANLIST>',
+        '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250301120000[-5:EST]<TRNAMT>-12.50<FITID>1<NAME>CAFE &amp; CO<MEMO>Card 1234</STMTTRN>',
+        '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250302<TRNAMT>100.00<FITID>2<NAME>Salary</STMTTRN>',
+        '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+      ].join('\n');
+
+      // Act
+      const rows = parseOfxStatement(ofx);
+
+      // Assert
+      expect(detectStatementFormat('statement.txt', ofx)).toBe('ofx');
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({ vendorName: 'CAFE & CO', description: 'Card 1234', amount: 12.5, kind: 'expense', currency: 'EUR' });
+      expect(rows[0].dateTime?.getDate()).toBe(1);
+      expect(rows[1]).toMatchObject({ vendorName: 'Salary', amount: 100, kind: 'income' });
+    });
+
+    it('should parse XML statements', () => {
+      // Arrange
+      const ofx = '<OFX><STMTTRN><DTPOSTED>20250305</DTPOSTED><TRNAMT>-7.25</TRNAMT><NAME>Metro</NAME></STMTTRN></OFX>';
+
+      // Act
+      const rows = parseOfxStatement(ofx);
+
+      // Assert
+      expect(rows[0]).toMatchObject({ vendorName: 'Metro', amount: 7.25, kind: 'expense' });
+    });
+
+    it('should throw when there are no transactions', () => {
+      expect(() => parseOfxStatement('<OFX></OFX>')).toThrow('No transactions found in the OFX file');
+    });
+  });
+});
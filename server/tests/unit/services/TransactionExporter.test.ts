@@ -0,0 +1,181 @@
+/**
+ * TransactionExporter Unit Tests
+ *
+ * Tests CSV, JSON, OFX and XLSX output, category name resolution and split expansion
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import zlib from 'zlib';
+import {
+  buildCategoryNameMap,
+  createTransactionExport,
+  toCategoryRows,
+} from '../../../src/services/TransactionExporter';
+import type { TransactionExportContext } from '../../../src/services/TransactionExporter';
+import type { TransactionResponse } from '../../../src/models/Transaction';
+
+const groceries: TransactionResponse = {
+  id: 'tx-1',
+  userId: 'user-123',
+  vendorName: 'Whole Foods',
+  description: 'Weekly shop',
+  dateTime: '2025-03-01T12:00:00.000Z',
+  amount: 100,
+  paymentType: 'Credit',
+  categoryId: 'cat-food',
+  kind: 'expense',
+  currency: 'USD',
+  splits: [
+    { categoryId: 'cat-food', amount: 70 },
+    { categoryId: 'cat-home', amount: 30, note: 'cleaning' },
+  ],
+  createdAt: '2025-03-01T12:00:00.000Z',
+  updatedAt: '2025-03-01T12:00:00.000Z',
+} as TransactionResponse;
+
+const paycheck: TransactionResponse = {
+  id: 'tx-2',
+  userId: 'user-123',
+  vendorName: '=ACME Payroll',
+  description: 'March salary, net',
+  dateTime: '2025-03-02T09:00:00.000Z',
+  amount: 2500,
+  paymentType: 'Debit',
+  categoryId: 'cat-missing',
+  kind: 'income',
+  currency: 'EUR',
+  createdAt: '2025-03-02T09:00:00.000Z',
+  updatedAt: '2025-03-02T09:00:00.000Z',
+} as TransactionResponse;
+
+async function* toIterable(transactions: TransactionResponse[]) {
+  for (const transaction of transactions) yield transaction;
+}
+
+function createContext(overrides: Partial<TransactionExportContext> = {}): TransactionExportContext {
+  return {
+    userId: 'user-123',
+    categoryNames: buildCategoryNameMap([
+      { id: 'cat-food', name: 'Groceries' },
+      { id: 'cat-home', name: 'Household' },
+    ]),
+    homeCurrency: 'USD',
+    getConversionFactor: vi.fn().mockResolvedValue(1.1),
+    ...overrides,
+  };
+}
+
+async function collect(body: AsyncIterable<string | Buffer>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, 'utf8'));
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('TransactionExporter', () => {
+  describe('toCategoryRows', () => {
+    it('should expand splits into one row per category line', () => {
+      // Act
+      const rows = toCategoryRows(groceries, createContext().categoryNames);
+
+      // Assert
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({ amount: 70, categoryName: 'Groceries' });
+      expect(rows[1]).toMatchObject({ amount: 30, categoryName: 'Household', description: 'Weekly shop (cleaning)' });
+    });
+
+    it('should fall back to Uncategorized for unknown categories', () => {
+      // Act
+      const rows = toCategoryRows(paycheck, createContext().categoryNames);
+
+      // Assert
+      expect(rows).toEqual([expect.objectContaining({ amount: 2500, categoryName: 'Uncategorized' })]);
+    });
+  });
+
+  describe('createTransactionExport', () => {
+    it('should write CSV with a header, split rows and formula-safe cells', async () => {
+      // Act
+      const exported = createTransactionExport('csv', toIterable([groceries, paycheck]), createContext());
+      const lines = (await collect(exported.body)).toString('utf8').split('\r\n');
+
+      // Assert
+      expect(exported.contentType).toBe('text/csv; charset=utf-8');
+      expect(exported.fileName).toMatch(/^parrit-transactions-\d{4}-\d{2}-\d{2}\.csv$/);
+      expect(lines[0]).toBe('\uFEFFDate,Vendor,Description,Amount,Currency,Kind,Payment Type,Category,Transaction ID');
+      expect(lines[1]).toBe('2025-03-01T12:00:00.000Z,Whole Foods,Weekly shop,70,USD,expense,Credit,Groceries,tx-1');
+      expect(lines[2]).toContain(',30,USD,expense,Credit,Household,tx-1');
+      expect(lines[3]).toBe('2025-03-02T09:00:00.000Z,\'=ACME Payroll,"March salary, net",2500,EUR,income,Debit,Uncategorized,tx-2');
+    });
+
+    it('should write a JSON array with category names on transactions and splits', async () => {
+      // Act
+      const exported = createTransactionExport('json', toIterable([groceries]), createContext());
+      const parsed = JSON.parse((await collect(exported.body)).toString('utf8'));
+
+      // Assert
+      expect(parsed).toHaveLength(1);
+      expect(parsed[0].categoryName).toBe('Groceries');
+      expect(parsed[0].splits.map((split: any) => split.categoryName)).toEqual(['Groceries', 'Household']);
+    });
+
+    it('should write an empty JSON array when there are no transactions', async () => {
+      // Act
+      const exported = createTransactionExport('json', toIterable([]), createContext());
+
+      // Assert
+      expect(JSON.parse((await collect(exported.body)).toString('utf8'))).toEqual([]);
+    });
+
+    it('should write OFX with signed amounts and the rate for foreign currencies', async () => {
+      // Arrange
+      const context = createContext();
+
+      // Act
+      const exported = createTransactionExport('ofx', toIterable([groceries, paycheck]), context);
+      const ofx = (await collect(exported.body)).toString('utf8');
+
+      // Assert
+      expect(ofx).toContain('<CURDEF>USD</CURDEF>');
+      expect(ofx).toContain('<TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20250301120000</DTPOSTED><TRNAMT>-100.00</TRNAMT>');
+      expect(ofx).toContain('<TRNAMT>2500.00</TRNAMT><FITID>tx-2</FITID>');
+      expect(ofx).toContain('<CURRENCY><CURRATE>1.1</CURRATE><CURSYM>EUR</CURSYM></CURRENCY>');
+      expect(context.getConversionFactor).toHaveBeenCalledTimes(1);
+      expect(context.getConversionFactor).toHaveBeenCalledWith('EUR', 'USD', new Date('2025-03-02T09:00:00.000Z'));
+    });
+
+    it('should write XLSX as a readable zip archive containing the sheet rows', async () => {
+      // Act
+      const exported = createTransactionExport('xlsx', toIterable([groceries, paycheck]), createContext());
+      const zip = await collect(exported.body);
+
+      // Assert: local header signature at the start, end of central directory at the end
+      expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+      const eocd = zip.length - 22;
+      expect(zip.readUInt32LE(eocd)).toBe(0x06054b50);
+      expect(zip.readUInt16LE(eocd + 10)).toBe(6);
+
+      // Locate the worksheet through the central directory and inflate it
+      let entry = zip.readUInt32LE(eocd + 16);
+      let sheetXml = '';
+      for (let i = 0; i < 6; i++) {
+        const nameLength = zip.readUInt16LE(entry + 28);
+        const name = zip.toString('utf8', entry + 46, entry + 46 + nameLength);
+        if (name === 'xl/worksheets/sheet1.xml') {
+          const compressedSize = zip.readUInt32LE(entry + 20);
+          const localOffset = zip.readUInt32LE(entry + 42);
+          const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26);
+          const data = zlib.inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize));
+          expect(zlib.crc32(data)).toBe(zip.readUInt32LE(entry + 16));
+          sheetXml = data.toString('utf8');
+        }
+        entry += 46 + nameLength + zip.readUInt16LE(entry + 30) + zip.readUInt16LE(entry + 32);
+      }
+
+      expect(sheetXml).toContain('<row r="4">');
+      expect(sheetXml).toContain('<t xml:space="preserve">Household</t>');
+      expect(sheetXml).toContain('<t xml:space="preserve">=ACME Payroll</t>');
+    });
+  });
+});
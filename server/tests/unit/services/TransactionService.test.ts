@@ -4,6 +4,7 @@
  * Tests the business logic layer for transactions with mocked dependencies
  */
 
+import { ObjectId } from 'mongodb';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { TransactionService } from '../../../src/services/TransactionService';
 import { TransactionValidationError } from '../../../src/models/Transaction';
@@ -13,24 +14,67 @@ import type { Transaction } from '../../../src/models/Transaction';
 vi.mock('../../../src/repositories/TransactionRepository', () => ({
   TransactionRepository: vi.fn().mockImplementation(() => ({
     createTransaction: vi.fn(),
+    createTransactions: vi.fn(),
     findTransactionById: vi.fn(),
     findAllTransactions: vi.fn(),
     findByUserId: vi.fn(),
+    findPageByUserId: vi.fn(),
+    streamByUserId: vi.fn(),
     updateTransaction: vi.fn(),
     deleteTransaction: vi.fn(),
+    findByImportId: vi.fn(),
+    deleteByImportId: vi.fn(),
     createIndexes: vi.fn(),
   })),
 }));
 
+// Mock the ReceiptService (uploads images to Firebase Storage, initializes Firebase on import)
+vi.mock('../../../src/services/ReceiptService', () => ({
+  ReceiptService: vi.fn().mockImplementation(() => ({
+    updateReceipt: vi.fn(),
+    deleteReceipt: vi.fn(),
+  })),
+}));
+
+// Mock the CategoryService
+vi.mock('../../../src/services/CategoryService', () => ({
+  CategoryService: vi.fn().mockImplementation(() => ({
+    getCategoryById: vi.fn(),
+    getCategoriesByUserId: vi.fn().mockResolvedValue([]),
+  })),
+}));
+
+// Mock the BudgetService
+vi.mock('../../../src/services/BudgetService', () => ({
+  BudgetService: vi.fn().mockImplementation(() => ({
+    syncRemainingForMonth: vi.fn(),
+  })),
+}));
+
+// Mock the ExchangeRateService
+vi.mock('../../../src/services/ExchangeRateService', () => ({
+  ExchangeRateService: vi.fn().mockImplementation(() => ({
+    getHomeCurrency: vi.fn().mockResolvedValue('USD'),
+    getConversionFactor: vi.fn().mockResolvedValue(1),
+    findUnconvertibleCurrency: vi.fn().mockResolvedValue(null),
+  })),
+}));
+
 import { TransactionRepository } from '../../../src/repositories/TransactionRepository';
 
 describe('TransactionService', () => {
   let transactionService: TransactionService;
   let mockTransactionRepository: any;
+  let mockBudgetService: any;
+  let mockCategoryService: any;
+  let mockExchangeRateService: any;
 
   beforeEach(() => {
     transactionService = new TransactionService();
     mockTransactionRepository = (transactionService as any).transactionRepository;
+    mockBudgetService = (transactionService as any).budgetService;
+    mockCategoryService = (transactionService as any).categoryService;
+    mockExchangeRateService = (transactionService as any).exchangeRateService;
     vi.clearAllMocks();
   });
 
@@ -68,7 +112,101 @@ describe('TransactionService', () => {
       expect(result.id).toBe('tx-123');
       expect(result.vendorName).toBe('Whole Foods');
       expect(result.amount).toBe(125.50);
-      expect(mockTransactionRepository.createTransaction).toHaveBeenCalledWith(validTransactionData);
+      expect(mockTransactionRepository.createTransaction).toHaveBeenCalledWith({ ...validTransactionData, kind: 'expense', currency: 'USD' });
+    });
+
+    it('should default kind to the category kind', async () => {
+      // Arrange
+      mockCategoryService.getCategoryById.mockResolvedValue({ id: 'cat-123', kind: 'income' });
+      mockTransactionRepository.createTransaction.mockResolvedValue({ ...mockCreatedTransaction, kind: 'income' });
+
+      // Act
+      const result = await transactionService.createTransaction(validTransactionData);
+
+      // Assert
+      expect(mockCategoryService.getCategoryById).toHaveBeenCalledWith('user-123', 'cat-123');
+      expect(mockTransactionRepository.createTransaction).toHaveBeenCalledWith({ ...validTransactionData, kind: 'income', currency: 'USD' });
+      expect(result.kind).toBe('income');
+    });
+
+    it('should keep an explicit kind without looking up the category', async () => {
+      // Arrange
+      mockTransactionRepository.createTransaction.mockResolvedValue({ ...mockCreatedTransaction, kind: 'transfer' });
+
+      // Act
+      await transactionService.createTransaction({ ...validTransactionData, kind: 'transfer' });
+
+      // Assert
+      expect(mockCategoryService.getCategoryById).not.toHaveBeenCalled();
+      expect(mockTransactionRepository.createTransaction).toHaveBeenCalledWith({ ...validTransactionData, kind: 'transfer', currency: 'USD' });
+    });
+
+    it('should default currency to the user home currency', async () => {
+      // Arrange
+      mockExchangeRateService.getHomeCurrency.mockResolvedValue('EUR');
+      mockTransactionRepository.createTransaction.mockResolvedValue({ ...mockCreatedTransaction, currency: 'EUR' });
+
+      // Act
+      const result = await transactionService.createTransaction(validTransactionData);
+
+      // Assert
+      expect(mockExchangeRateService.getHomeCurrency).toHaveBeenCalledWith('user-123');
+      expect(mockTransactionRepository.createTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ currency: 'EUR' })
+      );
+      expect(result.currency).toBe('EUR');
+    });
+
+    it('should keep an explicit currency that converts into the home currency', async () => {
+      // Arrange
+      mockTransactionRepository.createTransaction.mockResolvedValue({ ...mockCreatedTransaction, currency: 'JPY' });
+
+      // Act
+      await transactionService.createTransaction({ ...validTransactionData, currency: 'jpy' });
+
+      // Assert
+      expect(mockExchangeRateService.findUnconvertibleCurrency).toHaveBeenCalledWith(['JPY'], 'USD');
+      expect(mockTransactionRepository.createTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ currency: 'JPY' })
+      );
+    });
+
+    it('should reject a currency with no exchange rate to the home currency', async () => {
+      // Arrange
+      mockExchangeRateService.findUnconvertibleCurrency.mockResolvedValueOnce('XOF');
+
+      // Act & Assert
+      await expect(
+        transactionService.createTransaction({ ...validTransactionData, currency: 'XOF' })
+      ).rejects.toMatchObject({ name: 'TransactionValidationError', field: 'currency' });
+      expect(mockTransactionRepository.createTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should sync budget remaining for the transaction month and category', async () => {
+      // Arrange
+      mockTransactionRepository.createTransaction.mockResolvedValue(mockCreatedTransaction);
+
+      // Act
+      await transactionService.createTransaction(validTransactionData);
+
+      // Assert
+      expect(mockBudgetService.syncRemainingForMonth).toHaveBeenCalledWith(
+        'user-123',
+        new Date('2025-01-25T14:30:00Z'),
+        'cat-123'
+      );
+    });
+
+    it('should still return the transaction when budget sync fails', async () => {
+      // Arrange
+      mockTransactionRepository.createTransaction.mockResolvedValue(mockCreatedTransaction);
+      mockBudgetService.syncRemainingForMonth.mockRejectedValue(new Error('db down'));
+
+      // Act
+      const result = await transactionService.createTransaction(validTransactionData);
+
+      // Assert
+      expect(result.id).toBe('tx-123');
     });
 
     it('should throw TransactionValidationError for missing required fields', async () => {
@@ -81,6 +219,70 @@ describe('TransactionService', () => {
       ).rejects.toThrow(TransactionValidationError);
     });
 
+    it('should default categoryId to the largest split line', async () => {
+      // Arrange
+      const { categoryId, ...withoutCategory } = validTransactionData;
+      const splits = [
+        { categoryId: 'cat-household', amount: 25.50, note: 'Paper towels' },
+        { categoryId: 'cat-groceries', amount: 100.00 },
+      ];
+      mockTransactionRepository.createTransaction.mockResolvedValue({ ...mockCreatedTransaction, splits });
+
+      // Act
+      await transactionService.createTransaction({ ...withoutCategory, splits });
+
+      // Assert
+      expect(mockTransactionRepository.createTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ categoryId: 'cat-groceries', splits })
+      );
+    });
+
+    it('should reject splits that do not add up to the amount', async () => {
+      // Arrange
+      const splits = [
+        { categoryId: 'cat-household', amount: 25.00 },
+        { categoryId: 'cat-groceries', amount: 100.00 },
+      ];
+
+      // Act & Assert
+      await expect(
+        transactionService.createTransaction({ ...validTransactionData, splits })
+      ).rejects.toMatchObject({ field: 'splits', message: 'Split amounts must add up to the transaction amount' });
+      expect(mockTransactionRepository.createTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should split evenly with participants who have no shares', async () => {
+      // Arrange
+      mockTransactionRepository.createTransaction.mockResolvedValue(mockCreatedTransaction);
+
+      // Act
+      await transactionService.createTransaction({
+        ...validTransactionData,
+        amount: 80,
+        participants: [{ name: 'Sam' }],
+        paidBy: 'sam',
+      });
+
+      // Assert
+      expect(mockTransactionRepository.createTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ participants: [{ name: 'Sam', share: 40 }], splitEvenly: true, paidBy: 'Sam' })
+      );
+    });
+
+    it('should reject participant shares that add up to more than the amount', async () => {
+      // Arrange
+      const participants = [
+        { name: 'Sam', share: 50 },
+        { name: 'Alex', share: 50 },
+      ];
+
+      // Act & Assert
+      await expect(
+        transactionService.createTransaction({ ...validTransactionData, amount: 80, participants })
+      ).rejects.toMatchObject({ field: 'participants' });
+      expect(mockTransactionRepository.createTransaction).not.toHaveBeenCalled();
+    });
+
     it('should throw TransactionValidationError for invalid amount (negative)', async () => {
       // Arrange
       const invalidData = { ...validTransactionData, amount: -100 };
@@ -125,7 +327,7 @@ describe('TransactionService', () => {
       mockTransactionRepository.findTransactionById.mockResolvedValue(mockTransaction);
 
       // Act
-      const result = await transactionService.getTransactionById('tx-123');
+      const result = await transactionService.getTransactionById('user-123', 'tx-123');
 
       // Assert
       expect(result).toBeDefined();
@@ -138,7 +340,18 @@ describe('TransactionService', () => {
       mockTransactionRepository.findTransactionById.mockResolvedValue(null);
 
       // Act
-      const result = await transactionService.getTransactionById('non-existent-id');
+      const result = await transactionService.getTransactionById('user-123', 'non-existent-id');
+
+      // Assert
+      expect(result).toBeNull();
+    });
+
+    it("should return null for another user's transaction", async () => {
+      // Arrange
+      mockTransactionRepository.findTransactionById.mockResolvedValue({ ...mockTransaction, userId: 'user-456' });
+
+      // Act
+      const result = await transactionService.getTransactionById('user-123', 'tx-123');
 
       // Assert
       expect(result).toBeNull();
@@ -146,57 +359,193 @@ describe('TransactionService', () => {
 
     it('should throw TransactionValidationError for invalid ID format', async () => {
       // Act & Assert
-      await expect(transactionService.getTransactionById('')).rejects.toThrow(TransactionValidationError);
+      await expect(transactionService.getTransactionById('user-123', '')).rejects.toThrow(TransactionValidationError);
       expect(mockTransactionRepository.findTransactionById).not.toHaveBeenCalled();
     });
   });
 
-  describe('getAllTransactions', () => {
-    it('should return all transactions', async () => {
-      // Arrange
-      const mockTransactions: Transaction[] = [
-        {
-          id: 'tx-1',
-          userId: 'user-123',
-          vendorName: 'Store A',
-          description: 'Purchase',
-          dateTime: new Date(),
-          amount: 50.00,
-          paymentType: 'credit',
-          categoryId: 'cat-123',
-        },
-        {
-          id: 'tx-2',
-          userId: 'user-456',
-          vendorName: 'Store B',
-          description: 'Purchase',
-          dateTime: new Date(),
-          amount: 75.00,
-          paymentType: 'debit',
-          categoryId: 'cat-456',
-        },
-      ];
+  describe('listTransactions', () => {
+    const mockTransactions: Transaction[] = [
+      {
+        id: 'tx-1',
+        userId: 'user-123',
+        vendorName: 'Store A',
+        description: 'Purchase',
+        dateTime: new Date('2025-01-20T10:00:00Z'),
+        amount: 50.00,
+        paymentType: 'credit',
+        categoryId: 'cat-123',
+      },
+      {
+        id: 'tx-2',
+        userId: 'user-123',
+        vendorName: 'Store B',
+        description: 'Purchase',
+        dateTime: new Date('2025-01-18T10:00:00Z'),
+        amount: 75.00,
+        paymentType: 'debit',
+        categoryId: 'cat-456',
+      },
+    ];
+
+    it('should apply default page size and sort', async () => {
+      // Arrange
+      mockTransactionRepository.findPageByUserId.mockResolvedValue({ transactions: mockTransactions, hasMore: false });
 
-      mockTransactionRepository.findAllTransactions.mockResolvedValue(mockTransactions);
+      // Act
+      const result = await transactionService.listTransactions('user-123', {});
+
+      // Assert
+      expect(result.items).toHaveLength(2);
+      expect(result.hasMore).toBe(false);
+      expect(result.nextCursor).toBeNull();
+      expect(mockTransactionRepository.findPageByUserId).toHaveBeenCalledWith(
+        'user-123',
+        expect.any(Object),
+        { limit: 50, sortBy: 'dateTime', sortOrder: 'desc', after: undefined }
+      );
+    });
+
+    it('should parse filters from query parameters', async () => {
+      // Arrange
+      mockTransactionRepository.findPageByUserId.mockResolvedValue({ transactions: [], hasMore: false });
 
       // Act
-      const result = await transactionService.getAllTransactions();
+      await transactionService.listTransactions('user-123', {
+        startDate: '2025-01-01',
+        endDate: '2025-01-31',
+        categoryId: 'cat-123,cat-456',
+        paymentType: 'credit',
+        vendor: 'store',
+        minAmount: '10',
+        maxAmount: '100',
+        sortBy: 'amount',
+        sortOrder: 'asc',
+        limit: '20',
+      });
 
       // Assert
-      expect(result).toHaveLength(2);
-      expect(result[0].id).toBe('tx-1');
-      expect(result[1].id).toBe('tx-2');
+      const [, filters, options] = mockTransactionRepository.findPageByUserId.mock.calls[0];
+      expect(filters).toEqual({
+        startDate: new Date(2025, 0, 1, 0, 0, 0, 0),
+        endDate: new Date(2025, 0, 31, 23, 59, 59, 999),
+        categoryIds: ['cat-123', 'cat-456'],
+        paymentType: 'credit',
+        vendor: 'store',
+        minAmount: 10,
+        maxAmount: 100,
+      });
+      expect(options).toEqual({ limit: 20, sortBy: 'amount', sortOrder: 'asc', after: undefined });
     });
 
-    it('should return empty array if no transactions exist', async () => {
+    it('should return a cursor that resumes after the last item', async () => {
+      // Arrange
+      const lastId = new ObjectId('507f1f77bcf86cd799439012');
+      mockTransactionRepository.findPageByUserId.mockResolvedValueOnce({
+        transactions: [mockTransactions[0], { ...mockTransactions[1], _id: lastId }],
+        hasMore: true,
+      });
+
+      // Act
+      const firstPage = await transactionService.listTransactions('user-123', { limit: '2' });
+
+      mockTransactionRepository.findPageByUserId.mockResolvedValueOnce({ transactions: [], hasMore: false });
+      await transactionService.listTransactions('user-123', { limit: '2', cursor: firstPage.nextCursor });
+
+      // Assert
+      expect(firstPage.hasMore).toBe(true);
+      expect(firstPage.nextCursor).toEqual(expect.any(String));
+      const [, , options] = mockTransactionRepository.findPageByUserId.mock.calls[1];
+      expect(options.after).toEqual({ value: new Date('2025-01-18T10:00:00Z'), id: lastId.toString() });
+    });
+
+    it('should throw TransactionValidationError for a malformed cursor', async () => {
+      // Act & Assert
+      await expect(
+        transactionService.listTransactions('user-123', { cursor: 'not-a-cursor' })
+      ).rejects.toThrow(TransactionValidationError);
+      expect(mockTransactionRepository.findPageByUserId).not.toHaveBeenCalled();
+    });
+
+    it('should throw TransactionValidationError for a cursor without a valid transaction ID', async () => {
+      // Arrange
+      const cursor = Buffer.from(JSON.stringify({ v: '2025-01-18T10:00:00.000Z', id: 'tx-2' })).toString('base64url');
+
+      // Act & Assert
+      await expect(
+        transactionService.listTransactions('user-123', { cursor })
+      ).rejects.toMatchObject({ message: 'Invalid cursor', field: 'cursor' });
+      expect(mockTransactionRepository.findPageByUserId).not.toHaveBeenCalled();
+    });
+
+    it('should throw TransactionValidationError when minAmount exceeds maxAmount', async () => {
+      // Act & Assert
+      await expect(
+        transactionService.listTransactions('user-123', { minAmount: '100', maxAmount: '10' })
+      ).rejects.toThrow(TransactionValidationError);
+    });
+
+    it('should throw TransactionValidationError for an unknown sort field', async () => {
+      // Act & Assert
+      await expect(
+        transactionService.listTransactions('user-123', { sortBy: 'description' })
+      ).rejects.toThrow(TransactionValidationError);
+    });
+  });
+
+  describe('exportTransactions', () => {
+    const splitTransaction: Transaction = {
+      id: 'tx-1',
+      userId: 'user-123',
+      vendorName: 'Costco',
+      description: 'Bulk run',
+      dateTime: new Date('2025-01-20T10:00:00Z'),
+      amount: 90,
+      paymentType: 'credit',
+      categoryId: 'cat-food',
+      splits: [
+        { categoryId: 'cat-food', amount: 60 },
+        { categoryId: 'cat-home', amount: 30 },
+      ],
+    };
+
+    async function* stream(transactions: Transaction[]) {
+      for (const transaction of transactions) yield transaction;
+    }
+
+    it('should stream filtered transactions as CSV with resolved category names', async () => {
       // Arrange
-      mockTransactionRepository.findAllTransactions.mockResolvedValue([]);
+      mockTransactionRepository.streamByUserId.mockReturnValue(stream([splitTransaction]));
+      mockCategoryService.getCategoriesByUserId.mockResolvedValue([
+        { id: 'cat-food', name: 'Groceries' },
+        { id: 'cat-home', name: 'Household' },
+      ]);
 
       // Act
-      const result = await transactionService.getAllTransactions();
+      const exported = await transactionService.exportTransactions('user-123', {
+        startDate: '2025-01-01',
+        vendor: 'cost',
+        sortBy: 'amount',
+      });
+      let body = '';
+      for await (const chunk of exported.body) body += chunk;
 
       // Assert
-      expect(result).toEqual([]);
+      expect(exported.contentType).toBe('text/csv; charset=utf-8');
+      const [userId, filters, options] = mockTransactionRepository.streamByUserId.mock.calls[0];
+      expect(userId).toBe('user-123');
+      expect(filters).toMatchObject({ startDate: new Date(2025, 0, 1), vendor: 'cost' });
+      expect(options).toEqual({ sortBy: 'amount', sortOrder: 'desc' });
+      expect(body).toContain(',60,USD,expense,credit,Groceries,tx-1');
+      expect(body).toContain(',30,USD,expense,credit,Household,tx-1');
+    });
+
+    it('should throw TransactionValidationError for an unknown format', async () => {
+      // Act & Assert
+      await expect(
+        transactionService.exportTransactions('user-123', { format: 'pdf' })
+      ).rejects.toThrow(TransactionValidationError);
+      expect(mockTransactionRepository.streamByUserId).not.toHaveBeenCalled();
     });
   });
 
@@ -221,7 +570,7 @@ describe('TransactionService', () => {
       mockTransactionRepository.updateTransaction.mockResolvedValue(updatedTransaction);
 
       // Act
-      const result = await transactionService.updateTransaction('tx-123', updateData);
+      const result = await transactionService.updateTransaction('user-123', 'tx-123', updateData);
 
       // Assert
       expect(result).toBeDefined();
@@ -229,12 +578,180 @@ describe('TransactionService', () => {
       expect(mockTransactionRepository.updateTransaction).toHaveBeenCalledWith('tx-123', updateData);
     });
 
+    it('should sync budgets for both the old and new month/category', async () => {
+      // Arrange
+      const updateData = { dateTime: '2025-02-03T09:00:00Z', categoryId: 'cat-456' };
+      const updatedTransaction: Transaction = {
+        ...existingTransaction,
+        dateTime: new Date('2025-02-03T09:00:00Z'),
+        categoryId: 'cat-456',
+      };
+
+      mockTransactionRepository.findTransactionById.mockResolvedValue(existingTransaction);
+      mockTransactionRepository.updateTransaction.mockResolvedValue(updatedTransaction);
+
+      // Act
+      await transactionService.updateTransaction('user-123', 'tx-123', updateData);
+
+      // Assert
+      expect(mockBudgetService.syncRemainingForMonth).toHaveBeenCalledTimes(2);
+      expect(mockBudgetService.syncRemainingForMonth).toHaveBeenCalledWith('user-123', existingTransaction.dateTime, 'cat-123');
+      expect(mockBudgetService.syncRemainingForMonth).toHaveBeenCalledWith('user-123', updatedTransaction.dateTime, 'cat-456');
+    });
+
+    it('should sync the budget once when month and category are unchanged', async () => {
+      // Arrange
+      mockTransactionRepository.findTransactionById.mockResolvedValue(existingTransaction);
+      mockTransactionRepository.updateTransaction.mockResolvedValue({ ...existingTransaction, amount: 99 });
+
+      // Act
+      await transactionService.updateTransaction('user-123', 'tx-123', { amount: 99 });
+
+      // Assert
+      expect(mockBudgetService.syncRemainingForMonth).toHaveBeenCalledTimes(1);
+    });
+
+    it('should file a new split under its largest line and sync every split category', async () => {
+      // Arrange
+      const splits = [
+        { categoryId: 'cat-household', amount: 25.50 },
+        { categoryId: 'cat-groceries', amount: 100.00 },
+      ];
+      const updatedTransaction: Transaction = { ...existingTransaction, categoryId: 'cat-groceries', splits };
+
+      mockTransactionRepository.findTransactionById.mockResolvedValue(existingTransaction);
+      mockTransactionRepository.updateTransaction.mockResolvedValue(updatedTransaction);
+
+      // Act
+      const result = await transactionService.updateTransaction('user-123', 'tx-123', { splits });
+
+      // Assert
+      expect(result?.splits).toEqual(splits);
+      expect(mockTransactionRepository.updateTransaction).toHaveBeenCalledWith('tx-123', {
+        splits,
+        categoryId: 'cat-groceries',
+      });
+      expect(mockBudgetService.syncRemainingForMonth).toHaveBeenCalledWith('user-123', existingTransaction.dateTime, 'cat-123');
+      expect(mockBudgetService.syncRemainingForMonth).toHaveBeenCalledWith('user-123', existingTransaction.dateTime, 'cat-household');
+      expect(mockBudgetService.syncRemainingForMonth).toHaveBeenCalledWith('user-123', existingTransaction.dateTime, 'cat-groceries');
+    });
+
+    it('should reject an amount change that no longer matches the existing split', async () => {
+      // Arrange
+      mockTransactionRepository.findTransactionById.mockResolvedValue({
+        ...existingTransaction,
+        splits: [
+          { categoryId: 'cat-123', amount: 100.00 },
+          { categoryId: 'cat-456', amount: 25.50 },
+        ],
+      });
+
+      // Act & Assert
+      await expect(transactionService.updateTransaction('user-123', 'tx-123', { amount: 130 }))
+        .rejects.toThrow('Split amounts must add up to the transaction amount');
+      expect(mockTransactionRepository.updateTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should clear the payer when participants are removed', async () => {
+      // Arrange
+      mockTransactionRepository.findTransactionById.mockResolvedValue({
+        ...existingTransaction,
+        participants: [{ name: 'Sam', share: 60 }],
+        paidBy: 'Sam',
+      });
+      mockTransactionRepository.updateTransaction.mockResolvedValue(existingTransaction);
+
+      // Act
+      await transactionService.updateTransaction('user-123', 'tx-123', { participants: null });
+
+      // Assert
+      expect(mockTransactionRepository.updateTransaction).toHaveBeenCalledWith('tx-123', { participants: null, paidBy: null });
+    });
+
+    it('should divide even shares again when the amount changes', async () => {
+      // Arrange
+      mockTransactionRepository.findTransactionById.mockResolvedValue({
+        ...existingTransaction,
+        participants: [{ name: 'Sam', share: 60 }],
+        splitEvenly: true,
+      });
+      mockTransactionRepository.updateTransaction.mockResolvedValue(existingTransaction);
+
+      // Act
+      await transactionService.updateTransaction('user-123', 'tx-123', { amount: 80 });
+
+      // Assert
+      expect(mockTransactionRepository.updateTransaction).toHaveBeenCalledWith('tx-123', {
+        amount: 80,
+        participants: [{ name: 'Sam', share: 40 }],
+      });
+    });
+
+    it('should keep shares that were given when the amount changes', async () => {
+      // Arrange
+      mockTransactionRepository.findTransactionById.mockResolvedValue({
+        ...existingTransaction,
+        participants: [{ name: 'Sam', share: 60 }],
+      });
+      mockTransactionRepository.updateTransaction.mockResolvedValue(existingTransaction);
+
+      // Act
+      await transactionService.updateTransaction('user-123', 'tx-123', { amount: 80 });
+
+      // Assert
+      expect(mockTransactionRepository.updateTransaction).toHaveBeenCalledWith('tx-123', { amount: 80 });
+    });
+
+    it('should stop dividing evenly once shares are given', async () => {
+      // Arrange
+      mockTransactionRepository.findTransactionById.mockResolvedValue({
+        ...existingTransaction,
+        participants: [{ name: 'Sam', share: 60 }],
+        splitEvenly: true,
+      });
+      mockTransactionRepository.updateTransaction.mockResolvedValue(existingTransaction);
+
+      // Act
+      await transactionService.updateTransaction('user-123', 'tx-123', { participants: [{ name: 'Sam', share: 20 }] });
+
+      // Assert
+      expect(mockTransactionRepository.updateTransaction).toHaveBeenCalledWith('tx-123', {
+        participants: [{ name: 'Sam', share: 20 }],
+        splitEvenly: null,
+      });
+    });
+
+    it('should reject a payer who is not a participant', async () => {
+      // Arrange
+      mockTransactionRepository.findTransactionById.mockResolvedValue({
+        ...existingTransaction,
+        participants: [{ name: 'Sam', share: 60 }],
+      });
+
+      // Act & Assert
+      await expect(transactionService.updateTransaction('user-123', 'tx-123', { paidBy: 'Alex' }))
+        .rejects.toThrow('paidBy must name one of the participants');
+      expect(mockTransactionRepository.updateTransaction).not.toHaveBeenCalled();
+    });
+
     it('should return null if transaction not found', async () => {
       // Arrange
       mockTransactionRepository.findTransactionById.mockResolvedValue(null);
 
       // Act
-      const result = await transactionService.updateTransaction('non-existent-id', { amount: 150.00 });
+      const result = await transactionService.updateTransaction('user-123', 'non-existent-id', { amount: 150.00 });
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockTransactionRepository.updateTransaction).not.toHaveBeenCalled();
+    });
+
+    it("should not update another user's transaction", async () => {
+      // Arrange
+      mockTransactionRepository.findTransactionById.mockResolvedValue({ ...existingTransaction, userId: 'user-456' });
+
+      // Act
+      const result = await transactionService.updateTransaction('user-123', 'tx-123', { amount: 150.00 });
 
       // Assert
       expect(result).toBeNull();
@@ -244,39 +761,144 @@ describe('TransactionService', () => {
     it('should throw TransactionValidationError for invalid ID', async () => {
       // Act & Assert
       await expect(
-        transactionService.updateTransaction('', { amount: 150.00 })
+        transactionService.updateTransaction('user-123', '', { amount: 150.00 })
       ).rejects.toThrow(TransactionValidationError);
     });
   });
 
   describe('deleteTransaction', () => {
+    const existingTransaction: Transaction = {
+      id: 'tx-123',
+      userId: 'user-123',
+      vendorName: 'Whole Foods',
+      description: 'Weekly groceries',
+      dateTime: new Date('2025-01-25T14:30:00Z'),
+      amount: 125.50,
+      paymentType: 'credit',
+      categoryId: 'cat-123',
+    };
+
     it('should delete transaction successfully', async () => {
       // Arrange
+      mockTransactionRepository.findTransactionById.mockResolvedValue(existingTransaction);
       mockTransactionRepository.deleteTransaction.mockResolvedValue(true);
 
       // Act
-      const result = await transactionService.deleteTransaction('tx-123');
+      const result = await transactionService.deleteTransaction('user-123', 'tx-123');
 
       // Assert
       expect(result).toBe(true);
       expect(mockTransactionRepository.deleteTransaction).toHaveBeenCalledWith('tx-123');
     });
 
+    it('should sync budget remaining after deleting', async () => {
+      // Arrange
+      mockTransactionRepository.findTransactionById.mockResolvedValue(existingTransaction);
+      mockTransactionRepository.deleteTransaction.mockResolvedValue(true);
+
+      // Act
+      await transactionService.deleteTransaction('user-123', 'tx-123');
+
+      // Assert
+      expect(mockBudgetService.syncRemainingForMonth).toHaveBeenCalledWith('user-123', existingTransaction.dateTime, 'cat-123');
+    });
+
     it('should return false if transaction not found', async () => {
       // Arrange
+      mockTransactionRepository.findTransactionById.mockResolvedValue(null);
       mockTransactionRepository.deleteTransaction.mockResolvedValue(false);
 
       // Act
-      const result = await transactionService.deleteTransaction('non-existent-id');
+      const result = await transactionService.deleteTransaction('user-123', 'non-existent-id');
 
       // Assert
       expect(result).toBe(false);
     });
 
+    it("should not delete another user's transaction or its receipt", async () => {
+      // Arrange
+      mockTransactionRepository.findTransactionById.mockResolvedValue({ ...existingTransaction, userId: 'user-456', receiptId: 'receipt-1' });
+
+      // Act
+      const result = await transactionService.deleteTransaction('user-123', 'tx-123');
+
+      // Assert
+      expect(result).toBe(false);
+      expect(mockTransactionRepository.deleteTransaction).not.toHaveBeenCalled();
+      expect((transactionService as any).receiptService.deleteReceipt).not.toHaveBeenCalled();
+    });
+
     it('should throw TransactionValidationError for invalid ID', async () => {
       // Act & Assert
-      await expect(transactionService.deleteTransaction('')).rejects.toThrow(TransactionValidationError);
+      await expect(transactionService.deleteTransaction('user-123', '')).rejects.toThrow(TransactionValidationError);
       expect(mockTransactionRepository.deleteTransaction).not.toHaveBeenCalled();
     });
   });
+
+  describe('createTransactionBatch', () => {
+    const item = {
+      userId: 'user-123',
+      vendorName: 'Blue Bottle',
+      description: 'Coffee',
+      dateTime: '2025-03-03T12:00:00Z',
+      amount: 4.5,
+      paymentType: 'Debit',
+      categoryId: 'cat-food',
+      importId: 'import-1',
+    };
+
+    it('should validate every item before inserting them in one call', async () => {
+      // Arrange
+      mockTransactionRepository.createTransactions.mockImplementation(async (items: any[]) =>
+        items.map((data, i) => ({ ...data, id: `tx-${i}`, dateTime: new Date(data.dateTime) }))
+      );
+
+      // Act
+      const result = await transactionService.createTransactionBatch([item, { ...item, amount: 12, categoryId: 'cat-rent' }]);
+
+      // Assert
+      expect(result).toHaveLength(2);
+      expect(mockTransactionRepository.createTransactions).toHaveBeenCalledTimes(1);
+      expect(mockTransactionRepository.createTransactions.mock.calls[0][0][0]).toMatchObject({
+        importId: 'import-1', currency: 'USD', kind: 'expense',
+      });
+      expect(mockExchangeRateService.getHomeCurrency).toHaveBeenCalledTimes(1);
+      expect(mockBudgetService.syncRemainingForMonth).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject the whole batch when one item is invalid', async () => {
+      // Act & Assert
+      await expect(
+        transactionService.createTransactionBatch([item, { ...item, amount: -1 }])
+      ).rejects.toThrow(TransactionValidationError);
+      expect(mockTransactionRepository.createTransactions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteTransactionsByImportId', () => {
+    it('should delete the import\'s transactions and sync their budgets', async () => {
+      // Arrange
+      const imported: Transaction = {
+        id: 'tx-1',
+        userId: 'user-123',
+        vendorName: 'Blue Bottle',
+        description: 'Coffee',
+        dateTime: new Date('2025-03-03T12:00:00Z'),
+        amount: 4.5,
+        paymentType: 'Debit',
+        categoryId: 'cat-food',
+        importId: 'import-1',
+      };
+      mockTransactionRepository.findByImportId.mockResolvedValue([imported]);
+      mockTransactionRepository.deleteByImportId.mockResolvedValue(1);
+
+      // Act
+      const deleted = await transactionService.deleteTransactionsByImportId('import-1');
+
+      // Assert
+      expect(deleted).toBe(1);
+      expect(mockTransactionRepository.deleteByImportId).toHaveBeenCalledWith('import-1');
+      expect(mockBudgetService.syncRemainingForMonth).toHaveBeenCalledWith('user-123', imported.dateTime, 'cat-food');
+    });
+  });
 });
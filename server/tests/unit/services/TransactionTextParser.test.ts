@@ -0,0 +1,191 @@
+/**
+ * TransactionTextParser Unit Tests
+ *
+ * Tests reading amounts, currencies, vendors, payment types, dates, descriptions
+ * and split participants from spoken or typed text
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  extractAmount,
+  extractCurrency,
+  extractShortDescription,
+  extractVendor,
+  parsePaymentType,
+  parseSplitParticipants,
+  parseTransactionText,
+  wordsToNumber,
+} from '../../../src/services/TransactionTextParser';
+
+describe('TransactionTextParser', () => {
+  describe('extractAmount', () => {
+    it('should parse a dollar sign amount', () => {
+      expect(extractAmount('coffee for $4.50')).toBe(4.5);
+    });
+
+    it('should parse a numeric amount followed by dollars and cents', () => {
+      expect(extractAmount('paid 12 dollars and 30 cents')).toBe(12.3);
+    });
+
+    it('should parse spoken amounts anywhere in the sentence', () => {
+      expect(extractAmount('twenty five dollars at the gas station')).toBe(25);
+      expect(extractAmount('dinner at Olive Garden eighty dollars split with Sam')).toBe(80);
+      expect(extractAmount('one hundred and twenty dollars and fifty cents for shoes')).toBe(120.5);
+      expect(extractAmount('twenty dollars fifty at the market')).toBe(20.5);
+    });
+
+    it('should parse other currencies by name, symbol and code', () => {
+      expect(extractAmount('twenty euros at a cafe')).toBe(20);
+      expect(extractAmount('lunch €12.50')).toBe(12.5);
+      expect(extractAmount('£8 for the train')).toBe(8);
+      expect(extractAmount('ramen ¥1200')).toBe(1200);
+      expect(extractAmount('museum ticket 15€')).toBe(15);
+      expect(extractAmount('5 pounds and 40 pence at Tesco')).toBe(5.4);
+      expect(extractAmount('three thousand yen for sushi')).toBe(3000);
+      expect(extractAmount('hotel 140 EUR')).toBe(140);
+    });
+
+    it('should parse shorthand and multipliers', () => {
+      expect(extractAmount('rent was 1.3k')).toBe(1300);
+      expect(extractAmount('13 hundred for the laptop')).toBe(1300);
+      expect(extractAmount('$1,250 for the sofa')).toBe(1250);
+    });
+
+    it('should return null when there is no amount', () => {
+      expect(extractAmount('lunch with friends')).toBeNull();
+      expect(extractAmount('')).toBeNull();
+    });
+  });
+
+  describe('wordsToNumber', () => {
+    it('should combine tens, units and multipliers', () => {
+      expect(wordsToNumber('twenty-five')).toBe(25);
+      expect(wordsToNumber('two thousand three hundred and one')).toBe(2301);
+    });
+
+    it('should return null for non-number words', () => {
+      expect(wordsToNumber('olive garden')).toBeNull();
+    });
+  });
+
+  describe('extractCurrency', () => {
+    it('should detect currencies by name, symbol or code', () => {
+      expect(extractCurrency('five quid for a sandwich')).toBe('GBP');
+      expect(extractCurrency('three thousand yen')).toBe('JPY');
+      expect(extractCurrency('ten bucks')).toBe('USD');
+      expect(extractCurrency('€12.50')).toBe('EUR');
+      expect(extractCurrency('140 eur')).toBe('EUR');
+    });
+
+    it('should use the first currency mentioned', () => {
+      expect(extractCurrency('20 euros, about 22 dollars')).toBe('EUR');
+    });
+
+    it('should return null when no currency is mentioned', () => {
+      expect(extractCurrency('twenty at a cafe')).toBeNull();
+    });
+  });
+
+  describe('extractVendor', () => {
+    it('should stop before time phrases and payment methods', () => {
+      expect(extractVendor('coffee at Starbucks this morning')).toBe('Starbucks');
+      expect(extractVendor('groceries from Whole Foods using my visa')).toBe('Whole Foods');
+      expect(extractVendor("lunch at Joe's Diner, it was great")).toBe("Joe's Diner");
+    });
+
+    it('should leave out who the cost was split with', () => {
+      expect(extractVendor('dinner at Olive Garden split with Sam')).toBe('Olive Garden');
+    });
+
+    it('should return null when no vendor is named', () => {
+      expect(extractVendor('spent ten dollars')).toBeNull();
+    });
+  });
+
+  describe('parsePaymentType', () => {
+    it('should detect cards, wallets and cash', () => {
+      expect(parsePaymentType('paid on my Visa')).toBe('Visa');
+      expect(parsePaymentType('american express')).toBe('Amex');
+      expect(parsePaymentType('with apple pay')).toBe('Apple Pay');
+      expect(parsePaymentType('in cash')).toBe('Cash');
+      expect(parsePaymentType('on credit')).toBe('Credit Card');
+    });
+
+    it('should return null when no payment method is mentioned', () => {
+      expect(parsePaymentType('coffee at Starbucks')).toBeNull();
+    });
+  });
+
+  describe('parseSplitParticipants', () => {
+    it('should read names up to the next phrase', () => {
+      expect(parseSplitParticipants('dinner split with Sam')).toEqual(['Sam']);
+      expect(parseSplitParticipants('pizza split it with sam, Alex and jo yesterday')).toEqual(['Sam', 'Alex', 'Jo']);
+    });
+
+    it('should ignore the speaker and repeated names', () => {
+      expect(parseSplitParticipants('split with Sam and me and sam')).toEqual(['Sam']);
+    });
+
+    it('should return no names when the cost is not split', () => {
+      expect(parseSplitParticipants('dinner with Sam')).toEqual([]);
+    });
+  });
+
+  describe('extractShortDescription', () => {
+    it('should keep the time of day with the purchase', () => {
+      expect(extractShortDescription('I spent $5 at Starbucks this morning on coffee', 'Starbucks')).toBe('Morning Coffee');
+    });
+
+    it('should drop a trailing "cup"', () => {
+      expect(extractShortDescription('four dollars for a latte cup', null)).toBe('Latte');
+    });
+  });
+
+  describe('parseTransactionText', () => {
+    const now = new Date('2025-03-15T17:00:00Z');
+
+    it('should build a draft with a confidence per field', () => {
+      // Act
+      const draft = parseTransactionText('dinner at Olive Garden eighty dollars split with Sam yesterday on my visa', { now });
+
+      // Assert
+      expect(draft).toEqual({
+        text: 'dinner at Olive Garden eighty dollars split with Sam yesterday on my visa',
+        vendorName: { value: 'Olive Garden', confidence: 0.8 },
+        amount: { value: 80, confidence: 0.85 },
+        currency: { value: 'USD', confidence: 0.9 },
+        paymentType: { value: 'Visa', confidence: 0.9 },
+        dateTime: { value: new Date('2025-03-14T12:00:00Z'), confidence: 0.9 },
+        description: { value: 'Dinner', confidence: 0.5 },
+        participants: { value: ['Sam'], confidence: 0.8 },
+      });
+    });
+
+    it('should resolve dates in the given time zone and keep them out of the vendor', () => {
+      // Act
+      const draft = parseTransactionText('coffee at Starbucks last Friday morning for $5', { now, timeZone: 'America/Chicago' });
+
+      // Assert
+      expect(draft.vendorName.value).toBe('Starbucks');
+      expect(draft.dateTime.value).toEqual(new Date('2025-03-14T14:00:00Z'));
+      expect(draft.description.value).toBe('Morning Coffee');
+    });
+
+    it('should return null values with zero confidence for fields not mentioned', () => {
+      // Act
+      const draft = parseTransactionText('groceries', { now });
+
+      // Assert
+      expect(draft.amount).toEqual({ value: null, confidence: 0 });
+      expect(draft.vendorName).toEqual({ value: null, confidence: 0 });
+      expect(draft.dateTime).toEqual({ value: null, confidence: 0 });
+      expect(draft.participants).toEqual({ value: null, confidence: 0 });
+      expect(draft.description.value).toBe('Groceries');
+    });
+
+    it('should trust amounts with a symbol more than spoken ones', () => {
+      expect(parseTransactionText('$12 at Target', { now }).amount.confidence)
+        .toBeGreaterThan(parseTransactionText('twelve dollars at Target', { now }).amount.confidence);
+    });
+  });
+});
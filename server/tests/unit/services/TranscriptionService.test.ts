@@ -0,0 +1,170 @@
+/**
+ * TranscriptionService Unit Tests
+ *
+ * Tests transcribing recordings through the speech-to-text providers,
+ * with fetch stubbed for the AssemblyAI and Whisper adapters
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { TranscriptionService } from '../../../src/services/TranscriptionService';
+import {
+  AssemblyAIProvider,
+  FakeSpeechToTextProvider,
+  WhisperProvider
+} from '../../../src/services/SpeechToTextProviders';
+import { TranscriptionValidationError } from '../../../src/models/Transcription';
+
+describe('TranscriptionService', () => {
+  const audio = { data: Buffer.from('recording'), mimeType: 'audio/m4a', fileName: 'recording.m4a' };
+
+  describe('transcribe', () => {
+    it('should return the provider text with word timings', async () => {
+      // Arrange
+      const provider = new FakeSpeechToTextProvider('ten dollars at Target');
+      const service = new TranscriptionService(provider);
+
+      // Act
+      const result = await service.transcribe(audio);
+
+      // Assert
+      expect(result.text).toBe('ten dollars at Target');
+      expect(result.provider).toBe('fake');
+      expect(result.words.map((word) => word.text)).toEqual(['ten', 'dollars', 'at', 'Target']);
+      expect(result.words[1]).toMatchObject({ start: 400, end: 800 });
+      expect(provider.received).toEqual([audio]);
+    });
+
+    it('should reject empty recordings without calling the provider', async () => {
+      // Arrange
+      const provider = new FakeSpeechToTextProvider();
+      const service = new TranscriptionService(provider);
+
+      // Act & Assert
+      await expect(service.transcribe({ ...audio, data: Buffer.alloc(0) })).rejects.toThrow(TranscriptionValidationError);
+      expect(provider.received).toHaveLength(0);
+    });
+
+    it('should report when no provider is configured', async () => {
+      // Arrange
+      const service = new TranscriptionService(null);
+
+      // Act & Assert
+      expect(service.isAvailable()).toBe(false);
+      await expect(service.transcribe(audio)).rejects.toThrow('No speech-to-text provider is configured');
+    });
+  });
+
+  describe('AssemblyAIProvider', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should upload, request a transcript and poll until it completes', async () => {
+      // Arrange
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ upload_url: 'https://cdn.assemblyai.com/upload/abc' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'tr-1', status: 'queued' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'tr-1', status: 'processing' }) })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            id: 'tr-1',
+            status: 'completed',
+            text: 'Ten dollars.',
+            words: [
+              { text: 'Ten', start: 120, end: 400, confidence: 0.98 },
+              { text: 'dollars.', start: 400, end: 900, confidence: 0.95 },
+            ],
+          }),
+        });
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = new AssemblyAIProvider({ apiKey: 'secret', pollIntervalMs: 0 });
+
+      // Act
+      const result = await provider.transcribe(audio);
+
+      // Assert
+      expect(result).toEqual({
+        text: 'Ten dollars.',
+        words: [
+          { text: 'Ten', start: 120, end: 400, confidence: 0.98 },
+          { text: 'dollars.', start: 400, end: 900, confidence: 0.95 },
+        ],
+        provider: 'assemblyai',
+      });
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.assemblyai.com/v2/upload');
+      expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('secret');
+      expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({ audio_url: 'https://cdn.assemblyai.com/upload/abc' });
+      expect(fetchMock.mock.calls[3][0]).toBe('https://api.assemblyai.com/v2/transcript/tr-1');
+    });
+
+    it('should throw when the transcript fails', async () => {
+      // Arrange
+      vi.stubGlobal('fetch', vi.fn()
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ upload_url: 'https://cdn.assemblyai.com/upload/abc' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'tr-1' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'error', error: 'Audio too short' }) }));
+      const provider = new AssemblyAIProvider({ apiKey: 'secret', pollIntervalMs: 0 });
+
+      // Act & Assert
+      await expect(provider.transcribe(audio)).rejects.toThrow('Audio too short');
+    });
+
+    it('should give up on a request that never answers once the timeout passes', async () => {
+      // Arrange
+      const fetchMock = vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+      }));
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = new AssemblyAIProvider({ apiKey: 'secret', pollIntervalMs: 0, timeoutMs: 50 });
+
+      // Act & Assert
+      await expect(provider.transcribe(audio)).rejects.toThrow('AssemblyAI transcription timed out');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+    });
+  });
+
+  describe('WhisperProvider', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should convert word timings from seconds to milliseconds', async () => {
+      // Arrange
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          text: ' ten dollars',
+          segments: [{ words: [{ word: ' ten', start: 0.12, end: 0.4, probability: 0.9 }, { word: ' dollars', start: 0.4, end: 0.9 }] }],
+        }),
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = new WhisperProvider({ baseUrl: 'http://localhost:8000/', model: 'base.en' });
+
+      // Act
+      const result = await provider.transcribe(audio);
+
+      // Assert
+      expect(result).toEqual({
+        text: 'ten dollars',
+        words: [
+          { text: 'ten', start: 120, end: 400, confidence: 0.9 },
+          { text: 'dollars', start: 400, end: 900 },
+        ],
+        provider: 'whisper',
+      });
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8000/v1/audio/transcriptions');
+      expect((fetchMock.mock.calls[0][1].body as FormData).get('model')).toBe('base.en');
+    });
+
+    it('should throw when the server rejects the recording', async () => {
+      // Arrange
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 500 }));
+      const provider = new WhisperProvider({ baseUrl: 'http://localhost:8000' });
+
+      // Act & Assert
+      await expect(provider.transcribe(audio)).rejects.toThrow('status 500');
+    });
+  });
+});